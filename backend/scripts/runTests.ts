@@ -0,0 +1,24 @@
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+
+// Run every src/**/*.test.ts file with Node's test runner. The files are
+// listed here because `node --test` only expands glob patterns from Node 21,
+// and shells don't agree on what ** matches.
+
+const findTestFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTestFiles(entryPath);
+    return entry.name.endsWith('.test.ts') ? [entryPath] : [];
+  });
+
+const files = findTestFiles(path.join(__dirname, '../src')).sort();
+
+const result = spawnSync(
+  process.execPath,
+  ['--require', 'ts-node/register', '--test', ...files],
+  { stdio: 'inherit' }
+);
+
+process.exit(result.status ?? 1);
@@ -197,9 +197,30 @@ const createUsers = async () => {
   }
 };
 
+// Look up (creating when missing) the business unit or industry rows that
+// services and clients refer to, keyed by name
+const getReferenceIds = async (table: 'business_units' | 'industries', names: string[]): Promise<Map<string, number>> => {
+  const ids = new Map<string, number>();
+
+  for (const name of names) {
+    const result = await pool.query(`
+      INSERT INTO ${table} (name, description, status)
+      VALUES ($1, $2, 'active')
+      ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name
+      RETURNING id
+    `, [name, `${name} (sample data)`]);
+    ids.set(name, result.rows[0].id);
+  }
+
+  return ids;
+};
+
 // Create sample services
 const createServices = async () => {
   try {
+    const businessUnitIds = await getReferenceIds('business_units', businessUnits);
+    const industryIds = await getReferenceIds('industries', industries);
+
     // Create 3-5 services for each business unit
     for (const bu of businessUnits) {
       const servicesCount = randomNumber(3, 5);
@@ -218,22 +239,29 @@ const createServices = async () => {
         const clientRole = randomItem(clientRoles);
         const status = Math.random() > 0.2 ? ServiceStatus.ACTIVE : ServiceStatus.INACTIVE;
         
-        await pool.query(`
+        const serviceResult = await pool.query(`
           INSERT INTO services (
             name, description, pricing_model, pricing_details, 
-            business_unit, applicable_industries, client_role, status
+            business_unit_id, client_role, status
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING id
         `, [
           serviceName,
           description,
           pricingModel,
           pricingDetails,
-          bu,
-          applicableIndustries,
+          businessUnitIds.get(bu),
           clientRole,
           status
         ]);
+
+        for (const industry of applicableIndustries) {
+          await pool.query(
+            'INSERT INTO service_industries (service_id, industry_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+            [serviceResult.rows[0].id, industryIds.get(industry)]
+          );
+        }
       }
     }
     
@@ -260,6 +288,7 @@ const createClients = async () => {
     `, [ServiceStatus.ACTIVE]);
     
     const serviceIds = serviceResult.rows.map(row => row.id);
+    const industryIds = await getReferenceIds('industries', industries);
     
     // Create 15-20 clients
     const clientsCount = randomNumber(15, 20);
@@ -290,13 +319,13 @@ const createClients = async () => {
 
       await pool.query(`
         INSERT INTO clients (
-          name, industry, contact_name, contact_email, contact_phone, address,
+          name, industry_id, contact_name, contact_email, contact_phone, address,
           account_owner_id, services_used, crm_link, notes, status
         )
         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       `, [
         name,
-        industry,
+        industryIds.get(industry),
         contactName,
         contactEmail,
         contactPhone,
@@ -332,6 +361,7 @@ const createOpportunities = async () => {
     `, [ServiceStatus.ACTIVE]);
     
     const serviceIds = serviceResult.rows.map(row => row.id);
+    const industryIds = await getReferenceIds('industries', industries);
     
     // Get sales and BU head users for assignment
     const userResult = await pool.query(`
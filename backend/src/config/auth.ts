@@ -0,0 +1,15 @@
+/**
+ * Token settings. Access tokens are short-lived JWTs; refresh tokens are
+ * random strings whose hashes are kept in user_sessions and rotated on use.
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'); // 15 minutes
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// No fallback on purpose: anyone who knows a default secret can mint tokens
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+};
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import AnalyticsModel, {
+  AnalyticsFilters,
+  WIN_RATE_GROUPS,
+  WinRateGroup,
+  parseAnalyticsFilters
+} from '../models/Analytics';
+import { ListQueryError } from '../utils/listQuery';
+
+/**
+ * Run one report for the request's filters, answering 400 for invalid filters
+ */
+const sendReport = async <T>(
+  req: Request,
+  res: Response,
+  description: string,
+  getReport: (filters: AnalyticsFilters) => Promise<T>
+): Promise<void> => {
+  try {
+    const filters = parseAnalyticsFilters(req.query);
+    const data = await getReport(filters);
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    if (error instanceof ListQueryError) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    console.error(`Error fetching ${description}:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Server error while fetching ${description}`
+    });
+  }
+};
+
+/**
+ * Analytics Controller
+ * Pipeline reports for management. Every report takes ?from=&to= (YYYY-MM-DD)
+ * and ?businessUnitId= (comma-separated IDs).
+ */
+class AnalyticsController {
+  /**
+   * Open pipeline value per stage and business unit, for opportunities due
+   * in the date range
+   * @route GET /api/analytics/pipeline
+   * @access Private (Admin, BU Head, Senior Management)
+   */
+  async getPipeline(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'pipeline analytics', filters => AnalyticsModel.getPipeline(filters));
+  }
+
+  /**
+   * Win rate per service, business unit or rep, for opportunities closed in
+   * the date range
+   * @route GET /api/analytics/win-rates?groupBy=service|business_unit|user
+   * @access Private (Admin, BU Head, Senior Management)
+   */
+  async getWinRates(req: Request, res: Response): Promise<void> {
+    const groupBy = (req.query.groupBy || 'service') as WinRateGroup;
+    if (!WIN_RATE_GROUPS.includes(groupBy)) {
+      res.status(400).json({ success: false, message: `groupBy must be one of: ${WIN_RATE_GROUPS.join(', ')}` });
+      return;
+    }
+
+    await sendReport(req, res, 'win rates', filters => AnalyticsModel.getWinRates(filters, groupBy));
+  }
+
+  /**
+   * Average days from creation to won or lost, overall and per business
+   * unit, for opportunities closed in the date range
+   * @route GET /api/analytics/cycle-time
+   * @access Private (Admin, BU Head, Senior Management)
+   */
+  async getCycleTime(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'cycle times', filters => AnalyticsModel.getCycleTimes(filters));
+  }
+
+  /**
+   * Services per client at the end of each month in the date range
+   * @route GET /api/analytics/penetration
+   * @access Private (Admin, BU Head, Senior Management)
+   */
+  async getPenetration(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'cross-sell penetration', filters => AnalyticsModel.getPenetration(filters));
+  }
+
+  /**
+   * Open pipeline by month due, weighted by each stage's win probability
+   * @route GET /api/analytics/forecast
+   * @access Private (Admin, BU Head, Senior Management)
+   */
+  async getForecast(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'forecast', filters => AnalyticsModel.getForecast(filters));
+  }
+}
+
+// Export controller instance
+export default new AnalyticsController();
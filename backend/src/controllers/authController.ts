@@ -1,32 +1,106 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import UserModel, { UserRole } from '../models/User';
+import UserModel, { User, UserRole } from '../models/User';
+import { getUserPermissions } from '../middleware/policyMiddleware';
+import invitationService from '../services/invitationService';
+import sessionService, { SessionMeta } from '../services/sessionService';
+import UserSessionModel from '../models/UserSession';
+import loginProtectionService from '../services/loginProtectionService';
+import passwordResetService from '../services/passwordResetService';
+import twoFactorService from '../services/twoFactorService';
 
-// Generate JWT token
-const generateToken = (userId: number, role: UserRole): string => {
-  const payload = { userId, role };
-  const secret = process.env.JWT_SECRET || 'default_jwt_secret_key';
-  
-  // Use a number for expiresIn (seconds) instead of a string
-  const expiresIn = 86400; // 24 hours in seconds
-  
-  return jwt.sign(payload, secret, { expiresIn });
+// Device details recorded on the session, shown in the sessions list
+const getSessionMeta = (req: Request): SessionMeta => ({
+  user_agent: req.get('user-agent') || null,
+  ip_address: req.ip || null
+});
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Start a session for this device and respond with it and the user
+const sendSession = async (
+  req: Request,
+  res: Response,
+  user: User,
+  status: number,
+  message: string,
+  extra: Record<string, unknown> = {}
+): Promise<void> => {
+  const { accessToken, refreshToken } = await sessionService.start(user, getSessionMeta(req));
+
+  res.status(status).json({
+    message,
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      permissions: await getUserPermissions({ userId: user.id, role: user.role })
+    },
+    token: accessToken,
+    refreshToken,
+    ...extra
+  });
+};
+
+// Once the password checks out, ask for a two-factor code if the user has it
+// on, or have them set it up if their role requires it. Either way the client
+// gets a short-lived challenge token instead of a session.
+const completeSignIn = async (req: Request, res: Response, user: User, status: number, message: string): Promise<void> => {
+  if (await twoFactorService.isEnabled(user.id)) {
+    res.status(status).json({
+      message: 'Enter the code from your authenticator app',
+      twoFactorRequired: true,
+      challengeToken: twoFactorService.createChallenge(user.id, 'verify')
+    });
+    return;
+  }
+
+  if (await twoFactorService.isRequiredForRole(user.role)) {
+    res.status(status).json({
+      message: 'Your role requires two-factor authentication; set it up to continue',
+      twoFactorSetupRequired: true,
+      challengeToken: twoFactorService.createChallenge(user.id, 'setup')
+    });
+    return;
+  }
+
+  // Failed attempts only reset once the user is fully signed in
+  await loginProtectionService.recordSuccess(user);
+  await sendSession(req, res, user, status, message);
+};
+
+// Public sign-up is off unless REGISTRATION_EMAIL_DOMAIN is set, in which case
+// only addresses at that domain may register, and always as sales. Everyone
+// else joins through an admin's invitation.
+const getRegistrationDomain = (): string | null => {
+  const domain = (process.env.REGISTRATION_EMAIL_DOMAIN || '').trim().toLowerCase().replace(/^@/, '');
+  return domain || null;
 };
 
 // Register a new user
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { username, email, password, role } = req.body;
+    const { username, email, password } = req.body;
+
+    const domain = getRegistrationDomain();
+    if (!domain) {
+      res.status(403).json({ message: 'Registration is by invitation only' });
+      return;
+    }
 
     // Validate input
-    if (!username || !email || !password || !role) {
+    if (!username || !email || !password) {
       res.status(400).json({ message: 'All fields are required' });
       return;
     }
 
-    // Check if role is valid
-    if (!Object.values(UserRole).includes(role as UserRole)) {
-      res.status(400).json({ message: 'Invalid role' });
+    if (typeof email !== 'string' || !email.toLowerCase().endsWith(`@${domain}`)) {
+      res.status(403).json({ message: `Registration is limited to @${domain} email addresses` });
+      return;
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
       return;
     }
 
@@ -43,34 +117,89 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Create user
+    // Create user; other roles are only granted through invitations
     const newUser = await UserModel.create({
       username,
       email,
       password,
-      role: role as UserRole
+      role: UserRole.SALES
     });
 
-    // Generate token
-    const token = generateToken(newUser.id, newUser.role);
-
-    // Return user data and token
-    res.status(201).json({
-      message: 'User registered successfully',
-      user: {
-        id: newUser.id,
-        username: newUser.username,
-        email: newUser.email,
-        role: newUser.role
-      },
-      token
-    });
+    await completeSignIn(req, res, newUser, 201, 'User registered successfully');
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ message: 'Server error during registration' });
   }
 };
 
+// Get the invitation an invite link points to, for the accept page
+export const getInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await invitationService.findPending(req.params.token);
+    if (!invitation) {
+      res.status(404).json({ message: 'This invitation is invalid, expired or has already been used' });
+      return;
+    }
+
+    res.status(200).json({
+      email: invitation.email,
+      role: invitation.role,
+      expires_at: invitation.expires_at
+    });
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Accept an invitation: create the user with the invited role and sign them in
+export const acceptInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password } = req.body;
+
+    // Validate input
+    if (!username || !password) {
+      res.status(400).json({ message: 'Username and password are required' });
+      return;
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+
+    const invitation = await invitationService.findPending(req.params.token);
+    if (!invitation) {
+      res.status(404).json({ message: 'This invitation is invalid, expired or has already been used' });
+      return;
+    }
+
+    const existingUserByEmail = await UserModel.findByEmail(invitation.email);
+    if (existingUserByEmail) {
+      res.status(409).json({ message: 'An account with this email already exists' });
+      return;
+    }
+
+    const existingUserByUsername = await UserModel.findByUsername(username);
+    if (existingUserByUsername) {
+      res.status(409).json({ message: 'Username already in use' });
+      return;
+    }
+
+    // The invitation is checked again under a lock, in case the link was used meanwhile
+    const newUser = await invitationService.accept(req.params.token, username, password);
+    if (!newUser) {
+      res.status(404).json({ message: 'This invitation is invalid, expired or has already been used' });
+      return;
+    }
+
+    await completeSignIn(req, res, newUser, 201, 'Invitation accepted');
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ message: 'Server error while accepting invitation' });
+  }
+};
+
 // Login user
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -82,33 +211,90 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const ipAddress = req.ip || null;
+    if (await loginProtectionService.isIpThrottled(ipAddress)) {
+      res.status(429).json({ message: 'Too many failed login attempts. Please try again later.' });
+      return;
+    }
+
+    // Locked accounts are refused before the password is even checked
+    const user = await UserModel.findByEmail(email);
+    const lockedUntil = user && loginProtectionService.getLockedUntil(user);
+    if (lockedUntil) {
+      res.status(423).json({ message: `Account is locked until ${lockedUntil.toISOString()} after too many failed logins` });
+      return;
+    }
+
     // Validate credentials
-    const user = await UserModel.validateCredentials(email, password);
-    if (!user) {
+    if (!user || !(await UserModel.comparePassword(password, user.password))) {
+      const updatedUser = await loginProtectionService.recordFailure(email, ipAddress, user);
+      const nowLockedUntil = updatedUser && loginProtectionService.getLockedUntil(updatedUser);
+      if (nowLockedUntil) {
+        res.status(423).json({ message: `Too many failed logins; account is locked until ${nowLockedUntil.toISOString()}` });
+        return;
+      }
       res.status(401).json({ message: 'Invalid credentials' });
       return;
     }
 
-    // Generate token
-    const token = generateToken(user.id, user.role);
-
-    // Return user data and token
-    res.status(200).json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role
-      },
-      token
-    });
+    await completeSignIn(req, res, user, 200, 'Login successful');
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ message: 'Server error during login' });
   }
 };
 
+// Email a password reset link. Always answers the same way so the response
+// doesn't reveal which addresses have accounts.
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({ message: 'Email is required' });
+      return;
+    }
+
+    // Respond before looking the address up, so the response time doesn't
+    // show whether it has an account; a failure is only logged
+    res.status(200).json({ message: 'If an account exists for that email, a password reset link has been sent' });
+
+    passwordResetService.request(email.trim())
+      .catch(error => console.error('Forgot password error:', error));
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Server error while requesting password reset' });
+  }
+};
+
+// Set a new password with a token from a reset email
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({ message: 'Token and new password are required' });
+      return;
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+
+    const reset = await passwordResetService.reset(token, newPassword);
+    if (!reset) {
+      res.status(400).json({ message: 'This reset link is invalid, expired or has already been used' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Password has been reset; please sign in with your new password' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Server error while resetting password' });
+  }
+};
+
 // Get current user profile
 export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -132,6 +318,7 @@ export const getCurrentUser = async (req: Request, res: Response): Promise<void>
       username: user.username,
       email: user.email,
       role: user.role,
+      permissions: await getUserPermissions({ userId: user.id, role: user.role }),
       created_at: user.created_at,
       updated_at: user.updated_at
     });
@@ -170,14 +357,18 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
     // Verify current password
     const isPasswordValid = await UserModel.comparePassword(currentPassword, user.password);
     if (!isPasswordValid) {
-      res.status(401).json({ message: 'Current password is incorrect' });
+      // Not 401: that would make the client try to refresh its session
+      res.status(400).json({ message: 'Current password is incorrect' });
       return;
     }
 
     // Update password
     await UserModel.updatePassword(userId, newPassword);
 
-    res.status(200).json({ message: 'Password changed successfully' });
+    // Anyone holding the old password may be signed in elsewhere; keep only this device
+    await sessionService.revokeAll(userId, req.user?.sessionId);
+
+    res.status(200).json({ message: 'Password changed successfully; other devices have been signed out' });
   } catch (error) {
     console.error('Change password error:', error);
     res.status(500).json({ message: 'Server error during password change' });
@@ -224,6 +415,7 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
       username: updatedUser.username,
       email: updatedUser.email,
       role: updatedUser.role,
+      permissions: await getUserPermissions({ userId: updatedUser.id, role: updatedUser.role }),
       created_at: updatedUser.created_at,
       updated_at: updatedUser.updated_at
     });
@@ -231,4 +423,292 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
     console.error('Update profile error:', error);
     res.status(500).json({ message: 'Server error during profile update' });
   }
-};
\ No newline at end of file
+};
+// Exchange a refresh token for a new access token and refresh token
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ message: 'Refresh token is required' });
+      return;
+    }
+
+    const tokens = await sessionService.refresh(refreshToken, getSessionMeta(req));
+    if (!tokens) {
+      res.status(401).json({ message: 'Session has expired or been revoked' });
+      return;
+    }
+
+    res.status(200).json({
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ message: 'Server error during token refresh' });
+  }
+};
+
+// Sign out of the current session
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await UserSessionModel.revoke(req.user!.sessionId, req.user!.userId);
+    res.status(200).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+};
+
+// Sign out of every session, including this one
+export const logoutAll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const count = await sessionService.revokeAll(req.user!.userId);
+    res.status(200).json({ message: `Logged out of ${count} session(s)` });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+};
+
+// List the current user's active sessions
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await UserSessionModel.findActiveByUser(req.user!.userId);
+
+    // Never hand the token hash back to clients
+    res.status(200).json(sessions.map(({ refresh_token_hash, ...session }) => ({
+      ...session,
+      current: session.id === req.user!.sessionId
+    })));
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error while fetching sessions' });
+  }
+};
+
+// Revoke one of the current user's sessions
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({ message: 'Invalid session ID' });
+      return;
+    }
+
+    // Scoped to the caller, so other users' sessions look like they don't exist
+    const revoked = await UserSessionModel.revoke(id, req.user!.userId);
+    if (!revoked) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error while revoking session' });
+  }
+};
+
+// Second step of a login: check the code for a challenge token. For a setup
+// challenge this also turns two-factor on, and returns the recovery codes.
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code || typeof code !== 'string') {
+      res.status(400).json({ message: 'Challenge token and code are required' });
+      return;
+    }
+
+    const ipAddress = req.ip || null;
+    if (await loginProtectionService.isIpThrottled(ipAddress)) {
+      res.status(429).json({ message: 'Too many failed login attempts. Please try again later.' });
+      return;
+    }
+
+    const challenge = twoFactorService.verifyChallenge(challengeToken);
+    const user = challenge && await UserModel.findById(challenge.userId);
+    if (!challenge || !user) {
+      res.status(401).json({ message: 'This sign-in has expired; please sign in again' });
+      return;
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const lockedUntil = loginProtectionService.getLockedUntil(user);
+    if (lockedUntil) {
+      res.status(423).json({ message: `Account is locked until ${lockedUntil.toISOString()} after too many failed logins` });
+      return;
+    }
+
+    let recoveryCodes: string[] | null = null;
+    let valid: boolean;
+    if (challenge.purpose === 'setup') {
+      recoveryCodes = await twoFactorService.enable(user.id, code);
+      valid = recoveryCodes !== null;
+    } else {
+      valid = await twoFactorService.verify(user.id, code);
+    }
+
+    if (!valid) {
+      const updatedUser = await loginProtectionService.recordFailure(user.email, ipAddress, user);
+      const nowLockedUntil = updatedUser && loginProtectionService.getLockedUntil(updatedUser);
+      if (nowLockedUntil) {
+        res.status(423).json({ message: `Too many failed logins; account is locked until ${nowLockedUntil.toISOString()}` });
+        return;
+      }
+      res.status(401).json({ message: 'Invalid two-factor code' });
+      return;
+    }
+
+    await loginProtectionService.recordSuccess(user);
+    await sendSession(req, res, user, 200, 'Login successful', recoveryCodes ? { recoveryCodes } : {});
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'Server error during login' });
+  }
+};
+
+// Generate a secret for a user whose role requires two-factor but who hasn't
+// set it up, during login
+export const beginTwoFactorLoginSetup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const challenge = req.body.challengeToken && twoFactorService.verifyChallenge(req.body.challengeToken);
+    if (!challenge || challenge.purpose !== 'setup') {
+      res.status(401).json({ message: 'This sign-in has expired; please sign in again' });
+      return;
+    }
+
+    const user = await UserModel.findById(challenge.userId);
+    if (!user) {
+      res.status(401).json({ message: 'This sign-in has expired; please sign in again' });
+      return;
+    }
+
+    const setup = await twoFactorService.beginSetup(user);
+    if (!setup) {
+      res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.status(200).json(setup);
+  } catch (error) {
+    console.error('Two-factor login setup error:', error);
+    res.status(500).json({ message: 'Server error during two-factor setup' });
+  }
+};
+
+// Get the current user's two-factor status
+export const getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = await twoFactorService.getStatus({ id: req.user!.userId, role: req.user!.role });
+    res.status(200).json(status);
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ message: 'Server error while fetching two-factor status' });
+  }
+};
+
+// Start two-factor enrollment for the current user
+export const beginTwoFactorSetup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await UserModel.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const setup = await twoFactorService.beginSetup(user);
+    if (!setup) {
+      res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.status(200).json(setup);
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Server error during two-factor setup' });
+  }
+};
+
+// Finish enrollment by confirming a code from the new secret
+export const enableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ message: 'Code is required' });
+      return;
+    }
+
+    const recoveryCodes = await twoFactorService.enable(req.user!.userId, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ message: 'Invalid code; check the time on your device and try again' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ message: 'Server error while enabling two-factor authentication' });
+  }
+};
+
+// Check the current user's password before a two-factor change.
+// Responds and returns false when it's wrong.
+const confirmPassword = async (req: Request, res: Response): Promise<boolean> => {
+  const { password } = req.body;
+  const user = await UserModel.findById(req.user!.userId);
+
+  if (!password || !user || !(await UserModel.comparePassword(password, user.password))) {
+    // Not 401: that would make the client try to refresh its session
+    res.status(400).json({ message: 'Password is incorrect' });
+    return false;
+  }
+
+  return true;
+};
+
+// Turn two-factor off for the current user, unless their role requires it
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (await twoFactorService.isRequiredForRole(req.user!.role)) {
+      res.status(403).json({ message: 'Two-factor authentication is required for your role' });
+      return;
+    }
+
+    if (!(await confirmPassword(req, res))) {
+      return;
+    }
+
+    await twoFactorService.disable(req.user!.userId);
+
+    res.status(200).json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ message: 'Server error while disabling two-factor authentication' });
+  }
+};
+
+// Replace the current user's recovery codes
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await twoFactorService.isEnabled(req.user!.userId))) {
+      res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (!(await confirmPassword(req, res))) {
+      return;
+    }
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.userId);
+
+    res.status(200).json({ message: 'New recovery codes generated', recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ message: 'Server error while generating recovery codes' });
+  }
+};
@@ -1,5 +1,57 @@
 import { Request, Response } from 'express';
 import BusinessUnitModel, { BusinessUnit, BusinessUnitInput, BusinessUnitStatus } from '../models/BusinessUnit';
+import UserModel, { UserRole } from '../models/User';
+
+// Matches business_units.name
+const NAME_MAX_LENGTH = 100;
+
+/**
+ * Check the shape of a create/update body, returning an error message or null.
+ * On update every field is optional, but name can't be blanked.
+ */
+const validateBusinessUnitFields = (body: any, isUpdate: boolean): string | null => {
+  const { name, description, status, owner_id } = body;
+
+  if (name !== undefined || !isUpdate) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Name is required';
+    }
+    if (name.trim().length > NAME_MAX_LENGTH) {
+      return `Name must be at most ${NAME_MAX_LENGTH} characters`;
+    }
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return 'Description must be text';
+  }
+  if (status !== undefined && !Object.values(BusinessUnitStatus).includes(status)) {
+    return 'Status must be active or inactive';
+  }
+  if (owner_id !== undefined && owner_id !== null && owner_id !== '' && !Number.isInteger(Number(owner_id))) {
+    return 'Owner must be a user ID';
+  }
+
+  return null;
+};
+
+// An empty owner clears it; anything else has to be a BU Head
+const checkOwner = async (ownerId: number | null): Promise<string | null> => {
+  if (ownerId === null) {
+    return null;
+  }
+
+  const owner = await UserModel.findById(ownerId);
+  if (!owner) {
+    return 'Owner not found';
+  }
+  if (owner.role !== UserRole.BU_HEAD) {
+    return 'Owner must be a BU Head';
+  }
+
+  return null;
+};
+
+const parseOwnerId = (ownerId: any): number | null =>
+  ownerId === null || ownerId === '' ? null : Number(ownerId);
 
 /**
  * Business Unit Controller Class
@@ -12,17 +64,27 @@ class BusinessUnitController {
     try {
       const { name, description, status, owner_id } = req.body;
 
-      // Validate required fields
-      if (!name || !description) {
+      const invalid = validateBusinessUnitFields(req.body, false);
+      if (invalid) {
         res.status(400).json({ 
           success: false,
-          message: 'Name and description are required' 
+          message: invalid 
+        });
+        return;
+      }
+
+      const ownerId = owner_id === undefined ? null : parseOwnerId(owner_id);
+      const ownerError = await checkOwner(ownerId);
+      if (ownerError) {
+        res.status(400).json({ 
+          success: false,
+          message: ownerError 
         });
         return;
       }
 
       // Check if business unit with the same name already exists
-      const existingBusinessUnit = await BusinessUnitModel.findByName(name);
+      const existingBusinessUnit = await BusinessUnitModel.findByName(name.trim());
       if (existingBusinessUnit) {
         res.status(409).json({ 
           success: false,
@@ -33,10 +95,10 @@ class BusinessUnitController {
 
       // Create business unit with status or default to ACTIVE
       const businessUnitData: BusinessUnitInput = {
-        name,
-        description,
+        name: name.trim(),
+        description: description || '',
         status: status || BusinessUnitStatus.ACTIVE,
-        owner_id: owner_id || undefined
+        owner_id: ownerId
       };
 
       const businessUnit = await BusinessUnitModel.create(businessUnitData);
@@ -139,6 +201,15 @@ class BusinessUnitController {
         });
         return;
       }
+
+      const invalid = validateBusinessUnitFields(req.body, true);
+      if (invalid) {
+        res.status(400).json({ 
+          success: false,
+          message: invalid 
+        });
+        return;
+      }
       
       // Check if business unit exists
       const existingBusinessUnit = await BusinessUnitModel.findById(Number(id));
@@ -149,10 +220,21 @@ class BusinessUnitController {
         });
         return;
       }
+
+      if (owner_id !== undefined) {
+        const ownerError = await checkOwner(parseOwnerId(owner_id));
+        if (ownerError) {
+          res.status(400).json({ 
+            success: false,
+            message: ownerError 
+          });
+          return;
+        }
+      }
       
       // Check if there's another business unit with the same name
-      if (name && name !== existingBusinessUnit.name) {
-        const duplicateBusinessUnit = await BusinessUnitModel.findByName(name);
+      if (name && name.trim() !== existingBusinessUnit.name) {
+        const duplicateBusinessUnit = await BusinessUnitModel.findByName(name.trim());
         if (duplicateBusinessUnit) {
           res.status(409).json({ 
             success: false,
@@ -164,12 +246,12 @@ class BusinessUnitController {
       
       // Prepare update data
       const updateData: Partial<BusinessUnitInput> = {};
-      if (name) updateData.name = name;
-      if (description !== undefined) updateData.description = description;
+      if (name) updateData.name = name.trim();
+      if (description !== undefined) updateData.description = description || '';
       if (status) updateData.status = status as BusinessUnitStatus;
       // Include owner_id in update data if it's provided in the request
       if (owner_id !== undefined) {
-        updateData.owner_id = owner_id === null ? null : Number(owner_id);
+        updateData.owner_id = parseOwnerId(owner_id);
       }
       
       // Update the business unit
@@ -222,9 +304,43 @@ class BusinessUnitController {
         });
         return;
       }
+
+      // Services refer to the unit by ID, so it can't go while any remain
+      // (deleted services included, they keep their reference) unless the
+      // caller names a unit to move them to
+      const reassignTo = req.query.reassignTo !== undefined ? Number(req.query.reassignTo) : undefined;
+      if (reassignTo !== undefined) {
+        if (!Number.isInteger(reassignTo) || reassignTo === Number(id)) {
+          res.status(400).json({
+            success: false,
+            message: 'reassignTo must be the ID of another business unit'
+          });
+          return;
+        }
+
+        const target = await BusinessUnitModel.findById(reassignTo);
+        if (!target || target.status !== BusinessUnitStatus.ACTIVE) {
+          res.status(400).json({
+            success: false,
+            message: 'reassignTo must be an active business unit'
+          });
+          return;
+        }
+      } else {
+        const serviceCount = await BusinessUnitModel.countServices(Number(id));
+        if (serviceCount > 0) {
+          res.status(409).json({
+            success: false,
+            message: `Business unit is used by ${serviceCount} service(s); move them to another business unit first`
+          });
+          return;
+        }
+      }
       
       // Delete the business unit
-      const success = await BusinessUnitModel.delete(Number(id));
+      const success = reassignTo !== undefined
+        ? await BusinessUnitModel.deleteAndReassign(Number(id), reassignTo)
+        : await BusinessUnitModel.delete(Number(id));
       
       if (!success) {
         res.status(500).json({ 
@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import ClientModel from '../models/Client';
+import ClientContactModel, { ClientContactInput } from '../models/ClientContact';
+import ServiceModel from '../models/Service';
+
+/**
+ * Client Contact Controller
+ * Handles the contacts nested under a client
+ */
+class ClientContactController {
+  /**
+   * Get all contacts for a client
+   * @route GET /api/clients/:id/contacts
+   * @access Private
+   */
+  async getContacts(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: 'Invalid client ID' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ message: 'Client not found' });
+        return;
+      }
+
+      const contacts = await ClientContactModel.findByClient(clientId);
+
+      res.status(200).json({
+        success: true,
+        count: contacts.length,
+        data: contacts
+      });
+    } catch (error) {
+      console.error('Error getting client contacts:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving client contacts'
+      });
+    }
+  }
+
+  /**
+   * Suggest the client contact whose role matches a service's ideal client role
+   * @route GET /api/clients/:id/contacts/suggested?serviceId=
+   * @access Private
+   */
+  async getSuggestedContact(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const serviceId = parseInt(req.query.serviceId as string);
+
+      if (isNaN(clientId) || isNaN(serviceId)) {
+        res.status(400).json({ message: 'Invalid client ID or service ID' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+      const service = await ServiceModel.findById(serviceId);
+
+      if (!client || !service) {
+        res.status(404).json({ message: 'Client or service not found' });
+        return;
+      }
+
+      const contact = service.client_role
+        ? await ClientContactModel.findBestMatchForRole(clientId, service.client_role)
+        : null;
+
+      res.status(200).json({
+        success: true,
+        client_role: service.client_role,
+        data: contact
+      });
+    } catch (error) {
+      console.error('Error suggesting client contact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while suggesting client contact'
+      });
+    }
+  }
+
+  /**
+   * Add a contact to a client
+   * @route POST /api/clients/:id/contacts
+   * @access Private (Admin, Sales)
+   */
+  async createContact(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const contactData: ClientContactInput = req.body;
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: 'Invalid client ID' });
+        return;
+      }
+
+      if (!contactData.name) {
+        res.status(400).json({ message: 'Contact name is required' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ message: 'Client not found' });
+        return;
+      }
+
+      const contact = await ClientContactModel.create({ ...contactData, client_id: clientId });
+
+      res.status(201).json({
+        success: true,
+        data: contact
+      });
+    } catch (error) {
+      console.error('Error creating client contact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while creating client contact'
+      });
+    }
+  }
+
+  /**
+   * Update a client contact
+   * @route PUT /api/clients/:id/contacts/:contactId
+   * @access Private (Admin, Sales)
+   */
+  async updateContact(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const contactId = parseInt(req.params.contactId);
+
+      if (isNaN(clientId) || isNaN(contactId)) {
+        res.status(400).json({ message: 'Invalid client ID or contact ID' });
+        return;
+      }
+
+      const existingContact = await ClientContactModel.findById(contactId);
+
+      if (!existingContact || existingContact.client_id !== clientId) {
+        res.status(404).json({ message: 'Contact not found' });
+        return;
+      }
+
+      if (req.body.name !== undefined && !req.body.name) {
+        res.status(400).json({ message: 'Contact name is required' });
+        return;
+      }
+
+      const updatedContact = await ClientContactModel.update(contactId, req.body);
+
+      if (!updatedContact) {
+        res.status(400).json({ message: 'No fields to update or update failed' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: updatedContact
+      });
+    } catch (error) {
+      console.error('Error updating client contact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while updating client contact'
+      });
+    }
+  }
+
+  /**
+   * Delete a client contact
+   * @route DELETE /api/clients/:id/contacts/:contactId
+   * @access Private (Admin, Sales)
+   */
+  async deleteContact(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const contactId = parseInt(req.params.contactId);
+
+      if (isNaN(clientId) || isNaN(contactId)) {
+        res.status(400).json({ message: 'Invalid client ID or contact ID' });
+        return;
+      }
+
+      const existingContact = await ClientContactModel.findById(contactId);
+
+      if (!existingContact || existingContact.client_id !== clientId) {
+        res.status(404).json({ message: 'Contact not found' });
+        return;
+      }
+
+      await ClientContactModel.delete(contactId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Contact deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting client contact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while deleting client contact'
+      });
+    }
+  }
+}
+
+export default new ClientContactController();
@@ -1,5 +1,50 @@
 import { Request, Response } from 'express';
-import ClientModel, { ClientInput, ClientStatus } from '../models/Client';
+import ClientModel, { ClientInput, ClientStatus, CLIENT_LIST_CONFIG } from '../models/Client';
+import ClientContactModel from '../models/ClientContact';
+import IndustryModel from '../models/Industry';
+import ClientMergeModel from '../models/ClientMerge';
+import clientDuplicateService, { ClientMergeError } from '../services/clientDuplicateService';
+import clientChurnService, { ChurnError } from '../services/clientChurnService';
+import { isListQuery, parseListQuery, ListQueryError } from '../utils/listQuery';
+
+// Columns a request body may set; the industry is given by ID
+const CLIENT_FIELDS: Array<keyof ClientInput> = [
+  'name', 'industry_id', 'contact_name', 'contact_email', 'contact_phone', 'address',
+  'account_owner_id', 'services_used', 'crm_link', 'notes', 'status'
+];
+
+const pickClientFields = (body: any): Partial<ClientInput> => {
+  const data: Partial<ClientInput> = {};
+  CLIENT_FIELDS.forEach(field => {
+    if (body[field] !== undefined) (data as any)[field] = body[field];
+  });
+  return data;
+};
+
+/**
+ * Check that the industry a client refers to exists. Returns an error
+ * message, or null when it does.
+ */
+const checkIndustry = async (data: Partial<ClientInput>): Promise<string | null> => {
+  if (data.industry_id === undefined) return null;
+
+  const industryId = Number(data.industry_id);
+  if (!Number.isInteger(industryId) || !(await IndustryModel.findById(industryId))) {
+    return 'Unknown industry';
+  }
+  data.industry_id = industryId;
+  return null;
+};
+
+/**
+ * Client names must be unique, ignoring case and surrounding spaces.
+ * Returns an error message, or null when the name is free.
+ */
+const checkNameTaken = async (name: string | undefined, excludeId?: number): Promise<string | null> => {
+  if (!name) return null;
+  const existing = await ClientModel.findByName(name, excludeId);
+  return existing ? `A client named "${existing.name}" already exists` : null;
+};
 
 /**
  * Client Controller
@@ -13,17 +58,54 @@ class ClientController {
    */
   async createClient(req: Request, res: Response): Promise<void> {
     try {
-      const clientData: ClientInput = req.body;
+      const clientData = pickClientFields(req.body) as ClientInput;
       
       // Validate required fields
-      if (!clientData.name || !clientData.industry || !clientData.account_owner_id) {
+      if (!clientData.name || !clientData.industry_id || !clientData.account_owner_id) {
         res.status(400).json({ message: 'Please provide all required fields' });
         return;
       }
+
+      const industryError = await checkIndustry(clientData);
+      if (industryError) {
+        res.status(400).json({ message: industryError });
+        return;
+      }
+
+      const nameError = await checkNameTaken(clientData.name);
+      if (nameError) {
+        res.status(409).json({ success: false, message: nameError, nameTaken: true });
+        return;
+      }
+
+      // Likely duplicates need confirming with ?allowDuplicates=true
+      if (req.query.allowDuplicates !== 'true') {
+        const duplicates = await clientDuplicateService.findDuplicates(clientData);
+        if (duplicates.length > 0) {
+          res.status(409).json({
+            success: false,
+            message: 'This client looks like an existing client',
+            hasDuplicates: true,
+            duplicates
+          });
+          return;
+        }
+      }
       
       // Create the client
       const client = await ClientModel.create(clientData);
       
+      // The contact given on the client form becomes its primary contact
+      if (clientData.contact_name) {
+        await ClientContactModel.create({
+          client_id: client.id,
+          name: clientData.contact_name,
+          email: clientData.contact_email,
+          phone: clientData.contact_phone,
+          is_primary: true
+        });
+      }
+      
       res.status(201).json({
         success: true,
         data: client
@@ -44,15 +126,31 @@ class ClientController {
    */
   async getAllClients(req: Request, res: Response): Promise<void> {
     try {
+      // page/pageSize/sort/filter/q return one page with the total count
+      if (isListQuery(req.query)) {
+        const listQuery = parseListQuery(req.query, CLIENT_LIST_CONFIG);
+        const page = await ClientModel.findPage(listQuery);
+        res.status(200).json({
+          success: true,
+          ...page
+        });
+        return;
+      }
+      
       // Check for query parameters
-      const { status, industry, accountOwnerId } = req.query;
+      const { status, industryId, accountOwnerId } = req.query;
       
       let clients;
       
       if (status === 'active') {
         clients = await ClientModel.findActive();
-      } else if (industry) {
-        clients = await ClientModel.findByIndustry(industry as string);
+      } else if (industryId) {
+        const parsedIndustryId = parseInt(industryId as string);
+        if (isNaN(parsedIndustryId)) {
+          res.status(400).json({ message: 'Invalid industry ID' });
+          return;
+        }
+        clients = await ClientModel.findByIndustry(parsedIndustryId);
       } else if (accountOwnerId) {
         const ownerId = parseInt(accountOwnerId as string);
         if (isNaN(ownerId)) {
@@ -70,6 +168,10 @@ class ClientController {
         data: clients
       });
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
       console.error('Error getting clients:', error);
       res.status(500).json({
         success: false,
@@ -114,19 +216,19 @@ class ClientController {
 
   /**
    * Get clients by industry
-   * @route GET /api/clients/industry/:industry
+   * @route GET /api/clients/industry/:industryId
    * @access Private
    */
   async getClientsByIndustry(req: Request, res: Response): Promise<void> {
     try {
-      const industry = req.params.industry;
+      const industryId = parseInt(req.params.industryId);
       
-      if (!industry) {
-        res.status(400).json({ message: 'Industry is required' });
+      if (isNaN(industryId)) {
+        res.status(400).json({ message: 'Invalid industry ID' });
         return;
       }
       
-      const clients = await ClientModel.findByIndustry(industry);
+      const clients = await ClientModel.findByIndustry(industryId);
       
       res.status(200).json({
         success: true,
@@ -180,7 +282,7 @@ class ClientController {
   async updateClient(req: Request, res: Response): Promise<void> {
     try {
       const id = parseInt(req.params.id);
-      const updateData = req.body;
+      const updateData = pickClientFields(req.body);
       
       if (isNaN(id)) {
         res.status(400).json({ message: 'Invalid client ID' });
@@ -194,9 +296,21 @@ class ClientController {
         res.status(404).json({ message: 'Client not found' });
         return;
       }
+
+      const industryError = await checkIndustry(updateData);
+      if (industryError) {
+        res.status(400).json({ message: industryError });
+        return;
+      }
+
+      const nameError = await checkNameTaken(updateData.name, id);
+      if (nameError) {
+        res.status(409).json({ success: false, message: nameError, nameTaken: true });
+        return;
+      }
       
-      // Update the client
-      const updatedClient = await ClientModel.update(id, updateData);
+      // Update the client, along with churn for any services it dropped
+      const updatedClient = await clientChurnService.updateClient(id, updateData, req.user ? req.user.userId : null);
       
       if (!updatedClient) {
         res.status(400).json({ message: 'No fields to update or update failed' });
@@ -380,7 +494,7 @@ class ClientController {
   }
 
   /**
-   * Remove service from client
+   * Remove service from client, recording the churn. Body: { reason, notes?, churned_on? }
    * @route DELETE /api/clients/:clientId/services/:serviceId
    * @access Private (Admin, Sales)
    */
@@ -402,19 +516,19 @@ class ClientController {
         return;
       }
       
-      // Remove service from client
-      const result = await ClientModel.removeService(clientId, serviceId);
-      
-      if (!result) {
-        res.status(400).json({ message: 'Failed to remove service from client or service not associated' });
-        return;
-      }
+      const { reason, notes, churned_on } = req.body || {};
+      const result = await clientChurnService.churn(clientId, serviceId, { reason, notes, churned_on }, req.user!.userId);
       
       res.status(200).json({
         success: true,
-        message: 'Service removed from client successfully'
+        message: 'Service removed from client successfully',
+        data: result
       });
     } catch (error) {
+      if (error instanceof ChurnError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
       console.error('Error removing service from client:', error);
       res.status(500).json({
         success: false,
@@ -461,6 +575,169 @@ class ClientController {
       });
     }
   }
+
+  /**
+   * Check client details against existing clients for likely duplicates,
+   * e.g. while the client form is being filled in
+   * @route GET /api/clients/duplicates?name=&contact_email=&contact_phone=&excludeId=
+   * @access Private
+   */
+  async checkDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, contact_email, contact_phone, excludeId } = req.query;
+
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ success: false, message: 'name is required' });
+        return;
+      }
+
+      const duplicates = await clientDuplicateService.findDuplicates(
+        {
+          name,
+          contact_email: typeof contact_email === 'string' ? contact_email : null,
+          contact_phone: typeof contact_phone === 'string' ? contact_phone : null
+        },
+        excludeId ? parseInt(excludeId as string) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        count: duplicates.length,
+        data: duplicates
+      });
+    } catch (error) {
+      console.error('Error checking client duplicates:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while checking for duplicate clients'
+      });
+    }
+  }
+
+  /**
+   * Get every pair of clients that look like duplicates, best match first
+   * @route GET /api/clients/duplicates/pairs
+   * @access Private (Admin)
+   */
+  async getDuplicatePairs(req: Request, res: Response): Promise<void> {
+    try {
+      const pairs = await clientDuplicateService.findDuplicatePairs();
+
+      res.status(200).json({
+        success: true,
+        count: pairs.length,
+        data: pairs
+      });
+    } catch (error) {
+      console.error('Error getting duplicate clients:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving duplicate clients'
+      });
+    }
+  }
+
+  /**
+   * Get the clients that look like duplicates of a client
+   * @route GET /api/clients/:id/duplicates
+   * @access Private
+   */
+  async getClientDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid client ID' });
+        return;
+      }
+
+      if (!(await ClientModel.findById(id))) {
+        res.status(404).json({ message: 'Client not found' });
+        return;
+      }
+
+      const duplicates = await clientDuplicateService.findDuplicatesOf(id);
+
+      res.status(200).json({
+        success: true,
+        count: duplicates.length,
+        data: duplicates
+      });
+    } catch (error) {
+      console.error('Error getting client duplicates:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving duplicate clients'
+      });
+    }
+  }
+
+  /**
+   * Merge a duplicate client into this one. The duplicate's opportunities
+   * and contacts move here, its services are added to this client's, and it
+   * is soft deleted; an audit record of the merge is kept.
+   * @route POST /api/clients/:id/merge
+   * @access Private (Admin)
+   */
+  async mergeClient(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      const duplicateId = parseInt(req.body.duplicate_id);
+
+      if (isNaN(id) || isNaN(duplicateId)) {
+        res.status(400).json({ message: 'Invalid client ID or duplicate_id' });
+        return;
+      }
+
+      const result = await clientDuplicateService.merge(id, duplicateId, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: `Merged "${result.merge.merged_client.name}" into "${result.client.name}"`,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof ClientMergeError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error merging clients:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while merging clients'
+      });
+    }
+  }
+
+  /**
+   * Get the merge history of a client
+   * @route GET /api/clients/:id/merges
+   * @access Private (Admin)
+   */
+  async getClientMerges(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid client ID' });
+        return;
+      }
+
+      const merges = await ClientMergeModel.findByClient(id);
+
+      res.status(200).json({
+        success: true,
+        count: merges.length,
+        data: merges
+      });
+    } catch (error) {
+      console.error('Error getting client merges:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving client merges'
+      });
+    }
+  }
 }
 
 export default new ClientController();
@@ -0,0 +1,321 @@
+import { Request, Response } from 'express';
+import ClientModel from '../models/Client';
+import ClientServiceModel, { BillingFrequency, ClientService, ClientServiceInput } from '../models/ClientService';
+import ClientServiceChurnModel from '../models/ClientServiceChurn';
+import ServiceModel from '../models/Service';
+import workflowService from '../services/workflowService';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: unknown): boolean =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Check an engagement's terms, merged over the existing engagement when
+ * updating. Returns the problem, or null if the terms are valid.
+ */
+const validateEngagement = (data: Partial<ClientServiceInput>, existing?: ClientService): string | null => {
+  const terms = { ...existing, ...data };
+
+  if (terms.contract_value === undefined || terms.contract_value === null) {
+    return 'Contract value is required';
+  }
+  if (typeof terms.contract_value !== 'number' || !isFinite(terms.contract_value) || terms.contract_value < 0) {
+    return 'Contract value must be a number of zero or more';
+  }
+  if (terms.billing_frequency && !Object.values(BillingFrequency).includes(terms.billing_frequency)) {
+    return `Billing frequency must be one of: ${Object.values(BillingFrequency).join(', ')}`;
+  }
+  if (!isDate(terms.start_date)) {
+    return 'Start date is required (YYYY-MM-DD)';
+  }
+  if (terms.end_date && !isDate(terms.end_date)) {
+    return 'End date must be a date (YYYY-MM-DD)';
+  }
+  if (terms.renewal_date && !isDate(terms.renewal_date)) {
+    return 'Renewal date must be a date (YYYY-MM-DD)';
+  }
+  if (terms.end_date && terms.end_date < terms.start_date!) {
+    return 'End date cannot be before the start date';
+  }
+
+  return null;
+};
+
+/**
+ * Client Service Controller
+ * Handles the service engagements (contracts) nested under a client, the
+ * revenue worked out from them and the client's churn history
+ */
+class ClientServiceController {
+  /**
+   * Get all engagements for a client
+   * @route GET /api/clients/:id/engagements
+   * @access Private
+   */
+  async getEngagements(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ success: false, message: 'Client not found' });
+        return;
+      }
+
+      const engagements = await ClientServiceModel.findByClient(clientId);
+
+      res.status(200).json({
+        success: true,
+        count: engagements.length,
+        data: engagements
+      });
+    } catch (error) {
+      console.error('Error getting client engagements:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving client engagements'
+      });
+    }
+  }
+
+  /**
+   * Get a client's lifetime and annual recurring revenue per business unit
+   * @route GET /api/clients/:id/revenue
+   * @access Private
+   */
+  async getRevenue(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ success: false, message: 'Client not found' });
+        return;
+      }
+
+      const revenue = await ClientServiceModel.getRevenueByBusinessUnit(clientId);
+
+      res.status(200).json({
+        success: true,
+        data: revenue
+      });
+    } catch (error) {
+      console.error('Error getting client revenue:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving client revenue'
+      });
+    }
+  }
+
+  /**
+   * Get the services a client stopped using, with why
+   * @route GET /api/clients/:id/churn
+   * @access Private
+   */
+  async getChurn(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID' });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ success: false, message: 'Client not found' });
+        return;
+      }
+
+      const churn = await ClientServiceChurnModel.findByClient(clientId);
+
+      res.status(200).json({
+        success: true,
+        count: churn.length,
+        data: churn
+      });
+    } catch (error) {
+      console.error('Error getting client churn:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving client churn'
+      });
+    }
+  }
+
+  /**
+   * Record an engagement for a client. The service is added to the client's
+   * services if it isn't there yet.
+   * @route POST /api/clients/:id/engagements
+   * @access Private (Admin, or Sales for their own clients)
+   */
+  async createEngagement(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const engagementData: ClientServiceInput = req.body;
+
+      if (isNaN(clientId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID' });
+        return;
+      }
+
+      if (!engagementData.service_id) {
+        res.status(400).json({ success: false, message: 'Service is required' });
+        return;
+      }
+
+      const problem = validateEngagement(engagementData);
+      if (problem) {
+        res.status(400).json({ success: false, message: problem });
+        return;
+      }
+
+      const client = await ClientModel.findById(clientId);
+
+      if (!client) {
+        res.status(404).json({ success: false, message: 'Client not found' });
+        return;
+      }
+
+      const service = await ServiceModel.findById(engagementData.service_id);
+
+      if (!service) {
+        res.status(404).json({ success: false, message: 'Service not found' });
+        return;
+      }
+
+      const engagement = await ClientServiceModel.create({
+        ...engagementData,
+        client_id: clientId,
+        // Engagements for opportunities are only created when they're won
+        opportunity_id: null,
+        created_by: req.user!.userId
+      });
+
+      if (!(client.services_used || []).includes(service.id)) {
+        await ClientModel.addService(clientId, service.id);
+      }
+
+      await workflowService.scheduleRenewalCheck(engagement);
+
+      res.status(201).json({
+        success: true,
+        message: 'Engagement recorded successfully',
+        data: engagement
+      });
+    } catch (error) {
+      console.error('Error creating client engagement:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while creating client engagement'
+      });
+    }
+  }
+
+  /**
+   * Update an engagement's terms
+   * @route PUT /api/clients/:id/engagements/:engagementId
+   * @access Private (Admin, or Sales for their own clients)
+   */
+  async updateEngagement(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const engagementId = parseInt(req.params.engagementId);
+
+      if (isNaN(clientId) || isNaN(engagementId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID or engagement ID' });
+        return;
+      }
+
+      const existingEngagement = await ClientServiceModel.findById(engagementId);
+
+      if (!existingEngagement || existingEngagement.client_id !== clientId) {
+        res.status(404).json({ success: false, message: 'Engagement not found' });
+        return;
+      }
+
+      const problem = validateEngagement(req.body, existingEngagement);
+      if (problem) {
+        res.status(400).json({ success: false, message: problem });
+        return;
+      }
+
+      const updatedEngagement = await ClientServiceModel.update(engagementId, req.body);
+
+      if (!updatedEngagement) {
+        res.status(400).json({ success: false, message: 'No fields to update or update failed' });
+        return;
+      }
+
+      // A changed renewal or end date queues a fresh check
+      await workflowService.scheduleRenewalCheck(updatedEngagement);
+
+      res.status(200).json({
+        success: true,
+        message: 'Engagement updated successfully',
+        data: updatedEngagement
+      });
+    } catch (error) {
+      console.error('Error updating client engagement:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while updating client engagement'
+      });
+    }
+  }
+
+  /**
+   * Delete an engagement
+   * @route DELETE /api/clients/:id/engagements/:engagementId
+   * @access Private (Admin, or Sales for their own clients)
+   */
+  async deleteEngagement(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = parseInt(req.params.id);
+      const engagementId = parseInt(req.params.engagementId);
+
+      if (isNaN(clientId) || isNaN(engagementId)) {
+        res.status(400).json({ success: false, message: 'Invalid client ID or engagement ID' });
+        return;
+      }
+
+      const existingEngagement = await ClientServiceModel.findById(engagementId);
+
+      if (!existingEngagement || existingEngagement.client_id !== clientId) {
+        res.status(404).json({ success: false, message: 'Engagement not found' });
+        return;
+      }
+
+      await ClientServiceModel.delete(engagementId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Engagement deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting client engagement:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while deleting client engagement'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new ClientServiceController();
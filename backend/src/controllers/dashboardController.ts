@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import dashboardService, { DashboardLayoutError } from '../services/dashboardService';
+
+/**
+ * Dashboard Controller
+ * Each user's dashboard cards, computed for their role, and their choice
+ * and order of cards
+ */
+class DashboardController {
+  /**
+   * Get the current user's dashboard: their cards in order with their data,
+   * and the cards they could add
+   * @route GET /api/dashboard
+   * @access Private
+   */
+  async getDashboard(req: Request, res: Response): Promise<void> {
+    try {
+      const dashboard = await dashboardService.getDashboard(req.user!);
+
+      res.status(200).json({
+        success: true,
+        data: dashboard
+      });
+    } catch (error) {
+      console.error('Error fetching dashboard:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while fetching dashboard'
+      });
+    }
+  }
+
+  /**
+   * Choose and order the current user's dashboard cards
+   * @route PUT /api/dashboard/layout
+   * @body { cards: string[] } card IDs in display order
+   * @access Private
+   */
+  async updateLayout(req: Request, res: Response): Promise<void> {
+    try {
+      await dashboardService.saveLayout(req.user!, req.body?.cards);
+      const dashboard = await dashboardService.getDashboard(req.user!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dashboard layout saved',
+        data: dashboard
+      });
+    } catch (error) {
+      if (error instanceof DashboardLayoutError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error saving dashboard layout:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while saving dashboard layout'
+      });
+    }
+  }
+
+  /**
+   * Go back to the default cards for the current user's role
+   * @route DELETE /api/dashboard/layout
+   * @access Private
+   */
+  async resetLayout(req: Request, res: Response): Promise<void> {
+    try {
+      await dashboardService.resetLayout(req.user!.userId);
+      const dashboard = await dashboardService.getDashboard(req.user!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dashboard layout reset',
+        data: dashboard
+      });
+    } catch (error) {
+      console.error('Error resetting dashboard layout:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while resetting dashboard layout'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new DashboardController();
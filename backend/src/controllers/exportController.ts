@@ -0,0 +1,351 @@
+import { once } from 'events';
+import { Request, Response } from 'express';
+import { getScope } from '../policies/accessPolicy';
+import ScheduledExportModel, { ScheduledExportUpdate } from '../models/ScheduledExport';
+import exportService, {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_ENTITIES,
+  EXPORT_FORMATS,
+  EXPORT_RESOURCES,
+  ExportEntity,
+  ExportError,
+  ExportFormat
+} from '../services/exportService';
+import scheduledExportService, { getNextRunAt } from '../services/scheduledExportService';
+import { ListQueryError } from '../utils/listQuery';
+
+// Longest schedule name, and most filter params a schedule may save
+const MAX_SCHEDULE_NAME_LENGTH = 100;
+const MAX_SCHEDULE_PARAMS = 30;
+
+// Params that only shape one response, so a schedule doesn't keep them
+const UNSAVED_PARAMS = ['page', 'pageSize', 'format'];
+
+const isExportEntity = (value: unknown): value is ExportEntity => EXPORT_ENTITIES.includes(value as ExportEntity);
+const isExportFormat = (value: unknown): value is ExportFormat => EXPORT_FORMATS.includes(value as ExportFormat);
+
+const isInRange = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/**
+ * The filter params a schedule saves, or null unless they're a flat object
+ * of strings
+ */
+const toSavedQuery = (value: unknown): Record<string, string> | null => {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const entries = Object.entries(value).filter(([key]) => !UNSAVED_PARAMS.includes(key));
+  if (entries.length > MAX_SCHEDULE_PARAMS || entries.some(([, param]) => typeof param !== 'string')) {
+    return null;
+  }
+  return Object.fromEntries(entries) as Record<string, string>;
+};
+
+/**
+ * Export Controller
+ * CSV and XLSX exports of the list views and the cross-sell matrix, and
+ * exports users have emailed to themselves every week
+ */
+class ExportController {
+  /**
+   * Export every record matching the list view's filters, search and sort
+   * (the same params as the list endpoints), or the cross-sell matrix for
+   * the matrix filters. CSV is streamed a page at a time; ?format=xlsx sends
+   * a workbook, with one sheet per business unit for the matrix.
+   * @route GET /api/export/:entity?format=csv|xlsx
+   * @access Private (roles that can read the entity)
+   */
+  async exportEntity(req: Request, res: Response): Promise<void> {
+    const entity = req.params.entity;
+    if (!isExportEntity(entity)) {
+      res.status(404).json({
+        success: false,
+        message: `Unknown export type; use one of: ${EXPORT_ENTITIES.join(', ')}`
+      });
+      return;
+    }
+
+    if (!getScope(req.user!.role, EXPORT_RESOURCES[entity], 'read')) {
+      res.status(403).json({ success: false, message: `Access denied: you cannot export ${entity}` });
+      return;
+    }
+
+    const format = req.query.format || 'csv';
+    if (!isExportFormat(format)) {
+      res.status(400).json({ success: false, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+
+    try {
+      const tables = await exportService.getTables(entity, format, req.query);
+      const filename = exportService.getFilename(entity, format);
+      const content = format === 'xlsx' ? await exportService.buildWorkbook(tables) : null;
+
+      res.status(200);
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      if (content) {
+        res.send(content);
+        return;
+      }
+
+      await exportService.writeCsv(tables[0], async chunk => {
+        // Stop reading pages once the client has gone
+        if (res.destroyed) {
+          throw new Error('Export download was cancelled');
+        }
+        if (!res.write(chunk)) {
+          await once(res, 'drain');
+        }
+      });
+      res.end();
+    } catch (error) {
+      if (error instanceof ListQueryError || error instanceof ExportError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error exporting data:', error);
+
+      // Part of a CSV may already be on its way, so the response can only be cut off
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: 'Server error while exporting data'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's scheduled exports
+   * @route GET /api/export/schedules
+   * @access Private
+   */
+  async getSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      const schedules = await ScheduledExportModel.findByUser(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: schedules
+      });
+    } catch (error) {
+      console.error('Error fetching scheduled exports:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while fetching scheduled exports'
+      });
+    }
+  }
+
+  /**
+   * Save an export to be emailed to the current user every week
+   * @route POST /api/export/schedules
+   * @body { name, entity, format, query, day_of_week (0 = Sunday), hour }
+   * @access Private (roles that can read the entity)
+   */
+  async createSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { entity, format = 'xlsx', day_of_week, hour = 8 } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      const query = toSavedQuery(req.body.query);
+
+      if (!isExportEntity(entity)) {
+        res.status(400).json({ success: false, message: `entity must be one of: ${EXPORT_ENTITIES.join(', ')}` });
+        return;
+      }
+      if (!getScope(req.user!.role, EXPORT_RESOURCES[entity], 'read')) {
+        res.status(403).json({ success: false, message: `Access denied: you cannot export ${entity}` });
+        return;
+      }
+      if (!name || name.length > MAX_SCHEDULE_NAME_LENGTH) {
+        res.status(400).json({
+          success: false,
+          message: `name is required and must be at most ${MAX_SCHEDULE_NAME_LENGTH} characters`
+        });
+        return;
+      }
+      if (!isExportFormat(format)) {
+        res.status(400).json({ success: false, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+        return;
+      }
+      if (!isInRange(day_of_week, 0, 6) || !isInRange(hour, 0, 23)) {
+        res.status(400).json({ success: false, message: 'day_of_week must be 0 (Sunday) to 6 and hour 0 to 23' });
+        return;
+      }
+      if (!query) {
+        res.status(400).json({ success: false, message: 'query must be an object of filter params' });
+        return;
+      }
+      exportService.validateQuery(entity, query);
+
+      const schedule = await ScheduledExportModel.create({
+        user_id: req.user!.userId,
+        name,
+        entity,
+        format,
+        query,
+        day_of_week,
+        hour,
+        next_run_at: getNextRunAt(day_of_week, hour)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Scheduled export saved',
+        data: schedule
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error creating scheduled export:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while saving scheduled export'
+      });
+    }
+  }
+
+  /**
+   * Change when, how or whether one of the current user's exports is sent
+   * @route PUT /api/export/schedules/:id
+   * @body { name?, format?, query?, day_of_week?, hour?, is_active? }
+   * @access Private
+   */
+  async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = isNaN(id) ? null : await ScheduledExportModel.findForUser(id, req.user!.userId);
+      if (!existing) {
+        res.status(404).json({ success: false, message: 'Scheduled export not found' });
+        return;
+      }
+
+      const { format, day_of_week, hour, is_active } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : req.body.name;
+      const query = req.body.query === undefined ? undefined : toSavedQuery(req.body.query);
+
+      if (name !== undefined && (typeof name !== 'string' || !name || name.length > MAX_SCHEDULE_NAME_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          message: `name must not be empty and must be at most ${MAX_SCHEDULE_NAME_LENGTH} characters`
+        });
+        return;
+      }
+      if (format !== undefined && !isExportFormat(format)) {
+        res.status(400).json({ success: false, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+        return;
+      }
+      if ((day_of_week !== undefined && !isInRange(day_of_week, 0, 6)) || (hour !== undefined && !isInRange(hour, 0, 23))) {
+        res.status(400).json({ success: false, message: 'day_of_week must be 0 (Sunday) to 6 and hour 0 to 23' });
+        return;
+      }
+      if (is_active !== undefined && typeof is_active !== 'boolean') {
+        res.status(400).json({ success: false, message: 'is_active must be true or false' });
+        return;
+      }
+      if (query === null) {
+        res.status(400).json({ success: false, message: 'query must be an object of filter params' });
+        return;
+      }
+      if (query) {
+        exportService.validateQuery(existing.entity as ExportEntity, query);
+      }
+
+      const update: ScheduledExportUpdate = { name, format, query, day_of_week, hour, is_active };
+      // A new time, or resuming a paused export, starts from the next matching slot
+      if (day_of_week !== undefined || hour !== undefined || (is_active === true && !existing.is_active)) {
+        update.next_run_at = getNextRunAt(day_of_week ?? existing.day_of_week, hour ?? existing.hour);
+      }
+
+      const schedule = await ScheduledExportModel.update(id, req.user!.userId, update);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled export updated',
+        data: schedule
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error updating scheduled export:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while updating scheduled export'
+      });
+    }
+  }
+
+  /**
+   * Email one of the current user's scheduled exports right away, without
+   * changing when it's next sent
+   * @route POST /api/export/schedules/:id/send
+   * @access Private
+   */
+  async sendSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      const schedule = isNaN(id) ? null : await ScheduledExportModel.findForUser(id, req.user!.userId);
+      if (!schedule) {
+        res.status(404).json({ success: false, message: 'Scheduled export not found' });
+        return;
+      }
+
+      await scheduledExportService.send(schedule);
+      await ScheduledExportModel.recordRun(schedule.id, null);
+
+      res.status(200).json({
+        success: true,
+        message: 'Export sent to your email address'
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError || error instanceof ExportError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error sending scheduled export:', error);
+      res.status(500).json({
+        success: false,
+        message: `Could not send the export: ${(error as Error).message}`
+      });
+    }
+  }
+
+  /**
+   * Delete one of the current user's scheduled exports
+   * @route DELETE /api/export/schedules/:id
+   * @access Private
+   */
+  async deleteSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = !isNaN(id) && await ScheduledExportModel.delete(id, req.user!.userId);
+      if (!deleted) {
+        res.status(404).json({ success: false, message: 'Scheduled export not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled export deleted'
+      });
+    } catch (error) {
+      console.error('Error deleting scheduled export:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while deleting scheduled export'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new ExportController();
@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import { getScope } from '../policies/accessPolicy';
+import ImportColumnMappingModel from '../models/ImportColumnMapping';
+import importService, {
+  IMPORT_ENTITIES,
+  IMPORT_MODES,
+  IMPORT_RESOURCES,
+  ImportEntity,
+  ImportFileError,
+  ImportMode,
+  parseImportFile,
+  parseImportGrid
+} from '../services/importService';
+
+// Most columns a saved mapping may hold, and the longest header or field name
+const MAX_MAPPING_COLUMNS = 200;
+const MAX_MAPPING_KEY_LENGTH = 100;
+
+const isFileBody = (body: unknown): body is Buffer => Buffer.isBuffer(body) && body.length > 0;
+
+const sendMissingFile = (res: Response): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Send a CSV or XLSX file as the request body with a text/csv or XLSX content type'
+  });
+};
+
+/**
+ * Import Controller
+ * Bulk import of clients, services, opportunities and tasks from a CSV or
+ * XLSX file sent as the request body
+ */
+class ImportController {
+  /**
+   * Import a file. ?mode=insert|upsert|skip decides what happens to rows
+   * matching an existing record; ?dryRun=true checks every row without
+   * saving anything; ?allowDuplicates=true creates clients that only look
+   * like existing ones.
+   * @route POST /api/import/:entity
+   * @access Private (roles that can create or update the entity)
+   */
+  async importFile(req: Request, res: Response): Promise<void> {
+    try {
+      const entity = req.params.entity as ImportEntity;
+      if (!IMPORT_ENTITIES.includes(entity)) {
+        res.status(404).json({
+          success: false,
+          message: `Unknown import type; use one of: ${IMPORT_ENTITIES.join(', ')}`
+        });
+        return;
+      }
+
+      const resource = IMPORT_RESOURCES[entity];
+      if (!getScope(req.user!.role, resource, 'create') && !getScope(req.user!.role, resource, 'update')) {
+        res.status(403).json({ success: false, message: `Access denied: you cannot import ${entity}` });
+        return;
+      }
+
+      const mode = (req.query.mode || 'insert') as ImportMode;
+      if (!IMPORT_MODES.includes(mode)) {
+        res.status(400).json({ success: false, message: `mode must be one of: ${IMPORT_MODES.join(', ')}` });
+        return;
+      }
+      const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+      const allowDuplicates = req.query.allowDuplicates === 'true' || req.query.allowDuplicates === '1';
+
+      if (!isFileBody(req.body)) {
+        sendMissingFile(res);
+        return;
+      }
+
+      const rows = parseImportFile(req.body);
+      const result = await importService.importRows(entity, rows, req.user!, { mode, dryRun, allowDuplicates });
+
+      let message: string;
+      if (result.committed) {
+        message = `Imported ${result.total} rows: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`;
+      } else if (result.failed > 0) {
+        message = `${result.failed} of ${result.total} rows have errors; nothing was imported`;
+      } else {
+        message = `All ${result.total} rows are valid`;
+      }
+
+      // A real import with bad rows saves nothing, which the client must notice
+      res.status(!dryRun && result.failed > 0 ? 422 : 200).json({
+        success: result.failed === 0,
+        message,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error importing file:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while importing file'
+      });
+    }
+  }
+
+  /**
+   * Read a file into its header row and data rows without importing it, so
+   * the import wizard can map and preview XLSX files as well as CSV
+   * @route POST /api/import/parse
+   * @access Private
+   */
+  async parseFile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!isFileBody(req.body)) {
+        sendMissingFile(res);
+        return;
+      }
+
+      const [headers, ...rows] = parseImportGrid(req.body);
+
+      res.status(200).json({
+        success: true,
+        data: { headers, rows }
+      });
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('Error parsing import file:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while reading file'
+      });
+    }
+  }
+
+  /**
+   * Get the column mapping the current user last used for an entity
+   * @route GET /api/import/:entity/mapping
+   * @access Private
+   */
+  async getMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const entity = req.params.entity as ImportEntity;
+      if (!IMPORT_ENTITIES.includes(entity)) {
+        res.status(404).json({ success: false, message: 'Unknown import type' });
+        return;
+      }
+
+      const mapping = await ImportColumnMappingModel.findForUser(req.user!.userId, entity);
+
+      res.status(200).json({
+        success: true,
+        data: { mapping }
+      });
+    } catch (error) {
+      console.error('Error getting import column mapping:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving column mapping'
+      });
+    }
+  }
+
+  /**
+   * Remember the current user's column mapping for an entity. The body maps
+   * file column headers to fields, with an empty string for columns left out.
+   * @route PUT /api/import/:entity/mapping
+   * @access Private
+   */
+  async saveMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const entity = req.params.entity as ImportEntity;
+      if (!IMPORT_ENTITIES.includes(entity)) {
+        res.status(404).json({ success: false, message: 'Unknown import type' });
+        return;
+      }
+
+      const { mapping } = req.body;
+      const entries = mapping && typeof mapping === 'object' && !Array.isArray(mapping) ? Object.entries(mapping) : null;
+      const valid = entries !== null
+        && entries.length <= MAX_MAPPING_COLUMNS
+        && entries.every(([column, field]) =>
+          column.length <= MAX_MAPPING_KEY_LENGTH
+          && typeof field === 'string'
+          && field.length <= MAX_MAPPING_KEY_LENGTH);
+
+      if (!valid) {
+        res.status(400).json({
+          success: false,
+          message: `mapping must be an object of up to ${MAX_MAPPING_COLUMNS} column names and field names`
+        });
+        return;
+      }
+
+      const saved = await ImportColumnMappingModel.save(req.user!.userId, entity, mapping);
+
+      res.status(200).json({
+        success: true,
+        message: 'Column mapping saved',
+        data: { mapping: saved }
+      });
+    } catch (error) {
+      console.error('Error saving import column mapping:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while saving column mapping'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new ImportController();
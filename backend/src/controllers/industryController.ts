@@ -1,6 +1,34 @@
 import { Request, Response } from 'express';
 import IndustryModel, { Industry, IndustryInput, IndustryStatus } from '../models/Industry';
 
+// Matches industries.name
+const NAME_MAX_LENGTH = 100;
+
+/**
+ * Check the shape of a create/update body, returning an error message or null.
+ * On update every field is optional, but name can't be blanked.
+ */
+const validateIndustryFields = (body: any, isUpdate: boolean): string | null => {
+  const { name, description, status } = body;
+
+  if (name !== undefined || !isUpdate) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Industry name is required';
+    }
+    if (name.trim().length > NAME_MAX_LENGTH) {
+      return `Industry name must be at most ${NAME_MAX_LENGTH} characters`;
+    }
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return 'Description must be text';
+  }
+  if (status !== undefined && !Object.values(IndustryStatus).includes(status)) {
+    return 'Status must be active or inactive';
+  }
+
+  return null;
+};
+
 class IndustryController {
   /**
    * Create a new industry
@@ -9,17 +37,17 @@ class IndustryController {
     try {
       const { name, description, status } = req.body;
       
-      // Validate required fields
-      if (!name) {
+      const invalid = validateIndustryFields(req.body, false);
+      if (invalid) {
         res.status(400).json({
           success: false,
-          message: 'Industry name is required'
+          message: invalid
         });
         return;
       }
       
       // Check if industry with this name already exists
-      const existingIndustry = await IndustryModel.findByName(name);
+      const existingIndustry = await IndustryModel.findByName(name.trim());
       if (existingIndustry) {
         res.status(400).json({
           success: false,
@@ -30,7 +58,7 @@ class IndustryController {
       
       // Create industry data object
       const industryData: IndustryInput = {
-        name,
+        name: name.trim(),
         description,
         status: status || IndustryStatus.ACTIVE
       };
@@ -137,6 +165,15 @@ class IndustryController {
         });
         return;
       }
+
+      const invalid = validateIndustryFields(req.body, true);
+      if (invalid) {
+        res.status(400).json({
+          success: false,
+          message: invalid
+        });
+        return;
+      }
       
       // Check if industry exists
       const industry = await IndustryModel.findById(id);
@@ -149,8 +186,8 @@ class IndustryController {
       }
       
       // If name is being updated, check for duplicates
-      if (name && name !== industry.name) {
-        const existingIndustry = await IndustryModel.findByName(name);
+      if (name && name.trim() !== industry.name) {
+        const existingIndustry = await IndustryModel.findByName(name.trim());
         if (existingIndustry) {
           res.status(400).json({
             success: false,
@@ -162,7 +199,7 @@ class IndustryController {
       
       // Create update data object
       const updateData: Partial<IndustryInput> = {};
-      if (name) updateData.name = name;
+      if (name) updateData.name = name.trim();
       if (description !== undefined) updateData.description = description;
       if (status) updateData.status = status;
       
@@ -216,9 +253,42 @@ class IndustryController {
         });
         return;
       }
+
+      // Clients and services refer to the industry by ID, so it can't go
+      // while any remain unless the caller names an industry to move them to
+      const reassignTo = req.query.reassignTo !== undefined ? Number(req.query.reassignTo) : undefined;
+      if (reassignTo !== undefined) {
+        if (!Number.isInteger(reassignTo) || reassignTo === id) {
+          res.status(400).json({
+            success: false,
+            message: 'reassignTo must be the ID of another industry'
+          });
+          return;
+        }
+
+        const target = await IndustryModel.findById(reassignTo);
+        if (!target || target.status !== IndustryStatus.ACTIVE) {
+          res.status(400).json({
+            success: false,
+            message: 'reassignTo must be an active industry'
+          });
+          return;
+        }
+      } else {
+        const usage = await IndustryModel.countUsage(id);
+        if (usage.clients > 0 || usage.services > 0) {
+          res.status(409).json({
+            success: false,
+            message: `Industry is used by ${usage.clients} client(s) and ${usage.services} service(s); reassign them first`
+          });
+          return;
+        }
+      }
       
       // Delete the industry
-      const deleted = await IndustryModel.delete(id);
+      const deleted = reassignTo !== undefined
+        ? await IndustryModel.deleteAndReassign(id, reassignTo)
+        : await IndustryModel.delete(id);
       
       if (!deleted) {
         res.status(400).json({
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import UserModel, { UserRole } from '../models/User';
+import UserInvitationModel, { UserInvitation } from '../models/UserInvitation';
+import invitationService, { SentInvitation } from '../services/invitationService';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Never hand the token hash back to clients
+const toResponse = ({ token_hash, ...invitation }: UserInvitation) => invitation;
+
+const toSentResponse = (sent: SentInvitation) => ({
+  ...toResponse(sent.invitation),
+  invite_url: sent.inviteUrl,
+  email_sent: sent.emailSent
+});
+
+/**
+ * Invitation Controller
+ * Admin management of user invitations; accepting one is handled by authController
+ */
+class InvitationController {
+  /**
+   * Get invitations that haven't been accepted or revoked
+   */
+  async getOpenInvitations(req: Request, res: Response): Promise<void> {
+    try {
+      const invitations = await UserInvitationModel.findOpen();
+
+      res.status(200).json({
+        success: true,
+        data: invitations.map(toResponse)
+      });
+    } catch (error) {
+      console.error('Error getting invitations:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving invitations'
+      });
+    }
+  }
+
+  /**
+   * Invite a user by email with a role
+   */
+  async createInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+      const { role } = req.body;
+
+      if (!EMAIL_PATTERN.test(email)) {
+        res.status(400).json({
+          success: false,
+          message: 'A valid email address is required'
+        });
+        return;
+      }
+
+      if (!Object.values(UserRole).includes(role)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid role'
+        });
+        return;
+      }
+
+      const existingUser = await UserModel.findByEmail(email);
+      if (existingUser) {
+        res.status(409).json({
+          success: false,
+          message: 'A user with this email already exists'
+        });
+        return;
+      }
+
+      const pendingInvitation = await UserInvitationModel.findPendingByEmail(email);
+      if (pendingInvitation) {
+        res.status(409).json({
+          success: false,
+          message: 'This email already has a pending invitation; resend or revoke it instead'
+        });
+        return;
+      }
+
+      const sent = await invitationService.invite(email, role as UserRole, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        message: sent.emailSent ? 'Invitation sent' : 'Invitation created, but the email could not be sent; share the link instead',
+        data: toSentResponse(sent)
+      });
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while creating invitation'
+      });
+    }
+  }
+
+  /**
+   * Send an invitation again with a new link and expiry
+   */
+  async resendInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Valid invitation ID is required'
+        });
+        return;
+      }
+
+      const sent = await invitationService.resend(id);
+      if (!sent) {
+        res.status(404).json({
+          success: false,
+          message: 'Open invitation not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: sent.emailSent ? 'Invitation resent' : 'Invitation renewed, but the email could not be sent; share the link instead',
+        data: toSentResponse(sent)
+      });
+    } catch (error) {
+      console.error(`Error resending invitation with ID ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while resending invitation'
+      });
+    }
+  }
+
+  /**
+   * Revoke an invitation so its link stops working
+   */
+  async revokeInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Valid invitation ID is required'
+        });
+        return;
+      }
+
+      const revoked = await UserInvitationModel.revoke(id);
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'Open invitation not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation revoked'
+      });
+    } catch (error) {
+      console.error(`Error revoking invitation with ID ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while revoking invitation'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new InvitationController();
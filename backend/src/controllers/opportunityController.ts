@@ -1,6 +1,12 @@
 import { Request, Response } from 'express';
-import { OpportunityStatus, OpportunityPriority, OpportunityInput, Opportunity } from '../models/Opportunity';
-import { Pool } from 'pg';
+import sharedOpportunityModel, { OpportunityStatus, OpportunityPriority, OpportunityInput, Opportunity, OPPORTUNITY_LIST_CONFIG, MAX_MATRIX_ROWS, MAX_MATRIX_COLUMNS, parseMatrixFilters } from '../models/Opportunity';
+import OpportunityStatusHistoryModel from '../models/OpportunityStatusHistory';
+import opportunityStageService from '../services/opportunityStageService';
+import recommendationService, { RECOMMENDATION_WEIGHTS } from '../services/recommendationService';
+import workflowService from '../services/workflowService';
+import WorkflowJobModel, { WorkflowEventType } from '../models/WorkflowJob';
+import { isListQuery, parseListQuery, ListQueryError } from '../utils/listQuery';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
 
 // Create our own instance of OpportunityModel since it's not properly exported
@@ -11,37 +17,14 @@ class OpportunityModel {
     this.pool = db;
   }
 
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS opportunities (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(200) NOT NULL,
-        client_id INTEGER NOT NULL,
-        service_id INTEGER NOT NULL,
-        assigned_user_id INTEGER NOT NULL,
-        status VARCHAR(20) NOT NULL,
-        priority VARCHAR(20) NOT NULL,
-        estimated_value NUMERIC(12, 2) NOT NULL,
-        due_date TIMESTAMP WITH TIME ZONE NOT NULL,
-        notes TEXT,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE RESTRICT,
-        FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE RESTRICT,
-        FOREIGN KEY (assigned_user_id) REFERENCES users(id) ON DELETE RESTRICT
-      )
-    `;
-    
-    await this.pool.query(query);
-  }
-
-  async create(opportunityData: OpportunityInput): Promise<Opportunity> {
+  async create(opportunityData: OpportunityInput, client: Pool | PoolClient = this.pool): Promise<Opportunity> {
     const query = `
       INSERT INTO opportunities (
         name, client_id, service_id, assigned_user_id, status,
-        priority, estimated_value, due_date, notes
+        priority, estimated_value, due_date, notes,
+        loss_reason, won_date, final_value
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       RETURNING *
     `;
     
@@ -54,10 +37,13 @@ class OpportunityModel {
       opportunityData.priority,
       opportunityData.estimated_value,
       opportunityData.due_date,
-      opportunityData.notes || null
+      opportunityData.notes || null,
+      opportunityData.loss_reason || null,
+      opportunityData.won_date || null,
+      opportunityData.final_value ?? null
     ];
     
-    const result = await this.pool.query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0];
   }
 
@@ -68,6 +54,14 @@ class OpportunityModel {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
+  // Lock the opportunity for the rest of the transaction
+  async findByIdForUpdate(id: number, client: PoolClient): Promise<Opportunity | null> {
+    const query = `SELECT * FROM opportunities WHERE id = $1 FOR UPDATE`;
+    const result = await client.query(query, [id]);
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
   async findByClient(clientId: number): Promise<Opportunity[]> {
     const query = `SELECT * FROM opportunities WHERE client_id = $1 ORDER BY due_date`;
     const result = await this.pool.query(query, [clientId]);
@@ -110,7 +104,7 @@ class OpportunityModel {
     return result.rows;
   }
 
-  async update(id: number, opportunityData: Partial<OpportunityInput>): Promise<Opportunity | null> {
+  async update(id: number, opportunityData: Partial<OpportunityInput>, client: Pool | PoolClient = this.pool): Promise<Opportunity | null> {
     // Build the SET part of the query dynamically based on the fields provided
     const updates: string[] = [];
     const values: any[] = [];
@@ -144,7 +138,7 @@ class OpportunityModel {
     // Add the ID as the last parameter
     values.push(id);
     
-    const result = await this.pool.query(query, values);
+    const result = await client.query(query, values);
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
@@ -154,75 +148,91 @@ class OpportunityModel {
     
     return result.rowCount !== null && result.rowCount > 0;
   }
+}
 
-  async getMatrixData(): Promise<any> {
-    const query = `
-      SELECT 
-        c.id AS client_id, 
-        c.name AS client_name,
-        s.id AS service_id,
-        s.name AS service_name,
-        s.business_unit,
-        CASE
-          WHEN o.id IS NOT NULL THEN o.status
-          WHEN s.id = ANY(c.services_used) THEN 'active'
-          ELSE NULL
-        END AS status,
-        o.id AS opportunity_id
-      FROM 
-        clients c
-      CROSS JOIN 
-        services s
-      LEFT JOIN 
-        opportunities o ON c.id = o.client_id AND s.id = o.service_id
-      WHERE 
-        s.status = 'active'
-      ORDER BY 
-        c.name, s.business_unit, s.name
-    `;
+// Initialize the Opportunity model
+const opportunityModel = new OpportunityModel();
+
+// Fields that may accompany a status change on PATCH /api/opportunities/:id/status
+const STATUS_CHANGE_FIELDS = ['status', 'loss_reason', 'won_date', 'final_value', 'estimated_value'];
+
+/**
+ * Apply an update to an existing opportunity, enforcing the stage rules when
+ * the status changes and recording the transition in the status history.
+ * Shared by the full update and the status-only endpoint.
+ */
+const saveOpportunityChanges = async (
+  req: Request,
+  res: Response,
+  id: number,
+  opportunityData: Partial<OpportunityInput>,
+  statusReason?: string
+): Promise<void> => {
+  // The change, its history entry and its workflow event are saved together,
+  // so the stage history behind the analytics always matches the opportunity
+  // and the event can't be lost
+  const client = await db.connect();
+  let updatedOpportunity: Opportunity | null;
+  
+  try {
+    await client.query('BEGIN');
     
-    const result = await this.pool.query(query);
+    // Lock the row so a concurrent change can't move the status between the
+    // transition check and the update
+    const existingOpportunity = await opportunityModel.findByIdForUpdate(id, client);
     
-    // Transform the data for matrix view
-    const clients: { [key: string]: any } = {};
-    const services: { [key: string]: any } = {};
-    const matrix: { [key: string]: { [key: string]: any } } = {};
+    if (!existingOpportunity) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Opportunity not found' });
+      return;
+    }
     
-    // First pass: collect unique clients and services
-    result.rows.forEach(row => {
-      if (!clients[row.client_id]) {
-        clients[row.client_id] = { id: row.client_id, name: row.client_name };
-      }
+    // Enforce the transition graph and the target stage's required fields
+    if (opportunityData.status && opportunityData.status !== existingOpportunity.status) {
+      const stageCheck = await opportunityStageService.checkStatusChange(
+        existingOpportunity.status,
+        opportunityData.status,
+        { ...existingOpportunity, ...opportunityData }
+      );
       
-      if (!services[row.service_id]) {
-        services[row.service_id] = { 
-          id: row.service_id, 
-          name: row.service_name,
-          business_unit: row.business_unit
-        };
-      }
-      
-      // Initialize matrix cells
-      if (!matrix[row.client_id]) {
-        matrix[row.client_id] = {};
+      if (!stageCheck.allowed) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ message: stageCheck.message, missing_fields: stageCheck.missing_fields });
+        return;
       }
+    }
+    
+    updatedOpportunity = await opportunityModel.update(id, opportunityData, client);
+    
+    // Record the transition if the status actually changed
+    if (updatedOpportunity && updatedOpportunity.status !== existingOpportunity.status) {
+      const historyEntry = await OpportunityStatusHistoryModel.create({
+        opportunity_id: id,
+        old_status: existingOpportunity.status,
+        new_status: updatedOpportunity.status,
+        changed_by: req.user ? req.user.userId : null,
+        reason: statusReason
+      }, client);
       
-      matrix[row.client_id][row.service_id] = {
-        status: row.status,
-        opportunity_id: row.opportunity_id
-      };
-    });
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.OPPORTUNITY_STATUS_CHANGED,
+        payload: { opportunity_id: id, old_status: historyEntry.old_status, new_status: historyEntry.new_status },
+        dedupe_key: `opportunity.status_changed:${historyEntry.id}`
+      }, client);
+    }
     
-    return {
-      clients: Object.values(clients),
-      services: Object.values(services),
-      matrix
-    };
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
-}
-
-// Initialize the Opportunity model
-const opportunityModel = new OpportunityModel();
+  
+  workflowService.processSoon();
+  
+  res.status(200).json(updatedOpportunity);
+};
 
 class OpportunityController {
   /**
@@ -233,6 +243,8 @@ class OpportunityController {
   async createOpportunity(req: Request, res: Response): Promise<void> {
     try {
       const opportunityData: OpportunityInput = req.body;
+      // Renewals are only raised by the renewal workflow
+      delete opportunityData.renewal_of_id;
       
       // Validate required fields
       if (!opportunityData.name || !opportunityData.client_id || !opportunityData.service_id) {
@@ -255,7 +267,47 @@ class OpportunityController {
         opportunityData.priority = OpportunityPriority.MEDIUM;
       }
       
-      const opportunity = await opportunityModel.create(opportunityData);
+      // A new opportunity must already satisfy its starting stage's requirements
+      const stageCheck = await opportunityStageService.checkStatusChange(null, opportunityData.status, opportunityData);
+      
+      if (!stageCheck.allowed) {
+        res.status(400).json({ message: stageCheck.message, missing_fields: stageCheck.missing_fields });
+        return;
+      }
+      
+      const client = await db.connect();
+      let opportunity: Opportunity;
+      
+      try {
+        await client.query('BEGIN');
+        
+        opportunity = await opportunityModel.create(opportunityData, client);
+        
+        // Record the initial stage so time-in-stage can be measured from creation
+        const historyEntry = await OpportunityStatusHistoryModel.create({
+          opportunity_id: opportunity.id,
+          old_status: null,
+          new_status: opportunity.status,
+          changed_by: req.user ? req.user.userId : null
+        }, client);
+        
+        // Queued with the opportunity so the event can't be lost
+        await WorkflowJobModel.enqueue({
+          event_type: WorkflowEventType.OPPORTUNITY_STATUS_CHANGED,
+          payload: { opportunity_id: opportunity.id, old_status: null, new_status: opportunity.status },
+          dedupe_key: `opportunity.status_changed:${historyEntry.id}`
+        }, client);
+        
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+      
+      workflowService.processSoon();
+      
       res.status(201).json(opportunity);
     } catch (error) {
       console.error('Error creating opportunity:', error);
@@ -270,6 +322,14 @@ class OpportunityController {
    */
   async getAllOpportunities(_req: Request, res: Response): Promise<void> {
     try {
+      // page/pageSize/sort/filter/q return one page with the total count
+      if (isListQuery(_req.query)) {
+        const listQuery = parseListQuery(_req.query, OPPORTUNITY_LIST_CONFIG);
+        const page = await sharedOpportunityModel.findPage(listQuery);
+        res.status(200).json(page);
+        return;
+      }
+      
       const { status, priority, client_id, service_id, assigned_user_id } = _req.query;
       
       // Apply filters if provided
@@ -291,6 +351,10 @@ class OpportunityController {
       
       res.status(200).json(opportunities);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error('Error fetching opportunities:', error);
       res.status(500).json({ message: 'Failed to fetch opportunities', error: (error as Error).message });
     }
@@ -398,26 +462,83 @@ class OpportunityController {
   async updateOpportunity(req: Request, res: Response): Promise<void> {
     try {
       const id = Number(req.params.id);
-      const opportunityData: Partial<OpportunityInput> = req.body;
+      // status_reason is not a column; it is only recorded in the status history
+      const { status_reason, ...opportunityData }: Partial<OpportunityInput> & { status_reason?: string } = req.body;
+      // Which engagement an opportunity renews is fixed when the workflow raises it
+      delete opportunityData.renewal_of_id;
       
       if (isNaN(id)) {
         res.status(400).json({ message: 'Invalid opportunity ID' });
         return;
       }
       
-      // Check if opportunity exists
-      const existingOpportunity = await opportunityModel.findById(id);
+      await saveOpportunityChanges(req, res, id, opportunityData, status_reason);
+    } catch (error) {
+      console.error('Error updating opportunity:', error);
+      res.status(500).json({ message: 'Failed to update opportunity', error: (error as Error).message });
+    }
+  }
+  
+  /**
+   * Move an opportunity to another status, along with the fields the new stage requires
+   * @route PATCH /api/opportunities/:id/status
+   * @access Private - Admin, Sales, BU Head
+   */
+  async changeOpportunityStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const id = Number(req.params.id);
       
-      if (!existingOpportunity) {
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid opportunity ID' });
+        return;
+      }
+      
+      if (!req.body.status) {
+        res.status(400).json({ message: 'Status is required' });
+        return;
+      }
+      
+      // Only accept the status and stage fields so this can't be used as a general update
+      const opportunityData: Record<string, any> = {};
+      STATUS_CHANGE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) {
+          opportunityData[field] = req.body[field];
+        }
+      });
+      
+      await saveOpportunityChanges(req, res, id, opportunityData, req.body.status_reason);
+    } catch (error) {
+      console.error('Error changing opportunity status:', error);
+      res.status(500).json({ message: 'Failed to change opportunity status', error: (error as Error).message });
+    }
+  }
+  
+  /**
+   * Get status history for an opportunity
+   * @route GET /api/opportunities/:id/history
+   * @access Private - All authenticated users
+   */
+  async getOpportunityHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const id = Number(req.params.id);
+      
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid opportunity ID' });
+        return;
+      }
+      
+      const opportunity = await opportunityModel.findById(id);
+      
+      if (!opportunity) {
         res.status(404).json({ message: 'Opportunity not found' });
         return;
       }
       
-      const updatedOpportunity = await opportunityModel.update(id, opportunityData);
-      res.status(200).json(updatedOpportunity);
+      const history = await OpportunityStatusHistoryModel.findByOpportunity(id);
+      res.status(200).json(history);
     } catch (error) {
-      console.error('Error updating opportunity:', error);
-      res.status(500).json({ message: 'Failed to update opportunity', error: (error as Error).message });
+      console.error('Error fetching opportunity history:', error);
+      res.status(500).json({ message: 'Failed to fetch opportunity history', error: (error as Error).message });
     }
   }
   
@@ -458,19 +579,75 @@ class OpportunityController {
   }
   
   /**
-   * Get cross-sell matrix data
-   * @route GET /api/opportunities/matrix
+   * Get one window of the cross-sell matrix
+   * @route GET /api/opportunities/matrix?rowOffset=&rowLimit=&columnOffset=&columnLimit=
+   *        &businessUnitId=&industryId=&status=&assignedUserId=&accountOwnerId=&clientSearch=&serviceSearch=&cellType=
    * @access Private - All authenticated users
    */
-  async getCrossSellMatrix(_req: Request, res: Response): Promise<void> {
+  async getCrossSellMatrix(req: Request, res: Response): Promise<void> {
     try {
-      const matrixData = await opportunityModel.getMatrixData();
+      const toInt = (value: unknown, fallback: number) => value !== undefined && value !== '' ? parseInt(value as string) : fallback;
+
+      const window = {
+        rowOffset: toInt(req.query.rowOffset, 0),
+        rowLimit: toInt(req.query.rowLimit, 100),
+        columnOffset: toInt(req.query.columnOffset, 0),
+        columnLimit: toInt(req.query.columnLimit, 50)
+      };
+
+      if (
+        [window.rowOffset, window.columnOffset].some(n => isNaN(n) || n < 0) ||
+        isNaN(window.rowLimit) || window.rowLimit < 1 || window.rowLimit > MAX_MATRIX_ROWS ||
+        isNaN(window.columnLimit) || window.columnLimit < 1 || window.columnLimit > MAX_MATRIX_COLUMNS
+      ) {
+        res.status(400).json({
+          message: `Invalid matrix window: offsets must be 0 or more, rowLimit at most ${MAX_MATRIX_ROWS} and columnLimit at most ${MAX_MATRIX_COLUMNS}`
+        });
+        return;
+      }
+
+      const matrixData = await sharedOpportunityModel.getMatrixWindow(parseMatrixFilters(req.query), window);
       res.status(200).json(matrixData);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error('Error generating cross-sell matrix:', error);
       res.status(500).json({ message: 'Failed to generate cross-sell matrix', error: (error as Error).message });
     }
   }
+
+  /**
+   * Get scored cross-sell recommendations for the empty matrix cells
+   * @route GET /api/opportunities/recommendations?clientId=&serviceId=&limit=
+   * @access Private
+   */
+  async getRecommendations(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = req.query.clientId ? parseInt(req.query.clientId as string) : undefined;
+      const serviceId = req.query.serviceId ? parseInt(req.query.serviceId as string) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+      if (
+        (clientId !== undefined && isNaN(clientId)) ||
+        (serviceId !== undefined && isNaN(serviceId)) ||
+        (limit !== undefined && (isNaN(limit) || limit < 1))
+      ) {
+        res.status(400).json({ message: 'Invalid client ID, service ID or limit' });
+        return;
+      }
+
+      const recommendations = await recommendationService.getRecommendations({ clientId, serviceId, limit });
+      res.status(200).json({
+        weights: RECOMMENDATION_WEIGHTS,
+        recommendations
+      });
+    } catch (error) {
+      console.error('Error generating recommendations:', error);
+      res.status(500).json({ message: 'Failed to generate recommendations', error: (error as Error).message });
+    }
+  }
 }
 
 export default new OpportunityController();
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import OpportunityStageRuleModel, { STAGE_REQUIRABLE_FIELDS } from '../models/OpportunityStageRule';
+import { OpportunityStatus } from '../models/Opportunity';
+
+class OpportunityStageController {
+  /**
+   * Get the transition graph and required fields for every stage
+   * @route GET /api/opportunity-stages
+   * @access Private - All authenticated users
+   */
+  async getStageRules(_req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await OpportunityStageRuleModel.findAll();
+      res.status(200).json({
+        rules,
+        requirable_fields: STAGE_REQUIRABLE_FIELDS
+      });
+    } catch (error) {
+      console.error('Error fetching opportunity stage rules:', error);
+      res.status(500).json({ message: 'Failed to fetch opportunity stage rules', error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Update the allowed next stages and required fields for a stage
+   * @route PUT /api/opportunity-stages/:status
+   * @access Private - Admin only
+   */
+  async updateStageRule(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.params.status;
+      const { allowed_transitions, required_fields, win_probability } = req.body;
+      const statuses = Object.values(OpportunityStatus) as string[];
+
+      if (!statuses.includes(status)) {
+        res.status(400).json({ message: `Invalid status: ${status}` });
+        return;
+      }
+
+      if (!Array.isArray(allowed_transitions) || !Array.isArray(required_fields)) {
+        res.status(400).json({ message: 'allowed_transitions and required_fields must be arrays' });
+        return;
+      }
+
+      const invalidTransitions = allowed_transitions.filter(
+        (target: string) => !statuses.includes(target) || target === status
+      );
+
+      if (invalidTransitions.length > 0) {
+        res.status(400).json({ message: `Invalid transitions: ${invalidTransitions.join(', ')}` });
+        return;
+      }
+
+      const invalidFields = required_fields.filter((field: string) => !STAGE_REQUIRABLE_FIELDS.includes(field));
+
+      if (invalidFields.length > 0) {
+        res.status(400).json({ message: `Fields cannot be required: ${invalidFields.join(', ')}` });
+        return;
+      }
+
+      if (
+        win_probability !== undefined &&
+        !(Number.isInteger(win_probability) && win_probability >= 0 && win_probability <= 100)
+      ) {
+        res.status(400).json({ message: 'win_probability must be a whole number from 0 to 100' });
+        return;
+      }
+
+      const rule = await OpportunityStageRuleModel.upsert({
+        status,
+        allowed_transitions: Array.from(new Set<string>(allowed_transitions)),
+        required_fields: Array.from(new Set<string>(required_fields)),
+        win_probability,
+        updated_by: req.user ? req.user.userId : null
+      });
+
+      res.status(200).json(rule);
+    } catch (error) {
+      console.error('Error updating opportunity stage rule:', error);
+      res.status(500).json({ message: 'Failed to update opportunity stage rule', error: (error as Error).message });
+    }
+  }
+}
+
+export default new OpportunityStageController();
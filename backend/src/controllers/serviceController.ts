@@ -1,5 +1,53 @@
 import { Request, Response } from 'express';
-import ServiceModel, { ServiceInput, ServiceStatus } from '../models/Service';
+import ServiceModel, { ServiceInput, ServiceStatus, SERVICE_LIST_CONFIG } from '../models/Service';
+import BusinessUnitModel from '../models/BusinessUnit';
+import IndustryModel from '../models/Industry';
+import { isListQuery, parseListQuery, ListQueryError } from '../utils/listQuery';
+
+// Columns a request body may set; business unit and industries are given by ID
+const SERVICE_FIELDS: Array<keyof ServiceInput> = [
+  'name', 'description', 'pricing_model', 'pricing_details', 'business_unit_id',
+  'applicable_industry_ids', 'client_role', 'status'
+];
+
+const pickServiceFields = (body: any): Partial<ServiceInput> => {
+  const data: Partial<ServiceInput> = {};
+  SERVICE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) (data as any)[field] = body[field];
+  });
+  return data;
+};
+
+/**
+ * Check that the business unit and industries a service refers to exist.
+ * Returns an error message, or null when they do.
+ */
+const checkReferences = async (data: Partial<ServiceInput>): Promise<string | null> => {
+  if (data.business_unit_id !== undefined) {
+    const businessUnitId = Number(data.business_unit_id);
+    if (!Number.isInteger(businessUnitId) || !(await BusinessUnitModel.findById(businessUnitId))) {
+      return 'Unknown business unit';
+    }
+    data.business_unit_id = businessUnitId;
+  }
+
+  if (data.applicable_industry_ids !== undefined) {
+    if (!Array.isArray(data.applicable_industry_ids)) {
+      return 'applicable_industry_ids must be an array of industry IDs';
+    }
+    const industryIds = [...new Set(data.applicable_industry_ids.map(Number))];
+    if (industryIds.some(id => !Number.isInteger(id))) {
+      return 'applicable_industry_ids must be an array of industry IDs';
+    }
+    const industries = await IndustryModel.findByIds(industryIds);
+    if (industries.length !== industryIds.length) {
+      return 'Unknown industry';
+    }
+    data.applicable_industry_ids = industryIds;
+  }
+
+  return null;
+};
 
 /**
  * Service Controller
@@ -13,13 +61,19 @@ class ServiceController {
    */
   async createService(req: Request, res: Response): Promise<void> {
     try {
-      const serviceData: ServiceInput = req.body;
+      const serviceData = pickServiceFields(req.body) as ServiceInput;
       
       // Validate required fields
-      if (!serviceData.name || !serviceData.description || !serviceData.business_unit) {
+      if (!serviceData.name || !serviceData.description || !serviceData.business_unit_id) {
         res.status(400).json({ message: 'Please provide all required fields' });
         return;
       }
+
+      const referenceError = await checkReferences(serviceData);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
       
       // Create the service
       const service = await ServiceModel.create(serviceData);
@@ -44,15 +98,26 @@ class ServiceController {
    */
   async getAllServices(req: Request, res: Response): Promise<void> {
     try {
+      // page/pageSize/sort/filter/q return one page with the total count
+      if (isListQuery(req.query)) {
+        const listQuery = parseListQuery(req.query, SERVICE_LIST_CONFIG);
+        const page = await ServiceModel.findPage(listQuery);
+        res.status(200).json({
+          success: true,
+          ...page
+        });
+        return;
+      }
+      
       // Check for query parameters
-      const { status, businessUnit } = req.query;
+      const { status, businessUnitId } = req.query;
       
       let services;
       
       if (status === 'active') {
         services = await ServiceModel.findActive();
-      } else if (businessUnit) {
-        services = await ServiceModel.findByBusinessUnit(businessUnit as string);
+      } else if (businessUnitId) {
+        services = await ServiceModel.findByBusinessUnit(parseInt(businessUnitId as string));
       } else {
         services = await ServiceModel.findAll();
       }
@@ -63,6 +128,10 @@ class ServiceController {
         data: services
       });
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
       console.error('Error getting services:', error);
       res.status(500).json({
         success: false,
@@ -107,19 +176,19 @@ class ServiceController {
 
   /**
    * Get services by business unit
-   * @route GET /api/services/business-unit/:businessUnit
+   * @route GET /api/services/business-unit/:businessUnitId
    * @access Private
    */
   async getServicesByBusinessUnit(req: Request, res: Response): Promise<void> {
     try {
-      const businessUnit = req.params.businessUnit;
+      const businessUnitId = parseInt(req.params.businessUnitId);
       
-      if (!businessUnit) {
-        res.status(400).json({ message: 'Business unit is required' });
+      if (isNaN(businessUnitId)) {
+        res.status(400).json({ message: 'Invalid business unit ID' });
         return;
       }
       
-      const services = await ServiceModel.findByBusinessUnit(businessUnit);
+      const services = await ServiceModel.findByBusinessUnit(businessUnitId);
       
       res.status(200).json({
         success: true,
@@ -137,19 +206,19 @@ class ServiceController {
 
   /**
    * Get services by industry
-   * @route GET /api/services/industry/:industry
+   * @route GET /api/services/industry/:industryId
    * @access Private
    */
   async getServicesByIndustry(req: Request, res: Response): Promise<void> {
     try {
-      const industry = req.params.industry;
+      const industryId = parseInt(req.params.industryId);
       
-      if (!industry) {
-        res.status(400).json({ message: 'Industry is required' });
+      if (isNaN(industryId)) {
+        res.status(400).json({ message: 'Invalid industry ID' });
         return;
       }
       
-      const services = await ServiceModel.findByIndustry(industry);
+      const services = await ServiceModel.findByIndustry(industryId);
       
       res.status(200).json({
         success: true,
@@ -173,7 +242,7 @@ class ServiceController {
   async updateService(req: Request, res: Response): Promise<void> {
     try {
       const id = parseInt(req.params.id);
-      const updateData = req.body;
+      const updateData = pickServiceFields(req.body);
       
       if (isNaN(id)) {
         res.status(400).json({ message: 'Invalid service ID' });
@@ -187,6 +256,12 @@ class ServiceController {
         res.status(404).json({ message: 'Service not found' });
         return;
       }
+
+      const referenceError = await checkReferences(updateData);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
       
       // Update the service
       const updatedService = await ServiceModel.update(id, updateData);
@@ -1,10 +1,12 @@
 import { Request, Response } from 'express';
-import TaskModel, { TaskStatus, TaskInput } from '../models/Task';
+import TaskModel, { Task, TaskStatus, TaskInput, TASK_LIST_CONFIG } from '../models/Task';
 import OpportunityModel from '../models/Opportunity';
 import NotificationModel, { NotificationType } from '../models/Notification';
 import { UserRole } from '../models/User';
-import UserModel from '../models/User';
-import EmailService from '../services/emailService';
+import WorkflowService from '../services/workflowService';
+import WorkflowJobModel, { WorkflowEventType } from '../models/WorkflowJob';
+import db from '../config/database';
+import { isListQuery, parseListQuery, ListQueryError } from '../utils/listQuery';
 
 export class TaskController {
   // Create a new task
@@ -30,46 +32,32 @@ export class TaskController {
         taskData.status = TaskStatus.PENDING;
       }
 
-      // Create task
-      const task = await TaskModel.create(taskData);
-
-      // Create notification for assigned user
-      if (req.user && task.assigned_user_id !== req.user.userId) {
-        await NotificationModel.create({
-          user_id: task.assigned_user_id,
-          type: NotificationType.TASK_ASSIGNED,
-          title: 'New Task Assigned',
-          message: `You have been assigned a new task: ${task.name}`,
-          related_to: 'task',
-          related_id: task.id
-        });
-
-        // Send email notification for task assignment
-        try {
-          const assignedUser = await UserModel.findById(task.assigned_user_id);
-          if (assignedUser) {
-            const taskData = {
-              ...task,
-              assigned_user_name: assignedUser.username,
-              assigned_user_email: assignedUser.email,
-              opportunity_name: opportunity.name,
-              app_url: process.env.APP_URL || 'http://localhost:3000'
-            };
-
-            await EmailService.sendTaskAssignmentEmail(
-              assignedUser.email,
-              taskData,
-              task.assigned_user_id
-            );
-            
-            console.log(`Task assignment email sent to ${assignedUser.email}`);
-          }
-        } catch (emailError) {
-          console.error('Failed to send task assignment email:', emailError);
-          // Don't fail the task creation if email fails
-        }
+      // Create the task and queue its event together, so the event can't be lost
+      const client = await db.connect();
+      let task: Task;
+
+      try {
+        await client.query('BEGIN');
+
+        task = await TaskModel.create(taskData, client);
+
+        // Assignment notifications and the overdue check are handled by the workflow engine
+        await WorkflowJobModel.enqueue({
+          event_type: WorkflowEventType.TASK_CREATED,
+          payload: { task_id: task.id, created_by: req.user ? req.user.userId : null },
+          dedupe_key: `task.created:${task.id}`
+        }, client);
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
       }
 
+      WorkflowService.processSoon();
+
       res.status(201).json(task);
     } catch (error) {
       console.error('Error creating task:', error);
@@ -85,6 +73,14 @@ export class TaskController {
         return;
       }
       
+      // page/pageSize/sort/filter/q return one page with the total count
+      if (isListQuery(req.query)) {
+        const listQuery = parseListQuery(req.query, TASK_LIST_CONFIG);
+        const page = await TaskModel.findPage(listQuery);
+        res.status(200).json(page);
+        return;
+      }
+
       const { status, opportunity_id } = req.query;
       let tasks;
 
@@ -101,6 +97,10 @@ export class TaskController {
 
       res.status(200).json(tasks);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error('Error getting tasks:', error);
       res.status(500).json({ message: 'Server error while retrieving tasks' });
     }
@@ -165,19 +165,8 @@ export class TaskController {
   }
 
   // Get overdue tasks
-  async getOverdueTasks(req: Request, res: Response): Promise<void> {
+  async getOverdueTasks(_req: Request, res: Response): Promise<void> {
     try {
-      if (!req.user) {
-        res.status(401).json({ message: 'Authentication required' });
-        return;
-      }
-      
-      // Check if user is admin or BU head
-      if (req.user.role !== UserRole.ADMIN && req.user.role !== UserRole.BU_HEAD) {
-        res.status(403).json({ message: 'Access denied: Admin or BU Head privileges required' });
-        return;
-      }
-
       const tasks = await TaskModel.findOverdueTasks();
       res.status(200).json(tasks);
     } catch (error) {
@@ -204,18 +193,39 @@ export class TaskController {
         return;
       }
 
-      // Check if user has permission to update this task
-      const isAssignedUser = existingTask.assigned_user_id === req.user.userId;
-      const isAdmin = req.user.role === UserRole.ADMIN;
-      const isBUHead = req.user.role === UserRole.BU_HEAD;
-      
-      if (!isAssignedUser && !isAdmin && !isBUHead) {
-        res.status(403).json({ message: 'Access denied: You cannot update this task' });
-        return;
+      // Update the task and queue its events together
+      const client = await db.connect();
+      let updatedTask: Task | null;
+
+      try {
+        await client.query('BEGIN');
+
+        updatedTask = await TaskModel.update(taskId, taskData, client);
+
+        // A rescheduled task needs a fresh overdue check
+        if (updatedTask && new Date(updatedTask.due_date).getTime() !== new Date(existingTask.due_date).getTime()) {
+          await WorkflowJobModel.enqueue({
+            event_type: WorkflowEventType.TASK_DUE_DATE_CHANGED,
+            payload: { task_id: taskId }
+          }, client);
+        }
+
+        if (updatedTask && updatedTask.status !== existingTask.status) {
+          await WorkflowJobModel.enqueue({
+            event_type: WorkflowEventType.TASK_STATUS_CHANGED,
+            payload: { task_id: taskId, old_status: existingTask.status, new_status: updatedTask.status }
+          }, client);
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
       }
 
-      // Update task
-      const updatedTask = await TaskModel.update(taskId, taskData);
+      WorkflowService.processSoon();
       
       // Create notification if status changed to completed
       if (taskData.status === TaskStatus.COMPLETED && existingTask.status !== TaskStatus.COMPLETED) {
@@ -266,18 +276,31 @@ export class TaskController {
         return;
       }
 
-      // Check if user has permission to update this task
-      const isAssignedUser = existingTask.assigned_user_id === req.user.userId;
-      const isAdmin = req.user.role === UserRole.ADMIN;
-      const isBUHead = req.user.role === UserRole.BU_HEAD;
-      
-      if (!isAssignedUser && !isAdmin && !isBUHead) {
-        res.status(403).json({ message: 'Access denied: You cannot update this task' });
-        return;
+      // Update the status and queue its event together
+      const client = await db.connect();
+      let updatedTask: Task | null;
+
+      try {
+        await client.query('BEGIN');
+
+        updatedTask = await TaskModel.updateStatus(taskId, status as TaskStatus, client);
+
+        if (updatedTask && status !== existingTask.status) {
+          await WorkflowJobModel.enqueue({
+            event_type: WorkflowEventType.TASK_STATUS_CHANGED,
+            payload: { task_id: taskId, old_status: existingTask.status, new_status: status }
+          }, client);
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
       }
 
-      // Update task status
-      const updatedTask = await TaskModel.updateStatus(taskId, status as TaskStatus);
+      WorkflowService.processSoon();
       
       // Create notification if status changed to completed
       if (status === TaskStatus.COMPLETED && existingTask.status !== TaskStatus.COMPLETED) {
@@ -322,15 +345,6 @@ export class TaskController {
         return;
       }
 
-      // Check if user has permission to delete this task
-      const isAdmin = req.user.role === UserRole.ADMIN;
-      const isBUHead = req.user.role === UserRole.BU_HEAD;
-      
-      if (!isAdmin && !isBUHead) {
-        res.status(403).json({ message: 'Access denied: Admin or BU Head privileges required to delete tasks' });
-        return;
-      }
-
       // Delete task
       const deleted = await TaskModel.delete(taskId);
       
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { UserRole } from '../models/User';
+import twoFactorService from '../services/twoFactorService';
+
+/**
+ * Two-Factor Policy Controller
+ * Admin settings for which roles must use two-factor authentication;
+ * enrollment itself is handled by authController
+ */
+class TwoFactorPolicyController {
+  /**
+   * Get the roles that require two-factor
+   */
+  async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const requiredRoles = await twoFactorService.getRequiredRoles();
+
+      res.status(200).json({
+        success: true,
+        data: { requiredRoles }
+      });
+    } catch (error) {
+      console.error('Error getting two-factor policy:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while retrieving two-factor policy'
+      });
+    }
+  }
+
+  /**
+   * Set the roles that require two-factor
+   */
+  async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { requiredRoles } = req.body;
+
+      if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !Object.values(UserRole).includes(role))) {
+        res.status(400).json({
+          success: false,
+          message: `requiredRoles must be a list of roles: ${Object.values(UserRole).join(', ')}`
+        });
+        return;
+      }
+
+      // Otherwise the admin would sign themselves out with no way back in
+      // except setting it up on the spot
+      if (requiredRoles.includes(req.user!.role) && !(await twoFactorService.isEnabled(req.user!.userId))) {
+        res.status(400).json({
+          success: false,
+          message: 'Turn on two-factor authentication for your own account before requiring it for your role'
+        });
+        return;
+      }
+
+      const saved = await twoFactorService.setRequiredRoles([...new Set<UserRole>(requiredRoles)], req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor policy updated successfully',
+        data: { requiredRoles: saved }
+      });
+    } catch (error) {
+      console.error('Error updating two-factor policy:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while updating two-factor policy'
+      });
+    }
+  }
+}
+
+// Export controller instance
+export default new TwoFactorPolicyController();
@@ -1,5 +1,52 @@
 import { Request, Response } from 'express';
-import UserModel from '../models/User';
+import UserModel, { UserRole } from '../models/User';
+import BusinessUnitModel from '../models/BusinessUnit';
+import sessionService from '../services/sessionService';
+import twoFactorService from '../services/twoFactorService';
+
+// Match the users table column sizes
+const USERNAME_MAX_LENGTH = 50;
+const EMAIL_MAX_LENGTH = 100;
+const MIN_PASSWORD_LENGTH = 6;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check the shape of a create/update body, returning an error message or null.
+ * On update every field is optional.
+ */
+const validateUserFields = (body: any, isUpdate: boolean): string | null => {
+  const { username, email, password, role } = body;
+
+  if (username !== undefined || !isUpdate) {
+    if (typeof username !== 'string' || !username.trim()) {
+      return 'Username is required';
+    }
+    if (username.trim().length > USERNAME_MAX_LENGTH) {
+      return `Username must be at most ${USERNAME_MAX_LENGTH} characters`;
+    }
+  }
+  if (email !== undefined || !isUpdate) {
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return 'A valid email address is required';
+    }
+    if (email.trim().length > EMAIL_MAX_LENGTH) {
+      return `Email must be at most ${EMAIL_MAX_LENGTH} characters`;
+    }
+  }
+  // Updates may send an empty password to leave it unchanged
+  if (password !== undefined && (password !== '' || !isUpdate)) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+  }
+  if (role !== undefined || !isUpdate) {
+    if (!Object.values(UserRole).includes(role)) {
+      return 'Invalid role';
+    }
+  }
+
+  return null;
+};
 
 /**
  * User Controller
@@ -61,13 +108,17 @@ export class UserController {
    */
   async createUser(req: Request, res: Response): Promise<void> {
     try {
-      const { username, email, password, role } = req.body;
+      const { password, role } = req.body;
       
       // Validate required fields
-      if (!username || !email || !password || !role) {
-        res.status(400).json({ message: 'Username, email, password, and role are required' });
+      const invalid = validateUserFields(req.body, false);
+      if (invalid) {
+        res.status(400).json({ message: invalid });
         return;
       }
+
+      const username = req.body.username.trim();
+      const email = req.body.email.trim();
       
       // Check if username already exists
       const existingUserByUsername = await UserModel.findByUsername(username);
@@ -113,13 +164,27 @@ export class UserController {
         return;
       }
       
-      const { username, email, password, role } = req.body;
+      const { password, role } = req.body;
+      const username = typeof req.body.username === 'string' ? req.body.username.trim() : undefined;
+      const email = typeof req.body.email === 'string' ? req.body.email.trim() : undefined;
       
       // Ensure at least one field is provided
       if (!username && !email && !password && !role) {
         res.status(400).json({ message: 'At least one field (username, email, password, role) is required' });
         return;
       }
+
+      const invalid = validateUserFields(req.body, true);
+      if (invalid) {
+        res.status(400).json({ message: invalid });
+        return;
+      }
+
+      // Admins can't demote themselves and lock everyone out of this page
+      if (role && role !== UserRole.ADMIN && id === req.user?.userId) {
+        res.status(400).json({ message: 'You cannot remove your own admin role' });
+        return;
+      }
       
       // Check if user exists
       const existingUser = await UserModel.findById(id);
@@ -128,6 +193,15 @@ export class UserController {
         return;
       }
       
+      // A BU Head's units would be left with an owner who isn't one
+      if (role && existingUser.role === UserRole.BU_HEAD && role !== UserRole.BU_HEAD) {
+        const headedUnits = await BusinessUnitModel.findByOwner(id);
+        if (headedUnits.length > 0) {
+          res.status(409).json({ message: `User heads ${headedUnits.length} business unit(s); assign them a new owner first` });
+          return;
+        }
+      }
+      
       // Check if username is being changed and if it's already in use
       if (username && username !== existingUser.username) {
         const userWithSameUsername = await UserModel.findByUsername(username);
@@ -158,6 +232,13 @@ export class UserController {
         res.status(500).json({ message: 'Failed to update user' });
         return;
       }
+
+      // Tokens carry the role, and a reset password should lock out whoever
+      // had the old one, so sign the user out everywhere (but not the admin
+      // out of the session they're using right now)
+      if ((role && role !== existingUser.role) || password) {
+        await sessionService.revokeAll(id, id === req.user?.userId ? req.user.sessionId : undefined);
+      }
       
       // Don't return password hash
       const { password: _, ...userWithoutPassword } = updatedUser;
@@ -169,6 +250,59 @@ export class UserController {
     }
   }
 
+  /**
+   * Lift a lockout from too many failed logins
+   */
+  async unlockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid user ID' });
+        return;
+      }
+      
+      const unlocked = await UserModel.clearFailedLogins(id);
+      if (!unlocked) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+      
+      res.status(200).json({ message: 'User unlocked successfully' });
+    } catch (error) {
+      console.error(`Error unlocking user:`, error);
+      res.status(500).json({ message: 'Server error while unlocking user' });
+    }
+  }
+
+  /**
+   * Turn off a user's two-factor authentication, e.g. after they lose their
+   * device and recovery codes. They're signed out everywhere.
+   */
+  async resetTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        res.status(400).json({ message: 'Invalid user ID' });
+        return;
+      }
+      
+      const removed = await twoFactorService.disable(id);
+      if (!removed) {
+        res.status(404).json({ message: 'Two-factor authentication is not set up for this user' });
+        return;
+      }
+
+      await sessionService.revokeAll(id);
+      
+      res.status(200).json({ message: 'Two-factor authentication reset successfully' });
+    } catch (error) {
+      console.error(`Error resetting two-factor authentication:`, error);
+      res.status(500).json({ message: 'Server error while resetting two-factor authentication' });
+    }
+  }
+
   /**
    * Delete a user
    */
@@ -180,6 +314,11 @@ export class UserController {
         res.status(400).json({ message: 'Invalid user ID' });
         return;
       }
+
+      if (id === req.user?.userId) {
+        res.status(400).json({ message: 'You cannot delete your own account' });
+        return;
+      }
       
       // Check if user exists
       const existingUser = await UserModel.findById(id);
@@ -197,7 +336,13 @@ export class UserController {
       }
       
       res.status(200).json({ message: 'User deleted successfully' });
-    } catch (error) {
+    } catch (error: any) {
+      // Clients and tasks keep their owner/assignee, so users still holding
+      // them can't be removed
+      if (error.code === '23503') {
+        res.status(409).json({ message: 'User still owns clients or tasks; reassign them first' });
+        return;
+      }
       console.error(`Error deleting user:`, error);
       res.status(500).json({ message: 'Server error while deleting user' });
     }
@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import WorkflowRuleModel, {
+  WorkflowRule,
+  WorkflowRuleAction,
+  WorkflowRuleInput,
+  WorkflowRuleRecipient,
+  WorkflowRuleTrigger
+} from '../models/WorkflowRule';
+import { UserRole } from '../models/User';
+
+const CONDITION_FIELDS = ['status', 'previous_status', 'priority', 'business_unit_id', 'service_id', 'client_id'];
+
+/**
+ * Check a rule definition, returning an error message or null if it is valid
+ */
+const validateRule = (ruleData: Partial<WorkflowRuleInput>): string | null => {
+  if (!ruleData.name || !ruleData.trigger_event || !ruleData.action_type) {
+    return 'Name, trigger and action are required';
+  }
+
+  if (!Object.values(WorkflowRuleTrigger).includes(ruleData.trigger_event)) {
+    return `Invalid trigger: ${ruleData.trigger_event}`;
+  }
+
+  if (!Object.values(WorkflowRuleAction).includes(ruleData.action_type)) {
+    return `Invalid action: ${ruleData.action_type}`;
+  }
+
+  const conditions = ruleData.conditions || {};
+  const unknownConditions = Object.keys(conditions).filter(key => !CONDITION_FIELDS.includes(key));
+  if (unknownConditions.length > 0) {
+    return `Unknown conditions: ${unknownConditions.join(', ')}`;
+  }
+
+  const config = ruleData.action_config || {};
+  const recipients = Object.values(WorkflowRuleRecipient) as string[];
+
+  if (ruleData.action_type === WorkflowRuleAction.CREATE_TASK) {
+    if (!config.task_name) {
+      return 'A task name is required for create task rules';
+    }
+    if (config.due_in_days === undefined || isNaN(Number(config.due_in_days)) || Number(config.due_in_days) < 0) {
+      return 'Due in days must be zero or more';
+    }
+    if (config.assign_to && !recipients.includes(config.assign_to)) {
+      return `Invalid assignee: ${config.assign_to}`;
+    }
+  }
+
+  if (ruleData.action_type === WorkflowRuleAction.NOTIFY) {
+    if (!config.title || !config.message) {
+      return 'A title and message are required for notify rules';
+    }
+    if (config.recipient && !recipients.includes(config.recipient)) {
+      return `Invalid recipient: ${config.recipient}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Admins can change any rule; BU Heads only the rules they created
+ */
+const canManageRule = (req: Request, rule: WorkflowRule): boolean => {
+  return req.user?.role === UserRole.ADMIN || rule.created_by === req.user?.userId;
+};
+
+/**
+ * Workflow Rule Controller
+ * Handles the admin-defined workflow automation rules
+ */
+class WorkflowRuleController {
+  /**
+   * Get workflow rules (all for admins, their own for BU Heads)
+   * @route GET /api/workflow-rules
+   * @access Private (Admin, BU Head)
+   */
+  async getAllRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await WorkflowRuleModel.findAll();
+      const visibleRules = rules.filter(rule => canManageRule(req, rule));
+
+      res.status(200).json({
+        success: true,
+        data: visibleRules
+      });
+    } catch (error) {
+      console.error('Error fetching workflow rules:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while fetching workflow rules'
+      });
+    }
+  }
+
+  /**
+   * Get a workflow rule by ID
+   * @route GET /api/workflow-rules/:id
+   * @access Private (Admin, BU Head)
+   */
+  async getRuleById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({ success: false, message: 'Invalid workflow rule ID' });
+        return;
+      }
+
+      const rule = await WorkflowRuleModel.findById(id);
+
+      if (!rule || !canManageRule(req, rule)) {
+        res.status(404).json({ success: false, message: 'Workflow rule not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      console.error('Error fetching workflow rule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while fetching workflow rule'
+      });
+    }
+  }
+
+  /**
+   * Create a workflow rule
+   * @route POST /api/workflow-rules
+   * @access Private (Admin, BU Head)
+   */
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const ruleData: WorkflowRuleInput = req.body;
+      const validationError = validateRule(ruleData);
+
+      if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+      }
+
+      const rule = await WorkflowRuleModel.create({
+        ...ruleData,
+        created_by: req.user ? req.user.userId : null
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Workflow rule created successfully',
+        data: rule
+      });
+    } catch (error) {
+      console.error('Error creating workflow rule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while creating workflow rule'
+      });
+    }
+  }
+
+  /**
+   * Update a workflow rule
+   * @route PUT /api/workflow-rules/:id
+   * @access Private (Admin, BU Head - own rules)
+   */
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({ success: false, message: 'Invalid workflow rule ID' });
+        return;
+      }
+
+      const existingRule = await WorkflowRuleModel.findById(id);
+
+      if (!existingRule || !canManageRule(req, existingRule)) {
+        res.status(404).json({ success: false, message: 'Workflow rule not found' });
+        return;
+      }
+
+      // Validate the rule as it will be saved
+      const ruleData: Partial<WorkflowRuleInput> = req.body;
+      const validationError = validateRule({ ...existingRule, ...ruleData });
+
+      if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+      }
+
+      const rule = await WorkflowRuleModel.update(id, ruleData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow rule updated successfully',
+        data: rule
+      });
+    } catch (error) {
+      console.error('Error updating workflow rule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while updating workflow rule'
+      });
+    }
+  }
+
+  /**
+   * Delete a workflow rule
+   * @route DELETE /api/workflow-rules/:id
+   * @access Private (Admin, BU Head - own rules)
+   */
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        res.status(400).json({ success: false, message: 'Invalid workflow rule ID' });
+        return;
+      }
+
+      const existingRule = await WorkflowRuleModel.findById(id);
+
+      if (!existingRule || !canManageRule(req, existingRule)) {
+        res.status(404).json({ success: false, message: 'Workflow rule not found' });
+        return;
+      }
+
+      await WorkflowRuleModel.delete(id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow rule deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting workflow rule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Server error while deleting workflow rule'
+      });
+    }
+  }
+}
+
+export default new WorkflowRuleController();
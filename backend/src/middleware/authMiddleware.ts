@@ -1,17 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { JsonWebTokenError } from 'jsonwebtoken';
 import { UserRole } from '../models/User';
-
-// JWT secret from environment variables
-const JWT_SECRET = process.env.JWT_SECRET || 'default_jwt_secret_key';
-
-// Interface for decoded token
-interface DecodedToken {
-  userId: number;
-  role: UserRole;
-  iat: number;
-  exp: number;
-}
+import sessionService from '../services/sessionService';
 
 // Extend Express Request interface to include user property
 declare global {
@@ -20,13 +10,16 @@ declare global {
       user?: {
         userId: number;
         role: UserRole;
+        // The user_sessions row the access token belongs to
+        sessionId: number;
       };
     }
   }
 }
 
-// Middleware to authenticate JWT token
-export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+// Middleware to authenticate JWT token. Expired or revoked tokens get a 401
+// so the client knows to refresh.
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   // Get token from Authorization header
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN format
@@ -36,21 +29,34 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     return;
   }
   
+  let decoded;
   try {
-    // Verify token
-    const decoded = jwt.verify(token, JWT_SECRET) as DecodedToken;
-    
-    // Attach user data to request
-    req.user = {
-      userId: decoded.userId,
-      role: decoded.role
-    };
-    
-    next();
+    // Verify token and its session
+    decoded = await sessionService.verifyAccessToken(token);
   } catch (error) {
-    console.error('Token verification error:', error);
-    res.status(403).json({ message: 'Invalid or expired token' });
+    // TokenExpiredError is a JsonWebTokenError too
+    if (error instanceof JsonWebTokenError) {
+      res.status(401).json({ message: 'Invalid or expired token' });
+    } else {
+      console.error('Token verification error:', error);
+      res.status(500).json({ message: 'Server error during authentication' });
+    }
+    return;
   }
+
+  if (!decoded) {
+    res.status(401).json({ message: 'Session has been revoked' });
+    return;
+  }
+    
+  // Attach user data to request
+  req.user = {
+    userId: decoded.userId,
+    role: decoded.role,
+    sessionId: decoded.sid
+  };
+  
+  next();
 };
 
 // Middleware to check if user has required role
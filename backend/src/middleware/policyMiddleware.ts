@@ -0,0 +1,165 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '../models/User';
+import BusinessUnitModel from '../models/BusinessUnit';
+import ClientModel from '../models/Client';
+import ServiceModel from '../models/Service';
+import OpportunityModel from '../models/Opportunity';
+import TaskModel from '../models/Task';
+import {
+  can,
+  getScope,
+  ACCESS_POLICY,
+  PolicyAction,
+  PolicyRecord,
+  PolicyResource,
+  PolicyUser,
+  RolePolicy
+} from '../policies/accessPolicy';
+
+interface AuthorizeOptions {
+  // Route param holding the record ID (defaults to "id")
+  idParam?: string;
+}
+
+const toId = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const id = Number(value);
+  return isNaN(id) ? null : id;
+};
+
+const findServiceUnit = async (serviceId: unknown): Promise<number | null> => {
+  const id = toId(serviceId);
+  const service = id !== null ? await ServiceModel.findById(id) : null;
+  return service ? service.business_unit_id : null;
+};
+
+/**
+ * Turn a stored record, or the body of a create, into the fields the
+ * policy scopes look at
+ */
+export const toPolicyRecord = async (resource: PolicyResource, attributes: Record<string, any>): Promise<PolicyRecord> => {
+  switch (resource) {
+    case 'client':
+      return { ownerIds: [toId(attributes.account_owner_id)] };
+    case 'service':
+      return { ownerIds: [], businessUnitId: toId(attributes.business_unit_id) };
+    case 'opportunity':
+      return {
+        ownerIds: [toId(attributes.assigned_user_id)],
+        businessUnitId: await findServiceUnit(attributes.service_id)
+      };
+    case 'task': {
+      // Whoever owns the opportunity owns its tasks too
+      const opportunityId = toId(attributes.opportunity_id);
+      const opportunity = opportunityId !== null ? await OpportunityModel.findById(opportunityId) : null;
+      return {
+        ownerIds: [toId(attributes.assigned_user_id), opportunity?.assigned_user_id],
+        businessUnitId: opportunity ? await findServiceUnit(opportunity.service_id) : null
+      };
+    }
+    default:
+      return { ownerIds: [] };
+  }
+};
+
+const findRecord = async (resource: PolicyResource, id: number): Promise<Record<string, any> | null> => {
+  switch (resource) {
+    case 'client':
+      return ClientModel.findById(id);
+    case 'service':
+      return ServiceModel.findById(id);
+    case 'opportunity':
+      return OpportunityModel.findById(id);
+    case 'task':
+      return TaskModel.findById(id);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Load what the policy needs to know about the signed-in user
+ */
+export const resolvePolicyUser = async (user: { userId: number; role: UserRole }): Promise<PolicyUser> => {
+  const businessUnitIds = user.role === UserRole.BU_HEAD
+    ? (await BusinessUnitModel.findByOwner(user.userId)).map(unit => unit.id)
+    : [];
+
+  return { userId: user.userId, role: user.role, businessUnitIds };
+};
+
+/**
+ * The policy as seen by one user, for the frontend's can() checks
+ */
+export const getUserPermissions = async (
+  user: { userId: number; role: UserRole }
+): Promise<{ business_unit_ids: number[]; rules: RolePolicy }> => {
+  const policyUser = await resolvePolicyUser(user);
+  return { business_unit_ids: policyUser.businessUnitIds, rules: ACCESS_POLICY[user.role] || {} };
+};
+
+/**
+ * Route guard driven by the access policy. Create checks the request body;
+ * update and delete check the stored record, and update also checks the
+ * record as it would be after the change, so nothing can be moved out of
+ * the user's scope.
+ */
+export const authorize = (action: PolicyAction, resource: PolicyResource, options: AuthorizeOptions = {}) => {
+  const idParam = options.idParam || 'id';
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const denied = () => res.status(403).json({ message: `Access denied: you cannot ${action} this ${resource.replace('_', ' ')}` });
+      const scope = getScope(req.user.role, resource, action);
+
+      if (!scope) {
+        denied();
+        return;
+      }
+      if (scope === 'all' || action === 'read' || action === 'report') {
+        next();
+        return;
+      }
+
+      const user = await resolvePolicyUser(req.user);
+      const body = req.body || {};
+      const records: PolicyRecord[] = [];
+
+      if (action === 'create') {
+        // New opportunities are assigned to their creator unless stated otherwise
+        const attributes = resource === 'opportunity'
+          ? { ...body, assigned_user_id: body.assigned_user_id || user.userId }
+          : body;
+        records.push(await toPolicyRecord(resource, attributes));
+      } else {
+        const id = toId(req.params[idParam]);
+        const existing = id !== null ? await findRecord(resource, id) : null;
+
+        // Bad IDs and missing records are reported by the controller
+        if (!existing) {
+          next();
+          return;
+        }
+
+        records.push(await toPolicyRecord(resource, existing));
+        if (action === 'update') {
+          records.push(await toPolicyRecord(resource, { ...existing, ...body }));
+        }
+      }
+
+      if (records.every(record => can(user, action, resource, record))) {
+        next();
+      } else {
+        denied();
+      }
+    } catch (error) {
+      console.error('Error checking access policy:', error);
+      res.status(500).json({ message: 'Server error while checking permissions' });
+    }
+  };
+};
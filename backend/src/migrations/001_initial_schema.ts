@@ -0,0 +1,229 @@
+import { Migration } from './types';
+
+/**
+ * The schema the models' createTable() methods used to build on startup.
+ * Everything is IF NOT EXISTS, so databases created that way adopt the
+ * migration history without changes.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(50) UNIQUE NOT NULL,
+        email VARCHAR(100) UNIQUE NOT NULL,
+        password VARCHAR(100) NOT NULL,
+        role VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS business_units (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) UNIQUE NOT NULL,
+        description TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      ALTER TABLE business_units ADD COLUMN IF NOT EXISTS owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+      CREATE TABLE IF NOT EXISTS industries (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) UNIQUE NOT NULL,
+        description TEXT,
+        status VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS services (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        description TEXT NOT NULL,
+        pricing_model VARCHAR(50) NOT NULL,
+        pricing_details TEXT,
+        business_unit VARCHAR(50) NOT NULL,
+        applicable_industries TEXT[] NOT NULL,
+        client_role VARCHAR(100) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      ALTER TABLE services ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_services_business_unit ON services (business_unit);
+      CREATE INDEX IF NOT EXISTS idx_services_status ON services (status);
+
+      CREATE TABLE IF NOT EXISTS clients (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        industry VARCHAR(50) NOT NULL,
+        contact_name VARCHAR(100) NOT NULL,
+        contact_email VARCHAR(100) NOT NULL,
+        contact_phone VARCHAR(20) NOT NULL,
+        address TEXT NOT NULL,
+        account_owner_id INTEGER NOT NULL,
+        services_used INTEGER[] NOT NULL,
+        crm_link TEXT,
+        notes TEXT,
+        status VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (account_owner_id) REFERENCES users(id) ON DELETE RESTRICT
+      );
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_clients_name ON clients (name);
+      CREATE INDEX IF NOT EXISTS idx_clients_industry ON clients (industry);
+      CREATE INDEX IF NOT EXISTS idx_clients_account_owner ON clients (account_owner_id);
+
+      CREATE TABLE IF NOT EXISTS client_contacts (
+        id SERIAL PRIMARY KEY,
+        client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        job_title VARCHAR(100),
+        role VARCHAR(100),
+        email VARCHAR(100),
+        phone VARCHAR(20),
+        is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+        notes TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_client_contacts_client ON client_contacts (client_id);
+
+      -- Clients from before contacts existed get their single contact as the primary one
+      INSERT INTO client_contacts (client_id, name, email, phone, is_primary)
+      SELECT c.id, c.contact_name, c.contact_email, c.contact_phone, TRUE
+      FROM clients c
+      WHERE c.contact_name IS NOT NULL AND c.contact_name <> ''
+        AND NOT EXISTS (SELECT 1 FROM client_contacts cc WHERE cc.client_id = c.id);
+
+      CREATE TABLE IF NOT EXISTS opportunities (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(200) NOT NULL,
+        client_id INTEGER NOT NULL,
+        service_id INTEGER NOT NULL,
+        assigned_user_id INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        priority VARCHAR(20) NOT NULL,
+        estimated_value NUMERIC(12, 2) NOT NULL,
+        due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        notes TEXT,
+        loss_reason TEXT,
+        won_date TIMESTAMP WITH TIME ZONE,
+        final_value NUMERIC(12, 2),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        is_deleted BOOLEAN DEFAULT FALSE,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE RESTRICT,
+        FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE RESTRICT,
+        FOREIGN KEY (assigned_user_id) REFERENCES users(id) ON DELETE RESTRICT
+      );
+      ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS loss_reason TEXT;
+      ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS won_date TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS final_value NUMERIC(12, 2);
+      ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_opportunities_client ON opportunities (client_id);
+      CREATE INDEX IF NOT EXISTS idx_opportunities_service ON opportunities (service_id);
+      CREATE INDEX IF NOT EXISTS idx_opportunities_client_service ON opportunities (client_id, service_id);
+      CREATE INDEX IF NOT EXISTS idx_opportunities_assigned_user ON opportunities (assigned_user_id);
+      CREATE INDEX IF NOT EXISTS idx_opportunities_status ON opportunities (status);
+      CREATE INDEX IF NOT EXISTS idx_opportunities_due_date ON opportunities (due_date);
+
+      CREATE TABLE IF NOT EXISTS opportunity_status_history (
+        id SERIAL PRIMARY KEY,
+        opportunity_id INTEGER NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+        old_status VARCHAR(20),
+        new_status VARCHAR(20) NOT NULL,
+        changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        reason TEXT,
+        changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_opportunity_status_history_opportunity
+        ON opportunity_status_history (opportunity_id, changed_at);
+
+      CREATE TABLE IF NOT EXISTS opportunity_stage_rules (
+        status VARCHAR(20) PRIMARY KEY,
+        allowed_transitions TEXT[] NOT NULL DEFAULT '{}',
+        required_fields TEXT[] NOT NULL DEFAULT '{}',
+        updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS tasks (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        opportunity_id INTEGER NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+        assigned_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_tasks_opportunity ON tasks (opportunity_id);
+      CREATE INDEX IF NOT EXISTS idx_tasks_assigned_user ON tasks (assigned_user_id);
+      CREATE INDEX IF NOT EXISTS idx_tasks_status_due ON tasks (status, due_date);
+
+      CREATE TABLE IF NOT EXISTS notifications (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type VARCHAR(50) NOT NULL,
+        title VARCHAR(100) NOT NULL,
+        message TEXT NOT NULL,
+        related_to VARCHAR(20) NOT NULL,
+        related_id INTEGER NOT NULL,
+        is_read BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_jobs (
+        id SERIAL PRIMARY KEY,
+        event_type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        dedupe_key VARCHAR(200) UNIQUE,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        completed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_jobs_due ON workflow_jobs (status, run_at);
+
+      CREATE TABLE IF NOT EXISTS workflow_rules (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(200) NOT NULL,
+        description TEXT,
+        trigger_event VARCHAR(50) NOT NULL,
+        conditions JSONB NOT NULL DEFAULT '{}',
+        action_type VARCHAR(50) NOT NULL,
+        action_config JSONB NOT NULL DEFAULT '{}',
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_rules_trigger
+        ON workflow_rules (trigger_event) WHERE is_active
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS
+        workflow_rules, workflow_jobs, notifications, tasks, opportunity_stage_rules,
+        opportunity_status_history, opportunities, client_contacts, clients, services,
+        industries, business_units, users
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+import { Migration } from './types';
+
+/**
+ * Soft delete flags for the tables that only got them from the old
+ * scripts/addSoftDeleteFields.ts (clients, services and opportunities have
+ * them from the initial schema)
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'soft_delete_columns',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE;
+      ALTER TABLE business_units ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE;
+      ALTER TABLE industries ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT FALSE
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      ALTER TABLE tasks DROP COLUMN IF EXISTS is_deleted;
+      ALTER TABLE business_units DROP COLUMN IF EXISTS is_deleted;
+      ALTER TABLE industries DROP COLUMN IF EXISTS is_deleted
+    `);
+  }
+};
+
+export default migration;
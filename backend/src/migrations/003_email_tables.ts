@@ -0,0 +1,55 @@
+import { Migration } from './types';
+
+/**
+ * Email log and preference tables, previously only created by running
+ * src/scripts/createEmailTables.ts by hand
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'email_tables',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS email_logs (
+        id SERIAL PRIMARY KEY,
+        recipient_email VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        template_name VARCHAR(100),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        message_id VARCHAR(255),
+        error_message TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS email_preferences (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        task_assignments BOOLEAN DEFAULT TRUE,
+        task_overdue BOOLEAN DEFAULT TRUE,
+        task_escalations BOOLEAN DEFAULT TRUE,
+        opportunity_updates BOOLEAN DEFAULT TRUE,
+        opportunity_won BOOLEAN DEFAULT TRUE,
+        daily_digest BOOLEAN DEFAULT TRUE,
+        weekly_digest BOOLEAN DEFAULT FALSE,
+        email_frequency VARCHAR(20) DEFAULT 'immediate',
+        digest_time VARCHAR(5) DEFAULT '08:00',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id)
+      );
+
+      -- Existing users start with the defaults for their role; digests go to managers
+      INSERT INTO email_preferences (user_id, daily_digest, weekly_digest)
+      SELECT id, role IN ('bu_head', 'senior_management'), role = 'senior_management'
+      FROM users
+      ON CONFLICT (user_id) DO NOTHING
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS email_preferences, email_logs');
+  }
+};
+
+export default migration;
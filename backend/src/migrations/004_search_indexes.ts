@@ -0,0 +1,42 @@
+import { Migration } from './types';
+
+const SEARCH_INDEXES = [
+  'CREATE INDEX IF NOT EXISTS idx_opportunities_name_trgm ON opportunities USING gin (name gin_trgm_ops)',
+  'CREATE INDEX IF NOT EXISTS idx_clients_name_trgm ON clients USING gin (name gin_trgm_ops)',
+  'CREATE INDEX IF NOT EXISTS idx_services_name_trgm ON services USING gin (name gin_trgm_ops)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_name_trgm ON tasks USING gin (name gin_trgm_ops)'
+];
+
+/**
+ * Trigram indexes make the list endpoints' q search fast on large tables.
+ * They need the pg_trgm extension, which the database user may not be
+ * allowed to create; search still works without them, only slower, so a
+ * failure here is logged rather than failing the migration.
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'search_indexes',
+
+  async up(client) {
+    await client.query('SAVEPOINT search_indexes');
+    try {
+      await client.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+      for (const index of SEARCH_INDEXES) {
+        await client.query(index);
+      }
+      await client.query('RELEASE SAVEPOINT search_indexes');
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT search_indexes');
+      console.warn('Could not create trigram search indexes, list search will use sequential scans:', (error as Error).message);
+    }
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP INDEX IF EXISTS idx_opportunities_name_trgm, idx_clients_name_trgm,
+        idx_services_name_trgm, idx_tasks_name_trgm
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,116 @@
+import { Migration } from './types';
+
+// Rows whose name was blank are attached to this placeholder, since the
+// new reference columns are required
+const UNASSIGNED = 'Unassigned';
+
+/**
+ * Replace the free-text services.business_unit, services.applicable_industries
+ * and clients.industry columns with references to business_units and
+ * industries, so renaming a business unit or industry carries through to
+ * everything that uses it.
+ *
+ * Existing strings are matched to rows by name, ignoring case and surrounding
+ * whitespace; names with no matching row are created first. Workflow rule
+ * conditions on a business unit name are rewritten to the unit's ID.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'business_unit_industry_references',
+
+  async up(client) {
+    await client.query(`
+      INSERT INTO business_units (name, description, status)
+      SELECT DISTINCT ON (LOWER(name)) name, '', 'active'
+      FROM (
+        SELECT COALESCE(NULLIF(TRIM(business_unit), ''), '${UNASSIGNED}') AS name FROM services
+        UNION ALL
+        SELECT TRIM(conditions->>'business_unit') FROM workflow_rules
+        WHERE COALESCE(TRIM(conditions->>'business_unit'), '') <> ''
+      ) names
+      WHERE NOT EXISTS (SELECT 1 FROM business_units bu WHERE LOWER(bu.name) = LOWER(names.name))
+      ORDER BY LOWER(name), name
+    `);
+
+    await client.query(`
+      INSERT INTO industries (name, description, status)
+      SELECT DISTINCT ON (LOWER(name)) name, NULL, 'active'
+      FROM (
+        SELECT COALESCE(NULLIF(TRIM(industry), ''), '${UNASSIGNED}') AS name FROM clients
+        UNION ALL
+        SELECT TRIM(unnest(applicable_industries)) FROM services
+      ) names
+      WHERE name <> ''
+        AND NOT EXISTS (SELECT 1 FROM industries i WHERE LOWER(i.name) = LOWER(names.name))
+      ORDER BY LOWER(name), name
+    `);
+
+    await client.query(`
+      ALTER TABLE services ADD COLUMN business_unit_id INTEGER REFERENCES business_units(id) ON DELETE RESTRICT;
+      UPDATE services s SET business_unit_id = bu.id
+      FROM business_units bu
+      WHERE LOWER(bu.name) = LOWER(COALESCE(NULLIF(TRIM(s.business_unit), ''), '${UNASSIGNED}'));
+      ALTER TABLE services ALTER COLUMN business_unit_id SET NOT NULL;
+      ALTER TABLE services DROP COLUMN business_unit;
+      CREATE INDEX IF NOT EXISTS idx_services_business_unit_id ON services (business_unit_id);
+
+      CREATE TABLE service_industries (
+        service_id INTEGER NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+        industry_id INTEGER NOT NULL REFERENCES industries(id) ON DELETE RESTRICT,
+        PRIMARY KEY (service_id, industry_id)
+      );
+      CREATE INDEX idx_service_industries_industry_id ON service_industries (industry_id);
+      INSERT INTO service_industries (service_id, industry_id)
+      SELECT DISTINCT s.id, i.id
+      FROM services s
+      CROSS JOIN LATERAL unnest(s.applicable_industries) AS applicable(name)
+      JOIN industries i ON LOWER(i.name) = LOWER(TRIM(applicable.name));
+      ALTER TABLE services DROP COLUMN applicable_industries;
+
+      ALTER TABLE clients ADD COLUMN industry_id INTEGER REFERENCES industries(id) ON DELETE RESTRICT;
+      UPDATE clients c SET industry_id = i.id
+      FROM industries i
+      WHERE LOWER(i.name) = LOWER(COALESCE(NULLIF(TRIM(c.industry), ''), '${UNASSIGNED}'));
+      ALTER TABLE clients ALTER COLUMN industry_id SET NOT NULL;
+      ALTER TABLE clients DROP COLUMN industry;
+      CREATE INDEX IF NOT EXISTS idx_clients_industry_id ON clients (industry_id);
+
+      UPDATE workflow_rules r
+      SET conditions = (r.conditions - 'business_unit') || jsonb_build_object('business_unit_id', bu.id)
+      FROM business_units bu
+      WHERE LOWER(bu.name) = LOWER(TRIM(r.conditions->>'business_unit'))
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      UPDATE workflow_rules r
+      SET conditions = (r.conditions - 'business_unit_id') || jsonb_build_object('business_unit', bu.name)
+      FROM business_units bu
+      WHERE bu.id = (r.conditions->>'business_unit_id')::INTEGER;
+
+      ALTER TABLE clients ADD COLUMN industry VARCHAR(50);
+      UPDATE clients c SET industry = i.name FROM industries i WHERE i.id = c.industry_id;
+      ALTER TABLE clients ALTER COLUMN industry SET NOT NULL;
+      ALTER TABLE clients DROP COLUMN industry_id;
+      CREATE INDEX IF NOT EXISTS idx_clients_industry ON clients (industry);
+
+      ALTER TABLE services ADD COLUMN applicable_industries TEXT[];
+      UPDATE services s SET applicable_industries = COALESCE((
+        SELECT array_agg(i.name ORDER BY i.name)
+        FROM service_industries si JOIN industries i ON i.id = si.industry_id
+        WHERE si.service_id = s.id
+      ), '{}');
+      ALTER TABLE services ALTER COLUMN applicable_industries SET NOT NULL;
+      DROP TABLE service_industries;
+
+      ALTER TABLE services ADD COLUMN business_unit VARCHAR(50);
+      UPDATE services s SET business_unit = bu.name FROM business_units bu WHERE bu.id = s.business_unit_id;
+      ALTER TABLE services ALTER COLUMN business_unit SET NOT NULL;
+      ALTER TABLE services DROP COLUMN business_unit_id;
+      CREATE INDEX IF NOT EXISTS idx_services_business_unit ON services (business_unit)
+    `);
+  }
+};
+
+export default migration;
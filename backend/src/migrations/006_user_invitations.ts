@@ -0,0 +1,34 @@
+import { Migration } from './types';
+
+/**
+ * Invitations let admins onboard users with a chosen role. Only a hash of
+ * each invite token is stored; the token itself is only in the emailed link.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'user_invitations',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE user_invitations (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(100) NOT NULL,
+        role VARCHAR(20) NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        accepted_at TIMESTAMP WITH TIME ZONE,
+        accepted_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_user_invitations_email ON user_invitations (LOWER(email))
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS user_invitations');
+  }
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration } from './types';
+
+/**
+ * One row per signed-in device. Only a hash of the current refresh token is
+ * stored; it's replaced each time the token is used. Access tokens carry the
+ * session ID, so revoking a session locks out its access token immediately.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'user_sessions',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE user_sessions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+        user_agent TEXT,
+        ip_address VARCHAR(45),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        revoked_at TIMESTAMP WITH TIME ZONE
+      );
+      CREATE INDEX idx_user_sessions_user_id ON user_sessions (user_id)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS user_sessions');
+  }
+};
+
+export default migration;
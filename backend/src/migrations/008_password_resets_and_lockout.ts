@@ -0,0 +1,47 @@
+import { Migration } from './types';
+
+/**
+ * Password reset tokens (stored hashed, single use) and failed-login
+ * tracking: a per-account counter that locks the account for a while, and a
+ * log of failures used to throttle by IP address
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'password_resets_and_lockout',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        used_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens (user_id);
+
+      ALTER TABLE users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE;
+
+      CREATE TABLE login_failures (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(100),
+        ip_address VARCHAR(45),
+        attempted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_login_failures_ip_attempted_at ON login_failures (ip_address, attempted_at)
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS login_failures;
+      ALTER TABLE users DROP COLUMN IF EXISTS locked_until;
+      ALTER TABLE users DROP COLUMN IF EXISTS failed_login_attempts;
+      DROP TABLE IF EXISTS password_reset_tokens
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import { Migration } from './types';
+
+/**
+ * TOTP two-factor authentication: each user's authenticator secret (enabled
+ * once the first code is confirmed), their single-use recovery codes (stored
+ * hashed), and the roles for which admins have made 2FA mandatory
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'two_factor_auth',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE user_two_factor (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        secret VARCHAR(64) NOT NULL,
+        enabled_at TIMESTAMP WITH TIME ZONE,
+        last_used_step INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE user_recovery_codes (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash CHAR(64) NOT NULL,
+        used_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_user_recovery_codes_user_id ON user_recovery_codes (user_id);
+
+      CREATE TABLE two_factor_required_roles (
+        role VARCHAR(20) PRIMARY KEY,
+        updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS two_factor_required_roles;
+      DROP TABLE IF EXISTS user_recovery_codes;
+      DROP TABLE IF EXISTS user_two_factor
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+/**
+ * How each user last mapped the columns of an import file onto an entity's
+ * fields, so the import wizard can pre-fill the mapping next time
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'import_column_mappings',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE import_column_mappings (
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        entity VARCHAR(20) NOT NULL,
+        mapping JSONB NOT NULL DEFAULT '{}',
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, entity)
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS import_column_mappings');
+  }
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from './types';
+
+/**
+ * Audit trail for merging duplicate clients. The merged-away client is soft
+ * deleted and points at the client it was merged into; the audit row keeps
+ * a snapshot of it and what was moved, so a merge can be reviewed later.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'client_merges',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE clients ADD COLUMN IF NOT EXISTS merged_into_id INTEGER REFERENCES clients(id);
+
+      CREATE TABLE client_merges (
+        id SERIAL PRIMARY KEY,
+        surviving_client_id INTEGER NOT NULL REFERENCES clients(id),
+        merged_client_id INTEGER NOT NULL REFERENCES clients(id),
+        merged_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        merged_client JSONB NOT NULL,
+        opportunity_ids INTEGER[] NOT NULL DEFAULT '{}',
+        contact_ids INTEGER[] NOT NULL DEFAULT '{}',
+        added_service_ids INTEGER[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX idx_client_merges_surviving_client ON client_merges (surviving_client_id);
+      CREATE INDEX idx_client_merges_merged_client ON client_merges (merged_client_id)
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS client_merges;
+      ALTER TABLE clients DROP COLUMN IF EXISTS merged_into_id
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from './types';
+
+/**
+ * Saved exports that are emailed to their owner every week. The query holds
+ * the same filter params as the export endpoint; next_run_at is when the
+ * export is next due.
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'scheduled_exports',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE scheduled_exports (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        entity VARCHAR(20) NOT NULL,
+        format VARCHAR(10) NOT NULL DEFAULT 'xlsx',
+        query JSONB NOT NULL DEFAULT '{}',
+        day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+        hour SMALLINT NOT NULL DEFAULT 8 CHECK (hour BETWEEN 0 AND 23),
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        last_sent_at TIMESTAMP WITH TIME ZONE,
+        last_error TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX idx_scheduled_exports_user ON scheduled_exports (user_id);
+      CREATE INDEX idx_scheduled_exports_due ON scheduled_exports (next_run_at) WHERE is_active = TRUE
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS scheduled_exports');
+  }
+};
+
+export default migration;
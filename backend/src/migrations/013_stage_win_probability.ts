@@ -0,0 +1,36 @@
+import { Migration } from './types';
+
+/**
+ * Chance (0-100%) that an opportunity in each stage is won, used to weight
+ * the pipeline forecast. Admins can change it per stage; existing stages
+ * start from typical values.
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'stage_win_probability',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE opportunity_stage_rules
+        ADD COLUMN IF NOT EXISTS win_probability SMALLINT CHECK (win_probability BETWEEN 0 AND 100);
+
+      UPDATE opportunity_stage_rules SET win_probability = CASE status
+        WHEN 'new' THEN 10
+        WHEN 'in_progress' THEN 20
+        WHEN 'qualified' THEN 40
+        WHEN 'proposal' THEN 60
+        WHEN 'negotiation' THEN 80
+        WHEN 'on_hold' THEN 10
+        WHEN 'won' THEN 100
+        WHEN 'lost' THEN 0
+      END
+      WHERE win_probability IS NULL
+    `);
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE opportunity_stage_rules DROP COLUMN IF EXISTS win_probability');
+  }
+};
+
+export default migration;
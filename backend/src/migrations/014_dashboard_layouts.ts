@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+/**
+ * Each user's choice and order of dashboard cards. Users without a row see
+ * their role's default cards.
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'dashboard_layouts',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE dashboard_layouts (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        cards TEXT[] NOT NULL DEFAULT '{}',
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS dashboard_layouts');
+  }
+};
+
+export default migration;
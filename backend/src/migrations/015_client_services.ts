@@ -0,0 +1,51 @@
+import { Migration } from './types';
+
+/**
+ * Engagement records for the services a client has bought. Winning an
+ * opportunity creates one; contract_value is the amount billed each period
+ * (the whole amount for one-off work). Existing won opportunities are
+ * backfilled as one-off engagements at their final or estimated value.
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'client_services',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE client_services (
+        id SERIAL PRIMARY KEY,
+        client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+        service_id INTEGER NOT NULL REFERENCES services(id) ON DELETE RESTRICT,
+        opportunity_id INTEGER UNIQUE REFERENCES opportunities(id) ON DELETE SET NULL,
+        contract_value NUMERIC(12, 2) NOT NULL CHECK (contract_value >= 0),
+        billing_frequency VARCHAR(20) NOT NULL DEFAULT 'one_off'
+          CHECK (billing_frequency IN ('one_off', 'monthly', 'quarterly', 'annual')),
+        start_date DATE NOT NULL,
+        end_date DATE,
+        renewal_date DATE,
+        notes TEXT,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        CHECK (end_date IS NULL OR end_date >= start_date)
+      );
+
+      CREATE INDEX idx_client_services_client ON client_services (client_id);
+      CREATE INDEX idx_client_services_client_service ON client_services (client_id, service_id);
+
+      INSERT INTO client_services (client_id, service_id, opportunity_id, contract_value, start_date)
+      SELECT o.client_id, o.service_id, o.id,
+             COALESCE(o.final_value, o.estimated_value),
+             COALESCE(o.won_date, o.updated_at, o.created_at)::date
+      FROM opportunities o
+      WHERE o.status = 'won'
+        AND (o.is_deleted = FALSE OR o.is_deleted IS NULL)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS client_services');
+  }
+};
+
+export default migration;
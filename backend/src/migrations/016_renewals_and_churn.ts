@@ -0,0 +1,40 @@
+import { Migration } from './types';
+
+/**
+ * Renewal and churn tracking. An opportunity can be the renewal of a client
+ * service engagement (one renewal per engagement); churn records when and
+ * why a client stopped using a service.
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'renewals_and_churn',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE opportunities
+        ADD COLUMN renewal_of_id INTEGER UNIQUE REFERENCES client_services(id) ON DELETE SET NULL;
+
+      CREATE TABLE client_service_churn (
+        id SERIAL PRIMARY KEY,
+        client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+        service_id INTEGER NOT NULL REFERENCES services(id) ON DELETE RESTRICT,
+        reason VARCHAR(30) NOT NULL,
+        notes TEXT,
+        churned_on DATE NOT NULL DEFAULT CURRENT_DATE,
+        recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX idx_client_service_churn_client_service ON client_service_churn (client_id, service_id)
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS client_service_churn;
+      ALTER TABLE opportunities DROP COLUMN IF EXISTS renewal_of_id
+    `);
+  }
+};
+
+export default migration;
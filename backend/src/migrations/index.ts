@@ -0,0 +1,42 @@
+import { Migration } from './types';
+import initialSchema from './001_initial_schema';
+import softDeleteColumns from './002_soft_delete_columns';
+import emailTables from './003_email_tables';
+import searchIndexes from './004_search_indexes';
+import businessUnitIndustryReferences from './005_business_unit_industry_references';
+import userInvitations from './006_user_invitations';
+import userSessions from './007_user_sessions';
+import passwordResetsAndLockout from './008_password_resets_and_lockout';
+import twoFactorAuth from './009_two_factor_auth';
+import importColumnMappings from './010_import_column_mappings';
+import clientMerges from './011_client_merges';
+import scheduledExports from './012_scheduled_exports';
+import stageWinProbability from './013_stage_win_probability';
+import dashboardLayouts from './014_dashboard_layouts';
+import clientServices from './015_client_services';
+import renewalsAndChurn from './016_renewals_and_churn';
+
+export { Migration } from './types';
+
+// Every migration, oldest first. New migrations are added at the end with
+// the next version number.
+const migrations: Migration[] = [
+  initialSchema,
+  softDeleteColumns,
+  emailTables,
+  searchIndexes,
+  businessUnitIndustryReferences,
+  userInvitations,
+  userSessions,
+  passwordResetsAndLockout,
+  twoFactorAuth,
+  importColumnMappings,
+  clientMerges,
+  scheduledExports,
+  stageWinProbability,
+  dashboardLayouts,
+  clientServices,
+  renewalsAndChurn
+];
+
+export default migrations;
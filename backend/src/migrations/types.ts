@@ -0,0 +1,13 @@
+import { PoolClient } from 'pg';
+
+/**
+ * A schema migration. Each one runs inside its own transaction; `down`
+ * must undo exactly what `up` did.
+ */
+export interface Migration {
+  // Matches the number the file name starts with, e.g. 3 for 003_email_tables.ts
+  version: number;
+  name: string;
+  up: (client: PoolClient) => Promise<void>;
+  down: (client: PoolClient) => Promise<void>;
+}
@@ -0,0 +1,370 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+import { OpportunityStatus } from './Opportunity';
+import { ListQueryError } from '../utils/listQuery';
+
+// Filters every analytics report takes; dates are YYYY-MM-DD and inclusive
+export interface AnalyticsFilters {
+  from?: string;
+  to?: string;
+  businessUnitIds?: number[];
+}
+
+export type WinRateGroup = 'service' | 'business_unit' | 'user';
+export const WIN_RATE_GROUPS: WinRateGroup[] = ['service', 'business_unit', 'user'];
+
+// Open pipeline for one stage in one business unit
+export interface PipelineRow {
+  status: string;
+  business_unit_id: number;
+  business_unit: string;
+  count: number;
+  value: number;
+}
+
+// Closed opportunities for one service, business unit or rep
+export interface WinRateRow {
+  id: number;
+  name: string;
+  won: number;
+  lost: number;
+  // won / (won + lost), or null with nothing closed
+  win_rate: number | null;
+  won_value: number;
+}
+
+// Average days from creation to closing; business_unit_id is null for the overall row
+export interface CycleTimeRow {
+  business_unit_id: number | null;
+  business_unit: string | null;
+  won_count: number;
+  won_avg_days: number | null;
+  lost_count: number;
+  lost_avg_days: number | null;
+  avg_days: number | null;
+}
+
+// Services per client as it stood at the end of a month (YYYY-MM)
+export interface PenetrationRow {
+  month: string;
+  clients: number;
+  client_services: number;
+  clients_with_multiple: number;
+  services_per_client: number;
+}
+
+export interface ForecastMonth {
+  month: string;
+  count: number;
+  value: number;
+  weighted_value: number;
+}
+
+export interface ForecastStage {
+  status: string;
+  win_probability: number;
+  count: number;
+  value: number;
+  weighted_value: number;
+}
+
+export interface Forecast {
+  months: ForecastMonth[];
+  stages: ForecastStage[];
+}
+
+// Longest range the penetration trend covers, and its range by default
+const MAX_PENETRATION_MONTHS = 60;
+const DEFAULT_PENETRATION_MONTHS = 12;
+
+const CLOSED_STATUSES = [OpportunityStatus.WON, OpportunityStatus.LOST];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read analytics filters from query params: ?from=&to=&businessUnitId=
+ * businessUnitId takes a comma-separated list. Throws ListQueryError for
+ * invalid values.
+ */
+export const parseAnalyticsFilters = (query: Record<string, unknown>): AnalyticsFilters => {
+  const toDate = (value: unknown, param: string): string | undefined => {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+      throw new ListQueryError(`${param} must be a date (YYYY-MM-DD)`);
+    }
+    return value;
+  };
+
+  const from = toDate(query.from, 'from');
+  const to = toDate(query.to, 'to');
+  const businessUnitIds = query.businessUnitId
+    ? String(query.businessUnitId).split(',').map(v => v.trim()).filter(Boolean).map(v => parseInt(v))
+    : undefined;
+
+  if (from && to && from > to) {
+    throw new ListQueryError('from must not be after to');
+  }
+  if (businessUnitIds?.some(isNaN)) {
+    throw new ListQueryError('businessUnitId must be comma-separated IDs');
+  }
+
+  return { from, to, businessUnitIds: businessUnitIds?.length ? businessUnitIds : undefined };
+};
+
+/**
+ * Conditions for the filters, with dateColumn checked against the date range
+ */
+const buildConditions = (filters: AnalyticsFilters, dateColumn: string | null, params: any[]): string[] => {
+  const add = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions = ['(o.is_deleted = FALSE OR o.is_deleted IS NULL)'];
+  if (filters.businessUnitIds) conditions.push(`s.business_unit_id = ANY(${add(filters.businessUnitIds)}::int[])`);
+  if (dateColumn && filters.from) conditions.push(`${dateColumn} >= ${add(filters.from)}::date`);
+  if (dateColumn && filters.to) conditions.push(`${dateColumn} < ${add(filters.to)}::date + 1`);
+  return conditions;
+};
+
+// When a closed opportunity closed: its won date, else when it last entered its status
+const CLOSED_AT = `COALESCE(
+  o.won_date,
+  (SELECT MAX(h.changed_at) FROM opportunity_status_history h
+   WHERE h.opportunity_id = o.id AND h.new_status = o.status),
+  o.updated_at
+)`;
+
+class AnalyticsModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Open opportunities and their estimated value per stage and business
+   * unit, for those due in the date range
+   */
+  async getPipeline(filters: AnalyticsFilters): Promise<PipelineRow[]> {
+    const params: any[] = [CLOSED_STATUSES];
+    const conditions = buildConditions(filters, 'o.due_date', params);
+
+    const query = `
+      SELECT o.status, bu.id AS business_unit_id, bu.name AS business_unit,
+             COUNT(*)::int AS count, COALESCE(SUM(o.estimated_value), 0)::float8 AS value
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      JOIN business_units bu ON bu.id = s.business_unit_id
+      WHERE o.status <> ALL($1) AND ${conditions.join(' AND ')}
+      GROUP BY o.status, bu.id, bu.name
+      ORDER BY bu.name, o.status
+    `;
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting pipeline analytics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Won and lost opportunities per service, business unit or assigned rep,
+   * for those closed in the date range
+   */
+  async getWinRates(filters: AnalyticsFilters, groupBy: WinRateGroup): Promise<WinRateRow[]> {
+    const groups: Record<WinRateGroup, { id: string; name: string; join: string }> = {
+      service: { id: 's.id', name: 's.name', join: '' },
+      business_unit: { id: 'bu.id', name: 'bu.name', join: 'JOIN business_units bu ON bu.id = s.business_unit_id' },
+      user: { id: 'u.id', name: 'u.username', join: 'JOIN users u ON u.id = o.assigned_user_id' }
+    };
+    const group = groups[groupBy];
+    const params: any[] = [CLOSED_STATUSES];
+    const conditions = buildConditions(filters, 'closed.closed_at', params);
+
+    const query = `
+      SELECT ${group.id} AS id, ${group.name} AS name,
+             COUNT(*) FILTER (WHERE o.status = 'won')::int AS won,
+             COUNT(*) FILTER (WHERE o.status = 'lost')::int AS lost,
+             (COUNT(*) FILTER (WHERE o.status = 'won'))::float8 / NULLIF(COUNT(*), 0) AS win_rate,
+             COALESCE(SUM(COALESCE(o.final_value, o.estimated_value)) FILTER (WHERE o.status = 'won'), 0)::float8 AS won_value
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      ${group.join}
+      CROSS JOIN LATERAL (SELECT ${CLOSED_AT} AS closed_at) closed
+      WHERE o.status = ANY($1) AND ${conditions.join(' AND ')}
+      GROUP BY ${group.id}, ${group.name}
+      ORDER BY win_rate DESC NULLS LAST, won DESC, name
+    `;
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting win rate analytics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Average days from creation to closing for opportunities closed in the
+   * date range, overall (first) and per business unit
+   */
+  async getCycleTimes(filters: AnalyticsFilters): Promise<CycleTimeRow[]> {
+    const params: any[] = [CLOSED_STATUSES];
+    const conditions = buildConditions(filters, 'closed.closed_at', params);
+    const days = `EXTRACT(EPOCH FROM (closed.closed_at - o.created_at)) / 86400`;
+
+    const query = `
+      SELECT bu.id AS business_unit_id, bu.name AS business_unit,
+             COUNT(*) FILTER (WHERE o.status = 'won')::int AS won_count,
+             (AVG(${days}) FILTER (WHERE o.status = 'won'))::float8 AS won_avg_days,
+             COUNT(*) FILTER (WHERE o.status = 'lost')::int AS lost_count,
+             (AVG(${days}) FILTER (WHERE o.status = 'lost'))::float8 AS lost_avg_days,
+             AVG(${days})::float8 AS avg_days
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      JOIN business_units bu ON bu.id = s.business_unit_id
+      CROSS JOIN LATERAL (SELECT ${CLOSED_AT} AS closed_at) closed
+      WHERE o.status = ANY($1) AND ${conditions.join(' AND ')}
+      GROUP BY GROUPING SETS ((), (bu.id, bu.name))
+      ORDER BY bu.name NULLS FIRST
+    `;
+
+    try {
+      const result = await this.pool.query(query, params);
+      // An empty range has no rows at all; keep the overall row
+      return result.rows.length > 0 ? result.rows : [{
+        business_unit_id: null,
+        business_unit: null,
+        won_count: 0,
+        won_avg_days: null,
+        lost_count: 0,
+        lost_avg_days: null,
+        avg_days: null
+      }];
+    } catch (error) {
+      console.error('Error getting cycle time analytics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Services per client at the end of each month in the date range (the last
+   * 12 months by default). A client counts a service from when its first
+   * opportunity for it was won, or from the client's creation for services
+   * recorded on the client itself. The business unit filter limits the
+   * services counted, not the clients.
+   */
+  async getPenetration(filters: AnalyticsFilters): Promise<PenetrationRow[]> {
+    const to = filters.to ? new Date(filters.to) : new Date();
+    const from = filters.from ? new Date(filters.from) : new Date(Date.UTC(
+      to.getUTCFullYear(), to.getUTCMonth() - (DEFAULT_PENETRATION_MONTHS - 1), 1
+    ));
+    const monthCount = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth() + 1;
+    if (monthCount > MAX_PENETRATION_MONTHS) {
+      throw new ListQueryError(`The penetration trend covers at most ${MAX_PENETRATION_MONTHS} months`);
+    }
+
+    const params: any[] = [from.toISOString().slice(0, 10), to.toISOString().slice(0, 10)];
+    const serviceCondition = filters.businessUnitIds
+      ? `AND s.business_unit_id = ANY($${params.push(filters.businessUnitIds)}::int[])`
+      : '';
+
+    const query = `
+      WITH months AS (
+        SELECT generate_series(date_trunc('month', $1::date), date_trunc('month', $2::date), INTERVAL '1 month') AS month
+      ),
+      live_clients AS (
+        SELECT c.id, c.created_at FROM clients c
+        WHERE c.is_deleted = FALSE OR c.is_deleted IS NULL
+      ),
+      pairs AS (
+        SELECT o.client_id, o.service_id, COALESCE(o.won_date, o.updated_at) AS since
+        FROM opportunities o
+        WHERE o.status = 'won' AND (o.is_deleted = FALSE OR o.is_deleted IS NULL)
+        UNION ALL
+        SELECT c.id, UNNEST(COALESCE(c.services_used, '{}')), c.created_at
+        FROM clients c
+      ),
+      client_services AS (
+        SELECT p.client_id, p.service_id, MIN(p.since) AS since
+        FROM pairs p
+        JOIN live_clients lc ON lc.id = p.client_id
+        JOIN services s ON s.id = p.service_id
+        WHERE (s.is_deleted = FALSE OR s.is_deleted IS NULL) ${serviceCondition}
+        GROUP BY p.client_id, p.service_id
+      )
+      SELECT to_char(m.month, 'YYYY-MM') AS month,
+             (SELECT COUNT(*) FROM live_clients lc WHERE lc.created_at < m.month + INTERVAL '1 month')::int AS clients,
+             (SELECT COUNT(*) FROM client_services cs WHERE cs.since < m.month + INTERVAL '1 month')::int AS client_services,
+             (SELECT COUNT(*) FROM (
+                SELECT cs.client_id FROM client_services cs
+                WHERE cs.since < m.month + INTERVAL '1 month'
+                GROUP BY cs.client_id HAVING COUNT(*) > 1
+              ) multi)::int AS clients_with_multiple
+      FROM months m
+      ORDER BY m.month
+    `;
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows.map(row => ({
+        ...row,
+        services_per_client: row.clients > 0 ? row.client_services / row.clients : 0
+      }));
+    } catch (error) {
+      console.error('Error getting penetration analytics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open opportunities due in the date range by month, with their estimated
+   * value weighted by their stage's win probability. Overdue opportunities
+   * count towards the current month.
+   */
+  async getForecast(filters: AnalyticsFilters): Promise<Forecast> {
+    const params: any[] = [CLOSED_STATUSES];
+    const conditions = buildConditions(filters, 'o.due_date', params);
+    const from = `
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      LEFT JOIN opportunity_stage_rules r ON r.status = o.status
+      WHERE o.status <> ALL($1) AND ${conditions.join(' AND ')}
+    `;
+    const totals = `
+      COUNT(*)::int AS count,
+      COALESCE(SUM(o.estimated_value), 0)::float8 AS value,
+      COALESCE(SUM(o.estimated_value * COALESCE(r.win_probability, 0) / 100.0), 0)::float8 AS weighted_value
+    `;
+
+    const monthQuery = `
+      SELECT to_char(GREATEST(date_trunc('month', o.due_date), date_trunc('month', NOW())), 'YYYY-MM') AS month,
+             ${totals}
+      ${from}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+    const stageQuery = `
+      SELECT o.status, COALESCE(MAX(r.win_probability), 0)::int AS win_probability, ${totals}
+      ${from}
+      GROUP BY o.status
+      ORDER BY win_probability DESC, o.status
+    `;
+
+    try {
+      const [months, stages] = await Promise.all([
+        this.pool.query(monthQuery, params),
+        this.pool.query(stageQuery, params)
+      ]);
+      return { months: months.rows, stages: stages.rows };
+    } catch (error) {
+      console.error('Error getting forecast analytics:', error);
+      throw error;
+    }
+  }
+}
+
+export default new AnalyticsModel();
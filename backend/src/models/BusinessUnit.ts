@@ -42,31 +42,6 @@ class BusinessUnitModel {
     this.pool = db;
   }
 
-  /**
-   * Create the business units table if it doesn't exist
-   */
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS business_units (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100) UNIQUE NOT NULL,
-        description TEXT NOT NULL,
-        status VARCHAR(20) NOT NULL,
-        owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Business units table created or already exists');
-    } catch (error) {
-      console.error('Error creating business units table:', error);
-      throw error;
-    }
-  }
-
   /**
    * Create a new business unit
    */
@@ -125,6 +100,36 @@ class BusinessUnitModel {
     }
   }
 
+  /**
+   * Find the business units a user heads
+   */
+  async findByOwner(ownerId: number): Promise<BusinessUnit[]> {
+    const query = 'SELECT * FROM business_units WHERE owner_id = $1 ORDER BY name';
+
+    try {
+      const result = await this.pool.query(query, [ownerId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding business units by owner:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the services that belong to a business unit
+   */
+  async countServices(id: number): Promise<number> {
+    const query = 'SELECT COUNT(*) AS count FROM services WHERE business_unit_id = $1';
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error(`Error counting services of business unit with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get all business units
    */
@@ -208,6 +213,37 @@ class BusinessUnitModel {
     }
   }
 
+  /**
+   * Move a business unit's services and workflow rule conditions to another
+   * unit, then delete it, all in one transaction
+   */
+  async deleteAndReassign(id: number, targetId: number): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'UPDATE services SET business_unit_id = $2, updated_at = CURRENT_TIMESTAMP WHERE business_unit_id = $1',
+        [id, targetId]
+      );
+      await client.query(
+        `UPDATE workflow_rules
+         SET conditions = conditions || jsonb_build_object('business_unit_id', $2::int)
+         WHERE (conditions->>'business_unit_id')::int = $1`,
+        [id, targetId]
+      );
+      const result = await client.query('DELETE FROM business_units WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      return result.rowCount ? result.rowCount > 0 : false;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error reassigning and deleting business unit with ID ${id}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete a business unit
    */
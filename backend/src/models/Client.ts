@@ -1,5 +1,7 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
+import { ListQuery, ListQueryConfig, PaginatedResult, runListQuery } from '../utils/listQuery';
+import { SERVICE_SELECT, SERVICE_FROM } from './Service';
 
 // Client status options
 export enum ClientStatus {
@@ -12,6 +14,8 @@ export enum ClientStatus {
 export interface Client {
   id: number;
   name: string;
+  industry_id: number;
+  // Name of the referenced industry, joined in on read
   industry: string;
   contact_name: string;
   contact_email: string;
@@ -25,12 +29,14 @@ export interface Client {
   created_at: Date;
   updated_at: Date;
   is_deleted?: boolean;
+  // Set when the client was merged into another one as a duplicate
+  merged_into_id?: number | null;
 }
 
 // Client input interface for creation/updates
 export interface ClientInput {
   name: string;
-  industry: string;
+  industry_id: number;
   contact_name: string;
   contact_email: string;
   contact_phone: string;
@@ -43,6 +49,56 @@ export interface ClientInput {
   is_deleted?: boolean;
 }
 
+// Client with the account owner name the list view displays
+export interface ClientListItem extends Client {
+  account_owner_name: string;
+  // Names of services_used, alphabetically
+  service_names: string[];
+}
+
+// A client with the contact details duplicate detection compares,
+// including those of all its contacts
+export interface ClientMatchCandidate {
+  id: number;
+  name: string;
+  industry: string;
+  status: ClientStatus;
+  account_owner_id: number;
+  contact_email: string;
+  contact_phone: string;
+  contact_emails: string[];
+  contact_phones: string[];
+}
+
+// Fields the client list can be sorted, filtered and searched by
+export const CLIENT_LIST_CONFIG: ListQueryConfig = {
+  sortable: {
+    id: 'c.id',
+    name: 'c.name',
+    industry: 'i.name',
+    account_owner_name: 'u.username',
+    services_used: 'COALESCE(array_length(c.services_used, 1), 0)',
+    status: 'c.status',
+    created_at: 'c.created_at'
+  },
+  filterable: {
+    status: { column: 'c.status' },
+    industry_id: { column: 'c.industry_id', type: 'number' },
+    account_owner_id: { column: 'c.account_owner_id', type: 'number' }
+  },
+  searchable: ['c.name', 'c.contact_name', 'c.contact_email', 'i.name'],
+  defaultSort: 'name'
+};
+
+// Clients with their industry name; callers append WHERE/ORDER BY clauses
+// against the c alias
+const CLIENT_SELECT = 'SELECT c.*, i.name AS industry FROM clients c LEFT JOIN industries i ON i.id = c.industry_id';
+
+// Returns the written row with its industry name, for INSERT/UPDATE queries
+const RETURNING_CLIENT = 'RETURNING *, (SELECT name FROM industries WHERE id = industry_id) AS industry';
+
+const NOT_DELETED = '(c.is_deleted = FALSE OR c.is_deleted IS NULL)';
+
 class ClientModel {
   private pool: Pool;
 
@@ -50,55 +106,22 @@ class ClientModel {
     this.pool = db;
   }
 
-  /**
-   * Create the clients table if it doesn't exist
-   */
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS clients (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        industry VARCHAR(50) NOT NULL,
-        contact_name VARCHAR(100) NOT NULL,
-        contact_email VARCHAR(100) NOT NULL,
-        contact_phone VARCHAR(20) NOT NULL,
-        address TEXT NOT NULL,
-        account_owner_id INTEGER NOT NULL,
-        services_used INTEGER[] NOT NULL,
-        crm_link TEXT,
-        notes TEXT,
-        status VARCHAR(20) NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (account_owner_id) REFERENCES users(id) ON DELETE RESTRICT
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Clients table created or already exists');
-    } catch (error) {
-      console.error('Error creating clients table:', error);
-      throw error;
-    }
-  }
-
   /**
    * Create a new client
    */
-  async create(clientData: ClientInput): Promise<Client> {
+  async create(clientData: ClientInput, client: Pool | PoolClient = this.pool): Promise<Client> {
     const query = `
       INSERT INTO clients (
-        name, industry, contact_name, contact_email, contact_phone, address,
+        name, industry_id, contact_name, contact_email, contact_phone, address,
         account_owner_id, services_used, crm_link, notes, status
       )
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-      RETURNING *
+      ${RETURNING_CLIENT}
     `;
 
     const values = [
       clientData.name,
-      clientData.industry,
+      clientData.industry_id,
       clientData.contact_name,
       clientData.contact_email,
       clientData.contact_phone,
@@ -111,7 +134,7 @@ class ClientModel {
     ];
 
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows[0];
     } catch (error) {
       console.error('Error creating client:', error);
@@ -122,11 +145,11 @@ class ClientModel {
   /**
    * Find a client by ID
    */
-  async findById(id: number): Promise<Client | null> {
-    const query = 'SELECT * FROM clients WHERE id = $1 AND (is_deleted = FALSE OR is_deleted IS NULL)';
+  async findById(id: number, client: Pool | PoolClient = this.pool): Promise<Client | null> {
+    const query = `${CLIENT_SELECT} WHERE c.id = $1 AND ${NOT_DELETED}`;
     
     try {
-      const result = await this.pool.query(query, [id]);
+      const result = await client.query(query, [id]);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error finding client by ID:', error);
@@ -134,11 +157,70 @@ class ClientModel {
     }
   }
 
+  /**
+   * Find a client by ID and lock it for the rest of the transaction
+   */
+  async findByIdForUpdate(id: number, client: PoolClient): Promise<Client | null> {
+    const query = `${CLIENT_SELECT} WHERE c.id = $1 AND ${NOT_DELETED} FOR UPDATE OF c`;
+
+    try {
+      const result = await client.query(query, [id]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error locking client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a client with the same name, ignoring case and surrounding spaces
+   */
+  async findByName(name: string, excludeId?: number): Promise<Client | null> {
+    const query = `
+      ${CLIENT_SELECT}
+      WHERE LOWER(TRIM(c.name)) = LOWER(TRIM($1)) AND c.id <> $2 AND ${NOT_DELETED}
+      LIMIT 1
+    `;
+
+    try {
+      const result = await this.pool.query(query, [name, excludeId || 0]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding client by name:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every client with the contact details duplicate detection compares
+   */
+  async findMatchCandidates(): Promise<ClientMatchCandidate[]> {
+    const query = `
+      SELECT c.id, c.name, i.name AS industry, c.status, c.account_owner_id, c.contact_email, c.contact_phone,
+        COALESCE(ARRAY_AGG(cc.email) FILTER (WHERE cc.email IS NOT NULL), '{}') AS contact_emails,
+        COALESCE(ARRAY_AGG(cc.phone) FILTER (WHERE cc.phone IS NOT NULL), '{}') AS contact_phones
+      FROM clients c
+      LEFT JOIN industries i ON i.id = c.industry_id
+      LEFT JOIN client_contacts cc ON cc.client_id = c.id
+      WHERE ${NOT_DELETED}
+      GROUP BY c.id, i.name
+      ORDER BY c.name
+    `;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding client match candidates:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find clients by account owner ID
    */
   async findByAccountOwner(accountOwnerId: number): Promise<Client[]> {
-    const query = 'SELECT * FROM clients WHERE account_owner_id = $1 AND (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+    const query = `${CLIENT_SELECT} WHERE c.account_owner_id = $1 AND ${NOT_DELETED} ORDER BY c.name`;
     
     try {
       const result = await this.pool.query(query, [accountOwnerId]);
@@ -152,11 +234,11 @@ class ClientModel {
   /**
    * Find clients by industry
    */
-  async findByIndustry(industry: string): Promise<Client[]> {
-    const query = 'SELECT * FROM clients WHERE industry = $1 AND (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+  async findByIndustry(industryId: number): Promise<Client[]> {
+    const query = `${CLIENT_SELECT} WHERE c.industry_id = $1 AND ${NOT_DELETED} ORDER BY c.name`;
     
     try {
-      const result = await this.pool.query(query, [industry]);
+      const result = await this.pool.query(query, [industryId]);
       return result.rows;
     } catch (error) {
       console.error('Error finding clients by industry:', error);
@@ -168,7 +250,7 @@ class ClientModel {
    * Find clients using a specific service
    */
   async findByService(serviceId: number): Promise<Client[]> {
-    const query = 'SELECT * FROM clients WHERE $1 = ANY(services_used) AND (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+    const query = `${CLIENT_SELECT} WHERE $1 = ANY(c.services_used) AND ${NOT_DELETED} ORDER BY c.name`;
     
     try {
       const result = await this.pool.query(query, [serviceId]);
@@ -183,7 +265,7 @@ class ClientModel {
    * Get all clients
    */
   async findAll(): Promise<Client[]> {
-    const query = 'SELECT * FROM clients WHERE is_deleted = FALSE OR is_deleted IS NULL ORDER BY name';
+    const query = `${CLIENT_SELECT} WHERE ${NOT_DELETED} ORDER BY c.name`;
     
     try {
       const result = await this.pool.query(query);
@@ -194,11 +276,33 @@ class ClientModel {
     }
   }
 
+  /**
+   * Get one page of clients with their account owner's and services' names
+   */
+  async findPage(listQuery: ListQuery): Promise<PaginatedResult<ClientListItem>> {
+    try {
+      return await runListQuery<ClientListItem>(
+        this.pool,
+        `SELECT c.*, i.name AS industry, u.username AS account_owner_name,
+                COALESCE((SELECT array_agg(s.name ORDER BY s.name) FROM services s WHERE s.id = ANY(c.services_used)), '{}') AS service_names`,
+        `FROM clients c
+         LEFT JOIN industries i ON i.id = c.industry_id
+         LEFT JOIN users u ON c.account_owner_id = u.id`,
+        listQuery,
+        CLIENT_LIST_CONFIG,
+        [NOT_DELETED]
+      );
+    } catch (error) {
+      console.error('Error finding client page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get active clients
    */
   async findActive(): Promise<Client[]> {
-    const query = 'SELECT * FROM clients WHERE status = $1 AND (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+    const query = `${CLIENT_SELECT} WHERE c.status = $1 AND ${NOT_DELETED} ORDER BY c.name`;
     
     try {
       const result = await this.pool.query(query, [ClientStatus.ACTIVE]);
@@ -212,7 +316,7 @@ class ClientModel {
   /**
    * Update a client
    */
-  async update(id: number, clientData: Partial<ClientInput>): Promise<Client | null> {
+  async update(id: number, clientData: Partial<ClientInput>, client: Pool | PoolClient = this.pool): Promise<Client | null> {
     // Build the dynamic query based on provided fields
     const setFields: string[] = [];
     const values: any[] = [];
@@ -242,11 +346,11 @@ class ClientModel {
       UPDATE clients
       SET ${setFields.join(', ')}
       WHERE id = $${paramIndex}
-      RETURNING *
+      ${RETURNING_CLIENT}
     `;
 
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error updating client:', error);
@@ -269,20 +373,57 @@ class ClientModel {
     }
   }
 
+  /**
+   * Fold a duplicate into the surviving client: the survivor gains the
+   * duplicate's services, and the duplicate is soft deleted and points at
+   * the survivor. Returns the services the survivor gained.
+   */
+  async mergeInto(survivorId: number, duplicateId: number, client: PoolClient): Promise<number[]> {
+    try {
+      const added = await client.query(
+        `SELECT ARRAY(
+           SELECT DISTINCT unnest(d.services_used) EXCEPT SELECT unnest(s.services_used)
+         ) AS service_ids
+         FROM clients s, clients d
+         WHERE s.id = $1 AND d.id = $2`,
+        [survivorId, duplicateId]
+      );
+      const addedServiceIds: number[] = added.rows[0]?.service_ids || [];
+
+      await client.query(
+        `UPDATE clients
+         SET services_used = services_used || $2::INTEGER[], updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [survivorId, addedServiceIds]
+      );
+      await client.query(
+        `UPDATE clients
+         SET is_deleted = TRUE, merged_into_id = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [survivorId, duplicateId]
+      );
+
+      return addedServiceIds;
+    } catch (error) {
+      console.error('Error merging clients:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add a service to a client
    */
-  async addService(clientId: number, serviceId: number): Promise<Client | null> {
+  async addService(clientId: number, serviceId: number, client: Pool | PoolClient = this.pool): Promise<Client | null> {
     const query = `
       UPDATE clients
       SET services_used = array_append(services_used, $1),
           updated_at = CURRENT_TIMESTAMP
       WHERE id = $2 AND NOT ($1 = ANY(services_used))
-      RETURNING *
+      ${RETURNING_CLIENT}
     `;
     
     try {
-      const result = await this.pool.query(query, [serviceId, clientId]);
+      const result = await client.query(query, [serviceId, clientId]);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error adding service to client:', error);
@@ -293,17 +434,17 @@ class ClientModel {
   /**
    * Remove a service from a client
    */
-  async removeService(clientId: number, serviceId: number): Promise<Client | null> {
+  async removeService(clientId: number, serviceId: number, client: Pool | PoolClient = this.pool): Promise<Client | null> {
     try {
     const query = `
       UPDATE clients
       SET services_used = array_remove(services_used, $1),
           updated_at = CURRENT_TIMESTAMP
       WHERE id = $2
-      RETURNING *
+      ${RETURNING_CLIENT}
     `;
       const values = [serviceId, clientId];
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       
       if (result.rows.length === 0) {
         return null;
@@ -332,9 +473,9 @@ class ClientModel {
       
       // Query to get all services with IDs in the services_used array
       const query = `
-        SELECT * FROM services 
-        WHERE id = ANY($1)
-        ORDER BY name
+        ${SERVICE_SELECT} ${SERVICE_FROM}
+        WHERE s.id = ANY($1)
+        ORDER BY s.name
       `;
       
       const result = await this.pool.query(query, [client.services_used]);
@@ -0,0 +1,217 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+// Client contact interface
+export interface ClientContact {
+  id: number;
+  client_id: number;
+  name: string;
+  job_title?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  is_primary: boolean;
+  notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Client contact input interface for creation/updates
+export interface ClientContactInput {
+  client_id: number;
+  name: string;
+  job_title?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  is_primary?: boolean;
+  notes?: string;
+}
+
+class ClientContactModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create a new contact. A new primary contact replaces the client's
+   * previous one.
+   */
+  async create(contactData: ClientContactInput, client: Pool | PoolClient = this.pool): Promise<ClientContact> {
+    const query = `
+      INSERT INTO client_contacts (client_id, name, job_title, role, email, phone, is_primary, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      contactData.client_id,
+      contactData.name,
+      contactData.job_title || null,
+      contactData.role || null,
+      contactData.email || null,
+      contactData.phone || null,
+      contactData.is_primary || false,
+      contactData.notes || null
+    ];
+
+    try {
+      if (contactData.is_primary) {
+        await this.clearPrimary(contactData.client_id, client);
+      }
+      const result = await client.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating client contact:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a contact by ID
+   */
+  async findById(id: number): Promise<ClientContact | null> {
+    const query = 'SELECT * FROM client_contacts WHERE id = $1';
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding client contact by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all contacts for a client, primary contact first
+   */
+  async findByClient(clientId: number): Promise<ClientContact[]> {
+    const query = 'SELECT * FROM client_contacts WHERE client_id = $1 ORDER BY is_primary DESC, name';
+
+    try {
+      const result = await this.pool.query(query, [clientId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding client contacts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the client contact best matching a role such as "CMO". An exact role
+   * match wins over a job title that mentions the role; ties go to the
+   * primary contact.
+   */
+  async findBestMatchForRole(clientId: number, role: string): Promise<ClientContact | null> {
+    const query = `
+      SELECT * FROM client_contacts
+      WHERE client_id = $1
+        AND (LOWER(role) = LOWER($2) OR job_title ILIKE '%' || $2 || '%')
+      ORDER BY (LOWER(role) = LOWER($2)) DESC NULLS LAST, is_primary DESC, name
+      LIMIT 1
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientId, role.trim()]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error matching client contact to role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a contact
+   */
+  async update(id: number, contactData: Partial<ClientContactInput>): Promise<ClientContact | null> {
+    const allowedFields = ['name', 'job_title', 'role', 'email', 'phone', 'is_primary', 'notes'];
+    const setFields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.keys(contactData).forEach(key => {
+      const value = contactData[key as keyof Partial<ClientContactInput>];
+      if (allowedFields.includes(key) && value !== undefined) {
+        setFields.push(`${key} = $${paramIndex}`);
+        values.push(value);
+        paramIndex++;
+      }
+    });
+
+    if (setFields.length === 0) {
+      return null;
+    }
+
+    setFields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const query = `
+      UPDATE client_contacts
+      SET ${setFields.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+
+    try {
+      if (contactData.is_primary) {
+        const existing = await this.findById(id);
+        if (existing) {
+          await this.clearPrimary(existing.client_id);
+        }
+      }
+      const result = await this.pool.query(query, values);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error updating client contact:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a contact
+   */
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM client_contacts WHERE id = $1 RETURNING id';
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting client contact:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move all of one client's contacts to another, as non-primary contacts.
+   * Returns the IDs of the moved contacts.
+   */
+  async moveToClient(fromClientId: number, toClientId: number, client: Pool | PoolClient = this.pool): Promise<number[]> {
+    const query = `
+      UPDATE client_contacts
+      SET client_id = $2, is_primary = FALSE, updated_at = CURRENT_TIMESTAMP
+      WHERE client_id = $1
+      RETURNING id
+    `;
+
+    try {
+      const result = await client.query(query, [fromClientId, toClientId]);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      console.error('Error moving client contacts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unset the primary flag on all of a client's contacts
+   */
+  private async clearPrimary(clientId: number, client: Pool | PoolClient = this.pool): Promise<void> {
+    const query = 'UPDATE client_contacts SET is_primary = FALSE WHERE client_id = $1 AND is_primary = TRUE';
+    await client.query(query, [clientId]);
+  }
+}
+
+export default new ClientContactModel();
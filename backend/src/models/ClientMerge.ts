@@ -0,0 +1,92 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+import { Client } from './Client';
+
+// Audit record of one client merged into another
+export interface ClientMerge {
+  id: number;
+  surviving_client_id: number;
+  merged_client_id: number;
+  merged_by: number | null;
+  // The merged client as it was just before the merge
+  merged_client: Client;
+  opportunity_ids: number[];
+  contact_ids: number[];
+  // Services the surviving client gained from the merged one
+  added_service_ids: number[];
+  created_at: Date;
+}
+
+export type ClientMergeInput = Omit<ClientMerge, 'id' | 'created_at'>;
+
+// Merge records with the name of the user who merged
+export interface ClientMergeListItem extends ClientMerge {
+  merged_by_name: string | null;
+}
+
+/**
+ * Client Merge Model Class
+ * Audit trail of duplicate clients merged into another client
+ */
+class ClientMergeModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Record a merge
+   */
+  async create(merge: ClientMergeInput, client: Pool | PoolClient = this.pool): Promise<ClientMerge> {
+    const query = `
+      INSERT INTO client_merges (
+        surviving_client_id, merged_client_id, merged_by, merged_client,
+        opportunity_ids, contact_ids, added_service_ids
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    const values = [
+      merge.surviving_client_id,
+      merge.merged_client_id,
+      merge.merged_by,
+      JSON.stringify(merge.merged_client),
+      merge.opportunity_ids,
+      merge.contact_ids,
+      merge.added_service_ids
+    ];
+
+    try {
+      const result = await client.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error recording client merge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the merges a client took part in, on either side, newest first
+   */
+  async findByClient(clientId: number): Promise<ClientMergeListItem[]> {
+    const query = `
+      SELECT m.*, u.username AS merged_by_name
+      FROM client_merges m
+      LEFT JOIN users u ON u.id = m.merged_by
+      WHERE m.surviving_client_id = $1 OR m.merged_client_id = $1
+      ORDER BY m.created_at DESC
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding client merges:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ClientMergeModel();
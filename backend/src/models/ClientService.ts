@@ -0,0 +1,451 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+// How often an engagement's contract value is billed
+export enum BillingFrequency {
+  ONE_OFF = 'one_off',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  ANNUAL = 'annual'
+}
+
+// Client service (engagement) interface
+export interface ClientService {
+  id: number;
+  client_id: number;
+  service_id: number;
+  opportunity_id: number | null;
+  // Amount billed each period; the whole amount for one-off work
+  contract_value: number;
+  billing_frequency: BillingFrequency;
+  start_date: string;
+  end_date: string | null;
+  renewal_date: string | null;
+  notes: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Engagement with its service and the revenue worked out from its terms
+export interface ClientServiceDetail extends ClientService {
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  opportunity_name: string | null;
+  status: 'upcoming' | 'active' | 'ended';
+  // The opportunity raised to renew this engagement, if any
+  renewal_opportunity_id: number | null;
+  renewal_opportunity_status: string | null;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+// Client service input interface for creation/updates
+export interface ClientServiceInput {
+  client_id: number;
+  service_id: number;
+  opportunity_id?: number | null;
+  contract_value: number;
+  billing_frequency?: BillingFrequency;
+  start_date: string;
+  end_date?: string | null;
+  renewal_date?: string | null;
+  notes?: string | null;
+  created_by?: number | null;
+}
+
+export interface BusinessUnitRevenue {
+  business_unit_id: number;
+  business_unit: string;
+  engagements: number;
+  active_engagements: number;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+export interface ClientRevenue {
+  business_units: BusinessUnitRevenue[];
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+export interface ServiceRevenue {
+  client_id: number;
+  service_id: number;
+  active_engagements: number;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+// Engagement columns, with dates as plain YYYY-MM-DD strings
+const CLIENT_SERVICE_COLUMNS = `
+  cs.id, cs.client_id, cs.service_id, cs.opportunity_id,
+  cs.contract_value::float8 AS contract_value, cs.billing_frequency,
+  TO_CHAR(cs.start_date, 'YYYY-MM-DD') AS start_date,
+  TO_CHAR(cs.end_date, 'YYYY-MM-DD') AS end_date,
+  TO_CHAR(cs.renewal_date, 'YYYY-MM-DD') AS renewal_date,
+  cs.notes, cs.created_by, cs.created_at, cs.updated_at
+`;
+
+// Months in one billing period of a recurring engagement
+const PERIOD_MONTHS = `CASE cs.billing_frequency WHEN 'monthly' THEN 1 WHEN 'quarterly' THEN 3 WHEN 'annual' THEN 12 END`;
+
+const IS_ACTIVE = 'cs.start_date <= CURRENT_DATE AND (cs.end_date IS NULL OR cs.end_date >= CURRENT_DATE)';
+
+const STATUS = `CASE
+  WHEN cs.start_date > CURRENT_DATE THEN 'upcoming'
+  WHEN cs.end_date < CURRENT_DATE THEN 'ended'
+  ELSE 'active'
+END`;
+
+// Whole months from the start date to today, or to the end date if earlier
+const MONTHS_BILLED = `(
+  EXTRACT(YEAR FROM AGE(LEAST(CURRENT_DATE, COALESCE(cs.end_date, CURRENT_DATE)), cs.start_date)) * 12
+  + EXTRACT(MONTH FROM AGE(LEAST(CURRENT_DATE, COALESCE(cs.end_date, CURRENT_DATE)), cs.start_date))
+)`;
+
+// Revenue billed so far: one-off work once it has started, recurring work
+// once per period started, billed at the start of each period
+const LIFETIME_REVENUE = `CASE
+  WHEN cs.start_date > CURRENT_DATE THEN 0
+  WHEN cs.billing_frequency = 'one_off' THEN cs.contract_value
+  ELSE cs.contract_value * (FLOOR(${MONTHS_BILLED} / ${PERIOD_MONTHS}) + 1)
+END`;
+
+// Yearly value of a recurring engagement that is running today
+const ANNUAL_RECURRING_REVENUE = `CASE
+  WHEN cs.billing_frequency <> 'one_off' AND ${IS_ACTIVE} THEN cs.contract_value * 12 / ${PERIOD_MONTHS}
+  ELSE 0
+END`;
+
+/**
+ * The date an engagement comes up for renewal: its renewal date, else its
+ * end date. Open-ended engagements without a renewal date never expire.
+ */
+export const getExpiryDate = (engagement: ClientService): string | null =>
+  engagement.renewal_date || engagement.end_date;
+
+class ClientServiceModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create a new engagement
+   */
+  async create(data: ClientServiceInput, client: Pool | PoolClient = this.pool): Promise<ClientService> {
+    const query = `
+      INSERT INTO client_services AS cs (
+        client_id, service_id, opportunity_id, contract_value, billing_frequency,
+        start_date, end_date, renewal_date, notes, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING ${CLIENT_SERVICE_COLUMNS}
+    `;
+
+    const values = [
+      data.client_id,
+      data.service_id,
+      data.opportunity_id || null,
+      data.contract_value,
+      data.billing_frequency || BillingFrequency.ONE_OFF,
+      data.start_date,
+      data.end_date || null,
+      data.renewal_date || null,
+      data.notes || null,
+      data.created_by || null
+    ];
+
+    try {
+      const result = await client.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating client service:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a won opportunity as an engagement at its final value (or its
+   * estimate). A new opportunity becomes a one-off engagement starting on the
+   * won date. A renewal carries on the engagement it renews: same billing,
+   * starting the day after it ends and running for the same term; an
+   * open-ended engagement is ended the day before its renewal starts. Does
+   * nothing if the opportunity already has an engagement, so re-processing a
+   * win is safe.
+   */
+  async createForWonOpportunity(opportunityId: number, client: Pool | PoolClient = this.pool): Promise<ClientService | null> {
+    const query = `
+      WITH won AS (
+        SELECT o.id, o.client_id, o.service_id,
+               COALESCE(o.final_value, o.estimated_value) AS contract_value,
+               COALESCE(o.won_date, CURRENT_TIMESTAMP)::date AS won_on,
+               prev.id AS prev_id, prev.billing_frequency,
+               prev.start_date AS prev_start, prev.end_date AS prev_end, prev.renewal_date AS prev_renewal
+        FROM opportunities o
+        LEFT JOIN client_services prev ON prev.id = o.renewal_of_id
+        WHERE o.id = $1
+          AND NOT EXISTS (SELECT 1 FROM client_services done WHERE done.opportunity_id = o.id)
+      ), ended AS (
+        UPDATE client_services prev
+        SET end_date = GREATEST(prev.start_date, won.won_on - 1), updated_at = CURRENT_TIMESTAMP
+        FROM won
+        WHERE prev.id = won.prev_id AND prev.end_date IS NULL
+      )
+      INSERT INTO client_services AS cs (
+        client_id, service_id, opportunity_id, contract_value, billing_frequency,
+        start_date, end_date, renewal_date
+      )
+      SELECT client_id, service_id, id, contract_value, COALESCE(billing_frequency, 'one_off'),
+             COALESCE(prev_end + 1, won_on),
+             prev_end + 1 + (prev_end - prev_start),
+             COALESCE(prev_renewal + (prev_end - prev_start + 1), (prev_renewal + INTERVAL '1 year')::date)
+      FROM won
+      ON CONFLICT (opportunity_id) DO NOTHING
+      RETURNING ${CLIENT_SERVICE_COLUMNS}
+    `;
+
+    try {
+      const result = await client.query(query, [opportunityId]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error creating client service for won opportunity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an engagement by ID
+   */
+  async findById(id: number): Promise<ClientService | null> {
+    const query = `SELECT ${CLIENT_SERVICE_COLUMNS} FROM client_services cs WHERE cs.id = $1`;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding client service by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all engagements for a client with their revenue, latest first
+   */
+  async findByClient(clientId: number): Promise<ClientServiceDetail[]> {
+    const query = `
+      SELECT ${CLIENT_SERVICE_COLUMNS},
+             s.name AS service_name, s.business_unit_id, bu.name AS business_unit,
+             o.name AS opportunity_name,
+             ${STATUS} AS status,
+             r.id AS renewal_opportunity_id, r.status AS renewal_opportunity_status,
+             (${LIFETIME_REVENUE})::float8 AS lifetime_revenue,
+             (${ANNUAL_RECURRING_REVENUE})::float8 AS annual_recurring_revenue
+      FROM client_services cs
+      JOIN services s ON s.id = cs.service_id
+      LEFT JOIN business_units bu ON bu.id = s.business_unit_id
+      LEFT JOIN opportunities o ON o.id = cs.opportunity_id
+      LEFT JOIN opportunities r ON r.renewal_of_id = cs.id AND (r.is_deleted = FALSE OR r.is_deleted IS NULL)
+      WHERE cs.client_id = $1
+      ORDER BY cs.start_date DESC, cs.id DESC
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding client services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lifetime and annual recurring revenue for a client, per business unit
+   * and in total
+   */
+  async getRevenueByBusinessUnit(clientId: number): Promise<ClientRevenue> {
+    const query = `
+      SELECT s.business_unit_id, bu.name AS business_unit,
+             COUNT(*)::int AS engagements,
+             COUNT(*) FILTER (WHERE ${IS_ACTIVE})::int AS active_engagements,
+             SUM(${LIFETIME_REVENUE})::float8 AS lifetime_revenue,
+             SUM(${ANNUAL_RECURRING_REVENUE})::float8 AS annual_recurring_revenue
+      FROM client_services cs
+      JOIN services s ON s.id = cs.service_id
+      LEFT JOIN business_units bu ON bu.id = s.business_unit_id
+      WHERE cs.client_id = $1
+      GROUP BY s.business_unit_id, bu.name
+      ORDER BY lifetime_revenue DESC, bu.name
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientId]);
+      const businessUnits: BusinessUnitRevenue[] = result.rows;
+
+      return {
+        business_units: businessUnits,
+        lifetime_revenue: businessUnits.reduce((sum, unit) => sum + unit.lifetime_revenue, 0),
+        annual_recurring_revenue: businessUnits.reduce((sum, unit) => sum + unit.annual_recurring_revenue, 0)
+      };
+    } catch (error) {
+      console.error('Error getting client revenue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revenue per client and service, for the pairs among the given clients
+   * and services that have engagements
+   */
+  async getRevenueByService(clientIds: number[], serviceIds: number[]): Promise<ServiceRevenue[]> {
+    const query = `
+      SELECT cs.client_id, cs.service_id,
+             COUNT(*) FILTER (WHERE ${IS_ACTIVE})::int AS active_engagements,
+             SUM(${LIFETIME_REVENUE})::float8 AS lifetime_revenue,
+             SUM(${ANNUAL_RECURRING_REVENUE})::float8 AS annual_recurring_revenue
+      FROM client_services cs
+      WHERE cs.client_id = ANY($1) AND cs.service_id = ANY($2)
+      GROUP BY cs.client_id, cs.service_id
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientIds, serviceIds]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting service revenue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Engagements that still come up for renewal and have no renewal
+   * opportunity yet. A deleted renewal opportunity still counts, so one that
+   * was thrown away isn't raised again.
+   */
+  async findRenewable(): Promise<ClientService[]> {
+    const query = `
+      SELECT ${CLIENT_SERVICE_COLUMNS}
+      FROM client_services cs
+      WHERE COALESCE(cs.renewal_date, cs.end_date) >= CURRENT_DATE
+        AND NOT EXISTS (SELECT 1 FROM opportunities r WHERE r.renewal_of_id = cs.id)
+    `;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding renewable client services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End a client's running engagements for a service on the given date.
+   * Returns the IDs of the ended engagements.
+   */
+  async endForService(
+    clientId: number,
+    serviceId: number,
+    endOn: string,
+    client: Pool | PoolClient = this.pool
+  ): Promise<number[]> {
+    const query = `
+      UPDATE client_services
+      SET end_date = $3::date, updated_at = CURRENT_TIMESTAMP
+      WHERE client_id = $1 AND service_id = $2
+        AND start_date <= $3::date
+        AND (end_date IS NULL OR end_date > $3::date)
+      RETURNING id
+    `;
+
+    try {
+      const result = await client.query(query, [clientId, serviceId, endOn]);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      console.error('Error ending client services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an engagement
+   */
+  async update(id: number, data: Partial<ClientServiceInput>): Promise<ClientService | null> {
+    const allowedFields = ['contract_value', 'billing_frequency', 'start_date', 'end_date', 'renewal_date', 'notes'];
+    const setFields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.keys(data).forEach(key => {
+      const value = data[key as keyof Partial<ClientServiceInput>];
+      if (allowedFields.includes(key) && value !== undefined) {
+        setFields.push(`${key} = $${paramIndex}`);
+        values.push(value === '' ? null : value);
+        paramIndex++;
+      }
+    });
+
+    if (setFields.length === 0) {
+      return null;
+    }
+
+    setFields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const query = `
+      UPDATE client_services cs
+      SET ${setFields.join(', ')}
+      WHERE cs.id = $${paramIndex}
+      RETURNING ${CLIENT_SERVICE_COLUMNS}
+    `;
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error updating client service:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an engagement
+   */
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM client_services WHERE id = $1 RETURNING id';
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting client service:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move all of one client's engagements to another. Returns the IDs of the
+   * moved engagements.
+   */
+  async moveToClient(fromClientId: number, toClientId: number, client: Pool | PoolClient = this.pool): Promise<number[]> {
+    const query = `
+      UPDATE client_services
+      SET client_id = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE client_id = $1
+      RETURNING id
+    `;
+
+    try {
+      const result = await client.query(query, [fromClientId, toClientId]);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      console.error('Error moving client services:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ClientServiceModel();
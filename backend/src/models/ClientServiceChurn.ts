@@ -0,0 +1,154 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+// Why a client stopped using a service
+export enum ChurnReason {
+  PRICE = 'price',
+  BUDGET_CUT = 'budget_cut',
+  SWITCHED_PROVIDER = 'switched_provider',
+  BROUGHT_IN_HOUSE = 'brought_in_house',
+  NO_LONGER_NEEDED = 'no_longer_needed',
+  DISSATISFIED = 'dissatisfied',
+  OTHER = 'other',
+  // Recorded when a service is dropped from the client's services without a reason
+  NOT_RECORDED = 'not_recorded'
+}
+
+// Client service churn interface
+export interface ClientServiceChurn {
+  id: number;
+  client_id: number;
+  service_id: number;
+  reason: ChurnReason;
+  notes: string | null;
+  churned_on: string;
+  recorded_by: number | null;
+  created_at: Date;
+}
+
+// Churn with the names the client's history displays
+export interface ClientServiceChurnDetail extends ClientServiceChurn {
+  service_name: string;
+  business_unit: string;
+  recorded_by_name: string | null;
+}
+
+// Client service churn input interface for creation
+export interface ClientServiceChurnInput {
+  client_id: number;
+  service_id: number;
+  reason: ChurnReason;
+  notes?: string | null;
+  churned_on?: string | null;
+  recorded_by?: number | null;
+}
+
+// The latest churn of a client and service
+export interface LatestChurn {
+  client_id: number;
+  service_id: number;
+  reason: ChurnReason;
+  churned_on: string;
+}
+
+// Churn columns, with the date as a plain YYYY-MM-DD string
+const CHURN_COLUMNS = `
+  ch.id, ch.client_id, ch.service_id, ch.reason, ch.notes,
+  TO_CHAR(ch.churned_on, 'YYYY-MM-DD') AS churned_on,
+  ch.recorded_by, ch.created_at
+`;
+
+class ClientServiceChurnModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Record that a client stopped using a service
+   */
+  async create(data: ClientServiceChurnInput, client: Pool | PoolClient = this.pool): Promise<ClientServiceChurn> {
+    const query = `
+      INSERT INTO client_service_churn AS ch (client_id, service_id, reason, notes, churned_on, recorded_by)
+      VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6)
+      RETURNING ${CHURN_COLUMNS}
+    `;
+
+    const values = [
+      data.client_id,
+      data.service_id,
+      data.reason,
+      data.notes || null,
+      data.churned_on || null,
+      data.recorded_by || null
+    ];
+
+    try {
+      const result = await client.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating client service churn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a client's churn history, latest first
+   */
+  async findByClient(clientId: number): Promise<ClientServiceChurnDetail[]> {
+    const query = `
+      SELECT ${CHURN_COLUMNS},
+             s.name AS service_name, bu.name AS business_unit, u.username AS recorded_by_name
+      FROM client_service_churn ch
+      JOIN services s ON s.id = ch.service_id
+      LEFT JOIN business_units bu ON bu.id = s.business_unit_id
+      LEFT JOIN users u ON u.id = ch.recorded_by
+      WHERE ch.client_id = $1
+      ORDER BY ch.churned_on DESC, ch.id DESC
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding client service churn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The latest churn for each pair among the given clients and services
+   */
+  async findLatestForPairs(clientIds: number[], serviceIds: number[]): Promise<LatestChurn[]> {
+    const query = `
+      SELECT DISTINCT ON (ch.client_id, ch.service_id)
+             ch.client_id, ch.service_id, ch.reason, TO_CHAR(ch.churned_on, 'YYYY-MM-DD') AS churned_on
+      FROM client_service_churn ch
+      WHERE ch.client_id = ANY($1) AND ch.service_id = ANY($2)
+      ORDER BY ch.client_id, ch.service_id, ch.churned_on DESC, ch.id DESC
+    `;
+
+    try {
+      const result = await this.pool.query(query, [clientIds, serviceIds]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding latest client service churn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move all of one client's churn history to another
+   */
+  async moveToClient(fromClientId: number, toClientId: number, client: Pool | PoolClient = this.pool): Promise<void> {
+    try {
+      await client.query('UPDATE client_service_churn SET client_id = $2 WHERE client_id = $1', [fromClientId, toClientId]);
+    } catch (error) {
+      console.error('Error moving client service churn:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ClientServiceChurnModel();
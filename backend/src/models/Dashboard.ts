@@ -0,0 +1,461 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+import { OpportunityStatus } from './Opportunity';
+import { TaskStatus } from './Task';
+
+// Open pipeline for one stage
+export interface StageTotal {
+  status: string;
+  count: number;
+  value: number;
+}
+
+export interface MyPipeline {
+  stages: StageTotal[];
+  count: number;
+  value: number;
+  // Estimated value weighted by stage win probability
+  weighted_value: number;
+  // The open opportunities due soonest
+  closing_soon: Array<{
+    id: number;
+    name: string;
+    client_name: string;
+    status: string;
+    estimated_value: number;
+    due_date: Date;
+  }>;
+}
+
+export interface DueTask {
+  id: number;
+  name: string;
+  status: string;
+  due_date: Date;
+  opportunity_id: number;
+  opportunity_name: string;
+  client_name: string;
+  overdue: boolean;
+}
+
+export interface TasksDue {
+  total: number;
+  overdue: number;
+  tasks: DueTask[];
+}
+
+export interface WhiteSpace {
+  // Empty client × service cells across the user's clients
+  total: number;
+  clients: number;
+  // Most widely used services first
+  suggestions: Array<{
+    client_id: number;
+    client_name: string;
+    service_id: number;
+    service_name: string;
+    business_unit: string;
+    clients_using: number;
+  }>;
+}
+
+export interface BusinessUnitPipeline {
+  business_unit_id: number;
+  business_unit: string;
+  count: number;
+  value: number;
+  weighted_value: number;
+  stages: StageTotal[];
+}
+
+export interface TopRep {
+  user_id: number;
+  username: string;
+  won_count: number;
+  won_value: number;
+  open_count: number;
+}
+
+export interface OverdueEscalations {
+  total: number;
+  // Overdue by ESCALATION_DAYS or more
+  escalated: number;
+  tasks: Array<DueTask & {
+    assigned_user_name: string;
+    business_unit: string;
+    days_overdue: number;
+  }>;
+}
+
+export interface OrgTotals {
+  clients: { total: number; active: number; new_this_month: number };
+  services: { total: number; active: number };
+  opportunities: { open: number; open_value: number; won_this_quarter: number; won_value_this_quarter: number };
+  tasks: { open: number; overdue: number };
+}
+
+// One month (YYYY-MM) of activity
+export interface TrendMonth {
+  month: string;
+  new_clients: number;
+  new_opportunities: number;
+  won_count: number;
+  won_value: number;
+}
+
+// Business units a card covers; null for all of them
+export type BusinessUnitScope = number[] | null;
+
+// Days overdue at which a task counts as escalated, and how far back top reps look
+export const ESCALATION_DAYS = 7;
+export const TOP_REP_DAYS = 90;
+
+// Rows listed per card; totals still count everything
+const LIST_LIMIT = 10;
+const TREND_MONTHS = 6;
+
+const CLOSED_STATUSES = [OpportunityStatus.WON, OpportunityStatus.LOST];
+const OPPORTUNITY_NOT_DELETED = '(o.is_deleted = FALSE OR o.is_deleted IS NULL)';
+const CLIENT_NOT_DELETED = '(c.is_deleted = FALSE OR c.is_deleted IS NULL)';
+const SERVICE_NOT_DELETED = '(s.is_deleted = FALSE OR s.is_deleted IS NULL)';
+
+/**
+ * Dashboard Model Class
+ * The figures behind the dashboard cards
+ */
+class DashboardModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Open opportunities assigned to a user, by stage, with those due soonest
+   */
+  async getMyPipeline(userId: number): Promise<MyPipeline> {
+    const stageQuery = `
+      SELECT o.status, COUNT(*)::int AS count, COALESCE(SUM(o.estimated_value), 0)::float8 AS value,
+             COALESCE(SUM(o.estimated_value * COALESCE(r.win_probability, 0) / 100.0), 0)::float8 AS weighted_value
+      FROM opportunities o
+      LEFT JOIN opportunity_stage_rules r ON r.status = o.status
+      WHERE o.assigned_user_id = $1 AND o.status <> ALL($2) AND ${OPPORTUNITY_NOT_DELETED}
+      GROUP BY o.status
+    `;
+    const closingQuery = `
+      SELECT o.id, o.name, c.name AS client_name, o.status, o.estimated_value::float8 AS estimated_value, o.due_date
+      FROM opportunities o
+      JOIN clients c ON c.id = o.client_id
+      WHERE o.assigned_user_id = $1 AND o.status <> ALL($2) AND ${OPPORTUNITY_NOT_DELETED}
+      ORDER BY o.due_date ASC
+      LIMIT ${LIST_LIMIT}
+    `;
+
+    try {
+      const params = [userId, CLOSED_STATUSES];
+      const [stages, closing] = await Promise.all([
+        this.pool.query(stageQuery, params),
+        this.pool.query(closingQuery, params)
+      ]);
+
+      return {
+        stages: stages.rows.map(({ status, count, value }) => ({ status, count, value })),
+        count: stages.rows.reduce((sum, row) => sum + row.count, 0),
+        value: stages.rows.reduce((sum, row) => sum + row.value, 0),
+        weighted_value: stages.rows.reduce((sum, row) => sum + row.weighted_value, 0),
+        closing_soon: closing.rows
+      };
+    } catch (error) {
+      console.error('Error getting pipeline for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's unfinished tasks due by the end of this week, overdue ones included
+   */
+  async getTasksDueThisWeek(userId: number): Promise<TasksDue> {
+    const where = `
+      WHERE t.assigned_user_id = $1 AND t.status <> $2
+        AND t.due_date < date_trunc('week', NOW()) + INTERVAL '7 days'
+    `;
+    const countQuery = `
+      SELECT COUNT(*)::int AS total, COUNT(*) FILTER (WHERE t.due_date < NOW())::int AS overdue
+      FROM tasks t
+      ${where}
+    `;
+    const listQuery = `
+      SELECT t.id, t.name, t.status, t.due_date, o.id AS opportunity_id, o.name AS opportunity_name,
+             c.name AS client_name, t.due_date < NOW() AS overdue
+      FROM tasks t
+      JOIN opportunities o ON o.id = t.opportunity_id
+      JOIN clients c ON c.id = o.client_id
+      ${where}
+      ORDER BY t.due_date ASC
+      LIMIT ${LIST_LIMIT}
+    `;
+
+    try {
+      const params = [userId, TaskStatus.COMPLETED];
+      const [counts, tasks] = await Promise.all([
+        this.pool.query(countQuery, params),
+        this.pool.query(listQuery, params)
+      ]);
+      return { ...counts.rows[0], tasks: tasks.rows };
+    } catch (error) {
+      console.error('Error getting tasks due for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Active services the clients a user manages neither use nor have an
+   * opportunity for, most widely used services first
+   */
+  async getWhiteSpace(userId: number): Promise<WhiteSpace> {
+    const query = `
+      WITH usage AS (
+        SELECT used.service_id, COUNT(*)::int AS clients_using
+        FROM clients c
+        CROSS JOIN LATERAL UNNEST(COALESCE(c.services_used, '{}')) AS used(service_id)
+        WHERE ${CLIENT_NOT_DELETED}
+        GROUP BY used.service_id
+      ),
+      cells AS (
+        SELECT c.id AS client_id, c.name AS client_name, s.id AS service_id, s.name AS service_name,
+               bu.name AS business_unit, COALESCE(usage.clients_using, 0) AS clients_using
+        FROM clients c
+        CROSS JOIN services s
+        JOIN business_units bu ON bu.id = s.business_unit_id
+        LEFT JOIN usage ON usage.service_id = s.id
+        WHERE c.account_owner_id = $1 AND ${CLIENT_NOT_DELETED}
+          AND s.status = 'active' AND ${SERVICE_NOT_DELETED}
+          AND NOT (s.id = ANY(COALESCE(c.services_used, '{}')))
+          AND NOT EXISTS (
+            SELECT 1 FROM opportunities o
+            WHERE o.client_id = c.id AND o.service_id = s.id AND ${OPPORTUNITY_NOT_DELETED}
+          )
+      )
+      SELECT (SELECT COUNT(*) FROM cells)::int AS total,
+             (SELECT COUNT(DISTINCT client_id) FROM cells)::int AS clients,
+             COALESCE((
+               SELECT json_agg(top ORDER BY top.clients_using DESC, top.client_name, top.service_name)
+               FROM (
+                 SELECT * FROM cells
+                 ORDER BY clients_using DESC, client_name, service_name
+                 LIMIT ${LIST_LIMIT}
+               ) top
+             ), '[]') AS suggestions
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error getting white space for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open pipeline per business unit and stage
+   */
+  async getBusinessUnitPipeline(businessUnitIds: BusinessUnitScope): Promise<BusinessUnitPipeline[]> {
+    const query = `
+      SELECT bu.id AS business_unit_id, bu.name AS business_unit, o.status,
+             COUNT(*)::int AS count, COALESCE(SUM(o.estimated_value), 0)::float8 AS value,
+             COALESCE(SUM(o.estimated_value * COALESCE(r.win_probability, 0) / 100.0), 0)::float8 AS weighted_value
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      JOIN business_units bu ON bu.id = s.business_unit_id
+      LEFT JOIN opportunity_stage_rules r ON r.status = o.status
+      WHERE o.status <> ALL($1) AND ${OPPORTUNITY_NOT_DELETED}
+        AND ($2::int[] IS NULL OR bu.id = ANY($2::int[]))
+      GROUP BY bu.id, bu.name, o.status
+      ORDER BY bu.name
+    `;
+
+    try {
+      const result = await this.pool.query(query, [CLOSED_STATUSES, businessUnitIds]);
+      const units = new Map<number, BusinessUnitPipeline>();
+
+      for (const row of result.rows) {
+        const unit: BusinessUnitPipeline = units.get(row.business_unit_id) || {
+          business_unit_id: row.business_unit_id,
+          business_unit: row.business_unit,
+          count: 0,
+          value: 0,
+          weighted_value: 0,
+          stages: []
+        };
+        unit.count += row.count;
+        unit.value += row.value;
+        unit.weighted_value += row.weighted_value;
+        unit.stages.push({ status: row.status, count: row.count, value: row.value });
+        units.set(row.business_unit_id, unit);
+      }
+
+      return Array.from(units.values());
+    } catch (error) {
+      console.error('Error getting business unit pipeline for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reps with the most won value over the last TOP_REP_DAYS days
+   */
+  async getTopReps(businessUnitIds: BusinessUnitScope): Promise<TopRep[]> {
+    const query = `
+      SELECT u.id AS user_id, u.username,
+             COUNT(*) FILTER (WHERE o.status = 'won' AND COALESCE(o.won_date, o.updated_at) >= NOW() - $2::int * INTERVAL '1 day')::int AS won_count,
+             COALESCE(SUM(COALESCE(o.final_value, o.estimated_value)) FILTER (
+               WHERE o.status = 'won' AND COALESCE(o.won_date, o.updated_at) >= NOW() - $2::int * INTERVAL '1 day'
+             ), 0)::float8 AS won_value,
+             COUNT(*) FILTER (WHERE o.status <> ALL($1))::int AS open_count
+      FROM opportunities o
+      JOIN services s ON s.id = o.service_id
+      JOIN users u ON u.id = o.assigned_user_id
+      WHERE ${OPPORTUNITY_NOT_DELETED}
+        AND ($3::int[] IS NULL OR s.business_unit_id = ANY($3::int[]))
+      GROUP BY u.id, u.username
+      HAVING COUNT(*) FILTER (WHERE o.status = 'won' AND COALESCE(o.won_date, o.updated_at) >= NOW() - $2::int * INTERVAL '1 day') > 0
+      ORDER BY won_value DESC, won_count DESC, u.username
+      LIMIT 5
+    `;
+
+    try {
+      const result = await this.pool.query(query, [CLOSED_STATUSES, TOP_REP_DAYS, businessUnitIds]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting top reps for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unfinished tasks past their due date, most overdue first
+   */
+  async getOverdueEscalations(businessUnitIds: BusinessUnitScope): Promise<OverdueEscalations> {
+    const from = `
+      FROM tasks t
+      JOIN opportunities o ON o.id = t.opportunity_id
+      JOIN clients c ON c.id = o.client_id
+      JOIN services s ON s.id = o.service_id
+      JOIN business_units bu ON bu.id = s.business_unit_id
+      JOIN users u ON u.id = t.assigned_user_id
+      WHERE t.status <> $1 AND t.due_date < NOW() AND ${OPPORTUNITY_NOT_DELETED}
+        AND ($2::int[] IS NULL OR s.business_unit_id = ANY($2::int[]))
+    `;
+    const countQuery = `
+      SELECT COUNT(*)::int AS total,
+             COUNT(*) FILTER (WHERE t.due_date < NOW() - $3::int * INTERVAL '1 day')::int AS escalated
+      ${from}
+    `;
+    const listQuery = `
+      SELECT t.id, t.name, t.status, t.due_date, o.id AS opportunity_id, o.name AS opportunity_name,
+             c.name AS client_name, TRUE AS overdue, u.username AS assigned_user_name, bu.name AS business_unit,
+             FLOOR(EXTRACT(EPOCH FROM (NOW() - t.due_date)) / 86400)::int AS days_overdue
+      ${from}
+      ORDER BY t.due_date ASC
+      LIMIT ${LIST_LIMIT}
+    `;
+
+    try {
+      const params = [TaskStatus.COMPLETED, businessUnitIds];
+      const [counts, tasks] = await Promise.all([
+        this.pool.query(countQuery, [...params, ESCALATION_DAYS]),
+        this.pool.query(listQuery, params)
+      ]);
+      return { ...counts.rows[0], tasks: tasks.rows };
+    } catch (error) {
+      console.error('Error getting overdue escalations for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Organisation-wide counts of clients, services, opportunities and tasks
+   */
+  async getOrgTotals(): Promise<OrgTotals> {
+    const query = `
+      SELECT
+        (SELECT json_build_object(
+           'total', COUNT(*),
+           'active', COUNT(*) FILTER (WHERE c.status = 'active'),
+           'new_this_month', COUNT(*) FILTER (WHERE c.created_at >= date_trunc('month', NOW()))
+         ) FROM clients c WHERE ${CLIENT_NOT_DELETED}) AS clients,
+        (SELECT json_build_object(
+           'total', COUNT(*),
+           'active', COUNT(*) FILTER (WHERE s.status = 'active')
+         ) FROM services s WHERE ${SERVICE_NOT_DELETED}) AS services,
+        (SELECT json_build_object(
+           'open', COUNT(*) FILTER (WHERE o.status <> ALL($1)),
+           'open_value', COALESCE(SUM(o.estimated_value) FILTER (WHERE o.status <> ALL($1)), 0)::float8,
+           'won_this_quarter', COUNT(*) FILTER (
+             WHERE o.status = 'won' AND COALESCE(o.won_date, o.updated_at) >= date_trunc('quarter', NOW())
+           ),
+           'won_value_this_quarter', COALESCE(SUM(COALESCE(o.final_value, o.estimated_value)) FILTER (
+             WHERE o.status = 'won' AND COALESCE(o.won_date, o.updated_at) >= date_trunc('quarter', NOW())
+           ), 0)::float8
+         ) FROM opportunities o WHERE ${OPPORTUNITY_NOT_DELETED}) AS opportunities,
+        (SELECT json_build_object(
+           'open', COUNT(*) FILTER (WHERE t.status <> $2),
+           'overdue', COUNT(*) FILTER (WHERE t.status <> $2 AND t.due_date < NOW())
+         ) FROM tasks t) AS tasks
+    `;
+
+    try {
+      const result = await this.pool.query(query, [CLOSED_STATUSES, TaskStatus.COMPLETED]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error getting organisation totals for dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * New clients, new opportunities and wins per month, this month and the
+   * TREND_MONTHS - 1 before it
+   */
+  async getTrends(): Promise<TrendMonth[]> {
+    const query = `
+      WITH months AS (
+        SELECT generate_series(
+          date_trunc('month', NOW()) - ($1::int - 1) * INTERVAL '1 month',
+          date_trunc('month', NOW()),
+          INTERVAL '1 month'
+        ) AS month
+      )
+      SELECT to_char(m.month, 'YYYY-MM') AS month,
+             (SELECT COUNT(*) FROM clients c
+              WHERE ${CLIENT_NOT_DELETED}
+                AND c.created_at >= m.month AND c.created_at < m.month + INTERVAL '1 month')::int AS new_clients,
+             (SELECT COUNT(*) FROM opportunities o
+              WHERE ${OPPORTUNITY_NOT_DELETED}
+                AND o.created_at >= m.month AND o.created_at < m.month + INTERVAL '1 month')::int AS new_opportunities,
+             won.won_count,
+             won.won_value
+      FROM months m
+      CROSS JOIN LATERAL (
+        SELECT COUNT(*)::int AS won_count,
+               COALESCE(SUM(COALESCE(o.final_value, o.estimated_value)), 0)::float8 AS won_value
+        FROM opportunities o
+        WHERE o.status = 'won' AND ${OPPORTUNITY_NOT_DELETED}
+          AND COALESCE(o.won_date, o.updated_at) >= m.month
+          AND COALESCE(o.won_date, o.updated_at) < m.month + INTERVAL '1 month'
+      ) won
+      ORDER BY m.month
+    `;
+
+    try {
+      const result = await this.pool.query(query, [TREND_MONTHS]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting trends for dashboard:', error);
+      throw error;
+    }
+  }
+}
+
+export default new DashboardModel();
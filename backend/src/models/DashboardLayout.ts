@@ -0,0 +1,75 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+// The dashboard cards a user chose to show, in order
+export interface DashboardLayout {
+  user_id: number;
+  cards: string[];
+  updated_at: Date;
+}
+
+/**
+ * Dashboard Layout Model Class
+ * Per-user choice and order of dashboard cards
+ */
+class DashboardLayoutModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Get a user's saved layout, or null if they use their role's default
+   */
+  async findByUser(userId: number): Promise<DashboardLayout | null> {
+    const query = 'SELECT * FROM dashboard_layouts WHERE user_id = $1';
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding dashboard layout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a user's layout, replacing any earlier one
+   */
+  async save(userId: number, cards: string[]): Promise<DashboardLayout> {
+    const query = `
+      INSERT INTO dashboard_layouts (user_id, cards)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE SET
+        cards = EXCLUDED.cards,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, cards]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error saving dashboard layout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Go back to the role's default layout
+   */
+  async delete(userId: number): Promise<boolean> {
+    const query = 'DELETE FROM dashboard_layouts WHERE user_id = $1';
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting dashboard layout:', error);
+      throw error;
+    }
+  }
+}
+
+export default new DashboardLayoutModel();
@@ -29,30 +29,6 @@ export class EmailLogModel {
     this.pool = db;
   }
 
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS email_logs (
-        id SERIAL PRIMARY KEY,
-        recipient_email VARCHAR(255) NOT NULL,
-        subject VARCHAR(255) NOT NULL,
-        template_name VARCHAR(100),
-        status VARCHAR(20) NOT NULL DEFAULT 'pending',
-        message_id VARCHAR(255),
-        error_message TEXT,
-        sent_at TIMESTAMP WITH TIME ZONE,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Email logs table created or already exists');
-    } catch (error) {
-      console.error('Error creating email logs table:', error);
-      throw error;
-    }
-  }
-
   async create(emailLogData: EmailLogInput): Promise<EmailLog> {
     const { recipient_email, subject, template_name, status, message_id, error_message } = emailLogData;
     
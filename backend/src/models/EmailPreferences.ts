@@ -37,35 +37,6 @@ export class EmailPreferencesModel {
     this.pool = db;
   }
 
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS email_preferences (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        task_assignments BOOLEAN DEFAULT TRUE,
-        task_overdue BOOLEAN DEFAULT TRUE,
-        task_escalations BOOLEAN DEFAULT TRUE,
-        opportunity_updates BOOLEAN DEFAULT TRUE,
-        opportunity_won BOOLEAN DEFAULT TRUE,
-        daily_digest BOOLEAN DEFAULT TRUE,
-        weekly_digest BOOLEAN DEFAULT FALSE,
-        email_frequency VARCHAR(20) DEFAULT 'immediate',
-        digest_time VARCHAR(5) DEFAULT '08:00',
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(user_id)
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Email preferences table created or already exists');
-    } catch (error) {
-      console.error('Error creating email preferences table:', error);
-      throw error;
-    }
-  }
-
   async create(preferencesData: EmailPreferencesInput): Promise<EmailPreferences> {
     const {
       user_id,
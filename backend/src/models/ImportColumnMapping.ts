@@ -0,0 +1,56 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+// File column header -> field it was mapped to
+export type ColumnMapping = Record<string, string>;
+
+/**
+ * Import Column Mapping Model Class
+ * The column mapping each user last used to import each entity
+ */
+class ImportColumnMappingModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Get a user's saved mapping for an entity, empty if they have none
+   */
+  async findForUser(userId: number, entity: string): Promise<ColumnMapping> {
+    const query = 'SELECT mapping FROM import_column_mappings WHERE user_id = $1 AND entity = $2';
+
+    try {
+      const result = await this.pool.query(query, [userId, entity]);
+      return result.rows.length ? result.rows[0].mapping : {};
+    } catch (error) {
+      console.error('Error finding import column mapping:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a user's mapping for an entity. Columns already remembered from
+   * other files are kept, so mappings build up across files.
+   */
+  async save(userId: number, entity: string, mapping: ColumnMapping): Promise<ColumnMapping> {
+    const query = `
+      INSERT INTO import_column_mappings (user_id, entity, mapping)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, entity)
+      DO UPDATE SET mapping = import_column_mappings.mapping || EXCLUDED.mapping, updated_at = CURRENT_TIMESTAMP
+      RETURNING mapping
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, entity, JSON.stringify(mapping)]);
+      return result.rows[0].mapping;
+    } catch (error) {
+      console.error('Error saving import column mapping:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ImportColumnMappingModel();
@@ -28,30 +28,6 @@ class IndustryModel {
     this.pool = db;
   }
 
-  /**
-   * Create the industries table if it doesn't exist
-   */
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS industries (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100) UNIQUE NOT NULL,
-        description TEXT,
-        status VARCHAR(20) NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Industries table created or already exists');
-    } catch (error) {
-      console.error('Error creating industries table:', error);
-      throw error;
-    }
-  }
-
   /**
    * Create a new industry
    */
@@ -109,6 +85,43 @@ class IndustryModel {
     }
   }
 
+  /**
+   * Find the industries with the given IDs
+   */
+  async findByIds(ids: number[]): Promise<Industry[]> {
+    const query = 'SELECT * FROM industries WHERE id = ANY($1::int[]) ORDER BY name';
+
+    try {
+      const result = await this.pool.query(query, [ids]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding industries by IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the clients and services that refer to an industry
+   */
+  async countUsage(id: number): Promise<{ clients: number; services: number }> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM clients WHERE industry_id = $1) AS clients,
+        (SELECT COUNT(*) FROM service_industries WHERE industry_id = $1) AS services
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return {
+        clients: parseInt(result.rows[0].clients),
+        services: parseInt(result.rows[0].services)
+      };
+    } catch (error) {
+      console.error(`Error counting usage of industry with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get all industries
    */
@@ -184,6 +197,39 @@ class IndustryModel {
     }
   }
 
+  /**
+   * Move an industry's clients and services to another industry, then delete
+   * it, all in one transaction. Services already tagged with the target keep a
+   * single tag.
+   */
+  async deleteAndReassign(id: number, targetId: number): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'UPDATE clients SET industry_id = $2, updated_at = CURRENT_TIMESTAMP WHERE industry_id = $1',
+        [id, targetId]
+      );
+      await client.query(
+        `INSERT INTO service_industries (service_id, industry_id)
+         SELECT service_id, $2 FROM service_industries WHERE industry_id = $1
+         ON CONFLICT DO NOTHING`,
+        [id, targetId]
+      );
+      await client.query('DELETE FROM service_industries WHERE industry_id = $1', [id]);
+      const result = await client.query('DELETE FROM industries WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      return result.rowCount ? result.rowCount > 0 : false;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error reassigning and deleting industry with ID ${id}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete an industry
    */
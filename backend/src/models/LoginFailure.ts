@@ -0,0 +1,66 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+/**
+ * Login Failure Model Class
+ * A log of failed logins, used to throttle guessing from one IP address
+ * across many accounts
+ */
+class LoginFailureModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Record a failed login
+   */
+  async record(email: string | null, ipAddress: string | null): Promise<void> {
+    const query = 'INSERT INTO login_failures (email, ip_address) VALUES ($1, $2)';
+
+    try {
+      await this.pool.query(query, [email, ipAddress]);
+    } catch (error) {
+      console.error('Error recording login failure:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count failures from an IP address in the last windowMinutes
+   */
+  async countRecentByIp(ipAddress: string, windowMinutes: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) AS count FROM login_failures
+      WHERE ip_address = $1 AND attempted_at > CURRENT_TIMESTAMP - make_interval(mins => $2)
+    `;
+
+    try {
+      const result = await this.pool.query(query, [ipAddress, windowMinutes]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting login failures:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete failures older than olderThanMinutes; they no longer count
+   * towards any limit
+   */
+  async purge(olderThanMinutes: number): Promise<number> {
+    const query = 'DELETE FROM login_failures WHERE attempted_at < CURRENT_TIMESTAMP - make_interval(mins => $1)';
+
+    try {
+      const result = await this.pool.query(query, [olderThanMinutes]);
+      return result.rowCount || 0;
+    } catch (error) {
+      console.error('Error purging login failures:', error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new LoginFailureModel();
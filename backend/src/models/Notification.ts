@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
 import { UserRole } from './User';
 
@@ -9,7 +9,9 @@ export enum NotificationType {
   TASK_OVERDUE = 'task_overdue',
   TASK_OVERDUE_ESCALATION = 'task_overdue_escalation',
   NEW_CLIENT = 'new_client',
-  OPPORTUNITY_WON = 'opportunity_won'
+  OPPORTUNITY_WON = 'opportunity_won',
+  RENEWAL_DUE = 'renewal_due',
+  WORKFLOW_RULE = 'workflow_rule'
 }
 
 export interface Notification {
@@ -40,31 +42,7 @@ export class NotificationModel {
     this.pool = db;
   }
 
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS notifications (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        type VARCHAR(50) NOT NULL,
-        title VARCHAR(100) NOT NULL,
-        message TEXT NOT NULL,
-        related_to VARCHAR(20) NOT NULL,
-        related_id INTEGER NOT NULL,
-        is_read BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Notifications table created or already exists');
-    } catch (error) {
-      console.error('Error creating notifications table:', error);
-      throw error;
-    }
-  }
-
-  async create(notificationData: NotificationInput): Promise<Notification> {
+  async create(notificationData: NotificationInput, client: Pool | PoolClient = this.pool): Promise<Notification> {
     const { user_id, type, title, message, related_to, related_id } = notificationData;
     
     const query = `
@@ -75,7 +53,7 @@ export class NotificationModel {
     
     try {
       const values = [user_id, type, title, message, related_to, related_id];
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows[0];
     } catch (error) {
       console.error('Error creating notification:', error);
@@ -83,7 +61,7 @@ export class NotificationModel {
     }
   }
 
-  async createMultiple(notifications: NotificationInput[]): Promise<number> {
+  async createMultiple(notifications: NotificationInput[], client: Pool | PoolClient = this.pool): Promise<number> {
     if (notifications.length === 0) {
       return 0;
     }
@@ -106,7 +84,7 @@ export class NotificationModel {
     `;
     
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rowCount || 0;
     } catch (error) {
       console.error('Error creating multiple notifications:', error);
@@ -265,16 +243,14 @@ export class NotificationModel {
   }
 
   // Helper method to find BU Head for a specific business unit
-  async findBUHeadByBusinessUnit(businessUnit: string): Promise<number | null> {
+  async findBUHeadByBusinessUnit(businessUnitId: number): Promise<number | null> {
     try {
-      // Find the business unit by name
       const buQuery = `
         SELECT owner_id FROM business_units 
-        WHERE name = $1 AND status = 'active'
-        LIMIT 1
+        WHERE id = $1 AND status = 'active'
       `;
       
-      const buResult = await this.pool.query(buQuery, [businessUnit]);
+      const buResult = await this.pool.query(buQuery, [businessUnitId]);
       
       // If business unit found and has an owner_id
       if (buResult.rows.length > 0 && buResult.rows[0]?.owner_id) {
@@ -1,5 +1,8 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
+import { ListQuery, ListQueryConfig, ListQueryError, PaginatedResult, runListQuery } from '../utils/listQuery';
+import ClientServiceModel from './ClientService';
+import ClientServiceChurnModel from './ClientServiceChurn';
 
 // Opportunity status options
 export enum OpportunityStatus {
@@ -33,6 +36,11 @@ export interface Opportunity {
   estimated_value: number;
   due_date: Date;
   notes?: string;
+  loss_reason?: string;
+  won_date?: Date;
+  final_value?: number;
+  // The client service engagement this opportunity renews
+  renewal_of_id?: number | null;
   created_at: Date;
   updated_at: Date;
   is_deleted?: boolean;
@@ -49,9 +57,222 @@ export interface OpportunityInput {
   estimated_value: number;
   due_date: Date;
   notes?: string;
+  loss_reason?: string;
+  won_date?: Date;
+  final_value?: number;
+  // Set only by the renewal workflow
+  renewal_of_id?: number | null;
   is_deleted?: boolean;
 }
 
+// Opportunity with the names the list views display
+export interface OpportunityListItem extends Opportunity {
+  client_name: string;
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  assigned_user_name: string;
+}
+
+// Fields the opportunity list can be sorted, filtered and searched by
+export const OPPORTUNITY_LIST_CONFIG: ListQueryConfig = {
+  sortable: {
+    id: 'o.id',
+    name: 'o.name',
+    client_name: 'c.name',
+    service_name: 's.name',
+    business_unit: 'bu.name',
+    assigned_user_name: 'u.username',
+    status: 'o.status',
+    priority: `CASE o.priority WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 WHEN 'critical' THEN 4 END`,
+    estimated_value: 'o.estimated_value',
+    due_date: 'o.due_date',
+    created_at: 'o.created_at',
+    updated_at: 'o.updated_at'
+  },
+  filterable: {
+    status: { column: 'o.status' },
+    priority: { column: 'o.priority' },
+    client_id: { column: 'o.client_id', type: 'number' },
+    service_id: { column: 'o.service_id', type: 'number' },
+    assigned_user_id: { column: 'o.assigned_user_id', type: 'number' },
+    business_unit_id: { column: 's.business_unit_id', type: 'number' },
+    due_from: { column: 'o.due_date', operator: '>=', type: 'date' },
+    due_to: { column: 'o.due_date', operator: '<=', type: 'date' },
+    min_value: { column: 'o.estimated_value', operator: '>=', type: 'number' },
+    max_value: { column: 'o.estimated_value', operator: '<=', type: 'number' }
+  },
+  searchable: ['o.name', 'c.name', 's.name', 'o.notes'],
+  defaultSort: 'due_date'
+};
+
+// Largest matrix window the API serves
+export const MAX_MATRIX_ROWS = 500;
+export const MAX_MATRIX_COLUMNS = 200;
+
+// Filters for the cross-sell matrix; client filters pick rows, service
+// filters pick columns, opportunity filters pick rows and columns with a
+// matching opportunity
+export interface MatrixFilters {
+  businessUnitIds?: number[];
+  industryIds?: number[];
+  statuses?: string[];
+  assignedUserId?: number;
+  accountOwnerId?: number;
+  clientSearch?: string;
+  serviceSearch?: string;
+  // existing: rows/columns with an opportunity; potential: with an empty
+  // cell; churned: with a service the client stopped using
+  cellType?: 'existing' | 'potential' | 'churned';
+}
+
+/**
+ * Read matrix filters from query params:
+ * ?businessUnitId=&industryId=&status=&assignedUserId=&accountOwnerId=&clientSearch=&serviceSearch=&cellType=
+ * ID and status params take comma-separated lists. Throws ListQueryError
+ * for invalid values.
+ */
+export const parseMatrixFilters = (query: Record<string, unknown>): MatrixFilters => {
+  const toList = (value: unknown) => value ? String(value).split(',').map(v => v.trim()).filter(Boolean) : undefined;
+  const toIdList = (value: unknown) => toList(value)?.map(v => parseInt(v));
+  const toId = (value: unknown) => value !== undefined && value !== '' ? parseInt(value as string) : 0;
+  const toText = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+  const assignedUserId = toId(query.assignedUserId);
+  const accountOwnerId = toId(query.accountOwnerId);
+  const businessUnitIds = toIdList(query.businessUnitId);
+  const industryIds = toIdList(query.industryId);
+  const cellType = query.cellType;
+
+  if (isNaN(assignedUserId) || isNaN(accountOwnerId)) {
+    throw new ListQueryError('Invalid assigned user ID or account owner ID');
+  }
+  if ([...(businessUnitIds || []), ...(industryIds || [])].some(isNaN)) {
+    throw new ListQueryError('businessUnitId and industryId must be comma-separated IDs');
+  }
+  if (cellType !== undefined && cellType !== 'existing' && cellType !== 'potential' && cellType !== 'churned') {
+    throw new ListQueryError('cellType must be existing, potential or churned');
+  }
+
+  return {
+    businessUnitIds,
+    industryIds,
+    statuses: toList(query.status),
+    assignedUserId: assignedUserId || undefined,
+    accountOwnerId: accountOwnerId || undefined,
+    clientSearch: toText(query.clientSearch),
+    serviceSearch: toText(query.serviceSearch),
+    cellType
+  };
+};
+
+export interface MatrixWindowRange {
+  rowOffset: number;
+  rowLimit: number;
+  columnOffset: number;
+  columnLimit: number;
+}
+
+// Open stages from least to most advanced
+export const OPEN_STAGE_ORDER: string[] = [
+  OpportunityStatus.ON_HOLD,
+  OpportunityStatus.NEW,
+  OpportunityStatus.IN_PROGRESS,
+  OpportunityStatus.QUALIFIED,
+  OpportunityStatus.PROPOSAL,
+  OpportunityStatus.NEGOTIATION
+];
+
+export interface MatrixCellOpportunity {
+  id: number;
+  name: string;
+  status: string;
+  estimated_value: number;
+  due_date: Date;
+  assigned_user_id: number;
+  assigned_user_name: string | null;
+  updated_at: Date;
+}
+
+export interface MatrixCellRevenue {
+  active_engagements: number;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+export interface MatrixCellChurn {
+  reason: string;
+  churned_on: string;
+}
+
+export interface MatrixCell {
+  // Summary state: the most advanced open stage, else 'active' when the
+  // client has the service, else 'churned' when it stopped using it, else 'lost'
+  status: string;
+  // The client uses the service, has won it or has an engagement for it
+  active_service: boolean;
+  open_stage: string | null;
+  won_count: number;
+  lost_count: number;
+  // The opportunity the cell leads with: the most advanced open one, else the latest
+  opportunity_id: number | null;
+  opportunity_name: string | null;
+  // Every opportunity for the pair, latest first
+  opportunities: MatrixCellOpportunity[];
+  // Revenue from the client's engagements for the service, if it has any
+  revenue: MatrixCellRevenue | null;
+  // The latest time the client stopped using the service, if it has
+  churn: MatrixCellChurn | null;
+}
+
+export interface MatrixWindow {
+  clients: { id: number; name: string; industry_id: number; industry: string }[];
+  services: { id: number; name: string; business_unit_id: number; business_unit: string }[];
+  // client id -> service id -> cell; empty cells are left out
+  matrix: Record<number, Record<number, MatrixCell>>;
+  total_clients: number;
+  total_services: number;
+  row_offset: number;
+  column_offset: number;
+}
+
+/**
+ * Work out a matrix cell's summary state from all of its opportunities
+ */
+const summarizeMatrixCell = (
+  opportunities: MatrixCellOpportunity[],
+  usesService: boolean,
+  revenue: MatrixCellRevenue | null,
+  churn: MatrixCellChurn | null
+): MatrixCell => {
+  const open = opportunities
+    .filter(o => OPEN_STAGE_ORDER.includes(o.status))
+    .sort((a, b) => OPEN_STAGE_ORDER.indexOf(b.status) - OPEN_STAGE_ORDER.indexOf(a.status));
+  const wonCount = opportunities.filter(o => o.status === OpportunityStatus.WON).length;
+  const lostCount = opportunities.filter(o => o.status === OpportunityStatus.LOST).length;
+  // Churn outweighs past wins until the service is added back
+  const churned = churn !== null && !usesService;
+  const activeService = usesService || (!churned && (wonCount > 0 || revenue !== null));
+  const openStage = open.length > 0 ? open[0].status : null;
+  const lead = open[0] || opportunities[0];
+
+  return {
+    status: openStage || (activeService ? 'active' : churned ? 'churned' : OpportunityStatus.LOST),
+    active_service: activeService,
+    open_stage: openStage,
+    won_count: wonCount,
+    lost_count: lostCount,
+    opportunity_id: lead ? lead.id : null,
+    opportunity_name: lead ? lead.name : null,
+    opportunities,
+    revenue,
+    churn
+  };
+};
+
+// ILIKE pattern matching the term anywhere, with wildcards escaped
+const toSearchPattern = (term: string): string => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
 class OpportunityModel {
   private pool: Pool;
 
@@ -59,50 +280,17 @@ class OpportunityModel {
     this.pool = db;
   }
 
-  /**
-   * Create the opportunities table if it doesn't exist
-   */
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS opportunities (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(200) NOT NULL,
-        client_id INTEGER NOT NULL,
-        service_id INTEGER NOT NULL,
-        assigned_user_id INTEGER NOT NULL,
-        status VARCHAR(20) NOT NULL,
-        priority VARCHAR(20) NOT NULL,
-        estimated_value NUMERIC(12, 2) NOT NULL,
-        due_date TIMESTAMP WITH TIME ZONE NOT NULL,
-        notes TEXT,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        is_deleted BOOLEAN DEFAULT FALSE,
-        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE RESTRICT,
-        FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE RESTRICT,
-        FOREIGN KEY (assigned_user_id) REFERENCES users(id) ON DELETE RESTRICT
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Opportunities table created or already exists');
-    } catch (error) {
-      console.error('Error creating opportunities table:', error);
-      throw error;
-    }
-  }
-
   /**
    * Create a new opportunity
    */
-  async create(opportunityData: OpportunityInput): Promise<Opportunity> {
+  async create(opportunityData: OpportunityInput, client: Pool | PoolClient = this.pool): Promise<Opportunity> {
     const query = `
       INSERT INTO opportunities (
         name, client_id, service_id, assigned_user_id, status,
-        priority, estimated_value, due_date, notes
+        priority, estimated_value, due_date, notes,
+        loss_reason, won_date, final_value, renewal_of_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *
     `;
 
@@ -115,11 +303,15 @@ class OpportunityModel {
       opportunityData.priority,
       opportunityData.estimated_value,
       opportunityData.due_date,
-      opportunityData.notes || null
+      opportunityData.notes || null,
+      opportunityData.loss_reason || null,
+      opportunityData.won_date || null,
+      opportunityData.final_value ?? null,
+      opportunityData.renewal_of_id || null
     ];
 
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows[0];
     } catch (error) {
       console.error('Error creating opportunity:', error);
@@ -142,6 +334,22 @@ class OpportunityModel {
     }
   }
 
+  /**
+   * Find the opportunity raised to renew a client service engagement,
+   * including a deleted one
+   */
+  async findRenewalOf(clientServiceId: number): Promise<Opportunity | null> {
+    const query = 'SELECT * FROM opportunities WHERE renewal_of_id = $1';
+
+    try {
+      const result = await this.pool.query(query, [clientServiceId]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding renewal opportunity:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find opportunities by client
    */
@@ -247,6 +455,30 @@ class OpportunityModel {
     }
   }
 
+  /**
+   * Get one page of opportunities with client, service and user names
+   */
+  async findPage(listQuery: ListQuery): Promise<PaginatedResult<OpportunityListItem>> {
+    try {
+      return await runListQuery<OpportunityListItem>(
+        this.pool,
+        `SELECT o.*, c.name AS client_name, s.name AS service_name, s.business_unit_id,
+                bu.name AS business_unit, u.username AS assigned_user_name`,
+        `FROM opportunities o
+         LEFT JOIN clients c ON o.client_id = c.id
+         LEFT JOIN services s ON o.service_id = s.id
+         LEFT JOIN business_units bu ON s.business_unit_id = bu.id
+         LEFT JOIN users u ON o.assigned_user_id = u.id`,
+        listQuery,
+        OPPORTUNITY_LIST_CONFIG,
+        ['(o.is_deleted = FALSE OR o.is_deleted IS NULL)']
+      );
+    } catch (error) {
+      console.error('Error finding opportunity page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get active opportunities (not won, lost, or on hold)
    */
@@ -274,7 +506,7 @@ class OpportunityModel {
   /**
    * Update an opportunity
    */
-  async update(id: number, opportunityData: Partial<OpportunityInput>): Promise<Opportunity | null> {
+  async update(id: number, opportunityData: Partial<OpportunityInput>, client: Pool | PoolClient = this.pool): Promise<Opportunity | null> {
     // Build the dynamic query based on provided fields
     const setFields: string[] = [];
     const values: any[] = [];
@@ -308,7 +540,7 @@ class OpportunityModel {
     `;
 
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error updating opportunity:', error);
@@ -357,81 +589,209 @@ class OpportunityModel {
   }
 
   /**
-   * Get cross-sell matrix data (clients vs services)
-   * Returns data structured for the matrix view
+   * Move every opportunity of one client, deleted ones included, to another
+   * client. Returns the IDs of the moved opportunities.
    */
-  async getMatrixData(): Promise<any> {
+  async reassignClient(fromClientId: number, toClientId: number, client: Pool | PoolClient = this.pool): Promise<number[]> {
     const query = `
-      SELECT 
-        c.id AS client_id, 
-        c.name AS client_name,
-        s.id AS service_id,
-        s.name AS service_name,
-        s.business_unit,
-        CASE
-          WHEN o.id IS NOT NULL THEN o.status
-          WHEN s.id = ANY(c.services_used) THEN 'active'
-          ELSE NULL
-        END AS status,
-        o.id AS opportunity_id
-      FROM 
-        clients c
-      CROSS JOIN 
-        services s
-      LEFT JOIN 
-        opportunities o ON c.id = o.client_id AND s.id = o.service_id
-      WHERE 
-        s.status = 'active'
-      ORDER BY 
-        c.name, s.business_unit, s.name
+      UPDATE opportunities
+      SET client_id = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE client_id = $1
+      RETURNING id
     `;
-    
+
     try {
-      const result = await this.pool.query(query);
-      
-      // Transform the data for matrix view
-      const clients: { [key: string]: any } = {};
-      const services: { [key: string]: any } = {};
-      const matrix: { [key: string]: { [key: string]: any } } = {};
-      
-      // First pass: collect unique clients and services
-      result.rows.forEach(row => {
-        if (!clients[row.client_id]) {
-          clients[row.client_id] = { id: row.client_id, name: row.client_name };
-        }
-        
-        if (!services[row.service_id]) {
-          services[row.service_id] = { 
-            id: row.service_id, 
-            name: row.service_name,
-            business_unit: row.business_unit
-          };
-        }
-      });
-      
-      // Initialize matrix with null values
-      Object.keys(clients).forEach(clientId => {
-        matrix[clientId] = {};
-        Object.keys(services).forEach(serviceId => {
-          matrix[clientId][serviceId] = null;
+      const result = await client.query(query, [fromClientId, toClientId]);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      console.error('Error reassigning opportunities to client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one window of the cross-sell matrix (clients × active services).
+   * Rows and columns are filtered and counted in SQL; cells are only loaded
+   * for the clients and services inside the window, and only non-empty
+   * cells are returned.
+   */
+  async getMatrixWindow(filters: MatrixFilters, window: MatrixWindowRange): Promise<MatrixWindow> {
+    // Parameter numbers differ per query, so conditions are built per query
+    const conditionsFor = (params: any[]) => {
+      const add = (value: any) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+
+      const client = (): string[] => {
+        const conditions = ['(c.is_deleted = FALSE OR c.is_deleted IS NULL)'];
+        if (filters.industryIds?.length) conditions.push(`c.industry_id = ANY(${add(filters.industryIds)}::int[])`);
+        if (filters.accountOwnerId) conditions.push(`c.account_owner_id = ${add(filters.accountOwnerId)}`);
+        if (filters.clientSearch) conditions.push(`c.name ILIKE ${add(toSearchPattern(filters.clientSearch))}`);
+        return conditions;
+      };
+
+      const service = (): string[] => {
+        const conditions = [`s.status = 'active'`, '(s.is_deleted = FALSE OR s.is_deleted IS NULL)'];
+        if (filters.businessUnitIds?.length) conditions.push(`s.business_unit_id = ANY(${add(filters.businessUnitIds)}::int[])`);
+        if (filters.serviceSearch) conditions.push(`s.name ILIKE ${add(toSearchPattern(filters.serviceSearch))}`);
+        return conditions;
+      };
+
+      const opportunity = (): string[] => {
+        const conditions = ['(o.is_deleted = FALSE OR o.is_deleted IS NULL)'];
+        if (filters.statuses?.length) conditions.push(`o.status = ANY(${add(filters.statuses)})`);
+        if (filters.assignedUserId) conditions.push(`o.assigned_user_id = ${add(filters.assignedUserId)}`);
+        return conditions;
+      };
+
+      return { client, service, opportunity };
+    };
+
+    // Opportunity filters and the "existing" cell type keep only rows and
+    // columns with a matching opportunity; "potential" keeps only those with
+    // an empty cell; "churned" only those with a service the client dropped
+    const needsOpportunity = !!(filters.statuses?.length || filters.assignedUserId || filters.cellType === 'existing');
+    const emptyCell = `NOT (s.id = ANY(COALESCE(c.services_used, '{}')))
+      AND NOT EXISTS (
+        SELECT 1 FROM opportunities eo
+        WHERE eo.client_id = c.id AND eo.service_id = s.id
+        AND (eo.is_deleted = FALSE OR eo.is_deleted IS NULL)
+      )
+      AND NOT EXISTS (SELECT 1 FROM client_service_churn ec WHERE ec.client_id = c.id AND ec.service_id = s.id)`;
+    const churnedCell = `NOT (s.id = ANY(COALESCE(c.services_used, '{}')))
+      AND EXISTS (SELECT 1 FROM client_service_churn ch WHERE ch.client_id = c.id AND ch.service_id = s.id)`;
+
+    const clientWhere = (params: any[]): string => {
+      const { client, service, opportunity } = conditionsFor(params);
+      const conditions = client();
+      if (needsOpportunity) {
+        conditions.push(`EXISTS (
+          SELECT 1 FROM opportunities o JOIN services s ON s.id = o.service_id
+          WHERE o.client_id = c.id AND ${[...opportunity(), ...service()].join(' AND ')}
+        )`);
+      }
+      if (filters.cellType === 'potential') {
+        conditions.push(`EXISTS (SELECT 1 FROM services s WHERE ${service().join(' AND ')} AND ${emptyCell})`);
+      }
+      if (filters.cellType === 'churned') {
+        conditions.push(`EXISTS (SELECT 1 FROM services s WHERE ${service().join(' AND ')} AND ${churnedCell})`);
+      }
+      return conditions.join(' AND ');
+    };
+
+    const serviceWhere = (params: any[]): string => {
+      const { client, service, opportunity } = conditionsFor(params);
+      const conditions = service();
+      if (needsOpportunity) {
+        conditions.push(`EXISTS (
+          SELECT 1 FROM opportunities o JOIN clients c ON c.id = o.client_id
+          WHERE o.service_id = s.id AND ${[...opportunity(), ...client()].join(' AND ')}
+        )`);
+      }
+      if (filters.cellType === 'potential') {
+        conditions.push(`EXISTS (SELECT 1 FROM clients c WHERE ${client().join(' AND ')} AND ${emptyCell})`);
+      }
+      if (filters.cellType === 'churned') {
+        conditions.push(`EXISTS (SELECT 1 FROM clients c WHERE ${client().join(' AND ')} AND ${churnedCell})`);
+      }
+      return conditions.join(' AND ');
+    };
+
+    try {
+      const clientParams: any[] = [];
+      const clientCondition = clientWhere(clientParams);
+      const clientCountParams: any[] = [];
+      const clientCountCondition = clientWhere(clientCountParams);
+      const serviceParams: any[] = [];
+      const serviceCondition = serviceWhere(serviceParams);
+      const serviceCountParams: any[] = [];
+      const serviceCountCondition = serviceWhere(serviceCountParams);
+
+      const [clientRows, clientCount, serviceRows, serviceCount] = await Promise.all([
+        this.pool.query(
+          `SELECT c.id, c.name, c.industry_id, i.name AS industry, c.services_used FROM clients c
+           LEFT JOIN industries i ON i.id = c.industry_id
+           WHERE ${clientCondition}
+           ORDER BY c.name, c.id
+           LIMIT $${clientParams.length + 1} OFFSET $${clientParams.length + 2}`,
+          [...clientParams, window.rowLimit, window.rowOffset]
+        ),
+        this.pool.query(`SELECT COUNT(*) AS total FROM clients c WHERE ${clientCountCondition}`, clientCountParams),
+        this.pool.query(
+          `SELECT s.id, s.name, s.business_unit_id, bu.name AS business_unit FROM services s
+           LEFT JOIN business_units bu ON bu.id = s.business_unit_id
+           WHERE ${serviceCondition}
+           ORDER BY bu.name, s.name, s.id
+           LIMIT $${serviceParams.length + 1} OFFSET $${serviceParams.length + 2}`,
+          [...serviceParams, window.columnLimit, window.columnOffset]
+        ),
+        this.pool.query(`SELECT COUNT(*) AS total FROM services s WHERE ${serviceCountCondition}`, serviceCountParams)
+      ]);
+
+      const clientIds = clientRows.rows.map(row => row.id);
+      const serviceIds = serviceRows.rows.map(row => row.id);
+      const matrix: MatrixWindow['matrix'] = {};
+
+      if (clientIds.length > 0 && serviceIds.length > 0) {
+        const [cells, revenueRows, churnRows] = await Promise.all([
+          this.pool.query(
+            `SELECT o.id, o.client_id, o.service_id, o.name, o.status, o.estimated_value, o.due_date,
+                    o.assigned_user_id, u.username AS assigned_user_name, o.updated_at
+             FROM opportunities o
+             LEFT JOIN users u ON o.assigned_user_id = u.id
+             WHERE o.client_id = ANY($1) AND o.service_id = ANY($2)
+             AND (o.is_deleted = FALSE OR o.is_deleted IS NULL)
+             ORDER BY o.updated_at DESC, o.id DESC`,
+            [clientIds, serviceIds]
+          ),
+          ClientServiceModel.getRevenueByService(clientIds, serviceIds),
+          ClientServiceChurnModel.findLatestForPairs(clientIds, serviceIds)
+        ]);
+
+        const grouped = new Map<string, MatrixCellOpportunity[]>();
+        cells.rows.forEach(({ client_id, service_id, ...opportunity }) => {
+          const key = `${client_id}:${service_id}`;
+          grouped.set(key, [...(grouped.get(key) || []), opportunity]);
+        });
+
+        const revenueByPair = new Map<string, MatrixCellRevenue>();
+        revenueRows.forEach(({ client_id, service_id, ...revenue }) => {
+          revenueByPair.set(`${client_id}:${service_id}`, revenue);
+        });
+
+        const churnByPair = new Map<string, MatrixCellChurn>();
+        churnRows.forEach(({ client_id, service_id, ...churn }) => {
+          churnByPair.set(`${client_id}:${service_id}`, churn);
         });
-      });
-      
-      // Fill in the matrix with actual data
-      result.rows.forEach(row => {
-        matrix[row.client_id][row.service_id] = {
-          status: row.status,
-          opportunity_id: row.opportunity_id
-        };
-      });
-      
+
+        const windowServices = new Set(serviceIds);
+        clientRows.rows.forEach(row => {
+          const usedServices = new Set<number>((row.services_used || []).filter((id: number) => windowServices.has(id)));
+
+          serviceIds.forEach(serviceId => {
+            const opportunities = grouped.get(`${row.id}:${serviceId}`) || [];
+            const revenue = revenueByPair.get(`${row.id}:${serviceId}`) || null;
+            const churn = churnByPair.get(`${row.id}:${serviceId}`) || null;
+            if (opportunities.length === 0 && !usedServices.has(serviceId) && !revenue && !churn) return;
+
+            matrix[row.id] = matrix[row.id] || {};
+            matrix[row.id][serviceId] = summarizeMatrixCell(opportunities, usedServices.has(serviceId), revenue, churn);
+          });
+        });
+      }
+
       return {
-        clients: Object.values(clients),
-        services: Object.values(services),
-        matrix
+        clients: clientRows.rows.map(({ id, name, industry_id, industry }) => ({ id, name, industry_id, industry })),
+        services: serviceRows.rows,
+        matrix,
+        total_clients: parseInt(clientCount.rows[0].total),
+        total_services: parseInt(serviceCount.rows[0].total),
+        row_offset: window.rowOffset,
+        column_offset: window.columnOffset
       };
     } catch (error) {
-      console.error('Error getting matrix data:', error);
+      console.error('Error getting matrix window:', error);
       throw error;
     }
   }
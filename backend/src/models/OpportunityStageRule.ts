@@ -0,0 +1,99 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+// Opportunity fields a stage can require before an opportunity may enter it
+export const STAGE_REQUIRABLE_FIELDS = ['estimated_value', 'loss_reason', 'won_date', 'final_value'];
+
+// Opportunity stage rule interface
+export interface OpportunityStageRule {
+  status: string;
+  allowed_transitions: string[];
+  required_fields: string[];
+  // Chance (0-100%) that an opportunity in this stage is won, for the forecast
+  win_probability: number | null;
+  updated_by: number | null;
+  updated_at: Date;
+}
+
+// Opportunity stage rule input interface for creation/updates
+export interface OpportunityStageRuleInput {
+  status: string;
+  allowed_transitions: string[];
+  required_fields: string[];
+  // Left unchanged when not given
+  win_probability?: number | null;
+  updated_by?: number | null;
+}
+
+class OpportunityStageRuleModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Get the rule for a single status
+   */
+  async findByStatus(status: string): Promise<OpportunityStageRule | null> {
+    const query = `SELECT * FROM opportunity_stage_rules WHERE status = $1`;
+
+    try {
+      const result = await this.pool.query(query, [status]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding opportunity stage rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all stage rules
+   */
+  async findAll(): Promise<OpportunityStageRule[]> {
+    const query = `SELECT * FROM opportunity_stage_rules ORDER BY status`;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding opportunity stage rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the rule for a status
+   */
+  async upsert(ruleData: OpportunityStageRuleInput): Promise<OpportunityStageRule> {
+    const query = `
+      INSERT INTO opportunity_stage_rules (status, allowed_transitions, required_fields, win_probability, updated_by)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (status) DO UPDATE SET
+        allowed_transitions = EXCLUDED.allowed_transitions,
+        required_fields = EXCLUDED.required_fields,
+        win_probability = COALESCE(EXCLUDED.win_probability, opportunity_stage_rules.win_probability),
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const values = [
+      ruleData.status,
+      ruleData.allowed_transitions,
+      ruleData.required_fields,
+      ruleData.win_probability ?? null,
+      ruleData.updated_by || null
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error saving opportunity stage rule:', error);
+      throw error;
+    }
+  }
+}
+
+export default new OpportunityStageRuleModel();
@@ -0,0 +1,97 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+// Opportunity status history interface
+export interface OpportunityStatusHistory {
+  id: number;
+  opportunity_id: number;
+  old_status: string | null;
+  new_status: string;
+  changed_by: number | null;
+  reason?: string;
+  changed_at: Date;
+}
+
+// Opportunity status history entry as returned for the timeline view
+export interface OpportunityStatusHistoryEntry extends OpportunityStatusHistory {
+  changed_by_name: string | null;
+  left_at: Date | null;
+  duration_seconds: number;
+}
+
+// Opportunity status history input interface for creation
+export interface OpportunityStatusHistoryInput {
+  opportunity_id: number;
+  old_status: string | null;
+  new_status: string;
+  changed_by: number | null;
+  reason?: string;
+}
+
+class OpportunityStatusHistoryModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Record a status transition
+   */
+  async create(historyData: OpportunityStatusHistoryInput, client: Pool | PoolClient = this.pool): Promise<OpportunityStatusHistory> {
+    const query = `
+      INSERT INTO opportunity_status_history (
+        opportunity_id, old_status, new_status, changed_by, reason
+      )
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [
+      historyData.opportunity_id,
+      historyData.old_status,
+      historyData.new_status,
+      historyData.changed_by,
+      historyData.reason || null
+    ];
+
+    try {
+      const result = await client.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating opportunity status history entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status timeline for an opportunity, oldest first.
+   * Each entry carries the time the opportunity left that stage (null for the
+   * current stage) and how long it sat there, measured up to now if it has not left.
+   */
+  async findByOpportunity(opportunityId: number): Promise<OpportunityStatusHistoryEntry[]> {
+    const query = `
+      SELECT
+        h.*,
+        u.username AS changed_by_name,
+        LEAD(h.changed_at) OVER (ORDER BY h.changed_at, h.id) AS left_at,
+        EXTRACT(EPOCH FROM (
+          COALESCE(LEAD(h.changed_at) OVER (ORDER BY h.changed_at, h.id), NOW()) - h.changed_at
+        ))::INTEGER AS duration_seconds
+      FROM opportunity_status_history h
+      LEFT JOIN users u ON h.changed_by = u.id
+      WHERE h.opportunity_id = $1
+      ORDER BY h.changed_at, h.id
+    `;
+
+    try {
+      const result = await this.pool.query(query, [opportunityId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding opportunity status history:', error);
+      throw error;
+    }
+  }
+}
+
+export default new OpportunityStatusHistoryModel();
@@ -0,0 +1,93 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+/**
+ * Password Reset Token Interface
+ * Only the SHA-256 hash of the token is stored
+ */
+export interface PasswordResetToken {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Password Reset Token Model Class
+ */
+class PasswordResetTokenModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create a reset token, invalidating any earlier unused ones for the user
+   * so only the latest emailed link works
+   */
+  async create(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND used_at IS NULL',
+        [userId]
+      );
+      const result = await client.query(
+        `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [userId, tokenHash, expiresAt]
+      );
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error creating password reset token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Find an unused, unexpired token by hash and lock it for the rest of the
+   * client's transaction
+   */
+  async findUsableForUpdate(tokenHash: string, client: PoolClient): Promise<PasswordResetToken | null> {
+    const query = `
+      SELECT * FROM password_reset_tokens
+      WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      FOR UPDATE
+    `;
+
+    try {
+      const result = await client.query(query, [tokenHash]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding password reset token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a token as used
+   */
+  async markUsed(id: number, client: Pool | PoolClient = this.pool): Promise<void> {
+    const query = 'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = $1';
+
+    try {
+      await client.query(query, [id]);
+    } catch (error) {
+      console.error(`Error marking password reset token with ID ${id} as used:`, error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new PasswordResetTokenModel();
@@ -0,0 +1,87 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+/**
+ * Recovery Code Model Class
+ * Single-use codes that stand in for an authenticator code when the device
+ * is lost. Only the SHA-256 hash of each code is stored.
+ */
+class RecoveryCodeModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Replace all of a user's recovery codes
+   */
+  async replaceForUser(userId: number, codeHashes: string[], client: Pool | PoolClient = this.pool): Promise<void> {
+    try {
+      await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query(
+        `INSERT INTO user_recovery_codes (user_id, code_hash)
+         SELECT $1, unnest($2::char(64)[])`,
+        [userId, codeHashes]
+      );
+    } catch (error) {
+      console.error('Error replacing recovery codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Use up a recovery code. Returns false if the user has no unused code
+   * with this hash.
+   */
+  async consume(userId: number, codeHash: string): Promise<boolean> {
+    const query = `
+      UPDATE user_recovery_codes
+      SET used_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM user_recovery_codes
+        WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+        LIMIT 1
+      )
+      AND used_at IS NULL
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, codeHash]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error consuming recovery code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a user's unused recovery codes
+   */
+  async countRemaining(userId: number): Promise<number> {
+    const query = 'SELECT COUNT(*) AS count FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL';
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting recovery codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a user's recovery codes
+   */
+  async deleteForUser(userId: number, client: Pool | PoolClient = this.pool): Promise<void> {
+    try {
+      await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+    } catch (error) {
+      console.error('Error deleting recovery codes:', error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new RecoveryCodeModel();
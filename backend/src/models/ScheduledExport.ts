@@ -0,0 +1,211 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+// A saved export emailed to its owner once a week
+export interface ScheduledExport {
+  id: number;
+  user_id: number;
+  name: string;
+  entity: string;
+  format: string;
+  // Filter params, as sent to GET /api/export/:entity
+  query: Record<string, string>;
+  // 0 (Sunday) to 6 (Saturday) and hour of day, in server time
+  day_of_week: number;
+  hour: number;
+  is_active: boolean;
+  next_run_at: Date;
+  last_sent_at: Date | null;
+  // Why the last run failed, cleared by the next successful one
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ScheduledExportInput = Pick<
+  ScheduledExport,
+  'user_id' | 'name' | 'entity' | 'format' | 'query' | 'day_of_week' | 'hour' | 'next_run_at'
+>;
+
+export type ScheduledExportUpdate = Partial<Pick<
+  ScheduledExport,
+  'name' | 'format' | 'query' | 'day_of_week' | 'hour' | 'is_active' | 'next_run_at'
+>>;
+
+/**
+ * Scheduled Export Model Class
+ * Saved exports users have emailed to themselves every week
+ */
+class ScheduledExportModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Save a new scheduled export
+   */
+  async create(data: ScheduledExportInput): Promise<ScheduledExport> {
+    const query = `
+      INSERT INTO scheduled_exports (user_id, name, entity, format, query, day_of_week, hour, next_run_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      data.user_id,
+      data.name,
+      data.entity,
+      data.format,
+      JSON.stringify(data.query),
+      data.day_of_week,
+      data.hour,
+      data.next_run_at
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating scheduled export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's scheduled exports, oldest first
+   */
+  async findByUser(userId: number): Promise<ScheduledExport[]> {
+    const query = 'SELECT * FROM scheduled_exports WHERE user_id = $1 ORDER BY created_at, id';
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding scheduled exports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one of a user's scheduled exports
+   */
+  async findForUser(id: number, userId: number): Promise<ScheduledExport | null> {
+    const query = 'SELECT * FROM scheduled_exports WHERE id = $1 AND user_id = $2';
+
+    try {
+      const result = await this.pool.query(query, [id, userId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error finding scheduled export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Active scheduled exports whose run is due, oldest due first
+   */
+  async findDue(limit: number): Promise<ScheduledExport[]> {
+    const query = `
+      SELECT * FROM scheduled_exports
+      WHERE is_active = TRUE AND next_run_at <= CURRENT_TIMESTAMP
+      ORDER BY next_run_at, id
+      LIMIT $1
+    `;
+
+    try {
+      const result = await this.pool.query(query, [limit]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding due scheduled exports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update one of a user's scheduled exports
+   */
+  async update(id: number, userId: number, data: ScheduledExportUpdate): Promise<ScheduledExport | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(data).forEach(([field, value]) => {
+      if (value === undefined) return;
+      values.push(field === 'query' ? JSON.stringify(value) : value);
+      fields.push(`${field} = $${values.length}`);
+    });
+
+    if (fields.length === 0) {
+      return this.findForUser(id, userId);
+    }
+
+    values.push(id, userId);
+    const query = `
+      UPDATE scheduled_exports
+      SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $${values.length - 1} AND user_id = $${values.length}
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error updating scheduled export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a due export on to its next run. Only one caller wins the claim, so
+   * an export is never sent twice when several servers poll at once.
+   */
+  async claim(id: number, dueAt: Date, nextRunAt: Date): Promise<boolean> {
+    const query = `
+      UPDATE scheduled_exports SET next_run_at = $3
+      WHERE id = $1 AND next_run_at = $2 AND is_active = TRUE
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id, dueAt, nextRunAt]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error claiming scheduled export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record how a run went: the send time on success, the reason on failure
+   */
+  async recordRun(id: number, error: string | null): Promise<void> {
+    const query = error
+      ? 'UPDATE scheduled_exports SET last_error = $2 WHERE id = $1'
+      : 'UPDATE scheduled_exports SET last_sent_at = CURRENT_TIMESTAMP, last_error = NULL WHERE id = $1';
+
+    try {
+      await this.pool.query(query, error ? [id, error] : [id]);
+    } catch (err) {
+      console.error('Error recording scheduled export run:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Delete one of a user's scheduled exports
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const query = 'DELETE FROM scheduled_exports WHERE id = $1 AND user_id = $2';
+
+    try {
+      const result = await this.pool.query(query, [id, userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting scheduled export:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ScheduledExportModel();
@@ -1,5 +1,6 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
+import { ListQuery, ListQueryConfig, PaginatedResult, runListQuery } from '../utils/listQuery';
 
 // Service status options
 export enum ServiceStatus {
@@ -15,6 +16,9 @@ export interface Service {
   description: string;
   pricing_model: string;
   pricing_details?: string;
+  business_unit_id: number;
+  applicable_industry_ids: number[];
+  // Names of the referenced business unit and industries, joined in on read
   business_unit: string;
   applicable_industries: string[];
   client_role: string;
@@ -30,13 +34,51 @@ export interface ServiceInput {
   description: string;
   pricing_model: string;
   pricing_details?: string;
-  business_unit: string;
-  applicable_industries: string[];
+  business_unit_id: number;
+  applicable_industry_ids: number[];
   client_role: string;
   status: ServiceStatus;
   is_deleted?: boolean;
 }
 
+// Fields the service list can be sorted, filtered and searched by
+export const SERVICE_LIST_CONFIG: ListQueryConfig = {
+  sortable: {
+    id: 's.id',
+    name: 's.name',
+    business_unit: 'bu.name',
+    pricing_model: 's.pricing_model',
+    client_role: 's.client_role',
+    status: 's.status',
+    created_at: 's.created_at'
+  },
+  filterable: {
+    status: { column: 's.status' },
+    business_unit_id: { column: 's.business_unit_id', type: 'number' },
+    pricing_model: { column: 's.pricing_model' }
+  },
+  searchable: ['s.name', 's.description', 'bu.name', 's.client_role'],
+  defaultSort: 'name'
+};
+
+// Services with their business unit and industry names; callers append
+// WHERE/ORDER BY clauses against the s alias
+export const SERVICE_SELECT = `
+  SELECT s.*, bu.name AS business_unit,
+    COALESCE(si.industry_ids, '{}') AS applicable_industry_ids,
+    COALESCE(si.industry_names, '{}') AS applicable_industries`;
+
+export const SERVICE_FROM = `
+  FROM services s
+  LEFT JOIN business_units bu ON bu.id = s.business_unit_id
+  LEFT JOIN LATERAL (
+    SELECT array_agg(i.id ORDER BY i.name) AS industry_ids, array_agg(i.name ORDER BY i.name) AS industry_names
+    FROM service_industries sind JOIN industries i ON i.id = sind.industry_id
+    WHERE sind.service_id = s.id
+  ) si ON TRUE`;
+
+const NOT_DELETED = '(s.is_deleted = FALSE OR s.is_deleted IS NULL)';
+
 class ServiceModel {
   private pool: Pool;
 
@@ -45,45 +87,17 @@ class ServiceModel {
   }
 
   /**
-   * Create the services table if it doesn't exist
-   */
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS services (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        description TEXT NOT NULL,
-        pricing_model VARCHAR(50) NOT NULL,
-        pricing_details TEXT,
-        business_unit VARCHAR(50) NOT NULL,
-        applicable_industries TEXT[] NOT NULL,
-        client_role VARCHAR(100) NOT NULL,
-        status VARCHAR(20) NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Services table created or already exists');
-    } catch (error) {
-      console.error('Error creating services table:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Create a new service
+   * Create a new service. Runs inside the caller's transaction when given
+   * a client, otherwise in its own.
    */
-  async create(serviceData: ServiceInput): Promise<Service> {
+  async create(serviceData: ServiceInput, transaction?: PoolClient): Promise<Service> {
     const query = `
       INSERT INTO services (
-        name, description, pricing_model, pricing_details, business_unit, 
-        applicable_industries, client_role, status
+        name, description, pricing_model, pricing_details, business_unit_id,
+        client_role, status
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING *
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
     `;
 
     const values = [
@@ -91,29 +105,35 @@ class ServiceModel {
       serviceData.description,
       serviceData.pricing_model,
       serviceData.pricing_details || null,
-      serviceData.business_unit,
-      serviceData.applicable_industries,
+      serviceData.business_unit_id,
       serviceData.client_role,
       serviceData.status
     ];
 
+    const client = transaction || await this.pool.connect();
     try {
-      const result = await this.pool.query(query, values);
-      return result.rows[0];
+      if (!transaction) await client.query('BEGIN');
+      const result = await client.query(query, values);
+      await this.setIndustries(client, result.rows[0].id, serviceData.applicable_industry_ids || []);
+      if (!transaction) await client.query('COMMIT');
+      return (await this.findById(result.rows[0].id, client)) as Service;
     } catch (error) {
+      if (!transaction) await client.query('ROLLBACK');
       console.error('Error creating service:', error);
       throw error;
+    } finally {
+      if (!transaction) client.release();
     }
   }
 
   /**
    * Find a service by ID
    */
-  async findById(id: number): Promise<Service | null> {
-    const query = 'SELECT * FROM services WHERE id = $1 AND (is_deleted = FALSE OR is_deleted IS NULL)';
+  async findById(id: number, client: Pool | PoolClient = this.pool): Promise<Service | null> {
+    const query = `${SERVICE_SELECT} ${SERVICE_FROM} WHERE s.id = $1 AND ${NOT_DELETED}`;
     
     try {
-      const result = await this.pool.query(query, [id]);
+      const result = await client.query(query, [id]);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error finding service by ID:', error);
@@ -124,11 +144,11 @@ class ServiceModel {
   /**
    * Find services by business unit
    */
-  async findByBusinessUnit(businessUnit: string): Promise<Service[]> {
-    const query = 'SELECT * FROM services WHERE business_unit = $1 AND (is_deleted = FALSE OR is_deleted IS NULL)';
+  async findByBusinessUnit(businessUnitId: number): Promise<Service[]> {
+    const query = `${SERVICE_SELECT} ${SERVICE_FROM} WHERE s.business_unit_id = $1 AND ${NOT_DELETED} ORDER BY s.name`;
     
     try {
-      const result = await this.pool.query(query, [businessUnit]);
+      const result = await this.pool.query(query, [businessUnitId]);
       return result.rows;
     } catch (error) {
       console.error('Error finding services by business unit:', error);
@@ -139,11 +159,15 @@ class ServiceModel {
   /**
    * Find services by applicable industry
    */
-  async findByIndustry(industry: string): Promise<Service[]> {
-    const query = 'SELECT * FROM services WHERE $1 = ANY(applicable_industries) AND (is_deleted = FALSE OR is_deleted IS NULL)';
+  async findByIndustry(industryId: number): Promise<Service[]> {
+    const query = `
+      ${SERVICE_SELECT} ${SERVICE_FROM}
+      WHERE $1 = ANY(si.industry_ids) AND ${NOT_DELETED}
+      ORDER BY s.name
+    `;
     
     try {
-      const result = await this.pool.query(query, [industry]);
+      const result = await this.pool.query(query, [industryId]);
       return result.rows;
     } catch (error) {
       console.error('Error finding services by industry:', error);
@@ -155,7 +179,7 @@ class ServiceModel {
    * Get all services
    */
   async findAll(): Promise<Service[]> {
-    const query = 'SELECT * FROM services WHERE (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+    const query = `${SERVICE_SELECT} ${SERVICE_FROM} WHERE ${NOT_DELETED} ORDER BY s.name`;
     
     try {
       const result = await this.pool.query(query);
@@ -166,11 +190,30 @@ class ServiceModel {
     }
   }
 
+  /**
+   * Get one page of services
+   */
+  async findPage(listQuery: ListQuery): Promise<PaginatedResult<Service>> {
+    try {
+      return await runListQuery<Service>(
+        this.pool,
+        SERVICE_SELECT,
+        SERVICE_FROM,
+        listQuery,
+        SERVICE_LIST_CONFIG,
+        [NOT_DELETED]
+      );
+    } catch (error) {
+      console.error('Error finding service page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get active services
    */
   async findActive(): Promise<Service[]> {
-    const query = 'SELECT * FROM services WHERE status = $1 AND (is_deleted = FALSE OR is_deleted IS NULL) ORDER BY name';
+    const query = `${SERVICE_SELECT} ${SERVICE_FROM} WHERE s.status = $1 AND ${NOT_DELETED} ORDER BY s.name`;
     
     try {
       const result = await this.pool.query(query, [ServiceStatus.ACTIVE]);
@@ -182,31 +225,34 @@ class ServiceModel {
   }
 
   /**
-   * Update a service
+   * Update a service. Runs inside the caller's transaction when given a
+   * client, otherwise in its own.
    */
-  async update(id: number, serviceData: Partial<ServiceInput>): Promise<Service | null> {
+  async update(id: number, serviceData: Partial<ServiceInput>, transaction?: PoolClient): Promise<Service | null> {
+    const { applicable_industry_ids: industryIds, ...columns } = serviceData;
+
     // Build the dynamic query based on provided fields
     const setFields: string[] = [];
     const values: any[] = [];
     let paramIndex = 1;
 
     // Add each field that is provided
-    Object.keys(serviceData).forEach(key => {
-      if (serviceData[key as keyof Partial<ServiceInput>] !== undefined) {
+    Object.keys(columns).forEach(key => {
+      if (columns[key as keyof typeof columns] !== undefined) {
         setFields.push(`${key} = $${paramIndex}`);
-        values.push(serviceData[key as keyof Partial<ServiceInput>]);
+        values.push(columns[key as keyof typeof columns]);
         paramIndex++;
       }
     });
 
-    // Add updated_at
-    setFields.push(`updated_at = CURRENT_TIMESTAMP`);
-
     // If no fields to update, return null
-    if (setFields.length === 1) {
+    if (setFields.length === 0 && industryIds === undefined) {
       return null;
     }
 
+    // Add updated_at
+    setFields.push(`updated_at = CURRENT_TIMESTAMP`);
+
     // Add the ID as the last parameter
     values.push(id);
 
@@ -214,15 +260,24 @@ class ServiceModel {
       UPDATE services
       SET ${setFields.join(', ')}
       WHERE id = $${paramIndex}
-      RETURNING *
+      RETURNING id
     `;
 
+    const client = transaction || await this.pool.connect();
     try {
-      const result = await this.pool.query(query, values);
-      return result.rows.length ? result.rows[0] : null;
+      if (!transaction) await client.query('BEGIN');
+      const result = await client.query(query, values);
+      if (result.rows.length && industryIds !== undefined) {
+        await this.setIndustries(client, id, industryIds);
+      }
+      if (!transaction) await client.query('COMMIT');
+      return result.rows.length ? await this.findById(id, client) : null;
     } catch (error) {
+      if (!transaction) await client.query('ROLLBACK');
       console.error('Error updating service:', error);
       throw error;
+    } finally {
+      if (!transaction) client.release();
     }
   }
 
@@ -246,6 +301,19 @@ class ServiceModel {
       throw error;
     }
   }
+
+  /**
+   * Replace the industries a service applies to
+   */
+  private async setIndustries(client: PoolClient, serviceId: number, industryIds: number[]): Promise<void> {
+    await client.query('DELETE FROM service_industries WHERE service_id = $1', [serviceId]);
+    await client.query(
+      `INSERT INTO service_industries (service_id, industry_id)
+       SELECT $1, industry_id FROM unnest($2::int[]) AS ids(industry_id)
+       ON CONFLICT DO NOTHING`,
+      [serviceId, industryIds]
+    );
+  }
 }
 
 export default new ServiceModel();
@@ -1,6 +1,7 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import db from '../config/database';
 import { UserRole } from './User';
+import { ListQuery, ListQueryConfig, PaginatedResult, runListQuery } from '../utils/listQuery';
 
 export enum TaskStatus {
   PENDING = 'pending',
@@ -29,6 +30,31 @@ export interface TaskInput {
   description?: string;
 }
 
+// Fields the task list can be sorted, filtered and searched by
+export const TASK_LIST_CONFIG: ListQueryConfig = {
+  sortable: {
+    id: 't.id',
+    name: 't.name',
+    opportunity_name: 'o.name',
+    client_name: 'c.name',
+    service_name: 's.name',
+    assigned_user_name: 'u.username',
+    status: 't.status',
+    due_date: 't.due_date',
+    created_at: 't.created_at'
+  },
+  filterable: {
+    status: { column: 't.status' },
+    opportunity_id: { column: 't.opportunity_id', type: 'number' },
+    assigned_user_id: { column: 't.assigned_user_id', type: 'number' },
+    business_unit_id: { column: 's.business_unit_id', type: 'number' },
+    due_from: { column: 't.due_date', operator: '>=', type: 'date' },
+    due_to: { column: 't.due_date', operator: '<=', type: 'date' }
+  },
+  searchable: ['t.name', 't.description', 'o.name', 'c.name'],
+  defaultSort: 'due_date'
+};
+
 export class TaskModel {
   private pool: Pool;
 
@@ -36,31 +62,7 @@ export class TaskModel {
     this.pool = db;
   }
 
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS tasks (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        opportunity_id INTEGER NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
-        assigned_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        due_date TIMESTAMP WITH TIME ZONE NOT NULL,
-        status VARCHAR(20) NOT NULL,
-        description TEXT,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    try {
-      await this.pool.query(query);
-      console.log('Tasks table created or already exists');
-    } catch (error) {
-      console.error('Error creating tasks table:', error);
-      throw error;
-    }
-  }
-
-  async create(taskData: TaskInput): Promise<Task> {
+  async create(taskData: TaskInput, client: Pool | PoolClient = this.pool): Promise<Task> {
     const { name, opportunity_id, assigned_user_id, due_date, status, description } = taskData;
     
     const query = `
@@ -71,7 +73,7 @@ export class TaskModel {
     
     try {
       const values = [name, opportunity_id, assigned_user_id, due_date, status, description || null];
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows[0];
     } catch (error) {
       console.error('Error creating task:', error);
@@ -126,11 +128,12 @@ export class TaskModel {
   async findAllTasks(): Promise<Task[]> {
     const query = `
       SELECT t.*, o.name as opportunity_name, c.name as client_name, s.name as service_name,
-             u.username as assigned_user_name, s.business_unit
+             u.username as assigned_user_name, s.business_unit_id, bu.name as business_unit
       FROM tasks t
       JOIN opportunities o ON t.opportunity_id = o.id
       JOIN clients c ON o.client_id = c.id
       JOIN services s ON o.service_id = s.id
+      LEFT JOIN business_units bu ON s.business_unit_id = bu.id
       JOIN users u ON t.assigned_user_id = u.id
       ORDER BY t.due_date ASC
     `;
@@ -144,15 +147,76 @@ export class TaskModel {
     }
   }
 
+  /**
+   * Get one page of tasks with opportunity, client, service and user names
+   */
+  async findPage(listQuery: ListQuery): Promise<PaginatedResult<Task>> {
+    try {
+      return await runListQuery<Task>(
+        this.pool,
+        `SELECT t.*, o.name as opportunity_name, c.name as client_name, s.name as service_name,
+                u.username as assigned_user_name, s.business_unit_id, bu.name as business_unit,
+                o.assigned_user_id as opportunity_assigned_user_id`,
+        `FROM tasks t
+         JOIN opportunities o ON t.opportunity_id = o.id
+         JOIN clients c ON o.client_id = c.id
+         JOIN services s ON o.service_id = s.id
+         LEFT JOIN business_units bu ON s.business_unit_id = bu.id
+         JOIN users u ON t.assigned_user_id = u.id`,
+        listQuery,
+        TASK_LIST_CONFIG
+      );
+    } catch (error) {
+      console.error('Error finding task page:', error);
+      throw error;
+    }
+  }
+
+  async findWithDetails(id: number): Promise<Task | null> {
+    const query = `
+      SELECT t.*, o.name as opportunity_name, c.name as client_name, s.name as service_name,
+             u.email as assigned_user_email, u.username as assigned_user_name,
+             s.business_unit_id, bu.name as business_unit
+      FROM tasks t
+      JOIN opportunities o ON t.opportunity_id = o.id
+      JOIN clients c ON o.client_id = c.id
+      JOIN services s ON o.service_id = s.id
+      LEFT JOIN business_units bu ON s.business_unit_id = bu.id
+      JOIN users u ON t.assigned_user_id = u.id
+      WHERE t.id = $1
+    `;
+    
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding task details:', error);
+      throw error;
+    }
+  }
+
+  async findOpenTasks(): Promise<Task[]> {
+    const query = 'SELECT * FROM tasks WHERE status != $1 ORDER BY due_date ASC';
+    
+    try {
+      const result = await this.pool.query(query, [TaskStatus.COMPLETED]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding open tasks:', error);
+      throw error;
+    }
+  }
+
   async findOverdueTasks(): Promise<Task[]> {
     const query = `
       SELECT t.*, o.name as opportunity_name, c.name as client_name, s.name as service_name,
              u.email as assigned_user_email, u.username as assigned_user_name,
-             s.business_unit
+             s.business_unit_id, bu.name as business_unit
       FROM tasks t
       JOIN opportunities o ON t.opportunity_id = o.id
       JOIN clients c ON o.client_id = c.id
       JOIN services s ON o.service_id = s.id
+      LEFT JOIN business_units bu ON s.business_unit_id = bu.id
       JOIN users u ON t.assigned_user_id = u.id
       WHERE t.status != $1 AND t.due_date < NOW()
       ORDER BY t.due_date ASC
@@ -167,7 +231,7 @@ export class TaskModel {
     }
   }
 
-  async update(id: number, taskData: Partial<TaskInput>): Promise<Task | null> {
+  async update(id: number, taskData: Partial<TaskInput>, client: Pool | PoolClient = this.pool): Promise<Task | null> {
     const allowedFields = ['name', 'assigned_user_id', 'due_date', 'status', 'description'];
     const updates: string[] = [];
     const values: any[] = [];
@@ -199,7 +263,7 @@ export class TaskModel {
     values.push(id);
     
     try {
-      const result = await this.pool.query(query, values);
+      const result = await client.query(query, values);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error updating task:', error);
@@ -207,7 +271,7 @@ export class TaskModel {
     }
   }
 
-  async updateStatus(id: number, status: TaskStatus): Promise<Task | null> {
+  async updateStatus(id: number, status: TaskStatus, client: Pool | PoolClient = this.pool): Promise<Task | null> {
     const query = `
       UPDATE tasks
       SET status = $1, updated_at = NOW()
@@ -216,7 +280,7 @@ export class TaskModel {
     `;
     
     try {
-      const result = await this.pool.query(query, [status, id]);
+      const result = await client.query(query, [status, id]);
       return result.rows.length ? result.rows[0] : null;
     } catch (error) {
       console.error('Error updating task status:', error);
@@ -0,0 +1,75 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+import { UserRole } from './User';
+
+/**
+ * Two-Factor Policy Model Class
+ * The roles whose members must use two-factor authentication. A role is
+ * required when it has a row in two_factor_required_roles.
+ */
+class TwoFactorPolicyModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Get the roles that require two-factor
+   */
+  async findRequiredRoles(): Promise<UserRole[]> {
+    const query = 'SELECT role FROM two_factor_required_roles ORDER BY role';
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows.map(row => row.role);
+    } catch (error) {
+      console.error('Error getting two-factor required roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether members of a role must use two-factor
+   */
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    const query = 'SELECT 1 FROM two_factor_required_roles WHERE role = $1';
+
+    try {
+      const result = await this.pool.query(query, [role]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error checking two-factor policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the set of roles that require two-factor
+   */
+  async setRequiredRoles(roles: UserRole[], updatedBy: number): Promise<UserRole[]> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM two_factor_required_roles WHERE NOT (role = ANY($1::varchar[]))', [roles]);
+      await client.query(
+        `INSERT INTO two_factor_required_roles (role, updated_by)
+         SELECT unnest($1::varchar[]), $2
+         ON CONFLICT (role) DO NOTHING`,
+        [roles, updatedBy]
+      );
+      await client.query('COMMIT');
+      return roles;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error setting two-factor required roles:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Export an instance of the model
+export default new TwoFactorPolicyModel();
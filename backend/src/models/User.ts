@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import bcrypt from 'bcrypt';
 import db from '../config/database';
 
@@ -17,6 +17,9 @@ export interface User {
   email: string;
   password: string;
   role: UserRole;
+  // Failed logins since the last success or lockout
+  failed_login_attempts?: number;
+  locked_until?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -29,31 +32,8 @@ class UserModel {
     this.db = db;
   }
 
-  // Create user table if it doesn't exist
-  async createTable(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        username VARCHAR(50) UNIQUE NOT NULL,
-        email VARCHAR(100) UNIQUE NOT NULL,
-        password VARCHAR(100) NOT NULL,
-        role VARCHAR(20) NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-    
-    try {
-      await this.db.query(query);
-      console.log('Users table created or already exists');
-    } catch (error) {
-      console.error('Error creating users table:', error);
-      throw error;
-    }
-  }
-
-  // Create a new user
-  async create(user: Omit<User, 'id' | 'created_at' | 'updated_at'>): Promise<User> {
+  // Create a new user; pass a client to create it inside a transaction
+  async create(user: Omit<User, 'id' | 'created_at' | 'updated_at'>, client: Pool | PoolClient = this.db): Promise<User> {
     // Hash the password
     const saltRounds = 10;
     const hashedPassword = await bcrypt.hash(user.password, saltRounds);
@@ -66,7 +46,7 @@ class UserModel {
     
     try {
       const values = [user.username, user.email, hashedPassword, user.role];
-      const result = await this.db.query(query, values);
+      const result = await client.query(query, values);
       return result.rows[0];
     } catch (error) {
       console.error('Error creating user:', error);
@@ -202,9 +182,14 @@ class UserModel {
     }
   }
 
-  // Get all users
-  async getAll(): Promise<User[]> {
-    const query = 'SELECT * FROM users ORDER BY id';
+  // Get all users, with whether each has two-factor authentication on
+  async getAll(): Promise<(User & { two_factor_enabled: boolean })[]> {
+    const query = `
+      SELECT u.*, (tf.enabled_at IS NOT NULL) AS two_factor_enabled
+      FROM users u
+      LEFT JOIN user_two_factor tf ON tf.user_id = u.id
+      ORDER BY u.id
+    `;
     
     try {
       const result = await this.db.query(query);
@@ -225,8 +210,8 @@ class UserModel {
     }
   }
 
-  // Update user password
-  async updatePassword(userId: number, newPassword: string): Promise<boolean> {
+  // Update user password; pass a client to update it inside a transaction
+  async updatePassword(userId: number, newPassword: string, client: Pool | PoolClient = this.db): Promise<boolean> {
     try {
       // Hash the new password
       const saltRounds = 10;
@@ -240,7 +225,7 @@ class UserModel {
         RETURNING id
       `;
       
-      const result = await this.db.query(query, [hashedPassword, userId]);
+      const result = await client.query(query, [hashedPassword, userId]);
       
       // Return true if a row was updated, false otherwise
       return (result.rowCount ?? 0) > 0;
@@ -249,6 +234,45 @@ class UserModel {
       throw error;
     }
   }
+
+  // Count a failed login, locking the account for lockMinutes once it
+  // reaches maxAttempts (the count then starts over)
+  async recordFailedLogin(userId: number, maxAttempts: number, lockMinutes: number): Promise<User | null> {
+    const query = `
+      UPDATE users
+      SET failed_login_attempts = CASE WHEN failed_login_attempts + 1 >= $2 THEN 0 ELSE failed_login_attempts + 1 END,
+          locked_until = CASE WHEN failed_login_attempts + 1 >= $2
+            THEN CURRENT_TIMESTAMP + make_interval(mins => $3)
+            ELSE locked_until END
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [userId, maxAttempts, lockMinutes]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error recording failed login:', error);
+      throw error;
+    }
+  }
+
+  // Reset the failed login count and lift any lockout
+  async clearFailedLogins(userId: number, client: Pool | PoolClient = this.db): Promise<boolean> {
+    const query = `
+      UPDATE users
+      SET failed_login_attempts = 0, locked_until = NULL
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await client.query(query, [userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error clearing failed logins:', error);
+      throw error;
+    }
+  }
 }
 
 // Export an instance of the model with the database connection
@@ -0,0 +1,202 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+import { UserRole } from './User';
+
+/**
+ * User Invitation Interface
+ * Only the SHA-256 hash of the invite token is stored
+ */
+export interface UserInvitation {
+  id: number;
+  email: string;
+  role: UserRole;
+  token_hash: string;
+  invited_by: number | null;
+  invited_by_name?: string | null;
+  expires_at: Date;
+  accepted_at: Date | null;
+  accepted_user_id: number | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+export interface UserInvitationInput {
+  email: string;
+  role: UserRole;
+  token_hash: string;
+  invited_by: number;
+  expires_at: Date;
+}
+
+// Invitations that can still be accepted
+const IS_PENDING = 'accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP';
+
+/**
+ * User Invitation Model Class
+ */
+class UserInvitationModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create an invitation
+   */
+  async create(invitationData: UserInvitationInput): Promise<UserInvitation> {
+    const query = `
+      INSERT INTO user_invitations (email, role, token_hash, invited_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [
+      invitationData.email,
+      invitationData.role,
+      invitationData.token_hash,
+      invitationData.invited_by,
+      invitationData.expires_at
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating user invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an invitation by ID
+   */
+  async findById(id: number): Promise<UserInvitation | null> {
+    const query = 'SELECT * FROM user_invitations WHERE id = $1';
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding user invitation by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a pending invitation by token hash. Pass a client to lock the row
+   * for the rest of a transaction.
+   */
+  async findPendingByTokenHash(tokenHash: string, client?: PoolClient): Promise<UserInvitation | null> {
+    const query = `
+      SELECT * FROM user_invitations
+      WHERE token_hash = $1 AND ${IS_PENDING}
+      ${client ? 'FOR UPDATE' : ''}
+    `;
+
+    try {
+      const result = await (client || this.pool).query(query, [tokenHash]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding user invitation by token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the pending invitation for an email, if any
+   */
+  async findPendingByEmail(email: string): Promise<UserInvitation | null> {
+    const query = `SELECT * FROM user_invitations WHERE LOWER(email) = LOWER($1) AND ${IS_PENDING}`;
+
+    try {
+      const result = await this.pool.query(query, [email]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding user invitation by email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get invitations that haven't been accepted or revoked, newest first.
+   * Expired ones are included so admins can see and resend them.
+   */
+  async findOpen(): Promise<UserInvitation[]> {
+    const query = `
+      SELECT ui.*, u.username AS invited_by_name
+      FROM user_invitations ui
+      LEFT JOIN users u ON u.id = ui.invited_by
+      WHERE ui.accepted_at IS NULL AND ui.revoked_at IS NULL
+      ORDER BY ui.created_at DESC
+    `;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting open user invitations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an invitation's token and expiry, e.g. when resending it
+   */
+  async renew(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | null> {
+    const query = `
+      UPDATE user_invitations
+      SET token_hash = $2, expires_at = $3
+      WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id, tokenHash, expiresAt]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error(`Error renewing user invitation with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that an invitation was used to create a user
+   */
+  async markAccepted(id: number, userId: number, client: Pool | PoolClient = this.pool): Promise<void> {
+    const query = `
+      UPDATE user_invitations
+      SET accepted_at = CURRENT_TIMESTAMP, accepted_user_id = $2
+      WHERE id = $1
+    `;
+
+    try {
+      await client.query(query, [id, userId]);
+    } catch (error) {
+      console.error(`Error accepting user invitation with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an invitation so its link stops working
+   */
+  async revoke(id: number): Promise<boolean> {
+    const query = `
+      UPDATE user_invitations
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rowCount ? result.rowCount > 0 : false;
+    } catch (error) {
+      console.error(`Error revoking user invitation with ID ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new UserInvitationModel();
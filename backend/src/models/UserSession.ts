@@ -0,0 +1,195 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+/**
+ * User Session Interface
+ * Only the SHA-256 hash of the current refresh token is stored
+ */
+export interface UserSession {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+export interface UserSessionInput {
+  user_id: number;
+  refresh_token_hash: string;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  expires_at: Date;
+}
+
+// Sessions whose refresh token can still be used
+const IS_ACTIVE = 'revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP';
+
+/**
+ * User Session Model Class
+ */
+class UserSessionModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create a session
+   */
+  async create(sessionData: UserSessionInput): Promise<UserSession> {
+    const query = `
+      INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [
+      sessionData.user_id,
+      sessionData.refresh_token_hash,
+      sessionData.user_agent || null,
+      sessionData.ip_address || null,
+      sessionData.expires_at
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating user session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a session exists for the user and hasn't been revoked or expired
+   */
+  async isActive(id: number, userId: number): Promise<boolean> {
+    const query = `SELECT 1 FROM user_sessions WHERE id = $1 AND user_id = $2 AND ${IS_ACTIVE}`;
+
+    try {
+      const result = await this.pool.query(query, [id, userId]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error(`Error checking user session with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's active sessions, most recently used first
+   */
+  async findActiveByUser(userId: number): Promise<UserSession[]> {
+    const query = `SELECT * FROM user_sessions WHERE user_id = $1 AND ${IS_ACTIVE} ORDER BY last_used_at DESC`;
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding user sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Swap an active session's refresh token for a new one and extend it.
+   * Matching on the old hash means a token can only be rotated once.
+   */
+  async rotate(
+    refreshTokenHash: string,
+    newRefreshTokenHash: string,
+    expiresAt: Date,
+    meta: { user_agent?: string | null; ip_address?: string | null }
+  ): Promise<UserSession | null> {
+    const query = `
+      UPDATE user_sessions
+      SET refresh_token_hash = $2, expires_at = $3, last_used_at = CURRENT_TIMESTAMP,
+          user_agent = COALESCE($4, user_agent), ip_address = COALESCE($5, ip_address)
+      WHERE refresh_token_hash = $1 AND ${IS_ACTIVE}
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [
+        refreshTokenHash,
+        newRefreshTokenHash,
+        expiresAt,
+        meta.user_agent || null,
+        meta.ip_address || null
+      ]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error rotating user session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revoke(id: number, userId: number): Promise<boolean> {
+    const query = `
+      UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id, userId]);
+      return result.rowCount ? result.rowCount > 0 : false;
+    } catch (error) {
+      console.error(`Error revoking user session with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one (usually the
+   * caller's own). Returns how many were revoked.
+   */
+  async revokeAllForUser(userId: number, exceptId?: number): Promise<number> {
+    const query = `
+      UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND revoked_at IS NULL AND ($2::int IS NULL OR id <> $2)
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, exceptId ?? null]);
+      return result.rowCount || 0;
+    } catch (error) {
+      console.error(`Error revoking sessions of user with ID ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke the sessions of users in any of the given roles who haven't
+   * enabled two-factor, so they have to sign in again and set it up
+   */
+  async revokeAllForRolesWithoutTwoFactor(roles: string[]): Promise<number> {
+    const query = `
+      UPDATE user_sessions s SET revoked_at = CURRENT_TIMESTAMP
+      FROM users u
+      WHERE u.id = s.user_id
+        AND u.role = ANY($1::varchar[])
+        AND s.revoked_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM user_two_factor tf WHERE tf.user_id = u.id AND tf.enabled_at IS NOT NULL
+        )
+    `;
+
+    try {
+      const result = await this.pool.query(query, [roles]);
+      return result.rowCount || 0;
+    } catch (error) {
+      console.error('Error revoking sessions of users without two-factor:', error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new UserSessionModel();
@@ -0,0 +1,122 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+/**
+ * User Two-Factor Interface
+ * A user's TOTP secret. It's pending until the user confirms a first code,
+ * which sets enabled_at.
+ */
+export interface UserTwoFactor {
+  user_id: number;
+  secret: string;
+  enabled_at: Date | null;
+  // The last time step a code was accepted for, so a code can't be replayed
+  last_used_step: number | null;
+  created_at: Date;
+}
+
+/**
+ * User Two-Factor Model Class
+ */
+class UserTwoFactorModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Find a user's two-factor settings
+   */
+  async findByUserId(userId: number): Promise<UserTwoFactor | null> {
+    const query = 'SELECT * FROM user_two_factor WHERE user_id = $1';
+
+    try {
+      const result = await this.pool.query(query, [userId]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding two-factor settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a new pending secret, replacing any earlier pending one. Returns
+   * null if two-factor is already enabled.
+   */
+  async savePendingSecret(userId: number, secret: string): Promise<UserTwoFactor | null> {
+    const query = `
+      INSERT INTO user_two_factor (user_id, secret)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE
+      SET secret = EXCLUDED.secret, last_used_step = NULL, created_at = CURRENT_TIMESTAMP
+      WHERE user_two_factor.enabled_at IS NULL
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, secret]);
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error saving two-factor secret:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enable two-factor once the first code is confirmed
+   */
+  async enable(userId: number, step: number, client: Pool | PoolClient = this.pool): Promise<boolean> {
+    const query = `
+      UPDATE user_two_factor
+      SET enabled_at = CURRENT_TIMESTAMP, last_used_step = $2
+      WHERE user_id = $1 AND enabled_at IS NULL
+    `;
+
+    try {
+      const result = await client.query(query, [userId, step]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error enabling two-factor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a code for a time step was used. Returns false if that step
+   * or a later one was already used, i.e. the code is a replay.
+   */
+  async markStepUsed(userId: number, step: number): Promise<boolean> {
+    const query = `
+      UPDATE user_two_factor
+      SET last_used_step = $2
+      WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)
+    `;
+
+    try {
+      const result = await this.pool.query(query, [userId, step]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error recording two-factor code use:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's two-factor settings, turning it off
+   */
+  async delete(userId: number, client: Pool | PoolClient = this.pool): Promise<boolean> {
+    const query = 'DELETE FROM user_two_factor WHERE user_id = $1';
+
+    try {
+      const result = await client.query(query, [userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting two-factor settings:', error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the model
+export default new UserTwoFactorModel();
@@ -0,0 +1,193 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+
+// Domain events and scheduled checks handled by the workflow engine
+export enum WorkflowEventType {
+  OPPORTUNITY_STATUS_CHANGED = 'opportunity.status_changed',
+  TASK_CREATED = 'task.created',
+  TASK_STATUS_CHANGED = 'task.status_changed',
+  TASK_DUE_DATE_CHANGED = 'task.due_date_changed',
+  TASK_OVERDUE_CHECK = 'task.overdue_check',
+  TASK_ESCALATION_CHECK = 'task.escalation_check',
+  CLIENT_SERVICE_RENEWAL_CHECK = 'client_service.renewal_check',
+  WORKFLOW_RULE_ACTION = 'workflow_rule.action'
+}
+
+// Workflow job status options
+export enum WorkflowJobStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+// Workflow job interface
+export interface WorkflowJob {
+  id: number;
+  event_type: WorkflowEventType;
+  payload: Record<string, any>;
+  dedupe_key: string | null;
+  status: WorkflowJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  last_error: string | null;
+  locked_at: Date | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Workflow job input interface for enqueueing
+export interface WorkflowJobInput {
+  event_type: WorkflowEventType;
+  payload: Record<string, any>;
+  dedupe_key?: string;
+  run_at?: Date;
+  max_attempts?: number;
+}
+
+class WorkflowJobModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Queue a job. If a job with the same dedupe key was ever queued, nothing is
+   * inserted and null is returned, so the same work is never done twice.
+   */
+  async enqueue(jobData: WorkflowJobInput, client: Pool | PoolClient = this.pool): Promise<WorkflowJob | null> {
+    const query = `
+      INSERT INTO workflow_jobs (event_type, payload, dedupe_key, run_at, max_attempts)
+      VALUES ($1, $2, $3, COALESCE($4, CURRENT_TIMESTAMP), COALESCE($5, 5))
+      ON CONFLICT (dedupe_key) DO NOTHING
+      RETURNING *
+    `;
+
+    const values = [
+      jobData.event_type,
+      JSON.stringify(jobData.payload),
+      jobData.dedupe_key || null,
+      jobData.run_at || null,
+      jobData.max_attempts || null
+    ];
+
+    try {
+      const result = await client.query(query, values);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error enqueueing workflow job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim up to `limit` due jobs for processing. Rows locked by another
+   * worker are skipped, so each job is handed out once.
+   */
+  async claimDue(limit: number): Promise<WorkflowJob[]> {
+    const query = `
+      UPDATE workflow_jobs
+      SET status = $1, attempts = attempts + 1, locked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM workflow_jobs
+        WHERE status = $2 AND run_at <= CURRENT_TIMESTAMP
+        ORDER BY run_at, id
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [WorkflowJobStatus.PROCESSING, WorkflowJobStatus.PENDING, limit]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error claiming workflow jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a job finished successfully
+   */
+  async markCompleted(id: number): Promise<void> {
+    const query = `
+      UPDATE workflow_jobs
+      SET status = $1, completed_at = CURRENT_TIMESTAMP, locked_at = NULL, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+    `;
+
+    try {
+      await this.pool.query(query, [WorkflowJobStatus.COMPLETED, id]);
+    } catch (error) {
+      console.error('Error completing workflow job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that one step of a job is done, in its payload's completed_steps,
+   * so a retry of the job skips it
+   */
+  async markStepCompleted(id: number, step: string, client: Pool | PoolClient = this.pool): Promise<void> {
+    const query = `
+      UPDATE workflow_jobs
+      SET payload = jsonb_set(payload, '{completed_steps}', COALESCE(payload->'completed_steps', '[]'::jsonb) || to_jsonb($2::text)),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `;
+
+    try {
+      await client.query(query, [id, step]);
+    } catch (error) {
+      console.error('Error recording workflow job step:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a failed attempt. The job is put back in the queue for retryAt,
+   * or marked failed for good when retryAt is null.
+   */
+  async markFailed(id: number, errorMessage: string, retryAt: Date | null): Promise<void> {
+    const query = `
+      UPDATE workflow_jobs
+      SET status = $1, last_error = $2, run_at = COALESCE($3, run_at), locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4
+    `;
+
+    const status = retryAt ? WorkflowJobStatus.PENDING : WorkflowJobStatus.FAILED;
+
+    try {
+      await this.pool.query(query, [status, errorMessage, retryAt, id]);
+    } catch (error) {
+      console.error('Error recording workflow job failure:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put jobs that have been processing for too long (e.g. the server stopped
+   * mid-job) back in the queue
+   */
+  async releaseStale(minutes: number): Promise<number> {
+    const query = `
+      UPDATE workflow_jobs
+      SET status = $1, locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE status = $2 AND locked_at < CURRENT_TIMESTAMP - ($3 || ' minutes')::INTERVAL
+    `;
+
+    try {
+      const result = await this.pool.query(query, [WorkflowJobStatus.PENDING, WorkflowJobStatus.PROCESSING, minutes]);
+      return result.rowCount || 0;
+    } catch (error) {
+      console.error('Error releasing stale workflow jobs:', error);
+      throw error;
+    }
+  }
+}
+
+export default new WorkflowJobModel();
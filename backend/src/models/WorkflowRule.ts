@@ -0,0 +1,223 @@
+import { Pool } from 'pg';
+import db from '../config/database';
+
+// Changes a workflow rule can react to
+export enum WorkflowRuleTrigger {
+  OPPORTUNITY_CREATED = 'opportunity_created',
+  OPPORTUNITY_STATUS_CHANGED = 'opportunity_status_changed',
+  TASK_CREATED = 'task_created',
+  TASK_STATUS_CHANGED = 'task_status_changed'
+}
+
+// What a workflow rule does when it matches
+export enum WorkflowRuleAction {
+  CREATE_TASK = 'create_task',
+  NOTIFY = 'notify'
+}
+
+// Who a rule's task is assigned to, or its notification is sent to
+export enum WorkflowRuleRecipient {
+  ASSIGNEE = 'assignee',
+  ACCOUNT_OWNER = 'account_owner',
+  RULE_OWNER = 'rule_owner',
+  BU_HEAD = 'bu_head'
+}
+
+// Conditions are ANDed together; any that are left out match everything.
+// For task triggers, status and previous_status refer to the task.
+export interface WorkflowRuleConditions {
+  status?: string;
+  previous_status?: string;
+  priority?: string;
+  business_unit_id?: number;
+  service_id?: number;
+  client_id?: number;
+}
+
+export interface WorkflowRuleActionConfig {
+  // create_task
+  task_name?: string;
+  task_description?: string;
+  due_in_days?: number;
+  assign_to?: WorkflowRuleRecipient;
+  // notify
+  recipient?: WorkflowRuleRecipient;
+  title?: string;
+  message?: string;
+}
+
+// Workflow rule interface
+export interface WorkflowRule {
+  id: number;
+  name: string;
+  description?: string;
+  trigger_event: WorkflowRuleTrigger;
+  conditions: WorkflowRuleConditions;
+  action_type: WorkflowRuleAction;
+  action_config: WorkflowRuleActionConfig;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Workflow rule input interface for creation/updates
+export interface WorkflowRuleInput {
+  name: string;
+  description?: string;
+  trigger_event: WorkflowRuleTrigger;
+  conditions: WorkflowRuleConditions;
+  action_type: WorkflowRuleAction;
+  action_config: WorkflowRuleActionConfig;
+  is_active?: boolean;
+  created_by?: number | null;
+}
+
+class WorkflowRuleModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = db;
+  }
+
+  /**
+   * Create a new workflow rule
+   */
+  async create(ruleData: WorkflowRuleInput): Promise<WorkflowRule> {
+    const query = `
+      INSERT INTO workflow_rules (
+        name, description, trigger_event, conditions, action_type, action_config, is_active, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      ruleData.name,
+      ruleData.description || null,
+      ruleData.trigger_event,
+      JSON.stringify(ruleData.conditions || {}),
+      ruleData.action_type,
+      JSON.stringify(ruleData.action_config || {}),
+      ruleData.is_active !== undefined ? ruleData.is_active : true,
+      ruleData.created_by || null
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating workflow rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a workflow rule by ID
+   */
+  async findById(id: number): Promise<WorkflowRule | null> {
+    const query = `SELECT * FROM workflow_rules WHERE id = $1`;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error finding workflow rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all workflow rules with the name of the user who created them
+   */
+  async findAll(): Promise<WorkflowRule[]> {
+    const query = `
+      SELECT r.*, u.username AS created_by_name
+      FROM workflow_rules r
+      LEFT JOIN users u ON r.created_by = u.id
+      ORDER BY r.name
+    `;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding workflow rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the active rules for a trigger
+   */
+  async findActiveByTrigger(trigger: WorkflowRuleTrigger): Promise<WorkflowRule[]> {
+    const query = `SELECT * FROM workflow_rules WHERE trigger_event = $1 AND is_active = TRUE ORDER BY id`;
+
+    try {
+      const result = await this.pool.query(query, [trigger]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error finding active workflow rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a workflow rule
+   */
+  async update(id: number, ruleData: Partial<WorkflowRuleInput>): Promise<WorkflowRule | null> {
+    const allowedFields = ['name', 'description', 'trigger_event', 'conditions', 'action_type', 'action_config', 'is_active'];
+    const jsonFields = ['conditions', 'action_config'];
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.keys(ruleData).forEach(key => {
+      const value = ruleData[key as keyof WorkflowRuleInput];
+      if (allowedFields.includes(key) && value !== undefined) {
+        updates.push(`${key} = $${paramCount}`);
+        values.push(jsonFields.includes(key) ? JSON.stringify(value) : value);
+        paramCount++;
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE workflow_rules
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error updating workflow rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workflow rule
+   */
+  async delete(id: number): Promise<boolean> {
+    const query = `DELETE FROM workflow_rules WHERE id = $1 RETURNING id`;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting workflow rule:', error);
+      throw error;
+    }
+  }
+}
+
+export default new WorkflowRuleModel();
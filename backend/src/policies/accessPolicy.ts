@@ -0,0 +1,96 @@
+import { UserRole } from '../models/User';
+
+/**
+ * Central access policy. Every role gets a scope per resource and action:
+ *
+ * - all: any record
+ * - owned: records the user owns (account owner of a client, assignee of an
+ *   opportunity or task)
+ * - business_unit: records belonging to a business unit the user heads
+ *
+ * A role without an entry can't perform the action at all. The same table is
+ * sent to the frontend, which uses it to hide actions the user can't take.
+ */
+
+export type PolicyResource = 'client' | 'service' | 'opportunity' | 'task' | 'workflow_rule';
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete' | 'report';
+export type PolicyScope = 'all' | 'owned' | 'business_unit';
+
+export type RolePolicy = Partial<Record<PolicyResource, Partial<Record<PolicyAction, PolicyScope>>>>;
+
+const READ_ALL = {
+  client: { read: 'all' },
+  service: { read: 'all' },
+  opportunity: { read: 'all' },
+  task: { read: 'all' }
+} as const;
+
+export const ACCESS_POLICY: Record<UserRole, RolePolicy> = {
+  [UserRole.ADMIN]: {
+    client: { read: 'all', create: 'all', update: 'all', delete: 'all' },
+    service: { read: 'all', create: 'all', update: 'all', delete: 'all' },
+    opportunity: { read: 'all', create: 'all', update: 'all', delete: 'all', report: 'all' },
+    task: { read: 'all', create: 'all', update: 'all', delete: 'all', report: 'all' },
+    workflow_rule: { read: 'all', create: 'all', update: 'all', delete: 'all' }
+  },
+  [UserRole.BU_HEAD]: {
+    ...READ_ALL,
+    service: { read: 'all', create: 'business_unit', update: 'business_unit' },
+    opportunity: { read: 'all', create: 'business_unit', update: 'business_unit', report: 'all' },
+    task: { read: 'all', create: 'business_unit', update: 'business_unit', delete: 'business_unit', report: 'all' },
+    workflow_rule: { read: 'all', create: 'all', update: 'all', delete: 'all' }
+  },
+  [UserRole.SALES]: {
+    ...READ_ALL,
+    client: { read: 'all', create: 'owned', update: 'owned' },
+    opportunity: { read: 'all', create: 'owned', update: 'owned' },
+    task: { read: 'all', create: 'owned', update: 'owned' }
+  },
+  // Senior Management sees everything, including pipeline analytics, and changes nothing
+  [UserRole.SENIOR_MANAGEMENT]: {
+    ...READ_ALL,
+    opportunity: { read: 'all', report: 'all' }
+  }
+};
+
+// The user a decision is made for; businessUnitIds are the BUs they head
+export interface PolicyUser {
+  userId: number;
+  role: UserRole;
+  businessUnitIds: number[];
+}
+
+// The parts of a record the scopes look at
+export interface PolicyRecord {
+  ownerIds: Array<number | null | undefined>;
+  businessUnitId?: number | null;
+}
+
+/**
+ * The scope a role has for an action, or undefined when it has none
+ */
+export const getScope = (role: UserRole, resource: PolicyResource, action: PolicyAction): PolicyScope | undefined => {
+  return ACCESS_POLICY[role]?.[resource]?.[action];
+};
+
+/**
+ * Whether the user may perform the action. Without a record this answers
+ * whether the user may perform it on at least some records.
+ */
+export const can = (
+  user: PolicyUser,
+  action: PolicyAction,
+  resource: PolicyResource,
+  record?: PolicyRecord
+): boolean => {
+  const scope = getScope(user.role, resource, action);
+
+  if (!scope) return false;
+  if (scope === 'all' || !record) return true;
+
+  if (scope === 'owned') {
+    return record.ownerIds.some(ownerId => ownerId === user.userId);
+  }
+
+  return !!record.businessUnitId && user.businessUnitIds.includes(record.businessUnitId);
+};
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import userRoutes from './userRoutes';
+import businessUnitRoutes from './businessUnitRoutes';
+import industryRoutes from './industryRoutes';
+import invitationRoutes from './invitationRoutes';
+import twoFactorPolicyRoutes from './twoFactorPolicyRoutes';
+
+/**
+ * Admin Routes
+ * Groups the user, invitation, two-factor policy, business unit and industry
+ * management APIs under /api/admin. Each sub-router applies its own
+ * authentication and admin checks.
+ */
+const router = Router();
+
+router.use('/users', userRoutes);
+router.use('/invitations', invitationRoutes);
+router.use('/two-factor', twoFactorPolicyRoutes);
+router.use('/business-units', businessUnitRoutes);
+router.use('/industries', industryRoutes);
+
+export default router;
@@ -0,0 +1,28 @@
+import express from 'express';
+import analyticsController from '../controllers/analyticsController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { authorize } from '../middleware/policyMiddleware';
+
+const router = express.Router();
+
+// Apply authentication middleware to all analytics routes, which are open to
+// roles that can report on opportunities (Admin, BU Head, Senior Management)
+router.use(authenticateToken);
+router.use(authorize('report', 'opportunity'));
+
+// GET open pipeline value by stage and business unit
+router.get('/pipeline', analyticsController.getPipeline);
+
+// GET win rates by service, business unit or rep
+router.get('/win-rates', analyticsController.getWinRates);
+
+// GET average days from creation to won or lost
+router.get('/cycle-time', analyticsController.getCycleTime);
+
+// GET services per client by month
+router.get('/penetration', analyticsController.getPenetration);
+
+// GET open pipeline by month, weighted by stage win probability
+router.get('/forecast', analyticsController.getForecast);
+
+export default router;
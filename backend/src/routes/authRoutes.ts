@@ -1,16 +1,56 @@
 import { Router } from 'express';
-import { register, login, getCurrentUser, changePassword, updateProfile } from '../controllers/authController';
+import {
+  register,
+  login,
+  refresh,
+  forgotPassword,
+  resetPassword,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  getCurrentUser,
+  changePassword,
+  updateProfile,
+  getInvitation,
+  acceptInvitation,
+  verifyTwoFactorLogin,
+  beginTwoFactorLoginSetup,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/authController';
 import { authenticateToken } from '../middleware/authMiddleware';
 
 const router = Router();
 
 // Public routes
+// Only open when REGISTRATION_EMAIL_DOMAIN is set
 router.post('/register', register);
 router.post('/login', login);
+// Second login step, with the challenge token from /login
+router.post('/login/2fa', verifyTwoFactorLogin);
+router.post('/login/2fa/setup', beginTwoFactorLoginSetup);
+router.post('/refresh', refresh);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.get('/invitations/:token', getInvitation);
+router.post('/invitations/:token/accept', acceptInvitation);
 
 // Protected routes
 router.get('/me', authenticateToken, getCurrentUser);
 router.post('/change-password', authenticateToken, changePassword);
 router.put('/profile', authenticateToken, updateProfile);
+router.post('/logout', authenticateToken, logout);
+router.post('/logout-all', authenticateToken, logoutAll);
+router.get('/sessions', authenticateToken, getSessions);
+router.delete('/sessions/:id', authenticateToken, revokeSession);
+router.get('/2fa', authenticateToken, getTwoFactorStatus);
+router.post('/2fa/setup', authenticateToken, beginTwoFactorSetup);
+router.post('/2fa/enable', authenticateToken, enableTwoFactor);
+router.post('/2fa/disable', authenticateToken, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, regenerateRecoveryCodes);
 
 export default router;
\ No newline at end of file
@@ -1,35 +1,29 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express from 'express';
 import clientController from '../controllers/clientController';
-import { authenticateToken, isAdmin } from '../middleware/authMiddleware';
-import { UserRole } from '../models/User';
+import clientContactController from '../controllers/clientContactController';
+import clientServiceController from '../controllers/clientServiceController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { authorize } from '../middleware/policyMiddleware';
 
 const router = express.Router();
 
 // Apply authentication middleware to all client routes
 router.use(authenticateToken);
 
-// Custom middleware to check if user is either Admin or Sales
-const isAdminOrSales = (req: Request, res: Response, next: NextFunction): void => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-  
-  if (req.user.role === UserRole.ADMIN || req.user.role === UserRole.SALES) {
-    next();
-  } else {
-    res.status(403).json({ message: 'Access denied: Admin or Sales privileges required' });
-  }
-};
-
 // GET all clients
 router.get('/', clientController.getAllClients);
 
+// GET clients that look like duplicates of the given details
+router.get('/duplicates', clientController.checkDuplicates);
+
+// GET all pairs of likely duplicate clients (Admin only)
+router.get('/duplicates/pairs', authorize('delete', 'client'), clientController.getDuplicatePairs);
+
 // GET client by ID
 router.get('/:id', clientController.getClientById);
 
 // GET clients by industry
-router.get('/industry/:industry', clientController.getClientsByIndustry);
+router.get('/industry/:industryId', clientController.getClientsByIndustry);
 
 // GET clients by account owner
 router.get('/account-owner/:id', clientController.getClientsByAccountOwner);
@@ -37,22 +31,64 @@ router.get('/account-owner/:id', clientController.getClientsByAccountOwner);
 // GET services for a client
 router.get('/:id/services', clientController.getClientServices);
 
-// POST create new client (Admin and Sales only)
-router.post('/', isAdminOrSales, clientController.createClient);
+// GET clients that look like duplicates of a client
+router.get('/:id/duplicates', clientController.getClientDuplicates);
+
+// GET merge history of a client (Admin only)
+router.get('/:id/merges', authorize('delete', 'client'), clientController.getClientMerges);
+
+// GET contacts for a client
+router.get('/:id/contacts', clientContactController.getContacts);
+
+// GET the contact matching a service's ideal client role
+router.get('/:id/contacts/suggested', clientContactController.getSuggestedContact);
+
+// POST add contact to client (Admin, or Sales for their own clients)
+router.post('/:id/contacts', authorize('update', 'client'), clientContactController.createContact);
+
+// PUT update client contact (Admin, or Sales for their own clients)
+router.put('/:id/contacts/:contactId', authorize('update', 'client'), clientContactController.updateContact);
+
+// DELETE remove client contact (Admin, or Sales for their own clients)
+router.delete('/:id/contacts/:contactId', authorize('update', 'client'), clientContactController.deleteContact);
 
-// PUT update client (Admin and Sales only)
-router.put('/:id', isAdminOrSales, clientController.updateClient);
+// GET service engagements (contracts) for a client
+router.get('/:id/engagements', clientServiceController.getEngagements);
+
+// GET lifetime and annual recurring revenue per business unit
+router.get('/:id/revenue', clientServiceController.getRevenue);
+
+// GET services the client stopped using, with the reasons
+router.get('/:id/churn', clientServiceController.getChurn);
+
+// POST record an engagement (Admin, or Sales for their own clients)
+router.post('/:id/engagements', authorize('update', 'client'), clientServiceController.createEngagement);
+
+// PUT update engagement terms (Admin, or Sales for their own clients)
+router.put('/:id/engagements/:engagementId', authorize('update', 'client'), clientServiceController.updateEngagement);
+
+// DELETE remove an engagement (Admin, or Sales for their own clients)
+router.delete('/:id/engagements/:engagementId', authorize('update', 'client'), clientServiceController.deleteEngagement);
+
+// POST create new client (Admin, or Sales for their own clients)
+router.post('/', authorize('create', 'client'), clientController.createClient);
+
+// PUT update client (Admin, or Sales for their own clients)
+router.put('/:id', authorize('update', 'client'), clientController.updateClient);
 
 // DELETE client (Admin only)
-router.delete('/:id', isAdmin, clientController.deleteClient);
+router.delete('/:id', authorize('delete', 'client'), clientController.deleteClient);
+
+// POST merge a duplicate client into this one (Admin only)
+router.post('/:id/merge', authorize('delete', 'client'), clientController.mergeClient);
 
-// PATCH change client status (Admin and Sales only)
-router.patch('/:id/status', isAdminOrSales, clientController.changeClientStatus);
+// PATCH change client status (Admin, or Sales for their own clients)
+router.patch('/:id/status', authorize('update', 'client'), clientController.changeClientStatus);
 
-// POST add service to client (Admin and Sales only)
-router.post('/:clientId/services/:serviceId', isAdminOrSales, clientController.addServiceToClient);
+// POST add service to client (Admin, or Sales for their own clients)
+router.post('/:clientId/services/:serviceId', authorize('update', 'client', { idParam: 'clientId' }), clientController.addServiceToClient);
 
-// DELETE remove service from client (Admin and Sales only)
-router.delete('/:clientId/services/:serviceId', isAdminOrSales, clientController.removeServiceFromClient);
+// DELETE remove service from client, recording why it churned (Admin, or Sales for their own clients)
+router.delete('/:clientId/services/:serviceId', authorize('update', 'client', { idParam: 'clientId' }), clientController.removeServiceFromClient);
 
 export default router;
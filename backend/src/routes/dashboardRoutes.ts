@@ -0,0 +1,19 @@
+import express from 'express';
+import dashboardController from '../controllers/dashboardController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// Apply authentication middleware to all dashboard routes
+router.use(authenticateToken);
+
+// GET the current user's dashboard cards for their role
+router.get('/', dashboardController.getDashboard);
+
+// PUT choose and order the current user's dashboard cards
+router.put('/layout', dashboardController.updateLayout);
+
+// DELETE go back to the role's default cards
+router.delete('/layout', dashboardController.resetLayout);
+
+export default router;
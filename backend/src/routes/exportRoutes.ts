@@ -0,0 +1,29 @@
+import express from 'express';
+import exportController from '../controllers/exportController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// Apply authentication middleware to all export routes
+router.use(authenticateToken);
+
+// GET the current user's scheduled exports
+router.get('/schedules', exportController.getSchedules);
+
+// POST save an export to be emailed to the current user every week
+router.post('/schedules', exportController.createSchedule);
+
+// PUT change or pause one of the current user's scheduled exports
+router.put('/schedules/:id', exportController.updateSchedule);
+
+// POST email one of the current user's scheduled exports now
+router.post('/schedules/:id/send', exportController.sendSchedule);
+
+// DELETE one of the current user's scheduled exports
+router.delete('/schedules/:id', exportController.deleteSchedule);
+
+// GET clients, services, opportunities, tasks or the matrix as CSV or XLSX
+// (read access is checked against the access policy)
+router.get('/:entity', exportController.exportEntity);
+
+export default router;
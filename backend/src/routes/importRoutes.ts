@@ -0,0 +1,38 @@
+import express from 'express';
+import importController from '../controllers/importController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// Content types a file may be uploaded with; the file itself decides
+// whether it's read as CSV or XLSX
+const IMPORT_FILE_TYPES = [
+  'text/csv',
+  'application/csv',
+  'text/plain',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/octet-stream'
+];
+
+// Apply authentication middleware to all import routes
+router.use(authenticateToken);
+
+// POST read a file's rows without importing them
+router.post('/parse', express.raw({ type: IMPORT_FILE_TYPES, limit: '10mb' }), importController.parseFile);
+
+// GET the current user's saved column mapping for an entity
+router.get('/:entity/mapping', importController.getMapping);
+
+// PUT save the current user's column mapping for an entity
+router.put('/:entity/mapping', importController.saveMapping);
+
+// POST import a file of clients, services, opportunities or tasks
+// (per-row permissions are checked against the access policy)
+router.post(
+  '/:entity',
+  express.raw({ type: IMPORT_FILE_TYPES, limit: '10mb' }),
+  importController.importFile
+);
+
+export default router;
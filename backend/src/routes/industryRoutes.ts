@@ -19,7 +19,7 @@ router.post('/', isAdmin, industryController.createIndustry);
 // PUT update industry - Admin only
 router.put('/:id', isAdmin, industryController.updateIndustry);
 
-// DELETE industry - Admin only
+// DELETE industry - Admin only; ?reassignTo=<id> moves its clients and services first
 router.delete('/:id', isAdmin, industryController.deleteIndustry);
 
 // PATCH change industry status - Admin only
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import invitationController from '../controllers/invitationController';
+import { authenticateToken, isAdmin } from '../middleware/authMiddleware';
+
+const router = Router();
+
+/**
+ * Invitation Routes
+ * All routes require authentication and admin authorization
+ */
+router.use(authenticateToken, isAdmin);
+
+// Get invitations that haven't been accepted or revoked
+router.get('/', invitationController.getOpenInvitations);
+
+// Invite a user by email with a role
+router.post('/', invitationController.createInvitation);
+
+// Send a new link for an invitation
+router.post('/:id/resend', invitationController.resendInvitation);
+
+// Revoke an invitation
+router.delete('/:id', invitationController.revokeInvitation);
+
+export default router;
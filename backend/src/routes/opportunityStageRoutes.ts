@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import opportunityStageController from '../controllers/opportunityStageController';
+import { authenticateToken, isAdmin } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(authenticateToken);
+
+// Routes for all authenticated users (the opportunity forms need the graph)
+router.get('/', opportunityStageController.getStageRules);
+
+// Routes for Admin only
+router.put('/:status', isAdmin, opportunityStageController.updateStageRule);
+
+export default router;
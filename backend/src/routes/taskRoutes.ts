@@ -1,23 +1,10 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/authMiddleware';
+import { authorize } from '../middleware/policyMiddleware';
 import TaskController from '../controllers/taskController';
 
 const router = Router();
 
-// Custom middleware to check if user is Admin, BU Head, or Sales
-const isAdminOrBUHeadOrSales = (req: any, res: any, next: any): void => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-  
-  if (req.user.role === 'admin' || req.user.role === 'bu_head' || req.user.role === 'sales') {
-    next();
-  } else {
-    res.status(403).json({ message: 'Access denied: Admin, BU Head, or Sales privileges required' });
-  }
-};
-
 // Apply authentication middleware to all routes
 router.use(authenticateToken);
 
@@ -25,34 +12,10 @@ router.use(authenticateToken);
 router.get('/', TaskController.getAllTasks);
 
 // Get task statistics (Admin or BU Head only)
-router.get('/stats', (req, res, next) => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-  
-  if (req.user.role === 'admin' || req.user.role === 'bu_head') {
-    next();
-    return;
-  }
-  
-  res.status(403).json({ message: 'Access denied: Admin or BU Head privileges required' });
-  return;
-}, TaskController.getTaskStats);
+router.get('/stats', authorize('report', 'task'), TaskController.getTaskStats);
 
 // Get overdue tasks (Admin or BU Head only)
-router.get('/overdue', (req, res, next) => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-  
-  if (req.user.role === 'admin' || req.user.role === 'bu_head') {
-    next();
-  } else {
-    res.status(403).json({ message: 'Access denied: Admin or BU Head privileges required' });
-  }
-}, TaskController.getOverdueTasks);
+router.get('/overdue', authorize('report', 'task'), TaskController.getOverdueTasks);
 
 // Get tasks for current user
 router.get('/my-tasks', TaskController.getMyTasks);
@@ -63,27 +26,16 @@ router.get('/assigned-user/:userId', TaskController.getTasksByAssignedUser);
 // Get task by ID
 router.get('/:id', TaskController.getTaskById);
 
-// Create a new task (Admin, BU Head, or Sales only)
-router.post('/', isAdminOrBUHeadOrSales, TaskController.createTask);
+// Create a new task (Admin, BU Head within their business unit, or Sales on their own opportunities)
+router.post('/', authorize('create', 'task'), TaskController.createTask);
 
-// Update task
-router.put('/:id', TaskController.updateTask);
+// Update task (Admin, BU Head within their business unit, or the task's owner)
+router.put('/:id', authorize('update', 'task'), TaskController.updateTask);
 
 // Update task status
-router.patch('/:id/status', TaskController.updateTaskStatus);
+router.patch('/:id/status', authorize('update', 'task'), TaskController.updateTaskStatus);
 
-// Delete task (Admin or BU Head only)
-router.delete('/:id', (req, res, next) => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-  
-  if (req.user.role === 'admin' || req.user.role === 'bu_head') {
-    next();
-  } else {
-    res.status(403).json({ message: 'Access denied: Admin or BU Head privileges required' });
-  }
-}, TaskController.deleteTask);
+// Delete task (Admin, or BU Head within their business unit)
+router.delete('/:id', authorize('delete', 'task'), TaskController.deleteTask);
 
 export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import twoFactorPolicyController from '../controllers/twoFactorPolicyController';
+import { authenticateToken, isAdmin } from '../middleware/authMiddleware';
+
+const router = Router();
+
+/**
+ * Two-Factor Policy Routes
+ * All routes require authentication and admin authorization
+ */
+router.use(authenticateToken, isAdmin);
+
+// Get the roles that require two-factor authentication
+router.get('/', twoFactorPolicyController.getPolicy);
+
+// Set the roles that require two-factor authentication
+router.put('/', twoFactorPolicyController.updatePolicy);
+
+export default router;
@@ -6,22 +6,32 @@ const router = Router();
 
 /**
  * User Routes
- * All routes require authentication and admin authorization
+ * Reads are open to authenticated users, since owner and assignee pickers
+ * across the app list users; changes require admin authorization
  */
 
-// Get all users - Admin only
-router.get('/', authenticateToken, isAdmin, userController.getAllUsers);
+// Apply authentication middleware to all user routes
+router.use(authenticateToken);
 
-// Get user by ID - Admin only
-router.get('/:id', authenticateToken, isAdmin, userController.getUserById);
+// Get all users - Accessible to all authenticated users
+router.get('/', userController.getAllUsers);
+
+// Get user by ID - Accessible to all authenticated users
+router.get('/:id', userController.getUserById);
 
 // Create a new user - Admin only
-router.post('/', authenticateToken, isAdmin, userController.createUser);
+router.post('/', isAdmin, userController.createUser);
 
 // Update a user - Admin only
-router.put('/:id', authenticateToken, isAdmin, userController.updateUser);
+router.put('/:id', isAdmin, userController.updateUser);
+
+// Unlock a user locked out by failed logins - Admin only
+router.post('/:id/unlock', isAdmin, userController.unlockUser);
+
+// Turn off a user's two-factor authentication - Admin only
+router.post('/:id/reset-2fa', isAdmin, userController.resetTwoFactor);
 
 // Delete a user - Admin only
-router.delete('/:id', authenticateToken, isAdmin, userController.deleteUser);
+router.delete('/:id', isAdmin, userController.deleteUser);
 
-export default router;
\ No newline at end of file
+export default router;
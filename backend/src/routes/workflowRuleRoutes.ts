@@ -0,0 +1,26 @@
+import express from 'express';
+import workflowRuleController from '../controllers/workflowRuleController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { authorize } from '../middleware/policyMiddleware';
+
+const router = express.Router();
+
+// Apply authentication middleware to all workflow rule routes
+router.use(authenticateToken);
+
+// GET all workflow rules
+router.get('/', authorize('read', 'workflow_rule'), workflowRuleController.getAllRules);
+
+// GET workflow rule by ID
+router.get('/:id', authorize('read', 'workflow_rule'), workflowRuleController.getRuleById);
+
+// POST create new workflow rule
+router.post('/', authorize('create', 'workflow_rule'), workflowRuleController.createRule);
+
+// PUT update workflow rule
+router.put('/:id', authorize('update', 'workflow_rule'), workflowRuleController.updateRule);
+
+// DELETE workflow rule
+router.delete('/:id', authorize('delete', 'workflow_rule'), workflowRuleController.deleteRule);
+
+export default router;
@@ -0,0 +1,45 @@
+import migrationService from '../services/migrationService';
+
+/**
+ * Schema migration CLI:
+ *
+ *   npm run migrate up [version]   apply pending migrations (up to version)
+ *   npm run migrate down [steps]   revert the last migration (or the last `steps`)
+ *   npm run migrate status         list migrations and whether they're applied
+ */
+async function migrate(command: string | undefined, arg: string | undefined) {
+  const count = arg !== undefined ? parseInt(arg) : undefined;
+  if (count !== undefined && (isNaN(count) || count < 1)) {
+    throw new Error(`Expected a positive number, got "${arg}"`);
+  }
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrationService.up(count);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const reverted = await migrationService.down(count);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'No migrations to revert');
+      break;
+    }
+    case 'status': {
+      const status = await migrationService.getStatus();
+      status.forEach(migration => {
+        const state = migration.applied_at ? `applied ${new Date(migration.applied_at).toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(30)} ${state}`);
+      });
+      break;
+    }
+    default:
+      throw new Error('Usage: migrate <up [version] | down [steps] | status>');
+  }
+}
+
+migrate(process.argv[2], process.argv[3])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Migration failed:', error.message || error);
+    process.exit(1);
+  });
@@ -5,29 +5,30 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
-// Import models for database initialization
-import UserModel from './models/User';
-import ServiceModel from './models/Service';
-import ClientModel from './models/Client';
-import OpportunityModel from './models/Opportunity';
-import TaskModel from './models/Task';
-import NotificationModel from './models/Notification';
-import BusinessUnitModel from './models/BusinessUnit';
-import IndustryModel from './models/Industry';
-
 // Import workflow service
 import workflowService from './services/workflowService';
 import emailService from './services/emailService';
 import businessUnitService from './services/businessUnitService';
+import opportunityStageService from './services/opportunityStageService';
+import migrationService from './services/migrationService';
+import loginProtectionService from './services/loginProtectionService';
+import scheduledExportService from './services/scheduledExportService';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
 import serviceRoutes from './routes/serviceRoutes';
 import clientRoutes from './routes/clientRoutes';
 import opportunityRoutes from './routes/opportunityRoutes';
+import opportunityStageRoutes from './routes/opportunityStageRoutes';
 import taskRoutes from './routes/taskRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 import emailRoutes from './routes/emailRoutes';
+import workflowRuleRoutes from './routes/workflowRuleRoutes';
+import adminRoutes from './routes/adminRoutes';
+import importRoutes from './routes/importRoutes';
+import exportRoutes from './routes/exportRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
+import dashboardRoutes from './routes/dashboardRoutes';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -64,7 +65,7 @@ app.use(cors({
       console.log(`CORS blocked for origin: ${origin}`);
       return callback(new Error('CORS policy violation'), false);
     },
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true
 }));
@@ -77,14 +78,16 @@ app.use('/api/auth', authRoutes);
 app.use('/api/services', serviceRoutes);
 app.use('/api/clients', clientRoutes);
 app.use('/api/opportunities', opportunityRoutes);
+app.use('/api/opportunity-stages', opportunityStageRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/email', emailRoutes);
-
-// Admin routes (commented out until implemented)
-// app.use('/api/admin/business-units', businessUnitRoutes);
-// app.use('/api/admin/industries', industryRoutes);
-// app.use('/api/users', userRoutes);
+app.use('/api/workflow-rules', workflowRuleRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/import', importRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/dashboard', dashboardRoutes);
 
 // Basic route for testing
 app.get('/', (_req: Request, res: Response) => {
@@ -96,47 +99,76 @@ app.get('/api', (_req: Request, res: Response) => {
   res.json({ message: 'Wondrlab API is running correctly' });
 });
 
-// Initialize database tables
-const initDatabase = async () => {
+// Refuse to start against a database with pending migrations
+const checkMigrations = async () => {
   try {
-    await UserModel.createTable();
-    await ServiceModel.createTable();
-    await ClientModel.createTable();
-    await OpportunityModel.createTable();
-    await TaskModel.createTable();
-    await NotificationModel.createTable();
-    await BusinessUnitModel.createTable();
-    await IndustryModel.createTable();
-    console.log('All database tables initialized successfully');
+    await migrationService.assertUpToDate();
+    console.log('Database schema is up to date');
   } catch (error) {
-    console.error('Error initializing database tables:', error);
+    console.error('Cannot start server:', (error as Error).message);
     process.exit(1);
   }
 };
 
+// Tokens can't be signed or verified without a secret
+if (!process.env.JWT_SECRET) {
+  console.error('Cannot start server: JWT_SECRET is not set');
+  process.exit(1);
+}
+
 // Start server
-app.listen(PORT, async () => {
-  console.log(`Server running on port ${PORT}`);
-  
-  // Initialize database tables on server start
-  await initDatabase();
-  
-  // Initialize default business units
-  console.log('Initializing default business units...');
-  await businessUnitService.initDefaultBusinessUnits();
-  
-  // Run workflows immediately on server start
-  console.log('Running initial workflows...');
-  await workflowService.runWorkflows();
-  
-  // Schedule workflows to run every hour
-  const WORKFLOW_INTERVAL = 60 * 60 * 1000; // 1 hour in milliseconds
-  setInterval(async () => {
-    console.log('Running scheduled workflows...');
+checkMigrations().then(() => {
+  app.listen(PORT, async () => {
+    console.log(`Server running on port ${PORT}`);
+    
+    // Initialize default business units
+    console.log('Initializing default business units...');
+    await businessUnitService.initDefaultBusinessUnits();
+    
+    // Seed the opportunity stage graph for any stage without a rule
+    console.log('Initializing opportunity stage rules...');
+    await opportunityStageService.initDefaultStageRules();
+    
+    // Make sure every open task has its overdue check queued (covers tasks created before the queue existed)
+    console.log('Scheduling task overdue checks...');
+    await workflowService.scheduleOpenTaskChecks();
+    
+    // Likewise every engagement coming up for renewal has its renewal check queued
+    console.log('Scheduling renewal checks...');
+    await workflowService.scheduleRenewalChecks();
+    
+    // Run queued workflows immediately on server start
+    console.log('Running initial workflows...');
     await workflowService.runWorkflows();
-  }, WORKFLOW_INTERVAL);
-  
-  console.log(`Workflows scheduled to run every ${WORKFLOW_INTERVAL / 60000} minutes`);
+    
+    // Events are processed as they are emitted; the poll picks up delayed jobs and retries
+    const WORKFLOW_POLL_INTERVAL = 30 * 1000; // 30 seconds in milliseconds
+    setInterval(async () => {
+      await workflowService.processQueue();
+    }, WORKFLOW_POLL_INTERVAL);
+    
+    console.log(`Workflow queue polled every ${WORKFLOW_POLL_INTERVAL / 1000} seconds`);
+
+    // Old login failures no longer count towards the per-IP limit
+    const LOGIN_FAILURE_PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour in milliseconds
+    setInterval(async () => {
+      try {
+        await loginProtectionService.purgeOldFailures();
+      } catch (error) {
+        console.error('Error purging login failures:', error);
+      }
+    }, LOGIN_FAILURE_PURGE_INTERVAL);
+
+    // Weekly exports go out in the hour they're scheduled for
+    const SCHEDULED_EXPORT_POLL_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+    setInterval(async () => {
+      try {
+        await scheduledExportService.runDueExports();
+      } catch (error) {
+        console.error('Error sending scheduled exports:', error);
+      }
+    }, SCHEDULED_EXPORT_POLL_INTERVAL);
+  });
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { PoolClient } from 'pg';
+import db from '../config/database';
+import ClientModel, { Client, ClientInput } from '../models/Client';
+import ClientServiceModel from '../models/ClientService';
+import ClientServiceChurnModel, { ChurnReason, ClientServiceChurn } from '../models/ClientServiceChurn';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ChurnInput {
+  reason: ChurnReason;
+  notes?: string | null;
+  // Defaults to today
+  churned_on?: string | null;
+}
+
+export interface ChurnResult {
+  client: Client;
+  churn: ClientServiceChurn;
+  // Engagements ended on the churn date
+  ended_engagement_ids: number[];
+}
+
+export class ChurnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChurnError';
+  }
+}
+
+/**
+ * ClientChurnService records a client stopping a service: the service is
+ * taken off the client, its running engagements end and the churn is kept
+ * with its reason, so the matrix can show it as a win-back target.
+ */
+class ClientChurnService {
+  /**
+   * Check the reason and date given for a churn. NOT_RECORDED is kept for
+   * services dropped without going through churn, so it can't be chosen.
+   */
+  validate(input: Partial<ChurnInput>): void {
+    const reasons: ChurnReason[] = Object.values(ChurnReason).filter(reason => reason !== ChurnReason.NOT_RECORDED);
+
+    if (!input.reason || !reasons.includes(input.reason)) {
+      throw new ChurnError(`Reason must be one of: ${reasons.join(', ')}`);
+    }
+    if (input.churned_on && (!DATE_PATTERN.test(input.churned_on) || isNaN(Date.parse(input.churned_on)))) {
+      throw new ChurnError('Churn date must be a date (YYYY-MM-DD)');
+    }
+  }
+
+  /**
+   * Record that a client stopped using a service
+   */
+  async churn(clientId: number, serviceId: number, input: ChurnInput, recordedBy: number | null): Promise<ChurnResult> {
+    this.validate(input);
+
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await ClientModel.findByIdForUpdate(clientId, client);
+      if (!existing) {
+        throw new ChurnError('Client not found');
+      }
+      if (!(existing.services_used || []).includes(serviceId)) {
+        throw new ChurnError('The client does not use this service');
+      }
+
+      const churnedOn = input.churned_on || new Date().toISOString().slice(0, 10);
+
+      await ClientModel.removeService(clientId, serviceId, client);
+      const endedEngagementIds = await ClientServiceModel.endForService(clientId, serviceId, churnedOn, client);
+      const churn = await ClientServiceChurnModel.create({
+        client_id: clientId,
+        service_id: serviceId,
+        reason: input.reason,
+        notes: input.notes,
+        churned_on: churnedOn,
+        recorded_by: recordedBy
+      }, client);
+      const updated = await ClientModel.findById(clientId, client);
+
+      await client.query('COMMIT');
+
+      return { client: updated!, churn, ended_engagement_ids: endedEngagementIds };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (!(error instanceof ChurnError)) {
+        console.error('Error recording client churn:', error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a client, recording churn for any services dropped from its
+   * services list in the same transaction. Returns null if there was nothing
+   * to update or the client is gone.
+   */
+  async updateClient(clientId: number, data: Partial<ClientInput>, recordedBy: number | null): Promise<Client | null> {
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await ClientModel.findByIdForUpdate(clientId, client);
+      const updated = existing && await ClientModel.update(clientId, data, client);
+      if (!existing || !updated) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      // Services dropped here rather than through churn are still recorded as churned
+      const droppedServiceIds = (existing.services_used || [])
+        .filter(serviceId => !(updated.services_used || []).includes(serviceId));
+      await this.recordDropped(clientId, droppedServiceIds, recordedBy, client);
+
+      await client.query('COMMIT');
+      return updated;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error updating client:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record churn for services dropped from a client's services list by a
+   * plain client update, where no reason was given
+   */
+  async recordDropped(clientId: number, serviceIds: number[], recordedBy: number | null, client: PoolClient): Promise<void> {
+    for (const serviceId of serviceIds) {
+      await ClientServiceModel.endForService(clientId, serviceId, new Date().toISOString().slice(0, 10), client);
+      await ClientServiceChurnModel.create({
+        client_id: clientId,
+        service_id: serviceId,
+        reason: ChurnReason.NOT_RECORDED,
+        recorded_by: recordedBy
+      }, client);
+    }
+  }
+}
+
+// Export as singleton instance
+export default new ClientChurnService();
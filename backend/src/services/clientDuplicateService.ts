@@ -0,0 +1,171 @@
+import db from '../config/database';
+import ClientModel, { Client, ClientMatchCandidate } from '../models/Client';
+import ClientContactModel from '../models/ClientContact';
+import ClientServiceModel from '../models/ClientService';
+import ClientServiceChurnModel from '../models/ClientServiceChurn';
+import ClientMergeModel, { ClientMerge } from '../models/ClientMerge';
+import OpportunityModel from '../models/Opportunity';
+import { ClientMatchFields, ClientMatchIndex, ClientMatchReason } from '../utils/clientMatching';
+
+// Most likely duplicates returned for one client
+const MAX_DUPLICATES = 10;
+
+// Most duplicate pairs returned by the review list
+const MAX_DUPLICATE_PAIRS = 200;
+
+// A client that looks like a duplicate, with why
+export interface ClientDuplicate {
+  id: number;
+  name: string;
+  industry: string;
+  status: string;
+  contact_email: string;
+  contact_phone: string;
+  score: number;
+  reasons: ClientMatchReason[];
+}
+
+export interface ClientDuplicatePair {
+  client: ClientDuplicate;
+  duplicate: ClientDuplicate;
+  score: number;
+  reasons: ClientMatchReason[];
+}
+
+export interface ClientMergeResult {
+  client: Client;
+  merge: ClientMerge;
+}
+
+export class ClientMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClientMergeError';
+  }
+}
+
+const toDuplicate = (candidate: ClientMatchCandidate, score: number, reasons: ClientMatchReason[]): ClientDuplicate => ({
+  id: candidate.id,
+  name: candidate.name,
+  industry: candidate.industry,
+  status: candidate.status,
+  contact_email: candidate.contact_email,
+  contact_phone: candidate.contact_phone,
+  score,
+  reasons
+});
+
+/**
+ * ClientDuplicateService finds clients that are probably the same company
+ * entered twice, and merges such duplicates into one client
+ */
+class ClientDuplicateService {
+  /**
+   * Load every client into an index that new clients can be checked against
+   */
+  async buildIndex(): Promise<ClientMatchIndex<ClientMatchCandidate>> {
+    return new ClientMatchIndex(await ClientModel.findMatchCandidates());
+  }
+
+  /**
+   * Existing clients that look like the given client details
+   */
+  async findDuplicates(candidate: ClientMatchFields, excludeId?: number): Promise<ClientDuplicate[]> {
+    const index = await this.buildIndex();
+
+    return index.find(candidate, excludeId)
+      .slice(0, MAX_DUPLICATES)
+      .map(match => toDuplicate(match.client, match.score, match.reasons));
+  }
+
+  /**
+   * Other clients that look like an existing client, its contacts included
+   */
+  async findDuplicatesOf(clientId: number): Promise<ClientDuplicate[]> {
+    const index = await this.buildIndex();
+    const client = index.get(clientId);
+    if (!client) return [];
+
+    return index.find(client, clientId)
+      .slice(0, MAX_DUPLICATES)
+      .map(match => toDuplicate(match.client, match.score, match.reasons));
+  }
+
+  /**
+   * Every pair of likely duplicates, best match first, for admins to review
+   */
+  async findDuplicatePairs(): Promise<ClientDuplicatePair[]> {
+    const index = await this.buildIndex();
+
+    return index.pairs()
+      .slice(0, MAX_DUPLICATE_PAIRS)
+      .map(pair => ({
+        client: toDuplicate(pair.client, pair.score, pair.reasons),
+        duplicate: toDuplicate(pair.duplicate, pair.score, pair.reasons),
+        score: pair.score,
+        reasons: pair.reasons
+      }));
+  }
+
+  /**
+   * Merge a duplicate client into the surviving one, in one transaction:
+   * the duplicate's opportunities and contacts move to the survivor, its
+   * services are added to the survivor's, it is soft deleted, and an audit
+   * record keeps a snapshot of it and what was moved
+   */
+  async merge(survivorId: number, duplicateId: number, mergedBy: number): Promise<ClientMergeResult> {
+    if (survivorId === duplicateId) {
+      throw new ClientMergeError('A client cannot be merged into itself');
+    }
+
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock in ID order so two merges of the same pair can't deadlock
+      const [firstId, secondId] = [survivorId, duplicateId].sort((a, b) => a - b);
+      const first = await ClientModel.findByIdForUpdate(firstId, client);
+      const second = await ClientModel.findByIdForUpdate(secondId, client);
+      const survivor = first?.id === survivorId ? first : second;
+      const duplicate = first?.id === duplicateId ? first : second;
+
+      if (!survivor || !duplicate) {
+        throw new ClientMergeError('Both clients must exist and not be deleted');
+      }
+
+      const opportunityIds = await OpportunityModel.reassignClient(duplicate.id, survivor.id, client);
+      const contactIds = await ClientContactModel.moveToClient(duplicate.id, survivor.id, client);
+      await ClientServiceModel.moveToClient(duplicate.id, survivor.id, client);
+      await ClientServiceChurnModel.moveToClient(duplicate.id, survivor.id, client);
+      const addedServiceIds = await ClientModel.mergeInto(survivor.id, duplicate.id, client);
+
+      const merge = await ClientMergeModel.create({
+        surviving_client_id: survivor.id,
+        merged_client_id: duplicate.id,
+        merged_by: mergedBy,
+        merged_client: duplicate,
+        opportunity_ids: opportunityIds,
+        contact_ids: contactIds,
+        added_service_ids: addedServiceIds
+      }, client);
+
+      const merged = await ClientModel.findById(survivor.id, client);
+
+      await client.query('COMMIT');
+
+      return { client: merged!, merge };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (!(error instanceof ClientMergeError)) {
+        console.error('Error merging clients:', error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Export as singleton instance
+export default new ClientDuplicateService();
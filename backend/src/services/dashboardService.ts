@@ -0,0 +1,199 @@
+import DashboardModel, { ESCALATION_DAYS, TOP_REP_DAYS } from '../models/Dashboard';
+import DashboardLayoutModel from '../models/DashboardLayout';
+import { UserRole } from '../models/User';
+import { resolvePolicyUser } from '../middleware/policyMiddleware';
+
+export type DashboardCardId =
+  | 'my_pipeline'
+  | 'my_tasks'
+  | 'white_space'
+  | 'bu_pipeline'
+  | 'top_reps'
+  | 'overdue_escalations'
+  | 'org_totals'
+  | 'trends';
+
+// The user a dashboard is built for; businessUnitIds are null for "every business unit"
+interface DashboardUser {
+  userId: number;
+  role: UserRole;
+  businessUnitIds: number[] | null;
+}
+
+interface DashboardCardDefinition {
+  title: string;
+  description: string;
+  roles: UserRole[];
+  load: (user: DashboardUser) => Promise<unknown>;
+}
+
+export interface DashboardCardInfo {
+  id: DashboardCardId;
+  title: string;
+  description: string;
+}
+
+export interface DashboardCard {
+  id: DashboardCardId;
+  title: string;
+  data: unknown;
+  // Set instead of data when the card couldn't be loaded
+  error?: string;
+}
+
+export interface Dashboard {
+  layout: DashboardCardId[];
+  // Whether the layout is the user's own rather than their role's default
+  customized: boolean;
+  available: DashboardCardInfo[];
+  cards: DashboardCard[];
+}
+
+export class DashboardLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DashboardLayoutError';
+  }
+}
+
+/**
+ * Every dashboard card, with the roles that can add it. Cards about a
+ * business unit cover the units a BU Head heads, and every unit for
+ * everyone else.
+ */
+const DASHBOARD_CARDS: Record<DashboardCardId, DashboardCardDefinition> = {
+  my_pipeline: {
+    title: 'My Pipeline',
+    description: 'Your open opportunities by stage, and those due soonest',
+    roles: [UserRole.ADMIN, UserRole.SALES, UserRole.BU_HEAD],
+    load: user => DashboardModel.getMyPipeline(user.userId)
+  },
+  my_tasks: {
+    title: 'My Tasks This Week',
+    description: 'Your unfinished tasks due by the end of the week, overdue ones included',
+    roles: [UserRole.ADMIN, UserRole.SALES, UserRole.BU_HEAD],
+    load: user => DashboardModel.getTasksDueThisWeek(user.userId)
+  },
+  white_space: {
+    title: 'White Space',
+    description: "Services your clients don't use and have no opportunity for yet",
+    roles: [UserRole.ADMIN, UserRole.SALES, UserRole.BU_HEAD],
+    load: user => DashboardModel.getWhiteSpace(user.userId)
+  },
+  bu_pipeline: {
+    title: 'Business Unit Pipeline',
+    description: 'Open pipeline per business unit and stage',
+    roles: [UserRole.ADMIN, UserRole.BU_HEAD, UserRole.SENIOR_MANAGEMENT],
+    load: user => DashboardModel.getBusinessUnitPipeline(user.businessUnitIds)
+  },
+  top_reps: {
+    title: 'Top Reps',
+    description: `Most won value over the last ${TOP_REP_DAYS} days`,
+    roles: [UserRole.ADMIN, UserRole.BU_HEAD, UserRole.SENIOR_MANAGEMENT],
+    load: user => DashboardModel.getTopReps(user.businessUnitIds)
+  },
+  overdue_escalations: {
+    title: 'Overdue Escalations',
+    description: `Overdue tasks, most overdue first; ${ESCALATION_DAYS} or more days overdue is escalated`,
+    roles: [UserRole.ADMIN, UserRole.BU_HEAD, UserRole.SENIOR_MANAGEMENT],
+    load: user => DashboardModel.getOverdueEscalations(user.businessUnitIds)
+  },
+  org_totals: {
+    title: 'Organisation Totals',
+    description: 'Clients, services, opportunities and tasks across the organisation',
+    roles: [UserRole.ADMIN, UserRole.SENIOR_MANAGEMENT],
+    load: () => DashboardModel.getOrgTotals()
+  },
+  trends: {
+    title: 'Trends',
+    description: 'New clients, new opportunities and wins over the last six months',
+    roles: [UserRole.ADMIN, UserRole.SENIOR_MANAGEMENT],
+    load: () => DashboardModel.getTrends()
+  }
+};
+
+// What each role sees until they change it
+const DEFAULT_LAYOUTS: Record<UserRole, DashboardCardId[]> = {
+  [UserRole.SALES]: ['my_pipeline', 'my_tasks', 'white_space'],
+  [UserRole.BU_HEAD]: ['bu_pipeline', 'top_reps', 'overdue_escalations', 'my_tasks'],
+  [UserRole.SENIOR_MANAGEMENT]: ['org_totals', 'trends', 'bu_pipeline', 'top_reps'],
+  [UserRole.ADMIN]: ['org_totals', 'trends', 'bu_pipeline', 'overdue_escalations']
+};
+
+/**
+ * DashboardService builds each user's dashboard from the cards their role
+ * can see, in the order they chose
+ */
+class DashboardService {
+  /**
+   * The cards a role can add to its dashboard
+   */
+  getAvailableCards(role: UserRole): DashboardCardInfo[] {
+    return (Object.keys(DASHBOARD_CARDS) as DashboardCardId[])
+      .filter(id => DASHBOARD_CARDS[id].roles.includes(role))
+      .map(id => ({ id, title: DASHBOARD_CARDS[id].title, description: DASHBOARD_CARDS[id].description }));
+  }
+
+  /**
+   * The user's cards in order, with their data
+   */
+  async getDashboard(user: { userId: number; role: UserRole }): Promise<Dashboard> {
+    const available = this.getAvailableCards(user.role);
+    const saved = await DashboardLayoutModel.findByUser(user.userId);
+    // Cards the role can no longer see (e.g. after a role change) are dropped
+    const layout = saved
+      ? saved.cards.filter((id): id is DashboardCardId => available.some(card => card.id === id))
+      : DEFAULT_LAYOUTS[user.role] || [];
+
+    const policyUser = await resolvePolicyUser(user);
+    const dashboardUser: DashboardUser = {
+      userId: user.userId,
+      role: user.role,
+      businessUnitIds: user.role === UserRole.BU_HEAD ? policyUser.businessUnitIds : null
+    };
+
+    // One card failing shouldn't take the rest of the dashboard down
+    const cards = await Promise.all(layout.map(async (id): Promise<DashboardCard> => {
+      const definition = DASHBOARD_CARDS[id];
+      try {
+        return { id, title: definition.title, data: await definition.load(dashboardUser) };
+      } catch (error) {
+        console.error(`Error loading dashboard card ${id}:`, error);
+        return { id, title: definition.title, data: null, error: 'This card could not be loaded' };
+      }
+    }));
+
+    return { layout, customized: !!saved, available, cards };
+  }
+
+  /**
+   * Save which cards the user shows and in what order. Throws
+   * DashboardLayoutError for cards their role can't see.
+   */
+  async saveLayout(user: { userId: number; role: UserRole }, cards: unknown): Promise<void> {
+    if (!Array.isArray(cards) || cards.some(id => typeof id !== 'string')) {
+      throw new DashboardLayoutError('cards must be a list of card IDs');
+    }
+
+    const available = this.getAvailableCards(user.role).map(card => card.id as string);
+    const unknown = cards.filter(id => !available.includes(id));
+    if (unknown.length > 0) {
+      throw new DashboardLayoutError(`Cards not available to you: ${unknown.join(', ')}`);
+    }
+    if (new Set(cards).size !== cards.length) {
+      throw new DashboardLayoutError('Each card can only be shown once');
+    }
+
+    await DashboardLayoutModel.save(user.userId, cards);
+  }
+
+  /**
+   * Go back to the role's default cards
+   */
+  async resetLayout(userId: number): Promise<void> {
+    await DashboardLayoutModel.delete(userId);
+  }
+}
+
+// Export as singleton instance
+export default new DashboardService();
@@ -3,6 +3,12 @@ import handlebars from 'handlebars';
 import fs from 'fs';
 import path from 'path';
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
 export interface EmailOptions {
   to: string | string[];
   subject: string;
@@ -10,8 +16,13 @@ export interface EmailOptions {
   data?: any;
   html?: string;
   text?: string;
+  attachments?: EmailAttachment[];
 }
 
+// 'skipped' means there was nothing to send: email is switched off or the
+// recipients opted out
+export type EmailResult = 'sent' | 'skipped' | 'failed';
+
 export interface EmailConfig {
   host: string;
   port: number;
@@ -115,7 +126,8 @@ class EmailService {
         replyTo: this.replyTo,
         subject: options.subject,
         html: htmlContent,
-        text: options.text || ''
+        text: options.text || '',
+        attachments: options.attachments
       };
 
       const result = await this.transporter.sendMail(mailOptions);
@@ -156,6 +168,14 @@ class EmailService {
     }
   }
 
+  // Like sendEmail, but tells a disabled service apart from a failed send
+  private async deliver(options: EmailOptions): Promise<EmailResult> {
+    if (await this.sendEmail(options)) {
+      return 'sent';
+    }
+    return this.isEnabled ? 'failed' : 'skipped';
+  }
+
   // Check if user can receive this type of email
   async canSendToUser(userId: number, emailType: string): Promise<boolean> {
     try {
@@ -168,13 +188,13 @@ class EmailService {
   }
 
   // Convenience methods for common email types
-  async sendTaskAssignmentEmail(assignedUserEmail: string, taskData: any, userId?: number): Promise<boolean> {
+  async sendTaskAssignmentEmail(assignedUserEmail: string, taskData: any, userId?: number): Promise<EmailResult> {
     if (userId && !(await this.canSendToUser(userId, 'task_assignment'))) {
       console.log(`User ${userId} has disabled task assignment emails`);
-      return false;
+      return 'skipped';
     }
 
-    return this.sendEmail({
+    return this.deliver({
       to: assignedUserEmail,
       subject: `New Task Assigned: ${taskData.name}`,
       template: 'task-assignment',
@@ -182,13 +202,13 @@ class EmailService {
     });
   }
 
-  async sendTaskOverdueEmail(assignedUserEmail: string, taskData: any, userId?: number): Promise<boolean> {
+  async sendTaskOverdueEmail(assignedUserEmail: string, taskData: any, userId?: number): Promise<EmailResult> {
     if (userId && !(await this.canSendToUser(userId, 'task_overdue'))) {
       console.log(`User ${userId} has disabled task overdue emails`);
-      return false;
+      return 'skipped';
     }
 
-    return this.sendEmail({
+    return this.deliver({
       to: assignedUserEmail,
       subject: `Task Overdue: ${taskData.name}`,
       template: 'task-overdue',
@@ -196,13 +216,13 @@ class EmailService {
     });
   }
 
-  async sendTaskEscalationEmail(buHeadEmail: string, taskData: any, userId?: number): Promise<boolean> {
+  async sendTaskEscalationEmail(buHeadEmail: string, taskData: any, userId?: number): Promise<EmailResult> {
     if (userId && !(await this.canSendToUser(userId, 'task_escalation'))) {
       console.log(`User ${userId} has disabled task escalation emails`);
-      return false;
+      return 'skipped';
     }
 
-    return this.sendEmail({
+    return this.deliver({
       to: buHeadEmail,
       subject: `Task Escalation: ${taskData.name}`,
       template: 'task-escalation',
@@ -210,7 +230,7 @@ class EmailService {
     });
   }
 
-  async sendOpportunityWonEmail(recipients: string[], opportunityData: any, userIds?: number[]): Promise<boolean> {
+  async sendOpportunityWonEmail(recipients: string[], opportunityData: any, userIds?: number[]): Promise<EmailResult> {
     // Filter recipients based on preferences if user IDs are provided
     if (userIds && userIds.length === recipients.length) {
       const filteredRecipients: string[] = [];
@@ -222,13 +242,13 @@ class EmailService {
       
       if (filteredRecipients.length === 0) {
         console.log('All users have disabled opportunity won emails');
-        return false;
+        return 'skipped';
       }
       
       recipients = filteredRecipients;
     }
 
-    return this.sendEmail({
+    return this.deliver({
       to: recipients,
       subject: `Opportunity Won: ${opportunityData.name}`,
       template: 'opportunity-won',
@@ -236,13 +256,13 @@ class EmailService {
     });
   }
 
-  async sendDailyDigestEmail(recipientEmail: string, digestData: any, userId?: number): Promise<boolean> {
+  async sendDailyDigestEmail(recipientEmail: string, digestData: any, userId?: number): Promise<EmailResult> {
     if (userId && !(await this.canSendToUser(userId, 'daily_digest'))) {
       console.log(`User ${userId} has disabled daily digest emails`);
-      return false;
+      return 'skipped';
     }
 
-    return this.sendEmail({
+    return this.deliver({
       to: recipientEmail,
       subject: 'Daily Digest - WondrlabApp',
       template: 'daily-digest',
@@ -250,6 +270,38 @@ class EmailService {
     });
   }
 
+  // Invitations go to people without an account yet, so there are no
+  // preferences to check
+  async sendInvitationEmail(recipientEmail: string, invitationData: any): Promise<boolean> {
+    return this.sendEmail({
+      to: recipientEmail,
+      subject: 'You have been invited to WondrlabApp',
+      template: 'user-invitation',
+      data: invitationData
+    });
+  }
+
+  // Account security emails ignore preferences; they're only sent on request
+  async sendPasswordResetEmail(recipientEmail: string, resetData: any): Promise<boolean> {
+    return this.sendEmail({
+      to: recipientEmail,
+      subject: 'Reset your WondrlabApp password',
+      template: 'password-reset',
+      data: resetData
+    });
+  }
+
+  // Users schedule these exports for themselves, so preferences don't apply
+  async sendScheduledExportEmail(recipientEmail: string, exportData: any, attachment: EmailAttachment): Promise<boolean> {
+    return this.sendEmail({
+      to: recipientEmail,
+      subject: `Your weekly export: ${exportData.name}`,
+      template: 'scheduled-export',
+      data: exportData,
+      attachments: [attachment]
+    });
+  }
+
   // Test email functionality
   async sendTestEmail(to: string): Promise<boolean> {
     return this.sendEmail({
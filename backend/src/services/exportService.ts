@@ -0,0 +1,398 @@
+import { Request } from 'express';
+import ClientModel, { CLIENT_LIST_CONFIG, ClientListItem } from '../models/Client';
+import ServiceModel, { SERVICE_LIST_CONFIG, Service } from '../models/Service';
+import OpportunityModel, {
+  MAX_MATRIX_COLUMNS,
+  MAX_MATRIX_ROWS,
+  MatrixCell,
+  MatrixWindow,
+  OPPORTUNITY_LIST_CONFIG,
+  OpportunityListItem,
+  parseMatrixFilters
+} from '../models/Opportunity';
+import TaskModel, { TASK_LIST_CONFIG, Task } from '../models/Task';
+import { PolicyResource } from '../policies/accessPolicy';
+import { toCsvLine } from '../utils/csv';
+import { ListQuery, ListQueryConfig, MAX_PAGE_SIZE, PaginatedResult, parseListQuery } from '../utils/listQuery';
+import { buildXlsx, XlsxCell } from '../utils/xlsx';
+
+export type ExportEntity = 'clients' | 'services' | 'opportunities' | 'tasks' | 'matrix';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_ENTITIES: ExportEntity[] = ['clients', 'services', 'opportunities', 'tasks', 'matrix'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+// The access policy resource each export is checked against
+export const EXPORT_RESOURCES: Record<ExportEntity, PolicyResource> = {
+  clients: 'client',
+  services: 'service',
+  opportunities: 'opportunity',
+  tasks: 'task',
+  matrix: 'opportunity'
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Most rows (or matrix clients) one export holds; workbooks are built in memory
+export const MAX_EXPORT_ROWS = 50000;
+
+// Lists hold values; names in a list are separated the way imports read them
+const LIST_SEPARATOR = '; ';
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+/**
+ * One table of an export: a sheet of a workbook, or the whole of a CSV file
+ */
+export interface ExportTable {
+  name: string;
+  headers: string[];
+  // Rows in batches, so large exports can be streamed
+  batches: AsyncGenerator<XlsxCell[][]>;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => XlsxCell;
+}
+
+// "in_progress" -> "In Progress"; imports read such labels back
+const toLabel = (value: string | null | undefined): string =>
+  (value || '').split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+// Columns are named like the import fields, so an export can be edited and imported again
+const CLIENT_COLUMNS: ExportColumn<ClientListItem>[] = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Name', value: row => row.name },
+  { header: 'Industry', value: row => row.industry },
+  { header: 'Contact Name', value: row => row.contact_name },
+  { header: 'Contact Email', value: row => row.contact_email },
+  { header: 'Contact Phone', value: row => row.contact_phone },
+  { header: 'Address', value: row => row.address },
+  { header: 'Account Owner', value: row => row.account_owner_name },
+  { header: 'Services Used', value: row => (row.service_names || []).join(LIST_SEPARATOR) },
+  { header: 'CRM Link', value: row => row.crm_link },
+  { header: 'Notes', value: row => row.notes },
+  { header: 'Status', value: row => toLabel(row.status) },
+  { header: 'Created At', value: row => row.created_at }
+];
+
+const SERVICE_COLUMNS: ExportColumn<Service>[] = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Name', value: row => row.name },
+  { header: 'Business Unit', value: row => row.business_unit },
+  { header: 'Description', value: row => row.description },
+  { header: 'Pricing Model', value: row => row.pricing_model },
+  { header: 'Pricing Details', value: row => row.pricing_details },
+  { header: 'Applicable Industries', value: row => (row.applicable_industries || []).join(LIST_SEPARATOR) },
+  { header: 'Client Role', value: row => row.client_role },
+  { header: 'Status', value: row => toLabel(row.status) },
+  { header: 'Created At', value: row => row.created_at }
+];
+
+const OPPORTUNITY_COLUMNS: ExportColumn<OpportunityListItem>[] = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Name', value: row => row.name },
+  { header: 'Client', value: row => row.client_name },
+  { header: 'Service', value: row => row.service_name },
+  { header: 'Business Unit', value: row => row.business_unit },
+  { header: 'Assigned User', value: row => row.assigned_user_name },
+  { header: 'Status', value: row => toLabel(row.status) },
+  { header: 'Priority', value: row => toLabel(row.priority) },
+  { header: 'Estimated Value', value: row => toNumber(row.estimated_value) },
+  { header: 'Due Date', value: row => row.due_date },
+  { header: 'Won Date', value: row => row.won_date },
+  { header: 'Final Value', value: row => toNumber(row.final_value) },
+  { header: 'Loss Reason', value: row => row.loss_reason },
+  { header: 'Notes', value: row => row.notes },
+  { header: 'Created At', value: row => row.created_at }
+];
+
+// Task pages come with the names of what each task belongs to
+type TaskListItem = Task & {
+  opportunity_name: string;
+  client_name: string;
+  service_name: string;
+  business_unit: string;
+  assigned_user_name: string;
+};
+
+const TASK_COLUMNS: ExportColumn<TaskListItem>[] = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Name', value: row => row.name },
+  { header: 'Opportunity', value: row => row.opportunity_name },
+  { header: 'Client', value: row => row.client_name },
+  { header: 'Service', value: row => row.service_name },
+  { header: 'Business Unit', value: row => row.business_unit },
+  { header: 'Assigned User', value: row => row.assigned_user_name },
+  { header: 'Status', value: row => toLabel(row.status) },
+  { header: 'Due Date', value: row => row.due_date },
+  { header: 'Description', value: row => row.description },
+  { header: 'Created At', value: row => row.created_at }
+];
+
+const EXPORT_LIST_CONFIGS: Record<Exclude<ExportEntity, 'matrix'>, ListQueryConfig> = {
+  clients: CLIENT_LIST_CONFIG,
+  services: SERVICE_LIST_CONFIG,
+  opportunities: OPPORTUNITY_LIST_CONFIG,
+  tasks: TASK_LIST_CONFIG
+};
+
+// CSV has no cell types, so dates are written out as text
+const toCsvValue = (value: XlsxCell): string | number | null | undefined => {
+  if (!(value instanceof Date)) return value;
+  if (isNaN(value.getTime())) return '';
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+  return hasTime ? `${date} ${pad(value.getHours())}:${pad(value.getMinutes())}` : date;
+};
+
+const today = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * A list export: the same filters, search and sort as the list view, read a
+ * page at a time. The first page is read up front so a bad query or an
+ * oversized export fails before anything is sent.
+ */
+const listTable = async <T>(
+  name: string,
+  columns: ExportColumn<T>[],
+  config: ListQueryConfig,
+  findPage: (listQuery: ListQuery) => Promise<PaginatedResult<T>>,
+  query: Request['query']
+): Promise<ExportTable> => {
+  const listQuery = { ...parseListQuery(query, config), pageSize: MAX_PAGE_SIZE };
+  const first = await findPage({ ...listQuery, page: 1 });
+
+  if (first.pagination.total > MAX_EXPORT_ROWS) {
+    throw new ExportError(
+      `This export has ${first.pagination.total} rows; narrow the filters to at most ${MAX_EXPORT_ROWS}`
+    );
+  }
+
+  const toRows = (rows: T[]) => rows.map(row => columns.map(column => column.value(row)));
+
+  async function* batches(): AsyncGenerator<XlsxCell[][]> {
+    yield toRows(first.data);
+    for (let page = 2; page <= first.pagination.totalPages; page++) {
+      const result = await findPage({ ...listQuery, page });
+      yield toRows(result.data);
+    }
+  }
+
+  return { name, headers: columns.map(column => column.header), batches: batches() };
+};
+
+// Text for a matrix cell, e.g. "Proposal" or "Active"
+const describeMatrixCell = (cell: MatrixCell | undefined): string => cell ? toLabel(cell.status) : '';
+
+/**
+ * Read the whole cross-sell matrix for the filters, one window at a time
+ */
+const loadMatrix = async (query: Request['query']): Promise<MatrixWindow> => {
+  const filters = parseMatrixFilters(query);
+  const window = { rowOffset: 0, rowLimit: MAX_MATRIX_ROWS, columnOffset: 0, columnLimit: MAX_MATRIX_COLUMNS };
+  const first = await OpportunityModel.getMatrixWindow(filters, window);
+
+  if (first.total_clients > MAX_EXPORT_ROWS) {
+    throw new ExportError(
+      `This matrix has ${first.total_clients} clients; narrow the filters to at most ${MAX_EXPORT_ROWS}`
+    );
+  }
+
+  const matrix: MatrixWindow = { ...first, matrix: { ...first.matrix } };
+  for (let rowOffset = 0; rowOffset < first.total_clients; rowOffset += MAX_MATRIX_ROWS) {
+    for (let columnOffset = 0; columnOffset < first.total_services; columnOffset += MAX_MATRIX_COLUMNS) {
+      if (rowOffset === 0 && columnOffset === 0) continue;
+
+      const part = await OpportunityModel.getMatrixWindow(filters, { ...window, rowOffset, columnOffset });
+      if (columnOffset === 0) matrix.clients.push(...part.clients);
+      if (rowOffset === 0) matrix.services.push(...part.services);
+      Object.entries(part.matrix).forEach(([clientId, cells]) => {
+        matrix.matrix[Number(clientId)] = { ...matrix.matrix[Number(clientId)], ...cells };
+      });
+    }
+  }
+
+  return matrix;
+};
+
+/**
+ * The cross-sell matrix: in a workbook, one sheet per business unit with a
+ * row per client and a column per service; in CSV, a row per non-empty cell
+ */
+const matrixTables = async (format: ExportFormat, query: Request['query']): Promise<ExportTable[]> => {
+  const { clients, services, matrix } = await loadMatrix(query);
+
+  const single = (rows: XlsxCell[][]) => (async function* () {
+    yield rows;
+  })();
+
+  if (format === 'csv') {
+    const rows: XlsxCell[][] = [];
+    clients.forEach(client => {
+      services.forEach(service => {
+        const cell = matrix[client.id]?.[service.id];
+        if (!cell) return;
+        rows.push([
+          client.name,
+          client.industry,
+          service.business_unit,
+          service.name,
+          describeMatrixCell(cell),
+          cell.open_stage ? toLabel(cell.open_stage) : '',
+          cell.won_count,
+          cell.lost_count,
+          cell.opportunity_name,
+          cell.revenue?.lifetime_revenue ?? null,
+          cell.revenue?.annual_recurring_revenue ?? null
+        ]);
+      });
+    });
+
+    return [{
+      name: 'Matrix',
+      headers: [
+        'Client', 'Industry', 'Business Unit', 'Service', 'Status', 'Open Stage', 'Won', 'Lost', 'Lead Opportunity',
+        'Lifetime Revenue', 'Annual Recurring Revenue'
+      ],
+      batches: single(rows)
+    }];
+  }
+
+  // Services come ordered by business unit
+  const businessUnits = new Map<string, typeof services>();
+  services.forEach(service => {
+    const name = service.business_unit || 'No Business Unit';
+    businessUnits.set(name, [...(businessUnits.get(name) || []), service]);
+  });
+
+  return [...businessUnits.entries()].map(([name, unitServices]) => ({
+    name,
+    headers: ['Client', 'Industry', ...unitServices.map(service => service.name)],
+    batches: single(clients.map(client => [
+      client.name,
+      client.industry,
+      ...unitServices.map(service => describeMatrixCell(matrix[client.id]?.[service.id]))
+    ]))
+  }));
+};
+
+/**
+ * ExportService writes clients, services, opportunities, tasks and the
+ * cross-sell matrix to CSV or XLSX, with names in place of IDs
+ */
+class ExportService {
+  /**
+   * Check an export's filter params without running it; throws
+   * ListQueryError for invalid ones
+   */
+  validateQuery(entity: ExportEntity, query: Request['query']): void {
+    if (entity === 'matrix') {
+      parseMatrixFilters(query);
+    } else {
+      parseListQuery(query, EXPORT_LIST_CONFIGS[entity]);
+    }
+  }
+
+  /**
+   * The tables of an export. Throws ListQueryError for invalid filters and
+   * ExportError for exports that are too large.
+   */
+  async getTables(entity: ExportEntity, format: ExportFormat, query: Request['query']): Promise<ExportTable[]> {
+    switch (entity) {
+      case 'clients':
+        return [await listTable('Clients', CLIENT_COLUMNS, CLIENT_LIST_CONFIG, q => ClientModel.findPage(q), query)];
+      case 'services':
+        return [await listTable('Services', SERVICE_COLUMNS, SERVICE_LIST_CONFIG, q => ServiceModel.findPage(q), query)];
+      case 'opportunities':
+        return [await listTable(
+          'Opportunities', OPPORTUNITY_COLUMNS, OPPORTUNITY_LIST_CONFIG, q => OpportunityModel.findPage(q), query
+        )];
+      case 'tasks':
+        return [await listTable(
+          'Tasks', TASK_COLUMNS, TASK_LIST_CONFIG, q => TaskModel.findPage(q) as Promise<PaginatedResult<TaskListItem>>, query
+        )];
+      case 'matrix':
+        return matrixTables(format, query);
+    }
+  }
+
+  /**
+   * File name for an export made today, e.g. opportunities_2024-05-01.xlsx
+   */
+  getFilename(entity: ExportEntity, format: ExportFormat): string {
+    return `${entity}_${today()}.${format}`;
+  }
+
+  /**
+   * Write a table as CSV, a batch of lines at a time, starting with a byte
+   * order mark so Excel reads the file as UTF-8
+   */
+  async writeCsv(table: ExportTable, write: (chunk: string) => Promise<void> | void): Promise<void> {
+    await write('\ufeff' + toCsvLine(table.headers));
+    for await (const rows of table.batches) {
+      await write(rows.map(row => toCsvLine(row.map(toCsvValue))).join(''));
+    }
+  }
+
+  /**
+   * Build a whole export file in memory, e.g. to attach it to an email
+   */
+  async buildFile(entity: ExportEntity, format: ExportFormat, query: Request['query']): Promise<ExportFile> {
+    const tables = await this.getTables(entity, format, query);
+    let content: Buffer;
+
+    if (format === 'csv') {
+      const chunks: string[] = [];
+      await this.writeCsv(tables[0], chunk => {
+        chunks.push(chunk);
+      });
+      content = Buffer.from(chunks.join(''), 'utf8');
+    } else {
+      content = await this.buildWorkbook(tables);
+    }
+
+    return { filename: this.getFilename(entity, format), contentType: EXPORT_CONTENT_TYPES[format], content };
+  }
+
+  /**
+   * Read every table into a workbook, one sheet each
+   */
+  async buildWorkbook(tables: ExportTable[]): Promise<Buffer> {
+    const sheets = [];
+    for (const table of tables) {
+      const rows: XlsxCell[][] = [table.headers];
+      for await (const batch of table.batches) {
+        rows.push(...batch);
+      }
+      sheets.push({ name: table.name, rows });
+    }
+    return buildXlsx(sheets);
+  }
+}
+
+// Export as singleton instance
+export default new ExportService();
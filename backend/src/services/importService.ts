@@ -0,0 +1,761 @@
+import { PoolClient } from 'pg';
+import db from '../config/database';
+import ClientModel, { Client, ClientInput, ClientMatchCandidate, ClientStatus } from '../models/Client';
+import ClientContactModel from '../models/ClientContact';
+import ServiceModel, { Service, ServiceInput, ServiceStatus } from '../models/Service';
+import OpportunityModel, { Opportunity, OpportunityInput, OpportunityPriority, OpportunityStatus } from '../models/Opportunity';
+import OpportunityStatusHistoryModel from '../models/OpportunityStatusHistory';
+import TaskModel, { Task, TaskInput, TaskStatus } from '../models/Task';
+import IndustryModel from '../models/Industry';
+import BusinessUnitModel from '../models/BusinessUnit';
+import UserModel, { UserRole } from '../models/User';
+import WorkflowJobModel, { WorkflowEventType } from '../models/WorkflowJob';
+import { can, PolicyResource, PolicyUser } from '../policies/accessPolicy';
+import { resolvePolicyUser, toPolicyRecord } from '../middleware/policyMiddleware';
+import opportunityStageService from './opportunityStageService';
+import workflowService from './workflowService';
+import clientDuplicateService from './clientDuplicateService';
+import { ClientMatchIndex } from '../utils/clientMatching';
+import { parseCsv } from '../utils/csv';
+import { excelSerialToDate, isZip, parseXlsx } from '../utils/xlsx';
+
+export type ImportEntity = 'clients' | 'services' | 'opportunities' | 'tasks';
+
+/**
+ * What to do with a row that matches an existing record: insert reports it
+ * as an error, upsert updates the record, skip leaves it alone
+ */
+export type ImportMode = 'insert' | 'upsert' | 'skip';
+
+export const IMPORT_ENTITIES: ImportEntity[] = ['clients', 'services', 'opportunities', 'tasks'];
+export const IMPORT_MODES: ImportMode[] = ['insert', 'upsert', 'skip'];
+
+// The access policy resource each entity is checked against
+export const IMPORT_RESOURCES: Record<ImportEntity, PolicyResource> = {
+  clients: 'client',
+  services: 'service',
+  opportunities: 'opportunity',
+  tasks: 'task'
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportOptions {
+  mode: ImportMode;
+  // Validate and write everything, then roll back
+  dryRun: boolean;
+  // Create clients that look like existing ones instead of failing the row
+  allowDuplicates?: boolean;
+}
+
+export interface ImportRowError {
+  // 1-based, counting the header as row 1
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  action: 'create' | 'update' | 'skip' | 'error';
+  id?: number;
+}
+
+export interface ImportResult {
+  entity: ImportEntity;
+  mode: ImportMode;
+  dry_run: boolean;
+  // False when anything failed or it was a dry run; nothing is saved then
+  committed: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+  errors: ImportRowError[];
+}
+
+// Raised for files that can't be read at all; controllers turn it into a 400
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// A data row keyed by normalized header, with its row number in the file
+interface ImportRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+// The user running the import
+interface Importer {
+  userId: number;
+  role: UserRole;
+}
+
+// Headers are matched without case, and spaces or dashes count as underscores
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Read an uploaded CSV or XLSX file into a grid of cells, header row first
+ */
+export const parseImportGrid = (buffer: Buffer): string[][] => {
+  let grid: string[][];
+  try {
+    grid = isZip(buffer) ? parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
+  } catch (error) {
+    throw new ImportFileError(`Could not read the file: ${(error as Error).message}`);
+  }
+
+  if (grid.length < 2) {
+    throw new ImportFileError('The file needs a header row and at least one data row');
+  }
+  if (grid.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Files can have at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return grid;
+};
+
+/**
+ * Read an uploaded CSV or XLSX file into rows keyed by header
+ */
+export const parseImportFile = (buffer: Buffer): ImportRow[] => {
+  const grid = parseImportGrid(buffer);
+  const headers = grid[0].map(normalizeHeader);
+  return grid.slice(1).map((cells, index) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      if (header && values[header] === undefined) {
+        values[header] = (cells[column] ?? '').trim();
+      }
+    });
+    return { row: index + 2, values };
+  });
+};
+
+/**
+ * Records of one kind, looked up by ID or by any of their names without
+ * case. Rows written during the import are added so later rows can see them.
+ */
+class RecordIndex<T extends { id: number }> {
+  private byId = new Map<number, T>();
+  private byKey = new Map<string, T[]>();
+
+  constructor(private label: string, private keysOf: (record: T) => string[], records: T[] = []) {
+    records.forEach(record => this.add(record));
+  }
+
+  add(record: T): void {
+    const previous = this.byId.get(record.id);
+    if (previous) {
+      this.keysOf(previous).forEach(key => {
+        const matches = (this.byKey.get(key.toLowerCase()) || []).filter(r => r.id !== record.id);
+        this.byKey.set(key.toLowerCase(), matches);
+      });
+    }
+
+    this.byId.set(record.id, record);
+    this.keysOf(record).forEach(key => {
+      const matches = this.byKey.get(key.toLowerCase()) || [];
+      this.byKey.set(key.toLowerCase(), [...matches, record]);
+    });
+  }
+
+  find(key: string): T[] {
+    return this.byKey.get(key.toLowerCase()) || [];
+  }
+
+  all(): T[] {
+    return Array.from(this.byId.values());
+  }
+
+  /**
+   * Resolve a cell to a record: digits are taken as an ID, anything else as
+   * a name. Returns an error message when there's no single match.
+   */
+  resolve(value: string): T | string {
+    if (/^\d+$/.test(value)) {
+      return this.byId.get(Number(value)) || `Unknown ${this.label} ID: ${value}`;
+    }
+
+    const matches = this.find(value);
+    if (matches.length === 0) {
+      return `Unknown ${this.label}: ${value}`;
+    }
+    if (matches.length > 1) {
+      return `More than one ${this.label} is named ${value}; use its ID instead`;
+    }
+    return matches[0];
+  }
+}
+
+/**
+ * Pulls typed values out of one row, collecting an error per bad cell.
+ * Empty cells read as undefined so updates leave those fields alone.
+ */
+class RowReader {
+  errors: ImportRowError[] = [];
+
+  constructor(private row: ImportRow) {}
+
+  // The first non-empty cell under any of the headers
+  text(...headers: string[]): string | undefined {
+    for (const header of headers) {
+      const value = this.row.values[header];
+      if (value) return value;
+    }
+    return undefined;
+  }
+
+  fail(field: string, message: string): undefined {
+    this.errors.push({ row: this.row.row, field, message });
+    return undefined;
+  }
+
+  reference<T extends { id: number }>(index: RecordIndex<T>, field: string, ...headers: string[]): T | undefined {
+    const value = this.text(...headers);
+    if (value === undefined) return undefined;
+
+    const resolved = index.resolve(value);
+    return typeof resolved === 'string' ? this.fail(field, resolved) : resolved;
+  }
+
+  // Semicolon-separated references, e.g. "Retail; Banking"
+  references<T extends { id: number }>(index: RecordIndex<T>, field: string, ...headers: string[]): number[] | undefined {
+    const value = this.text(...headers);
+    if (value === undefined) return undefined;
+
+    const ids: number[] = [];
+    for (const item of value.split(';').map(part => part.trim()).filter(Boolean)) {
+      const resolved = index.resolve(item);
+      if (typeof resolved === 'string') {
+        this.fail(field, resolved);
+      } else if (!ids.includes(resolved.id)) {
+        ids.push(resolved.id);
+      }
+    }
+    return ids;
+  }
+
+  choice<T extends string>(allowed: T[], field: string, ...headers: string[]): T | undefined {
+    const value = this.text(...headers);
+    if (value === undefined) return undefined;
+
+    const normalized = value.toLowerCase().replace(/[\s-]+/g, '_') as T;
+    return allowed.includes(normalized)
+      ? normalized
+      : this.fail(field, `${field} must be one of: ${allowed.join(', ')}`);
+  }
+
+  number(field: string, ...headers: string[]): number | undefined {
+    const value = this.text(...headers);
+    if (value === undefined) return undefined;
+
+    const parsed = Number(value.replace(/[,\s]/g, ''));
+    return Number.isFinite(parsed) && parsed >= 0
+      ? parsed
+      : this.fail(field, `${field} must be a number of at least 0`);
+  }
+
+  // YYYY-MM-DD, an ISO timestamp, or an Excel date serial number
+  date(field: string, ...headers: string[]): Date | undefined {
+    const value = this.text(...headers);
+    if (value === undefined) return undefined;
+
+    let parsed: Date | null = null;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      parsed = excelSerialToDate(Number(value));
+    } else if (/^\d{4}-\d{2}-\d{2}([T ].*)?$/.test(value)) {
+      parsed = new Date(value);
+    }
+
+    return parsed && !isNaN(parsed.getTime())
+      ? parsed
+      : this.fail(field, `${field} must be a date (YYYY-MM-DD)`);
+  }
+}
+
+const daysFromNow = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+// Drop undefined values so they neither overwrite fields nor count as set
+const definedOnly = <T extends object>(data: T): Partial<T> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// Required fields that are still empty, named by their column in the file
+const missingFields = (data: object, required: Record<string, string>): string[] =>
+  Object.keys(required)
+    .filter(field => {
+      const value = (data as Record<string, unknown>)[field];
+      return value === undefined || value === '';
+    })
+    .map(field => required[field]);
+
+/**
+ * One entity's import rules: how a row becomes field values, how rows match
+ * existing records, and how records are written
+ */
+interface EntityImporter<T extends { id: number }, I> {
+  label: string;
+  // Fields read from the row; undefined where the cell was empty
+  read(reader: RowReader): Partial<I>;
+  // The key rows and records are matched on, or null if it's incomplete
+  keyOf(data: Partial<I> | T): string | null;
+  // Fill in defaults for a new record; returns the required fields still missing
+  complete(data: Partial<I>, importer: Importer): string[];
+  // Both return an error message when the change isn't allowed. Workflow
+  // events are queued on the same client, so they're only kept for rows
+  // that are committed.
+  create(data: I, client: PoolClient, importer: Importer): Promise<T | string>;
+  update(existing: T, data: Partial<I>, client: PoolClient, importer: Importer): Promise<T | string>;
+}
+
+interface Lookups {
+  industries: RecordIndex<{ id: number; name: string }>;
+  businessUnits: RecordIndex<{ id: number; name: string }>;
+  users: RecordIndex<{ id: number; username: string; email: string }>;
+  clients: RecordIndex<Client>;
+  services: RecordIndex<Service>;
+  opportunities: RecordIndex<Opportunity>;
+  tasks: RecordIndex<Task>;
+}
+
+const loadLookups = async (entity: ImportEntity): Promise<Lookups> => {
+  const needs = (...entities: ImportEntity[]) => entities.includes(entity);
+
+  const [industries, businessUnits, users, clients, services, opportunities, tasks] = await Promise.all([
+    needs('clients', 'services') ? IndustryModel.findAll() : [],
+    needs('services') ? BusinessUnitModel.findAll() : [],
+    needs('clients', 'opportunities', 'tasks') ? UserModel.getAll() : [],
+    needs('clients', 'opportunities') ? ClientModel.findAll() : [],
+    needs('clients', 'services', 'opportunities') ? ServiceModel.findAll() : [],
+    needs('opportunities', 'tasks') ? OpportunityModel.findAll() : [],
+    needs('tasks') ? TaskModel.findAllTasks() : []
+  ]);
+
+  return {
+    industries: new RecordIndex<{ id: number; name: string }>('industry', r => [r.name], industries),
+    businessUnits: new RecordIndex<{ id: number; name: string }>('business unit', r => [r.name], businessUnits),
+    users: new RecordIndex<{ id: number; username: string; email: string }>('user', r => [r.email, r.username], users),
+    clients: new RecordIndex<Client>('client', r => [r.name], clients),
+    services: new RecordIndex<Service>('service', r => [r.name], services),
+    opportunities: new RecordIndex<Opportunity>('opportunity', r => [r.name], opportunities),
+    tasks: new RecordIndex<Task>('task', r => [r.name], tasks)
+  };
+};
+
+const clientImporter = (
+  lookups: Lookups,
+  duplicates: ClientMatchIndex<ClientMatchCandidate>,
+  options: ImportOptions
+): EntityImporter<Client, ClientInput> => ({
+  label: 'client',
+
+  read: reader => definedOnly({
+    name: reader.text('name', 'client_name'),
+    industry_id: reader.reference(lookups.industries, 'industry', 'industry', 'industry_name', 'industry_id')?.id,
+    contact_name: reader.text('contact_name'),
+    contact_email: reader.text('contact_email'),
+    contact_phone: reader.text('contact_phone'),
+    address: reader.text('address'),
+    account_owner_id: reader.reference(lookups.users, 'account_owner', 'account_owner', 'account_owner_email', 'account_owner_id')?.id,
+    services_used: reader.references(lookups.services, 'services_used', 'services_used', 'services'),
+    crm_link: reader.text('crm_link'),
+    notes: reader.text('notes'),
+    status: reader.choice(Object.values(ClientStatus), 'status', 'status')
+  }),
+
+  keyOf: data => data.name ? data.name.toLowerCase() : null,
+
+  complete: (data, importer) => {
+    data.account_owner_id = data.account_owner_id ?? importer.userId;
+    data.status = data.status ?? ClientStatus.PROSPECT;
+    data.services_used = data.services_used ?? [];
+    data.contact_name = data.contact_name ?? '';
+    data.contact_email = data.contact_email ?? '';
+    data.contact_phone = data.contact_phone ?? '';
+    data.address = data.address ?? '';
+    return missingFields(data, { name: 'name', industry_id: 'industry' });
+  },
+
+  async create(data, client) {
+    // Catches "ACME Ltd" next to an existing "Acme", and the like within the file
+    const [match] = options.allowDuplicates ? [] : duplicates.find(data);
+    if (match) {
+      return `Looks like existing client "${match.client.name}" (#${match.client.id}): ${match.reasons.join(', ').replace(/_/g, ' ')}. `
+        + 'Import with duplicates allowed to create it anyway';
+    }
+
+    const created = await ClientModel.create(data, client);
+
+    // As on the client form, the contact becomes the primary contact
+    if (data.contact_name) {
+      await ClientContactModel.create({
+        client_id: created.id,
+        name: data.contact_name,
+        email: data.contact_email,
+        phone: data.contact_phone,
+        is_primary: true
+      }, client);
+    }
+
+    duplicates.add({ ...created, contact_emails: [], contact_phones: [] });
+    return created;
+  },
+
+  async update(existing, data, client) {
+    const updated = await ClientModel.update(existing.id, data, client);
+    return updated || 'Client not found';
+  }
+});
+
+const serviceImporter = (lookups: Lookups): EntityImporter<Service, ServiceInput> => ({
+  label: 'service',
+
+  read: reader => definedOnly({
+    name: reader.text('name', 'service_name'),
+    description: reader.text('description'),
+    business_unit_id: reader.reference(lookups.businessUnits, 'business_unit', 'business_unit', 'business_unit_name', 'business_unit_id')?.id,
+    pricing_model: reader.text('pricing_model'),
+    pricing_details: reader.text('pricing_details'),
+    applicable_industry_ids: reader.references(lookups.industries, 'applicable_industries', 'applicable_industries', 'industries'),
+    client_role: reader.text('client_role'),
+    status: reader.choice(Object.values(ServiceStatus), 'status', 'status')
+  }),
+
+  keyOf: data => data.name ? data.name.toLowerCase() : null,
+
+  complete: data => {
+    data.description = data.description ?? '';
+    data.client_role = data.client_role ?? '';
+    data.applicable_industry_ids = data.applicable_industry_ids ?? [];
+    data.status = data.status ?? ServiceStatus.ACTIVE;
+    return missingFields(data, { name: 'name', business_unit_id: 'business_unit', pricing_model: 'pricing_model' });
+  },
+
+  create: (data, client) => ServiceModel.create(data, client),
+
+  async update(existing, data, client) {
+    const updated = await ServiceModel.update(existing.id, data, client);
+    return updated || 'Service not found';
+  }
+});
+
+const opportunityImporter = (lookups: Lookups): EntityImporter<Opportunity, OpportunityInput> => ({
+  label: 'opportunity',
+
+  read: reader => definedOnly({
+    name: reader.text('name', 'opportunity_name'),
+    client_id: reader.reference(lookups.clients, 'client', 'client', 'client_name', 'client_id')?.id,
+    service_id: reader.reference(lookups.services, 'service', 'service', 'service_name', 'service_id')?.id,
+    assigned_user_id: reader.reference(
+      lookups.users, 'assigned_user', 'assigned_user', 'assigned_user_email', 'assigned_user_name', 'assigned_user_id'
+    )?.id,
+    status: reader.choice(Object.values(OpportunityStatus), 'status', 'status'),
+    priority: reader.choice(Object.values(OpportunityPriority), 'priority', 'priority'),
+    estimated_value: reader.number('estimated_value', 'estimated_value'),
+    due_date: reader.date('due_date', 'due_date'),
+    // Closed deals need these to pass the won and lost stage rules
+    won_date: reader.date('won_date', 'won_date'),
+    final_value: reader.number('final_value', 'final_value'),
+    loss_reason: reader.text('loss_reason'),
+    notes: reader.text('notes')
+  }),
+
+  // Opportunity names only need to be unique per client
+  keyOf: data => data.name && data.client_id ? `${data.client_id}:${data.name.toLowerCase()}` : null,
+
+  complete: (data, importer) => {
+    data.assigned_user_id = data.assigned_user_id ?? importer.userId;
+    data.status = data.status ?? OpportunityStatus.NEW;
+    data.priority = data.priority ?? OpportunityPriority.MEDIUM;
+    data.estimated_value = data.estimated_value ?? 0;
+    data.due_date = data.due_date ?? daysFromNow(30);
+    return missingFields(data, { name: 'name', client_id: 'client', service_id: 'service' });
+  },
+
+  async create(data, client, importer) {
+    const stageCheck = await opportunityStageService.checkStatusChange(null, data.status, data);
+    if (!stageCheck.allowed) {
+      return stageCheck.message || 'Stage requirements not met';
+    }
+
+    const created = await OpportunityModel.create(data, client);
+    const historyEntry = await OpportunityStatusHistoryModel.create({
+      opportunity_id: created.id,
+      old_status: null,
+      new_status: created.status,
+      changed_by: importer.userId
+    }, client);
+
+    await WorkflowJobModel.enqueue({
+      event_type: WorkflowEventType.OPPORTUNITY_STATUS_CHANGED,
+      payload: { opportunity_id: created.id, old_status: null, new_status: created.status },
+      dedupe_key: `opportunity.status_changed:${historyEntry.id}`
+    }, client);
+    return created;
+  },
+
+  async update(existing, data, client, importer) {
+    if (data.status && data.status !== existing.status) {
+      const stageCheck = await opportunityStageService.checkStatusChange(existing.status, data.status, { ...existing, ...data });
+      if (!stageCheck.allowed) {
+        return stageCheck.message || 'Stage requirements not met';
+      }
+    }
+
+    const updated = await OpportunityModel.update(existing.id, data, client);
+    if (!updated) return 'Opportunity not found';
+
+    if (updated.status !== existing.status) {
+      const historyEntry = await OpportunityStatusHistoryModel.create({
+        opportunity_id: updated.id,
+        old_status: existing.status,
+        new_status: updated.status,
+        changed_by: importer.userId
+      }, client);
+
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.OPPORTUNITY_STATUS_CHANGED,
+        payload: { opportunity_id: updated.id, old_status: historyEntry.old_status, new_status: historyEntry.new_status },
+        dedupe_key: `opportunity.status_changed:${historyEntry.id}`
+      }, client);
+    }
+    return updated;
+  }
+});
+
+const taskImporter = (lookups: Lookups): EntityImporter<Task, TaskInput> => ({
+  label: 'task',
+
+  read: reader => definedOnly({
+    name: reader.text('name', 'task_name'),
+    opportunity_id: reader.reference(lookups.opportunities, 'opportunity', 'opportunity', 'opportunity_name', 'opportunity_id')?.id,
+    assigned_user_id: reader.reference(
+      lookups.users, 'assigned_user', 'assigned_user', 'assigned_user_email', 'assigned_user_name', 'assigned_user_id'
+    )?.id,
+    due_date: reader.date('due_date', 'due_date'),
+    status: reader.choice(Object.values(TaskStatus), 'status', 'status'),
+    description: reader.text('description')
+  }),
+
+  // Task names only need to be unique per opportunity
+  keyOf: data => data.name && data.opportunity_id ? `${data.opportunity_id}:${data.name.toLowerCase()}` : null,
+
+  complete: (data, importer) => {
+    data.assigned_user_id = data.assigned_user_id ?? importer.userId;
+    data.status = data.status ?? TaskStatus.PENDING;
+    data.due_date = data.due_date ?? daysFromNow(7);
+    return missingFields(data, { name: 'name', opportunity_id: 'opportunity' });
+  },
+
+  async create(data, client, importer) {
+    const created = await TaskModel.create(data, client);
+    await WorkflowJobModel.enqueue({
+      event_type: WorkflowEventType.TASK_CREATED,
+      payload: { task_id: created.id, created_by: importer.userId },
+      dedupe_key: `task.created:${created.id}`
+    }, client);
+    return created;
+  },
+
+  async update(existing, data, client) {
+    const updated = await TaskModel.update(existing.id, data, client);
+    if (!updated) return 'Task not found';
+
+    if (new Date(updated.due_date).getTime() !== new Date(existing.due_date).getTime()) {
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.TASK_DUE_DATE_CHANGED,
+        payload: { task_id: updated.id }
+      }, client);
+    }
+    if (updated.status !== existing.status) {
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.TASK_STATUS_CHANGED,
+        payload: { task_id: updated.id, old_status: existing.status, new_status: updated.status }
+      }, client);
+    }
+    return updated;
+  }
+});
+
+// Records of the entity being imported, keyed the way the importer matches rows
+const buildExistingIndex = <T extends { id: number }>(entityImporter: EntityImporter<T, any>, records: T[]): RecordIndex<T> =>
+  new RecordIndex<T>(entityImporter.label, record => {
+    const key = entityImporter.keyOf(record);
+    return key ? [key] : [];
+  }, records);
+
+/**
+ * ImportService bulk-loads clients, services, opportunities and tasks from
+ * CSV or XLSX files. Names are resolved to IDs, every row is checked against
+ * the access policy, and the whole file is written in one transaction that
+ * is only committed when every row succeeds.
+ */
+class ImportService {
+  async importRows(entity: ImportEntity, rows: ImportRow[], user: Importer, options: ImportOptions): Promise<ImportResult> {
+    const lookups = await loadLookups(entity);
+    const policyUser = await resolvePolicyUser(user);
+
+    switch (entity) {
+      case 'clients': {
+        const duplicates = await clientDuplicateService.buildIndex();
+        return this.run(entity, clientImporter(lookups, duplicates, options), lookups.clients, rows, user, policyUser, options);
+      }
+      case 'services':
+        return this.run(entity, serviceImporter(lookups), lookups.services, rows, user, policyUser, options);
+      case 'opportunities':
+        return this.run(entity, opportunityImporter(lookups), lookups.opportunities, rows, user, policyUser, options);
+      case 'tasks':
+        return this.run(entity, taskImporter(lookups), lookups.tasks, rows, user, policyUser, options);
+    }
+  }
+
+  private async run<T extends { id: number }, I>(
+    entity: ImportEntity,
+    entityImporter: EntityImporter<T, I>,
+    records: RecordIndex<T>,
+    rows: ImportRow[],
+    user: Importer,
+    policyUser: PolicyUser,
+    options: ImportOptions
+  ): Promise<ImportResult> {
+    const resource = IMPORT_RESOURCES[entity];
+    // Rows are matched against what's in the database plus earlier rows of the file
+    const existing = buildExistingIndex(entityImporter, records.all());
+    const result: ImportResult = {
+      entity,
+      mode: options.mode,
+      dry_run: options.dryRun,
+      committed: false,
+      total: rows.length,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      rows: [],
+      errors: []
+    };
+
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const row of rows) {
+        const reader = new RowReader(row);
+        const data = entityImporter.read(reader);
+        const rowErrors = reader.errors;
+        const fail = (message: string, field?: string) => {
+          rowErrors.push({ row: row.row, field, message });
+        };
+
+        let action: ImportRowResult['action'] = 'error';
+        let id: number | undefined;
+
+        if (rowErrors.length === 0) {
+          const key = entityImporter.keyOf(data);
+          const matches = key ? existing.find(key) : [];
+
+          // Each row is written under a savepoint so a failed row can be
+          // undone and the rest still checked
+          await client.query('SAVEPOINT import_row');
+
+          try {
+            if (matches.length > 1) {
+              fail(`More than one existing ${entityImporter.label} matches this row`);
+            } else if (matches.length === 1 && options.mode === 'skip') {
+              action = 'skip';
+              id = matches[0].id;
+            } else if (matches.length === 1 && options.mode === 'insert') {
+              fail(`A matching ${entityImporter.label} already exists`, 'name');
+            } else if (matches.length === 1) {
+              const current = matches[0];
+              const allowed = can(policyUser, 'update', resource, await toPolicyRecord(resource, current))
+                && can(policyUser, 'update', resource, await toPolicyRecord(resource, { ...current, ...data }));
+
+              if (!allowed) {
+                fail(`You cannot update this ${entityImporter.label}`);
+              } else {
+                const updated = await entityImporter.update(current, data, client, user);
+                if (typeof updated === 'string') {
+                  fail(updated);
+                } else {
+                  existing.add(updated);
+                  action = 'update';
+                  id = updated.id;
+                }
+              }
+            } else {
+              const missing = entityImporter.complete(data, user);
+              missing.forEach(field => fail(`${field} is required`, field));
+
+              if (missing.length === 0) {
+                if (!can(policyUser, 'create', resource, await toPolicyRecord(resource, data as Record<string, any>))) {
+                  fail(`You cannot create this ${entityImporter.label}`);
+                } else {
+                  const created = await entityImporter.create(data as I, client, user);
+                  if (typeof created === 'string') {
+                    fail(created);
+                  } else {
+                    existing.add(created);
+                    action = 'create';
+                    id = created.id;
+                  }
+                }
+              }
+            }
+
+            await client.query(rowErrors.length > 0 ? 'ROLLBACK TO SAVEPOINT import_row' : 'RELEASE SAVEPOINT import_row');
+          } catch (error) {
+            // Database errors such as over-long values are reported against the row
+            await client.query('ROLLBACK TO SAVEPOINT import_row');
+            fail((error as Error).message);
+          }
+        }
+
+        if (rowErrors.length > 0) {
+          action = 'error';
+          id = undefined;
+          result.errors.push(...rowErrors);
+        }
+
+        result.rows.push({ row: row.row, action, id });
+        if (action === 'create') result.created++;
+        if (action === 'update') result.updated++;
+        if (action === 'skip') result.skipped++;
+        if (action === 'error') result.failed++;
+      }
+
+      if (options.dryRun || result.failed > 0) {
+        await client.query('ROLLBACK');
+      } else {
+        await client.query('COMMIT');
+        result.committed = true;
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error importing ${entity}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (result.committed) {
+      workflowService.processSoon();
+    }
+
+    return result;
+  }
+}
+
+// Export as singleton instance
+export default new ImportService();
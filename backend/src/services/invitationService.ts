@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import UserModel, { User, UserRole } from '../models/User';
+import UserInvitationModel, { UserInvitation } from '../models/UserInvitation';
+import emailService from './emailService';
+
+// How long an invite link stays valid
+const INVITATION_EXPIRY_HOURS = parseInt(process.env.INVITATION_EXPIRY_HOURS || '72');
+
+export interface SentInvitation {
+  invitation: UserInvitation;
+  // Only available right after the token is generated; admins can share it
+  // by hand when email is disabled
+  inviteUrl: string;
+  emailSent: boolean;
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * InvitationService issues single-use, expiring invite links and turns an
+ * accepted invitation into a user with the invited role
+ */
+class InvitationService {
+  /**
+   * Create an invitation and email its link
+   */
+  async invite(email: string, role: UserRole, invitedBy: number): Promise<SentInvitation> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await UserInvitationModel.create({
+      email,
+      role,
+      token_hash: hashToken(token),
+      invited_by: invitedBy,
+      expires_at: this.getExpiry()
+    });
+
+    return this.send(invitation, token);
+  }
+
+  /**
+   * Issue a fresh link for an open invitation, invalidating the old one
+   */
+  async resend(invitationId: number): Promise<SentInvitation | null> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await UserInvitationModel.renew(invitationId, hashToken(token), this.getExpiry());
+
+    return invitation ? this.send(invitation, token) : null;
+  }
+
+  /**
+   * Look up the invitation a link points to, if it can still be accepted
+   */
+  async findPending(token: string): Promise<UserInvitation | null> {
+    return UserInvitationModel.findPendingByTokenHash(hashToken(token));
+  }
+
+  /**
+   * Create the invited user and use up the invitation. Returns null when the
+   * link is unknown, expired, revoked or already used.
+   */
+  async accept(token: string, username: string, password: string): Promise<User | null> {
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Locks the invitation so the same link can't create two users
+      const invitation = await UserInvitationModel.findPendingByTokenHash(hashToken(token), client);
+      if (!invitation) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const user = await UserModel.create({
+        username,
+        email: invitation.email,
+        password,
+        role: invitation.role
+      }, client);
+      await UserInvitationModel.markAccepted(invitation.id, user.id, client);
+
+      await client.query('COMMIT');
+      return user;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error accepting invitation:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private getExpiry(): Date {
+    return new Date(Date.now() + INVITATION_EXPIRY_HOURS * 60 * 60 * 1000);
+  }
+
+  private async send(invitation: UserInvitation, token: string): Promise<SentInvitation> {
+    const inviteUrl = `${process.env.APP_URL || 'http://localhost:3000'}/accept-invite/${token}`;
+    const inviter = invitation.invited_by ? await UserModel.findById(invitation.invited_by) : null;
+
+    const emailSent = await emailService.sendInvitationEmail(invitation.email, {
+      role: invitation.role.replace('_', ' '),
+      invited_by_name: inviter?.username,
+      invite_url: inviteUrl,
+      expires_at: new Date(invitation.expires_at).toLocaleString()
+    });
+
+    return { invitation, inviteUrl, emailSent };
+  }
+}
+
+// Export as singleton instance
+export default new InvitationService();
@@ -0,0 +1,64 @@
+import UserModel, { User } from '../models/User';
+import LoginFailureModel from '../models/LoginFailure';
+
+// Failed logins before an account is locked, and for how long
+const MAX_FAILED_LOGINS = parseInt(process.env.MAX_FAILED_LOGINS || '5');
+const LOCKOUT_MINUTES = parseInt(process.env.LOCKOUT_MINUTES || '15');
+
+// Failed logins from one IP address, across all accounts, before it's throttled
+const IP_MAX_FAILED_LOGINS = parseInt(process.env.IP_MAX_FAILED_LOGINS || '20');
+const IP_WINDOW_MINUTES = parseInt(process.env.IP_WINDOW_MINUTES || '15');
+
+/**
+ * LoginProtectionService tracks failed logins per account and per IP
+ * address and decides when to refuse further attempts
+ */
+class LoginProtectionService {
+  /**
+   * Whether an IP address has had too many recent failures to try again
+   */
+  async isIpThrottled(ipAddress: string | null): Promise<boolean> {
+    if (!ipAddress) {
+      return false;
+    }
+
+    const failures = await LoginFailureModel.countRecentByIp(ipAddress, IP_WINDOW_MINUTES);
+    return failures >= IP_MAX_FAILED_LOGINS;
+  }
+
+  /**
+   * When the account's lockout ends, or null if it isn't locked
+   */
+  getLockedUntil(user: User): Date | null {
+    return user.locked_until && new Date(user.locked_until) > new Date() ? new Date(user.locked_until) : null;
+  }
+
+  /**
+   * Record a failed login. Returns the user as updated, so callers can tell
+   * whether this attempt locked the account.
+   */
+  async recordFailure(email: string, ipAddress: string | null, user: User | null): Promise<User | null> {
+    await LoginFailureModel.record(email, ipAddress);
+
+    return user ? UserModel.recordFailedLogin(user.id, MAX_FAILED_LOGINS, LOCKOUT_MINUTES) : null;
+  }
+
+  /**
+   * Reset the account's failure count after a successful login
+   */
+  async recordSuccess(user: User): Promise<void> {
+    if (user.failed_login_attempts || user.locked_until) {
+      await UserModel.clearFailedLogins(user.id);
+    }
+  }
+
+  /**
+   * Delete failures too old to count towards the IP limit
+   */
+  async purgeOldFailures(): Promise<number> {
+    return LoginFailureModel.purge(IP_WINDOW_MINUTES);
+  }
+}
+
+// Export as singleton instance
+export default new LoginProtectionService();
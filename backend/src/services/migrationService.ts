@@ -0,0 +1,166 @@
+import { Pool, PoolClient } from 'pg';
+import db from '../config/database';
+import migrations, { Migration } from '../migrations';
+
+// Held while migrating so two runners can't apply the same migration
+const MIGRATION_LOCK_ID = 728140;
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: Date | null;
+}
+
+// Raised when the schema doesn't match the code, e.g. pending migrations on startup
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * MigrationService applies and reverts the numbered migrations in
+ * src/migrations, recording each applied version in schema_migrations
+ */
+class MigrationService {
+  private pool: Pool;
+  private migrations: Migration[];
+
+  constructor() {
+    this.pool = db;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    this.migrations.forEach((migration, index) => {
+      if (index > 0 && migration.version === this.migrations[index - 1].version) {
+        throw new MigrationError(`Duplicate migration version ${migration.version}`);
+      }
+    });
+  }
+
+  /**
+   * Every known migration with the time it was applied, or null when pending
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    const applied = await this.getAppliedVersions();
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.get(migration.version) || null
+    }));
+  }
+
+  /**
+   * Migrations not applied yet, oldest first
+   */
+  async getPending(): Promise<Migration[]> {
+    const applied = await this.getAppliedVersions();
+    return this.migrations.filter(migration => !applied.has(migration.version));
+  }
+
+  /**
+   * Throw unless every migration has been applied; the server calls this
+   * before it starts listening
+   */
+  async assertUpToDate(): Promise<void> {
+    const pending = await this.getPending();
+
+    if (pending.length > 0) {
+      const names = pending.map(migration => `${migration.version} ${migration.name}`).join(', ');
+      throw new MigrationError(`${pending.length} pending migration(s): ${names}. Run "npm run migrate up" first.`);
+    }
+  }
+
+  /**
+   * Apply pending migrations in order, up to and including `targetVersion`
+   * when given. Returns the migrations applied.
+   */
+  async up(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.getAppliedVersions(client);
+      const pending = this.migrations.filter(migration =>
+        !applied.has(migration.version) && (targetVersion === undefined || migration.version <= targetVersion)
+      );
+
+      for (const migration of pending) {
+        await this.runInTransaction(client, migration, 'up');
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert the most recently applied migrations, newest first. Returns the
+   * migrations reverted.
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.getAppliedVersions(client);
+      const toRevert = this.migrations
+        .filter(migration => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of toRevert) {
+        await this.runInTransaction(client, migration, 'down');
+      }
+
+      return toRevert;
+    });
+  }
+
+  private async ensureTable(client: Pool | PoolClient = this.pool): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(200) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  private async getAppliedVersions(client: Pool | PoolClient = this.pool): Promise<Map<number, Date>> {
+    await this.ensureTable(client);
+    const result = await client.query('SELECT version, applied_at FROM schema_migrations');
+    return new Map(result.rows.map(row => [row.version, row.applied_at]));
+  }
+
+  private async runInTransaction(client: PoolClient, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    console.log(`${direction === 'up' ? 'Applying' : 'Reverting'} migration ${migration.version} ${migration.name}...`);
+
+    try {
+      await client.query('BEGIN');
+      await migration[direction](client);
+      if (direction === 'up') {
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+      } else {
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error running migration ${migration.version} ${migration.name} ${direction}:`, error);
+      throw error;
+    }
+  }
+
+  private async withLock<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        return await work(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Export as singleton instance
+export default new MigrationService();
@@ -0,0 +1,148 @@
+import OpportunityStageRuleModel, { OpportunityStageRuleInput } from '../models/OpportunityStageRule';
+import { OpportunityStatus } from '../models/Opportunity';
+
+/**
+ * Default transition graph, stage requirements and win probabilities.
+ * Only seeded for statuses that have no rule yet, so admin edits are never overwritten.
+ */
+const DEFAULT_STAGE_RULES: OpportunityStageRuleInput[] = [
+  {
+    status: OpportunityStatus.NEW,
+    allowed_transitions: [OpportunityStatus.IN_PROGRESS, OpportunityStatus.QUALIFIED, OpportunityStatus.ON_HOLD, OpportunityStatus.LOST],
+    required_fields: [],
+    win_probability: 10
+  },
+  {
+    status: OpportunityStatus.IN_PROGRESS,
+    allowed_transitions: [OpportunityStatus.QUALIFIED, OpportunityStatus.ON_HOLD, OpportunityStatus.LOST],
+    required_fields: [],
+    win_probability: 20
+  },
+  {
+    status: OpportunityStatus.QUALIFIED,
+    allowed_transitions: [OpportunityStatus.PROPOSAL, OpportunityStatus.ON_HOLD, OpportunityStatus.LOST],
+    required_fields: [],
+    win_probability: 40
+  },
+  {
+    status: OpportunityStatus.PROPOSAL,
+    allowed_transitions: [OpportunityStatus.NEGOTIATION, OpportunityStatus.WON, OpportunityStatus.ON_HOLD, OpportunityStatus.LOST],
+    required_fields: ['estimated_value'],
+    win_probability: 60
+  },
+  {
+    status: OpportunityStatus.NEGOTIATION,
+    allowed_transitions: [OpportunityStatus.PROPOSAL, OpportunityStatus.WON, OpportunityStatus.ON_HOLD, OpportunityStatus.LOST],
+    required_fields: [],
+    win_probability: 80
+  },
+  {
+    status: OpportunityStatus.ON_HOLD,
+    allowed_transitions: [
+      OpportunityStatus.NEW,
+      OpportunityStatus.IN_PROGRESS,
+      OpportunityStatus.QUALIFIED,
+      OpportunityStatus.PROPOSAL,
+      OpportunityStatus.NEGOTIATION,
+      OpportunityStatus.LOST
+    ],
+    required_fields: [],
+    win_probability: 10
+  },
+  {
+    status: OpportunityStatus.WON,
+    allowed_transitions: [],
+    required_fields: ['won_date', 'final_value'],
+    win_probability: 100
+  },
+  {
+    status: OpportunityStatus.LOST,
+    allowed_transitions: [],
+    required_fields: ['loss_reason'],
+    win_probability: 0
+  }
+];
+
+// Fields holding amounts, which must be positive to count as filled in
+const NUMERIC_FIELDS = ['estimated_value', 'final_value'];
+
+export interface StageCheckResult {
+  allowed: boolean;
+  message?: string;
+  missing_fields?: string[];
+}
+
+/**
+ * OpportunityStageService enforces the configurable opportunity status graph
+ */
+class OpportunityStageService {
+  /**
+   * Seed stage rules for any status that doesn't have one yet
+   */
+  async initDefaultStageRules(): Promise<void> {
+    try {
+      const existingRules = await OpportunityStageRuleModel.findAll();
+      const existingStatuses = existingRules.map(rule => rule.status);
+
+      let createdCount = 0;
+
+      for (const rule of DEFAULT_STAGE_RULES) {
+        if (!existingStatuses.includes(rule.status)) {
+          await OpportunityStageRuleModel.upsert(rule);
+          createdCount++;
+        }
+      }
+
+      console.log(`Created ${createdCount} new opportunity stage rules`);
+    } catch (error) {
+      console.error('Error initializing opportunity stage rules:', error);
+    }
+  }
+
+  /**
+   * Check whether an opportunity may move from one status to another.
+   * fromStatus is null for a new opportunity, in which case only the target
+   * stage's required fields are checked. data is the opportunity as it would
+   * be saved, i.e. the existing record merged with the incoming changes.
+   */
+  async checkStatusChange(fromStatus: string | null, toStatus: string, data: Record<string, any>): Promise<StageCheckResult> {
+    if (!Object.values(OpportunityStatus).includes(toStatus as OpportunityStatus)) {
+      return { allowed: false, message: `Invalid status: ${toStatus}` };
+    }
+
+    if (fromStatus && fromStatus !== toStatus) {
+      const fromRule = await OpportunityStageRuleModel.findByStatus(fromStatus);
+
+      if (fromRule && !fromRule.allowed_transitions.includes(toStatus)) {
+        return {
+          allowed: false,
+          message: `Cannot move an opportunity from ${fromStatus} to ${toStatus}`
+        };
+      }
+    }
+
+    const toRule = await OpportunityStageRuleModel.findByStatus(toStatus);
+    const missingFields = (toRule ? toRule.required_fields : []).filter(field => {
+      const value = data[field];
+
+      if (value === undefined || value === null || value === '') {
+        return true;
+      }
+
+      return NUMERIC_FIELDS.includes(field) && !(Number(value) > 0);
+    });
+
+    if (missingFields.length > 0) {
+      return {
+        allowed: false,
+        message: `The ${toStatus} stage requires: ${missingFields.join(', ')}`,
+        missing_fields: missingFields
+      };
+    }
+
+    return { allowed: true };
+  }
+}
+
+// Export as singleton instance
+export default new OpportunityStageService();
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import UserModel from '../models/User';
+import PasswordResetTokenModel from '../models/PasswordResetToken';
+import emailService from './emailService';
+import sessionService from './sessionService';
+
+// How long a reset link stays valid
+const PASSWORD_RESET_EXPIRY_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || '60');
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * PasswordResetService emails single-use, expiring reset links and applies
+ * the new password when one is used
+ */
+class PasswordResetService {
+  /**
+   * Email a reset link if the address belongs to a user. Does nothing
+   * otherwise. This takes longer when there is an account, so callers
+   * shouldn't wait for it before responding.
+   */
+  async request(email: string): Promise<void> {
+    const user = await UserModel.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000);
+    await PasswordResetTokenModel.create(user.id, hashToken(token), expiresAt);
+
+    await emailService.sendPasswordResetEmail(user.email, {
+      username: user.username,
+      reset_url: `${process.env.APP_URL || 'http://localhost:3000'}/reset-password/${token}`,
+      expires_in_minutes: PASSWORD_RESET_EXPIRY_MINUTES
+    });
+  }
+
+  /**
+   * Set a new password using a reset token. This also lifts any lockout and
+   * signs the user out everywhere. Returns false when the token is unknown,
+   * expired or already used.
+   */
+  async reset(token: string, newPassword: string): Promise<boolean> {
+    const client = await db.connect();
+    let userId: number;
+
+    try {
+      await client.query('BEGIN');
+
+      // Locks the token so the same link can't be used twice
+      const resetToken = await PasswordResetTokenModel.findUsableForUpdate(hashToken(token), client);
+      if (!resetToken) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      userId = resetToken.user_id;
+      await UserModel.updatePassword(userId, newPassword, client);
+      await UserModel.clearFailedLogins(userId, client);
+      await PasswordResetTokenModel.markUsed(resetToken.id, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error resetting password:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await sessionService.revokeAll(userId);
+    return true;
+  }
+}
+
+// Export as singleton instance
+export default new PasswordResetService();
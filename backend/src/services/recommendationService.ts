@@ -0,0 +1,261 @@
+import ClientModel, { Client } from '../models/Client';
+import ServiceModel, { Service } from '../models/Service';
+import OpportunityModel, { Opportunity, OpportunityStatus } from '../models/Opportunity';
+
+// How much each factor contributes to the final score (sums to 1)
+export const RECOMMENDATION_WEIGHTS = {
+  industry_fit: 0.3,
+  similar_clients: 0.35,
+  win_rate: 0.25,
+  client_spend: 0.1
+};
+
+// Closed deals a service needs before its own win rate outweighs its BU's
+const WIN_RATE_PRIOR_WEIGHT = 5;
+
+export interface RecommendationFactors {
+  industry_fit: number;
+  similar_clients: number;
+  win_rate: number;
+  client_spend: number;
+}
+
+export interface Recommendation {
+  client_id: number;
+  client_name: string;
+  service_id: number;
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  score: number;
+  factors: RecommendationFactors;
+  reasons: string[];
+}
+
+export interface RecommendationOptions {
+  clientId?: number;
+  serviceId?: number;
+  limit?: number;
+}
+
+interface WinStats {
+  won: number;
+  closed: number;
+}
+
+/**
+ * RecommendationService ranks the empty client × service cells of the
+ * cross-sell matrix by how likely the client is to buy the service
+ */
+class RecommendationService {
+  /**
+   * Score every client × service pair the client neither uses nor has an
+   * opportunity for, highest score first
+   */
+  async getRecommendations(options: RecommendationOptions = {}): Promise<Recommendation[]> {
+    const [clients, services, opportunities] = await Promise.all([
+      ClientModel.findAll(),
+      ServiceModel.findActive(),
+      OpportunityModel.findAll()
+    ]);
+
+    // Services each client already has: in use, or won through an opportunity
+    const ownedServices = new Map<number, Set<number>>();
+    clients.forEach(client => ownedServices.set(client.id, new Set(client.services_used || [])));
+
+    const existingPairs = new Set<string>();
+    const wonValue = new Map<number, number>();
+
+    opportunities.forEach(opportunity => {
+      existingPairs.add(`${opportunity.client_id}:${opportunity.service_id}`);
+      if (opportunity.status === OpportunityStatus.WON) {
+        ownedServices.get(opportunity.client_id)?.add(opportunity.service_id);
+        const value = Number(opportunity.final_value || opportunity.estimated_value) || 0;
+        wonValue.set(opportunity.client_id, (wonValue.get(opportunity.client_id) || 0) + value);
+      }
+    });
+
+    const winRates = this.buildWinRates(services, opportunities);
+    const maxServiceCount = Math.max(1, ...clients.map(c => ownedServices.get(c.id)!.size));
+    const maxWonValue = Math.max(1, ...Array.from(wonValue.values()));
+
+    const recommendations: Recommendation[] = [];
+
+    clients
+      .filter(client => !options.clientId || client.id === options.clientId)
+      .forEach(client => {
+        const owned = ownedServices.get(client.id)!;
+        const neighbours = this.findSimilarClients(client, clients, ownedServices);
+        const spendScore = 0.5 * (owned.size / maxServiceCount) + 0.5 * ((wonValue.get(client.id) || 0) / maxWonValue);
+
+        services
+          .filter(service => !options.serviceId || service.id === options.serviceId)
+          .filter(service => !owned.has(service.id) && !existingPairs.has(`${client.id}:${service.id}`))
+          .forEach(service => {
+            const factors: RecommendationFactors = {
+              industry_fit: this.scoreIndustryFit(client, service),
+              similar_clients: this.scoreSimilarClients(service.id, neighbours, ownedServices),
+              win_rate: winRates.get(service.id) || 0,
+              client_spend: spendScore
+            };
+
+            const score = (Object.keys(RECOMMENDATION_WEIGHTS) as (keyof RecommendationFactors)[])
+              .reduce((total, factor) => total + RECOMMENDATION_WEIGHTS[factor] * factors[factor], 0);
+
+            recommendations.push({
+              client_id: client.id,
+              client_name: client.name,
+              service_id: service.id,
+              service_name: service.name,
+              business_unit_id: service.business_unit_id,
+              business_unit: service.business_unit,
+              score: Math.round(score * 100),
+              factors: this.roundFactors(factors),
+              reasons: this.explain(client, factors)
+            });
+          });
+      });
+
+    recommendations.sort((a, b) => b.score - a.score || a.client_name.localeCompare(b.client_name));
+
+    return options.limit ? recommendations.slice(0, options.limit) : recommendations;
+  }
+
+  /**
+   * 1 when the service lists the client's industry, 0.5 when the service
+   * doesn't restrict industries, 0 otherwise
+   */
+  private scoreIndustryFit(client: Client, service: Service): number {
+    const industryIds = service.applicable_industry_ids || [];
+    if (industryIds.length === 0) return 0.5;
+    return industryIds.includes(client.industry_id) ? 1 : 0;
+  }
+
+  /**
+   * Weight every other client by how similar it is: the overlap of the
+   * services both buy, plus a bonus for sharing an industry
+   */
+  private findSimilarClients(
+    client: Client,
+    clients: Client[],
+    ownedServices: Map<number, Set<number>>
+  ): Map<number, number> {
+    const owned = ownedServices.get(client.id)!;
+    const neighbours = new Map<number, number>();
+
+    clients.forEach(other => {
+      if (other.id === client.id) return;
+
+      const otherOwned = ownedServices.get(other.id)!;
+      const shared = Array.from(owned).filter(id => otherOwned.has(id)).length;
+      const union = new Set([...Array.from(owned), ...Array.from(otherOwned)]).size;
+      const similarity = (union > 0 ? shared / union : 0) + (other.industry_id === client.industry_id ? 0.5 : 0);
+
+      if (similarity > 0) {
+        neighbours.set(other.id, similarity);
+      }
+    });
+
+    return neighbours;
+  }
+
+  /**
+   * Similarity-weighted share of similar clients that already buy the service
+   */
+  private scoreSimilarClients(
+    serviceId: number,
+    neighbours: Map<number, number>,
+    ownedServices: Map<number, Set<number>>
+  ): number {
+    let total = 0;
+    let buying = 0;
+
+    neighbours.forEach((similarity, clientId) => {
+      total += similarity;
+      if (ownedServices.get(clientId)!.has(serviceId)) {
+        buying += similarity;
+      }
+    });
+
+    return total > 0 ? buying / total : 0;
+  }
+
+  /**
+   * Win rate of closed opportunities per service. Services with few closed
+   * deals lean on their BU's rate, and BUs on the overall rate.
+   */
+  private buildWinRates(services: Service[], opportunities: Opportunity[]): Map<number, number> {
+    const serviceStats = new Map<number, WinStats>();
+    const buStats = new Map<number, WinStats>();
+    const overall: WinStats = { won: 0, closed: 0 };
+    const serviceUnits = new Map(services.map(service => [service.id, service.business_unit_id]));
+
+    const add = <K>(stats: Map<K, WinStats>, key: K, won: boolean) => {
+      const entry = stats.get(key) || { won: 0, closed: 0 };
+      entry.closed++;
+      if (won) entry.won++;
+      stats.set(key, entry);
+    };
+
+    opportunities
+      .filter(o => o.status === OpportunityStatus.WON || o.status === OpportunityStatus.LOST)
+      .forEach(opportunity => {
+        const won = opportunity.status === OpportunityStatus.WON;
+        add(serviceStats, opportunity.service_id, won);
+        const businessUnit = serviceUnits.get(opportunity.service_id);
+        if (businessUnit) add(buStats, businessUnit, won);
+        overall.closed++;
+        if (won) overall.won++;
+      });
+
+    const smooth = (stats: WinStats | undefined, prior: number) => {
+      const { won, closed } = stats || { won: 0, closed: 0 };
+      return (won + WIN_RATE_PRIOR_WEIGHT * prior) / (closed + WIN_RATE_PRIOR_WEIGHT);
+    };
+
+    // With no history at all every service starts at even odds
+    const overallRate = (overall.won + 1) / (overall.closed + 2);
+    const rates = new Map<number, number>();
+
+    services.forEach(service => {
+      const buRate = smooth(buStats.get(service.business_unit_id), overallRate);
+      rates.set(service.id, smooth(serviceStats.get(service.id), buRate));
+    });
+
+    return rates;
+  }
+
+  /**
+   * Plain-language reasons for the strongest factors
+   */
+  private explain(client: Client, factors: RecommendationFactors): string[] {
+    const reasons: string[] = [];
+
+    if (factors.industry_fit === 1) {
+      reasons.push(`Built for the ${client.industry} industry`);
+    }
+    if (factors.similar_clients >= 0.3) {
+      reasons.push(`${Math.round(factors.similar_clients * 100)}% of similar clients use it`);
+    }
+    if (factors.win_rate >= 0.5) {
+      reasons.push(`${Math.round(factors.win_rate * 100)}% historical win rate`);
+    }
+    if (factors.client_spend >= 0.5) {
+      reasons.push('Client already buys a lot from us');
+    }
+
+    return reasons;
+  }
+
+  private roundFactors(factors: RecommendationFactors): RecommendationFactors {
+    return {
+      industry_fit: Math.round(factors.industry_fit * 100) / 100,
+      similar_clients: Math.round(factors.similar_clients * 100) / 100,
+      win_rate: Math.round(factors.win_rate * 100) / 100,
+      client_spend: Math.round(factors.client_spend * 100) / 100
+    };
+  }
+}
+
+// Export as singleton instance
+export default new RecommendationService();
@@ -0,0 +1,105 @@
+import ScheduledExportModel, { ScheduledExport } from '../models/ScheduledExport';
+import UserModel from '../models/User';
+import { getScope } from '../policies/accessPolicy';
+import emailService from './emailService';
+import exportService, { EXPORT_RESOURCES, ExportEntity, ExportFormat } from './exportService';
+
+// Most due exports sent per poll; the rest wait for the next one
+const MAX_EXPORTS_PER_RUN = 20;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ENTITY_LABELS: Record<ExportEntity, string> = {
+  clients: 'Clients',
+  services: 'Services',
+  opportunities: 'Opportunities',
+  tasks: 'Tasks',
+  matrix: 'Cross-sell matrix'
+};
+
+/**
+ * The next time after `after` that falls on the given weekday and hour
+ * (server time)
+ */
+export const getNextRunAt = (dayOfWeek: number, hour: number, after: Date = new Date()): Date => {
+  const next = new Date(after);
+  next.setHours(hour, 0, 0, 0);
+  next.setDate(next.getDate() + ((dayOfWeek - next.getDay() + 7) % 7));
+  if (next <= after) {
+    next.setDate(next.getDate() + 7);
+  }
+  return next;
+};
+
+// e.g. "Monday at 08:00"
+const describeSchedule = (scheduled: ScheduledExport): string =>
+  `${DAY_NAMES[scheduled.day_of_week]} at ${String(scheduled.hour).padStart(2, '0')}:00`;
+
+/**
+ * ScheduledExportService emails users the exports they saved, once a week
+ */
+class ScheduledExportService {
+  /**
+   * Build a scheduled export and email it to its owner now. Throws if the
+   * owner is gone, may no longer read the data, or the email isn't sent.
+   */
+  async send(scheduled: ScheduledExport): Promise<void> {
+    const entity = scheduled.entity as ExportEntity;
+    const user = await UserModel.findById(scheduled.user_id);
+    if (!user) {
+      throw new Error('The user no longer exists');
+    }
+    if (!getScope(user.role, EXPORT_RESOURCES[entity], 'read')) {
+      throw new Error(`The user can no longer export ${entity}`);
+    }
+
+    const file = await exportService.buildFile(entity, scheduled.format as ExportFormat, scheduled.query);
+    const sent = await emailService.sendScheduledExportEmail(user.email, {
+      username: user.username,
+      name: scheduled.name,
+      entity_label: ENTITY_LABELS[entity],
+      filename: file.filename,
+      schedule: describeSchedule(scheduled),
+      app_url: process.env.APP_URL || 'http://localhost:3000'
+    }, {
+      filename: file.filename,
+      content: file.content,
+      contentType: file.contentType
+    });
+
+    if (!sent) {
+      throw new Error('The email could not be sent');
+    }
+  }
+
+  /**
+   * Send every scheduled export that is due. Each one is moved on to its
+   * next run before it's sent, so a failing export is retried next week
+   * rather than on every poll; the failure is kept on the export.
+   */
+  async runDueExports(): Promise<number> {
+    const due = await ScheduledExportModel.findDue(MAX_EXPORTS_PER_RUN);
+    let sentCount = 0;
+
+    for (const scheduled of due) {
+      const nextRunAt = getNextRunAt(scheduled.day_of_week, scheduled.hour);
+      if (!(await ScheduledExportModel.claim(scheduled.id, scheduled.next_run_at, nextRunAt))) {
+        continue;
+      }
+
+      try {
+        await this.send(scheduled);
+        await ScheduledExportModel.recordRun(scheduled.id, null);
+        sentCount++;
+      } catch (error) {
+        console.error(`Error sending scheduled export ${scheduled.id}:`, error);
+        await ScheduledExportModel.recordRun(scheduled.id, (error as Error).message);
+      }
+    }
+
+    return sentCount;
+  }
+}
+
+// Export as singleton instance
+export default new ScheduledExportService();
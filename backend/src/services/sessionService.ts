@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import UserModel, { User, UserRole } from '../models/User';
+import UserSessionModel, { UserSession } from '../models/UserSession';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_DAYS, getJwtSecret } from '../config/auth';
+
+// Where a session was started from, shown in the sessions list
+export interface SessionMeta {
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: UserSession;
+}
+
+// Claims in an access token; sid ties it to a user_sessions row
+export interface AccessTokenPayload {
+  userId: number;
+  role: UserRole;
+  sid: number;
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * SessionService issues access/refresh token pairs, one session per sign-in,
+ * and rotates the refresh token every time it's used
+ */
+class SessionService {
+  /**
+   * Start a session for a user who just signed in
+   */
+  async start(user: Pick<User, 'id' | 'role'>, meta: SessionMeta): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const session = await UserSessionModel.create({
+      user_id: user.id,
+      refresh_token_hash: hashToken(refreshToken),
+      user_agent: meta.user_agent,
+      ip_address: meta.ip_address,
+      expires_at: this.getRefreshExpiry()
+    });
+
+    return {
+      accessToken: this.signAccessToken(user.id, user.role, session.id),
+      refreshToken,
+      session
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Returns null when the
+   * token is unknown, already used, revoked or expired.
+   */
+  async refresh(refreshToken: string, meta: SessionMeta): Promise<SessionTokens | null> {
+    const newRefreshToken = crypto.randomBytes(32).toString('hex');
+    const session = await UserSessionModel.rotate(
+      hashToken(refreshToken),
+      hashToken(newRefreshToken),
+      this.getRefreshExpiry(),
+      meta
+    );
+    if (!session) {
+      return null;
+    }
+
+    // Sign with the role as it is now, not as it was at sign-in
+    const user = await UserModel.findById(session.user_id);
+    if (!user) {
+      return null;
+    }
+
+    return {
+      accessToken: this.signAccessToken(user.id, user.role, session.id),
+      refreshToken: newRefreshToken,
+      session
+    };
+  }
+
+  /**
+   * Verify an access token and check its session is still active. Throws if
+   * the token is invalid or expired; returns null if the session was revoked.
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+    const decoded = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+
+    // Tokens issued before sessions existed have no sid
+    if (!decoded.sid || !(await UserSessionModel.isActive(decoded.sid, decoded.userId))) {
+      return null;
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Sign a user out of every device, optionally except the current session
+   */
+  async revokeAll(userId: number, exceptSessionId?: number): Promise<number> {
+    return UserSessionModel.revokeAllForUser(userId, exceptSessionId);
+  }
+
+  private signAccessToken(userId: number, role: UserRole, sessionId: number): string {
+    const payload: AccessTokenPayload = { userId, role, sid: sessionId };
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+  }
+
+  private getRefreshExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+// Export as singleton instance
+export default new SessionService();
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import db from '../config/database';
+import { getJwtSecret } from '../config/auth';
+import { User, UserRole } from '../models/User';
+import UserTwoFactorModel from '../models/UserTwoFactor';
+import RecoveryCodeModel from '../models/RecoveryCode';
+import TwoFactorPolicyModel from '../models/TwoFactorPolicy';
+import UserSessionModel from '../models/UserSession';
+import { base32Decode, buildOtpauthUrl, generateSecret, verifyTotp } from '../utils/totp';
+
+// Shown as the account's issuer in authenticator apps
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Wondrlab';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// How long a user has to enter their code after the password step
+const CHALLENGE_TTL_SECONDS = 300;
+
+/**
+ * What the password step of a login leads to: entering a code for a user
+ * with two-factor on, or setting it up for a user whose role requires it
+ */
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+// Claims in a challenge token; purpose keeps it from being used as anything else
+interface ChallengePayload {
+  userId: number;
+  twoFactor: TwoFactorChallengePurpose;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const hashCode = (code: string): string =>
+  crypto.createHash('sha256').update(code).digest('hex');
+
+// Recovery codes are compared without case, spaces or dashes
+const normalizeRecoveryCode = (code: string): string =>
+  code.toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCode = (): string => {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+/**
+ * TwoFactorService handles TOTP enrollment, code and recovery code checks,
+ * the short-lived challenge between the password and code steps of a login,
+ * and the per-role requirement
+ */
+class TwoFactorService {
+  /**
+   * Whether a user has two-factor on, whether their role requires it, and how
+   * many recovery codes they have left
+   */
+  async getStatus(user: Pick<User, 'id' | 'role'>): Promise<TwoFactorStatus> {
+    const [enabled, required, recoveryCodesRemaining] = await Promise.all([
+      this.isEnabled(user.id),
+      TwoFactorPolicyModel.isRequiredForRole(user.role),
+      RecoveryCodeModel.countRemaining(user.id)
+    ]);
+
+    return { enabled, required, recoveryCodesRemaining: enabled ? recoveryCodesRemaining : 0 };
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const settings = await UserTwoFactorModel.findByUserId(userId);
+    return !!settings?.enabled_at;
+  }
+
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    return TwoFactorPolicyModel.isRequiredForRole(role);
+  }
+
+  /**
+   * Generate a secret for the user to add to their authenticator app. It
+   * takes effect once enable() confirms a code from it. Returns null if
+   * two-factor is already on.
+   */
+  async beginSetup(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorSetup | null> {
+    const secret = generateSecret();
+    const saved = await UserTwoFactorModel.savePendingSecret(user.id, secret);
+    if (!saved) {
+      return null;
+    }
+
+    return { secret, otpauthUrl: buildOtpauthUrl(TWO_FACTOR_ISSUER, user.email, secret) };
+  }
+
+  /**
+   * Turn two-factor on after checking a code from the pending secret.
+   * Returns the new recovery codes, or null if there's no pending secret or
+   * the code is wrong.
+   */
+  async enable(userId: number, code: string): Promise<string[] | null> {
+    const settings = await UserTwoFactorModel.findByUserId(userId);
+    if (!settings || settings.enabled_at) {
+      return null;
+    }
+
+    const step = verifyTotp(base32Decode(settings.secret), code.replace(/\s/g, ''));
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+      const enabled = await UserTwoFactorModel.enable(userId, step, client);
+      if (!enabled) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      await RecoveryCodeModel.replaceForUser(userId, recoveryCodes.map(c => hashCode(normalizeRecoveryCode(c))), client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error enabling two-factor:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a code from the user's authenticator app, or one of their recovery
+   * codes, which is then used up. A TOTP code is only accepted once.
+   */
+  async verify(userId: number, code: string): Promise<boolean> {
+    const settings = await UserTwoFactorModel.findByUserId(userId);
+    if (!settings?.enabled_at) {
+      return false;
+    }
+
+    const trimmed = code.replace(/\s/g, '');
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotp(base32Decode(settings.secret), trimmed, { lastUsedStep: settings.last_used_step });
+      return step !== null && UserTwoFactorModel.markStepUsed(userId, step);
+    }
+
+    return RecoveryCodeModel.consume(userId, hashCode(normalizeRecoveryCode(trimmed)));
+  }
+
+  /**
+   * Replace the user's recovery codes, invalidating the old ones
+   */
+  async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await RecoveryCodeModel.replaceForUser(userId, recoveryCodes.map(c => hashCode(normalizeRecoveryCode(c))), client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error regenerating recovery codes:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor off, removing the secret and recovery codes
+   */
+  async disable(userId: number): Promise<boolean> {
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+      const removed = await UserTwoFactorModel.delete(userId, client);
+      await RecoveryCodeModel.deleteForUser(userId, client);
+      await client.query('COMMIT');
+      return removed;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error disabling two-factor:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the roles that require two-factor
+   */
+  async getRequiredRoles(): Promise<UserRole[]> {
+    return TwoFactorPolicyModel.findRequiredRoles();
+  }
+
+  /**
+   * Set the roles that require two-factor. Users in a newly required role
+   * who haven't set it up are signed out, so they set it up at next login.
+   */
+  async setRequiredRoles(roles: UserRole[], updatedBy: number): Promise<UserRole[]> {
+    const previous = await TwoFactorPolicyModel.findRequiredRoles();
+    const saved = await TwoFactorPolicyModel.setRequiredRoles(roles, updatedBy);
+
+    const added = saved.filter(role => !previous.includes(role));
+    if (added.length) {
+      await UserSessionModel.revokeAllForRolesWithoutTwoFactor(added);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Sign a challenge token for the second step of a login
+   */
+  createChallenge(userId: number, purpose: TwoFactorChallengePurpose): string {
+    const payload: ChallengePayload = { userId, twoFactor: purpose };
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: CHALLENGE_TTL_SECONDS });
+  }
+
+  /**
+   * Check a challenge token. Returns the user ID and purpose, or null if the
+   * token is invalid, expired or not a challenge.
+   */
+  verifyChallenge(token: string): { userId: number; purpose: TwoFactorChallengePurpose } | null {
+    try {
+      const decoded = jwt.verify(token, getJwtSecret()) as Partial<ChallengePayload>;
+      if (!decoded.userId || (decoded.twoFactor !== 'verify' && decoded.twoFactor !== 'setup')) {
+        return null;
+      }
+      return { userId: decoded.userId, purpose: decoded.twoFactor };
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export as singleton instance
+export default new TwoFactorService();
@@ -0,0 +1,205 @@
+import { PoolClient } from 'pg';
+import WorkflowRuleModel, {
+  WorkflowRule,
+  WorkflowRuleAction,
+  WorkflowRuleRecipient,
+  WorkflowRuleTrigger
+} from '../models/WorkflowRule';
+import OpportunityModel from '../models/Opportunity';
+import ClientModel from '../models/Client';
+import ServiceModel from '../models/Service';
+import TaskModel, { Task, TaskStatus } from '../models/Task';
+import NotificationModel, { NotificationType } from '../models/Notification';
+
+// Facts about the change a rule is evaluated against; also used to fill
+// {{placeholders}} in task names and notification text
+export interface WorkflowRuleContext {
+  opportunity_id: number;
+  opportunity_name: string;
+  client_id: number;
+  client_name: string;
+  account_owner_id: number | null;
+  service_id: number;
+  service_name: string;
+  business_unit_id: number | null;
+  business_unit: string;
+  priority: string;
+  assigned_user_id: number;
+  status: string;
+  previous_status: string | null;
+  task_id?: number;
+  task_name?: string;
+}
+
+/**
+ * WorkflowRuleService evaluates admin-defined workflow rules and runs their actions
+ */
+class WorkflowRuleService {
+  /**
+   * Build the rule context for an opportunity change
+   */
+  async buildOpportunityContext(
+    opportunityId: number,
+    status: string,
+    previousStatus: string | null
+  ): Promise<WorkflowRuleContext | null> {
+    const opportunity = await OpportunityModel.findById(opportunityId);
+    if (!opportunity) return null;
+
+    const client = await ClientModel.findById(opportunity.client_id);
+    const service = await ServiceModel.findById(opportunity.service_id);
+
+    return {
+      opportunity_id: opportunity.id,
+      opportunity_name: opportunity.name,
+      client_id: opportunity.client_id,
+      client_name: client ? client.name : '',
+      account_owner_id: client ? client.account_owner_id : null,
+      service_id: opportunity.service_id,
+      service_name: service ? service.name : '',
+      business_unit_id: service ? service.business_unit_id : null,
+      business_unit: service ? service.business_unit : '',
+      priority: opportunity.priority,
+      assigned_user_id: opportunity.assigned_user_id,
+      status,
+      previous_status: previousStatus
+    };
+  }
+
+  /**
+   * Build the rule context for a task change; status refers to the task,
+   * everything else to the task's opportunity
+   */
+  async buildTaskContext(
+    taskId: number,
+    status: string,
+    previousStatus: string | null
+  ): Promise<WorkflowRuleContext | null> {
+    const task = await TaskModel.findById(taskId);
+    if (!task) return null;
+
+    const context = await this.buildOpportunityContext(task.opportunity_id, status, previousStatus);
+    if (!context) return null;
+
+    return {
+      ...context,
+      assigned_user_id: task.assigned_user_id,
+      task_id: task.id,
+      task_name: task.name
+    };
+  }
+
+  /**
+   * Get the active rules for a trigger whose conditions match the context
+   */
+  async findMatchingRules(trigger: WorkflowRuleTrigger, context: WorkflowRuleContext): Promise<WorkflowRule[]> {
+    const rules = await WorkflowRuleModel.findActiveByTrigger(trigger);
+    return rules.filter(rule => this.matches(rule, context));
+  }
+
+  /**
+   * Check a rule's conditions against the context
+   */
+  matches(rule: WorkflowRule, context: WorkflowRuleContext): boolean {
+    const conditions = rule.conditions || {};
+
+    if (conditions.status && conditions.status !== context.status) return false;
+    if (conditions.previous_status && conditions.previous_status !== context.previous_status) return false;
+    if (conditions.priority && conditions.priority !== context.priority) return false;
+    if (conditions.business_unit_id && Number(conditions.business_unit_id) !== context.business_unit_id) return false;
+    if (conditions.service_id && Number(conditions.service_id) !== context.service_id) return false;
+    if (conditions.client_id && Number(conditions.client_id) !== context.client_id) return false;
+
+    return true;
+  }
+
+  /**
+   * Run a rule's action, writing through the given client. Returns the task
+   * created by a create_task rule so the caller can queue the task's own events.
+   */
+  async executeAction(rule: WorkflowRule, context: WorkflowRuleContext, client: PoolClient): Promise<Task | null> {
+    const config = rule.action_config || {};
+
+    if (rule.action_type === WorkflowRuleAction.CREATE_TASK) {
+      const assigneeId = await this.resolveRecipient(config.assign_to || WorkflowRuleRecipient.ASSIGNEE, rule, context);
+      if (!assigneeId) {
+        console.log(`Workflow rule ${rule.id}: no user to assign the task to`);
+        return null;
+      }
+
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + (Number(config.due_in_days) || 0));
+
+      const task = await TaskModel.create({
+        name: this.fillTemplate(config.task_name || rule.name, context),
+        opportunity_id: context.opportunity_id,
+        assigned_user_id: assigneeId,
+        due_date: dueDate,
+        status: TaskStatus.PENDING,
+        description: config.task_description ? this.fillTemplate(config.task_description, context) : undefined
+      }, client);
+
+      console.log(`Workflow rule ${rule.id} created task ${task.id}`);
+      return task;
+    }
+
+    if (rule.action_type === WorkflowRuleAction.NOTIFY) {
+      const recipientId = await this.resolveRecipient(config.recipient || WorkflowRuleRecipient.RULE_OWNER, rule, context);
+      if (!recipientId) {
+        console.log(`Workflow rule ${rule.id}: no user to notify`);
+        return null;
+      }
+
+      await NotificationModel.create({
+        user_id: recipientId,
+        type: NotificationType.WORKFLOW_RULE,
+        title: this.fillTemplate(config.title || rule.name, context),
+        message: this.fillTemplate(config.message || '', context),
+        related_to: context.task_id ? 'task' : 'opportunity',
+        related_id: context.task_id || context.opportunity_id
+      }, client);
+
+      console.log(`Workflow rule ${rule.id} notified user ${recipientId}`);
+      return null;
+    }
+
+    throw new Error(`Unknown workflow rule action: ${rule.action_type}`);
+  }
+
+  /**
+   * Turn a recipient option into a user ID
+   */
+  private async resolveRecipient(
+    recipient: WorkflowRuleRecipient,
+    rule: WorkflowRule,
+    context: WorkflowRuleContext
+  ): Promise<number | null> {
+    switch (recipient) {
+      case WorkflowRuleRecipient.ASSIGNEE:
+        return context.assigned_user_id;
+      case WorkflowRuleRecipient.ACCOUNT_OWNER:
+        return context.account_owner_id;
+      case WorkflowRuleRecipient.RULE_OWNER:
+        return rule.created_by;
+      case WorkflowRuleRecipient.BU_HEAD:
+        return context.business_unit_id
+          ? NotificationModel.findBUHeadByBusinessUnit(context.business_unit_id)
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Replace {{field}} placeholders with values from the context
+   */
+  private fillTemplate(text: string, context: WorkflowRuleContext): string {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, field) => {
+      const value = (context as unknown as Record<string, any>)[field];
+      return value !== undefined && value !== null ? String(value) : match;
+    });
+  }
+}
+
+// Export as singleton instance
+export default new WorkflowRuleService();
@@ -1,12 +1,19 @@
-import TaskModel from '../models/Task';
+import { PoolClient } from 'pg';
+import db from '../config/database';
+import TaskModel, { Task, TaskStatus } from '../models/Task';
 import NotificationModel, { NotificationType } from '../models/Notification';
-import OpportunityModel, { OpportunityStatus } from '../models/Opportunity';
+import OpportunityModel, { OpportunityPriority, OpportunityStatus } from '../models/Opportunity';
+import OpportunityStatusHistoryModel from '../models/OpportunityStatusHistory';
 import ClientModel from '../models/Client';
+import ClientServiceModel, { ClientService, getExpiryDate } from '../models/ClientService';
 import ServiceModel from '../models/Service';
 import UserModel from '../models/User';
-import EmailService from './emailService';
+import WorkflowJobModel, { WorkflowEventType, WorkflowJob, WorkflowJobInput } from '../models/WorkflowJob';
+import WorkflowRuleModel, { WorkflowRuleTrigger } from '../models/WorkflowRule';
+import EmailService, { EmailResult } from './emailService';
+import workflowRuleService, { WorkflowRuleContext } from './workflowRuleService';
 
-// Extended Task interface for the joined properties returned by findOverdueTasks
+// Extended Task interface for the joined properties returned by findWithDetails
 interface ExtendedTask {
   id: number;
   name: string;
@@ -23,223 +30,699 @@ interface ExtendedTask {
   service_name: string;
   assigned_user_email: string;
   assigned_user_name: string;
-  bu_head_email: string;
-  bu_head_name: string;
+  business_unit_id: number;
   business_unit: string;
 }
 
+type WorkflowHandler = (payload: Record<string, any>, job: WorkflowJob) => Promise<void>;
+
+// Number of jobs claimed from the queue at a time
+const QUEUE_BATCH_SIZE = 20;
+
+// Retry backoff: 30s, 1m, 2m, ... capped at an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Jobs stuck in processing longer than this are assumed abandoned
+const STALE_JOB_MINUTES = 10;
+
+// Overdue tasks are escalated to the BU Head after this long
+const ESCALATION_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Renewal opportunities are raised this many days before an engagement expires
+const RENEWAL_LEAD_DAYS = parseInt(process.env.RENEWAL_LEAD_DAYS || '30');
+
 /**
- * WorkflowService handles automated processes like:
- * - Checking for overdue tasks and sending notifications
- * - Updating client services when opportunities are marked as won
- * - Other automated processes as needed
+ * WorkflowService runs automated processes from a persisted job queue:
+ * - Controllers emit domain events (opportunity status changes, task creation)
+ * - Time-based checks (task overdue, escalation, renewals) are queued to run at their due time
+ * - Each job's dedupe key is recorded, so the same work is never queued twice
+ * - Failed jobs are retried with exponential backoff; each step with side effects
+ *   (records, notifications, emails) is recorded on the job, so a retry neither
+ *   repeats nor skips it
+ * - Admin-defined workflow rules are evaluated on each event and run as their own jobs
  */
 class WorkflowService {
+  private processing = false;
+  private handlers: Record<string, WorkflowHandler>;
+
   constructor() {
-    // Constructor is empty as we use singleton instances of models
+    this.handlers = {
+      [WorkflowEventType.OPPORTUNITY_STATUS_CHANGED]: (payload, job) => this.handleOpportunityStatusChanged(payload, job),
+      [WorkflowEventType.TASK_CREATED]: (payload, job) => this.handleTaskCreated(payload, job),
+      [WorkflowEventType.TASK_STATUS_CHANGED]: (payload, job) => this.handleTaskStatusChanged(payload, job),
+      [WorkflowEventType.TASK_DUE_DATE_CHANGED]: payload => this.handleTaskDueDateChanged(payload),
+      [WorkflowEventType.TASK_OVERDUE_CHECK]: (payload, job) => this.handleTaskOverdueCheck(payload, job),
+      [WorkflowEventType.TASK_ESCALATION_CHECK]: (payload, job) => this.handleTaskEscalationCheck(payload, job),
+      [WorkflowEventType.CLIENT_SERVICE_RENEWAL_CHECK]: (payload, job) => this.handleRenewalCheck(payload, job),
+      [WorkflowEventType.WORKFLOW_RULE_ACTION]: (payload, job) => this.handleWorkflowRuleAction(payload, job)
+    };
   }
 
   /**
-   * Process overdue tasks and send notifications
-   * - Sends notification to task owner
-   * - After 24 hours, escalates to BU Head
+   * Queue an event for processing. Jobs that are due now are picked up straight
+   * away; delayed jobs are picked up by the polling worker once due.
+   * Errors are logged rather than thrown so callers never fail because of a workflow.
    */
-  async processOverdueTasks(): Promise<void> {
+  async emit(eventType: WorkflowEventType, payload: Record<string, any>, dedupeKey?: string, runAt?: Date): Promise<void> {
     try {
-      // Get all overdue tasks
-      const overdueTasks = await TaskModel.findOverdueTasks() as ExtendedTask[];
-      
-      if (overdueTasks.length === 0) {
-        console.log('No overdue tasks found');
-        return;
+      const job = await WorkflowJobModel.enqueue({
+        event_type: eventType,
+        payload,
+        dedupe_key: dedupeKey,
+        run_at: runAt
+      });
+
+      if (job && new Date(job.run_at).getTime() <= Date.now()) {
+        this.processSoon();
       }
-      
-      console.log(`Processing ${overdueTasks.length} overdue tasks`);
-      
-      for (const task of overdueTasks) {
-        // Calculate how many hours the task is overdue
-        const now = new Date();
-        const dueDate = new Date(task.due_date);
-        const hoursOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60));
-        
-        // Send in-app notification to task owner
-          await NotificationModel.create({
-            user_id: task.assigned_user_id,
-            type: NotificationType.TASK_OVERDUE,
-            title: 'Task Overdue',
-            message: `Task "${task.name}" is overdue. Please complete it as soon as possible.`,
-            related_to: 'task',
-          related_id: task.id
-          });
-        
-        // Send email notification to task owner
-        const taskData = {
-          ...task,
-          overdue_duration: `${hoursOverdue} hours`,
-          app_url: process.env.APP_URL || 'http://localhost:3000'
-        };
-        
-        await EmailService.sendTaskOverdueEmail(
-          task.assigned_user_email,
-          taskData,
-          task.assigned_user_id
-        );
-          
-          console.log(`Sent overdue notification for task ${task.id} to user ${task.assigned_user_id}`);
-        
-        // If task is overdue by more than 24 hours, escalate to BU Head if available
-        if (hoursOverdue >= 24 && task.bu_head_email) {
-          // Find the BU Head ID using the business unit
-          const buHeadId = await NotificationModel.findBUHeadByBusinessUnit(task.business_unit);
-          if (buHeadId) {
-            // Send in-app notification
-              await NotificationModel.create({
-              user_id: buHeadId,
-                type: NotificationType.TASK_OVERDUE_ESCALATION,
-                title: 'Task Overdue Escalation',
-              message: `Task "${task.name}" assigned to ${task.assigned_user_name} is more than 24 hours overdue.`,
-                related_to: 'task',
-              related_id: task.id
-              });
-              
-            // Send email escalation
-            await EmailService.sendTaskEscalationEmail(
-              task.bu_head_email,
-              taskData,
-              buHeadId
-            );
-            
-            console.log(`Escalated overdue task ${task.id} to BU Head ${buHeadId}`);
-          }
+    } catch (error) {
+      console.error(`Error emitting workflow event ${eventType}:`, error);
+    }
+  }
+
+  /**
+   * Start a queue pass on the next tick. Callers that queue jobs inside their
+   * own transaction (WorkflowJobModel.enqueue with its client) call this once
+   * it has committed, so the job is saved if and only if their write is.
+   */
+  processSoon(): void {
+    setImmediate(() => {
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Process all due jobs in the queue
+   */
+  async processQueue(): Promise<void> {
+    // Only one pass at a time; a pass already running will pick up new jobs
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+
+    try {
+      const released = await WorkflowJobModel.releaseStale(STALE_JOB_MINUTES);
+      if (released > 0) {
+        console.log(`Released ${released} stale workflow jobs`);
+      }
+
+      let jobs = await WorkflowJobModel.claimDue(QUEUE_BATCH_SIZE);
+
+      while (jobs.length > 0) {
+        for (const job of jobs) {
+          await this.runJob(job);
         }
+
+        jobs = await WorkflowJobModel.claimDue(QUEUE_BATCH_SIZE);
       }
     } catch (error) {
-      console.error('Error processing overdue tasks:', error);
+      console.error('Error processing workflow queue:', error);
+    } finally {
+      this.processing = false;
     }
   }
 
   /**
-   * Process won opportunities and update client services
-   * - When an opportunity is marked as won, add the service to the client's services_used
+   * Run a single claimed job and record the outcome
    */
-  async processWonOpportunities(): Promise<void> {
+  private async runJob(job: WorkflowJob): Promise<void> {
+    const handler = this.handlers[job.event_type];
+
     try {
-      // Get opportunities with WON status
-      const wonOpportunities = await OpportunityModel.findByStatus(OpportunityStatus.WON);
-      
-      if (wonOpportunities.length === 0) {
-        console.log('No won opportunities to process');
-        return;
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.event_type}`);
       }
-      
-      console.log(`Processing ${wonOpportunities.length} won opportunities`);
-      
-      for (const opportunity of wonOpportunities) {
-        // Get the client
-        const client = await ClientModel.findById(opportunity.client_id);
-        if (!client) {
-          console.log(`Client ${opportunity.client_id} not found for opportunity ${opportunity.id}`);
-          continue;
-        }
-        
-        // Check if service is already in client's services_used
-        if (client.services_used.includes(opportunity.service_id)) {
-          console.log(`Service ${opportunity.service_id} already added to client ${client.id}`);
-          continue;
-        }
-        
-        // Update client's services_used to include the won service
-        await ClientModel.addService(opportunity.client_id, opportunity.service_id);
-        
-        // Get service details
-        const service = await ServiceModel.findById(opportunity.service_id);
-        if (!service) continue;
-        
-        // Get assigned user details
-        const assignedUser = await UserModel.findById(opportunity.assigned_user_id);
-        if (!assignedUser) continue;
-        
-        // Notify account owner
-        await NotificationModel.create({
-          user_id: client.account_owner_id,
-          type: NotificationType.OPPORTUNITY_WON,
-          title: 'Opportunity Won',
-          message: `Opportunity "${opportunity.name}" for service "${service.name}" has been won and added to client's services.`,
-          related_to: 'opportunity',
-          related_id: opportunity.id
-        });
-        
-        // Find and notify BU Head if possible
-        const buHeadId = await NotificationModel.findBUHeadByBusinessUnit(service.business_unit);
-        if (buHeadId) {
-          await NotificationModel.create({
-            user_id: buHeadId,
-            type: NotificationType.OPPORTUNITY_WON,
-            title: 'Opportunity Won - BU Notification',
-            message: `Opportunity "${opportunity.name}" for client "${client.name}" has been won. Service "${service.name}" has been added to client's services.`,
-            related_to: 'opportunity',
-            related_id: opportunity.id
-          });
-        }
-        
-        // Send email notifications
-        const opportunityData = {
-          ...opportunity,
-          client_name: client.name,
-          service_name: service.name,
-          business_unit: service.business_unit,
-          assigned_user_name: assignedUser.username,
-          app_url: process.env.APP_URL || 'http://localhost:3000'
-        };
-        
-        // Collect recipients for email
-        const recipients: string[] = [];
-        const userIds: number[] = [];
-        
-        // Add account owner
-        const accountOwner = await UserModel.findById(client.account_owner_id);
-        if (accountOwner) {
-          recipients.push(accountOwner.email);
-          userIds.push(accountOwner.id);
-        }
-        
-        // Add BU Head
-        if (buHeadId) {
-          const buHead = await UserModel.findById(buHeadId);
-          if (buHead) {
-            recipients.push(buHead.email);
-            userIds.push(buHead.id);
-          }
-        }
-        
-        // Add assigned user
-        recipients.push(assignedUser.email);
-        userIds.push(assignedUser.id);
-        
-        // Send celebration email
-        await EmailService.sendOpportunityWonEmail(
-          recipients,
-          opportunityData,
-          userIds
-        );
-        
-        console.log(`Updated client ${opportunity.client_id} with service ${opportunity.service_id} from won opportunity ${opportunity.id}`);
+
+      await handler(job.payload, job);
+      await WorkflowJobModel.markCompleted(job.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      const retryAt = job.attempts < job.max_attempts
+        ? new Date(Date.now() + this.getRetryDelay(job.attempts))
+        : null;
+
+      console.error(`Workflow job ${job.id} (${job.event_type}) failed on attempt ${job.attempts}:`, message);
+      await WorkflowJobModel.markFailed(job.id, message, retryAt);
+    }
+  }
+
+  /**
+   * Delay before the next attempt, doubling with each failure
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  /**
+   * Run one step of a job unless an earlier attempt already finished it. The
+   * step's writes and the record that it's done commit together, so a retry
+   * picks up at the step that failed. An email can't be rolled back, so one
+   * is only sent again if recording its step fails.
+   */
+  private async runStep(job: WorkflowJob, step: string, action: (client: PoolClient) => Promise<unknown>): Promise<void> {
+    const completedSteps: string[] = job.payload.completed_steps || [];
+    if (completedSteps.includes(step)) return;
+
+    const client = await db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await action(client);
+      await WorkflowJobModel.markStepCompleted(job.id, step, client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    job.payload.completed_steps = [...completedSteps, step];
+  }
+
+  /**
+   * Run a step that sends an email. A failed send throws so the job is
+   * retried; a skipped one (email switched off or the recipient opted out)
+   * has nothing to retry, so the step is done.
+   */
+  private async runEmailStep(job: WorkflowJob, step: string, send: () => Promise<EmailResult>): Promise<void> {
+    await this.runStep(job, step, async () => {
+      if (await send() === 'failed') {
+        throw new Error(`Failed to send the ${step} email for workflow job ${job.id}`);
+      }
+    });
+  }
+
+  /**
+   * Queue the overdue check for a task at its due date.
+   * Keyed by due date, so rescheduling a task queues a fresh check.
+   */
+  async scheduleTaskOverdueCheck(task: Task): Promise<void> {
+    const dueDate = new Date(task.due_date);
+
+    await this.emit(
+      WorkflowEventType.TASK_OVERDUE_CHECK,
+      { task_id: task.id, due_date: dueDate.toISOString() },
+      `task.overdue_check:${task.id}:${dueDate.toISOString()}`,
+      dueDate
+    );
+  }
+
+  /**
+   * Make sure every open task has its overdue check queued.
+   * Safe to run repeatedly; already queued checks are skipped.
+   */
+  async scheduleOpenTaskChecks(): Promise<void> {
+    try {
+      const openTasks = await TaskModel.findOpenTasks();
+
+      for (const task of openTasks) {
+        await this.scheduleTaskOverdueCheck(task);
       }
     } catch (error) {
-      console.error('Error processing won opportunities:', error);
+      console.error('Error scheduling task overdue checks:', error);
+    }
+  }
+
+  /**
+   * Queue the renewal check for an engagement, RENEWAL_LEAD_DAYS before it
+   * expires (straight away if that's already past). Keyed by expiry date, so
+   * changing the renewal or end date queues a fresh check.
+   */
+  async scheduleRenewalCheck(engagement: ClientService): Promise<void> {
+    const job = this.buildRenewalCheckJob(engagement);
+    if (!job) return;
+
+    await this.emit(job.event_type, job.payload, job.dedupe_key, job.run_at);
+  }
+
+  /**
+   * The renewal check job for an engagement, or null if it never expires
+   */
+  private buildRenewalCheckJob(engagement: ClientService): WorkflowJobInput | null {
+    const expiresOn = getExpiryDate(engagement);
+    if (!expiresOn) return null;
+
+    const runAt = new Date(`${expiresOn}T00:00:00`);
+    runAt.setDate(runAt.getDate() - RENEWAL_LEAD_DAYS);
+
+    return {
+      event_type: WorkflowEventType.CLIENT_SERVICE_RENEWAL_CHECK,
+      payload: { client_service_id: engagement.id, expires_on: expiresOn },
+      dedupe_key: `client_service.renewal_check:${engagement.id}:${expiresOn}`,
+      run_at: runAt
+    };
+  }
+
+  /**
+   * Make sure every engagement still coming up for renewal has its check queued.
+   * Safe to run repeatedly; already queued checks are skipped.
+   */
+  async scheduleRenewalChecks(): Promise<void> {
+    try {
+      const engagements = await ClientServiceModel.findRenewable();
+
+      for (const engagement of engagements) {
+        await this.scheduleRenewalCheck(engagement);
+      }
+    } catch (error) {
+      console.error('Error scheduling renewal checks:', error);
+    }
+  }
+
+  /**
+   * Load a task for an overdue/escalation check, or null if the check no longer
+   * applies (task deleted, completed, or rescheduled since the check was queued)
+   */
+  private async findTaskStillOverdue(payload: Record<string, any>): Promise<ExtendedTask | null> {
+    const task = await TaskModel.findWithDetails(payload.task_id) as ExtendedTask | null;
+
+    if (!task || task.status === TaskStatus.COMPLETED) {
+      return null;
+    }
+
+    if (new Date(task.due_date).toISOString() !== payload.due_date) {
+      return null;
+    }
+
+    return task;
+  }
+
+  /**
+   * Queue an action job for every workflow rule matching the event.
+   * Keyed by rule and source job, so a retried event never runs a rule twice.
+   * Enqueue errors are thrown so the source job is retried.
+   */
+  private async evaluateRules(
+    trigger: WorkflowRuleTrigger,
+    context: WorkflowRuleContext | null,
+    job: WorkflowJob
+  ): Promise<void> {
+    if (!context) return;
+
+    const rules = await workflowRuleService.findMatchingRules(trigger, context);
+
+    for (const rule of rules) {
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.WORKFLOW_RULE_ACTION,
+        payload: { rule_id: rule.id, context },
+        dedupe_key: `workflow_rule.action:${rule.id}:${job.id}`
+      });
     }
   }
 
+  /**
+   * Run the action of a matched workflow rule. A created task's event is
+   * queued in the same step, so it can't be lost or queued twice.
+   */
+  private async handleWorkflowRuleAction(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    // The rule may have been switched off or deleted since it matched
+    const rule = await WorkflowRuleModel.findById(payload.rule_id);
+    if (!rule || !rule.is_active) return;
+
+    await this.runStep(job, 'action', async client => {
+      const task = await workflowRuleService.executeAction(rule, payload.context, client);
+
+      if (task) {
+        await WorkflowJobModel.enqueue({
+          event_type: WorkflowEventType.TASK_CREATED,
+          payload: { task_id: task.id, created_by: null, created_by_rule: rule.id },
+          dedupe_key: `task.created:${task.id}`
+        }, client);
+      }
+    });
+  }
+
+  /**
+   * Notify the assigned user of a new task, queue its overdue check and
+   * evaluate task_created rules
+   */
+  private async handleTaskCreated(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    const task = await TaskModel.findWithDetails(payload.task_id) as ExtendedTask | null;
+    if (!task) return;
+
+    await this.scheduleTaskOverdueCheck(task);
+
+    // Tasks created by rules don't trigger task rules, so rules can't loop
+    if (!payload.created_by_rule) {
+      await this.evaluateRules(
+        WorkflowRuleTrigger.TASK_CREATED,
+        await workflowRuleService.buildTaskContext(task.id, task.status, null),
+        job
+      );
+    }
+
+    // Users aren't notified of tasks they assign to themselves
+    if (task.assigned_user_id === payload.created_by) {
+      return;
+    }
+
+    await this.runStep(job, 'notification', client => NotificationModel.create({
+      user_id: task.assigned_user_id,
+      type: NotificationType.TASK_ASSIGNED,
+      title: 'New Task Assigned',
+      message: `You have been assigned a new task: ${task.name}`,
+      related_to: 'task',
+      related_id: task.id
+    }, client));
+
+    const taskData = {
+      ...task,
+      app_url: process.env.APP_URL || 'http://localhost:3000'
+    };
+
+    await this.runEmailStep(job, 'email', async () => {
+      const result = await EmailService.sendTaskAssignmentEmail(
+        task.assigned_user_email,
+        taskData,
+        task.assigned_user_id
+      );
+
+      if (result === 'sent') {
+        console.log(`Task assignment email sent to ${task.assigned_user_email}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Evaluate task_status_changed rules
+   */
+  private async handleTaskStatusChanged(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    await this.evaluateRules(
+      WorkflowRuleTrigger.TASK_STATUS_CHANGED,
+      await workflowRuleService.buildTaskContext(payload.task_id, payload.new_status, payload.old_status),
+      job
+    );
+  }
+
+  /**
+   * Queue a fresh overdue check when a task is rescheduled
+   */
+  private async handleTaskDueDateChanged(payload: Record<string, any>): Promise<void> {
+    const task = await TaskModel.findById(payload.task_id);
+    if (!task || task.status === TaskStatus.COMPLETED) return;
+
+    await this.scheduleTaskOverdueCheck(task);
+  }
+
+  /**
+   * Notify the task owner that a task is overdue and queue the escalation check
+   */
+  private async handleTaskOverdueCheck(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    const task = await this.findTaskStillOverdue(payload);
+    if (!task) return;
+
+    // Queue the escalation first so a retry of this job can't skip it
+    await this.emit(
+      WorkflowEventType.TASK_ESCALATION_CHECK,
+      { task_id: payload.task_id, due_date: payload.due_date },
+      `task.escalation_check:${task.id}:${payload.due_date}`,
+      new Date(new Date(task.due_date).getTime() + ESCALATION_DELAY_MS)
+    );
+
+    const hoursOverdue = Math.floor((Date.now() - new Date(task.due_date).getTime()) / (1000 * 60 * 60));
+
+    // Send in-app notification to task owner
+    await this.runStep(job, 'notification', client => NotificationModel.create({
+      user_id: task.assigned_user_id,
+      type: NotificationType.TASK_OVERDUE,
+      title: 'Task Overdue',
+      message: `Task "${task.name}" is overdue. Please complete it as soon as possible.`,
+      related_to: 'task',
+      related_id: task.id
+    }, client));
+
+    // Send email notification to task owner
+    await this.runEmailStep(job, 'email', async () => {
+      const result = await EmailService.sendTaskOverdueEmail(
+        task.assigned_user_email,
+        {
+          ...task,
+          overdue_duration: `${hoursOverdue} hours`,
+          app_url: process.env.APP_URL || 'http://localhost:3000'
+        },
+        task.assigned_user_id
+      );
+
+      if (result === 'sent') {
+        console.log(`Sent overdue notification for task ${task.id} to user ${task.assigned_user_id}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Escalate a task to its BU Head once it is 24 hours overdue
+   */
+  private async handleTaskEscalationCheck(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    const task = await this.findTaskStillOverdue(payload);
+    if (!task) return;
+
+    const buHeadId = await NotificationModel.findBUHeadByBusinessUnit(task.business_unit_id);
+    if (!buHeadId) return;
+
+    const buHead = await UserModel.findById(buHeadId);
+    if (!buHead) return;
+
+    const hoursOverdue = Math.floor((Date.now() - new Date(task.due_date).getTime()) / (1000 * 60 * 60));
+
+    // Send in-app notification
+    await this.runStep(job, 'notification', client => NotificationModel.create({
+      user_id: buHeadId,
+      type: NotificationType.TASK_OVERDUE_ESCALATION,
+      title: 'Task Overdue Escalation',
+      message: `Task "${task.name}" assigned to ${task.assigned_user_name} is more than 24 hours overdue.`,
+      related_to: 'task',
+      related_id: task.id
+    }, client));
+
+    // Send email escalation
+    await this.runEmailStep(job, 'email', async () => {
+      const result = await EmailService.sendTaskEscalationEmail(
+        buHead.email,
+        {
+          ...task,
+          bu_head_name: buHead.username,
+          overdue_duration: `${hoursOverdue} hours`,
+          app_url: process.env.APP_URL || 'http://localhost:3000'
+        },
+        buHeadId
+      );
+
+      if (result === 'sent') {
+        console.log(`Escalated overdue task ${task.id} to BU Head ${buHeadId}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Raise a renewal opportunity for an expiring engagement and assign it to
+   * the client's account owner. Skipped if the engagement's dates changed
+   * since the check was queued, it already has a renewal, or the client has
+   * stopped using the service. The opportunity, its first history entry, its
+   * status change event and the notification are written in one transaction.
+   */
+  private async handleRenewalCheck(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    const engagement = await ClientServiceModel.findById(payload.client_service_id);
+    if (!engagement || getExpiryDate(engagement) !== payload.expires_on) return;
+
+    if (await OpportunityModel.findRenewalOf(engagement.id)) return;
+
+    const client = await ClientModel.findById(engagement.client_id);
+    if (!client || !(client.services_used || []).includes(engagement.service_id)) return;
+
+    const service = await ServiceModel.findById(engagement.service_id);
+    if (!service) return;
+
+    await this.runStep(job, 'renewal_opportunity', async dbClient => {
+      const opportunity = await OpportunityModel.create({
+        name: `Renewal: ${service.name}`,
+        client_id: client.id,
+        service_id: service.id,
+        assigned_user_id: client.account_owner_id,
+        status: OpportunityStatus.NEW,
+        priority: OpportunityPriority.HIGH,
+        estimated_value: engagement.contract_value,
+        due_date: new Date(`${payload.expires_on}T00:00:00`),
+        notes: `Renews the engagement that started on ${engagement.start_date}.`,
+        renewal_of_id: engagement.id
+      }, dbClient);
+
+      // Record the initial stage and let rules react as for any new opportunity
+      const historyEntry = await OpportunityStatusHistoryModel.create({
+        opportunity_id: opportunity.id,
+        old_status: null,
+        new_status: opportunity.status,
+        changed_by: null
+      }, dbClient);
+
+      await WorkflowJobModel.enqueue({
+        event_type: WorkflowEventType.OPPORTUNITY_STATUS_CHANGED,
+        payload: { opportunity_id: opportunity.id, old_status: null, new_status: opportunity.status },
+        dedupe_key: `opportunity.status_changed:${historyEntry.id}`
+      }, dbClient);
+
+      await NotificationModel.create({
+        user_id: client.account_owner_id,
+        type: NotificationType.RENEWAL_DUE,
+        title: 'Renewal Due',
+        message: `"${service.name}" for client "${client.name}" is up for renewal on ${payload.expires_on}. A renewal opportunity has been created.`,
+        related_to: 'opportunity',
+        related_id: opportunity.id
+      }, dbClient);
+
+      console.log(`Created renewal opportunity ${opportunity.id} for client service ${engagement.id}`);
+    });
+  }
+
+  /**
+   * React to an opportunity moving to a new status. A new opportunity arrives
+   * here with no old status and counts as both created and entering its stage.
+   */
+  private async handleOpportunityStatusChanged(payload: Record<string, any>, job: WorkflowJob): Promise<void> {
+    const context = await workflowRuleService.buildOpportunityContext(
+      payload.opportunity_id,
+      payload.new_status,
+      payload.old_status
+    );
+
+    if (!payload.old_status) {
+      await this.evaluateRules(WorkflowRuleTrigger.OPPORTUNITY_CREATED, context, job);
+    }
+    await this.evaluateRules(WorkflowRuleTrigger.OPPORTUNITY_STATUS_CHANGED, context, job);
+
+    if (payload.new_status === OpportunityStatus.WON) {
+      await this.processWonOpportunity(payload.opportunity_id, job);
+    }
+  }
+
+  /**
+   * Process a won opportunity
+   * - Adds the service to the client's services_used
+   * - Records the win as a client service engagement
+   * - Notifies the account owner, BU Head and assigned user
+   * Each of these is a step of the status change job, so a retry carries on
+   * from the one that failed.
+   */
+  private async processWonOpportunity(opportunityId: number, job: WorkflowJob): Promise<void> {
+    const opportunity = await OpportunityModel.findById(opportunityId);
+    if (!opportunity || opportunity.status !== OpportunityStatus.WON) {
+      return;
+    }
+
+    // Get the client
+    const client = await ClientModel.findById(opportunity.client_id);
+    if (!client) {
+      console.log(`Client ${opportunity.client_id} not found for opportunity ${opportunity.id}`);
+      return;
+    }
+
+    await this.runStep(job, 'client_service', async dbClient => {
+      // Update client's services_used to include the won service
+      if (!client.services_used.includes(opportunity.service_id)) {
+        await ClientModel.addService(opportunity.client_id, opportunity.service_id, dbClient);
+      }
+
+      // Record the engagement; its terms can be edited on the client afterwards
+      const engagement = await ClientServiceModel.createForWonOpportunity(opportunity.id, dbClient);
+      const renewalCheck = engagement && this.buildRenewalCheckJob(engagement);
+      if (renewalCheck) {
+        await WorkflowJobModel.enqueue(renewalCheck, dbClient);
+      }
+    });
+
+    // Get service details
+    const service = await ServiceModel.findById(opportunity.service_id);
+    if (!service) return;
+
+    // Get assigned user details
+    const assignedUser = await UserModel.findById(opportunity.assigned_user_id);
+    if (!assignedUser) return;
+
+    // Find the BU Head if possible
+    const buHeadId = await NotificationModel.findBUHeadByBusinessUnit(service.business_unit_id);
+
+    // Notify account owner and BU Head together
+    const notifications = [{
+      user_id: client.account_owner_id,
+      type: NotificationType.OPPORTUNITY_WON,
+      title: 'Opportunity Won',
+      message: `Opportunity "${opportunity.name}" for service "${service.name}" has been won and added to client's services.`,
+      related_to: 'opportunity',
+      related_id: opportunity.id
+    }];
+
+    if (buHeadId) {
+      notifications.push({
+        user_id: buHeadId,
+        type: NotificationType.OPPORTUNITY_WON,
+        title: 'Opportunity Won - BU Notification',
+        message: `Opportunity "${opportunity.name}" for client "${client.name}" has been won. Service "${service.name}" has been added to client's services.`,
+        related_to: 'opportunity',
+        related_id: opportunity.id
+      });
+    }
+
+    await this.runStep(job, 'won_notifications', dbClient => NotificationModel.createMultiple(notifications, dbClient));
+
+    // Send email notifications
+    const opportunityData = {
+      ...opportunity,
+      client_name: client.name,
+      service_name: service.name,
+      business_unit: service.business_unit,
+      assigned_user_name: assignedUser.username,
+      app_url: process.env.APP_URL || 'http://localhost:3000'
+    };
+
+    // Collect recipients for email
+    const recipients: string[] = [];
+    const userIds: number[] = [];
+
+    // Add account owner
+    const accountOwner = await UserModel.findById(client.account_owner_id);
+    if (accountOwner) {
+      recipients.push(accountOwner.email);
+      userIds.push(accountOwner.id);
+    }
+
+    // Add BU Head
+    if (buHeadId) {
+      const buHead = await UserModel.findById(buHeadId);
+      if (buHead) {
+        recipients.push(buHead.email);
+        userIds.push(buHead.id);
+      }
+    }
+
+    // Add assigned user
+    recipients.push(assignedUser.email);
+    userIds.push(assignedUser.id);
+
+    // Send celebration email
+    await this.runEmailStep(job, 'won_email', () => EmailService.sendOpportunityWonEmail(
+      recipients,
+      opportunityData,
+      userIds
+    ));
+
+    console.log(`Updated client ${opportunity.client_id} with service ${opportunity.service_id} from won opportunity ${opportunity.id}`);
+  }
+
   /**
    * Run all workflow processes
-   * This method can be called by a scheduler (e.g., cron job)
+   * Called on server start and by the polling worker
    */
   async runWorkflows(): Promise<void> {
     console.log('Running workflows...');
-    await this.processOverdueTasks();
-    await this.processWonOpportunities();
+    await this.processQueue();
     console.log('Workflows completed');
   }
 }
 
-export default new WorkflowService();
\ No newline at end of file
+export default new WorkflowService();
@@ -0,0 +1,231 @@
+/**
+ * Fuzzy matching of client records, used to warn about likely duplicates
+ * such as "Acme", "ACME Ltd" and "Acme Limited". Clients are compared on
+ * their normalized name, the domain of their contact email addresses and
+ * their phone numbers.
+ */
+
+// Why two clients look alike
+export type ClientMatchReason = 'same_name' | 'similar_name' | 'email_domain' | 'phone';
+
+// The fields a client is matched on; contact_emails/contact_phones hold
+// those of its other contacts
+export interface ClientMatchFields {
+  name: string;
+  contact_email?: string | null;
+  contact_phone?: string | null;
+  contact_emails?: string[] | null;
+  contact_phones?: string[] | null;
+}
+
+export interface ClientMatch<T> {
+  client: T;
+  // 0 to 1; see MATCH_WEIGHTS
+  score: number;
+  reasons: ClientMatchReason[];
+}
+
+export interface ClientMatchPair<T> extends ClientMatch<T> {
+  duplicate: T;
+}
+
+// How much each reason adds to a match's score. A similar name is enough on
+// its own; a shared email domain or phone number needs a second reason.
+const MATCH_WEIGHTS: Record<ClientMatchReason, number> = {
+  same_name: 0.7,
+  similar_name: 0.5,
+  email_domain: 0.3,
+  phone: 0.4
+};
+
+// Lowest score reported as a likely duplicate
+export const DUPLICATE_THRESHOLD = 0.5;
+
+// Names at least this similar (1 - edit distance / length) count as similar
+const SIMILAR_NAME_RATIO = 0.85;
+
+// Words that don't tell companies apart: legal forms at the end of a name
+const LEGAL_SUFFIXES = new Set([
+  'ltd', 'limited', 'inc', 'incorporated', 'llc', 'llp', 'lp', 'corp', 'corporation',
+  'co', 'company', 'plc', 'gmbh', 'ag', 'sa', 'sas', 'srl', 'bv', 'nv', 'pty', 'pte',
+  'oy', 'ab', 'kk'
+]);
+
+// Email providers shared by unrelated people, so their domains prove nothing
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com',
+  'mail.com', 'yandex.com', 'zoho.com'
+]);
+
+// Phone numbers are compared on their last digits, ignoring country codes
+const PHONE_DIGITS = 9;
+
+/**
+ * Lower case, without accents, punctuation, a leading "the" or trailing
+ * legal forms: "The ACME Co., Ltd." becomes "acme"
+ */
+export const normalizeClientName = (name: string): string => {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  const core = [...words];
+  if (core[0] === 'the') core.shift();
+  while (core.length > 1 && LEGAL_SUFFIXES.has(core[core.length - 1])) core.pop();
+
+  // A name made only of such words is kept as it is
+  return (core.length ? core : words).join(' ');
+};
+
+// The company domain of an email address, or null for free-mail addresses
+export const emailDomain = (email: string | null | undefined): string | null => {
+  const domain = email?.trim().toLowerCase().split('@')[1];
+  return domain && domain.includes('.') && !FREE_EMAIL_DOMAINS.has(domain) ? domain : null;
+};
+
+// The last digits of a phone number, or null if it's too short to compare
+export const normalizePhone = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= PHONE_DIGITS ? digits.slice(-PHONE_DIGITS) : null;
+};
+
+// 1 for equal strings down to 0 for nothing in common
+const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  // Lengths this far apart can't reach the threshold
+  if (Math.abs(a.length - b.length) / longest > 1 - SIMILAR_NAME_RATIO) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+// A client's matching fields, normalized once
+interface MatchProfile {
+  name: string;
+  domains: Set<string>;
+  phones: Set<string>;
+}
+
+const toProfile = (fields: ClientMatchFields): MatchProfile => ({
+  name: normalizeClientName(fields.name || ''),
+  domains: new Set([fields.contact_email, ...(fields.contact_emails || [])]
+    .map(emailDomain)
+    .filter((domain): domain is string => domain !== null)),
+  phones: new Set([fields.contact_phone, ...(fields.contact_phones || [])]
+    .map(normalizePhone)
+    .filter((phone): phone is string => phone !== null))
+});
+
+const shares = (a: Set<string>, b: Set<string>): boolean => [...a].some(value => b.has(value));
+
+const compareProfiles = (a: MatchProfile, b: MatchProfile): { score: number; reasons: ClientMatchReason[] } => {
+  const reasons: ClientMatchReason[] = [];
+
+  if (a.name && a.name === b.name) {
+    reasons.push('same_name');
+  } else if (a.name.length >= 4 && b.name.length >= 4 && similarity(a.name, b.name) >= SIMILAR_NAME_RATIO) {
+    reasons.push('similar_name');
+  }
+  if (shares(a.domains, b.domains)) reasons.push('email_domain');
+  if (shares(a.phones, b.phones)) reasons.push('phone');
+
+  const score = Math.min(1, reasons.reduce((sum, reason) => sum + MATCH_WEIGHTS[reason], 0));
+  return { score: Math.round(score * 100) / 100, reasons };
+};
+
+const byScore = <T>(a: ClientMatch<T>, b: ClientMatch<T>) => b.score - a.score;
+
+/**
+ * The clients to check new ones against. Records added later (such as
+ * earlier rows of an import) are matched as well.
+ */
+export class ClientMatchIndex<T extends ClientMatchFields & { id: number }> {
+  private entries: Array<{ record: T; profile: MatchProfile }> = [];
+
+  constructor(records: T[] = []) {
+    records.forEach(record => this.add(record));
+  }
+
+  add(record: T): void {
+    this.entries = this.entries.filter(entry => entry.record.id !== record.id);
+    this.entries.push({ record, profile: toProfile(record) });
+  }
+
+  get(id: number): T | undefined {
+    return this.entries.find(entry => entry.record.id === id)?.record;
+  }
+
+  /**
+   * Clients likely to be the same as the candidate, best match first
+   */
+  find(candidate: ClientMatchFields, excludeId?: number): ClientMatch<T>[] {
+    const profile = toProfile(candidate);
+
+    return this.entries
+      .filter(entry => entry.record.id !== excludeId)
+      .map(entry => ({ client: entry.record, ...compareProfiles(profile, entry.profile) }))
+      .filter(match => match.score >= DUPLICATE_THRESHOLD)
+      .sort(byScore);
+  }
+
+  /**
+   * Every pair of likely duplicates among the indexed clients, best match
+   * first. Only clients sharing a name prefix, email domain or phone number
+   * are compared, which keeps this fast on large client lists.
+   */
+  pairs(): ClientMatchPair<T>[] {
+    const buckets = new Map<string, number[]>();
+    const addToBucket = (key: string, index: number) => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    };
+
+    this.entries.forEach(({ profile }, index) => {
+      if (profile.name) addToBucket(`name:${profile.name.slice(0, 3)}`, index);
+      profile.domains.forEach(domain => addToBucket(`domain:${domain}`, index));
+      profile.phones.forEach(phone => addToBucket(`phone:${phone}`, index));
+    });
+
+    const compared = new Set<string>();
+    const pairs: ClientMatchPair<T>[] = [];
+
+    buckets.forEach(indexes => {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const pairKey = `${indexes[i]}:${indexes[j]}`;
+          if (compared.has(pairKey)) continue;
+          compared.add(pairKey);
+
+          const a = this.entries[indexes[i]];
+          const b = this.entries[indexes[j]];
+          const match = compareProfiles(a.profile, b.profile);
+          if (match.score >= DUPLICATE_THRESHOLD) {
+            pairs.push({ client: a.record, duplicate: b.record, ...match });
+          }
+        }
+      }
+    });
+
+    return pairs.sort(byScore);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * CSV parsing and writing (RFC 4180): fields may be quoted, quoted fields
+ * may hold commas, line breaks and doubled quotes, and lines may end in CRLF
+ * or LF.
+ */
+
+/**
+ * Split CSV text into rows of fields. A leading byte order mark is dropped,
+ * as are blank lines. Throws if a quoted field is never closed.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    // A line with nothing on it isn't a row
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * One CSV line, ending in CRLF. Fields holding commas, quotes or line breaks
+ * are quoted; empty values become empty fields.
+ */
+export const toCsvLine = (values: Array<string | number | null | undefined>): string =>
+  values.map(value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ListQueryConfig, ListQueryError, parseListQuery } from './listQuery';
+
+const config: ListQueryConfig = {
+  sortable: { name: 'c.name', created_at: 'c.created_at' },
+  filterable: { status: { column: 'c.status' } },
+  searchable: ['c.name'],
+  defaultSort: '-created_at'
+};
+
+describe('parseListQuery', () => {
+  it('reads whitelisted sort and filter fields', () => {
+    const listQuery = parseListQuery({ sort: '-name', 'filter[status]': 'new,won' }, config);
+    assert.deepEqual(listQuery.sort, [{ field: 'name', direction: 'DESC' }]);
+    assert.deepEqual(listQuery.filters, { status: ['new', 'won'] });
+  });
+
+  it('rejects fields that are not whitelisted', () => {
+    assert.throws(() => parseListQuery({ sort: 'password' }, config), ListQueryError);
+    assert.throws(() => parseListQuery({ 'filter[password]': 'x' }, config), ListQueryError);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    assert.throws(() => parseListQuery({ sort: 'constructor' }, config), ListQueryError);
+    assert.throws(() => parseListQuery({ 'filter[toString]': 'x' }, config), ListQueryError);
+    assert.throws(() => parseListQuery({ filter: { hasOwnProperty: 'x' } }, config), ListQueryError);
+  });
+});
@@ -0,0 +1,243 @@
+import { Request } from 'express';
+import { Pool } from 'pg';
+
+/**
+ * Shared list query contract for collection endpoints:
+ *
+ *   ?page=2&pageSize=25&sort=-due_date,name&filter[status]=new,won&q=acme
+ *
+ * - page / pageSize: 1-based page and page size (max MAX_PAGE_SIZE)
+ * - sort: comma-separated fields, prefixed with "-" for descending
+ * - filter[field]: exact match; comma-separated values match any of them
+ * - q: case-insensitive search across the entity's searchable columns
+ *
+ * Field names are checked against each entity's ListQueryConfig, so only
+ * whitelisted SQL expressions ever reach the query.
+ */
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+// How a filter compares its SQL expression with the requested value(s)
+export type ListFilterOperator = '=' | '>=' | '<=';
+
+export interface ListFilterConfig {
+  column: string;
+  operator?: ListFilterOperator;
+  type?: 'text' | 'number' | 'date' | 'boolean';
+}
+
+export interface ListQueryConfig {
+  // API field name -> SQL expression it sorts by
+  sortable: Record<string, string>;
+  // API field name -> filter definition
+  filterable: Record<string, ListFilterConfig>;
+  // SQL expressions matched by q
+  searchable: string[];
+  // Sort used when none is requested, e.g. '-created_at'
+  defaultSort: string;
+}
+
+export interface ListSort {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface ListQuery {
+  page: number;
+  pageSize: number;
+  sort: ListSort[];
+  filters: Record<string, string[]>;
+  q?: string;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface PaginatedResult<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+// Raised for unknown sort/filter fields and malformed values; controllers
+// turn it into a 400
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+const FILTER_KEY = /^filter\[(\w+)\]$/;
+
+// Own keys only, so names like "constructor" or "toString" aren't taken as
+// sortable or filterable fields
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Whether the request uses the list query contract. Endpoints keep their
+ * original unpaginated response when it doesn't.
+ */
+export const isListQuery = (query: Request['query']): boolean => {
+  return Object.keys(query).some(key =>
+    ['page', 'pageSize', 'sort', 'q', 'filter'].includes(key) || FILTER_KEY.test(key)
+  );
+};
+
+/**
+ * Read and validate the list query parameters against an entity's config
+ */
+export const parseListQuery = (query: Request['query'], config: ListQueryConfig): ListQuery => {
+  const page = query.page !== undefined ? parseInt(query.page as string) : 1;
+  const pageSize = query.pageSize !== undefined ? parseInt(query.pageSize as string) : DEFAULT_PAGE_SIZE;
+
+  if (isNaN(page) || page < 1) {
+    throw new ListQueryError('page must be a positive number');
+  }
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new ListQueryError(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const sort = String(query.sort || config.defaultSort)
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const field = part.replace(/^[-+]/, '');
+      if (!hasOwn(config.sortable, field)) {
+        throw new ListQueryError(`Cannot sort by ${field}`);
+      }
+      return { field, direction: part.startsWith('-') ? 'DESC' : 'ASC' } as ListSort;
+    });
+
+  // filter[field]=x arrives as a literal key with the simple query parser and
+  // as a nested object with the extended one
+  const rawFilters: Record<string, unknown> = {};
+  Object.keys(query).forEach(key => {
+    const match = key.match(FILTER_KEY);
+    if (match) rawFilters[match[1]] = query[key];
+  });
+  if (query.filter && typeof query.filter === 'object') {
+    Object.assign(rawFilters, query.filter);
+  }
+
+  const filters: Record<string, string[]> = {};
+  Object.keys(rawFilters).forEach(field => {
+    if (!hasOwn(config.filterable, field)) {
+      throw new ListQueryError(`Cannot filter by ${field}`);
+    }
+    const filterConfig = config.filterable[field];
+
+    const values = ([] as unknown[]).concat(rawFilters[field])
+      .flatMap(value => String(value).split(','))
+      .map(value => value.trim())
+      .filter(value => value !== '');
+
+    values.forEach(value => {
+      if (filterConfig.type === 'number' && isNaN(Number(value))) {
+        throw new ListQueryError(`filter[${field}] must be a number`);
+      }
+      if (filterConfig.type === 'date' && isNaN(Date.parse(value))) {
+        throw new ListQueryError(`filter[${field}] must be a date`);
+      }
+      if (filterConfig.type === 'boolean' && !['true', 'false'].includes(value)) {
+        throw new ListQueryError(`filter[${field}] must be true or false`);
+      }
+    });
+
+    if (values.length > 0) {
+      filters[field] = values;
+    }
+  });
+
+  const q = typeof query.q === 'string' && query.q.trim() !== '' ? query.q.trim() : undefined;
+
+  return { page, pageSize, sort, filters, q };
+};
+
+/**
+ * Build the WHERE, ORDER BY and LIMIT/OFFSET clauses for a list query.
+ * Parameters are appended to `values`, which may already hold the
+ * parameters of `baseConditions`.
+ */
+export const buildListClauses = (
+  listQuery: ListQuery,
+  config: ListQueryConfig,
+  baseConditions: string[] = [],
+  values: any[] = []
+): { where: string; orderBy: string; limit: string; values: any[] } => {
+  const conditions = [...baseConditions];
+  const params = [...values];
+
+  Object.keys(listQuery.filters).forEach(field => {
+    const { column, operator = '=' } = config.filterable[field];
+    const filterValues = listQuery.filters[field];
+
+    // Parameter types are inferred from the column, which keeps indexes usable
+    if (operator === '=' && filterValues.length > 1) {
+      params.push(filterValues);
+      conditions.push(`${column} = ANY($${params.length})`);
+    } else {
+      params.push(filterValues[0]);
+      conditions.push(`${column} ${operator} $${params.length}`);
+    }
+  });
+
+  if (listQuery.q && config.searchable.length > 0) {
+    params.push(`%${listQuery.q.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`(${config.searchable.map(column => `${column} ILIKE $${params.length}`).join(' OR ')})`);
+  }
+
+  // Always end on a unique key so pages are stable
+  const orderBy = [
+    ...listQuery.sort.map(sort => `${config.sortable[sort.field]} ${sort.direction} NULLS LAST`),
+    config.sortable.id || 'id'
+  ].join(', ');
+
+  params.push(listQuery.pageSize, (listQuery.page - 1) * listQuery.pageSize);
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    orderBy: `ORDER BY ${orderBy}`,
+    limit: `LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    values: params
+  };
+};
+
+/**
+ * Run a paginated query. `fromClause` is everything from FROM up to (but not
+ * including) WHERE, joins included.
+ */
+export const runListQuery = async <T>(
+  pool: Pool,
+  selectClause: string,
+  fromClause: string,
+  listQuery: ListQuery,
+  config: ListQueryConfig,
+  baseConditions: string[] = [],
+  baseValues: any[] = []
+): Promise<PaginatedResult<T>> => {
+  const { where, orderBy, limit, values } = buildListClauses(listQuery, config, baseConditions, baseValues);
+  const countValues = values.slice(0, values.length - 2);
+
+  const [rows, count] = await Promise.all([
+    pool.query(`${selectClause} ${fromClause} ${where} ${orderBy} ${limit}`, values),
+    pool.query(`SELECT COUNT(*) AS total ${fromClause} ${where}`, countValues)
+  ]);
+
+  const total = parseInt(count.rows[0].total);
+
+  return {
+    data: rows.rows,
+    pagination: {
+      page: listQuery.page,
+      pageSize: listQuery.pageSize,
+      total,
+      totalPages: Math.ceil(total / listQuery.pageSize)
+    }
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, getTimeStep, hotp, totp, TotpAlgorithm, verifyTotp } from './totp';
+
+// RFC 6238 Appendix B: the seed for each algorithm is the ASCII string
+// "1234567890" repeated to the hash's length
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from('12345678901234567890', 'ascii'),
+  sha256: Buffer.from('12345678901234567890123456789012', 'ascii'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234', 'ascii')
+};
+
+// Time in seconds and the 8-digit code for each algorithm
+const RFC_6238_VECTORS: Array<{ time: number; codes: Record<TotpAlgorithm, string> }> = [
+  { time: 59, codes: { sha1: '94287082', sha256: '46119246', sha512: '90693936' } },
+  { time: 1111111109, codes: { sha1: '07081804', sha256: '68084774', sha512: '25091201' } },
+  { time: 1111111111, codes: { sha1: '14050471', sha256: '67062674', sha512: '99943326' } },
+  { time: 1234567890, codes: { sha1: '89005924', sha256: '91819424', sha512: '93441116' } },
+  { time: 2000000000, codes: { sha1: '69279037', sha256: '90698825', sha512: '38618901' } },
+  { time: 20000000000, codes: { sha1: '65353130', sha256: '77737706', sha512: '47863826' } }
+];
+
+// RFC 4226 Appendix D: HOTP values for counters 0 to 9
+const RFC_4226_VALUES = [
+  '755224', '287082', '359152', '969429', '338314',
+  '254676', '287922', '162583', '399871', '520489'
+];
+
+describe('totp', () => {
+  for (const { time, codes } of RFC_6238_VECTORS) {
+    for (const algorithm of Object.keys(codes) as TotpAlgorithm[]) {
+      it(`matches the RFC 6238 vector for ${algorithm} at ${time}`, () => {
+        assert.equal(totp(SEEDS[algorithm], time * 1000, { digits: 8, algorithm }), codes[algorithm]);
+      });
+    }
+  }
+
+  it('matches the RFC 4226 HOTP values', () => {
+    RFC_4226_VALUES.forEach((value, counter) => {
+      assert.equal(hotp(SEEDS.sha1, counter), value);
+    });
+  });
+});
+
+describe('verifyTotp', () => {
+  const key = SEEDS.sha1;
+  const timeMs = 1111111111 * 1000;
+  const step = getTimeStep(timeMs);
+  const codeAt = (offset: number) => hotp(key, step + offset);
+
+  it('accepts the current code and returns its step', () => {
+    assert.equal(verifyTotp(key, codeAt(0), { timeMs }), step);
+  });
+
+  it('accepts codes one step either side', () => {
+    assert.equal(verifyTotp(key, codeAt(-1), { timeMs }), step - 1);
+    assert.equal(verifyTotp(key, codeAt(1), { timeMs }), step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    assert.equal(verifyTotp(key, codeAt(-2), { timeMs }), null);
+    assert.equal(verifyTotp(key, codeAt(2), { timeMs }), null);
+    assert.equal(verifyTotp(key, codeAt(2), { timeMs, window: 2 }), step + 2);
+  });
+
+  it('rejects a replayed step', () => {
+    assert.equal(verifyTotp(key, codeAt(0), { timeMs, lastUsedStep: step }), null);
+    assert.equal(verifyTotp(key, codeAt(-1), { timeMs, lastUsedStep: step - 1 }), null);
+    assert.equal(verifyTotp(key, codeAt(1), { timeMs, lastUsedStep: step }), step + 1);
+  });
+
+  it('rejects codes that are not all digits or the wrong length', () => {
+    assert.equal(verifyTotp(key, codeAt(0).slice(1), { timeMs }), null);
+    assert.equal(verifyTotp(key, 'abcdef', { timeMs }), null);
+  });
+});
+
+describe('base32', () => {
+  it('round-trips bytes, ignoring case, spaces and padding', () => {
+    const encoded = base32Encode(SEEDS.sha1);
+    assert.equal(encoded, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.deepEqual(base32Decode(`${encoded.toLowerCase().replace(/(.{4})/g, '$1 ')}==`), SEEDS.sha1);
+  });
+
+  it('throws on characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('ABC1'), /Invalid base32 character: 1/);
+  });
+});
@@ -0,0 +1,463 @@
+import zlib from 'zlib';
+
+/**
+ * Just enough of the XLSX format to read the first worksheet of a workbook
+ * as a grid of strings: the zip container (stored and deflated entries, no
+ * zip64 or encryption), shared strings, inline strings and plain values.
+ *
+ * Cell formatting isn't read, so dates come back as Excel serial numbers
+ * (see excelSerialToDate).
+ *
+ * Workbooks are written the same plain way (see buildXlsx): inline strings,
+ * numbers and dates, one worksheet per sheet, nothing else.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Most a workbook may unpack to, so a small upload can't expand into a zip
+// bomb that fills the server's memory
+const MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Whether a buffer starts like a zip file, which an XLSX workbook is
+ */
+export const isZip = (buffer: Buffer): boolean =>
+  buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+
+/**
+ * Read every entry of a zip file into memory, keyed by path
+ */
+const readZipEntries = (buffer: Buffer): Map<string, Buffer> => {
+  // The end of central directory record sits in the last 22 bytes plus up to
+  // 64KB of comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  const tooLarge = `The XLSX file unpacks to more than ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)}MB`;
+  let totalSize = 0;
+
+  for (let n = 0; n < entryCount; n++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Not a valid XLSX file');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Not a valid XLSX file');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // Check the declared size first, then hold inflating to it in case the
+    // entry lies about its size
+    totalSize += uncompressedSize;
+    if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(tooLarge);
+    }
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      try {
+        entries.set(name, zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, uncompressedSize) }));
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error(`${name} in the XLSX file unpacks to more than its stated size`);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported compression in XLSX file: ${name}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[lower];
+  });
+
+const getAttribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : undefined;
+};
+
+// The text of every <t> in a string item, leaving out phonetic guides
+const readText = (xml: string): string => {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetics.matchAll(/<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g)) {
+    text += decodeXml(match[1] || '');
+  }
+  return text;
+};
+
+// Column index (0-based) of a cell reference such as "AB12"
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Path of the workbook's first sheet, from the workbook and its relationships
+ */
+const findFirstSheetPath = (entries: Map<string, Buffer>): string => {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8');
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8');
+  const sheet = workbook ? /<sheet\b([^>]*)>/.exec(workbook) : null;
+  const relationId = sheet ? getAttribute(sheet[1], 'r:id') : undefined;
+
+  if (rels && relationId) {
+    for (const match of rels.matchAll(/<Relationship\b([^>]*)>/g)) {
+      if (getAttribute(match[1], 'Id') === relationId) {
+        const target = getAttribute(match[1], 'Target') || '';
+        return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook as rows of cell text. Gaps
+ * between cells are filled with empty strings and empty rows are dropped.
+ */
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  const entries = readZipEntries(buffer);
+  const sheetXml = entries.get(findFirstSheetPath(entries))?.toString('utf8');
+  if (!sheetXml) {
+    throw new Error('The XLSX file has no worksheet');
+  }
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.toString('utf8');
+  if (sharedXml) {
+    for (const match of sharedXml.matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g)) {
+      sharedStrings.push(readText(match[1] || ''));
+    }
+  }
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = getAttribute(attributes, 'r');
+      const type = getAttribute(attributes, 't');
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readText(/<is>([\s\S]*?)<\/is>/.exec(content)?.[1] || '');
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'true' : 'false';
+      } else {
+        value = rawValue !== undefined ? decodeXml(rawValue) : '';
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+    }
+
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * The date an Excel serial number stands for (days since 1899-12-30, which
+ * absorbs Excel's phantom 29 February 1900 for every date after it)
+ */
+export const excelSerialToDate = (serial: number): Date =>
+  new Date(Math.round((serial - 25569) * 86400 * 1000));
+
+
+/**
+ * The Excel serial number of a date, read in local time like the dates the
+ * database hands back
+ */
+export const dateToExcelSerial = (date: Date): number =>
+  Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds()
+  ) / (86400 * 1000) + 25569;
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+}
+
+// Sheet names are at most 31 characters and can't hold []:*?/\
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Cell styles defined in styles.xml: 0 plain, 1 date, 2 date and time
+const DATE_STYLE = 1;
+const DATE_TIME_STYLE = 2;
+
+const encodeXml = (text: string): string =>
+  text
+    // Control characters other than tab and line breaks aren't allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' } as Record<string, string>)[char]);
+
+// Column letters of a 0-based column index, e.g. 27 -> "AB"
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const cellXml = (value: XlsxCell, reference: string): string => {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+    return `<c r="${reference}" s="${hasTime ? DATE_TIME_STYLE : DATE_STYLE}"><v>${dateToExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"><v>${value}</v></c>` : '';
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+};
+
+const sheetXml = (rows: XlsxCell[][]): string => {
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+
+  // The first row holds the headers, so it stays in view while scrolling
+  const frozenHeader = rows.length > 1
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${frozenHeader}<sheetData>${rowsXml.join('')}</sheetData></worksheet>`;
+};
+
+/**
+ * Sheet names Excel accepts: no forbidden characters, at most 31 characters
+ * and unique within the workbook (case-insensitively)
+ */
+const toSheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+
+  return names.map((name, index) => {
+    const base = (name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').replace(/^'+|'+$/g, '').trim() || `Sheet${index + 1}`)
+      .slice(0, MAX_SHEET_NAME_LENGTH);
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+// CRC-32 lookup table (the zip polynomial), built once
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// zlib.crc32 needs Node 20.15 or later, so zip checksums are worked out here
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as zip entries store them
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Pack files into a zip with deflated entries
+ */
+const buildZip = (files: Array<{ name: string; content: string }>): Buffer => {
+  const modified = toDosDateTime(new Date());
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const content = Buffer.from(file.content, 'utf8');
+    const compressed = zlib.deflateRawSync(content);
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // names are UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(modified.time, 10);
+    local.writeUInt16LE(modified.date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(modified.time, 12);
+    central.writeUInt16LE(modified.date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+};
+
+/**
+ * Write sheets of rows (headers first) into an XLSX workbook. Strings,
+ * numbers and dates keep their type; empty values leave the cell empty.
+ */
+export const buildXlsx = (sheets: XlsxSheet[]): Buffer => {
+  const workbookSheets = sheets.length > 0 ? sheets : [{ name: 'Sheet1', rows: [] }];
+  const names = toSheetNames(workbookSheets.map(sheet => sheet.name));
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        workbookSheets.map((_sheet, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        names.map((name, index) => `<sheet name="${encodeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        workbookSheets.map((_sheet, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${workbookSheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      // Built-in number formats 14 (date) and 22 (date and time)
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs></styleSheet>'
+    },
+    ...workbookSheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: sheetXml(sheet.rows)
+    }))
+  ];
+
+  return buildZip(files);
+};
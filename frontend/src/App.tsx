@@ -12,17 +12,23 @@ import { useAuth } from './contexts/AuthContext';
 
 // Pages
 import Login from './pages/Login';
+import AcceptInvite from './pages/AcceptInvite';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
 import Services from './pages/Services';
 import Clients from './pages/Clients';
 import Opportunities from './pages/Opportunities';
 import Matrix from './pages/Matrix';
+import Reports from './pages/Reports';
 import Tasks from './pages/Tasks';
 import Notifications from './pages/Notifications';
 import Profile from './pages/Profile';
 import Users from './pages/Users';
 import BusinessUnits from './pages/BusinessUnits';
 import Industries from './pages/Industries';
+import OpportunityStages from './pages/OpportunityStages';
+import WorkflowRules from './pages/WorkflowRules';
 
 // Create theme
 const theme = createTheme({
@@ -57,6 +63,9 @@ function AppRoutes() {
         <Routes>
           {/* Public routes */}
           <Route path="/login" element={<Login />} />
+          <Route path="/accept-invite/:token" element={<AcceptInvite />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password/:token" element={<ResetPassword />} />
           
           {/* Protected routes */}
           <Route 
@@ -73,7 +82,9 @@ function AppRoutes() {
         <Route path="clients" element={<Clients />} />
         <Route path="opportunities" element={<Opportunities />} />
         <Route path="matrix" element={<Matrix />} />
+        <Route path="reports" element={<Reports />} />
         <Route path="tasks" element={<Tasks />} />
+        <Route path="workflow-rules" element={<WorkflowRules />} />
         <Route path="notifications" element={<Notifications />} />
         <Route path="profile" element={<Profile />} />
         
@@ -82,6 +93,7 @@ function AppRoutes() {
           <Route path="users" element={<Users />} />
           <Route path="business-units" element={<BusinessUnits />} />
           <Route path="industries" element={<Industries />} />
+          <Route path="opportunity-stages" element={<OpportunityStages />} />
         </Route>
           </Route>
           
@@ -131,7 +131,7 @@ const CSVFormatHelper: React.FC<CSVFormatHelperProps> = ({ open, onClose, type }
           optional: ['services_used', 'crm_link', 'notes'],
           fields: [
             { name: 'name', type: 'Text', description: 'Client company name', example: 'Acme Corporation' },
-            { name: 'industry', type: 'Text', description: 'Industry sector', example: 'Technology' },
+            { name: 'industry', type: 'Text', description: 'Name of an existing industry', example: 'Technology' },
             { name: 'contact_name', type: 'Text', description: 'Primary contact person', example: 'John Smith' },
             { name: 'contact_email', type: 'Email', description: 'Contact email address', example: 'john@acme.com' },
             { name: 'contact_phone', type: 'Text', description: 'Contact phone number', example: '+1-555-0123' },
@@ -152,10 +152,10 @@ const CSVFormatHelper: React.FC<CSVFormatHelperProps> = ({ open, onClose, type }
           fields: [
             { name: 'name', type: 'Text', description: 'Service name', example: 'Digital Marketing' },
             { name: 'description', type: 'Text', description: 'Service description', example: 'Complete digital marketing solution' },
-            { name: 'business_unit', type: 'Text', description: 'Business unit name', example: 'Digital Marketing' },
+            { name: 'business_unit', type: 'Text', description: 'Name of an existing business unit', example: 'Digital Marketing' },
             { name: 'pricing_model', type: 'Text', description: 'Pricing model', example: 'Project-based' },
             { name: 'pricing_details', type: 'Text', description: 'Pricing details', example: '$5,000 - $15,000' },
-            { name: 'applicable_industries', type: 'Array', description: 'Industries separated by semicolons', example: 'Technology;Healthcare' },
+            { name: 'applicable_industries', type: 'Array', description: 'Names of existing industries separated by semicolons', example: 'Technology;Healthcare' },
             { name: 'client_role', type: 'Text', description: 'Target client role', example: 'CMO' },
             { name: 'status', type: 'Text', description: 'Service status', example: 'active' }
           ]
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  TextField,
+  CircularProgress,
+  Alert,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import RemoveCircleOutlineIcon from '@mui/icons-material/RemoveCircleOutline';
+import clientService, {
+  ChurnInput,
+  ChurnReason,
+  ClientChurn as ClientChurnRecord,
+  churnReasonLabels
+} from '../services/clientService';
+import { Service } from '../services/serviceService';
+
+interface ClientChurnProps {
+  clientId: number;
+  // Called once a service has been taken off the client
+  onServiceRemoved?: (serviceId: number) => void;
+}
+
+// Reasons that can be chosen; not_recorded is only set by the server
+const selectableReasons = (Object.keys(churnReasonLabels) as ChurnReason[]).filter(reason => reason !== 'not_recorded');
+
+const emptyChurn = (): ChurnInput => ({
+  reason: 'no_longer_needed',
+  notes: '',
+  churned_on: new Date().toISOString().slice(0, 10)
+});
+
+// Churn dates are plain YYYY-MM-DD, so show them without a time zone shift
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/**
+ * The services a client uses, with a way to record one being stopped, and
+ * the services it has stopped using
+ */
+const ClientChurn: React.FC<ClientChurnProps> = ({ clientId, onServiceRemoved }) => {
+  const [services, setServices] = useState<Service[]>([]);
+  const [history, setHistory] = useState<ClientChurnRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stoppingService, setStoppingService] = useState<Service | null>(null);
+  const [formData, setFormData] = useState<ChurnInput>(emptyChurn);
+
+  const fetchChurn = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [serviceData, churnData] = await Promise.all([
+        clientService.getClientServices(clientId),
+        clientService.getClientChurn(clientId)
+      ]);
+      setServices(serviceData);
+      setHistory(churnData);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching client churn:', err);
+      setError('Failed to load services. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchChurn();
+  }, [fetchChurn]);
+
+  const handleOpenForm = (service: Service) => {
+    setStoppingService(service);
+    setFormData(emptyChurn());
+    setError(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!stoppingService) return;
+
+    if (!formData.churned_on) {
+      setError('Please enter the date the client stopped');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await clientService.removeServiceFromClient(clientId, stoppingService.id, formData);
+      onServiceRemoved?.(stoppingService.id);
+      setStoppingService(null);
+      await fetchChurn();
+    } catch (err: any) {
+      console.error('Error recording churn:', err);
+      setError(err.response?.data?.message || 'Failed to record churn. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle1" gutterBottom>Current Services</Typography>
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Service</TableCell>
+              <TableCell>Business Unit</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {services.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} align="center">
+                  The client doesn't use any services.
+                </TableCell>
+              </TableRow>
+            ) : (
+              services.map((service) => (
+                <TableRow key={service.id}>
+                  <TableCell>{service.name}</TableCell>
+                  <TableCell>{service.business_unit}</TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      color="error"
+                      startIcon={<RemoveCircleOutlineIcon />}
+                      onClick={() => handleOpenForm(service)}
+                    >
+                      Stop Service
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {stoppingService && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Typography variant="subtitle1">Stop {stoppingService.name}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            The service is taken off the client and its running engagements end on this date.
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <FormControl fullWidth margin="normal" required>
+              <InputLabel id="churn-reason-label">Reason</InputLabel>
+              <Select
+                labelId="churn-reason-label"
+                label="Reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value as ChurnReason })}
+              >
+                {selectableReasons.map((reason) => (
+                  <MenuItem key={reason} value={reason}>{churnReasonLabels[reason]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Stopped On"
+              name="churned_on"
+              type="date"
+              value={formData.churned_on}
+              onChange={handleInputChange}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Stack>
+          <TextField
+            margin="normal"
+            fullWidth
+            multiline
+            rows={2}
+            label="Notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleInputChange}
+          />
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button onClick={() => setStoppingService(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} variant="contained" color="error" disabled={submitting}>
+              {submitting ? <CircularProgress size={24} color="inherit" /> : 'Record Churn'}
+            </Button>
+          </Stack>
+        </Paper>
+      )}
+
+      <Typography variant="subtitle1" gutterBottom>Churn History</Typography>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Service</TableCell>
+              <TableCell>Stopped On</TableCell>
+              <TableCell>Reason</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell>Recorded By</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {history.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  No churn recorded.
+                </TableCell>
+              </TableRow>
+            ) : (
+              history.map((churn) => (
+                <TableRow key={churn.id}>
+                  <TableCell>
+                    {churn.service_name}
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {churn.business_unit}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{formatDate(churn.churned_on)}</TableCell>
+                  <TableCell>{churnReasonLabels[churn.reason] || churn.reason}</TableCell>
+                  <TableCell>{churn.notes || '-'}</TableCell>
+                  <TableCell>{churn.recorded_by_name || '-'}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ClientChurn;
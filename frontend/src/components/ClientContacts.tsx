@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  TextField,
+  CircularProgress,
+  Alert,
+  Chip,
+  IconButton,
+  Stack,
+  Checkbox,
+  FormControlLabel
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import clientService, { ClientContact, ClientContactInput } from '../services/clientService';
+
+interface ClientContactsProps {
+  clientId: number;
+}
+
+const emptyContact: ClientContactInput = {
+  name: '',
+  job_title: '',
+  role: '',
+  email: '',
+  phone: '',
+  is_primary: false,
+  notes: ''
+};
+
+const ClientContacts: React.FC<ClientContactsProps> = ({ clientId }) => {
+  const [contacts, setContacts] = useState<ClientContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingContact, setEditingContact] = useState<ClientContact | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<ClientContactInput>(emptyContact);
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await clientService.getClientContacts(clientId);
+      setContacts(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching client contacts:', err);
+      setError('Failed to load contacts. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const handleOpenForm = (contact: ClientContact | null = null) => {
+    if (contact) {
+      setEditingContact(contact);
+      setFormData({
+        name: contact.name,
+        job_title: contact.job_title || '',
+        role: contact.role || '',
+        email: contact.email || '',
+        phone: contact.phone || '',
+        is_primary: contact.is_primary,
+        notes: contact.notes || ''
+      });
+    } else {
+      setEditingContact(null);
+      setFormData(emptyContact);
+    }
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingContact(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name) {
+      setError('Please enter the contact name');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      if (editingContact) {
+        await clientService.updateClientContact(clientId, editingContact.id, formData);
+      } else {
+        await clientService.createClientContact(clientId, formData);
+      }
+
+      // Refetch, since making a contact primary changes the others
+      await fetchContacts();
+      handleCloseForm();
+    } catch (err: any) {
+      console.error('Error saving client contact:', err);
+      setError(err.response?.data?.message || 'Failed to save contact. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (contactId: number) => {
+    if (!window.confirm('Are you sure you want to delete this contact?')) {
+      return;
+    }
+
+    try {
+      await clientService.deleteClientContact(clientId, contactId);
+      setContacts(contacts.filter(c => c.id !== contactId));
+    } catch (err) {
+      console.error('Error deleting client contact:', err);
+      setError('Failed to delete contact. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Job Title</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Email</TableCell>
+              <TableCell>Phone</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {contacts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No contacts yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              contacts.map((contact) => (
+                <TableRow key={contact.id}>
+                  <TableCell>
+                    {contact.name}
+                    {contact.is_primary && (
+                      <Chip label="Primary" size="small" color="primary" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>{contact.job_title || '-'}</TableCell>
+                  <TableCell>{contact.role || '-'}</TableCell>
+                  <TableCell>{contact.email || '-'}</TableCell>
+                  <TableCell>{contact.phone || '-'}</TableCell>
+                  <TableCell align="right">
+                    <IconButton onClick={() => handleOpenForm(contact)} size="small">
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton onClick={() => handleDelete(contact.id)} size="small" color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {showForm ? (
+        <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+          <Typography variant="subtitle1">
+            {editingContact ? 'Edit Contact' : 'Add Contact'}
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Name"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Job Title"
+              name="job_title"
+              value={formData.job_title}
+              onChange={handleInputChange}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Role"
+              name="role"
+              placeholder="e.g. CMO"
+              helperText="Matched against a service's client role"
+              value={formData.role}
+              onChange={handleInputChange}
+            />
+          </Stack>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Email"
+              name="email"
+              type="email"
+              value={formData.email}
+              onChange={handleInputChange}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Phone"
+              name="phone"
+              value={formData.phone}
+              onChange={handleInputChange}
+            />
+          </Stack>
+          <TextField
+            margin="normal"
+            fullWidth
+            label="Notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleInputChange}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={!!formData.is_primary}
+                onChange={(e) => setFormData({ ...formData, is_primary: e.target.checked })}
+              />
+            }
+            label="Primary contact"
+          />
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button onClick={handleCloseForm}>Cancel</Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={submitting}>
+              {submitting ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                editingContact ? 'Update Contact' : 'Save Contact'
+              )}
+            </Button>
+          </Stack>
+        </Paper>
+      ) : (
+        <Button startIcon={<AddIcon />} onClick={() => handleOpenForm()} sx={{ mt: 2 }}>
+          Add Contact
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default ClientContacts;
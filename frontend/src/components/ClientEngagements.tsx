@@ -0,0 +1,456 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  TextField,
+  CircularProgress,
+  Alert,
+  Chip,
+  IconButton,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import clientService, {
+  BillingFrequency,
+  ClientEngagement,
+  ClientEngagementInput,
+  ClientRevenue
+} from '../services/clientService';
+import { Service } from '../services/serviceService';
+
+interface ClientEngagementsProps {
+  clientId: number;
+  services: Service[];
+  // Called when recording an engagement adds a service to the client
+  onServiceAdded?: (serviceId: number) => void;
+}
+
+// Form values, kept as strings while editing
+interface EngagementForm {
+  service_id: number;
+  contract_value: string;
+  billing_frequency: BillingFrequency;
+  start_date: string;
+  end_date: string;
+  renewal_date: string;
+  notes: string;
+}
+
+const billingFrequencyLabels: Record<BillingFrequency, string> = {
+  one_off: 'One-off',
+  monthly: 'Monthly retainer',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+const statusColors: Record<ClientEngagement['status'], 'success' | 'info' | 'default'> = {
+  active: 'success',
+  upcoming: 'info',
+  ended: 'default'
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+// Engagement dates are plain YYYY-MM-DD, so show them without a time zone shift
+const formatDate = (date: string | null) => date ? new Date(`${date}T00:00:00`).toLocaleDateString() : '-';
+
+const emptyEngagement = (): EngagementForm => ({
+  service_id: 0,
+  contract_value: '',
+  billing_frequency: 'one_off',
+  start_date: new Date().toISOString().slice(0, 10),
+  end_date: '',
+  renewal_date: '',
+  notes: ''
+});
+
+/**
+ * The services a client has bought, with its revenue per business unit
+ */
+const ClientEngagements: React.FC<ClientEngagementsProps> = ({ clientId, services, onServiceAdded }) => {
+  const [engagements, setEngagements] = useState<ClientEngagement[]>([]);
+  const [revenue, setRevenue] = useState<ClientRevenue | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingEngagement, setEditingEngagement] = useState<ClientEngagement | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<EngagementForm>(emptyEngagement);
+
+  const fetchEngagements = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [engagementData, revenueData] = await Promise.all([
+        clientService.getClientEngagements(clientId),
+        clientService.getClientRevenue(clientId)
+      ]);
+      setEngagements(engagementData);
+      setRevenue(revenueData);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching client engagements:', err);
+      setError('Failed to load revenue. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchEngagements();
+  }, [fetchEngagements]);
+
+  const handleOpenForm = (engagement: ClientEngagement | null = null) => {
+    if (engagement) {
+      setEditingEngagement(engagement);
+      setFormData({
+        service_id: engagement.service_id,
+        contract_value: String(engagement.contract_value),
+        billing_frequency: engagement.billing_frequency,
+        start_date: engagement.start_date,
+        end_date: engagement.end_date || '',
+        renewal_date: engagement.renewal_date || '',
+        notes: engagement.notes || ''
+      });
+    } else {
+      setEditingEngagement(null);
+      setFormData(emptyEngagement());
+    }
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingEngagement(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = async () => {
+    const contractValue = parseFloat(formData.contract_value);
+
+    if (!editingEngagement && !formData.service_id) {
+      setError('Please select a service');
+      return;
+    }
+    if (isNaN(contractValue) || contractValue < 0) {
+      setError('Please enter a contract value of zero or more');
+      return;
+    }
+    if (!formData.start_date) {
+      setError('Please enter the start date');
+      return;
+    }
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      setError('The end date cannot be before the start date');
+      return;
+    }
+
+    const engagementData: ClientEngagementInput = {
+      contract_value: contractValue,
+      billing_frequency: formData.billing_frequency,
+      start_date: formData.start_date,
+      end_date: formData.end_date || null,
+      renewal_date: formData.renewal_date || null,
+      notes: formData.notes || null
+    };
+
+    try {
+      setSubmitting(true);
+
+      if (editingEngagement) {
+        await clientService.updateClientEngagement(clientId, editingEngagement.id, engagementData);
+      } else {
+        await clientService.createClientEngagement(clientId, { ...engagementData, service_id: formData.service_id });
+        onServiceAdded?.(formData.service_id);
+      }
+
+      // Refetch, since the revenue totals change too
+      await fetchEngagements();
+      handleCloseForm();
+    } catch (err: any) {
+      console.error('Error saving client engagement:', err);
+      setError(err.response?.data?.message || 'Failed to save engagement. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (engagementId: number) => {
+    if (!window.confirm('Are you sure you want to delete this engagement?')) {
+      return;
+    }
+
+    try {
+      await clientService.deleteClientEngagement(clientId, engagementId);
+      await fetchEngagements();
+    } catch (err) {
+      console.error('Error deleting client engagement:', err);
+      setError('Failed to delete engagement. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle1" gutterBottom>Revenue by Business Unit</Typography>
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Business Unit</TableCell>
+              <TableCell align="right">Engagements</TableCell>
+              <TableCell align="right">Lifetime Revenue</TableCell>
+              <TableCell align="right">Annual Recurring Revenue</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {!revenue || revenue.business_units.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  No revenue recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              <>
+                {revenue.business_units.map((unit) => (
+                  <TableRow key={unit.business_unit_id}>
+                    <TableCell>{unit.business_unit}</TableCell>
+                    <TableCell align="right">
+                      {unit.engagements} ({unit.active_engagements} active)
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(unit.lifetime_revenue)}</TableCell>
+                    <TableCell align="right">{formatCurrency(unit.annual_recurring_revenue)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>Total</TableCell>
+                  <TableCell />
+                  <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatCurrency(revenue.lifetime_revenue)}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                    {formatCurrency(revenue.annual_recurring_revenue)}
+                  </TableCell>
+                </TableRow>
+              </>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle1" gutterBottom>Engagements</Typography>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Service</TableCell>
+              <TableCell align="right">Contract Value</TableCell>
+              <TableCell>Billing</TableCell>
+              <TableCell>Start</TableCell>
+              <TableCell>End</TableCell>
+              <TableCell>Renewal</TableCell>
+              <TableCell align="right">Lifetime</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {engagements.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No engagements yet. Winning an opportunity records one.
+                </TableCell>
+              </TableRow>
+            ) : (
+              engagements.map((engagement) => (
+                <TableRow key={engagement.id}>
+                  <TableCell>
+                    {engagement.service_name}
+                    <Chip
+                      label={engagement.status}
+                      size="small"
+                      color={statusColors[engagement.status]}
+                      sx={{ ml: 1, textTransform: 'capitalize' }}
+                    />
+                    {engagement.opportunity_name && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Won: {engagement.opportunity_name}
+                      </Typography>
+                    )}
+                    {engagement.renewal_opportunity_id && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Renewal opportunity: {engagement.renewal_opportunity_status?.replace(/_/g, ' ')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(engagement.contract_value)}</TableCell>
+                  <TableCell>{billingFrequencyLabels[engagement.billing_frequency]}</TableCell>
+                  <TableCell>{formatDate(engagement.start_date)}</TableCell>
+                  <TableCell>{formatDate(engagement.end_date)}</TableCell>
+                  <TableCell>{formatDate(engagement.renewal_date)}</TableCell>
+                  <TableCell align="right">{formatCurrency(engagement.lifetime_revenue)}</TableCell>
+                  <TableCell align="right">
+                    <IconButton onClick={() => handleOpenForm(engagement)} size="small">
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton onClick={() => handleDelete(engagement.id)} size="small" color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {showForm ? (
+        <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+          <Typography variant="subtitle1">
+            {editingEngagement ? `Edit Engagement: ${editingEngagement.service_name}` : 'Add Engagement'}
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            {!editingEngagement && (
+              <FormControl fullWidth margin="normal" required>
+                <InputLabel id="engagement-service-label">Service</InputLabel>
+                <Select
+                  labelId="engagement-service-label"
+                  label="Service"
+                  value={formData.service_id || ''}
+                  onChange={(e) => setFormData({ ...formData, service_id: Number(e.target.value) })}
+                >
+                  {services.map((service) => (
+                    <MenuItem key={service.id} value={service.id}>
+                      {service.name} ({service.business_unit})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Contract Value"
+              name="contract_value"
+              type="number"
+              helperText="Per billing period; the total for one-off work"
+              value={formData.contract_value}
+              onChange={handleInputChange}
+            />
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="engagement-billing-label">Billing Frequency</InputLabel>
+              <Select
+                labelId="engagement-billing-label"
+                label="Billing Frequency"
+                value={formData.billing_frequency}
+                onChange={(e) => setFormData({ ...formData, billing_frequency: e.target.value as BillingFrequency })}
+              >
+                {(Object.keys(billingFrequencyLabels) as BillingFrequency[]).map((frequency) => (
+                  <MenuItem key={frequency} value={frequency}>{billingFrequencyLabels[frequency]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Start Date"
+              name="start_date"
+              type="date"
+              value={formData.start_date}
+              onChange={handleInputChange}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="End Date"
+              name="end_date"
+              type="date"
+              helperText="Leave empty for an open-ended retainer"
+              value={formData.end_date}
+              onChange={handleInputChange}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Renewal Date"
+              name="renewal_date"
+              type="date"
+              helperText="A renewal opportunity is raised ahead of this date (or the end date)"
+              value={formData.renewal_date}
+              onChange={handleInputChange}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Stack>
+          <TextField
+            margin="normal"
+            fullWidth
+            label="Notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleInputChange}
+          />
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button onClick={handleCloseForm}>Cancel</Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={submitting}>
+              {submitting ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                editingEngagement ? 'Update Engagement' : 'Save Engagement'
+              )}
+            </Button>
+          </Stack>
+        </Paper>
+      ) : (
+        <Button startIcon={<AddIcon />} onClick={() => handleOpenForm()} sx={{ mt: 2 }}>
+          Add Engagement
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default ClientEngagements;
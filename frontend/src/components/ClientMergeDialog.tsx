@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import clientService, { ClientMatchReason } from '../services/clientService';
+
+// Just enough of a client to show it in the dialog
+interface ClientRef {
+  id: number;
+  name: string;
+}
+
+interface MergeCandidate {
+  client: ClientRef;
+  duplicate: ClientRef;
+  reasons: ClientMatchReason[];
+}
+
+interface ClientMergeDialogProps {
+  open: boolean;
+  // Look for duplicates of this client; without one, every likely pair is listed
+  client?: ClientRef | null;
+  // Merge these two clients directly, e.g. two selected rows
+  otherClient?: ClientRef | null;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const REASON_LABELS: Record<ClientMatchReason, string> = {
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  email_domain: 'Same email domain',
+  phone: 'Same phone'
+};
+
+export const describeMatchReasons = (reasons: ClientMatchReason[]): string =>
+  reasons.map(reason => REASON_LABELS[reason]).join(', ');
+
+/**
+ * Admin dialog for merging duplicate clients: pick a likely duplicate pair,
+ * choose which client to keep, and merge the other one into it
+ */
+const ClientMergeDialog: React.FC<ClientMergeDialogProps> = ({ open, client, otherClient, onClose, onMerged }) => {
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [selected, setSelected] = useState<MergeCandidate | null>(null);
+  // ID of the client that is kept
+  const [keepId, setKeepId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choose = useCallback((candidate: MergeCandidate | null) => {
+    setSelected(candidate);
+    setKeepId(candidate ? candidate.client.id : null);
+  }, []);
+
+  const fetchCandidates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (client) {
+        const duplicates = await clientService.getClientDuplicates(client.id);
+        setCandidates(duplicates.map(duplicate => ({ client, duplicate, reasons: duplicate.reasons })));
+      } else {
+        const pairs = await clientService.getDuplicatePairs();
+        setCandidates(pairs.map(pair => ({ client: pair.client, duplicate: pair.duplicate, reasons: pair.reasons })));
+      }
+    } catch (err: any) {
+      console.error('Error fetching duplicate clients:', err);
+      setError(err.response?.data?.message || 'Failed to look for duplicate clients.');
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (client && otherClient) {
+      setCandidates([]);
+      choose({ client, duplicate: otherClient, reasons: [] });
+    } else {
+      choose(null);
+      fetchCandidates();
+    }
+  }, [open, client, otherClient, fetchCandidates, choose]);
+
+  const handleMerge = async () => {
+    if (!selected || keepId === null) return;
+    const duplicateId = keepId === selected.client.id ? selected.duplicate.id : selected.client.id;
+
+    try {
+      setMerging(true);
+      setError(null);
+      await clientService.mergeClients(keepId, duplicateId);
+      onMerged();
+      onClose();
+    } catch (err: any) {
+      console.error('Error merging clients:', err);
+      setError(err.response?.data?.message || 'Failed to merge clients.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const kept = selected && (keepId === selected.client.id ? selected.client : selected.duplicate);
+  const removed = selected && (keepId === selected.client.id ? selected.duplicate : selected.client);
+
+  return (
+    <Dialog open={open} onClose={merging ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {client ? `Merge duplicates of ${client.name}` : 'Duplicate clients'}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {!selected && loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!selected && !loading && candidates.length === 0 && !error && (
+          <Typography color="text.secondary">No likely duplicates found.</Typography>
+        )}
+
+        {!selected && !loading && candidates.length > 0 && (
+          <List dense>
+            {candidates.map(candidate => (
+              <ListItemButton
+                key={`${candidate.client.id}:${candidate.duplicate.id}`}
+                onClick={() => choose(candidate)}
+              >
+                <ListItemText
+                  primary={client ? candidate.duplicate.name : `${candidate.client.name} / ${candidate.duplicate.name}`}
+                  secondary={describeMatchReasons(candidate.reasons)}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        {selected && kept && removed && (
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>Client to keep</Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={keepId}
+              onChange={(_event, value) => value !== null && setKeepId(value)}
+              sx={{ mb: 2 }}
+            >
+              <ToggleButton value={selected.client.id}>{selected.client.name}</ToggleButton>
+              <ToggleButton value={selected.duplicate.id}>{selected.duplicate.name}</ToggleButton>
+            </ToggleButtonGroup>
+            {selected.reasons.length > 0 && (
+              <Stack direction="row" spacing={0.5} sx={{ mb: 2 }}>
+                {selected.reasons.map(reason => (
+                  <Chip key={reason} label={REASON_LABELS[reason]} size="small" />
+                ))}
+              </Stack>
+            )}
+            <Alert severity="warning">
+              "{removed.name}" will be merged into "{kept.name}": its opportunities and contacts move
+              to "{kept.name}", its services are added to those of "{kept.name}", and "{removed.name}"
+              is deleted. The merge is recorded in the client's history.
+            </Alert>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {selected && !otherClient && (
+          <Button onClick={() => choose(null)} disabled={merging} sx={{ mr: 'auto' }}>Back</Button>
+        )}
+        <Button onClick={onClose} disabled={merging}>Cancel</Button>
+        {selected && (
+          <Button variant="contained" color="warning" onClick={handleMerge} disabled={merging}>
+            {merging ? <CircularProgress size={24} color="inherit" /> : 'Merge'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClientMergeDialog;
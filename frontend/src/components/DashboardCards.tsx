@@ -0,0 +1,329 @@
+import React from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip
+} from '@mui/material';
+import TaskIcon from '@mui/icons-material/Task';
+import PriorityHighIcon from '@mui/icons-material/PriorityHigh';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
+import {
+  BusinessUnitPipeline,
+  DashboardCard,
+  DashboardCardData,
+  MyPipeline,
+  OrgTotals,
+  OverdueEscalations,
+  StageTotal,
+  TasksDue,
+  TopRep,
+  TrendMonth,
+  WhiteSpace
+} from '../services/dashboardService';
+
+// Open stages, in pipeline order
+const stageLabels: Record<string, string> = {
+  new: 'New',
+  in_progress: 'In Progress',
+  qualified: 'Qualified',
+  proposal: 'Proposal',
+  negotiation: 'Negotiation',
+  on_hold: 'On Hold'
+};
+const stageOrder = Object.keys(stageLabels);
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// "2024-05" as "May"
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short' });
+};
+
+const EmptyCard: React.FC<{ text: string }> = ({ text }) => (
+  <Typography variant="body2" color="text.secondary" sx={{ p: 2, textAlign: 'center' }}>
+    {text}
+  </Typography>
+);
+
+const Figure: React.FC<{ value: React.ReactNode; label: string; color?: string }> = ({ value, label, color }) => (
+  <Box sx={{ flex: 1, minWidth: 100 }}>
+    <Typography variant="h5" sx={{ color }}>{value}</Typography>
+    <Typography variant="body2" color="text.secondary">{label}</Typography>
+  </Box>
+);
+
+/**
+ * A bar split into stages, in pipeline order
+ */
+const StageBar: React.FC<{ stages: StageTotal[] }> = ({ stages }) => {
+  const total = stages.reduce((sum, stage) => sum + stage.value, 0);
+  const sorted = [...stages].sort((a, b) => stageOrder.indexOf(a.status) - stageOrder.indexOf(b.status));
+  const shades = ['#bbdefb', '#90caf9', '#64b5f6', '#42a5f5', '#1e88e5', '#b0bec5'];
+
+  if (total <= 0) return null;
+
+  return (
+    <Box sx={{ display: 'flex', height: 10, borderRadius: 1, overflow: 'hidden' }}>
+      {sorted.map(stage => (
+        <Tooltip key={stage.status} title={`${stageLabels[stage.status] || stage.status}: ${formatCurrency(stage.value)} (${stage.count})`}>
+          <Box sx={{ width: `${(stage.value / total) * 100}%`, bgcolor: shades[stageOrder.indexOf(stage.status)] || '#b0bec5' }} />
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
+
+const MyPipelineCard: React.FC<{ data: MyPipeline }> = ({ data }) => (
+  <>
+    <Stack direction="row" spacing={2} sx={{ mb: 2 }}>
+      <Figure value={data.count} label="Open opportunities" />
+      <Figure value={formatCurrency(data.value)} label="Estimated value" />
+      <Figure value={formatCurrency(data.weighted_value)} label="Weighted" />
+    </Stack>
+    <StageBar stages={data.stages} />
+    {data.closing_soon.length === 0 ? (
+      <EmptyCard text="You have no open opportunities" />
+    ) : (
+      <List dense>
+        {data.closing_soon.map(opportunity => (
+          <ListItem key={opportunity.id} divider>
+            <ListItemIcon><TrendingUpIcon color="primary" /></ListItemIcon>
+            <ListItemText
+              primary={opportunity.name}
+              secondary={`${opportunity.client_name} — ${formatCurrency(opportunity.estimated_value)} — due ${formatDate(opportunity.due_date)}`}
+            />
+            <Chip label={stageLabels[opportunity.status] || opportunity.status} size="small" />
+          </ListItem>
+        ))}
+      </List>
+    )}
+  </>
+);
+
+const TasksDueCard: React.FC<{ data: TasksDue }> = ({ data }) => (
+  <>
+    <Stack direction="row" spacing={2} sx={{ mb: 1 }}>
+      <Figure value={data.total} label="Due this week" />
+      <Figure value={data.overdue} label="Overdue" color={data.overdue > 0 ? 'error.main' : undefined} />
+    </Stack>
+    {data.tasks.length === 0 ? (
+      <EmptyCard text="Nothing due this week" />
+    ) : (
+      <List dense>
+        {data.tasks.map(task => (
+          <ListItem key={task.id} divider>
+            <ListItemIcon><TaskIcon color={task.overdue ? 'error' : 'primary'} /></ListItemIcon>
+            <ListItemText
+              primary={task.name}
+              secondary={`${task.opportunity_name} (${task.client_name}) — due ${formatDate(task.due_date)}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+    )}
+  </>
+);
+
+const WhiteSpaceCard: React.FC<{ data: WhiteSpace }> = ({ data }) => (
+  <>
+    <Stack direction="row" spacing={2} sx={{ mb: 1 }}>
+      <Figure value={data.total} label="Open cross-sell cells" />
+      <Figure value={data.clients} label="Clients with white space" />
+    </Stack>
+    {data.suggestions.length === 0 ? (
+      <EmptyCard text="Your clients have every active service covered" />
+    ) : (
+      <List dense>
+        {data.suggestions.map(cell => (
+          <ListItem key={`${cell.client_id}-${cell.service_id}`} divider>
+            <ListItemIcon><AddCircleOutlineIcon color="action" /></ListItemIcon>
+            <ListItemText
+              primary={`${cell.service_name} for ${cell.client_name}`}
+              secondary={`${cell.business_unit} — used by ${cell.clients_using} client${cell.clients_using === 1 ? '' : 's'}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+    )}
+  </>
+);
+
+const BusinessUnitPipelineCard: React.FC<{ data: BusinessUnitPipeline[] }> = ({ data }) =>
+  data.length === 0 ? (
+    <EmptyCard text="No open opportunities" />
+  ) : (
+    <Stack spacing={2}>
+      {data.map(unit => (
+        <Box key={unit.business_unit_id}>
+          <Stack direction="row" justifyContent="space-between" sx={{ mb: 0.5 }}>
+            <Typography variant="subtitle2">{unit.business_unit}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {unit.count} open · {formatCurrency(unit.value)} · {formatCurrency(unit.weighted_value)} weighted
+            </Typography>
+          </Stack>
+          <StageBar stages={unit.stages} />
+        </Box>
+      ))}
+    </Stack>
+  );
+
+const TopRepsCard: React.FC<{ data: TopRep[] }> = ({ data }) =>
+  data.length === 0 ? (
+    <EmptyCard text="No wins in this period" />
+  ) : (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Rep</TableCell>
+          <TableCell align="right">Won</TableCell>
+          <TableCell align="right">Won Value</TableCell>
+          <TableCell align="right">Open</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {data.map(rep => (
+          <TableRow key={rep.user_id}>
+            <TableCell>{rep.username}</TableCell>
+            <TableCell align="right">{rep.won_count}</TableCell>
+            <TableCell align="right">{formatCurrency(rep.won_value)}</TableCell>
+            <TableCell align="right">{rep.open_count}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+const OverdueEscalationsCard: React.FC<{ data: OverdueEscalations }> = ({ data }) => (
+  <>
+    <Stack direction="row" spacing={2} sx={{ mb: 1 }}>
+      <Figure value={data.total} label="Overdue tasks" color={data.total > 0 ? 'error.main' : undefined} />
+      <Figure value={data.escalated} label="Escalated" color={data.escalated > 0 ? 'error.main' : undefined} />
+    </Stack>
+    {data.tasks.length === 0 ? (
+      <EmptyCard text="No overdue tasks" />
+    ) : (
+      <List dense>
+        {data.tasks.map(task => (
+          <ListItem key={task.id} divider>
+            <ListItemIcon><PriorityHighIcon color="error" /></ListItemIcon>
+            <ListItemText
+              primary={task.name}
+              secondary={`${task.assigned_user_name} — ${task.opportunity_name} (${task.business_unit})`}
+            />
+            <Chip
+              label={`${task.days_overdue} day${task.days_overdue === 1 ? '' : 's'}`}
+              size="small"
+              color="error"
+              variant="outlined"
+            />
+          </ListItem>
+        ))}
+      </List>
+    )}
+  </>
+);
+
+const OrgTotalsCard: React.FC<{ data: OrgTotals }> = ({ data }) => (
+  <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap">
+    <Figure value={data.clients.total} label={`Clients (${data.clients.active} active, ${data.clients.new_this_month} new this month)`} />
+    <Figure value={data.services.active} label={`Active services of ${data.services.total}`} />
+    <Figure value={data.opportunities.open} label={`Open opportunities (${formatCurrency(data.opportunities.open_value)})`} />
+    <Figure
+      value={data.opportunities.won_this_quarter}
+      label={`Won this quarter (${formatCurrency(data.opportunities.won_value_this_quarter)})`}
+    />
+    <Figure
+      value={data.tasks.open}
+      label={`Open tasks, ${data.tasks.overdue} overdue`}
+      color={data.tasks.overdue > 0 ? 'error.main' : undefined}
+    />
+  </Stack>
+);
+
+const TrendsCard: React.FC<{ data: TrendMonth[] }> = ({ data }) => {
+  const maxWon = Math.max(...data.map(month => month.won_value), 1);
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Month</TableCell>
+          <TableCell align="right">New Clients</TableCell>
+          <TableCell align="right">New Opportunities</TableCell>
+          <TableCell align="right">Won</TableCell>
+          <TableCell sx={{ width: '35%' }}>Won Value</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {data.map(month => (
+          <TableRow key={month.month}>
+            <TableCell>{formatMonth(month.month)}</TableCell>
+            <TableCell align="right">{month.new_clients}</TableCell>
+            <TableCell align="right">{month.new_opportunities}</TableCell>
+            <TableCell align="right">{month.won_count}</TableCell>
+            <TableCell>
+              <Stack direction="row" alignItems="center" spacing={1}>
+                <Box sx={{ height: 8, width: `${(month.won_value / maxWon) * 70}%`, bgcolor: 'success.main', borderRadius: 1 }} />
+                <Typography variant="caption">{formatCurrency(month.won_value)}</Typography>
+              </Stack>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+/**
+ * The body of a dashboard card, by card ID
+ */
+const DashboardCardContent: React.FC<{ card: DashboardCard }> = ({ card }) => {
+  if (card.error || card.data === null) {
+    return <EmptyCard text={card.error || 'No data'} />;
+  }
+
+  switch (card.id) {
+    case 'my_pipeline':
+      return <MyPipelineCard data={card.data as DashboardCardData['my_pipeline']} />;
+    case 'my_tasks':
+      return <TasksDueCard data={card.data as DashboardCardData['my_tasks']} />;
+    case 'white_space':
+      return <WhiteSpaceCard data={card.data as DashboardCardData['white_space']} />;
+    case 'bu_pipeline':
+      return <BusinessUnitPipelineCard data={card.data as DashboardCardData['bu_pipeline']} />;
+    case 'top_reps':
+      return <TopRepsCard data={card.data as DashboardCardData['top_reps']} />;
+    case 'overdue_escalations':
+      return <OverdueEscalationsCard data={card.data as DashboardCardData['overdue_escalations']} />;
+    case 'org_totals':
+      return <OrgTotalsCard data={card.data as DashboardCardData['org_totals']} />;
+    case 'trends':
+      return <TrendsCard data={card.data as DashboardCardData['trends']} />;
+    default:
+      return null;
+  }
+};
+
+export default DashboardCardContent;
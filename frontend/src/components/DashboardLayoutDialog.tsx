@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  IconButton,
+  Alert,
+  CircularProgress,
+  Typography
+} from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import dashboardService, { Dashboard, DashboardCardId } from '../services/dashboardService';
+
+interface DashboardLayoutDialogProps {
+  open: boolean;
+  dashboard: Dashboard;
+  onClose: () => void;
+  onSaved: (dashboard: Dashboard) => void;
+}
+
+/**
+ * Dialog for choosing which dashboard cards to show and in what order
+ */
+const DashboardLayoutDialog: React.FC<DashboardLayoutDialogProps> = ({ open, dashboard, onClose, onSaved }) => {
+  const [selected, setSelected] = useState<DashboardCardId[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(dashboard.layout);
+    setError(null);
+  }, [open, dashboard.layout]);
+
+  // Shown cards in order, then the others
+  const cards = [
+    ...selected.map(id => dashboard.available.find(card => card.id === id)!).filter(Boolean),
+    ...dashboard.available.filter(card => !selected.includes(card.id))
+  ];
+
+  const toggle = (id: DashboardCardId) => {
+    setSelected(selected.includes(id) ? selected.filter(cardId => cardId !== id) : [...selected, id]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...selected];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSelected(next);
+  };
+
+  const runSave = async (save: () => Promise<Dashboard>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      onSaved(await save());
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to save the dashboard layout.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Customize Dashboard</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary">
+          Choose the cards to show and move them into the order you want.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <List>
+          {cards.map(card => {
+            const index = selected.indexOf(card.id);
+            const shown = index !== -1;
+            return (
+              <ListItem
+                key={card.id}
+                divider
+                secondaryAction={shown && (
+                  <>
+                    <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">
+                      <ArrowUpwardIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => move(index, 1)}
+                      disabled={index === selected.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDownwardIcon fontSize="small" />
+                    </IconButton>
+                  </>
+                )}
+              >
+                <ListItemIcon>
+                  <Checkbox edge="start" checked={shown} onChange={() => toggle(card.id)} />
+                </ListItemIcon>
+                <ListItemText primary={card.title} secondary={card.description} sx={{ pr: 8 }} />
+              </ListItem>
+            );
+          })}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => runSave(dashboardService.resetLayout)}
+          disabled={saving || !dashboard.customized}
+          sx={{ mr: 'auto' }}
+        >
+          Reset to Default
+        </Button>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button variant="contained" onClick={() => runSave(() => dashboardService.saveLayout(selected))} disabled={saving}>
+          {saving ? <CircularProgress size={24} color="inherit" /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DashboardLayoutDialog;
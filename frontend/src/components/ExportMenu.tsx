@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import {
+  FileDownload as FileDownloadIcon,
+  Description as DescriptionIcon,
+  GridOn as GridOnIcon,
+  ScheduleSend as ScheduleSendIcon
+} from '@mui/icons-material';
+import exportService, { ExportEntity, ExportFormat, ExportParams } from '../services/exportService';
+import ScheduleExportDialog from './ScheduleExportDialog';
+
+interface ExportMenuProps {
+  entity: ExportEntity;
+  // The current filters, search and sort; every matching record is exported
+  params: ExportParams;
+  onError: (message: string) => void;
+  size?: 'small' | 'medium';
+}
+
+/**
+ * Export button for a list or the matrix: download as CSV or XLSX from the
+ * server, or have the export emailed every week
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ entity, params, onError, size = 'small' }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+
+  const handleDownload = async (format: ExportFormat) => {
+    setAnchorEl(null);
+    try {
+      setDownloading(true);
+      await exportService.downloadExport(entity, format, params);
+    } catch (err: any) {
+      onError(err.response?.data?.message || `Failed to export ${entity}.`);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={downloading ? <CircularProgress size={16} /> : <FileDownloadIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={downloading}
+        size={size}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleDownload('xlsx')}>
+          <ListItemIcon><GridOnIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Excel (XLSX)</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => handleDownload('csv')}>
+          <ListItemIcon><DescriptionIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>CSV</ListItemText>
+        </MenuItem>
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            setScheduleOpen(true);
+          }}
+        >
+          <ListItemIcon><ScheduleSendIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Email Me Weekly...</ListItemText>
+        </MenuItem>
+      </Menu>
+      <ScheduleExportDialog
+        open={scheduleOpen}
+        entity={entity}
+        params={params}
+        onClose={() => setScheduleOpen(false)}
+      />
+    </>
+  );
+};
+
+export default ExportMenu;
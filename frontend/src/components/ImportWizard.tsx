@@ -0,0 +1,592 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stepper,
+  Step,
+  StepLabel,
+  Alert,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Paper,
+  Select,
+  MenuItem,
+  TextField,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  Switch,
+  Chip,
+  Stack,
+  Tooltip
+} from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import DownloadIcon from '@mui/icons-material/Download';
+import importService, { ImportEntity, ImportMode, ImportResult, ImportRowError, ColumnMapping } from '../services/importService';
+import { IMPORT_FIELDS, normalizeHeader, suggestMapping } from '../utils/importFields';
+import { buildCSV, downloadCSV, validateCSVData, CSVRowIssue } from '../utils/csvUtils';
+
+interface ImportWizardProps {
+  open: boolean;
+  entity: ImportEntity;
+  onClose: () => void;
+  // Called after rows were saved, so the page can reload its list
+  onImported: () => void;
+}
+
+// One data row of the file with the values of the mapped fields
+interface WizardRow {
+  // Row number in the uploaded file, header being row 1
+  sourceRow: number;
+  values: Record<string, string>;
+}
+
+// A row taken out of the import because of its errors, kept for the report
+interface FailedRow extends WizardRow {
+  messages: string[];
+}
+
+const STEPS = ['Upload file', 'Map columns', 'Review and fix', 'Done'];
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  clients: 'Clients',
+  services: 'Services',
+  opportunities: 'Opportunities',
+  tasks: 'Tasks'
+};
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  insert: 'Add new records; report rows matching an existing one',
+  upsert: 'Add new records and update matching ones',
+  skip: 'Add new records and skip matching ones'
+};
+
+const ROWS_PER_PAGE = 25;
+
+const issueKey = (sourceRow: number, field?: string) => `${sourceRow}:${field || ''}`;
+
+/**
+ * Import dialog shared by the Clients, Services, Opportunities and Tasks
+ * pages: upload a CSV or XLSX file, map its columns onto our fields (the
+ * mapping is remembered per user), fix problems in a preview grid, and
+ * import everything in one go
+ */
+const ImportWizard: React.FC<ImportWizardProps> = ({ open, entity, onClose, onImported }) => {
+  const fields = IMPORT_FIELDS[entity];
+
+  const [step, setStep] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The file as read by the server
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sourceRows, setSourceRows] = useState<string[][]>([]);
+  // Field each file column maps onto, '' for columns left out
+  const [columnFields, setColumnFields] = useState<string[]>([]);
+
+  // Mapped rows the user can edit
+  const [rows, setRows] = useState<WizardRow[]>([]);
+  const [removedRows, setRemovedRows] = useState<FailedRow[]>([]);
+  const [mode, setMode] = useState<ImportMode>('insert');
+  // Create clients that look like existing ones instead of failing their rows
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
+  const [serverErrors, setServerErrors] = useState<ImportRowError[]>([]);
+  const [checkedOk, setCheckedOk] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep(0);
+      setBusy(false);
+      setError(null);
+      setFileName('');
+      setHeaders([]);
+      setSourceRows([]);
+      setColumnFields([]);
+      setRows([]);
+      setRemovedRows([]);
+      setMode('insert');
+      setAllowDuplicates(false);
+      setServerErrors([]);
+      setCheckedOk(false);
+      setProblemsOnly(false);
+      setPage(0);
+      setResult(null);
+    }
+  }, [open]);
+
+  const mappedFields = useMemo(
+    () => fields.filter(field => columnFields.includes(field.key)),
+    [fields, columnFields]
+  );
+  const unmappedRequired = fields.filter(field => field.required && !columnFields.includes(field.key));
+
+  // Client-side checks; validateCSVData normalizes values such as status,
+  // so it runs on copies and the copies are what gets uploaded
+  const checked = useMemo(() => {
+    const normalized = rows.map(row => ({ ...row.values }));
+    const requiredKeys = fields.filter(field => field.required).map(field => field.key);
+    const validation = validateCSVData(normalized, requiredKeys, entity);
+
+    // validateCSVData numbers rows by position; point them back at the file
+    const issues: CSVRowIssue[] = validation.issues.map(issue => ({
+      ...issue,
+      row: rows[issue.row - 2]?.sourceRow ?? issue.row
+    }));
+    serverErrors.forEach(serverError => {
+      issues.push({ row: serverError.row, field: serverError.field, message: serverError.message, severity: 'error' });
+    });
+
+    const byCell = new Map<string, CSVRowIssue[]>();
+    const byRow = new Map<number, CSVRowIssue[]>();
+    issues.forEach(issue => {
+      const cellKey = issueKey(issue.row, issue.field);
+      byCell.set(cellKey, [...(byCell.get(cellKey) || []), issue]);
+      byRow.set(issue.row, [...(byRow.get(issue.row) || []), issue]);
+    });
+
+    return {
+      normalized,
+      byCell,
+      byRow,
+      errorCount: issues.filter(issue => issue.severity === 'error').length,
+      warningCount: issues.filter(issue => issue.severity === 'warning').length,
+      clientErrorCount: validation.errors.length
+    };
+  }, [rows, serverErrors, fields, entity]);
+
+  const rowHasErrors = (row: WizardRow) =>
+    (checked.byRow.get(row.sourceRow) || []).some(issue => issue.severity === 'error');
+
+  const visibleRows = problemsOnly
+    ? rows.filter(row => checked.byRow.has(row.sourceRow))
+    : rows;
+  const failedRows = rows.filter(rowHasErrors);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+
+      const parsed = await importService.parseFile(file);
+      // A missing saved mapping shouldn't stop the import
+      const saved: ColumnMapping = await importService.getMapping(entity).catch(() => ({}));
+
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setSourceRows(parsed.rows);
+      setColumnFields(suggestMapping(parsed.headers, entity, saved));
+      setStep(1);
+    } catch (err: any) {
+      console.error('Error reading import file:', err);
+      setError(err.response?.data?.message || 'Failed to read the file.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleColumnFieldChange = (column: number, fieldKey: string) => {
+    setColumnFields(current => current.map((value, index) => {
+      if (index === column) return fieldKey;
+      // A field can only come from one column
+      return fieldKey && value === fieldKey ? '' : value;
+    }));
+  };
+
+  const handleMappingDone = () => {
+    const mapping: ColumnMapping = {};
+    headers.forEach((header, column) => {
+      if (normalizeHeader(header)) {
+        mapping[normalizeHeader(header)] = columnFields[column] || '';
+      }
+    });
+    // Remembering the mapping is a convenience; the import goes ahead regardless
+    importService.saveMapping(entity, mapping).catch(() => undefined);
+
+    setRows(sourceRows.map((cells, index) => {
+      const values: Record<string, string> = {};
+      columnFields.forEach((fieldKey, column) => {
+        if (fieldKey) values[fieldKey] = (cells[column] ?? '').trim();
+      });
+      return { sourceRow: index + 2, values };
+    }));
+    setRemovedRows([]);
+    setServerErrors([]);
+    setCheckedOk(false);
+    setPage(0);
+    setStep(2);
+  };
+
+  const handleCellChange = (sourceRow: number, fieldKey: string, value: string) => {
+    setRows(current => current.map(row =>
+      row.sourceRow === sourceRow ? { ...row, values: { ...row.values, [fieldKey]: value } } : row
+    ));
+    // The server's verdict on this row no longer applies
+    setServerErrors(current => current.filter(serverError => serverError.row !== sourceRow));
+    setCheckedOk(false);
+  };
+
+  const handleRemoveFailedRows = () => {
+    setRemovedRows(current => [
+      ...current,
+      ...failedRows.map(row => ({
+        ...row,
+        messages: (checked.byRow.get(row.sourceRow) || [])
+          .filter(issue => issue.severity === 'error')
+          .map(issue => issue.message)
+      }))
+    ]);
+    setRows(current => current.filter(row => !rowHasErrors(row)));
+    setServerErrors([]);
+    setPage(0);
+  };
+
+  // Send the rows to the server as CSV, in the order shown
+  const runImport = async (dryRun: boolean) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setCheckedOk(false);
+
+      const csv = buildCSV(mappedFields.map(field => field.key), checked.normalized);
+      const blob = new Blob([csv], { type: 'text/csv' });
+      const importResult = await importService.importFile(entity, blob, { mode, dryRun, allowDuplicates });
+
+      // The server numbers rows by their place in the upload
+      setServerErrors(importResult.errors.map(serverError => ({
+        ...serverError,
+        row: rows[serverError.row - 2]?.sourceRow ?? serverError.row
+      })));
+
+      if (importResult.committed) {
+        setResult(importResult);
+        setStep(3);
+        onImported();
+      } else if (importResult.failed === 0) {
+        setCheckedOk(true);
+      } else {
+        setProblemsOnly(true);
+        setPage(0);
+        setError(`${importResult.failed} of ${importResult.total} rows have errors${dryRun ? '' : ', so nothing was imported'}. Fix or remove them and try again.`);
+      }
+    } catch (err: any) {
+      console.error('Error importing rows:', err);
+      setError(err.response?.data?.message || 'Failed to import the rows.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadErrorReport = () => {
+    const reportRows = [
+      ...removedRows,
+      ...failedRows.map(row => ({
+        ...row,
+        messages: (checked.byRow.get(row.sourceRow) || [])
+          .filter(issue => issue.severity === 'error')
+          .map(issue => issue.message)
+      }))
+    ].sort((a, b) => a.sourceRow - b.sourceRow);
+
+    const reportHeaders = ['row', ...mappedFields.map(field => field.key), 'errors'];
+    const csv = buildCSV(reportHeaders, reportRows.map(row => ({
+      row: row.sourceRow,
+      ...row.values,
+      errors: row.messages.join('; ')
+    })));
+    downloadCSV(csv, `${entity}_import_errors.csv`);
+  };
+
+  const reportRowCount = removedRows.length + failedRows.length;
+
+  const renderUploadStep = () => (
+    <Box sx={{ py: 2 }}>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Choose a CSV or Excel (.xlsx) file with a header row. You'll match its columns to our fields next,
+        so the headers don't need to follow a fixed format.
+      </Typography>
+      <Button variant="contained" component="label" startIcon={<FileUploadIcon />} disabled={busy} sx={{ mt: 2 }}>
+        Choose file
+        <input
+          hidden
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileSelected}
+        />
+      </Button>
+    </Box>
+  );
+
+  const renderMappingStep = () => (
+    <Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        {fileName}: {sourceRows.length} rows. Choose the field each column should be imported as.
+      </Typography>
+      {unmappedRequired.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          Required fields without a column: {unmappedRequired.map(field => field.label).join(', ')}
+        </Alert>
+      )}
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Column in your file</TableCell>
+              <TableCell>Example value</TableCell>
+              <TableCell sx={{ width: 280 }}>Import as</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {headers.map((header, column) => (
+              <TableRow key={column}>
+                <TableCell>{header || <em>(no header)</em>}</TableCell>
+                <TableCell sx={{ color: 'text.secondary' }}>
+                  {sourceRows.find(cells => cells[column])?.[column] || ''}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    fullWidth
+                    value={columnFields[column] || ''}
+                    onChange={(e) => handleColumnFieldChange(column, e.target.value)}
+                    displayEmpty
+                  >
+                    <MenuItem value=""><em>Don't import</em></MenuItem>
+                    {fields.map(field => (
+                      <MenuItem key={field.key} value={field.key}>
+                        {field.label}{field.required ? ' *' : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Box sx={{ mt: 1 }}>
+        {fields.filter(field => field.description).map(field => (
+          <Typography key={field.key} variant="caption" color="text.secondary" component="div">
+            {field.label}: {field.description}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+
+  const renderCell = (row: WizardRow, fieldKey: string) => {
+    const issues = checked.byCell.get(issueKey(row.sourceRow, fieldKey)) || [];
+    const hasError = issues.some(issue => issue.severity === 'error');
+    const hasWarning = !hasError && issues.length > 0;
+
+    return (
+      <TableCell key={fieldKey} sx={{ minWidth: 140, py: 0.5 }}>
+        <Tooltip title={issues.map(issue => issue.message).join('\n')} disableHoverListener={issues.length === 0}>
+          <TextField
+            variant="standard"
+            size="small"
+            fullWidth
+            value={row.values[fieldKey] ?? ''}
+            onChange={(e) => handleCellChange(row.sourceRow, fieldKey, e.target.value)}
+            error={hasError}
+            color={hasWarning ? 'warning' : undefined}
+            focused={hasWarning || undefined}
+          />
+        </Tooltip>
+      </TableCell>
+    );
+  };
+
+  const renderPreviewStep = () => (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1, flexWrap: 'wrap' }}>
+        <Chip label={`${rows.length} rows`} size="small" />
+        <Chip label={`${checked.errorCount} errors`} size="small" color={checked.errorCount ? 'error' : 'default'} />
+        <Chip label={`${checked.warningCount} warnings`} size="small" color={checked.warningCount ? 'warning' : 'default'} />
+        {removedRows.length > 0 && <Chip label={`${removedRows.length} removed`} size="small" variant="outlined" />}
+        <FormControlLabel
+          control={<Switch size="small" checked={problemsOnly} onChange={(e) => { setProblemsOnly(e.target.checked); setPage(0); }} />}
+          label="Only rows with problems"
+          sx={{ ml: 1 }}
+        />
+        {entity === 'clients' && (
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={allowDuplicates}
+                onChange={(e) => { setAllowDuplicates(e.target.checked); setServerErrors([]); setCheckedOk(false); }}
+              />
+            }
+            label="Allow likely duplicates"
+          />
+        )}
+        <FormControl size="small" sx={{ minWidth: 320, ml: 'auto' }}>
+          <InputLabel id="import-mode-label">Existing records</InputLabel>
+          <Select
+            labelId="import-mode-label"
+            label="Existing records"
+            value={mode}
+            onChange={(e) => { setMode(e.target.value as ImportMode); setServerErrors([]); setCheckedOk(false); }}
+          >
+            {(Object.keys(MODE_LABELS) as ImportMode[]).map(value => (
+              <MenuItem key={value} value={value}>{MODE_LABELS[value]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+      {checkedOk && (
+        <Alert severity="success" sx={{ mb: 1 }}>
+          Every row passed the server's checks. Nothing has been saved yet.
+        </Alert>
+      )}
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 420 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Row</TableCell>
+              {mappedFields.map(field => (
+                <TableCell key={field.key}>{field.label}{field.required ? ' *' : ''}</TableCell>
+              ))}
+              <TableCell sx={{ minWidth: 220 }}>Problems</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.slice(page * ROWS_PER_PAGE, (page + 1) * ROWS_PER_PAGE).map(row => (
+              <TableRow key={row.sourceRow}>
+                <TableCell>{row.sourceRow}</TableCell>
+                {mappedFields.map(field => renderCell(row, field.key))}
+                <TableCell>
+                  {(checked.byRow.get(row.sourceRow) || []).map((issue, index) => (
+                    <Typography
+                      key={index}
+                      variant="caption"
+                      component="div"
+                      color={issue.severity === 'error' ? 'error' : 'warning.main'}
+                    >
+                      {issue.message}
+                    </Typography>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+            {visibleRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={mappedFields.length + 2} align="center">
+                  {rows.length === 0 ? 'No rows left to import' : 'No rows with problems'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={visibleRows.length}
+        page={page}
+        onPageChange={(_event, newPage) => setPage(newPage)}
+        rowsPerPage={ROWS_PER_PAGE}
+        rowsPerPageOptions={[ROWS_PER_PAGE]}
+      />
+    </Box>
+  );
+
+  const renderDoneStep = () => (
+    <Box sx={{ py: 2 }}>
+      {result && (
+        <Alert severity="success">
+          Imported {result.total} rows: {result.created} created, {result.updated} updated, {result.skipped} skipped.
+        </Alert>
+      )}
+      {removedRows.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {removedRows.length} rows with errors were left out. Download the error report to fix and import them separately.
+        </Alert>
+      )}
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Import {ENTITY_LABELS[entity]}</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 2 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+        {busy && <LinearProgress sx={{ mb: 1 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {step === 0 && renderUploadStep()}
+        {step === 1 && renderMappingStep()}
+        {step === 2 && renderPreviewStep()}
+        {step === 3 && renderDoneStep()}
+      </DialogContent>
+      <DialogActions>
+        {reportRowCount > 0 && step >= 2 && (
+          <Button startIcon={<DownloadIcon />} onClick={handleDownloadErrorReport} sx={{ mr: 'auto' }}>
+            Download error report ({reportRowCount})
+          </Button>
+        )}
+        {step === 1 && (
+          <>
+            <Button onClick={() => setStep(0)}>Back</Button>
+            <Button variant="contained" onClick={handleMappingDone} disabled={unmappedRequired.length > 0}>
+              Next
+            </Button>
+          </>
+        )}
+        {step === 2 && (
+          <>
+            <Button onClick={() => setStep(1)} disabled={busy}>Back</Button>
+            {failedRows.length > 0 && (
+              <Button color="warning" onClick={handleRemoveFailedRows} disabled={busy}>
+                Remove rows with errors
+              </Button>
+            )}
+            <Button onClick={() => runImport(true)} disabled={busy || rows.length === 0 || checked.clientErrorCount > 0}>
+              Check
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => runImport(false)}
+              disabled={busy || rows.length === 0 || checked.errorCount > 0}
+            >
+              Import {rows.length} rows
+            </Button>
+          </>
+        )}
+        <Button onClick={onClose} disabled={busy}>
+          {step === 3 ? 'Close' : 'Cancel'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
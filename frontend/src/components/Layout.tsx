@@ -25,12 +25,15 @@ import BusinessIcon from '@mui/icons-material/Business';
 import CategoryIcon from '@mui/icons-material/Category';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import GridViewIcon from '@mui/icons-material/GridView';
+import AssessmentIcon from '@mui/icons-material/Assessment';
 import TaskIcon from '@mui/icons-material/Task';
 import NotificationsIcon from '@mui/icons-material/Notifications';
 import AccountCircle from '@mui/icons-material/AccountCircle';
 import LogoutIcon from '@mui/icons-material/Logout';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
 import DomainIcon from '@mui/icons-material/Domain';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import AutoModeIcon from '@mui/icons-material/AutoMode';
 import ExpandLess from '@mui/icons-material/ExpandLess';
 import ExpandMore from '@mui/icons-material/ExpandMore';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
@@ -85,12 +88,24 @@ const navigationItems: NavigationItem[] = [
     icon: <GridViewIcon />, 
     roles: ['admin', 'sales', 'bu_head', 'senior_management'] 
   },
+  {
+    text: 'Reports',
+    path: '/reports',
+    icon: <AssessmentIcon />,
+    roles: ['admin', 'bu_head', 'senior_management']
+  },
   { 
     text: 'Tasks', 
     path: '/tasks', 
     icon: <TaskIcon />, 
     roles: ['admin', 'sales', 'bu_head'] 
   },
+  {
+    text: 'Workflow Rules',
+    path: '/workflow-rules',
+    icon: <AutoModeIcon />,
+    roles: ['admin', 'bu_head']
+  },
   {
     text: 'Admin',
     icon: <AdminPanelSettingsIcon />,
@@ -113,6 +128,12 @@ const navigationItems: NavigationItem[] = [
         path: '/admin/industries',
         icon: <CategoryIcon />,
         roles: ['admin']
+      },
+      {
+        text: 'Opportunity Stages',
+        path: '/admin/opportunity-stages',
+        icon: <AccountTreeIcon />,
+        roles: ['admin']
       }
     ]
   }
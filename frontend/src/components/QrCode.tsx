@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Light modules required around the code by the spec
+const QUIET_ZONE = 4;
+
+/**
+ * Renders text as a QR code SVG, e.g. an otpauth:// link for an authenticator app
+ */
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200 }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    let d = '';
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          d += `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`;
+        }
+      });
+    });
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
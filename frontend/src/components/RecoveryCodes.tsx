@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Box, Typography, Button, Alert } from '@mui/material';
+import { ContentCopy as ContentCopyIcon } from '@mui/icons-material';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+/**
+ * Newly generated recovery codes, shown once for the user to save
+ */
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+    }
+  };
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your
+        authenticator app. They won't be shown again.
+      </Alert>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, 1fr)',
+          gap: 1,
+          p: 2,
+          bgcolor: 'grey.100',
+          borderRadius: 1,
+          fontFamily: 'monospace'
+        }}
+      >
+        {codes.map(code => (
+          <Typography key={code} variant="body1" sx={{ fontFamily: 'inherit', textAlign: 'center' }}>
+            {code}
+          </Typography>
+        ))}
+      </Box>
+      <Button startIcon={<ContentCopyIcon />} onClick={handleCopy} sx={{ mt: 1 }}>
+        {copied ? 'Copied' : 'Copy Codes'}
+      </Button>
+    </Box>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+  Typography,
+  CircularProgress,
+  Stack
+} from '@mui/material';
+import exportService, {
+  ExportEntity,
+  ExportFormat,
+  ExportParams,
+  toSavedQuery
+} from '../services/exportService';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const ENTITY_LABELS: Record<ExportEntity, string> = {
+  clients: 'Clients',
+  services: 'Services',
+  opportunities: 'Opportunities',
+  tasks: 'Tasks',
+  matrix: 'Cross-sell matrix'
+};
+
+// e.g. "Monday at 08:00"
+export const describeSchedule = (dayOfWeek: number, hour: number): string =>
+  `${DAY_NAMES[dayOfWeek]} at ${String(hour).padStart(2, '0')}:00`;
+
+interface ScheduleExportDialogProps {
+  open: boolean;
+  entity: ExportEntity;
+  // The current filters, saved with the schedule
+  params: ExportParams;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for emailing the current export to yourself every week
+ */
+const ScheduleExportDialog: React.FC<ScheduleExportDialogProps> = ({ open, entity, params, onClose }) => {
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [hour, setHour] = useState(8);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(`Weekly ${ENTITY_LABELS[entity].toLowerCase()} export`);
+    setSaved(false);
+    setError(null);
+  }, [open, entity]);
+
+  const filterCount = Object.keys(toSavedQuery(params)).filter(key => key !== 'sort').length;
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await exportService.createSchedule({
+        name: name.trim(),
+        entity,
+        format,
+        query: toSavedQuery(params),
+        day_of_week: dayOfWeek,
+        hour
+      });
+      setSaved(true);
+    } catch (err: any) {
+      console.error('Error scheduling export:', err);
+      setError(err.response?.data?.message || 'Failed to schedule the export.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Email Me This Export Weekly</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {saved ? (
+          <Alert severity="success">
+            "{name.trim()}" will be emailed to you every {describeSchedule(dayOfWeek, hour)}. You can
+            change or stop it from your profile.
+          </Alert>
+        ) : (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {ENTITY_LABELS[entity]}, {filterCount > 0
+                ? `with the ${filterCount} filter${filterCount === 1 ? '' : 's'} applied now`
+                : 'with no filters'}, sent as an attachment.
+            </Typography>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              inputProps={{ maxLength: 100 }}
+              required
+              fullWidth
+            />
+            <TextField
+              select
+              label="Format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              fullWidth
+            >
+              <MenuItem value="xlsx">Excel (XLSX)</MenuItem>
+              <MenuItem value="csv">CSV</MenuItem>
+            </TextField>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                select
+                label="Day"
+                value={dayOfWeek}
+                onChange={(e) => setDayOfWeek(Number(e.target.value))}
+                fullWidth
+              >
+                {DAY_NAMES.map((day, index) => (
+                  <MenuItem key={day} value={index}>{day}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Time"
+                value={hour}
+                onChange={(e) => setHour(Number(e.target.value))}
+                fullWidth
+              >
+                {Array.from({ length: 24 }, (_, h) => (
+                  <MenuItem key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {saved ? (
+          <Button onClick={onClose}>Close</Button>
+        ) : (
+          <>
+            <Button onClick={onClose} disabled={saving}>Cancel</Button>
+            <Button variant="contained" onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? <CircularProgress size={24} color="inherit" /> : 'Schedule'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScheduleExportDialog;
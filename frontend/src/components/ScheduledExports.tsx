@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Switch,
+  Tooltip
+} from '@mui/material';
+import { Delete as DeleteIcon, Send as SendIcon } from '@mui/icons-material';
+import exportService, { ScheduledExport } from '../services/exportService';
+import { ENTITY_LABELS, describeSchedule } from './ScheduleExportDialog';
+
+/**
+ * Profile card listing the exports the user has emailed to them every week,
+ * to pause, send now or delete them
+ */
+const ScheduledExports: React.FC = () => {
+  const [schedules, setSchedules] = useState<ScheduledExport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await exportService.getSchedules());
+    } catch (error: any) {
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to load scheduled exports.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  // Run one action on a schedule, showing its outcome
+  const runAction = async (schedule: ScheduledExport, action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusyId(schedule.id);
+      setMessage(null);
+      await action();
+      setMessage({ type: 'success', text: success });
+      await loadSchedules();
+    } catch (error: any) {
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Something went wrong. Please try again.'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggle = (schedule: ScheduledExport) =>
+    runAction(
+      schedule,
+      () => exportService.updateSchedule(schedule.id, { is_active: !schedule.is_active }),
+      schedule.is_active ? `"${schedule.name}" is paused.` : `"${schedule.name}" is back on.`
+    );
+
+  const handleSend = (schedule: ScheduledExport) =>
+    runAction(schedule, () => exportService.sendSchedule(schedule.id), `"${schedule.name}" was sent to your email address.`);
+
+  const handleDelete = (schedule: ScheduledExport) => {
+    if (!window.confirm(`Stop and delete "${schedule.name}"?`)) return;
+    runAction(schedule, () => exportService.deleteSchedule(schedule.id), `"${schedule.name}" was deleted.`);
+  };
+
+  const describe = (schedule: ScheduledExport): string => {
+    const parts = [
+      `${ENTITY_LABELS[schedule.entity]} as ${schedule.format.toUpperCase()}`,
+      `every ${describeSchedule(schedule.day_of_week, schedule.hour)}`
+    ];
+    if (schedule.last_sent_at) {
+      parts.push(`last sent ${new Date(schedule.last_sent_at).toLocaleString()}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Scheduled Exports
+        </Typography>
+
+        {message && (
+          <Alert
+            severity={message.type}
+            sx={{ mb: 2 }}
+            onClose={() => setMessage(null)}
+          >
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : schedules.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Use "Email Me Weekly" in the Export menu of a list or the matrix to have it sent to you every week.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {schedules.map((schedule) => (
+              <ListItem
+                key={schedule.id}
+                divider
+                secondaryAction={
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Tooltip title={schedule.is_active ? 'Pause' : 'Resume'}>
+                      <Switch
+                        checked={schedule.is_active}
+                        onChange={() => handleToggle(schedule)}
+                        disabled={busyId === schedule.id}
+                        size="small"
+                      />
+                    </Tooltip>
+                    <Tooltip title="Send now">
+                      <span>
+                        <IconButton onClick={() => handleSend(schedule)} disabled={busyId === schedule.id} size="small">
+                          <SendIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <span>
+                        <IconButton onClick={() => handleDelete(schedule)} disabled={busyId === schedule.id} size="small">
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemText
+                  sx={{ pr: 16 }}
+                  primary={schedule.name}
+                  secondary={
+                    <>
+                      {describe(schedule)}
+                      {schedule.last_error && (
+                        <Typography component="span" variant="body2" color="error" sx={{ display: 'block' }}>
+                          Last run failed: {schedule.last_error}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledExports;
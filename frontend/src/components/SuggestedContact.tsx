@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, Typography } from '@mui/material';
+import clientService, { SuggestedContact as Suggestion } from '../services/clientService';
+
+interface SuggestedContactProps {
+  clientId?: number;
+  serviceId?: number;
+}
+
+/**
+ * Shows the client contact whose role matches the service's ideal client role
+ */
+const SuggestedContact: React.FC<SuggestedContactProps> = ({ clientId, serviceId }) => {
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+
+  useEffect(() => {
+    if (!clientId || !serviceId) {
+      setSuggestion(null);
+      return;
+    }
+
+    let cancelled = false;
+    clientService.getSuggestedContact(clientId, serviceId)
+      .then(result => {
+        if (!cancelled) setSuggestion(result);
+      })
+      .catch(() => {
+        if (!cancelled) setSuggestion(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, serviceId]);
+
+  if (!suggestion || !suggestion.client_role) {
+    return null;
+  }
+
+  const { contact, client_role } = suggestion;
+
+  if (!contact) {
+    return (
+      <Alert severity="warning" sx={{ mt: 2 }}>
+        This service targets the {client_role}, but the client has no contact with that role.
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert severity="info" sx={{ mt: 2 }}>
+      <Typography variant="body2">
+        Suggested contact ({client_role}): <strong>{contact.name}</strong>
+        {contact.job_title && `, ${contact.job_title}`}
+      </Typography>
+      {(contact.email || contact.phone) && (
+        <Typography variant="caption" display="block">
+          {[contact.email, contact.phone].filter(Boolean).join(' · ')}
+        </Typography>
+      )}
+    </Alert>
+  );
+};
+
+export default SuggestedContact;
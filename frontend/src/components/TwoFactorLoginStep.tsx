@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Typography, TextField, Button, Alert, CircularProgress } from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+import authService, { AuthResponse, TwoFactorSetup } from '../services/authService';
+import TwoFactorSetupDetails from './TwoFactorSetupDetails';
+import RecoveryCodes from './RecoveryCodes';
+
+/**
+ * Second step of signing in: enter a two-factor code, or set two-factor up
+ * first when the user's role requires it
+ */
+const TwoFactorLoginStep: React.FC = () => {
+  const { twoFactorChallenge, completeTwoFactor, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // A sign-in that also set two-factor up, held until the codes are saved
+  const [setupResponse, setSetupResponse] = useState<AuthResponse | null>(null);
+
+  const challengeToken = twoFactorChallenge?.challengeToken;
+  const setupRequired = !!twoFactorChallenge?.setupRequired;
+
+  // A setup challenge needs a fresh secret to show
+  useEffect(() => {
+    if (!challengeToken || !setupRequired) {
+      return;
+    }
+
+    const fetchSetup = async () => {
+      try {
+        setSetup(await authService.beginTwoFactorLoginSetup(challengeToken));
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Could not start two-factor setup. Please sign in again.');
+      }
+    };
+
+    fetchSetup();
+  }, [challengeToken, setupRequired]);
+
+  if (!challengeToken) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authService.verifyTwoFactorLogin(challengeToken, code.trim());
+      if (response.recoveryCodes) {
+        setSetupResponse(response);
+      } else {
+        completeTwoFactor(response);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Verification failed. Please try again.');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (setupResponse?.recoveryCodes) {
+    return (
+      <Box sx={{ mt: 2, width: '100%' }}>
+        <Alert severity="success" sx={{ mb: 2 }}>Two-factor authentication is now on.</Alert>
+        <RecoveryCodes codes={setupResponse.recoveryCodes} />
+        <Button fullWidth variant="contained" sx={{ mt: 2 }} onClick={() => completeTwoFactor(setupResponse)}>
+          Continue
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 2, width: '100%' }}>
+      {setupRequired ? (
+        <>
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Your role requires two-factor authentication. Set it up to continue.
+          </Alert>
+          {setup ? <TwoFactorSetupDetails setup={setup} /> : !error && <CircularProgress sx={{ display: 'block', mx: 'auto' }} />}
+        </>
+      ) : (
+        <Typography variant="body2" color="text.secondary" align="center">
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </Typography>
+      )}
+
+      {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+
+      <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1 }}>
+        <TextField
+          margin="normal"
+          required
+          fullWidth
+          id="code"
+          label={setupRequired ? 'Code from your app' : 'Authentication code'}
+          name="code"
+          autoComplete="one-time-code"
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={loading || (setupRequired && !setup)}
+        />
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          sx={{ mt: 3, mb: 2 }}
+          disabled={loading || (setupRequired && !setup)}
+        >
+          {loading ? <CircularProgress size={24} color="inherit" /> : 'Verify'}
+        </Button>
+        <Button fullWidth onClick={cancelTwoFactor} disabled={loading}>
+          Back to Sign In
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Card,
+  CardContent,
+  CardActions,
+  Alert,
+  CircularProgress,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions
+} from '@mui/material';
+import authService, { TwoFactorSetup, TwoFactorStatus } from '../services/authService';
+import TwoFactorSetupDetails from './TwoFactorSetupDetails';
+import RecoveryCodes from './RecoveryCodes';
+
+type PasswordAction = 'disable' | 'regenerate';
+
+/**
+ * Profile card for turning two-factor authentication on and off and
+ * managing recovery codes
+ */
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  // Enrollment in progress
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Shown once, after enabling or regenerating
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  // Turning off and regenerating codes need the password
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await authService.getTwoFactorStatus());
+    } catch (error: any) {
+      console.error('Error loading two-factor status:', error);
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to load two-factor status.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleBeginSetup = async () => {
+    try {
+      setMessage(null);
+      setRecoveryCodes(null);
+      setSetup(await authService.beginTwoFactorSetup());
+      setCode('');
+    } catch (error: any) {
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to start two-factor setup. Please try again.'
+      });
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const codes = await authService.enableTwoFactor(code.trim());
+      setSetup(null);
+      setRecoveryCodes(codes);
+      setMessage({ type: 'success', text: 'Two-factor authentication is now on.' });
+      loadStatus();
+    } catch (error: any) {
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to enable two-factor authentication. Please try again.'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCloseDialog = () => {
+    setPasswordAction(null);
+    setPassword('');
+  };
+
+  const handleConfirmPassword = async () => {
+    setSubmitting(true);
+
+    try {
+      if (passwordAction === 'disable') {
+        await authService.disableTwoFactor(password);
+        setRecoveryCodes(null);
+        setMessage({ type: 'success', text: 'Two-factor authentication is now off.' });
+      } else {
+        setRecoveryCodes(await authService.regenerateRecoveryCodes(password));
+        setMessage({ type: 'success', text: 'New recovery codes generated; the old ones no longer work.' });
+      }
+      handleCloseDialog();
+      loadStatus();
+    } catch (error: any) {
+      setMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Something went wrong. Please try again.'
+      });
+      handleCloseDialog();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            Two-Factor Authentication
+          </Typography>
+          {status && (
+            <Chip
+              label={status.enabled ? 'On' : 'Off'}
+              color={status.enabled ? 'success' : 'default'}
+              size="small"
+            />
+          )}
+        </Box>
+
+        {message && (
+          <Alert 
+            severity={message.type} 
+            sx={{ mb: 2 }}
+            onClose={() => setMessage(null)}
+          >
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : status && (
+          <>
+            {status.required && !status.enabled && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Two-factor authentication is required for your role. You'll be asked to set it up when you next sign in.
+              </Alert>
+            )}
+
+            {recoveryCodes ? (
+              <RecoveryCodes codes={recoveryCodes} />
+            ) : setup ? (
+              <Box component="form" onSubmit={handleEnable}>
+                <TwoFactorSetupDetails setup={setup} />
+                <TextField
+                  fullWidth
+                  label="Code from your app"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  required
+                  margin="normal"
+                />
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                  <Button onClick={() => setSetup(null)} disabled={submitting}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" variant="contained" disabled={submitting}>
+                    {submitting ? <CircularProgress size={24} /> : 'Turn On'}
+                  </Button>
+                </Box>
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {status.enabled
+                  ? `Signing in asks for a code from your authenticator app. You have ${status.recoveryCodesRemaining} unused recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'}.`
+                  : 'Protect your account by asking for a code from an authenticator app when you sign in.'}
+              </Typography>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {status && !setup && (
+        <CardActions sx={{ justifyContent: 'flex-end', p: 2 }}>
+          {recoveryCodes && (
+            <Button onClick={() => setRecoveryCodes(null)}>
+              Done
+            </Button>
+          )}
+          {status.enabled ? (
+            <>
+              <Button variant="outlined" onClick={() => setPasswordAction('regenerate')}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outlined" color="error" onClick={() => setPasswordAction('disable')}>
+                  Turn Off
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button variant="contained" onClick={handleBeginSetup}>
+              Set Up
+            </Button>
+          )}
+        </CardActions>
+      )}
+
+      <Dialog open={passwordAction !== null} onClose={handleCloseDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {passwordAction === 'disable' ? 'Turn Off Two-Factor Authentication' : 'Generate New Recovery Codes'}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Enter your password to continue.
+          </DialogContentText>
+          <TextField
+            autoFocus
+            fullWidth
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={submitting}>Cancel</Button>
+          <Button
+            onClick={handleConfirmPassword}
+            variant="contained"
+            color={passwordAction === 'disable' ? 'error' : 'primary'}
+            disabled={submitting || !password}
+          >
+            {submitting ? <CircularProgress size={24} /> : 'Confirm'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
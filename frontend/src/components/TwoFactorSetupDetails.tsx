@@ -0,0 +1,29 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import QrCode from './QrCode';
+import { TwoFactorSetup } from '../services/authService';
+
+interface TwoFactorSetupDetailsProps {
+  setup: TwoFactorSetup;
+}
+
+/**
+ * The QR code and secret for adding an account to an authenticator app
+ */
+const TwoFactorSetupDetails: React.FC<TwoFactorSetupDetailsProps> = ({ setup }) => (
+  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center' }}>
+    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+      Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+      then enter the 6-digit code it shows.
+    </Typography>
+    <QrCode value={setup.otpauthUrl} />
+    <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+      Can't scan it? Enter this key instead:
+    </Typography>
+    <Typography variant="body1" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+      {setup.secret.match(/.{1,4}/g)?.join(' ')}
+    </Typography>
+  </Box>
+);
+
+export default TwoFactorSetupDetails;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Box } from '@mui/material';
+
+// Fixed sizes let the grid work out which rows and columns are visible
+export const MATRIX_ROW_HEIGHT = 40;
+export const MATRIX_COLUMN_WIDTH = 120;
+export const MATRIX_ROW_HEADER_WIDTH = 220;
+export const MATRIX_HEADER_HEIGHT = 48;
+
+// Rows/columns rendered beyond the visible area so fast scrolling stays smooth
+const OVERSCAN = 3;
+
+// Room for the body's scrollbars, so frozen headers can scroll as far as the body
+const SCROLLBAR_ALLOWANCE = 20;
+
+export interface VisibleRange {
+  rowStart: number;
+  rowEnd: number;
+  columnStart: number;
+  columnEnd: number;
+}
+
+interface VirtualMatrixGridProps {
+  rowCount: number;
+  columnCount: number;
+  height: number | string;
+  corner?: React.ReactNode;
+  renderRowHeader: (rowIndex: number) => React.ReactNode;
+  renderColumnHeader: (columnIndex: number) => React.ReactNode;
+  renderCell: (rowIndex: number, columnIndex: number) => React.ReactNode;
+  onVisibleRangeChange?: (range: VisibleRange) => void;
+  // Scrolls back to the top-left corner whenever it changes, e.g. on new filters
+  resetKey?: string;
+}
+
+/**
+ * Grid that only renders the cells in view, with the header row and the
+ * first column frozen in place
+ */
+const VirtualMatrixGrid: React.FC<VirtualMatrixGridProps> = ({
+  rowCount,
+  columnCount,
+  height,
+  corner,
+  renderRowHeader,
+  renderColumnHeader,
+  renderCell,
+  onVisibleRangeChange,
+  resetKey
+}) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const rowHeaderRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, scrollLeft: 0, width: 0, height: 0 });
+
+  const measure = useCallback(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    setViewport({
+      scrollTop: body.scrollTop,
+      scrollLeft: body.scrollLeft,
+      width: body.clientWidth,
+      height: body.clientHeight
+    });
+  }, []);
+
+  const handleScroll = () => {
+    const body = bodyRef.current;
+    if (!body) return;
+
+    // Frozen panes follow the body straight away; re-rendering waits for the next frame
+    if (headerRef.current) headerRef.current.scrollLeft = body.scrollLeft;
+    if (rowHeaderRef.current) rowHeaderRef.current.scrollTop = body.scrollTop;
+
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = null;
+        measure();
+      });
+    }
+  };
+
+  useEffect(() => {
+    measure();
+    window.addEventListener('resize', measure);
+    return () => {
+      window.removeEventListener('resize', measure);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [measure]);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    body.scrollTop = 0;
+    body.scrollLeft = 0;
+    if (headerRef.current) headerRef.current.scrollLeft = 0;
+    if (rowHeaderRef.current) rowHeaderRef.current.scrollTop = 0;
+    measure();
+  }, [resetKey, measure]);
+
+  const rowStart = Math.max(0, Math.floor(viewport.scrollTop / MATRIX_ROW_HEIGHT) - OVERSCAN);
+  const rowEnd = Math.min(rowCount, Math.ceil((viewport.scrollTop + viewport.height) / MATRIX_ROW_HEIGHT) + OVERSCAN);
+  const columnStart = Math.max(0, Math.floor(viewport.scrollLeft / MATRIX_COLUMN_WIDTH) - OVERSCAN);
+  const columnEnd = Math.min(columnCount, Math.ceil((viewport.scrollLeft + viewport.width) / MATRIX_COLUMN_WIDTH) + OVERSCAN);
+
+  useEffect(() => {
+    if (onVisibleRangeChange) {
+      onVisibleRangeChange({ rowStart, rowEnd, columnStart, columnEnd });
+    }
+  }, [rowStart, rowEnd, columnStart, columnEnd, onVisibleRangeChange]);
+
+  const totalWidth = columnCount * MATRIX_COLUMN_WIDTH;
+  const totalHeight = rowCount * MATRIX_ROW_HEIGHT;
+
+  const rows: number[] = [];
+  for (let row = rowStart; row < rowEnd; row++) rows.push(row);
+  const columns: number[] = [];
+  for (let column = columnStart; column < columnEnd; column++) columns.push(column);
+
+  const cellBox = {
+    position: 'absolute',
+    display: 'flex',
+    alignItems: 'center',
+    boxSizing: 'border-box',
+    borderBottom: '1px solid',
+    borderColor: 'divider',
+    overflow: 'hidden'
+  } as const;
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: `${MATRIX_ROW_HEADER_WIDTH}px minmax(0, 1fr)`,
+        gridTemplateRows: `${MATRIX_HEADER_HEIGHT}px minmax(0, 1fr)`,
+        height
+      }}
+    >
+      <Box
+        sx={{
+          ...cellBox,
+          position: 'relative',
+          px: 2,
+          fontWeight: 'bold',
+          borderRight: '1px solid',
+          borderColor: 'divider',
+          backgroundColor: 'background.paper'
+        }}
+      >
+        {corner}
+      </Box>
+
+      <Box ref={headerRef} sx={{ overflow: 'hidden', position: 'relative', backgroundColor: 'background.paper' }}>
+        <Box sx={{ position: 'relative', width: totalWidth + SCROLLBAR_ALLOWANCE, height: MATRIX_HEADER_HEIGHT }}>
+          {columns.map(column => (
+            <Box
+              key={column}
+              sx={{
+                ...cellBox,
+                justifyContent: 'center',
+                px: 1,
+                left: column * MATRIX_COLUMN_WIDTH,
+                top: 0,
+                width: MATRIX_COLUMN_WIDTH,
+                height: MATRIX_HEADER_HEIGHT
+              }}
+            >
+              {renderColumnHeader(column)}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      <Box
+        ref={rowHeaderRef}
+        sx={{ overflow: 'hidden', position: 'relative', borderRight: '1px solid', borderColor: 'divider' }}
+      >
+        <Box sx={{ position: 'relative', height: totalHeight + SCROLLBAR_ALLOWANCE }}>
+          {rows.map(row => (
+            <Box
+              key={row}
+              sx={{
+                ...cellBox,
+                px: 2,
+                left: 0,
+                top: row * MATRIX_ROW_HEIGHT,
+                width: '100%',
+                height: MATRIX_ROW_HEIGHT
+              }}
+            >
+              {renderRowHeader(row)}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      <Box ref={bodyRef} onScroll={handleScroll} sx={{ overflow: 'auto', position: 'relative' }}>
+        <Box sx={{ position: 'relative', width: totalWidth, height: totalHeight }}>
+          {rows.map(row => columns.map(column => (
+            <Box
+              key={`${row}:${column}`}
+              sx={{
+                ...cellBox,
+                left: column * MATRIX_COLUMN_WIDTH,
+                top: row * MATRIX_ROW_HEIGHT,
+                width: MATRIX_COLUMN_WIDTH,
+                height: MATRIX_ROW_HEIGHT
+              }}
+            >
+              {renderCell(row, column)}
+            </Box>
+          )))}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default VirtualMatrixGrid;
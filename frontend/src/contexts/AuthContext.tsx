@@ -1,5 +1,12 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import authService, { User, LoginCredentials, RegisterData } from '../services/authService';
+import authService, { User, LoginCredentials, RegisterData, AcceptInvitationData, AuthResponse, SignInResponse } from '../services/authService';
+
+// A sign-in waiting on its two-factor step
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  // The user's role requires two-factor and they haven't set it up yet
+  setupRequired: boolean;
+}
 
 // Define the shape of our authentication context
 interface AuthContextType {
@@ -8,8 +15,12 @@ interface AuthContextType {
   userRole: string | null;
   loading: boolean;
   error: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null;
   login: (credentials: LoginCredentials) => Promise<void>;
   register: (userData: RegisterData) => Promise<void>;
+  acceptInvitation: (token: string, data: AcceptInvitationData) => Promise<void>;
+  completeTwoFactor: (response: AuthResponse) => void;
+  cancelTwoFactor: () => void;
   logout: () => void;
   clearError: () => void;
   updateUser: (userData: User) => void;
@@ -22,8 +33,12 @@ const AuthContext = createContext<AuthContextType>({
   userRole: null,
   loading: true,
   error: null,
+  twoFactorChallenge: null,
   login: async () => {},
   register: async () => {},
+  acceptInvitation: async () => {},
+  completeTwoFactor: () => {},
+  cancelTwoFactor: () => {},
   logout: () => {},
   clearError: () => {},
   updateUser: () => {},
@@ -43,6 +58,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [userRole, setUserRole] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
 
   // Check if user is already logged in
   useEffect(() => {
@@ -70,16 +86,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuth();
   }, []);
 
+  // Sign the user in, or hold on to the challenge if a two-factor step comes first
+  const handleSignIn = (response: SignInResponse) => {
+    if ('token' in response) {
+      setTwoFactorChallenge(null);
+      setIsAuthenticated(true);
+      setUser(response.user);
+      setUserRole(response.user.role);
+    } else {
+      setTwoFactorChallenge({
+        challengeToken: response.challengeToken,
+        setupRequired: !!response.twoFactorSetupRequired
+      });
+    }
+  };
+
   // Login function
   const login = async (credentials: LoginCredentials) => {
     setLoading(true);
     setError(null);
     
     try {
-      const response = await authService.login(credentials);
-      setIsAuthenticated(true);
-      setUser(response.user);
-      setUserRole(response.user.role);
+      handleSignIn(await authService.login(credentials));
     } catch (err: any) {
       setError(err.response?.data?.message || 'Login failed. Please check your credentials.');
       console.error('Login error:', err);
@@ -94,10 +122,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setError(null);
     
     try {
-      const response = await authService.register(userData);
-      setIsAuthenticated(true);
-      setUser(response.user);
-      setUserRole(response.user.role);
+      handleSignIn(await authService.register(userData));
     } catch (err: any) {
       setError(err.response?.data?.message || 'Registration failed. Please try again.');
       console.error('Registration error:', err);
@@ -106,6 +131,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Accept an invitation and sign in as the new user
+  const acceptInvitation = async (token: string, data: AcceptInvitationData) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      handleSignIn(await authService.acceptInvitation(token, data));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not accept the invitation. Please try again.');
+      console.error('Accept invitation error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Finish a sign-in once the two-factor step has succeeded
+  const completeTwoFactor = (response: AuthResponse) => {
+    handleSignIn(response);
+  };
+
+  // Go back to the password step
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+  };
+
   // Logout function
   const logout = () => {
     authService.logout();
@@ -131,8 +181,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     userRole,
     loading,
     error,
+    twoFactorChallenge,
     login,
     register,
+    acceptInvitation,
+    completeTwoFactor,
+    cancelTwoFactor,
     logout,
     clearError,
     updateUser,
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { checkPermission, PolicyAction, PolicyRecord, PolicyResource } from '../utils/permissions';
+
+/**
+ * can(action, resource, record?) for the signed-in user, for hiding actions
+ * the access policy doesn't allow
+ */
+export const usePermissions = () => {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (action: PolicyAction, resource: PolicyResource, record?: PolicyRecord): boolean =>
+      checkPermission(user?.permissions, user?.id, action, resource, record),
+    [user]
+  );
+
+  return { can };
+};
+
+export default usePermissions;
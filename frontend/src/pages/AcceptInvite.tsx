@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { 
+  Container, 
+  Box, 
+  Typography, 
+  TextField, 
+  Button, 
+  Paper, 
+  Avatar,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import PersonAddOutlinedIcon from '@mui/icons-material/PersonAddOutlined';
+import { Navigate, useParams, Link as RouterLink } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import authService, { InvitationDetails } from '../services/authService';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Format role for display
+const formatRole = (role: string) => role.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const AcceptInvite: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadingInvitation, setLoadingInvitation] = useState(true);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  // The auth context error may be left over from another page until we submit
+  const [submitted, setSubmitted] = useState(false);
+  
+  // Use authentication context
+  const { acceptInvitation, error, loading, isAuthenticated, twoFactorChallenge } = useAuth();
+
+  // Load the invitation the link points to
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const details = await authService.getInvitation(token || '');
+        setInvitation(details);
+      } catch (err: any) {
+        setInvitationError(err.response?.data?.message || 'This invitation could not be loaded.');
+      } finally {
+        setLoadingInvitation(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  // Once the account is created the user is signed in
+  if (isAuthenticated) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  // If the role requires two-factor, it's set up on the sign-in page
+  if (twoFactorChallenge) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setFormError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFormError('Passwords do not match');
+      return;
+    }
+
+    setFormError(null);
+    setSubmitted(true);
+    await acceptInvitation(token || '', { username, password });
+  };
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+        }}
+      >
+        <Paper 
+          elevation={3} 
+          sx={{ 
+            padding: 4, 
+            display: 'flex', 
+            flexDirection: 'column', 
+            alignItems: 'center',
+            width: '100%'
+          }}
+        >
+          <Avatar sx={{ m: 1, bgcolor: 'primary.main' }}>
+            <PersonAddOutlinedIcon />
+          </Avatar>
+          <Typography component="h1" variant="h5">
+            Wondrlab Cross-Selling Management System
+          </Typography>
+          <Typography component="h2" variant="h6" sx={{ mt: 1 }}>
+            Accept Invitation
+          </Typography>
+
+          {loadingInvitation ? (
+            <CircularProgress sx={{ mt: 3 }} />
+          ) : invitationError || !invitation ? (
+            <>
+              <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{invitationError}</Alert>
+              <Button component={RouterLink} to="/login" sx={{ mt: 2 }}>
+                Go to Sign In
+              </Button>
+            </>
+          ) : (
+            <>
+              <Alert severity="info" sx={{ mt: 2, width: '100%' }}>
+                You've been invited as {formatRole(invitation.role)}. Choose a username and password to activate your account.
+              </Alert>
+              {(formError || (submitted && error)) && (
+                <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{formError || error}</Alert>
+              )}
+
+              <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+                <TextField
+                  margin="normal"
+                  fullWidth
+                  label="Email Address"
+                  value={invitation.email}
+                  disabled
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  id="username"
+                  label="Username"
+                  name="username"
+                  autoComplete="username"
+                  autoFocus
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  disabled={loading}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="password"
+                  label="Password"
+                  type="password"
+                  id="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="confirmPassword"
+                  label="Confirm Password"
+                  type="password"
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={loading}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : (
+                    'Create Account'
+                  )}
+                </Button>
+              </Box>
+            </>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
+
+export default AcceptInvite;
@@ -42,6 +42,10 @@ const BusinessUnits: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [openDialog, setOpenDialog] = useState(false);
   const [currentBusinessUnit, setCurrentBusinessUnit] = useState<BusinessUnit | null>(null);
+  // Business unit pending deletion, and the unit its services move to
+  const [deleteTarget, setDeleteTarget] = useState<BusinessUnit | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
   const [formData, setFormData] = useState<BusinessUnitInput>({
     name: '',
     description: '',
@@ -158,7 +162,8 @@ const BusinessUnits: React.FC = () => {
     const { name, value } = e.target;
     setFormData({
       ...formData,
-      [name]: value === '' ? undefined : Number(value)
+      // Send null rather than dropping the field so the owner can be cleared
+      [name]: value === '' ? null : Number(value)
     });
   };
 
@@ -185,30 +190,44 @@ const BusinessUnits: React.FC = () => {
       
       handleCloseDialog();
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving business unit:', err);
-      setError('Failed to save business unit. Please try again.');
+      setError(err.response?.data?.message || 'Failed to save business unit. Please try again.');
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Open the delete confirmation for a business unit
+  const handleDelete = (businessUnit: BusinessUnit) => {
+    setDeleteTarget(businessUnit);
+    setReassignTo('');
+    setDeleteError(null);
+  };
+
+  const handleCloseDelete = () => {
+    setDeleteTarget(null);
+    setDeleteError(null);
+  };
+
   // Handle business unit deletion
-  const handleDelete = async (id: number) => {
-    if (!window.confirm('Are you sure you want to delete this business unit?')) {
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) {
       return;
     }
     
     try {
-      setLoading(true);
-      await businessUnitService.deleteBusinessUnit(id);
-      setBusinessUnits(businessUnits.filter(bu => bu.id !== id));
+      setSubmitting(true);
+      await businessUnitService.deleteBusinessUnit(deleteTarget.id, reassignTo ? Number(reassignTo) : undefined);
+      setBusinessUnits(businessUnits.filter(bu => bu.id !== deleteTarget.id));
+      handleCloseDelete();
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error deleting business unit:', err);
-      setError('Failed to delete business unit. Please try again.');
+      // Business units that still have services can't be deleted without a reassignment
+      setDeleteError(err.response?.data?.message || 'Failed to delete business unit. Please try again.');
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
@@ -271,7 +290,7 @@ const BusinessUnits: React.FC = () => {
                   <IconButton onClick={() => handleOpenDialog(businessUnit.id)} size="small">
                     <EditIcon />
                   </IconButton>
-                  <IconButton onClick={() => handleDelete(businessUnit.id)} size="small" color="error">
+                  <IconButton onClick={() => handleDelete(businessUnit)} size="small" color="error">
                     <DeleteIcon />
                   </IconButton>
                 </TableCell>
@@ -359,6 +378,48 @@ const BusinessUnits: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Delete Business Unit Dialog */}
+      <Dialog open={deleteTarget !== null} onClose={handleCloseDelete} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete Business Unit</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>
+            Delete "{deleteTarget?.name}"? Services in this business unit must be moved to another one first.
+          </Typography>
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="reassign-select-label">Move services to</InputLabel>
+            <Select
+              labelId="reassign-select-label"
+              id="reassign-select"
+              value={reassignTo}
+              label="Move services to"
+              onChange={(e: SelectChangeEvent) => setReassignTo(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>Don't move (only if unused)</em>
+              </MenuItem>
+              {businessUnits
+                .filter(bu => bu.id !== deleteTarget?.id && bu.status === 'active')
+                .map(bu => (
+                  <MenuItem key={bu.id} value={bu.id.toString()}>
+                    {bu.name}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+          {deleteError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {deleteError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDelete}>Cancel</Button>
+          <Button onClick={handleConfirmDelete} color="error" variant="contained" disabled={submitting}>
+            {submitting ? <CircularProgress size={24} color="inherit" /> : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   Box,
   Button,
@@ -28,8 +28,11 @@ import {
   Stack,
   Autocomplete,
   TableSortLabel,
+  TablePagination,
   InputAdornment,
-  Checkbox
+  Checkbox,
+  Tabs,
+  Tab
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
@@ -37,14 +40,24 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import BusinessIcon from '@mui/icons-material/Business';
 import SearchIcon from '@mui/icons-material/Search';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import MergeTypeIcon from '@mui/icons-material/MergeType';
 
 // Import services
-import clientService, { Client, ClientInput } from '../services/clientService';
+import clientService, { Client, ClientDuplicate, ClientInput, ClientListItem } from '../services/clientService';
 import serviceService, { Service } from '../services/serviceService';
+import industryService, { Industry } from '../services/industryService';
 import userService from '../services/userService';
-import { exportToCSV, parseCSVFile, validateCSVData, prepareDataForImport, exportForImport } from '../utils/csvUtils';
+import { exportForImport } from '../utils/csvUtils';
+import { ListParams, toSortParam } from '../utils/listQuery';
 import CSVFormatHelper from '../components/CSVFormatHelper';
+import ImportWizard from '../components/ImportWizard';
+import ExportMenu from '../components/ExportMenu';
+import { toExportParams } from '../services/exportService';
+import ClientContacts from '../components/ClientContacts';
+import ClientEngagements from '../components/ClientEngagements';
+import ClientChurn from '../components/ClientChurn';
+import ClientMergeDialog, { describeMatchReasons } from '../components/ClientMergeDialog';
+import { usePermissions } from '../hooks/usePermissions';
 
 // Define User interface locally since it's not exported from userService
 interface User {
@@ -54,64 +67,60 @@ interface User {
   role: string;
 }
 
-// Define industries
-const industries = [
-  'Technology',
-  'Healthcare',
-  'Finance',
-  'Education',
-  'Retail',
-  'Manufacturing',
-  'Real Estate',
-  'Entertainment',
-  'Automotive',
-  'Food & Beverage',
-  'Travel & Tourism',
-  'Energy',
-  'Telecommunications',
-  'Construction',
-  'Government',
-  'Non-profit',
-  'Other'
-];
-
 // Define status options
 const statusOptions = ['active', 'inactive', 'prospect'];
 
 // Define sort configuration type
-type SortField = 'name' | 'industry' | 'account_owner_id' | 'services_used';
+type SortField = 'name' | 'industry' | 'account_owner_name' | 'services_used';
 interface SortConfig {
   field: SortField;
   direction: 'asc' | 'desc';
 }
 
 const Clients: React.FC = () => {
+  const { can } = usePermissions();
+
   // State variables
-  const [clients, setClients] = useState<Client[]>([]);
+  const [clients, setClients] = useState<ClientListItem[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [industries, setIndustries] = useState<Industry[]>([]);
   const [accountOwners, setAccountOwners] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingServices, setLoadingServices] = useState(true);
   const [loadingAccountOwners, setLoadingAccountOwners] = useState(true);
   const [openDialog, setOpenDialog] = useState(false);
   const [currentClient, setCurrentClient] = useState<Client | null>(null);
+  const [dialogTab, setDialogTab] = useState(0);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showFormatHelper, setShowFormatHelper] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ field: 'name', direction: 'asc' });
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
   
   // Multi-select state
   const [selectedClientIds, setSelectedClientIds] = useState<Set<number>>(new Set());
   const [deleteConfirmationOpen, setDeleteConfirmationOpen] = useState(false);
   
-  // File input ref for CSV import
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Import wizard dialog
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Existing clients the new client looks like, shown before saving it anyway
+  const [duplicateWarning, setDuplicateWarning] = useState<ClientDuplicate[] | null>(null);
+
+  // Merge dialog: duplicates of mergeClient, or mergeClient and mergeOtherClient
+  // directly; neither lists every likely duplicate pair
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeClient, setMergeClient] = useState<{ id: number; name: string } | null>(null);
+  const [mergeOtherClient, setMergeOtherClient] = useState<{ id: number; name: string } | null>(null);
   
   // Form data state
   const [formData, setFormData] = useState({
     name: '',
-    industry: '',
+    industry_id: 0,
     contact_name: '',
     contact_email: '',
     contact_phone: '',
@@ -123,111 +132,6 @@ const Clients: React.FC = () => {
     status: 'active'
   });
 
-  // Handler for CSV import button click
-  const handleImportClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-
-  // Handler for file selection and CSV import
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || event.target.files.length === 0) {
-      return;
-    }
-    
-    const file = event.target.files[0];
-    
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const parsedData = await parseCSVFile(file);
-      
-      // Validate the CSV data - account_owner_id is now optional (will default to admin)
-      const requiredFields = ['name', 'industry', 'contact_name', 'contact_email', 'status'];
-      const validationResult = validateCSVData(parsedData, requiredFields, 'clients');
-      
-      if (!validationResult.valid) {
-        setError(`CSV validation failed:\n${validationResult.errors.join('\n')}`);
-        return;
-      }
-      
-      // Show warnings if any
-      if (validationResult.warnings.length > 0) {
-        console.warn('CSV Import Warnings:', validationResult.warnings);
-      }
-      
-      // Prepare data for import
-      const processedData = prepareDataForImport(parsedData, 'clients');
-      
-      // Create clients from CSV data
-      for (let i = 0; i < processedData.length; i++) {
-        const clientData = processedData[i];
-        try {
-        await clientService.createClient(clientData as ClientInput);
-        } catch (clientErr) {
-          console.error(`Error creating client at row ${i + 2}:`, clientErr);
-          throw new Error(`Failed to create client at row ${i + 2}: ${clientErr instanceof Error ? clientErr.message : String(clientErr)}`);
-        }
-      }
-      
-      // Refresh client list
-      const updatedClients = await clientService.getAllClients();
-      setClients(updatedClients);
-      
-      // Reset file input
-      if (event.target.value) {
-        event.target.value = '';
-      }
-      
-    } catch (err) {
-      console.error('Error importing clients:', err);
-      
-      // Show more detailed error information
-      let errorMessage = 'Failed to import clients. ';
-      if (err instanceof Error) {
-        errorMessage += `Error: ${err.message}`;
-      } else if (typeof err === 'string') {
-        errorMessage += err;
-      } else {
-        errorMessage += 'Please check your CSV file format and try again.';
-      }
-      
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Handler for CSV export
-  const handleExportClick = () => {
-    try {
-      // Prepare data for export
-      const dataToExport = clients.map(client => ({
-        id: client.id,
-        name: client.name,
-        industry: client.industry,
-        contact_name: client.contact_name,
-        contact_email: client.contact_email,
-        contact_phone: client.contact_phone,
-        address: client.address || '',
-        account_owner_id: client.account_owner_id,
-        services_used: client.services_used.join(';'),
-        crm_link: client.crm_link || '',
-        notes: client.notes || '',
-        status: client.status,
-        created_at: client.created_at,
-        updated_at: client.updated_at
-      }));
-      
-      exportToCSV(dataToExport, 'clients_export.csv');
-    } catch (err) {
-      console.error('Error exporting clients:', err);
-      setError('Failed to export clients.');
-    }
-  };
-
   // Handler for export import template
   const handleExportTemplate = () => {
     try {
@@ -252,44 +156,50 @@ const Clients: React.FC = () => {
     }
   };
 
+  // The list params for the current search, sort and page
+  const listParams: ListParams = useMemo(() => ({
+    page: page + 1,
+    pageSize: rowsPerPage,
+    sort: toSortParam(sortConfig.field, sortConfig.direction),
+    q: debouncedSearchTerm
+  }), [page, rowsPerPage, sortConfig, debouncedSearchTerm]);
+
+  // Fetch one page of clients; the API searches, sorts and pages them
+  const fetchClients = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await clientService.getClientsPage(listParams);
+      setClients(result.data);
+      setTotalCount(result.pagination.total);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+      setError('Failed to load clients. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [listParams]);
+
+  useEffect(() => {
+    fetchClients();
+  }, [fetchClients]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   useEffect(() => {
-    // Fetch clients, services, and account owners when component mounts
+    // Fetch services and account owners when component mounts
     const fetchData = async () => {
       try {
-        setLoading(true);
         setLoadingServices(true);
         setLoadingAccountOwners(true);
         
-        // Fetch clients
-        try {
-          const response = await clientService.getAllClients();
-          
-          // Log the response for debugging
-          console.log('Clients API response:', response);
-          
-          // Ensure we have an array of clients
-          let data: Client[] = [];
-          
-          if (Array.isArray(response)) {
-            // If response is already an array, use it directly
-            data = response;
-          } else if (response && typeof response === 'object') {
-            // If response is an object with a data property that's an array
-            const responseObj = response as any;
-            if (responseObj.data && Array.isArray(responseObj.data)) {
-              data = responseObj.data;
-            }
-          }
-          
-          setClients(data);
-          setError(null);
-        } catch (err) {
-          console.error('Error fetching clients:', err);
-          setError('Failed to load clients. Please try again.');
-        } finally {
-          setLoading(false);
-        }
-        
         // Fetch services
         try {
           const response = await serviceService.getAllServices();
@@ -318,6 +228,14 @@ const Clients: React.FC = () => {
           setLoadingServices(false);
         }
         
+        // Fetch industries; inactive ones are kept so clients that still
+        // use them show them, but only active ones are offered
+        try {
+          setIndustries(await industryService.getAllIndustries());
+        } catch (err) {
+          console.error('Error fetching industries:', err);
+        }
+        
         // Fetch account owners (sales users)
         try {
           const salesUsers = await userService.getSalesUsers();
@@ -330,7 +248,6 @@ const Clients: React.FC = () => {
       } catch (err) {
         console.error('Error in fetchData:', err);
         setError('An error occurred while loading data.');
-        setLoading(false);
         setLoadingServices(false);
         setLoadingAccountOwners(false);
       }
@@ -344,7 +261,7 @@ const Clients: React.FC = () => {
       setCurrentClient(client);
       setFormData({
         name: client.name,
-        industry: client.industry,
+        industry_id: client.industry_id,
         contact_name: client.contact_name,
         contact_email: client.contact_email,
         contact_phone: client.contact_phone,
@@ -359,7 +276,7 @@ const Clients: React.FC = () => {
       setCurrentClient(null);
       setFormData({
         name: '',
-        industry: '',
+        industry_id: 0,
         contact_name: '',
         contact_email: '',
         contact_phone: '',
@@ -371,6 +288,8 @@ const Clients: React.FC = () => {
         status: 'active'
       });
     }
+    setDialogTab(0);
+    setDuplicateWarning(null);
     setOpenDialog(true);
   };
 
@@ -378,6 +297,25 @@ const Clients: React.FC = () => {
     setOpenDialog(false);
     setCurrentClient(null);
     setError(null);
+    setDuplicateWarning(null);
+  };
+
+  const openMergeDialog = (client: { id: number; name: string } | null, otherClient: { id: number; name: string } | null = null) => {
+    setMergeClient(client);
+    setMergeOtherClient(otherClient);
+    setMergeOpen(true);
+  };
+
+  const handleMergeSelected = () => {
+    const [first, second] = clients.filter(client => selectedClientIds.has(client.id));
+    if (first && second) {
+      openMergeDialog(first, second);
+    }
+  };
+
+  const handleMerged = async () => {
+    setSelectedClientIds(new Set());
+    await fetchClients();
   };
 
   // Handle text input changes
@@ -387,15 +325,19 @@ const Clients: React.FC = () => {
       ...formData,
       [name]: value
     });
+    // The warning was about the details as they were
+    if (['name', 'contact_email', 'contact_phone'].includes(name)) {
+      setDuplicateWarning(null);
+    }
   };
 
   // Handle select input changes
-  const handleSelectChange = (e: SelectChangeEvent) => {
+  const handleSelectChange = (e: SelectChangeEvent<string | number>) => {
     const { name, value } = e.target;
     
     // Convert numeric fields to numbers
-    const numericFields = ['account_owner_id'];
-    const fieldValue = numericFields.includes(name) ? parseInt(value, 10) : value;
+    const numericFields = ['account_owner_id', 'industry_id'];
+    const fieldValue = numericFields.includes(name) ? parseInt(String(value), 10) : value;
     
     setFormData({
       ...formData,
@@ -411,9 +353,23 @@ const Clients: React.FC = () => {
     });
   };
 
-  const handleSubmit = async () => {
+  // Recording an engagement adds its service to the client; keep the form in
+  // step so saving the details doesn't drop it again
+  const handleEngagementServiceAdded = (serviceId: number) => {
+    setFormData(current => current.services_used.includes(serviceId)
+      ? current
+      : { ...current, services_used: [...current.services_used, serviceId] });
+  };
+
+  // Likewise a churned service is already off the client, and saving the
+  // details must not add it back
+  const handleServiceChurned = (serviceId: number) => {
+    setFormData(current => ({ ...current, services_used: current.services_used.filter(id => id !== serviceId) }));
+  };
+
+  const handleSubmit = async (allowDuplicates: boolean = false) => {
     // Validate form data
-    if (!formData.name || !formData.industry || !formData.account_owner_id) {
+    if (!formData.name || !formData.industry_id || !formData.account_owner_id) {
       setError('Please fill in all required fields');
       return;
     }
@@ -436,27 +392,33 @@ const Clients: React.FC = () => {
           )
         );
         
-        // Then refresh the full list to ensure consistency
-        const updatedClients = await clientService.getAllClients();
-        setClients(updatedClients);
+        // Then refresh the page to ensure consistency
+        await fetchClients();
       } else {
         // Add new client
-        const newClient = await clientService.createClient(formData as ClientInput);
+        const newClient = await clientService.createClient(formData as ClientInput, { allowDuplicates });
         console.log('Client created successfully:', newClient);
         
         // Refresh client list
-        const updatedClients = await clientService.getAllClients();
-        setClients(updatedClients);
+        await fetchClients();
       }
       
       // Close the dialog after state updates are complete
       setTimeout(() => {
         setOpenDialog(false);
         setCurrentClient(null);
+        setDuplicateWarning(null);
       }, 100);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving client:', err);
-      setError('Failed to save client. Please try again.');
+      if (err.response?.status === 409 && err.response.data?.hasDuplicates) {
+        // Likely duplicates; the user can still save the client anyway
+        setDuplicateWarning(err.response.data.duplicates);
+      } else if (err.response?.status === 409) {
+        setError(err.response.data?.message || 'A client with this name already exists.');
+      } else {
+        setError('Failed to save client. Please try again.');
+      }
     } finally {
       setSubmitting(false);
     }
@@ -483,16 +445,16 @@ const Clients: React.FC = () => {
           // Delete with force=true if user confirmed
           const forceResult = await clientService.deleteClient(id, true);
           if (forceResult.success) {
-            // Update local state
-            setClients(clients.filter(c => c.id !== id));
+            // Reload the page so it fills up from the next one
+            await fetchClients();
             setError(null);
           } else {
             setError('Failed to delete client and its opportunities. Please try again.');
           }
         }
       } else if (result.success) {
-        // Update local state if delete was successful
-        setClients(clients.filter(c => c.id !== id));
+        // Reload the page if delete was successful
+        await fetchClients();
         setError(null);
       } else {
         // Handle other error cases
@@ -517,12 +479,6 @@ const Clients: React.FC = () => {
     }
   };
 
-  // Helper function to get account owner name
-  const getAccountOwnerName = (ownerId: number) => {
-    const owner = accountOwners.find(o => o.id === ownerId);
-    return owner ? owner.username : 'Unknown';
-  };
-
   // Helper function to get service names for a client
   const getServiceNames = (serviceIds: number[]) => {
     return services
@@ -530,63 +486,13 @@ const Clients: React.FC = () => {
       .map(service => service.name);
   };
 
-  // Filter and sort clients based on search term and sort configuration
-  const filteredAndSortedClients = useMemo(() => {
-    // First, filter clients based on search term
-    const filtered = clients.filter(client => {
-      if (!searchTerm) return true;
-      
-      const searchLower = searchTerm.toLowerCase();
-      
-      // Search in multiple fields
-      return (
-        client.name.toLowerCase().includes(searchLower) ||
-        client.industry.toLowerCase().includes(searchLower) ||
-        client.contact_name?.toLowerCase().includes(searchLower) ||
-        client.contact_email?.toLowerCase().includes(searchLower) ||
-        getAccountOwnerName(client.account_owner_id).toLowerCase().includes(searchLower) ||
-        getServiceNames(client.services_used).some(service => 
-          service.toLowerCase().includes(searchLower)
-        )
-      );
-    });
-    
-    // Then, sort the filtered clients
-    return [...filtered].sort((a, b) => {
-      const { field, direction } = sortConfig;
-      let comparison = 0;
-      
-      switch (field) {
-        case 'name':
-          comparison = a.name.localeCompare(b.name);
-          break;
-        case 'industry':
-          comparison = a.industry.localeCompare(b.industry);
-          break;
-        case 'account_owner_id':
-          comparison = getAccountOwnerName(a.account_owner_id).localeCompare(
-            getAccountOwnerName(b.account_owner_id)
-          );
-          break;
-        case 'services_used':
-          // Compare by number of services used
-          comparison = a.services_used.length - b.services_used.length;
-          break;
-        default:
-          comparison = 0;
-      }
-      
-      return direction === 'asc' ? comparison : -comparison;
-    });
-  }, [clients, searchTerm, sortConfig, accountOwners, services]);
-  
-  // Multi-select handlers (defined after filteredAndSortedClients to avoid dependency issues)
+  // Multi-select handlers
   const handleSelectAllClick = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     console.log(`Select all checkbox changed. Checked: ${event.target.checked}`);
     
     if (event.target.checked) {
       // Select all clients
-      const newSelectedIds = new Set(filteredAndSortedClients.map((client) => client.id));
+      const newSelectedIds = new Set(clients.map((client) => client.id));
       console.log(`Selecting all clients: ${Array.from(newSelectedIds).join(', ')}`);
       setSelectedClientIds(newSelectedIds);
     } else {
@@ -594,7 +500,7 @@ const Clients: React.FC = () => {
       console.log('Clearing all selections');
       setSelectedClientIds(new Set());
     }
-  }, [filteredAndSortedClients]);
+  }, [clients]);
 
   const handleCheckboxClick = useCallback((event: React.ChangeEvent<HTMLInputElement>, clientId: number) => {
     // Stop event propagation to prevent any parent handlers from firing
@@ -629,11 +535,9 @@ const Clients: React.FC = () => {
       });
       await Promise.all(deletePromises);
       
-      // Remove deleted clients from local state
-      setClients(prevClients => 
-        prevClients.filter(client => !selectedClientIds.has(client.id))
-      );
+      // Reload the page so it fills up from the next one
       setSelectedClientIds(new Set());
+      await fetchClients();
       setError(null); 
     } catch (err) {
       console.error('Failed to delete selected clients:', err);
@@ -662,9 +566,11 @@ const Clients: React.FC = () => {
           ? 'desc' 
           : 'asc'
     }));
+    setPage(0);
   };
 
-  if (loading || loadingServices || loadingAccountOwners) {
+  // Only the first load replaces the page; later fetches keep the search field mounted
+  if ((loading && clients.length === 0 && !debouncedSearchTerm) || loadingServices || loadingAccountOwners) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
         <CircularProgress />
@@ -676,7 +582,7 @@ const Clients: React.FC = () => {
     <Box sx={{ p: 2 }}>
       <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1.5 }}>
         <Stack direction="row" spacing={1}>
-          {selectedClientIds.size > 0 && (
+          {selectedClientIds.size > 0 && can('delete', 'client') && (
             <Button 
               variant="contained" 
               color="error"
@@ -687,24 +593,40 @@ const Clients: React.FC = () => {
               Delete Selected ({selectedClientIds.size})
             </Button>
           )}
+          {selectedClientIds.size === 2 && can('delete', 'client') && (
+            <Button
+              variant="outlined"
+              color="warning"
+              startIcon={<MergeTypeIcon />}
+              onClick={handleMergeSelected}
+              size="small"
+            >
+              Merge Selected
+            </Button>
+          )}
         </Stack>
         <Box sx={{ display: 'flex', gap: 0.5 }}>
+          {can('delete', 'client') && (
+            <Button
+              variant="outlined"
+              startIcon={<MergeTypeIcon />}
+              onClick={() => openMergeDialog(null)}
+              size="small"
+            >
+              Duplicates
+            </Button>
+          )}
+          {can('create', 'client') && (
           <Button 
             variant="outlined" 
             startIcon={<FileUploadIcon />}
-            onClick={handleImportClick}
+            onClick={() => setImportOpen(true)}
             size="small"
           >
-            Import CSV
-          </Button>
-          <Button 
-            variant="outlined" 
-            startIcon={<FileDownloadIcon />}
-            onClick={handleExportClick}
-            size="small"
-          >
-            Export CSV
+            Import
           </Button>
+          )}
+          <ExportMenu entity="clients" params={toExportParams(listParams)} onError={setError} />
           <Button 
             variant="outlined" 
             onClick={handleExportTemplate}
@@ -719,6 +641,7 @@ const Clients: React.FC = () => {
           >
             CSV Format Help
           </Button>
+        {can('create', 'client') && (
         <Button 
           variant="contained" 
           startIcon={<AddIcon />}
@@ -727,6 +650,7 @@ const Clients: React.FC = () => {
         >
           Add Client
         </Button>
+        )}
         </Box>
       </Stack>
 
@@ -735,7 +659,7 @@ const Clients: React.FC = () => {
         <TextField
           fullWidth
           variant="outlined"
-          placeholder="Search clients by name, industry, contact, account owner, or services..."
+          placeholder="Search clients by name, industry or contact..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           InputProps={{
@@ -754,7 +678,7 @@ const Clients: React.FC = () => {
         </Alert>
       )}
 
-      {clients.length === 0 ? (
+      {clients.length === 0 && !debouncedSearchTerm ? (
         <Paper sx={{ p: 4, textAlign: 'center' }}>
           <Typography variant="h6" color="text.secondary" gutterBottom>
             No clients found
@@ -770,8 +694,8 @@ const Clients: React.FC = () => {
               <TableRow>
                 <TableCell padding="checkbox">
                   <Checkbox
-                    indeterminate={selectedClientIds.size > 0 && selectedClientIds.size < filteredAndSortedClients.length}
-                    checked={filteredAndSortedClients.length > 0 && selectedClientIds.size === filteredAndSortedClients.length}
+                    indeterminate={selectedClientIds.size > 0 && selectedClientIds.size < clients.length}
+                    checked={clients.length > 0 && selectedClientIds.size === clients.length}
                     onChange={handleSelectAllClick}
                     aria-label="select all clients"
                   />
@@ -796,9 +720,9 @@ const Clients: React.FC = () => {
                 </TableCell>
                 <TableCell>
                   <TableSortLabel
-                    active={sortConfig.field === 'account_owner_id'}
-                    direction={sortConfig.field === 'account_owner_id' ? sortConfig.direction : 'asc'}
-                    onClick={() => handleSort('account_owner_id')}
+                    active={sortConfig.field === 'account_owner_name'}
+                    direction={sortConfig.field === 'account_owner_name' ? sortConfig.direction : 'asc'}
+                    onClick={() => handleSort('account_owner_name')}
                   >
                     Account Owner
                   </TableSortLabel>
@@ -817,7 +741,14 @@ const Clients: React.FC = () => {
               </TableRow>
             </TableHead>
             <TableBody>
-              {filteredAndSortedClients.map((client) => {
+              {clients.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    No clients match your search criteria.
+                  </TableCell>
+                </TableRow>
+              )}
+              {clients.map((client) => {
                 const isSelected = selectedClientIds.has(client.id);
                 return (
                 <TableRow key={client.id}>
@@ -841,7 +772,7 @@ const Clients: React.FC = () => {
                     </Stack>
                   </TableCell>
                   <TableCell>{client.industry}</TableCell>
-                  <TableCell>{getAccountOwnerName(client.account_owner_id)}</TableCell>
+                  <TableCell>{client.account_owner_name || 'Unknown'}</TableCell>
                   <TableCell>
                     {client.services_used.length > 0 
                       ? getServiceNames(client.services_used).join(', ')
@@ -855,18 +786,42 @@ const Clients: React.FC = () => {
                     />
                   </TableCell>
                   <TableCell align="right">
-                    <IconButton onClick={() => handleOpenDialog(client)} size="small">
-                      <EditIcon />
-                    </IconButton>
-                    <IconButton onClick={() => handleDelete(client.id)} size="small" color="error">
-                      <DeleteIcon />
-                    </IconButton>
+                    {can('update', 'client', client) && (
+                      <IconButton onClick={() => handleOpenDialog(client)} size="small">
+                        <EditIcon />
+                      </IconButton>
+                    )}
+                    {can('delete', 'client', client) && (
+                      <IconButton onClick={() => openMergeDialog(client)} size="small" title="Merge duplicates">
+                        <MergeTypeIcon />
+                      </IconButton>
+                    )}
+                    {can('delete', 'client', client) && (
+                      <IconButton onClick={() => handleDelete(client.id)} size="small" color="error">
+                        <DeleteIcon />
+                      </IconButton>
+                    )}
                   </TableCell>
                 </TableRow>
                 );
               })}
             </TableBody>
           </Table>
+          <TablePagination
+            component="div"
+            count={totalCount}
+            page={page}
+            rowsPerPage={rowsPerPage}
+            rowsPerPageOptions={[10, 25, 50, 100]}
+            onPageChange={(_e, newPage) => {
+              setPage(newPage);
+              setSelectedClientIds(new Set());
+            }}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+          />
         </TableContainer>
       )}
 
@@ -896,7 +851,41 @@ const Clients: React.FC = () => {
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="md" fullWidth>
         <DialogTitle>{currentClient ? 'Edit Client' : 'Add New Client'}</DialogTitle>
         <DialogContent>
-          <Box component="form" sx={{ mt: 1 }}>
+          {currentClient && (
+            <Tabs value={dialogTab} onChange={(_event, value) => setDialogTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+              <Tab label="Details" />
+              <Tab label="Contacts" />
+              <Tab label="Revenue" />
+              <Tab label="Churn" />
+            </Tabs>
+          )}
+          {currentClient && dialogTab === 1 && (
+            <ClientContacts clientId={currentClient.id} />
+          )}
+          {currentClient && dialogTab === 2 && (
+            <ClientEngagements
+              clientId={currentClient.id}
+              services={services}
+              onServiceAdded={handleEngagementServiceAdded}
+            />
+          )}
+          {currentClient && dialogTab === 3 && (
+            <ClientChurn clientId={currentClient.id} onServiceRemoved={handleServiceChurned} />
+          )}
+          {duplicateWarning && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              This client looks like {duplicateWarning.length === 1 ? 'an existing client' : 'existing clients'}:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {duplicateWarning.map(duplicate => (
+                  <li key={duplicate.id}>
+                    {duplicate.name} ({describeMatchReasons(duplicate.reasons).toLowerCase()})
+                  </li>
+                ))}
+              </Box>
+              Add it anyway only if it is a different company.
+            </Alert>
+          )}
+          <Box component="form" sx={{ mt: 1, display: dialogTab === 0 ? 'block' : 'none' }}>
             <TextField
               margin="normal"
               required
@@ -909,14 +898,16 @@ const Clients: React.FC = () => {
             <FormControl fullWidth margin="normal" required>
               <InputLabel>Industry</InputLabel>
               <Select
-                name="industry"
-                value={formData.industry}
+                name="industry_id"
+                value={formData.industry_id || ''}
                 label="Industry"
                 onChange={handleSelectChange}
               >
-                {industries.map((industry) => (
-                  <MenuItem key={industry} value={industry}>{industry}</MenuItem>
-                ))}
+                {industries
+                  .filter(industry => industry.status === 'active' || industry.id === formData.industry_id)
+                  .map((industry) => (
+                    <MenuItem key={industry.id} value={industry.id}>{industry.name}</MenuItem>
+                  ))}
               </Select>
             </FormControl>
             <TextField
@@ -1022,28 +1013,43 @@ const Clients: React.FC = () => {
           </Box>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseDialog}>Cancel</Button>
-          <Button 
-            onClick={handleSubmit} 
-            variant="contained"
-            disabled={submitting}
-          >
-            {submitting ? (
-              <CircularProgress size={24} color="inherit" />
-            ) : (
-              currentClient ? 'Update' : 'Add'
-            )}
-          </Button>
+          <Button onClick={handleCloseDialog}>{dialogTab === 0 ? 'Cancel' : 'Close'}</Button>
+          {dialogTab === 0 && duplicateWarning && (
+            <Button onClick={() => handleSubmit(true)} color="warning" disabled={submitting}>
+              Add Anyway
+            </Button>
+          )}
+          {dialogTab === 0 && (
+            <Button 
+              onClick={() => handleSubmit()} 
+              variant="contained"
+              disabled={submitting}
+            >
+              {submitting ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                currentClient ? 'Update' : 'Add'
+              )}
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
 
-      {/* Hidden file input for CSV import */}
-      <input
-        type="file"
-        ref={fileInputRef}
-        style={{ display: 'none' }}
-        accept=".csv"
-        onChange={handleFileChange}
+      {/* Duplicate client merge dialog */}
+      <ClientMergeDialog
+        open={mergeOpen}
+        client={mergeClient}
+        otherClient={mergeOtherClient}
+        onClose={() => setMergeOpen(false)}
+        onMerged={handleMerged}
+      />
+
+      {/* Import wizard */}
+      <ImportWizard
+        open={importOpen}
+        entity="clients"
+        onClose={() => setImportOpen(false)}
+        onImported={fetchClients}
       />
 
       {/* CSV Format Helper Dialog */}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { 
+  Container, 
+  Box, 
+  Typography, 
+  TextField, 
+  Button, 
+  Paper, 
+  Avatar,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import LockResetIcon from '@mui/icons-material/LockReset';
+import { Link as RouterLink } from 'react-router-dom';
+import authService from '../services/authService';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const message = await authService.forgotPassword(email);
+      setSentMessage(message);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to request a password reset. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+        }}
+      >
+        <Paper 
+          elevation={3} 
+          sx={{ 
+            padding: 4, 
+            display: 'flex', 
+            flexDirection: 'column', 
+            alignItems: 'center',
+            width: '100%'
+          }}
+        >
+          <Avatar sx={{ m: 1, bgcolor: 'primary.main' }}>
+            <LockResetIcon />
+          </Avatar>
+          <Typography component="h1" variant="h5">
+            Wondrlab Cross-Selling Management System
+          </Typography>
+          <Typography component="h2" variant="h6" sx={{ mt: 1 }}>
+            Forgot Password
+          </Typography>
+
+          {sentMessage ? (
+            <Alert severity="success" sx={{ mt: 2, width: '100%' }}>{sentMessage}</Alert>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" align="center" sx={{ mt: 2 }}>
+                Enter the email address for your account and we'll send you a link to reset your password.
+              </Typography>
+              {error && <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{error}</Alert>}
+
+              <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  id="email"
+                  label="Email Address"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  autoFocus
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : (
+                    'Send Reset Link'
+                  )}
+                </Button>
+              </Box>
+            </>
+          )}
+
+          <Button component={RouterLink} to="/login" sx={{ mt: 1 }}>
+            Back to Sign In
+          </Button>
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
+
+export default ForgotPassword;
@@ -40,6 +40,10 @@ const Industries: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [openDialog, setOpenDialog] = useState(false);
   const [currentIndustry, setCurrentIndustry] = useState<Industry | null>(null);
+  // Industry pending deletion, and the industry its clients and services move to
+  const [deleteTarget, setDeleteTarget] = useState<Industry | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
   const [formData, setFormData] = useState<IndustryInput>({
     name: '',
     description: '',
@@ -158,30 +162,44 @@ const Industries: React.FC = () => {
       
       handleCloseDialog();
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving industry:', err);
-      setError('Failed to save industry. Please try again.');
+      setError(err.response?.data?.message || 'Failed to save industry. Please try again.');
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Open the delete confirmation for an industry
+  const handleDelete = (industry: Industry) => {
+    setDeleteTarget(industry);
+    setReassignTo('');
+    setDeleteError(null);
+  };
+
+  const handleCloseDelete = () => {
+    setDeleteTarget(null);
+    setDeleteError(null);
+  };
+
   // Handle industry deletion
-  const handleDelete = async (id: number) => {
-    if (!window.confirm('Are you sure you want to delete this industry?')) {
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) {
       return;
     }
     
     try {
-      setLoading(true);
-      await industryService.deleteIndustry(id);
-      setIndustries(industries.filter(ind => ind.id !== id));
+      setSubmitting(true);
+      await industryService.deleteIndustry(deleteTarget.id, reassignTo ? Number(reassignTo) : undefined);
+      setIndustries(industries.filter(ind => ind.id !== deleteTarget.id));
+      handleCloseDelete();
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error deleting industry:', err);
-      setError('Failed to delete industry. Please try again.');
+      // Industries still used by clients or services can't be deleted without a reassignment
+      setDeleteError(err.response?.data?.message || 'Failed to delete industry. Please try again.');
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
@@ -240,7 +258,7 @@ const Industries: React.FC = () => {
                   <IconButton onClick={() => handleOpenDialog(industry.id)} size="small">
                     <EditIcon />
                   </IconButton>
-                  <IconButton onClick={() => handleDelete(industry.id)} size="small" color="error">
+                  <IconButton onClick={() => handleDelete(industry)} size="small" color="error">
                     <DeleteIcon />
                   </IconButton>
                 </TableCell>
@@ -322,6 +340,48 @@ const Industries: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Delete Industry Dialog */}
+      <Dialog open={deleteTarget !== null} onClose={handleCloseDelete} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete Industry</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>
+            Delete "{deleteTarget?.name}"? Clients and services in this industry must be moved to another one first.
+          </Typography>
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="reassign-select-label">Move clients and services to</InputLabel>
+            <Select
+              labelId="reassign-select-label"
+              id="reassign-select"
+              value={reassignTo}
+              label="Move clients and services to"
+              onChange={(e: SelectChangeEvent) => setReassignTo(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>Don't move (only if unused)</em>
+              </MenuItem>
+              {industries
+                .filter(ind => ind.id !== deleteTarget?.id && ind.status === 'active')
+                .map(ind => (
+                  <MenuItem key={ind.id} value={ind.id.toString()}>
+                    {ind.name}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+          {deleteError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {deleteError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDelete}>Cancel</Button>
+          <Button onClick={handleConfirmDelete} color="error" variant="contained" disabled={submitting}>
+            {submitting ? <CircularProgress size={24} color="inherit" /> : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
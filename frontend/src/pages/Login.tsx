@@ -12,8 +12,9 @@ import {
   Divider
 } from '@mui/material';
 import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
-import { Navigate } from 'react-router-dom';
+import { Navigate, Link as RouterLink } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep';
 import api from '../services/api';
 
 const Login: React.FC = () => {
@@ -22,7 +23,7 @@ const Login: React.FC = () => {
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   
   // Use authentication context
-  const { login, error, loading, isAuthenticated, clearError } = useAuth();
+  const { login, error, loading, isAuthenticated, clearError, twoFactorChallenge } = useAuth();
 
   // Clear any previous errors when component mounts
   useEffect(() => {
@@ -103,68 +104,80 @@ const Login: React.FC = () => {
             Wondrlab Cross-Selling Management System
           </Typography>
           <Typography component="h2" variant="h6" sx={{ mt: 1 }}>
-            Sign In
+            {twoFactorChallenge ? 'Two-Factor Authentication' : 'Sign In'}
           </Typography>
           
-          {error && <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{error}</Alert>}
-          {statusMessage && <Alert severity="info" sx={{ mt: 2, width: '100%' }}>{statusMessage}</Alert>}
+          {twoFactorChallenge ? (
+            <TwoFactorLoginStep />
+          ) : (
+            <>
+              {error && <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{error}</Alert>}
+              {statusMessage && <Alert severity="info" sx={{ mt: 2, width: '100%' }}>{statusMessage}</Alert>}
           
-          <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              id="email"
-              label="Email Address"
-              name="email"
-              autoComplete="email"
-              autoFocus
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              disabled={loading}
-            />
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              name="password"
-              label="Password"
-              type="password"
-              id="password"
-              autoComplete="current-password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              disabled={loading}
-            />
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              sx={{ mt: 3, mb: 2 }}
-              disabled={loading}
-            >
-              {loading ? (
-                <CircularProgress size={24} color="inherit" />
-              ) : (
-                'Sign In'
-              )}
-            </Button>
+              <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  id="email"
+                  label="Email Address"
+                  name="email"
+                  autoComplete="email"
+                  autoFocus
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="password"
+                  label="Password"
+                  type="password"
+                  id="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : (
+                    'Sign In'
+                  )}
+                </Button>
+
+                <Box sx={{ textAlign: 'right' }}>
+                  <Button component={RouterLink} to="/forgot-password" size="small">
+                    Forgot password?
+                  </Button>
+                </Box>
             
-            <Divider sx={{ my: 2 }} />
+                <Divider sx={{ my: 2 }} />
             
-            <Typography variant="body2" color="text.secondary" align="center" sx={{ mt: 1, mb: 2 }}>
-              For testing purposes, you can use the admin credentials from the seeded database.
-            </Typography>
+                <Typography variant="body2" color="text.secondary" align="center" sx={{ mt: 1, mb: 2 }}>
+                  For testing purposes, you can use the admin credentials from the seeded database.
+                </Typography>
             
-            <Button
-              fullWidth
-              variant="outlined"
-              onClick={fillAdminCredentials}
-              disabled={loading}
-            >
-              Fill Admin Credentials
-            </Button>
-          </Box>
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  onClick={fillAdminCredentials}
+                  disabled={loading}
+                >
+                  Fill Admin Credentials
+                </Button>
+              </Box>
+            </>
+          )}
         </Paper>
       </Box>
     </Container>
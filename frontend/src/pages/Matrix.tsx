@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Box, 
   Typography, 
@@ -29,25 +29,46 @@ import {
   MenuItem,
   SelectChangeEvent,
   InputAdornment,
-  Autocomplete
+  Autocomplete,
+  FormControlLabel,
+  Switch,
+  Skeleton
 } from '@mui/material';
 
 // Icons
 import AddIcon from '@mui/icons-material/Add';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import PendingIcon from '@mui/icons-material/Pending';
+import HighlightOffIcon from '@mui/icons-material/HighlightOff';
 import BusinessIcon from '@mui/icons-material/Business';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import SearchIcon from '@mui/icons-material/Search';
 import FilterListIcon from '@mui/icons-material/FilterList';
+import LightbulbIcon from '@mui/icons-material/Lightbulb';
 import { useNavigate, useLocation } from 'react-router-dom';
 
 // Services
-import opportunityService, { MatrixData, Opportunity, OpportunityInput } from '../services/opportunityService';
+import opportunityService, {
+  MatrixCell,
+  MatrixData,
+  MatrixFilters,
+  MatrixWindowRange,
+  OpportunityInput,
+  Recommendation,
+  toMatrixParams
+} from '../services/opportunityService';
 import userService from '../services/userService';
+import { churnReasonLabels } from '../services/clientService';
+import businessUnitService, { BusinessUnit } from '../services/businessUnitService';
+import industryService, { Industry } from '../services/industryService';
 import { User } from '../services/authService';
+import SuggestedContact from '../components/SuggestedContact';
+import ExportMenu from '../components/ExportMenu';
+import VirtualMatrixGrid, { VisibleRange } from '../components/VirtualMatrixGrid';
+import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
 
 // Status options
 const statusOptions = [
@@ -61,6 +82,51 @@ const statusOptions = [
   { value: 'on_hold', label: 'On Hold' }
 ];
 
+// Number of suggestions shown in the Top suggestions list
+const TOP_SUGGESTION_COUNT = 20;
+
+// Rows and columns loaded around the visible part of the matrix
+const ROW_PADDING = 50;
+const COLUMN_PADDING = 20;
+
+// Server limits on one matrix window
+const MAX_WINDOW_ROWS = 500;
+const MAX_WINDOW_COLUMNS = 200;
+
+// How a cell shows up in the legend: an open or past opportunity, a service
+// the client already has, a service it stopped using (to win back), or an
+// empty cell to pitch
+const getCellType = (cell?: MatrixCell): 'existing' | 'active' | 'churned' | 'potential' => {
+  if (!cell) return 'potential';
+  if (cell.open_stage) return 'existing';
+  if (cell.active_service) return 'active';
+  if (cell.status === 'churned') return 'churned';
+  return cell.opportunities.length > 0 ? 'existing' : 'potential';
+};
+
+// Churn dates are plain YYYY-MM-DD, so show them without a time zone shift
+const formatChurn = (churn: NonNullable<MatrixCell['churn']>) =>
+  `Churned ${new Date(`${churn.churned_on}T00:00:00`).toLocaleDateString()}: ${churnReasonLabels[churn.reason] || churn.reason}`;
+
+// The client × service pair a dialog was opened for
+interface CellTarget {
+  clientId: number;
+  clientName: string;
+  serviceId: number;
+  serviceName: string;
+  businessUnitId: number;
+  businessUnit: string;
+}
+
+// The window that was last loaded and the filters it was loaded with
+interface LoadedWindow {
+  range: MatrixWindowRange;
+  filters: MatrixFilters;
+}
+
+// Heat overlay colour for a recommendation score (0-100)
+const getHeatColor = (score: number) => `rgba(25, 118, 210, ${(0.06 + 0.54 * score / 100).toFixed(2)})`;
+
 // Priority options
 const priorityOptions = [
   { value: 'low', label: 'Low' },
@@ -72,25 +138,41 @@ const priorityOptions = [
 const Matrix: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useAuth();
+  const { can } = usePermissions();
   const [matrixData, setMatrixData] = useState<MatrixData | null>(null);
-  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [loadedWindow, setLoadedWindow] = useState<LoadedWindow | null>(null);
+  const [visibleRange, setVisibleRange] = useState<VisibleRange>({ rowStart: 0, rowEnd: 0, columnStart: 0, columnEnd: 0 });
+  const matrixRequestRef = useRef(0);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [openDetailsDialog, setOpenDetailsDialog] = useState(false);
-  const [selectedOpportunity, setSelectedOpportunity] = useState<Opportunity | null>(null);
-  const [selectedCell, setSelectedCell] = useState<{ clientId: number; serviceId: number } | null>(null);
+  const [selectedCell, setSelectedCell] = useState<CellTarget | null>(null);
   const [openCreateDialog, setOpenCreateDialog] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   
-  // Search and filter state
+  // Search and filter state; the server applies the filters
   const [clientSearchTerm, setClientSearchTerm] = useState<string>('');
   const [serviceSearchTerm, setServiceSearchTerm] = useState<string>('');
-  const [selectedBusinessUnits, setSelectedBusinessUnits] = useState<string[]>([]);
+  const [debouncedClientSearch, setDebouncedClientSearch] = useState<string>('');
+  const [debouncedServiceSearch, setDebouncedServiceSearch] = useState<string>('');
+  const [selectedBusinessUnits, setSelectedBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [selectedIndustries, setSelectedIndustries] = useState<Industry[]>([]);
+  const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
+  const [assignedUserFilter, setAssignedUserFilter] = useState<number>(0);
+  const [accountOwnerFilter, setAccountOwnerFilter] = useState<number>(0);
+  const [businessUnits, setBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [industries, setIndustries] = useState<Industry[]>([]);
   const [showFilters, setShowFilters] = useState<boolean>(false);
   
   // Legend filter state for interactive filtering
-  const [legendFilter, setLegendFilter] = useState<string | null>(null); // 'existing', 'potential', or null for all
+  const [legendFilter, setLegendFilter] = useState<'existing' | 'potential' | 'churned' | null>(null); // null shows all
+  
+  // Cross-sell recommendation state
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState<boolean>(true);
+  const [showSuggestions, setShowSuggestions] = useState<boolean>(true);
   
   // Form data for creating new opportunities
   const [formData, setFormData] = useState<OpportunityInput>({
@@ -106,50 +188,154 @@ const Matrix: React.FC = () => {
   });
 
   useEffect(() => {
-    // Fetch matrix data from API
-    const fetchMatrixData = async () => {
+    // Fetch the users and filter options once
+    const fetchLookups = async () => {
       try {
-        setLoading(true);
-        // Get matrix data from the API
-        const data = await opportunityService.getMatrixData();
-        setMatrixData(data);
-        
-        // Get all opportunities for additional details
-        const allOpportunities = await opportunityService.getAllOpportunities();
-        setOpportunities(allOpportunities);
-        
-        // Get all users for the assigned user dropdown
-        const allUsers = await userService.getAllUsers();
+        const [allUsers, allBusinessUnits, allIndustries] = await Promise.all([
+          userService.getAllUsers(),
+          businessUnitService.getAllBusinessUnits(),
+          industryService.getActiveIndustries()
+        ]);
         setUsers(allUsers);
-        
-        setError(null);
+        setBusinessUnits(allBusinessUnits);
+        setIndustries(allIndustries);
       } catch (err) {
-        console.error('Error fetching matrix data:', err);
-        setError('Failed to load matrix data. Please try again.');
-      } finally {
-        setLoading(false);
+        console.error('Error fetching matrix filter options:', err);
       }
     };
 
-    fetchMatrixData();
-  }, [location]); // Add location to dependency array to refetch data when navigating back to the page
+    fetchLookups();
+  }, []);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedClientSearch(clientSearchTerm.trim());
+      setDebouncedServiceSearch(serviceSearchTerm.trim());
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [clientSearchTerm, serviceSearchTerm]);
+
+  const matrixFilters: MatrixFilters = useMemo(() => ({
+    businessUnitIds: selectedBusinessUnits.map(unit => unit.id),
+    industryIds: selectedIndustries.map(industry => industry.id),
+    statuses: selectedStatuses,
+    assignedUserId: assignedUserFilter || undefined,
+    accountOwnerId: accountOwnerFilter || undefined,
+    clientSearch: debouncedClientSearch,
+    serviceSearch: debouncedServiceSearch,
+    cellType: legendFilter || undefined
+  }), [
+    selectedBusinessUnits,
+    selectedIndustries,
+    selectedStatuses,
+    assignedUserFilter,
+    accountOwnerFilter,
+    debouncedClientSearch,
+    debouncedServiceSearch,
+    legendFilter
+  ]);
+
+  // Load the rows and columns around the visible part of the matrix
+  const fetchMatrixWindow = useCallback(async (range: VisibleRange) => {
+    const requestId = ++matrixRequestRef.current;
+    const rowOffset = Math.max(0, range.rowStart - ROW_PADDING);
+    const columnOffset = Math.max(0, range.columnStart - COLUMN_PADDING);
+    const windowRange: MatrixWindowRange = {
+      rowOffset,
+      rowLimit: Math.min(MAX_WINDOW_ROWS, range.rowEnd + ROW_PADDING - rowOffset),
+      columnOffset,
+      columnLimit: Math.min(MAX_WINDOW_COLUMNS, range.columnEnd + COLUMN_PADDING - columnOffset)
+    };
+
+    try {
+      const data = await opportunityService.getMatrixData(matrixFilters, windowRange);
+      // A newer request has been made while this one was in flight
+      if (requestId !== matrixRequestRef.current) return;
+      setMatrixData(data);
+      setLoadedWindow({ range: windowRange, filters: matrixFilters });
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching matrix data:', err);
+      setError('Failed to load matrix data. Please try again.');
+    } finally {
+      if (requestId === matrixRequestRef.current) setLoading(false);
+    }
+  }, [matrixFilters]);
+
+  // Fetch a new window once the visible area leaves the loaded one or the filters change
+  useEffect(() => {
+    const covered = loadedWindow !== null &&
+      loadedWindow.filters === matrixFilters &&
+      visibleRange.rowStart >= loadedWindow.range.rowOffset &&
+      visibleRange.rowEnd <= loadedWindow.range.rowOffset + loadedWindow.range.rowLimit &&
+      visibleRange.columnStart >= loadedWindow.range.columnOffset &&
+      visibleRange.columnEnd <= loadedWindow.range.columnOffset + loadedWindow.range.columnLimit;
+    if (covered) return;
+
+    const timer = setTimeout(() => fetchMatrixWindow(visibleRange), 150);
+    return () => clearTimeout(timer);
+  }, [visibleRange, loadedWindow, matrixFilters, fetchMatrixWindow]);
 
-  const handleCellClick = (clientId: number, serviceId: number) => {
-    // Check if there's an opportunity for this client-service combination
+  // Refetch when navigating back to the page
+  useEffect(() => {
+    setLoadedWindow(null);
+  }, [location]);
+
+  // Recommendations load separately so a scoring failure never hides the matrix
+  const fetchRecommendations = useCallback(async () => {
+    try {
+      const data = await opportunityService.getRecommendations();
+      setRecommendations(data);
+    } catch (err) {
+      console.error('Error fetching recommendations:', err);
+      setRecommendations([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecommendations();
+  }, [fetchRecommendations, location]);
+
+  // Look up a cell's recommendation by client and service
+  const recommendationMap = useMemo(() => {
+    const map = new Map<string, Recommendation>();
+    recommendations.forEach(r => map.set(`${r.client_id}:${r.service_id}`, r));
+    return map;
+  }, [recommendations]);
+
+  const topSuggestions = useMemo(() => recommendations.slice(0, TOP_SUGGESTION_COUNT), [recommendations]);
+
+  // Opportunities created here are assigned to their creator
+  const canCreateIn = (businessUnitId: number) =>
+    can('create', 'opportunity', { business_unit_id: businessUnitId, assigned_user_id: user?.id });
+
+  const handleCellClick = (target: CellTarget) => {
+    const { clientId, serviceId } = target;
+    setSelectedCell(target);
+    
+    // Cells with opportunities list them all
     const cell = matrixData?.matrix[clientId]?.[serviceId];
     
-    if (cell && cell.status === 'opportunity' && cell.opportunity_id) {
-      // Find the opportunity details
-      const opportunity = opportunities.find(o => o.id === cell.opportunity_id);
-      if (opportunity) {
-        setSelectedOpportunity(opportunity);
-        setOpenDetailsDialog(true);
-        return;
-      }
+    if (cell && cell.opportunities.length > 0) {
+      setOpenDetailsDialog(true);
+      return;
     }
     
-    // If there's no opportunity, open the create dialog
-    setSelectedCell({ clientId, serviceId });
+    // Cells for services the client already uses can't take a new opportunity
+    if (cell && cell.active_service) {
+      return;
+    }
+    
+    if (canCreateIn(target.businessUnitId)) {
+      openCreateDialogFor(target);
+    }
+  };
+
+  // Open the create dialog for a client × service pair
+  const openCreateDialogFor = (target: CellTarget) => {
+    const { clientId, serviceId } = target;
+    setSelectedCell(target);
     
     // Initialize form data with the selected client and service
     setFormData({
@@ -169,7 +355,7 @@ const Matrix: React.FC = () => {
 
   const handleCloseDetailsDialog = () => {
     setOpenDetailsDialog(false);
-    setSelectedOpportunity(null);
+    setSelectedCell(null);
   };
 
   const handleCloseCreateDialog = () => {
@@ -211,25 +397,14 @@ const Matrix: React.FC = () => {
       const newOpportunity = await opportunityService.createOpportunity(formData);
       console.log('Opportunity created successfully:', newOpportunity);
       
-      // Add the new opportunity to the local state
-      setOpportunities([...opportunities, newOpportunity]);
+      // Reload the window so the cell summarises its new opportunity
+      setLoadedWindow(null);
       
-      // Update the matrix data to reflect the new opportunity
-      if (matrixData && selectedCell) {
-        const updatedMatrix = { ...matrixData };
-        
-        // Ensure the matrix object has the client_id key
-        if (!updatedMatrix.matrix[selectedCell.clientId]) {
-          updatedMatrix.matrix[selectedCell.clientId] = {};
-        }
-        
-        // Update the cell to show it now has an opportunity
-        updatedMatrix.matrix[selectedCell.clientId][selectedCell.serviceId] = {
-          status: 'opportunity',
-          opportunity_id: newOpportunity.id
-        };
-        
-        setMatrixData(updatedMatrix);
+      if (selectedCell) {        
+        // The cell is no longer a suggestion
+        setRecommendations(recommendations.filter(r => 
+          !(r.client_id === selectedCell.clientId && r.service_id === selectedCell.serviceId)
+        ));
       }
       
       // Close the dialog
@@ -246,15 +421,7 @@ const Matrix: React.FC = () => {
     const cell = matrixData?.matrix[clientId]?.[serviceId];
     
     // Determine cell type for legend filtering
-    let cellType = 'potential'; // default
-    
-    if (cell?.status === 'active') {
-      cellType = 'active';
-    } else if (cell && (cell.status === 'opportunity' || 
-        (cell.status !== null && cell.status !== undefined && 
-         ['new', 'in_progress', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'on_hold'].includes(cell.status)))) {
-      cellType = 'existing';
-    }
+    const cellType = getCellType(cell);
     
     // Apply legend filter opacity
     let opacity = 1;
@@ -263,22 +430,26 @@ const Matrix: React.FC = () => {
         opacity = 0.3;
       } else if (legendFilter === 'potential' && cellType !== 'potential') {
         opacity = 0.3;
+      } else if (legendFilter === 'churned' && cellType !== 'churned') {
+        opacity = 0.3;
       }
     }
     
-    if (!cell) {
+    const recommendation = recommendationMap.get(`${clientId}:${serviceId}`);
+    if (showHeatmap && cellType === 'potential' && recommendation) {
       return {
-        backgroundColor: '#f5f5f5',
+        backgroundColor: getHeatColor(recommendation.score),
         cursor: 'pointer',
         opacity: opacity,
         '&:hover': {
-          backgroundColor: '#e0e0e0',
+          outline: '2px solid #1976d2',
+          outlineOffset: '-2px',
           opacity: 1,
         }
       };
     }
     
-    if (cell.status === 'active') {
+    if (cellType === 'active') {
       return {
         backgroundColor: '#e8f5e9', // Light green
         cursor: 'default',
@@ -289,9 +460,19 @@ const Matrix: React.FC = () => {
       };
     }
     
-    // Check if it's an opportunity - either explicitly marked as 'opportunity' or has any valid opportunity status
-    if (cell.status === 'opportunity' || 
-        (cell.status !== null && cell.status !== undefined && ['new', 'in_progress', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'on_hold'].includes(cell.status))) {
+    if (cellType === 'churned') {
+      return {
+        backgroundColor: '#ffebee', // Light red
+        cursor: 'pointer',
+        opacity: opacity,
+        '&:hover': {
+          backgroundColor: '#ffcdd2',
+          opacity: 1,
+        }
+      };
+    }
+    
+    if (cellType === 'existing') {
       return {
         backgroundColor: '#fff8e1', // Light amber
         cursor: 'pointer',
@@ -314,37 +495,81 @@ const Matrix: React.FC = () => {
     };
   };
 
-  const getCellContent = (clientId: number, serviceId: number) => {
+  const getCellContent = (clientId: number, serviceId: number, businessUnitId: number) => {
     const cell = matrixData?.matrix[clientId]?.[serviceId];
+    const recommendation = recommendationMap.get(`${clientId}:${serviceId}`);
     
-    if (!cell) {
-      return (
-        <Tooltip title="Create opportunity">
-          <AddIcon color="disabled" fontSize="small" />
-        </Tooltip>
-      );
-    }
-    
-    if (cell.status === 'active') {
+    if (showHeatmap && recommendation && !cell) {
       return (
-        <Tooltip title="Active service">
-          <CheckCircleIcon color="success" fontSize="small" />
+        <Tooltip
+          title={
+            <>
+              <Typography variant="body2">Cross-sell score: {recommendation.score}/100</Typography>
+              {recommendation.reasons.map(reason => (
+                <Typography key={reason} variant="caption" display="block">{reason}</Typography>
+              ))}
+            </>
+          }
+        >
+          <Typography variant="caption" sx={{ fontWeight: recommendation.score >= 60 ? 'bold' : 'normal' }}>
+            {recommendation.score}
+          </Typography>
         </Tooltip>
       );
     }
     
-    // Check if it's an opportunity - either explicitly marked as 'opportunity' or has any valid opportunity status
-    if (cell.status === 'opportunity' || 
-        (cell.status !== null && cell.status !== undefined && ['new', 'in_progress', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'on_hold'].includes(cell.status))) {
-      const opportunity = opportunities.find(o => o.id === cell.opportunity_id);
+    if (!cell) {
+      if (!canCreateIn(businessUnitId)) return null;
       return (
-        <Tooltip title={`Opportunity: ${opportunity?.name || 'Unknown'} (${cell.status})`}>
-          <PendingIcon color="warning" fontSize="small" />
+        <Tooltip title="Create opportunity">
+          <AddIcon color="disabled" fontSize="small" />
         </Tooltip>
       );
     }
     
-    return null;
+    // Summarise every opportunity the cell has
+    return (
+      <Tooltip
+        title={
+          <>
+            {cell.active_service && (
+              <Typography variant="body2">Active service</Typography>
+            )}
+            {cell.status === 'churned' && cell.churn && (
+              <Typography variant="body2">{formatChurn(cell.churn)}</Typography>
+            )}
+            {cell.revenue && (
+              <Typography variant="caption" display="block">
+                Lifetime revenue: {formatCurrency(cell.revenue.lifetime_revenue)}
+                {cell.revenue.annual_recurring_revenue > 0 &&
+                  ` · ${formatCurrency(cell.revenue.annual_recurring_revenue)}/yr recurring`}
+              </Typography>
+            )}
+            {cell.opportunities.map(opportunity => (
+              <Typography key={opportunity.id} variant="caption" display="block">
+                {opportunity.name} ({getStatusLabel(opportunity.status)})
+              </Typography>
+            ))}
+          </>
+        }
+      >
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          {cell.active_service && <CheckCircleIcon color="success" fontSize="small" />}
+          {cell.status === 'churned' && <HighlightOffIcon color="error" fontSize="small" />}
+          {cell.revenue && (
+            <Typography variant="caption" sx={{ fontWeight: 'bold' }}>
+              {formatCompactCurrency(cell.revenue.annual_recurring_revenue || cell.revenue.lifetime_revenue)}
+            </Typography>
+          )}
+          {cell.open_stage && <PendingIcon color="warning" fontSize="small" />}
+          {cell.lost_count > 0 && (
+            <Typography variant="caption" color="error.main">
+              {cell.lost_count} lost
+            </Typography>
+          )}
+        </Stack>
+      </Tooltip>
+    );
   };
 
   const formatCurrency = (value: number) => {
@@ -356,6 +581,20 @@ const Matrix: React.FC = () => {
     }).format(value);
   };
 
+  // Short form for the matrix cells, e.g. "$12K"
+  const formatCompactCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1
+    }).format(value);
+  };
+
+  const getStatusLabel = (status: string) => {
+    return statusOptions.find(s => s.value === status)?.label || status;
+  };
+
   const getStatusChip = (status: string) => {
     let color;
     let label = status;
@@ -394,85 +633,9 @@ const Matrix: React.FC = () => {
     return <Chip label={label} color={color as any} size="small" />;
   };
 
-  // Get unique business units for filter
-  const businessUnits = useMemo(() => {
-    if (!matrixData?.services) return [];
-    
-    const uniqueBusinessUnits = Array.from(
-      new Set(matrixData.services.map(service => service.business_unit))
-    );
-    
-    return uniqueBusinessUnits;
-  }, [matrixData?.services]);
-  
-  // Filter clients based on search term only (no legend filter here to avoid circular dependency)
-  const filteredClients = useMemo(() => {
-    if (!matrixData?.clients) return [];
-    
-    return matrixData.clients.filter(client => 
-      client.name.toLowerCase().includes(clientSearchTerm.toLowerCase())
-    );
-  }, [matrixData?.clients, clientSearchTerm]);
-  
-  // Filter services based on search term and selected business units only (no legend filter here to avoid circular dependency)
-  const filteredServices = useMemo(() => {
-    if (!matrixData?.services) return [];
-    
-    return matrixData.services.filter(service => {
-      const matchesSearchTerm = service.name.toLowerCase().includes(serviceSearchTerm.toLowerCase());
-      const matchesBusinessUnit = selectedBusinessUnits.length === 0 || 
-                                 selectedBusinessUnits.includes(service.business_unit);
-      
-      return matchesSearchTerm && matchesBusinessUnit;
-    });
-  }, [matrixData?.services, serviceSearchTerm, selectedBusinessUnits]);
-    
-  // Apply legend filtering to the display by filtering which clients and services are shown
-  const displayClients = useMemo(() => {
-    if (!legendFilter) return filteredClients;
-    
-    return filteredClients.filter(client => {
-        // Check if this client has any cells that match the legend filter
-        return filteredServices.some(service => {
-          const cell = matrixData?.matrix[client.id]?.[service.id];
-          
-          if (legendFilter === 'existing') {
-            // Show clients with existing opportunities (amber cells)
-            return cell && (cell.status === 'opportunity' || 
-                          (cell.status !== null && cell.status !== undefined && 
-                           ['new', 'in_progress', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'on_hold'].includes(cell.status)));
-          } else if (legendFilter === 'potential') {
-            // Show clients with potential opportunities (gray cells - no existing relationship)
-            return !cell || (cell.status === null || cell.status === undefined);
-          }
-          
-          return false;
-        });
-      });
-  }, [filteredClients, filteredServices, legendFilter, matrixData?.matrix]);
-  
-  const displayServices = useMemo(() => {
-    if (!legendFilter) return filteredServices;
-      
-    return filteredServices.filter(service => {
-        // Check if this service has any cells that match the legend filter
-      return displayClients.some(client => {
-          const cell = matrixData?.matrix[client.id]?.[service.id];
-          
-          if (legendFilter === 'existing') {
-            // Show services with existing opportunities (amber cells)
-            return cell && (cell.status === 'opportunity' || 
-                          (cell.status !== null && cell.status !== undefined && 
-                           ['new', 'in_progress', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'on_hold'].includes(cell.status)));
-          } else if (legendFilter === 'potential') {
-            // Show services with potential opportunities (gray cells - no existing relationship)
-            return !cell || (cell.status === null || cell.status === undefined);
-          }
-          
-          return false;
-        });
-      });
-  }, [filteredServices, displayClients, legendFilter, matrixData?.matrix]);
+  // Clients and services of the loaded window, looked up by their position in the whole matrix
+  const getClientAt = (rowIndex: number) => matrixData?.clients[rowIndex - matrixData.row_offset];
+  const getServiceAt = (columnIndex: number) => matrixData?.services[columnIndex - matrixData.column_offset];
   
   if (loading && !matrixData) {
     return (
@@ -487,6 +650,17 @@ const Matrix: React.FC = () => {
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">Cross-Sell Opportunity Matrix</Typography>
         <Box sx={{ display: 'flex', gap: 2 }}>
+          <FormControlLabel
+            control={<Switch checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />}
+            label="Heat Overlay"
+          />
+          <Button 
+            variant="outlined" 
+            startIcon={<LightbulbIcon />}
+            onClick={() => setShowSuggestions(!showSuggestions)}
+          >
+            {showSuggestions ? 'Hide Suggestions' : 'Show Suggestions'}
+          </Button>
           <Button 
             variant="outlined" 
             startIcon={<FilterListIcon />}
@@ -498,30 +672,13 @@ const Matrix: React.FC = () => {
             variant="outlined" 
             startIcon={<RefreshIcon />}
             onClick={() => {
-              setLoading(true);
-              const fetchMatrixData = async () => {
-                try {
-                  // Get matrix data from the API
-                  const data = await opportunityService.getMatrixData();
-                  setMatrixData(data);
-                  
-                  // Get all opportunities for additional details
-                  const allOpportunities = await opportunityService.getAllOpportunities();
-                  setOpportunities(allOpportunities);
-                  
-                  setError(null);
-                } catch (err) {
-                  console.error('Error refreshing matrix data:', err);
-                  setError('Failed to refresh matrix data. Please try again.');
-                } finally {
-                  setLoading(false);
-                }
-              };
-              fetchMatrixData();
+              setLoadedWindow(null);
+              fetchRecommendations();
             }}
           >
             Refresh
           </Button>
+          <ExportMenu entity="matrix" params={toMatrixParams(matrixFilters)} onError={setError} size="medium" />
         </Box>
       </Box>
       
@@ -574,6 +731,8 @@ const Matrix: React.FC = () => {
               multiple
               size="small"
               options={businessUnits}
+              getOptionLabel={(option) => option.name}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
               value={selectedBusinessUnits}
               onChange={(_, newValue) => setSelectedBusinessUnits(newValue)}
               renderInput={(params) => (
@@ -594,7 +753,7 @@ const Matrix: React.FC = () => {
               renderTags={(value, getTagProps) =>
                 value.map((option, index) => (
                   <Chip
-                    label={option}
+                    label={option.name}
                     {...getTagProps({ index })}
                     color="primary"
                     variant="outlined"
@@ -609,6 +768,91 @@ const Matrix: React.FC = () => {
                 }
               }}
             />
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+              <Autocomplete
+                multiple
+                fullWidth
+                size="small"
+                options={industries}
+                getOptionLabel={(option) => option.name}
+                isOptionEqualToValue={(option, value) => option.id === value.id}
+                value={selectedIndustries}
+                onChange={(_, newValue) => setSelectedIndustries(newValue)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    variant="outlined"
+                    label="Filter by Industry"
+                    placeholder="Select Industries"
+                    InputProps={{
+                      ...params.InputProps,
+                      sx: { fontSize: '0.875rem' }
+                    }}
+                    InputLabelProps={{
+                      sx: { fontSize: '0.875rem' }
+                    }}
+                  />
+                )}
+              />
+              <Autocomplete
+                multiple
+                fullWidth
+                size="small"
+                options={statusOptions.map(option => option.value)}
+                getOptionLabel={(value) => statusOptions.find(option => option.value === value)?.label || value}
+                value={selectedStatuses}
+                onChange={(_, newValue) => setSelectedStatuses(newValue)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    variant="outlined"
+                    label="Filter by Opportunity Status"
+                    placeholder="Select Statuses"
+                    InputProps={{
+                      ...params.InputProps,
+                      sx: { fontSize: '0.875rem' }
+                    }}
+                    InputLabelProps={{
+                      sx: { fontSize: '0.875rem' }
+                    }}
+                  />
+                )}
+              />
+            </Stack>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+              <FormControl fullWidth size="small">
+                <InputLabel sx={{ fontSize: '0.875rem' }}>Assigned User</InputLabel>
+                <Select
+                  value={assignedUserFilter.toString()}
+                  label="Assigned User"
+                  onChange={(e) => setAssignedUserFilter(parseInt(e.target.value, 10))}
+                  sx={{ fontSize: '0.875rem' }}
+                >
+                  <MenuItem value="0">Anyone</MenuItem>
+                  {users.map((user) => (
+                    <MenuItem key={user.id} value={user.id.toString()}>
+                      {user.username}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth size="small">
+                <InputLabel sx={{ fontSize: '0.875rem' }}>Account Owner</InputLabel>
+                <Select
+                  value={accountOwnerFilter.toString()}
+                  label="Account Owner"
+                  onChange={(e) => setAccountOwnerFilter(parseInt(e.target.value, 10))}
+                  sx={{ fontSize: '0.875rem' }}
+                >
+                  <MenuItem value="0">Anyone</MenuItem>
+                  {users.map((user) => (
+                    <MenuItem key={user.id} value={user.id.toString()}>
+                      {user.username}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
           </Stack>
         </Paper>
       )}
@@ -682,7 +926,35 @@ const Matrix: React.FC = () => {
               Potential Opportunities
             </Typography>
           </Box>
+          <Box 
+            sx={{ 
+              display: 'flex', 
+              alignItems: 'center',
+              cursor: 'pointer',
+              padding: '4px 8px',
+              borderRadius: '4px',
+              border: legendFilter === 'churned' ? '2px solid #1976d2' : '1px solid transparent',
+              backgroundColor: legendFilter === 'churned' ? '#e3f2fd' : 'transparent',
+              '&:hover': {
+                backgroundColor: '#f5f5f5'
+              }
+            }}
+            onClick={() => setLegendFilter(legendFilter === 'churned' ? null : 'churned')}
+          >
+            <Box sx={{ width: 20, height: 20, backgroundColor: '#ffebee', mr: 1 }} />
+            <Typography variant="body2" sx={{ fontWeight: legendFilter === 'churned' ? 'bold' : 'normal' }}>
+              Churned (Win-back)
+            </Typography>
+          </Box>
         </Stack>
+        {showHeatmap && (
+          <Box sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
+            <Typography variant="body2" sx={{ mr: 1 }}>Cross-sell score</Typography>
+            <Typography variant="caption" sx={{ mr: 1 }}>0</Typography>
+            <Box sx={{ width: 160, height: 12, background: `linear-gradient(to right, ${getHeatColor(0)}, ${getHeatColor(100)})` }} />
+            <Typography variant="caption" sx={{ ml: 1 }}>100</Typography>
+          </Box>
+        )}
         {legendFilter && (
           <Typography variant="caption" sx={{ mt: 1, display: 'block', color: 'text.secondary' }}>
             Click on a legend item again to show all opportunities, or click "Active Service" to reset filter.
@@ -690,139 +962,268 @@ const Matrix: React.FC = () => {
         )}
       </Paper>
 
-      <Paper>
-        <TableContainer sx={{ maxHeight: 'calc(100vh - 250px)' }}>
-          <Table stickyHeader>
-            <TableHead>
-              <TableRow>
-                <TableCell>Client</TableCell>
-                {displayServices.map(service => (
-                  <TableCell key={service.id} align="center">
-                    <Tooltip title={service.business_unit}>
-                      <Typography variant="body2" noWrap>
-                        {service.name}
-                      </Typography>
-                    </Tooltip>
-                  </TableCell>
-                ))}
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {displayClients.map(client => (
-                <TableRow key={client.id}>
-                  <TableCell>
-                    <Typography variant="body2" noWrap>
-                      {client.name}
-                    </Typography>
-                  </TableCell>
-                  {displayServices.map(service => (
-                    <TableCell 
-                      key={service.id} 
-                      align="center"
-                      onClick={() => handleCellClick(client.id, service.id)}
-                      sx={getCellStyle(client.id, service.id)}
-                    >
-                      {getCellContent(client.id, service.id)}
-                    </TableCell>
+      {showSuggestions && (
+        <Paper sx={{ mb: 3, p: 2 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>Top {TOP_SUGGESTION_COUNT} Suggestions</Typography>
+          {topSuggestions.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No suggestions yet. Every client already uses or is being pitched every active service.
+            </Typography>
+          ) : (
+            <TableContainer sx={{ maxHeight: 360 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>Client</TableCell>
+                    <TableCell>Service</TableCell>
+                    <TableCell>Business Unit</TableCell>
+                    <TableCell align="center">Score</TableCell>
+                    <TableCell>Why</TableCell>
+                    <TableCell align="right"></TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {topSuggestions.map((suggestion, index) => (
+                    <TableRow key={`${suggestion.client_id}:${suggestion.service_id}`} hover>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{suggestion.client_name}</TableCell>
+                      <TableCell>{suggestion.service_name}</TableCell>
+                      <TableCell>{suggestion.business_unit}</TableCell>
+                      <TableCell align="center">
+                        <Chip
+                          label={suggestion.score}
+                          size="small"
+                          sx={{ backgroundColor: getHeatColor(suggestion.score), fontWeight: 'bold' }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption">
+                          {suggestion.reasons.length > 0 ? suggestion.reasons.join(' · ') : '-'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        {canCreateIn(suggestion.business_unit_id) && (
+                          <Button
+                            size="small"
+                            startIcon={<AddIcon />}
+                            onClick={() => handleCellClick({
+                              clientId: suggestion.client_id,
+                              clientName: suggestion.client_name,
+                              serviceId: suggestion.service_id,
+                              serviceName: suggestion.service_name,
+                              businessUnitId: suggestion.business_unit_id,
+                              businessUnit: suggestion.business_unit
+                            })}
+                          >
+                            Create
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
                   ))}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      )}
+
+      <Paper>
+        <VirtualMatrixGrid
+          rowCount={matrixData?.total_clients || 0}
+          columnCount={matrixData?.total_services || 0}
+          height="calc(100vh - 250px)"
+          resetKey={JSON.stringify(matrixFilters)}
+          onVisibleRangeChange={setVisibleRange}
+          corner={
+            <Typography variant="body2" fontWeight="bold">
+              Client ({matrixData?.total_clients || 0} × {matrixData?.total_services || 0})
+            </Typography>
+          }
+          renderColumnHeader={(columnIndex) => {
+            const service = getServiceAt(columnIndex);
+            if (!service) return <Skeleton variant="text" width="80%" />;
+            return (
+              <Tooltip title={`${service.name} (${service.business_unit})`}>
+                <Typography variant="body2" noWrap>
+                  {service.name}
+                </Typography>
+              </Tooltip>
+            );
+          }}
+          renderRowHeader={(rowIndex) => {
+            const client = getClientAt(rowIndex);
+            if (!client) return <Skeleton variant="text" width="70%" />;
+            return (
+              <Typography variant="body2" noWrap title={client.name}>
+                {client.name}
+              </Typography>
+            );
+          }}
+          renderCell={(rowIndex, columnIndex) => {
+            const client = getClientAt(rowIndex);
+            const service = getServiceAt(columnIndex);
+            if (!client || !service) return null;
+            return (
+              <Box
+                onClick={() => handleCellClick({
+                  clientId: client.id,
+                  clientName: client.name,
+                  serviceId: service.id,
+                  serviceName: service.name,
+                  businessUnitId: service.business_unit_id,
+                  businessUnit: service.business_unit
+                })}
+                sx={{
+                  width: '100%',
+                  height: '100%',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  ...getCellStyle(client.id, service.id)
+                }}
+              >
+                {getCellContent(client.id, service.id, service.business_unit_id)}
+              </Box>
+            );
+          }}
+        />
+        {matrixData && matrixData.total_clients === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            No clients match the current filters.
+          </Typography>
+        )}
       </Paper>
 
-      {/* Opportunity Details Dialog */}
-      <Dialog open={openDetailsDialog} onClose={handleCloseDetailsDialog} maxWidth="md">
+      {/* Cell Details Dialog listing every opportunity for the client and service */}
+      <Dialog open={openDetailsDialog} onClose={handleCloseDetailsDialog} maxWidth="md" fullWidth>
         <DialogTitle>
           <Stack direction="row" alignItems="center" spacing={1}>
             <TrendingUpIcon color="primary" />
             <Typography variant="h6">
-              Opportunity Details
+              Opportunities
             </Typography>
           </Stack>
         </DialogTitle>
         <DialogContent>
-          {selectedOpportunity && (
-            <Box sx={{ mt: 2 }}>
-              <Typography variant="h6">{selectedOpportunity.name}</Typography>
-              
-              <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, mt: 1 }}>
-                <Box sx={{ flex: 1 }}>
-                  <Stack spacing={2}>
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Client</Typography>
-                      <Typography variant="body1">
-                        {matrixData?.clients.find(c => c.id === selectedOpportunity.client_id)?.name}
-                      </Typography>
-                    </Box>
-                    
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Service</Typography>
-                      <Typography variant="body1">
-                        {(() => {
-                          const service = matrixData?.services.find(s => s.id === selectedOpportunity.service_id);
-                          return service ? `${service.name} (${service.business_unit})` : 'Unknown';
-                        })()}
-                      </Typography>
-                    </Box>
-                    
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Assigned To</Typography>
-                      <Typography variant="body1">
-                        {users.find(u => u.id === selectedOpportunity.assigned_user_id)?.username || `ID: ${selectedOpportunity.assigned_user_id}`}
-                      </Typography>
-                    </Box>
-                  </Stack>
+          {selectedCell && (() => {
+            const cell = matrixData?.matrix[selectedCell.clientId]?.[selectedCell.serviceId];
+            return (
+              <Box sx={{ mt: 2 }}>
+                <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+                  <Box sx={{ flex: 1 }}>
+                    <Typography variant="subtitle2" color="text.secondary">Client</Typography>
+                    <Typography variant="body1">{selectedCell.clientName}</Typography>
+                  </Box>
+                  <Box sx={{ flex: 1 }}>
+                    <Typography variant="subtitle2" color="text.secondary">Service</Typography>
+                    <Typography variant="body1">
+                      {selectedCell.serviceName} ({selectedCell.businessUnit})
+                    </Typography>
+                  </Box>
                 </Box>
-                
-                <Box sx={{ flex: 1 }}>
-                  <Stack spacing={2}>
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Status</Typography>
-                      {getStatusChip(selectedOpportunity.status)}
-                    </Box>
-                    
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Estimated Value</Typography>
-                      <Typography variant="body1">{formatCurrency(selectedOpportunity.estimated_value)}</Typography>
-                    </Box>
-                    
-                    <Box>
-                      <Typography variant="subtitle2" color="text.secondary">Due Date</Typography>
-                      <Typography variant="body1">
-                        {new Date(selectedOpportunity.due_date).toLocaleDateString()}
-                      </Typography>
-                    </Box>
+
+                {cell && (
+                  <Stack direction="row" spacing={1} sx={{ mt: 2 }} flexWrap="wrap" useFlexGap>
+                    {cell.active_service && <Chip label="Active service" color="success" size="small" />}
+                    {cell.status === 'churned' && cell.churn && (
+                      <Chip label={formatChurn(cell.churn)} color="error" size="small" />
+                    )}
+                    {cell.open_stage && (
+                      <Chip label={`Open: ${getStatusLabel(cell.open_stage)}`} color="warning" size="small" />
+                    )}
+                    {cell.won_count > 0 && <Chip label={`${cell.won_count} won`} size="small" variant="outlined" />}
+                    {cell.revenue && (
+                      <Chip
+                        label={`Lifetime revenue: ${formatCurrency(cell.revenue.lifetime_revenue)}`}
+                        color="success"
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
+                    {cell.revenue && cell.revenue.annual_recurring_revenue > 0 && (
+                      <Chip
+                        label={`Recurring: ${formatCurrency(cell.revenue.annual_recurring_revenue)}/yr`}
+                        color="success"
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
+                    {cell.lost_count > 0 && (
+                      <Chip label={`${cell.lost_count} lost`} color="error" size="small" variant="outlined" />
+                    )}
                   </Stack>
-                </Box>
-              </Box>
-                
-              <Box sx={{ width: '100%', mt: 2 }}>
-                  <Divider sx={{ my: 1 }} />
-                  <Typography variant="subtitle2" color="text.secondary">Notes</Typography>
-                  <Typography variant="body2">{selectedOpportunity.notes}</Typography>
+                )}
+
+                <Divider sx={{ my: 2 }} />
+
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Name</TableCell>
+                        <TableCell>Status</TableCell>
+                        <TableCell align="right">Estimated Value</TableCell>
+                        <TableCell>Due Date</TableCell>
+                        <TableCell>Assigned To</TableCell>
+                        <TableCell align="right"></TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {(cell?.opportunities || []).map(opportunity => (
+                        <TableRow key={opportunity.id} hover>
+                          <TableCell>{opportunity.name}</TableCell>
+                          <TableCell>{getStatusChip(opportunity.status)}</TableCell>
+                          <TableCell align="right">{formatCurrency(Number(opportunity.estimated_value))}</TableCell>
+                          <TableCell>{new Date(opportunity.due_date).toLocaleDateString()}</TableCell>
+                          <TableCell>{opportunity.assigned_user_name || `ID: ${opportunity.assigned_user_id}`}</TableCell>
+                          <TableCell align="right">
+                            {can('update', 'opportunity', {
+                              assigned_user_id: opportunity.assigned_user_id,
+                              business_unit_id: selectedCell.businessUnitId
+                            }) && (
+                              <Button
+                                size="small"
+                                onClick={() => {
+                                  navigate(`/opportunities`, { 
+                                    state: { 
+                                      editId: opportunity.id 
+                                    } 
+                                  });
+                                  handleCloseDetailsDialog();
+                                }}
+                              >
+                                Edit
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+
+                <SuggestedContact clientId={selectedCell.clientId} serviceId={selectedCell.serviceId} />
               </Box>
-            </Box>
-          )}
+            );
+          })()}
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDetailsDialog}>Close</Button>
-          <Button 
-            variant="contained" 
-            onClick={() => {
-              if (selectedOpportunity) {
-                navigate(`/opportunities`, { 
-                  state: { 
-                    editId: selectedOpportunity.id 
-                  } 
-                });
-              }
-              handleCloseDetailsDialog();
-            }}
-          >
-            Edit Opportunity
-          </Button>
+          {selectedCell && canCreateIn(selectedCell.businessUnitId) && (
+            <Button 
+              variant="contained" 
+              startIcon={<AddIcon />}
+              onClick={() => {
+                const target = selectedCell;
+                setOpenDetailsDialog(false);
+                openCreateDialogFor(target);
+              }}
+            >
+              New Opportunity
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
 
@@ -848,37 +1249,24 @@ const Matrix: React.FC = () => {
                 onChange={handleInputChange}
               />
               
-              <FormControl fullWidth margin="normal" required>
-                <InputLabel>Client</InputLabel>
-                <Select
-                  name="client_id"
-                  value={formData.client_id ? formData.client_id.toString() : '0'}
-                  label="Client"
-                  disabled // Disabled because it's pre-selected from the matrix
-                >
-                  {matrixData?.clients.map((client) => (
-                    <MenuItem key={client.id} value={client.id.toString()}>
-                      {client.name}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
+              {/* Client and service are pre-selected from the matrix */}
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                disabled
+                label="Client"
+                value={selectedCell.clientName}
+              />
               
-              <FormControl fullWidth margin="normal" required>
-                <InputLabel>Service</InputLabel>
-                <Select
-                  name="service_id"
-                  value={formData.service_id ? formData.service_id.toString() : '0'}
-                  label="Service"
-                  disabled // Disabled because it's pre-selected from the matrix
-                >
-                  {matrixData?.services.map((service) => (
-                    <MenuItem key={service.id} value={service.id.toString()}>
-                      {service.name} ({service.business_unit})
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                disabled
+                label="Service"
+                value={`${selectedCell.serviceName} (${selectedCell.businessUnit})`}
+              />
               
               <FormControl fullWidth margin="normal" required>
                 <InputLabel>Assigned User</InputLabel>
@@ -975,6 +1363,7 @@ const Matrix: React.FC = () => {
                 value={formData.notes}
                 onChange={handleInputChange}
               />
+              <SuggestedContact clientId={formData.client_id} serviceId={formData.service_id} />
             </Box>
           )}
         </DialogContent>
@@ -155,6 +155,7 @@ const Notifications: React.FC = () => {
       case 'new_opportunity':
       case 'opportunity_status_change':
       case 'opportunity_won':
+      case 'renewal_due':
         return <TrendingUpIcon color="primary" />;
       case 'task_assigned':
       case 'task_overdue':
@@ -197,6 +198,14 @@ const Notifications: React.FC = () => {
         label = 'New Client';
         color = 'warning';
         break;
+      case 'renewal_due':
+        label = 'Renewal Due';
+        color = 'warning';
+        break;
+      case 'workflow_rule':
+        label = 'Workflow Rule';
+        color = 'info';
+        break;
       default:
         label = type.replace(/_/g, ' ');
     }
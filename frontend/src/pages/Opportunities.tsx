@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Box, 
   Typography, 
@@ -26,27 +26,39 @@ import {
   Alert,
   SelectChangeEvent,
   Checkbox,
-  DialogContentText
+  DialogContentText,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Menu
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
 import SearchIcon from '@mui/icons-material/Search';
 import SortIcon from '@mui/icons-material/Sort';
 import InputAdornment from '@mui/material/InputAdornment';
 import TableSortLabel from '@mui/material/TableSortLabel';
+import TablePagination from '@mui/material/TablePagination';
 
 // Import services
-import opportunityService, { Opportunity, OpportunityInput } from '../services/opportunityService';
+import opportunityService, { Opportunity, OpportunityInput, OpportunityStatusHistory } from '../services/opportunityService';
 import clientService, { Client } from '../services/clientService';
 import serviceService, { Service } from '../services/serviceService';
+import opportunityStageService, { OpportunityStageRule, stageFieldLabels, getMissingStageFields } from '../services/opportunityStageService';
 import userService from '../services/userService';
 import { User } from '../services/authService';
-import { exportToCSV, parseCSVFile, validateCSVData, prepareDataForImport, exportForImport } from '../utils/csvUtils';
+import { exportForImport } from '../utils/csvUtils';
+import { ListParams, toSortParam } from '../utils/listQuery';
 import CSVFormatHelper from '../components/CSVFormatHelper';
+import ImportWizard from '../components/ImportWizard';
+import ExportMenu from '../components/ExportMenu';
+import { toExportParams } from '../services/exportService';
+import SuggestedContact from '../components/SuggestedContact';
+import { usePermissions } from '../hooks/usePermissions';
 
 // Status options
 const statusOptions = [
@@ -72,6 +84,7 @@ const priorityOptions = [
 interface OpportunityWithDetails extends Opportunity {
   client_name?: string;
   service_name?: string;
+  service_business_unit_id?: number;
   service_business_unit?: string;
   assigned_user_name?: string;
 }
@@ -89,8 +102,10 @@ interface SortConfig {
 }
 
 const Opportunities: React.FC = () => {
-  // File input reference for CSV import
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { can } = usePermissions();
+
+  // Import wizard dialog
+  const [importOpen, setImportOpen] = useState(false);
   
   // State for opportunities
   const [opportunities, setOpportunities] = useState<OpportunityWithDetails[]>([]);
@@ -102,12 +117,17 @@ const Opportunities: React.FC = () => {
   const [services, setServices] = useState<Service[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   
-  // Search and sort state
+  // Search, filter, sort and paging state; the server does the work
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>({
     field: 'name',
     direction: 'asc'
   });
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
   
   // Multi-select state
   const [selectedOpportunityIds, setSelectedOpportunityIds] = useState<Set<number>>(new Set());
@@ -129,73 +149,52 @@ const Opportunities: React.FC = () => {
   });
   const [error, setError] = useState<string | null>(null);
   const [showFormatHelper, setShowFormatHelper] = useState(false);
+  
+  // Status history state for the edit dialog
+  const [statusHistory, setStatusHistory] = useState<OpportunityStatusHistory[]>([]);
+  const [statusReason, setStatusReason] = useState('');
+  
+  // Stage rules (allowed transitions and required fields) keyed by status
+  const [stageRules, setStageRules] = useState<Record<string, OpportunityStageRule>>({});
+  
+  // Status chip menu and the dialog collecting fields the target stage requires
+  const [statusMenu, setStatusMenu] = useState<{ anchorEl: HTMLElement; opportunity: OpportunityWithDetails } | null>(null);
+  const [pendingStatusChange, setPendingStatusChange] = useState<{ opportunity: OpportunityWithDetails; status: string } | null>(null);
+  const [stageFieldValues, setStageFieldValues] = useState<Partial<OpportunityInput>>({});
 
   useEffect(() => {
-    fetchOpportunities();
     fetchClients();
     fetchServices();
     fetchUsers();
+    fetchStageRules();
   }, []);
 
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   // Handle sorting
   const handleSort = (field: SortField) => {
     setSortConfig(prevConfig => ({
       field,
       direction: prevConfig.field === field && prevConfig.direction === 'asc' ? 'desc' : 'asc'
     }));
+    setPage(0);
   };
 
-  // Filter and sort opportunities
-  const filteredAndSortedOpportunities = React.useMemo(() => {
-    // First filter by search term
-    const filtered = opportunities.filter(opportunity => {
-      const searchLower = searchTerm.toLowerCase();
-      return (
-        opportunity.name.toLowerCase().includes(searchLower) ||
-        (opportunity.client_name || '').toLowerCase().includes(searchLower) ||
-        (opportunity.service_name || '').toLowerCase().includes(searchLower) ||
-        (opportunity.service_business_unit || '').toLowerCase().includes(searchLower) ||
-        (opportunity.assigned_user_name || '').toLowerCase().includes(searchLower) ||
-        opportunity.status.toLowerCase().includes(searchLower) ||
-        opportunity.priority.toLowerCase().includes(searchLower) ||
-        (opportunity.notes || '').toLowerCase().includes(searchLower)
-      );
-    });
 
-    // Then sort
-    return [...filtered].sort((a, b) => {
-      const direction = sortConfig.direction === 'asc' ? 1 : -1;
-      
-      switch (sortConfig.field) {
-        case 'name':
-          return direction * a.name.localeCompare(b.name);
-        case 'client_name':
-          return direction * ((a.client_name || '').localeCompare(b.client_name || ''));
-        case 'service_name':
-          return direction * ((a.service_name || '').localeCompare(b.service_name || ''));
-        case 'status':
-          return direction * a.status.localeCompare(b.status);
-        case 'priority':
-          return direction * a.priority.localeCompare(b.priority);
-        case 'estimated_value':
-          return direction * (a.estimated_value - b.estimated_value);
-        case 'due_date':
-          return direction * (new Date(a.due_date).getTime() - new Date(b.due_date).getTime());
-        case 'assigned_user_name':
-          return direction * ((a.assigned_user_name || '').localeCompare(b.assigned_user_name || ''));
-        default:
-          return 0;
-      }
-    });
-  }, [opportunities, searchTerm, sortConfig]);
-
-  // Multi-select handlers (defined after filteredAndSortedOpportunities to avoid dependency issues)
+  // Multi-select handlers
   const handleSelectAllClick = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     console.log(`Select all checkbox changed. Checked: ${event.target.checked}`);
     
     if (event.target.checked) {
       // Select all opportunities
-      const newSelectedIds = new Set(filteredAndSortedOpportunities.map((opportunity) => opportunity.id));
+      const newSelectedIds = new Set(opportunities.map((opportunity) => opportunity.id));
       console.log(`Selecting all opportunities: ${Array.from(newSelectedIds).join(', ')}`);
       setSelectedOpportunityIds(newSelectedIds);
     } else {
@@ -203,7 +202,7 @@ const Opportunities: React.FC = () => {
       console.log('Clearing all selections');
       setSelectedOpportunityIds(new Set());
     }
-  }, [filteredAndSortedOpportunities]);
+  }, [opportunities]);
 
   const handleCheckboxClick = useCallback((event: React.ChangeEvent<HTMLInputElement>, opportunityId: number) => {
     // Stop event propagation to prevent any parent handlers from firing
@@ -238,11 +237,9 @@ const Opportunities: React.FC = () => {
       });
       await Promise.all(deletePromises);
       
-      // Remove deleted opportunities from local state
-      setOpportunities(prevOpportunities => 
-        prevOpportunities.filter(opp => !selectedOpportunityIds.has(opp.id))
-      );
+      // Reload the page so it fills up from the next one
       setSelectedOpportunityIds(new Set());
+      await fetchOpportunities();
       setError(null); 
     } catch (err) {
       console.error('Failed to delete selected opportunities:', err);
@@ -262,69 +259,39 @@ const Opportunities: React.FC = () => {
     setDeleteConfirmationOpen(false);
   };
 
-  // Fetch opportunities from API
-  const fetchOpportunities = async () => {
-      try {
-        setLoading(true);
-      const response = await opportunityService.getAllOpportunities();
-      
-      // Log the response for debugging
-      console.log('Opportunities API response:', response);
-      
-      // Ensure we have an array of opportunities
-      let data: Opportunity[] = [];
+  // The list params for the current search, filter, sort and page
+  const listParams: ListParams = React.useMemo(() => ({
+    page: page + 1,
+    pageSize: rowsPerPage,
+    sort: toSortParam(sortConfig.field, sortConfig.direction),
+    filter: { status: statusFilter },
+    q: debouncedSearchTerm
+  }), [page, rowsPerPage, sortConfig, statusFilter, debouncedSearchTerm]);
+
+  // Fetch one page of opportunities; names come joined from the API
+  const fetchOpportunities = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await opportunityService.getOpportunitiesPage(listParams);
       
-      if (Array.isArray(response)) {
-        // If response is already an array, use it directly
-        data = response;
-      } else if (response && typeof response === 'object') {
-        // If response is an object with a data property that's an array
-        const responseObj = response as any;
-        if (responseObj.data && Array.isArray(responseObj.data)) {
-          data = responseObj.data;
-        }
-      }
-        
-      // Enhance opportunities with related data
-      const enhancedData = await Promise.all(data.map(async (opportunity) => {
-        try {
-          // Get client details
-          const client = await clientService.getClientById(opportunity.client_id);
-        
-          // Get service details
-          const service = await serviceService.getServiceById(opportunity.service_id);
-          
-          // Get user details
-          const user = await userService.getUserById(opportunity.assigned_user_id);
-          
-          return {
-            ...opportunity,
-            client_name: client.name,
-            service_name: service.name,
-            service_business_unit: service.business_unit,
-            assigned_user_name: user.username
-          };
-        } catch (err) {
-          console.error('Error enhancing opportunity data:', err);
-          return {
-            ...opportunity,
-            client_name: 'Unknown',
-            service_name: 'Unknown',
-            service_business_unit: 'Unknown',
-            assigned_user_name: 'Unknown'
-          };
-        }
-      }));
-        
-      setOpportunities(enhancedData);
-        setError(null);
-      } catch (err) {
+      setOpportunities(result.data.map(opportunity => ({
+        ...opportunity,
+        service_business_unit_id: opportunity.business_unit_id,
+        service_business_unit: opportunity.business_unit
+      })));
+      setTotalCount(result.pagination.total);
+      setError(null);
+    } catch (err) {
       console.error('Error fetching opportunities:', err);
       setError('Failed to load opportunities. Please try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
+    } finally {
+      setLoading(false);
+    }
+  }, [listParams]);
+
+  useEffect(() => {
+    fetchOpportunities();
+  }, [fetchOpportunities]);
 
   // Fetch clients from API
   const fetchClients = async () => {
@@ -410,6 +377,32 @@ const Opportunities: React.FC = () => {
     }
   };
 
+  // Fetch the opportunity stage graph from API
+  const fetchStageRules = async () => {
+    try {
+      const { rules } = await opportunityStageService.getStageRules();
+      const rulesByStatus: Record<string, OpportunityStageRule> = {};
+      rules.forEach(rule => {
+        rulesByStatus[rule.status] = rule;
+      });
+      setStageRules(rulesByStatus);
+    } catch (err) {
+      console.error('Error fetching opportunity stage rules:', err);
+    }
+  };
+
+  // Statuses an opportunity can move to from its current status (including staying put).
+  // Without a rule for the current status nothing is restricted.
+  const getAllowedStatusOptions = (currentStatus?: string) => {
+    const rule = currentStatus ? stageRules[currentStatus] : undefined;
+    if (!rule) return statusOptions;
+    return statusOptions.filter(s => s.value === currentStatus || rule.allowed_transitions.includes(s.value));
+  };
+
+  const getRequiredStageFields = (status: string) => {
+    return stageRules[status]?.required_fields || [];
+  };
+
   const handleOpenDialog = async (opportunityId?: number) => {
     // Reset form
     if (opportunityId) {
@@ -427,9 +420,21 @@ const Opportunities: React.FC = () => {
         priority: opportunity.priority,
         estimated_value: opportunity.estimated_value,
           due_date: opportunity.due_date.split('T')[0], // Format date for input
-        notes: opportunity.notes || ''
+        notes: opportunity.notes || '',
+        loss_reason: opportunity.loss_reason || '',
+        won_date: opportunity.won_date ? opportunity.won_date.split('T')[0] : '',
+        final_value: opportunity.final_value
       });
         
+        // Load the status timeline; the dialog still opens if this fails
+        try {
+          const history = await opportunityService.getOpportunityHistory(opportunityId);
+          setStatusHistory(Array.isArray(history) ? history : []);
+        } catch (historyErr) {
+          console.error('Error fetching opportunity history:', historyErr);
+          setStatusHistory([]);
+        }
+        
         setLoading(false);
       } catch (err) {
         console.error('Error fetching opportunity details:', err);
@@ -440,6 +445,7 @@ const Opportunities: React.FC = () => {
     } else {
       // New opportunity
       setCurrentOpportunity(null);
+      setStatusHistory([]);
       setFormData({
         name: '',
         client_id: 0,
@@ -453,12 +459,15 @@ const Opportunities: React.FC = () => {
       });
     }
     
+    setStatusReason('');
     setOpenDialog(true);
   };
 
   const handleCloseDialog = () => {
     setOpenDialog(false);
     setCurrentOpportunity(null);
+    setStatusHistory([]);
+    setStatusReason('');
     setError(null);
   };
 
@@ -467,7 +476,7 @@ const Opportunities: React.FC = () => {
     const { name, value } = e.target;
     setFormData({
       ...formData,
-      [name]: name === 'estimated_value' ? Number(value) : value
+      [name]: name === 'estimated_value' || name === 'final_value' ? Number(value) : value
     });
   };
 
@@ -486,14 +495,24 @@ const Opportunities: React.FC = () => {
       setError('Please fill in all required fields');
       return;
     }
+    
+    // The selected stage may demand extra fields (e.g. a loss reason)
+    const missingStageFields = getMissingStageFields(stageRules[formData.status], formData);
+    if (missingStageFields.length > 0) {
+      setError(`The ${getStatusLabel(formData.status)} stage requires: ${missingStageFields.map(f => stageFieldLabels[f] || f).join(', ')}`);
+      return;
+    }
 
     try {
       setSubmitting(true);
       let result: Opportunity;
       
       if (currentOpportunity) {
-        // Update existing opportunity
-        result = await opportunityService.updateOpportunity(currentOpportunity.id, formData);
+        // Update existing opportunity, passing the reason along if the status changed
+        const updateData: Partial<OpportunityInput> = formData.status !== currentOpportunity.status && statusReason
+          ? { ...formData, status_reason: statusReason }
+          : formData;
+        result = await opportunityService.updateOpportunity(currentOpportunity.id, updateData);
       } else {
         // Create new opportunity
         result = await opportunityService.createOpportunity(formData);
@@ -508,24 +527,25 @@ const Opportunities: React.FC = () => {
         ...result,
         client_name: client?.name || 'Unknown',
         service_name: service?.name || 'Unknown',
+        service_business_unit_id: service?.business_unit_id,
         service_business_unit: service?.business_unit || 'Unknown',
         assigned_user_name: user?.username || 'Unknown'
       };
       
-      // Update local state
+      // Update local state; a new opportunity may belong on another page
       if (currentOpportunity) {
         setOpportunities(opportunities.map(o => 
           o.id === currentOpportunity.id ? enhancedOpportunity : o
         ));
       } else {
-        setOpportunities([...opportunities, enhancedOpportunity]);
+        await fetchOpportunities();
       }
       
       handleCloseDialog();
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving opportunity:', err);
-      setError('Failed to save opportunity. Please try again.');
+      setError(err.response?.data?.message || 'Failed to save opportunity. Please try again.');
     } finally {
       setSubmitting(false);
     }
@@ -539,7 +559,7 @@ const Opportunities: React.FC = () => {
     try {
       setLoading(true);
       await opportunityService.deleteOpportunity(id);
-      setOpportunities(opportunities.filter(o => o.id !== id));
+      await fetchOpportunities();
       setError(null);
     } catch (err) {
       console.error('Error deleting opportunity:', err);
@@ -549,10 +569,18 @@ const Opportunities: React.FC = () => {
     }
   };
 
-  const handleStatusChange = async (id: number, newStatus: string) => {
+  const handleStatusChange = async (id: number, newStatus: string, stageFields: Partial<OpportunityInput> = {}) => {
+    const current = opportunities.find(o => o.id === id);
+    
+    // Enforce the transition graph before calling the API
+    if (current && !getAllowedStatusOptions(current.status).some(s => s.value === newStatus)) {
+      setError(`Cannot move an opportunity from ${getStatusLabel(current.status)} to ${getStatusLabel(newStatus)}`);
+      return;
+    }
+    
     try {
       setLoading(true);
-      const updatedOpportunity = await opportunityService.changeOpportunityStatus(id, newStatus);
+      const updatedOpportunity = await opportunityService.changeOpportunityStatus(id, newStatus, stageFields);
       
       // Find the original opportunity to get the display properties
       const original = opportunities.find(o => o.id === id);
@@ -562,6 +590,7 @@ const Opportunities: React.FC = () => {
           ...updatedOpportunity,
           client_name: original.client_name,
           service_name: original.service_name,
+          service_business_unit_id: original.service_business_unit_id,
           service_business_unit: original.service_business_unit,
           assigned_user_name: original.assigned_user_name
         };
@@ -570,14 +599,48 @@ const Opportunities: React.FC = () => {
       }
       
       setError(null);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error changing opportunity status:', err);
-      setError('Failed to update opportunity status. Please try again.');
+      setError(err.response?.data?.message || 'Failed to update opportunity status. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  // Handle a status picked from the chip menu, asking for required fields first if needed
+  const handleStatusMenuSelect = (opportunity: OpportunityWithDetails, newStatus: string) => {
+    setStatusMenu(null);
+    if (newStatus === opportunity.status) return;
+    
+    const missingFields = getMissingStageFields(stageRules[newStatus], opportunity);
+    if (missingFields.length > 0) {
+      const initialValues: Partial<OpportunityInput> = {};
+      getRequiredStageFields(newStatus).forEach(field => {
+        (initialValues as any)[field] = (opportunity as any)[field] ?? '';
+      });
+      if (newStatus === 'won' && !initialValues.won_date) {
+        initialValues.won_date = new Date().toISOString().split('T')[0];
+      }
+      setStageFieldValues(initialValues);
+      setStatusReason('');
+      setPendingStatusChange({ opportunity, status: newStatus });
+      return;
+    }
+    
+    handleStatusChange(opportunity.id, newStatus);
+  };
+
+  const handleConfirmStatusChange = async () => {
+    if (!pendingStatusChange) return;
+    
+    const { opportunity, status } = pendingStatusChange;
+    setPendingStatusChange(null);
+    await handleStatusChange(opportunity.id, status, {
+      ...stageFieldValues,
+      ...(statusReason ? { status_reason: statusReason } : {})
+    });
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'new':
@@ -634,92 +697,31 @@ const Opportunities: React.FC = () => {
     }).format(date);
   };
 
-  // Handle import button click
-  const handleImportClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    }).format(date);
   };
 
-  // Handle file selection for CSV import
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || event.target.files.length === 0) return;
-    
-    const file = event.target.files[0];
-    try {
-      setLoading(true);
-      
-      // Parse CSV file
-      const parsedData = await parseCSVFile(file);
-      
-      // Validate the CSV data - make most fields optional with smart defaults
-      const requiredFields = ['name']; // Only name is truly required
-      const validationResult = validateCSVData(parsedData, requiredFields, 'opportunities');
-      
-      if (!validationResult.valid) {
-        setError(`CSV validation failed:\n${validationResult.errors.join('\n')}`);
-        return;
-      }
-      
-      // Show warnings if any
-      if (validationResult.warnings.length > 0) {
-        console.warn('CSV Import Warnings:', validationResult.warnings);
-      }
-      
-      // Prepare data for import with lookup data for name-to-ID resolution
-      const lookupData = {
-        clients: clients,
-        services: services,
-        users: users
-      };
-      const processedData = prepareDataForImport(parsedData, 'opportunities', lookupData);
-      
-      // Process and create opportunities
-      for (const opportunityData of processedData) {
-        await opportunityService.createOpportunity(opportunityData as OpportunityInput);
-      }
-      
-      // Refresh opportunities list
-      await fetchOpportunities();
-      setError(null);
-    } catch (err) {
-      console.error('Error importing opportunities:', err);
-      setError('Failed to import opportunities. Please check the CSV format and try again.');
-    } finally {
-      setLoading(false);
-      // Reset file input
-      if (event.target.value) event.target.value = '';
+  // Format time spent in a stage as days/hours/minutes
+  const formatDuration = (seconds: number) => {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    if (days > 0) {
+      return `${days}d ${hours}h`;
     }
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
   };
 
-  // Handle export button click
-  const handleExportClick = () => {
-    try {
-      // Prepare data for export
-      const exportData = opportunities.map(opportunity => ({
-        id: opportunity.id,
-        name: opportunity.name,
-        client_id: opportunity.client_id,
-        client_name: opportunity.client_name,
-        service_id: opportunity.service_id,
-        service_name: opportunity.service_name,
-        assigned_user_id: opportunity.assigned_user_id,
-        assigned_user_name: opportunity.assigned_user_name,
-        status: opportunity.status,
-        priority: opportunity.priority,
-        estimated_value: opportunity.estimated_value,
-        due_date: opportunity.due_date,
-        notes: opportunity.notes,
-        created_at: opportunity.created_at,
-        updated_at: opportunity.updated_at
-      }));
-      
-      // Export to CSV
-      exportToCSV(exportData, 'opportunities_export.csv');
-    } catch (err) {
-      console.error('Error exporting opportunities:', err);
-      setError('Failed to export opportunities. Please try again.');
-    }
+  const getStatusLabel = (status: string | null) => {
+    if (!status) return '';
+    return statusOptions.find(s => s.value === status)?.label || status;
   };
 
   // Handler for export import template
@@ -744,7 +746,8 @@ const Opportunities: React.FC = () => {
     }
   };
 
-  if (loading && opportunities.length === 0) {
+  // Only the first load replaces the page; later fetches keep the search field mounted
+  if (loading && opportunities.length === 0 && !debouncedSearchTerm && !statusFilter) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
         <CircularProgress />
@@ -759,7 +762,7 @@ const Opportunities: React.FC = () => {
           Opportunities
         </Typography>
         <Stack direction="row" spacing={1}>
-          {selectedOpportunityIds.size > 0 && (
+          {selectedOpportunityIds.size > 0 && can('delete', 'opportunity') && (
             <Button 
               variant="contained" 
               color="error"
@@ -770,22 +773,17 @@ const Opportunities: React.FC = () => {
               Delete Selected ({selectedOpportunityIds.size})
             </Button>
           )}
+          {can('create', 'opportunity') && (
           <Button 
             variant="outlined" 
             startIcon={<FileUploadIcon />}
-            onClick={handleImportClick}
-            size="small"
-          >
-            Import CSV
-          </Button>
-          <Button 
-            variant="outlined" 
-            startIcon={<FileDownloadIcon />}
-            onClick={handleExportClick}
+            onClick={() => setImportOpen(true)}
             size="small"
           >
-            Export CSV
+            Import
           </Button>
+          )}
+          <ExportMenu entity="opportunities" params={toExportParams(listParams)} onError={setError} />
           <Button 
             variant="outlined" 
             onClick={handleExportTemplate}
@@ -800,6 +798,7 @@ const Opportunities: React.FC = () => {
           >
             CSV Format Help
           </Button>
+        {can('create', 'opportunity') && (
         <Button 
           variant="contained" 
           startIcon={<AddIcon />}
@@ -808,15 +807,16 @@ const Opportunities: React.FC = () => {
         >
           Add Opportunity
         </Button>
+        )}
         </Stack>
       </Stack>
 
-      {/* Search field */}
-      <Box mb={1.5}>
+      {/* Search and status filter */}
+      <Stack direction="row" spacing={1.5} mb={1.5}>
         <TextField
           fullWidth
           variant="outlined"
-          placeholder="Search opportunities by name, client, service, status, etc."
+          placeholder="Search opportunities by name, client, service or notes"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           InputProps={{
@@ -827,15 +827,32 @@ const Opportunities: React.FC = () => {
             ),
           }}
         />
-      </Box>
+        <FormControl sx={{ minWidth: 180 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={statusFilter}
+            label="Status"
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(0);
+            }}
+          >
+            <MenuItem value="">All statuses</MenuItem>
+            {statusOptions.map((status) => (
+              <MenuItem key={status.value} value={status.value}>
+                {status.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
 
-      {/* Hidden file input for CSV import */}
-      <input
-        type="file"
-        ref={fileInputRef}
-        accept=".csv"
-        style={{ display: 'none' }}
-        onChange={handleFileChange}
+      {/* Import wizard */}
+      <ImportWizard
+        open={importOpen}
+        entity="opportunities"
+        onClose={() => setImportOpen(false)}
+        onImported={fetchOpportunities}
       />
 
       {/* CSV Format Helper Dialog */}
@@ -857,8 +874,8 @@ const Opportunities: React.FC = () => {
             <TableRow>
               <TableCell padding="checkbox">
                 <Checkbox
-                  indeterminate={selectedOpportunityIds.size > 0 && selectedOpportunityIds.size < filteredAndSortedOpportunities.length}
-                  checked={filteredAndSortedOpportunities.length > 0 && selectedOpportunityIds.size === filteredAndSortedOpportunities.length}
+                  indeterminate={selectedOpportunityIds.size > 0 && selectedOpportunityIds.size < opportunities.length}
+                  checked={opportunities.length > 0 && selectedOpportunityIds.size === opportunities.length}
                   onChange={handleSelectAllClick}
                   aria-label="select all opportunities"
                 />
@@ -939,21 +956,26 @@ const Opportunities: React.FC = () => {
             </TableRow>
           </TableHead>
           <TableBody>
-            {opportunities.length === 0 ? (
+            {opportunities.length === 0 && !debouncedSearchTerm && !statusFilter ? (
               <TableRow>
                 <TableCell colSpan={10} align="center">
                   No opportunities found. Create your first opportunity by clicking "Add Opportunity".
                 </TableCell>
               </TableRow>
-            ) : filteredAndSortedOpportunities.length === 0 ? (
+            ) : opportunities.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={10} align="center">
                   No opportunities match your search criteria.
                 </TableCell>
               </TableRow>
             ) : (
-              filteredAndSortedOpportunities.map((opportunity) => {
+              opportunities.map((opportunity) => {
                 const isSelected = selectedOpportunityIds.has(opportunity.id);
+                const policyRecord = {
+                  assigned_user_id: opportunity.assigned_user_id,
+                  business_unit_id: opportunity.service_business_unit_id
+                };
+                const canUpdate = can('update', 'opportunity', policyRecord);
                 return (
                 <TableRow key={opportunity.id} selected={isSelected} hover>
                   <TableCell padding="checkbox">
@@ -978,12 +1000,7 @@ const Opportunities: React.FC = () => {
                     label={statusOptions.find(s => s.value === opportunity.status)?.label || opportunity.status} 
                     color={getStatusColor(opportunity.status) as any}
                     size="small"
-                      onClick={() => {
-                        const currentIndex = statusOptions.findIndex(s => s.value === opportunity.status);
-                        const nextIndex = (currentIndex + 1) % statusOptions.length;
-                        const newStatus = statusOptions[nextIndex].value;
-                        handleStatusChange(opportunity.id, newStatus);
-                      }}
+                      onClick={canUpdate ? (e) => setStatusMenu({ anchorEl: e.currentTarget, opportunity }) : undefined}
                   />
                 </TableCell>
                 <TableCell>
@@ -996,12 +1013,16 @@ const Opportunities: React.FC = () => {
                   <TableCell>{formatCurrency(opportunity.estimated_value)}</TableCell>
                   <TableCell>{formatDate(opportunity.due_date)}</TableCell>
                 <TableCell align="right">
+                  {canUpdate && (
                     <IconButton onClick={() => handleOpenDialog(opportunity.id)} size="small">
-                    <EditIcon />
-                  </IconButton>
-                  <IconButton onClick={() => handleDelete(opportunity.id)} size="small" color="error">
-                    <DeleteIcon />
-                  </IconButton>
+                      <EditIcon />
+                    </IconButton>
+                  )}
+                  {can('delete', 'opportunity', policyRecord) && (
+                    <IconButton onClick={() => handleDelete(opportunity.id)} size="small" color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  )}
                 </TableCell>
               </TableRow>
                 );
@@ -1009,8 +1030,96 @@ const Opportunities: React.FC = () => {
             )}
           </TableBody>
         </Table>
+        <TablePagination
+          component="div"
+          count={totalCount}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+          onPageChange={(_e, newPage) => {
+            setPage(newPage);
+            setSelectedOpportunityIds(new Set());
+          }}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
       </TableContainer>
 
+      {/* Status menu listing the stages the opportunity may move to */}
+      <Menu
+        anchorEl={statusMenu?.anchorEl}
+        open={Boolean(statusMenu)}
+        onClose={() => setStatusMenu(null)}
+      >
+        {statusMenu && getAllowedStatusOptions(statusMenu.opportunity.status).map((status) => (
+          <MenuItem
+            key={status.value}
+            selected={status.value === statusMenu.opportunity.status}
+            onClick={() => handleStatusMenuSelect(statusMenu.opportunity, status.value)}
+          >
+            {status.label}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {/* Status Change Dialog for stages that require extra fields */}
+      <Dialog
+        open={Boolean(pendingStatusChange)}
+        onClose={() => setPendingStatusChange(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          Move to {pendingStatusChange ? getStatusLabel(pendingStatusChange.status) : ''}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            This stage requires the following details.
+          </DialogContentText>
+          {pendingStatusChange && getRequiredStageFields(pendingStatusChange.status).map((field) => (
+            <TextField
+              key={field}
+              margin="normal"
+              required
+              fullWidth
+              multiline={field === 'loss_reason'}
+              rows={field === 'loss_reason' ? 2 : undefined}
+              type={field === 'won_date' ? 'date' : field === 'loss_reason' ? 'text' : 'number'}
+              label={stageFieldLabels[field] || field}
+              value={(stageFieldValues as any)[field] ?? ''}
+              onChange={(e) => setStageFieldValues({
+                ...stageFieldValues,
+                [field]: field === 'estimated_value' || field === 'final_value' ? Number(e.target.value) : e.target.value
+              })}
+              InputLabelProps={field === 'won_date' ? { shrink: true } : undefined}
+            />
+          ))}
+          <TextField
+            margin="normal"
+            fullWidth
+            label="Reason for status change"
+            value={statusReason}
+            onChange={(e) => setStatusReason(e.target.value)}
+            helperText="Optional, recorded in the status history"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingStatusChange(null)}>Cancel</Button>
+          <Button
+            onClick={handleConfirmStatusChange}
+            variant="contained"
+            disabled={!pendingStatusChange || getMissingStageFields(
+              stageRules[pendingStatusChange.status],
+              { ...pendingStatusChange.opportunity, ...stageFieldValues }
+            ).length > 0}
+          >
+            Change Status
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={deleteConfirmationOpen}
@@ -1102,6 +1211,8 @@ const Opportunities: React.FC = () => {
                 ))}
               </Select>
             </FormControl>
+
+            <SuggestedContact clientId={formData.client_id} serviceId={formData.service_id} />
               
             <FormControl fullWidth margin="normal" required>
                 <InputLabel>Assigned User</InputLabel>
@@ -1133,13 +1244,65 @@ const Opportunities: React.FC = () => {
                 label="Status"
                 onChange={handleSelectChange}
               >
-                {statusOptions.map((status) => (
+                {(currentOpportunity ? getAllowedStatusOptions(currentOpportunity.status) : statusOptions).map((status) => (
                     <MenuItem key={status.value} value={status.value}>
                       {status.label}
                     </MenuItem>
                 ))}
               </Select>
             </FormControl>
+            
+            {getRequiredStageFields(formData.status).includes('loss_reason') && (
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                multiline
+                rows={2}
+                label="Loss Reason"
+                name="loss_reason"
+                value={formData.loss_reason || ''}
+                onChange={handleInputChange}
+              />
+            )}
+            
+            {getRequiredStageFields(formData.status).includes('won_date') && (
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                label="Won Date"
+                name="won_date"
+                type="date"
+                value={formData.won_date || ''}
+                onChange={handleInputChange}
+                InputLabelProps={{ shrink: true }}
+              />
+            )}
+            
+            {getRequiredStageFields(formData.status).includes('final_value') && (
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                label="Final Value"
+                name="final_value"
+                type="number"
+                value={formData.final_value ?? ''}
+                onChange={handleInputChange}
+              />
+            )}
+            
+            {currentOpportunity && formData.status !== currentOpportunity.status && (
+              <TextField
+                margin="normal"
+                fullWidth
+                label="Reason for status change"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                helperText="Optional, recorded in the status history"
+              />
+            )}
               
             <FormControl fullWidth margin="normal">
               <InputLabel>Priority</InputLabel>
@@ -1171,6 +1334,7 @@ const Opportunities: React.FC = () => {
                 </Box>
             <TextField
               fullWidth
+              required={getRequiredStageFields(formData.status).includes('estimated_value')}
               label="Estimated Value"
               name="estimated_value"
               type="number"
@@ -1207,6 +1371,62 @@ const Opportunities: React.FC = () => {
                 value={formData.notes}
               onChange={handleInputChange}
             />
+            
+            {currentOpportunity && (
+              <Box sx={{ mt: 2 }}>
+                <Divider sx={{ mb: 1 }} />
+                <Typography variant="subtitle1" gutterBottom>
+                  Status History
+                </Typography>
+                {statusHistory.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No status changes recorded yet.
+                  </Typography>
+                ) : (
+                  <List dense disablePadding>
+                    {[...statusHistory].reverse().map((entry) => (
+                      <ListItem key={entry.id} disableGutters alignItems="flex-start">
+                        <ListItemText
+                          primary={
+                            <Stack direction="row" spacing={1} alignItems="center">
+                              {entry.old_status && (
+                                <>
+                                  <Chip
+                                    label={getStatusLabel(entry.old_status)}
+                                    color={getStatusColor(entry.old_status) as any}
+                                    size="small"
+                                    variant="outlined"
+                                  />
+                                  <Typography variant="body2">&rarr;</Typography>
+                                </>
+                              )}
+                              <Chip
+                                label={getStatusLabel(entry.new_status)}
+                                color={getStatusColor(entry.new_status) as any}
+                                size="small"
+                              />
+                              <Typography variant="caption" color="text.secondary">
+                                {entry.left_at ? 'in stage for' : 'in stage'} {formatDuration(entry.duration_seconds)}
+                              </Typography>
+                            </Stack>
+                          }
+                          secondary={
+                            <>
+                              {formatDateTime(entry.changed_at)} by {entry.changed_by_name || 'Unknown'}
+                              {entry.reason && (
+                                <Typography component="span" variant="body2" display="block">
+                                  Reason: {entry.reason}
+                                </Typography>
+                              )}
+                            </>
+                          }
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </Box>
+            )}
           </Box>
           )}
           {error && (
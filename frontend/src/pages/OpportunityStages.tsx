@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Stack,
+  Chip,
+  FormControl,
+  FormLabel,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  TextField,
+  InputAdornment
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+
+// Import services
+import opportunityStageService, { OpportunityStageRule, stageFieldLabels } from '../services/opportunityStageService';
+
+// Status options, in pipeline order
+const statusOptions = [
+  { value: 'new', label: 'New' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'qualified', label: 'Qualified' },
+  { value: 'proposal', label: 'Proposal' },
+  { value: 'negotiation', label: 'Negotiation' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'on_hold', label: 'On Hold' }
+];
+
+const getStatusLabel = (status: string) => {
+  return statusOptions.find(s => s.value === status)?.label || status;
+};
+
+const OpportunityStages: React.FC = () => {
+  const [rules, setRules] = useState<Record<string, OpportunityStageRule>>({});
+  const [requirableFields, setRequirableFields] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Dialog state
+  const [editingStatus, setEditingStatus] = useState<string | null>(null);
+  const [allowedTransitions, setAllowedTransitions] = useState<string[]>([]);
+  const [requiredFields, setRequiredFields] = useState<string[]>([]);
+  const [winProbability, setWinProbability] = useState('');
+
+  // Fetch stage rules on component mount
+  useEffect(() => {
+    fetchStageRules();
+  }, []);
+
+  // Fetch stage rules from API
+  const fetchStageRules = async () => {
+    try {
+      setLoading(true);
+      const response = await opportunityStageService.getStageRules();
+      const rulesByStatus: Record<string, OpportunityStageRule> = {};
+      response.rules.forEach(rule => {
+        rulesByStatus[rule.status] = rule;
+      });
+      setRules(rulesByStatus);
+      setRequirableFields(response.requirable_fields);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching opportunity stage rules:', err);
+      setError('Failed to load opportunity stages. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open dialog for editing a stage
+  const handleOpenDialog = (status: string) => {
+    setEditingStatus(status);
+    setAllowedTransitions(rules[status]?.allowed_transitions || []);
+    setRequiredFields(rules[status]?.required_fields || []);
+    setWinProbability(rules[status]?.win_probability?.toString() ?? '');
+  };
+
+  // Close dialog
+  const handleCloseDialog = () => {
+    setEditingStatus(null);
+    setError(null);
+  };
+
+  const toggleValue = (values: string[], value: string) => {
+    return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+  };
+
+  // Handle form submission
+  const handleSubmit = async () => {
+    if (!editingStatus) return;
+
+    const probability = winProbability.trim() === '' ? undefined : Number(winProbability);
+    if (probability !== undefined && !(Number.isInteger(probability) && probability >= 0 && probability <= 100)) {
+      setError('Win probability must be a whole number from 0 to 100.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const updatedRule = await opportunityStageService.updateStageRule(editingStatus, {
+        allowed_transitions: allowedTransitions,
+        required_fields: requiredFields,
+        win_probability: probability
+      });
+      setRules({ ...rules, [editingStatus]: updatedRule });
+      handleCloseDialog();
+    } catch (err: any) {
+      console.error('Error saving opportunity stage rule:', err);
+      setError(err.response?.data?.message || 'Failed to save stage. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Show loading indicator while fetching data
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4">Opportunity Stages</Typography>
+      </Stack>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Choose which stages an opportunity can move to from each stage, and which details must be filled in before it can enter a stage. The win probability weights open opportunities in the forecast on the Reports page.
+      </Typography>
+
+      {error && !editingStatus && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Stage</TableCell>
+              <TableCell>Can Move To</TableCell>
+              <TableCell>Required Fields</TableCell>
+              <TableCell align="right">Win Probability</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {statusOptions.map((status) => {
+              const rule = rules[status.value];
+              return (
+                <TableRow key={status.value}>
+                  <TableCell>{status.label}</TableCell>
+                  <TableCell>
+                    {!rule ? (
+                      <Typography variant="body2" color="text.secondary">Any stage</Typography>
+                    ) : rule.allowed_transitions.length === 0 ? (
+                      <Typography variant="body2" color="text.secondary">None (final stage)</Typography>
+                    ) : (
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {rule.allowed_transitions.map((target) => (
+                          <Chip key={target} label={getStatusLabel(target)} size="small" />
+                        ))}
+                      </Stack>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {!rule || rule.required_fields.length === 0 ? (
+                      <Typography variant="body2" color="text.secondary">None</Typography>
+                    ) : (
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {rule.required_fields.map((field) => (
+                          <Chip key={field} label={stageFieldLabels[field] || field} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    {rule && rule.win_probability !== null ? `${rule.win_probability}%` : (
+                      <Typography variant="body2" color="text.secondary">Not set</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <IconButton onClick={() => handleOpenDialog(status.value)} size="small">
+                      <EditIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Edit Stage Dialog */}
+      <Dialog
+        open={Boolean(editingStatus)}
+        onClose={handleCloseDialog}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Edit {editingStatus ? getStatusLabel(editingStatus) : ''} Stage</DialogTitle>
+        <DialogContent>
+          <FormControl component="fieldset" margin="normal" fullWidth>
+            <FormLabel component="legend">Can move to</FormLabel>
+            <FormGroup row>
+              {statusOptions.filter(s => s.value !== editingStatus).map((status) => (
+                <FormControlLabel
+                  key={status.value}
+                  control={
+                    <Checkbox
+                      checked={allowedTransitions.includes(status.value)}
+                      onChange={() => setAllowedTransitions(toggleValue(allowedTransitions, status.value))}
+                    />
+                  }
+                  label={status.label}
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+          <FormControl component="fieldset" margin="normal" fullWidth>
+            <FormLabel component="legend">Required to enter this stage</FormLabel>
+            <FormGroup row>
+              {requirableFields.map((field) => (
+                <FormControlLabel
+                  key={field}
+                  control={
+                    <Checkbox
+                      checked={requiredFields.includes(field)}
+                      onChange={() => setRequiredFields(toggleValue(requiredFields, field))}
+                    />
+                  }
+                  label={stageFieldLabels[field] || field}
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+          <TextField
+            label="Win probability"
+            type="number"
+            value={winProbability}
+            onChange={(e) => setWinProbability(e.target.value)}
+            margin="normal"
+            helperText="Chance that an opportunity in this stage is won"
+            inputProps={{ min: 0, max: 100, step: 1 }}
+            InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+            sx={{ width: 240 }}
+          />
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={submitting}
+          >
+            {submitting ? <CircularProgress size={24} color="inherit" /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default OpportunityStages;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Box, 
   Typography, 
@@ -10,11 +10,17 @@ import {
   Alert, 
   CircularProgress,
   Stack,
-  IconButton
+  IconButton,
+  Chip,
+  List,
+  ListItem,
+  ListItemText
 } from '@mui/material';
-import { Edit as EditIcon, Save as SaveIcon, Cancel as CancelIcon } from '@mui/icons-material';
+import { Edit as EditIcon, Save as SaveIcon, Cancel as CancelIcon, Logout as LogoutIcon } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
-import authService from '../services/authService';
+import authService, { Session } from '../services/authService';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import ScheduledExports from '../components/ScheduledExports';
 
 const Profile: React.FC = () => {
   const { user, loading: authLoading, updateUser } = useAuth();
@@ -42,6 +48,64 @@ const Profile: React.FC = () => {
   const [updatingUsername, setUpdatingUsername] = useState(false);
   const [usernameMessage, setUsernameMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
+  // Signed-in devices
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionMessage, setSessionMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error: any) {
+      console.error('Error loading sessions:', error);
+      setSessionMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to load sessions.'
+      });
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevokeSession = async (session: Session) => {
+    // Revoking this device is just a logout
+    if (session.current) {
+      await authService.logout();
+      return;
+    }
+
+    try {
+      await authService.revokeSession(session.id);
+      setSessions(sessions.filter(s => s.id !== session.id));
+      setSessionMessage({ type: 'success', text: 'Device signed out' });
+    } catch (error: any) {
+      console.error('Error revoking session:', error);
+      setSessionMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to sign out the device. Please try again.'
+      });
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Log out of all devices, including this one?')) {
+      return;
+    }
+
+    try {
+      await authService.logoutAll();
+    } catch (error: any) {
+      setSessionMessage({
+        type: 'error',
+        text: error.response?.data?.message || 'Failed to log out of all devices. Please try again.'
+      });
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setPasswordData({
@@ -172,8 +236,9 @@ const Profile: React.FC = () => {
       
       setMessage({
         type: 'success',
-        text: 'Password changed successfully'
+        text: 'Password changed successfully. Your other devices have been signed out.'
       });
+      loadSessions();
     } catch (error: any) {
       console.error('Error changing password:', error);
       setMessage({
@@ -358,6 +423,66 @@ const Profile: React.FC = () => {
           </CardActions>
         </form>
       </Card>
+
+      <TwoFactorSettings />
+
+      <ScheduledExports />
+
+      <Card sx={{ mt: 4 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Signed-in Devices
+          </Typography>
+
+          {sessionMessage && (
+            <Alert 
+              severity={sessionMessage.type} 
+              sx={{ mb: 2 }}
+              onClose={() => setSessionMessage(null)}
+            >
+              {sessionMessage.text}
+            </Alert>
+          )}
+
+          {sessionsLoading ? (
+            <CircularProgress size={24} />
+          ) : (
+            <List disablePadding>
+              {sessions.map((session) => (
+                <ListItem 
+                  key={session.id} 
+                  divider
+                  secondaryAction={
+                    <Button size="small" color="error" onClick={() => handleRevokeSession(session)}>
+                      {session.current ? 'Log out' : 'Revoke'}
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={
+                      <>
+                        {session.user_agent || 'Unknown device'}
+                        {session.current && <Chip label="This device" size="small" color="primary" sx={{ ml: 1 }} />}
+                      </>
+                    }
+                    secondary={`${session.ip_address || 'Unknown IP'} · signed in ${new Date(session.created_at).toLocaleString()} · last active ${new Date(session.last_used_at).toLocaleString()}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </CardContent>
+        <CardActions sx={{ justifyContent: 'flex-end', p: 2 }}>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<LogoutIcon />}
+            onClick={handleLogoutAll}
+          >
+            Log Out All Devices
+          </Button>
+        </CardActions>
+      </Card>
     </Box>
   );
 };
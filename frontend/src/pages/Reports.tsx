@@ -0,0 +1,575 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Stack,
+  Paper,
+  Typography,
+  TextField,
+  Autocomplete,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  LinearProgress,
+  Tooltip
+} from '@mui/material';
+
+import analyticsService, {
+  AnalyticsFilters,
+  CycleTimeRow,
+  Forecast,
+  PenetrationRow,
+  PipelineRow,
+  WinRateGroup,
+  WinRateRow
+} from '../services/analyticsService';
+import businessUnitService, { BusinessUnit } from '../services/businessUnitService';
+
+// Open stages, in pipeline order
+const openStages = [
+  { value: 'new', label: 'New' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'qualified', label: 'Qualified' },
+  { value: 'proposal', label: 'Proposal' },
+  { value: 'negotiation', label: 'Negotiation' },
+  { value: 'on_hold', label: 'On Hold' }
+];
+
+const getStageLabel = (status: string) => openStages.find(s => s.value === status)?.label || status;
+
+// Colours for business units in the pipeline chart, reused in turn
+const unitColors = ['#1976d2', '#9c27b0', '#2e7d32', '#ed6c02', '#0288d1', '#d32f2f', '#5d4037', '#455a64'];
+
+const winRateGroupLabels: Record<WinRateGroup, string> = {
+  service: 'Service',
+  business_unit: 'Business Unit',
+  user: 'Rep'
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: value >= 100000 ? 'compact' : 'standard',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: value >= 100000 ? 1 : 0
+  }).format(value);
+};
+
+const formatDays = (days: number | null) => (days === null ? '—' : `${Math.round(days)} days`);
+
+const formatPercent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// "2024-05" as "May 2024"
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The last 12 months, from the first of the month
+const defaultRange = () => {
+  const today = new Date();
+  return {
+    from: toDateInput(new Date(today.getFullYear(), today.getMonth() - 11, 1)),
+    to: toDateInput(today)
+  };
+};
+
+const ReportSection: React.FC<{ title: string; caption: string; action?: React.ReactNode; children: React.ReactNode }> = ({
+  title,
+  caption,
+  action,
+  children
+}) => (
+  <Paper sx={{ p: 2 }}>
+    <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 2 }}>
+      <Box>
+        <Typography variant="h6">{title}</Typography>
+        <Typography variant="body2" color="text.secondary">{caption}</Typography>
+      </Box>
+      {action}
+    </Stack>
+    {children}
+  </Paper>
+);
+
+const EmptyReport: React.FC<{ text: string }> = ({ text }) => (
+  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>{text}</Typography>
+);
+
+/**
+ * One horizontal bar per stage, split into business units
+ */
+const PipelineChart: React.FC<{ rows: PipelineRow[] }> = ({ rows }) => {
+  const units = Array.from(new Map(rows.map(row => [row.business_unit_id, row.business_unit])).entries());
+  const colorOf = (unitId: number) => unitColors[units.findIndex(([id]) => id === unitId) % unitColors.length];
+  const stages = openStages
+    .map(stage => {
+      const stageRows = rows.filter(row => row.status === stage.value);
+      return {
+        ...stage,
+        rows: stageRows,
+        value: stageRows.reduce((sum, row) => sum + row.value, 0),
+        count: stageRows.reduce((sum, row) => sum + row.count, 0)
+      };
+    })
+    .filter(stage => stage.count > 0);
+  const maxValue = Math.max(...stages.map(stage => stage.value), 1);
+
+  if (stages.length === 0) {
+    return <EmptyReport text="No open opportunities." />;
+  }
+
+  return (
+    <Box>
+      {stages.map(stage => (
+        <Stack key={stage.value} direction="row" alignItems="center" spacing={2} sx={{ mb: 1.5 }}>
+          <Typography variant="body2" sx={{ width: 100, flexShrink: 0 }}>{stage.label}</Typography>
+          <Box sx={{ flexGrow: 1, display: 'flex', height: 24 }}>
+            {stage.rows.map(row => (
+              <Tooltip
+                key={row.business_unit_id}
+                title={`${row.business_unit}: ${formatCurrency(row.value)} (${row.count} opportunit${row.count === 1 ? 'y' : 'ies'})`}
+              >
+                <Box sx={{ width: `${(row.value / maxValue) * 100}%`, minWidth: 2, bgcolor: colorOf(row.business_unit_id) }} />
+              </Tooltip>
+            ))}
+          </Box>
+          <Typography variant="body2" sx={{ width: 130, flexShrink: 0, textAlign: 'right' }}>
+            {formatCurrency(stage.value)} · {stage.count}
+          </Typography>
+        </Stack>
+      ))}
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap sx={{ mt: 2 }}>
+        {units.map(([id, name]) => (
+          <Stack key={id} direction="row" alignItems="center" spacing={0.5}>
+            <Box sx={{ width: 12, height: 12, bgcolor: colorOf(id) }} />
+            <Typography variant="caption">{name}</Typography>
+          </Stack>
+        ))}
+      </Stack>
+    </Box>
+  );
+};
+
+/**
+ * Monthly columns of open value, with the weighted part filled in
+ */
+const ForecastChart: React.FC<{ forecast: Forecast }> = ({ forecast }) => {
+  const maxValue = Math.max(...forecast.months.map(month => month.value), 1);
+
+  if (forecast.months.length === 0) {
+    return <EmptyReport text="No open opportunities." />;
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 1, height: 180, overflowX: 'auto', pb: 1 }}>
+        {forecast.months.map(month => (
+          <Tooltip
+            key={month.month}
+            title={`${formatMonth(month.month)}: ${formatCurrency(month.weighted_value)} weighted of ${formatCurrency(month.value)} (${month.count} open)`}
+          >
+            <Box sx={{ flex: '1 0 40px', height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end' }}>
+              <Box sx={{ height: `${(month.value / maxValue) * 100}%`, bgcolor: 'rgba(25, 118, 210, 0.25)', position: 'relative' }}>
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    bottom: 0,
+                    left: 0,
+                    right: 0,
+                    height: month.value > 0 ? `${(month.weighted_value / month.value) * 100}%` : 0,
+                    bgcolor: 'primary.dark'
+                  }}
+                />
+              </Box>
+            </Box>
+          </Tooltip>
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, overflowX: 'auto' }}>
+        {forecast.months.map(month => (
+          <Typography key={month.month} variant="caption" sx={{ flex: '1 0 40px', textAlign: 'center' }}>
+            {formatMonth(month.month)}
+          </Typography>
+        ))}
+      </Box>
+
+      <Table size="small" sx={{ mt: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Stage</TableCell>
+            <TableCell align="right">Win Probability</TableCell>
+            <TableCell align="right">Open</TableCell>
+            <TableCell align="right">Value</TableCell>
+            <TableCell align="right">Weighted</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {forecast.stages.map(stage => (
+            <TableRow key={stage.status}>
+              <TableCell>{getStageLabel(stage.status)}</TableCell>
+              <TableCell align="right">{stage.win_probability}%</TableCell>
+              <TableCell align="right">{stage.count}</TableCell>
+              <TableCell align="right">{formatCurrency(stage.value)}</TableCell>
+              <TableCell align="right">{formatCurrency(stage.weighted_value)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell><strong>Total</strong></TableCell>
+            <TableCell />
+            <TableCell align="right"><strong>{forecast.stages.reduce((sum, s) => sum + s.count, 0)}</strong></TableCell>
+            <TableCell align="right"><strong>{formatCurrency(forecast.stages.reduce((sum, s) => sum + s.value, 0))}</strong></TableCell>
+            <TableCell align="right"><strong>{formatCurrency(forecast.stages.reduce((sum, s) => sum + s.weighted_value, 0))}</strong></TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+/**
+ * Line of services per client by month
+ */
+const PenetrationChart: React.FC<{ rows: PenetrationRow[] }> = ({ rows }) => {
+  const width = 600;
+  const height = 200;
+  const padding = { top: 10, right: 10, bottom: 24, left: 36 };
+  const maxValue = Math.max(...rows.map(row => row.services_per_client), 1);
+  const ceiling = Math.ceil(maxValue * 2) / 2;
+  const x = (index: number) =>
+    padding.left + (rows.length > 1 ? (index / (rows.length - 1)) * (width - padding.left - padding.right) : 0);
+  const y = (value: number) => padding.top + (1 - value / ceiling) * (height - padding.top - padding.bottom);
+  // Label about six months at most
+  const labelEvery = Math.max(1, Math.ceil(rows.length / 6));
+
+  if (rows.length === 0) {
+    return <EmptyReport text="No data for this period." />;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img" aria-label="Services per client by month">
+      {[0, ceiling / 2, ceiling].map(tick => (
+        <g key={tick}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} stroke="#e0e0e0" />
+          <text x={padding.left - 6} y={y(tick) + 4} fontSize="11" textAnchor="end" fill="#757575">
+            {tick.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      <polyline
+        fill="none"
+        stroke="#1976d2"
+        strokeWidth={2}
+        points={rows.map((row, index) => `${x(index)},${y(row.services_per_client)}`).join(' ')}
+      />
+      {rows.map((row, index) => (
+        <g key={row.month}>
+          <circle cx={x(index)} cy={y(row.services_per_client)} r={3} fill="#1976d2">
+            <title>
+              {`${formatMonth(row.month)}: ${row.services_per_client.toFixed(2)} services per client, ` +
+                `${row.clients_with_multiple} of ${row.clients} clients with more than one`}
+            </title>
+          </circle>
+          {index % labelEvery === 0 && (
+            <text x={x(index)} y={height - 6} fontSize="11" textAnchor="middle" fill="#757575">
+              {formatMonth(row.month)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const Reports: React.FC = () => {
+  const [businessUnits, setBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [selectedBusinessUnits, setSelectedBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [range, setRange] = useState(defaultRange);
+  const [winRateGroup, setWinRateGroup] = useState<WinRateGroup>('service');
+
+  const [pipeline, setPipeline] = useState<PipelineRow[]>([]);
+  const [forecast, setForecast] = useState<Forecast>({ months: [], stages: [] });
+  const [winRates, setWinRates] = useState<WinRateRow[]>([]);
+  const [cycleTimes, setCycleTimes] = useState<CycleTimeRow[]>([]);
+  const [penetration, setPenetration] = useState<PenetrationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    businessUnitService.getAllBusinessUnits()
+      .then(setBusinessUnits)
+      .catch(err => console.error('Error fetching business units:', err));
+  }, []);
+
+  const businessUnitIds = useMemo(() => selectedBusinessUnits.map(unit => unit.id), [selectedBusinessUnits]);
+
+  // The open pipeline and forecast cover every open opportunity; the period
+  // applies to closed opportunities and the penetration trend
+  const periodFilters: AnalyticsFilters = useMemo(
+    () => ({ from: range.from || undefined, to: range.to || undefined, businessUnitIds }),
+    [range, businessUnitIds]
+  );
+
+  const fetchReports = useCallback(async () => {
+    if (periodFilters.from && periodFilters.to && periodFilters.from > periodFilters.to) {
+      setError('The start date must not be after the end date.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [pipelineRows, forecastData, cycleRows, penetrationRows] = await Promise.all([
+        analyticsService.getPipeline({ businessUnitIds }),
+        analyticsService.getForecast({ businessUnitIds }),
+        analyticsService.getCycleTimes(periodFilters),
+        analyticsService.getPenetration(periodFilters)
+      ]);
+      setPipeline(pipelineRows);
+      setForecast(forecastData);
+      setCycleTimes(cycleRows);
+      setPenetration(penetrationRows);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load reports. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessUnitIds, periodFilters]);
+
+  const fetchWinRates = useCallback(async () => {
+    if (periodFilters.from && periodFilters.to && periodFilters.from > periodFilters.to) return;
+
+    try {
+      setWinRates(await analyticsService.getWinRates(periodFilters, winRateGroup));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load win rates. Please try again.');
+    }
+  }, [periodFilters, winRateGroup]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  useEffect(() => {
+    fetchWinRates();
+  }, [fetchWinRates]);
+
+  const overallCycle = cycleTimes.find(row => row.business_unit_id === null);
+  const unitCycles = cycleTimes.filter(row => row.business_unit_id !== null);
+  const pipelineTotal = pipeline.reduce((sum, row) => sum + row.value, 0);
+  const weightedTotal = forecast.months.reduce((sum, month) => sum + month.weighted_value, 0);
+  const closedCount = (overallCycle?.won_count || 0) + (overallCycle?.lost_count || 0);
+  const latestPenetration = penetration[penetration.length - 1];
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4">Reports</Typography>
+        {loading && <CircularProgress size={24} />}
+      </Stack>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={range.from}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={range.to}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Autocomplete
+            multiple
+            size="small"
+            options={businessUnits}
+            getOptionLabel={(option) => option.name}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            value={selectedBusinessUnits}
+            onChange={(_, newValue) => setSelectedBusinessUnits(newValue)}
+            renderInput={(params) => (
+              <TextField {...params} label="Business Units" placeholder={selectedBusinessUnits.length ? '' : 'All'} />
+            )}
+            renderTags={(value, getTagProps) =>
+              value.map((option, index) => (
+                <Chip label={option.name} {...getTagProps({ index })} size="small" variant="outlined" color="primary" />
+              ))
+            }
+            sx={{ flexGrow: 1, minWidth: 240 }}
+          />
+        </Stack>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          The period applies to win rates, cycle times and penetration. The pipeline and forecast show every open opportunity.
+        </Typography>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Open Pipeline', value: formatCurrency(pipelineTotal) },
+          { label: 'Weighted Forecast', value: formatCurrency(weightedTotal) },
+          {
+            label: 'Win Rate',
+            value: formatPercent(closedCount > 0 ? (overallCycle?.won_count || 0) / closedCount : null)
+          },
+          { label: 'Average Days to Win', value: formatDays(overallCycle?.won_avg_days ?? null) },
+          {
+            label: 'Services per Client',
+            value: latestPenetration ? latestPenetration.services_per_client.toFixed(2) : '—'
+          }
+        ].map(stat => (
+          <Paper key={stat.label} sx={{ p: 2, flex: 1, textAlign: 'center' }}>
+            <Typography variant="h5">{stat.value}</Typography>
+            <Typography variant="body2" color="text.secondary">{stat.label}</Typography>
+          </Paper>
+        ))}
+      </Stack>
+
+      <Stack spacing={3}>
+        <Stack direction={{ xs: 'column', lg: 'row' }} spacing={3}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <ReportSection title="Pipeline by Stage" caption="Estimated value of open opportunities, by business unit">
+              <PipelineChart rows={pipeline} />
+            </ReportSection>
+          </Box>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <ReportSection
+              title="Forecast"
+              caption="Open value by month due, weighted by each stage's win probability (overdue counts as this month)"
+            >
+              <ForecastChart forecast={forecast} />
+            </ReportSection>
+          </Box>
+        </Stack>
+
+        <ReportSection
+          title="Win Rates"
+          caption="Opportunities won and lost in the period"
+          action={
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={winRateGroup}
+              onChange={(_, value) => value && setWinRateGroup(value)}
+            >
+              {(Object.keys(winRateGroupLabels) as WinRateGroup[]).map(group => (
+                <ToggleButton key={group} value={group}>{winRateGroupLabels[group]}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          }
+        >
+          {winRates.length === 0 ? (
+            <EmptyReport text="No opportunities were won or lost in this period." />
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{winRateGroupLabels[winRateGroup]}</TableCell>
+                  <TableCell sx={{ width: '35%' }}>Win Rate</TableCell>
+                  <TableCell align="right">Won</TableCell>
+                  <TableCell align="right">Lost</TableCell>
+                  <TableCell align="right">Won Value</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {winRates.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" alignItems="center" spacing={1}>
+                        <LinearProgress
+                          variant="determinate"
+                          value={(row.win_rate || 0) * 100}
+                          sx={{ flexGrow: 1, height: 8, borderRadius: 1 }}
+                        />
+                        <Typography variant="body2" sx={{ width: 40, textAlign: 'right' }}>
+                          {formatPercent(row.win_rate)}
+                        </Typography>
+                      </Stack>
+                    </TableCell>
+                    <TableCell align="right">{row.won}</TableCell>
+                    <TableCell align="right">{row.lost}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.won_value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ReportSection>
+
+        <Stack direction={{ xs: 'column', lg: 'row' }} spacing={3}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <ReportSection title="Cycle Time" caption="Average days from creation to closing, for opportunities closed in the period">
+              {closedCount === 0 ? (
+                <EmptyReport text="No opportunities were won or lost in this period." />
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Business Unit</TableCell>
+                      <TableCell align="right">To Win</TableCell>
+                      <TableCell align="right">To Lose</TableCell>
+                      <TableCell align="right">Closed</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {unitCycles.map(row => (
+                      <TableRow key={row.business_unit_id}>
+                        <TableCell>{row.business_unit}</TableCell>
+                        <TableCell align="right">{formatDays(row.won_avg_days)}</TableCell>
+                        <TableCell align="right">{formatDays(row.lost_avg_days)}</TableCell>
+                        <TableCell align="right">{row.won_count + row.lost_count}</TableCell>
+                      </TableRow>
+                    ))}
+                    {overallCycle && (
+                      <TableRow>
+                        <TableCell><strong>All</strong></TableCell>
+                        <TableCell align="right"><strong>{formatDays(overallCycle.won_avg_days)}</strong></TableCell>
+                        <TableCell align="right"><strong>{formatDays(overallCycle.lost_avg_days)}</strong></TableCell>
+                        <TableCell align="right"><strong>{closedCount}</strong></TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </ReportSection>
+          </Box>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <ReportSection
+              title="Cross-Sell Penetration"
+              caption={latestPenetration
+                ? `Services per client at the end of each month; ${latestPenetration.clients_with_multiple} of ${latestPenetration.clients} clients used more than one at the end of the period`
+                : 'Services per client at the end of each month'}
+            >
+              <PenetrationChart rows={penetration} />
+            </ReportSection>
+          </Box>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { 
+  Container, 
+  Box, 
+  Typography, 
+  TextField, 
+  Button, 
+  Paper, 
+  Avatar,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import LockResetIcon from '@mui/icons-material/LockReset';
+import { useParams, Link as RouterLink } from 'react-router-dom';
+import authService from '../services/authService';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const ResetPassword: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await authService.resetPassword(token || '', password);
+      setDone(true);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to reset password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+        }}
+      >
+        <Paper 
+          elevation={3} 
+          sx={{ 
+            padding: 4, 
+            display: 'flex', 
+            flexDirection: 'column', 
+            alignItems: 'center',
+            width: '100%'
+          }}
+        >
+          <Avatar sx={{ m: 1, bgcolor: 'primary.main' }}>
+            <LockResetIcon />
+          </Avatar>
+          <Typography component="h1" variant="h5">
+            Wondrlab Cross-Selling Management System
+          </Typography>
+          <Typography component="h2" variant="h6" sx={{ mt: 1 }}>
+            Reset Password
+          </Typography>
+
+          {done ? (
+            <>
+              <Alert severity="success" sx={{ mt: 2, width: '100%' }}>
+                Your password has been reset. Sign in with your new password.
+              </Alert>
+              <Button component={RouterLink} to="/login" variant="contained" sx={{ mt: 2 }}>
+                Go to Sign In
+              </Button>
+            </>
+          ) : (
+            <>
+              {error && <Alert severity="error" sx={{ mt: 2, width: '100%' }}>{error}</Alert>}
+
+              <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="password"
+                  label="New Password"
+                  type="password"
+                  id="password"
+                  autoComplete="new-password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="confirmPassword"
+                  label="Confirm New Password"
+                  type="password"
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={loading}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : (
+                    'Reset Password'
+                  )}
+                </Button>
+              </Box>
+              <Button component={RouterLink} to="/forgot-password">
+                Request a new link
+              </Button>
+            </>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
+
+export default ResetPassword;
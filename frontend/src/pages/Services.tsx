@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { 
   Box, 
   Typography, 
@@ -25,18 +25,26 @@ import {
   MenuItem,
   SelectChangeEvent,
   Chip,
-  Autocomplete
+  Autocomplete,
+  InputAdornment,
+  TablePagination,
+  TableSortLabel
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import SearchIcon from '@mui/icons-material/Search';
 import serviceService, { Service, ServiceInput } from '../services/serviceService';
 import businessUnitService, { BusinessUnit } from '../services/businessUnitService';
 import industryService, { Industry } from '../services/industryService';
-import { exportToCSV, parseCSVFile, validateCSVData, prepareDataForImport, exportForImport } from '../utils/csvUtils';
+import { exportForImport } from '../utils/csvUtils';
+import { ListParams, toSortParam } from '../utils/listQuery';
 import CSVFormatHelper from '../components/CSVFormatHelper';
+import ImportWizard from '../components/ImportWizard';
+import ExportMenu from '../components/ExportMenu';
+import { toExportParams } from '../services/exportService';
+import { usePermissions } from '../hooks/usePermissions';
 
 // Pricing models for dropdown
 const pricingModels = [
@@ -51,8 +59,15 @@ const pricingModels = [
 // Status options
 const statusOptions = ['active', 'inactive', 'deprecated'];
 
+type SortField = 'name' | 'business_unit' | 'pricing_model' | 'status';
+interface SortConfig {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
 const Services: React.FC = () => {
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { can } = usePermissions();
+  const [importOpen, setImportOpen] = useState(false);
   const [services, setServices] = useState<Service[]>([]);
   const [businessUnits, setBusinessUnits] = useState<BusinessUnit[]>([]);
   const [industries, setIndustries] = useState<Industry[]>([]);
@@ -62,27 +77,46 @@ const Services: React.FC = () => {
   const [currentService, setCurrentService] = useState<Service | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showFormatHelper, setShowFormatHelper] = useState(false);
+  
+  // Search, filter, sort and paging state; the server does the work
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [businessUnitFilter, setBusinessUnitFilter] = useState('');
+  const [sortConfig, setSortConfig] = useState<SortConfig>({ field: 'name', direction: 'asc' });
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
+  
   const [formData, setFormData] = useState<ServiceInput>({
     name: '',
     description: '',
-    business_unit: '',
+    business_unit_id: 0,
     pricing_model: '',
     pricing_details: '',
-    applicable_industries: [],
+    applicable_industry_ids: [],
     client_role: '',
     status: 'active'
   });
 
   useEffect(() => {
-    fetchServices();
     fetchBusinessUnits();
     fetchIndustries();
   }, []);
 
-  // Fetch industries from API
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Fetch industries from API; inactive ones are kept so services that
+  // still use them show them, but only active ones are offered
   const fetchIndustries = async () => {
     try {
-      const data = await industryService.getActiveIndustries();
+      const data = await industryService.getAllIndustries();
       console.log('Industries API response:', data);
       setIndustries(data);
     } catch (err) {
@@ -115,35 +149,43 @@ const Services: React.FC = () => {
     }
   };
 
-  // Fetch services from API
-    const fetchServices = async () => {
-      try {
+  // The list params for the current search, filter, sort and page
+  const listParams: ListParams = useMemo(() => ({
+    page: page + 1,
+    pageSize: rowsPerPage,
+    sort: toSortParam(sortConfig.field, sortConfig.direction),
+    filter: { business_unit_id: businessUnitFilter },
+    q: debouncedSearchTerm
+  }), [page, rowsPerPage, sortConfig, businessUnitFilter, debouncedSearchTerm]);
+
+  // Fetch one page of services from API
+  const fetchServices = useCallback(async () => {
+    try {
       setLoading(true);
-      const response = await serviceService.getAllServices();
-      
-      // Log the response for debugging
-      console.log('Services API response:', response);
-      
-      // Ensure we have an array of services
-      let data: Service[] = [];
-      
-      if (Array.isArray(response)) {
-          data = response;
-        } else if (response && typeof response === 'object') {
-        // Handle case where API returns an object with data property
-        const responseObj = response as { data?: any[] };
-        data = Array.isArray(responseObj.data) ? responseObj.data : [];
-        }
-      
-      setServices(data);
-        setError(null);
-      } catch (err) {
-        console.error('Error fetching services:', err);
-        setError('Failed to load services. Please try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
+      const result = await serviceService.getServicesPage(listParams);
+      setServices(result.data);
+      setTotalCount(result.pagination.total);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching services:', err);
+      setError('Failed to load services. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [listParams]);
+
+  useEffect(() => {
+    fetchServices();
+  }, [fetchServices]);
+
+  // Handle sorting
+  const handleSort = (field: SortField) => {
+    setSortConfig(prevConfig => ({
+      field,
+      direction: prevConfig.field === field && prevConfig.direction === 'asc' ? 'desc' : 'asc'
+    }));
+    setPage(0);
+  };
 
   // Open dialog for adding/editing service
   const handleOpenDialog = async (serviceId?: number) => {
@@ -156,10 +198,10 @@ const Services: React.FC = () => {
       setFormData({
         name: service.name,
         description: service.description,
-        business_unit: service.business_unit,
+        business_unit_id: service.business_unit_id,
         pricing_model: service.pricing_model,
           pricing_details: service.pricing_details || '',
-          applicable_industries: service.applicable_industries,
+          applicable_industry_ids: service.applicable_industry_ids,
         client_role: service.client_role,
         status: service.status
       });
@@ -177,10 +219,10 @@ const Services: React.FC = () => {
       setFormData({
         name: '',
         description: '',
-        business_unit: '',
+        business_unit_id: 0,
         pricing_model: '',
         pricing_details: '',
-        applicable_industries: [],
+        applicable_industry_ids: [],
         client_role: '',
         status: 'active'
       });
@@ -206,11 +248,11 @@ const Services: React.FC = () => {
   };
 
   // Handle select input changes
-  const handleSelectChange = (e: SelectChangeEvent) => {
+  const handleSelectChange = (e: SelectChangeEvent<string | number>) => {
     const { name, value } = e.target;
       setFormData({
         ...formData,
-        [name]: value
+        [name]: name === 'business_unit_id' ? Number(value) : value
       });
   };
 
@@ -218,14 +260,14 @@ const Services: React.FC = () => {
   const handleIndustriesChange = (_event: React.SyntheticEvent, value: Industry[]) => {
     setFormData({
       ...formData,
-      applicable_industries: value.map(industry => industry.name)
+      applicable_industry_ids: value.map(industry => industry.id)
       });
   };
 
   // Handle form submission
   const handleSubmit = async () => {
     // Validate form data
-    if (!formData.name || !formData.business_unit || !formData.pricing_model) {
+    if (!formData.name || !formData.business_unit_id || !formData.pricing_model) {
       setError('Please fill in all required fields');
       return;
     }
@@ -244,8 +286,8 @@ const Services: React.FC = () => {
         setServices(services.map(s => s.id === currentService.id ? updatedService : s));
       } else {
         // Create new service
-        const newService = await serviceService.createService(serviceData);
-        setServices([...services, newService]);
+        await serviceService.createService(serviceData);
+        await fetchServices();
       }
       
       handleCloseDialog();
@@ -267,7 +309,7 @@ const Services: React.FC = () => {
     try {
       setLoading(true);
       await serviceService.deleteService(id);
-      setServices(services.filter(s => s.id !== id));
+      await fetchServices();
       setError(null);
     } catch (err) {
       console.error('Error deleting service:', err);
@@ -306,87 +348,6 @@ const Services: React.FC = () => {
     }
   };
 
-  // CSV Import/Export handlers
-  const handleImportClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || event.target.files.length === 0) {
-      return;
-    }
-    
-    const file = event.target.files[0];
-    
-    try {
-      setLoading(true);
-      const parsedData = await parseCSVFile(file);
-      
-      // Validate the CSV data - make some fields optional for easier imports
-      const requiredFields = ['name', 'business_unit', 'pricing_model']; // Only essential fields required
-      const validationResult = validateCSVData(parsedData, requiredFields, 'services');
-      
-      if (!validationResult.valid) {
-        setError(`CSV validation failed:\n${validationResult.errors.join('\n')}`);
-        return;
-      }
-      
-      // Show warnings if any
-      if (validationResult.warnings.length > 0) {
-        console.warn('CSV Import Warnings:', validationResult.warnings);
-      }
-      
-      // Prepare data for import
-      const processedData = prepareDataForImport(parsedData, 'services');
-      
-      // Process and create services
-      const createdServices = [];
-      for (const serviceData of processedData) {
-        try {
-          const newService = await serviceService.createService(serviceData as ServiceInput);
-          createdServices.push(newService);
-        } catch (err) {
-          console.error('Error creating service:', err);
-        }
-      }
-      
-      // Refresh services list
-      await fetchServices();
-      setError(null);
-      alert(`Successfully imported ${createdServices.length} services`);
-    } catch (err) {
-      console.error('Error importing services:', err);
-      setError('Failed to import services. Please check your CSV file format.');
-    } finally {
-      setLoading(false);
-      // Reset the file input
-      if (event.target.value) {
-        event.target.value = '';
-      }
-    }
-  };
-
-  const handleExportClick = () => {
-    // Prepare data for export
-    const dataToExport = services.map(service => ({
-      id: service.id,
-      name: service.name,
-      description: service.description,
-      business_unit: service.business_unit,
-      pricing_model: service.pricing_model,
-      pricing_details: service.pricing_details,
-      applicable_industries: service.applicable_industries.join(';'),
-      client_role: service.client_role,
-      status: service.status,
-      created_at: service.created_at,
-      updated_at: service.updated_at
-    }));
-    
-    exportToCSV(dataToExport, 'services_export.csv');
-  };
-
   // Handler for export import template
   const handleExportTemplate = () => {
     try {
@@ -410,7 +371,7 @@ const Services: React.FC = () => {
 
   return (
     <Box sx={{ p: 2 }}>
-      {loading && services.length === 0 ? (
+      {loading && services.length === 0 && !debouncedSearchTerm && !businessUnitFilter ? (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
         <CircularProgress />
       </Box>
@@ -424,22 +385,17 @@ const Services: React.FC = () => {
           
           <Stack direction="row" justifyContent="flex-end" alignItems="center" sx={{ mb: 1.5 }}>
             <Box sx={{ display: 'flex', gap: 0.5 }}>
+              {can('create', 'service') && (
               <Button 
                 variant="outlined" 
                 startIcon={<FileUploadIcon />}
-                onClick={handleImportClick}
-                size="small"
-              >
-                Import CSV
-              </Button>
-              <Button 
-                variant="outlined" 
-                startIcon={<FileDownloadIcon />}
-                onClick={handleExportClick}
+                onClick={() => setImportOpen(true)}
                 size="small"
               >
-                Export CSV
+                Import
               </Button>
+              )}
+              <ExportMenu entity="services" params={toExportParams(listParams)} onError={setError} />
               <Button 
                 variant="outlined" 
                 onClick={handleExportTemplate}
@@ -454,6 +410,7 @@ const Services: React.FC = () => {
               >
                 CSV Format Help
               </Button>
+        {can('create', 'service') && (
         <Button 
           variant="contained" 
           startIcon={<AddIcon />}
@@ -462,28 +419,91 @@ const Services: React.FC = () => {
         >
           Add Service
         </Button>
+        )}
             </Box>
       </Stack>
 
+      {/* Search and business unit filter */}
+      <Stack direction="row" spacing={1.5} sx={{ mb: 1.5 }}>
+        <TextField
+          fullWidth
+          variant="outlined"
+          placeholder="Search services by name, description, business unit or client role"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+        <FormControl sx={{ minWidth: 200 }}>
+          <InputLabel>Business Unit</InputLabel>
+          <Select
+            value={businessUnitFilter}
+            label="Business Unit"
+            onChange={(e) => {
+              setBusinessUnitFilter(e.target.value);
+              setPage(0);
+            }}
+          >
+            <MenuItem value="">All business units</MenuItem>
+            {businessUnits.map((unit) => (
+              <MenuItem key={unit.id} value={String(unit.id)}>
+                {unit.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+
       <TableContainer component={Paper}>
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell>Name</TableCell>
-              <TableCell>Business Unit</TableCell>
-              <TableCell>Pricing Model</TableCell>
+              {([
+                ['name', 'Name'],
+                ['business_unit', 'Business Unit'],
+                ['pricing_model', 'Pricing Model']
+              ] as [SortField, string][]).map(([field, label]) => (
+                <TableCell key={field}>
+                  <TableSortLabel
+                    active={sortConfig.field === field}
+                    direction={sortConfig.field === field ? sortConfig.direction : 'asc'}
+                    onClick={() => handleSort(field)}
+                  >
+                    {label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
               <TableCell>Industries</TableCell>
-              <TableCell>Status</TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={sortConfig.field === 'status'}
+                  direction={sortConfig.field === 'status' ? sortConfig.direction : 'asc'}
+                  onClick={() => handleSort('status')}
+                >
+                  Status
+                </TableSortLabel>
+              </TableCell>
               <TableCell align="right">Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
-            {services.length === 0 ? (
+            {services.length === 0 && !debouncedSearchTerm && !businessUnitFilter ? (
               <TableRow>
                 <TableCell colSpan={6} align="center">
                   No services found. Create your first service by clicking "Add Service".
                 </TableCell>
               </TableRow>
+            ) : services.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No services match your search criteria.
+                </TableCell>
+              </TableRow>
             ) : (
               services.map((service) => (
               <TableRow key={service.id}>
@@ -508,18 +528,34 @@ const Services: React.FC = () => {
                   />
                 </TableCell>
                 <TableCell align="right">
+                  {can('update', 'service', service) && (
                     <IconButton onClick={() => handleOpenDialog(service.id)} size="small">
-                    <EditIcon />
-                  </IconButton>
-                  <IconButton onClick={() => handleDelete(service.id)} size="small" color="error">
-                    <DeleteIcon />
-                  </IconButton>
+                      <EditIcon />
+                    </IconButton>
+                  )}
+                  {can('delete', 'service', service) && (
+                    <IconButton onClick={() => handleDelete(service.id)} size="small" color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  )}
                 </TableCell>
               </TableRow>
               ))
             )}
           </TableBody>
         </Table>
+        <TablePagination
+          component="div"
+          count={totalCount}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+          onPageChange={(_e, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
       </TableContainer>
         </>
       )}
@@ -567,13 +603,13 @@ const Services: React.FC = () => {
             <FormControl fullWidth margin="normal" required>
               <InputLabel>Business Unit</InputLabel>
               <Select
-                name="business_unit"
-                value={formData.business_unit}
+                name="business_unit_id"
+                value={formData.business_unit_id || ''}
                 label="Business Unit"
                 onChange={handleSelectChange}
               >
                 {businessUnits.map((unit) => (
-                  <MenuItem key={unit.id} value={unit.name}>{unit.name}</MenuItem>
+                  <MenuItem key={unit.id} value={unit.id}>{unit.name}</MenuItem>
                 ))}
               </Select>
             </FormControl>
@@ -601,11 +637,11 @@ const Services: React.FC = () => {
             <FormControl fullWidth margin="normal">
               <Autocomplete
                 multiple
-                options={industries}
+                options={industries.filter(industry => industry.status === 'active')}
                 getOptionLabel={(option) => option.name}
-                isOptionEqualToValue={(option, value) => option.name === value.name}
+                isOptionEqualToValue={(option, value) => option.id === value.id}
                 value={industries.filter(industry => 
-                  formData.applicable_industries.includes(industry.name)
+                  formData.applicable_industry_ids.includes(industry.id)
                 )}
                 onChange={handleIndustriesChange}
                 renderInput={(params) => (
@@ -657,13 +693,12 @@ const Services: React.FC = () => {
         </DialogActions>
       </Dialog>
 
-      {/* Hidden file input for CSV import */}
-      <input
-        type="file"
-        ref={fileInputRef}
-        style={{ display: 'none' }}
-        accept=".csv"
-        onChange={handleFileChange}
+      {/* Import wizard */}
+      <ImportWizard
+        open={importOpen}
+        entity="services"
+        onClose={() => setImportOpen(false)}
+        onImported={fetchServices}
       />
 
       {/* CSV Format Helper Dialog */}
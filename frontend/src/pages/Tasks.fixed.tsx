@@ -120,6 +120,7 @@ const Tasks: React.FC = () => {
           client_name: client ? client.name : 'Unknown Client',
           service_name: service ? service.name : 'Unknown Service',
           assigned_user_name: assignedUser ? assignedUser.username : 'Unknown User',
+          business_unit_id: service ? service.business_unit_id : 0,
           business_unit: service ? service.business_unit : 'N/A'
         };
       };
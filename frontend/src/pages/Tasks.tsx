@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -26,22 +26,25 @@ import {
   Select,
   MenuItem,
   SelectChangeEvent,
+  TablePagination,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
 
 import taskService, { Task, TaskWithDetails, TaskInput } from '../services/taskService';
 import opportunityService, { Opportunity } from '../services/opportunityService';
 import userService from '../services/userService';
-import clientService, { Client } from '../services/clientService';
-import serviceService, { Service } from '../services/serviceService';
 import { useAuth } from '../contexts/AuthContext';
 import { User } from '../services/authService';
-import { exportToCSV, parseCSVFile, validateCSVData, prepareDataForImport, exportForImport } from '../utils/csvUtils';
+import { exportForImport } from '../utils/csvUtils';
+import { ListParams } from '../utils/listQuery';
 import CSVFormatHelper from '../components/CSVFormatHelper';
+import ImportWizard from '../components/ImportWizard';
+import ExportMenu from '../components/ExportMenu';
+import { toExportParams } from '../services/exportService';
+import { usePermissions } from '../hooks/usePermissions';
 
 // Define status options for tasks
 const statusOptions = [
@@ -54,7 +57,8 @@ const statusOptions = [
 
 const Tasks: React.FC = () => {
   const { user } = useAuth();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { can } = usePermissions();
+  const [importOpen, setImportOpen] = useState(false);
   const [tasks, setTasks] = useState<TaskWithDetails[]>([]);
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState<boolean>(true);
@@ -77,99 +81,32 @@ const Tasks: React.FC = () => {
     description: ''
   });
 
-  // Mock filter state - actual filter logic would be more complex
+  // Quick filter and paging state; the server filters and pages the tasks
   const [filter, setFilter] = useState<'all' | 'my' | 'overdue'>('all');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
+
+  // The list params for the current quick filter and page
+  const listParams: ListParams = useMemo(() => {
+    const params: ListParams = { page: page + 1, pageSize: rowsPerPage, sort: 'due_date' };
+    if (filter === 'my' && user) {
+      params.filter = { assigned_user_id: user.id };
+    } else if (filter === 'overdue') {
+      params.filter = { status: ['pending', 'in_progress'], due_to: new Date().toISOString() };
+    }
+    return params;
+  }, [filter, user, page, rowsPerPage]);
 
   const fetchTasks = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      let data: TaskWithDetails[];
-      
-      // Fetch all related data needed for enrichment
-      const [fetchedOpportunities, fetchedUsers, fetchedClients, fetchedServices] = await Promise.all([
-        opportunityService.getAllOpportunities(),
-        userService.getAllUsers(),
-        clientService.getAllClients(),
-        serviceService.getAllServices()
-      ]);
-      
-      // Create maps for quick lookup
-      const opportunityMap = new Map(
-        fetchedOpportunities.map(opp => [opp.id, opp])
-      );
-      
-      const userMap = new Map(
-        fetchedUsers.map(user => [user.id, user])
-      );
-      
-      const clientMap = new Map(
-        fetchedClients.map(client => [client.id, client])
-      );
-      
-      const serviceMap = new Map(
-        fetchedServices.map(service => [service.id, service])
-      );
-      
-      // Helper function to enrich task data
-      const enrichTask = (task: Task): TaskWithDetails => {
-        const opportunity = opportunityMap.get(task.opportunity_id);
-        const assignedUser = userMap.get(task.assigned_user_id);
-        
-        // Get client and service using the opportunity's references
-        const client: Client | null = opportunity ? (clientMap.get(opportunity.client_id) || null) : null;
-        const service: Service | null = opportunity ? (serviceMap.get(opportunity.service_id) || null) : null;
-        
-        return {
-          ...task,
-          opportunity_name: opportunity ? opportunity.name : 'Unknown Opportunity',
-          client_name: client ? client.name : 'Unknown Client',
-          service_name: service ? service.name : 'Unknown Service',
-          assigned_user_name: assignedUser ? assignedUser.username : 'Unknown User',
-          business_unit: service ? service.business_unit : 'N/A'
-        };
-      };
-      
-      if (filter === 'overdue') {
-        data = await taskService.getOverdueTasks(); // Already returns TaskWithDetails[]
-        console.log('Overdue tasks:', data.map(task => task.id));
-      } else if (filter === 'my' && user) {
-        // For 'my' tasks
-        const basicTasks: Task[] = await taskService.getTasksByAssignedUser(user.id);
-        console.log('My tasks (before mapping):', basicTasks.map(task => task.id));
-        
-        // Enrich basic tasks with opportunity and user details
-        data = basicTasks.map(enrichTask);
-      } else {
-        // For 'all' tasks
-        const basicTasks: Task[] = await taskService.getAllTasks();
-        console.log('All tasks (before mapping):', basicTasks.map(task => task.id));
-        
-        // Enrich basic tasks with opportunity and user details
-        data = basicTasks.map(enrichTask);
-      }
-      
-      // Check for duplicate IDs
-      const taskIds = data.map(task => task.id);
-      const uniqueIds = new Set(taskIds);
-      
-      if (taskIds.length !== uniqueIds.size) {
-        console.error('DUPLICATE TASK IDs DETECTED!');
-        const idCounts = taskIds.reduce((acc, id) => {
-          acc[id] = (acc[id] || 0) + 1;
-          return acc;
-        }, {} as Record<number, number>);
-        
-        const duplicates = Object.entries(idCounts)
-          .filter(([_, count]) => count > 1)
-          .map(([id, count]) => `ID ${id} appears ${count} times`);
-        
-        console.error('Duplicate IDs:', duplicates);
-        console.log('Full task data with duplicates:', JSON.stringify(data, null, 2));
-      }
-      
-      setTasks(data);
-      // Clear selected tasks when filter changes
+      // Names and business unit come joined from the API
+      const result = await taskService.getTasksPage(listParams);
+      setTasks(result.data);
+      setTotalCount(result.pagination.total);
+      // Clear selected tasks when filter or page changes
       setSelectedTaskIds(new Set());
     } catch (err) {
       console.error('Failed to fetch tasks:', err);
@@ -177,7 +114,7 @@ const Tasks: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [filter, user]);
+  }, [listParams]);
 
   // Fetch opportunities and users for the dialog dropdowns
   const fetchDropdownData = useCallback(async () => {
@@ -346,91 +283,6 @@ const Tasks: React.FC = () => {
     }
   };
 
-  // CSV Import/Export handlers
-  const handleImportClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || event.target.files.length === 0) {
-      return;
-    }
-    
-    const file = event.target.files[0];
-    
-    try {
-      setLoading(true);
-      const parsedData = await parseCSVFile(file);
-      
-      // Validate the CSV data - make most fields optional with smart defaults
-      const requiredFields = ['name']; // Only name is truly required
-      const validationResult = validateCSVData(parsedData, requiredFields, 'tasks');
-      
-      if (!validationResult.valid) {
-        setError(`CSV validation failed:\n${validationResult.errors.join('\n')}`);
-        return;
-      }
-      
-      // Show warnings if any
-      if (validationResult.warnings.length > 0) {
-        console.warn('CSV Import Warnings:', validationResult.warnings);
-      }
-      
-      // Prepare data for import with lookup data for name-to-ID resolution
-      const lookupData = {
-        opportunities: opportunities,
-        users: users
-      };
-      const processedData = prepareDataForImport(parsedData, 'tasks', lookupData);
-      
-      // Process and create tasks
-      const createdTasks = [];
-      for (const taskData of processedData) {
-        try {
-          const newTask = await taskService.createTask(taskData as TaskInput);
-          createdTasks.push(newTask);
-        } catch (err) {
-          console.error('Error creating task:', err);
-        }
-      }
-      
-      // Refresh tasks list
-      await fetchTasks();
-      setError(null);
-      alert(`Successfully imported ${createdTasks.length} tasks`);
-    } catch (err) {
-      console.error('Error importing tasks:', err);
-      setError('Failed to import tasks. Please check your CSV file format.');
-    } finally {
-      setLoading(false);
-      // Reset the file input
-      if (event.target.value) {
-        event.target.value = '';
-      }
-    }
-  };
-
-  const handleExportClick = () => {
-    // Prepare data for export
-    const dataToExport = tasks.map(task => ({
-      id: task.id,
-      name: task.name,
-      opportunity_id: task.opportunity_id,
-      opportunity_name: task.opportunity_name,
-      assigned_user_id: task.assigned_user_id,
-      assigned_user_name: task.assigned_user_name,
-      due_date: task.due_date,
-      status: task.status,
-      description: task.description,
-      created_at: task.created_at,
-      updated_at: task.updated_at
-    }));
-    
-    exportToCSV(dataToExport, 'tasks_export.csv');
-  };
-
   // Handler for export import template
   const handleExportTemplate = () => {
     try {
@@ -450,7 +302,7 @@ const Tasks: React.FC = () => {
     }
   };
 
-  if (loading && tasks.length === 0) { 
+  if (loading && tasks.length === 0 && filter === 'all') { 
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
         <CircularProgress />
@@ -462,7 +314,7 @@ const Tasks: React.FC = () => {
     <Box sx={{ p: 2 }}>
       <Stack direction="row" justifyContent="flex-end" alignItems="center" sx={{ mb: 1.5 }}>
         <Stack direction="row" spacing={1}>
-          {selectedTaskIds.size > 0 && (
+          {selectedTaskIds.size > 0 && can('delete', 'task') && (
             <Button 
               variant="contained" 
               color="error"
@@ -473,22 +325,17 @@ const Tasks: React.FC = () => {
               Delete Selected ({selectedTaskIds.size})
             </Button>
           )}
+          {can('create', 'task') && (
           <Button 
             variant="outlined" 
             startIcon={<FileUploadIcon />}
-            onClick={handleImportClick}
+            onClick={() => setImportOpen(true)}
             size="small"
           >
-            Import CSV
-          </Button>
-          <Button 
-            variant="outlined" 
-            startIcon={<FileDownloadIcon />}
-            onClick={handleExportClick}
-            size="small"
-          >
-            Export CSV
+            Import
           </Button>
+          )}
+          <ExportMenu entity="tasks" params={toExportParams(listParams)} onError={setError} />
           <Button 
             variant="outlined" 
             onClick={handleExportTemplate}
@@ -503,6 +350,7 @@ const Tasks: React.FC = () => {
           >
             CSV Format Help
           </Button>
+          {can('create', 'task') && (
           <Button 
             variant="contained" 
             startIcon={<AddIcon />}
@@ -511,20 +359,27 @@ const Tasks: React.FC = () => {
           >
             Add Task
           </Button>
+          )}
         </Stack>
       </Stack>
 
       <Stack direction="row" spacing={1} sx={{ mb: 1.5 }}>
         <Button 
           variant={filter === 'all' ? 'contained' : 'outlined'}
-          onClick={() => setFilter('all')}
+          onClick={() => {
+            setFilter('all');
+            setPage(0);
+          }}
           size="small"
         >
           All Tasks
         </Button>
         <Button 
           variant={filter === 'my' ? 'contained' : 'outlined'}
-          onClick={() => setFilter('my')}
+          onClick={() => {
+            setFilter('my');
+            setPage(0);
+          }}
           size="small"
         >
           My Tasks
@@ -532,7 +387,10 @@ const Tasks: React.FC = () => {
         <Button 
           variant={filter === 'overdue' ? 'contained' : 'outlined'}
           color="error"
-          onClick={() => setFilter('overdue')}
+          onClick={() => {
+            setFilter('overdue');
+            setPage(0);
+          }}
           size="small"
         >
           Overdue Tasks
@@ -623,29 +481,33 @@ const Tasks: React.FC = () => {
                     </TableCell>
                     <TableCell>{task.status}</TableCell>
                     <TableCell align="right">
-                      <IconButton 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleOpenDialog(task);
-                        }} 
-                        size="small"
-                      >
-                        <EditIcon />
-                      </IconButton>
-                      <IconButton 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (window.confirm('Are you sure you want to delete this task?')) {
-                            taskService.deleteTask(task.id).then(() => {
-                              fetchTasks();
-                            });
-                          }
-                        }} 
-                        size="small" 
-                        color="error"
-                      >
-                        <DeleteIcon />
-                      </IconButton>
+                      {can('update', 'task', task) && (
+                        <IconButton 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleOpenDialog(task);
+                          }} 
+                          size="small"
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      )}
+                      {can('delete', 'task', task) && (
+                        <IconButton 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (window.confirm('Are you sure you want to delete this task?')) {
+                              taskService.deleteTask(task.id).then(() => {
+                                fetchTasks();
+                              });
+                            }
+                          }} 
+                          size="small" 
+                          color="error"
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      )}
                     </TableCell>
                   </TableRow>
                 );
@@ -653,6 +515,18 @@ const Tasks: React.FC = () => {
             )}
           </TableBody>
         </Table>
+        <TablePagination
+          component="div"
+          count={totalCount}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+          onPageChange={(_e, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
       </TableContainer>
 
       {/* Delete Confirmation Dialog */}
@@ -677,13 +551,12 @@ const Tasks: React.FC = () => {
         </DialogActions>
       </Dialog>
 
-      {/* Hidden file input for CSV import */}
-      <input
-        type="file"
-        ref={fileInputRef}
-        style={{ display: 'none' }}
-        accept=".csv"
-        onChange={handleFileChange}
+      {/* Import wizard */}
+      <ImportWizard
+        open={importOpen}
+        entity="tasks"
+        onClose={() => setImportOpen(false)}
+        onImported={fetchTasks}
       />
 
       {/* CSV Format Helper Dialog */}
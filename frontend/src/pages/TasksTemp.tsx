@@ -60,6 +60,7 @@ const Tasks: React.FC = () => {
           client_name: 'N/A', 
           service_name: 'N/A', 
           assigned_user_name: task.assigned_user_id ? `User ID: ${task.assigned_user_id}` : 'N/A',
+          business_unit_id: 0,
           business_unit: 'N/A' 
         }));
       } else {
@@ -72,6 +73,7 @@ const Tasks: React.FC = () => {
           client_name: 'N/A', 
           service_name: 'N/A', 
           assigned_user_name: task.assigned_user_id ? `User ID: ${task.assigned_user_id}` : 'N/A',
+          business_unit_id: 0,
           business_unit: 'N/A' 
         }));
       }
@@ -23,15 +23,24 @@ import {
   InputLabel,
   Select,
   MenuItem,
-  Chip
+  Chip,
+  FormGroup,
+  FormControlLabel,
+  Checkbox
 } from '@mui/material';
 import { SelectChangeEvent } from '@mui/material/Select';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import MailOutlineIcon from '@mui/icons-material/MailOutline';
+import ReplayIcon from '@mui/icons-material/Replay';
+import LockOpenIcon from '@mui/icons-material/LockOpen';
+import PhonelinkEraseIcon from '@mui/icons-material/PhonelinkErase';
 
 // Import user service
 import userService from '../services/userService';
+import invitationService, { Invitation, InvitationInput } from '../services/invitationService';
+import twoFactorPolicyService from '../services/twoFactorPolicyService';
 import { User } from '../services/authService';
 
 // User roles
@@ -64,12 +73,59 @@ const Users: React.FC = () => {
     password: '',
     role: 'sales' // Default role
   });
+  // Invitations that haven't been accepted or revoked yet
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [openInviteDialog, setOpenInviteDialog] = useState(false);
+  const [inviteData, setInviteData] = useState<InvitationInput>({ email: '', role: 'sales' });
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  // Result of the last invite or resend; the link is shown when it couldn't be emailed
+  const [inviteNotice, setInviteNotice] = useState<Invitation | null>(null);
+  // Roles whose members must use two-factor authentication
+  const [twoFactorRoles, setTwoFactorRoles] = useState<string[]>([]);
 
-  // Fetch users on component mount
+  // Fetch users and invitations on component mount
   useEffect(() => {
     fetchUsers();
+    fetchInvitations();
+    fetchTwoFactorRoles();
   }, []);
 
+  // Fetch the two-factor policy from API
+  const fetchTwoFactorRoles = async () => {
+    try {
+      setTwoFactorRoles(await twoFactorPolicyService.getRequiredRoles());
+    } catch (err) {
+      console.error('Error fetching two-factor policy:', err);
+      setError('Failed to load two-factor policy. Please try again.');
+    }
+  };
+
+  // Require or stop requiring two-factor for a role
+  const handleToggleTwoFactorRole = async (role: string) => {
+    const roles = twoFactorRoles.includes(role)
+      ? twoFactorRoles.filter(r => r !== role)
+      : [...twoFactorRoles, role];
+
+    try {
+      setError(null);
+      setTwoFactorRoles(await twoFactorPolicyService.updateRequiredRoles(roles));
+    } catch (err: any) {
+      console.error('Error updating two-factor policy:', err);
+      setError(err.response?.data?.message || 'Failed to update two-factor policy. Please try again.');
+    }
+  };
+
+  // Fetch open invitations from API
+  const fetchInvitations = async () => {
+    try {
+      const response = await invitationService.getOpenInvitations();
+      setInvitations(response);
+    } catch (err) {
+      console.error('Error fetching invitations:', err);
+      setError('Failed to load invitations. Please try again.');
+    }
+  };
+
   // Fetch users from API
   const fetchUsers = async () => {
     try {
@@ -180,6 +236,11 @@ const Users: React.FC = () => {
       .join(' ');
   };
 
+  // Whether a user is locked out after too many failed logins
+  const isLocked = (user: User) => {
+    return !!user.locked_until && new Date(user.locked_until) > new Date();
+  };
+
   // Handle form submission
   const handleSubmit = async () => {
     // Validate form data
@@ -240,6 +301,93 @@ const Users: React.FC = () => {
     }
   };
 
+  // Open dialog for inviting a user
+  const handleOpenInviteDialog = () => {
+    setInviteData({ email: '', role: 'sales' });
+    setInviteError(null);
+    setOpenInviteDialog(true);
+  };
+
+  // Send an invitation
+  const handleInvite = async () => {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(inviteData.email)) {
+      setInviteError('Please enter a valid email address');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const invitation = await invitationService.createInvitation(inviteData);
+      setInvitations([invitation, ...invitations]);
+      setInviteNotice(invitation);
+      setOpenInviteDialog(false);
+    } catch (err: any) {
+      console.error('Error sending invitation:', err);
+      setInviteError(err.response?.data?.message || 'Failed to send invitation. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Send an invitation again with a new link
+  const handleResendInvitation = async (id: number) => {
+    try {
+      setError(null);
+      const invitation = await invitationService.resendInvitation(id);
+      setInvitations(invitations.map(inv => inv.id === id ? invitation : inv));
+      setInviteNotice(invitation);
+    } catch (err: any) {
+      console.error('Error resending invitation:', err);
+      setError(err.response?.data?.message || 'Failed to resend invitation. Please try again.');
+    }
+  };
+
+  // Revoke an invitation so its link stops working
+  const handleRevokeInvitation = async (id: number) => {
+    if (!window.confirm('Revoke this invitation? Its link will stop working.')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await invitationService.revokeInvitation(id);
+      setInvitations(invitations.filter(inv => inv.id !== id));
+      setInviteNotice(null);
+    } catch (err: any) {
+      console.error('Error revoking invitation:', err);
+      setError(err.response?.data?.message || 'Failed to revoke invitation. Please try again.');
+    }
+  };
+
+  // Let a user locked out by failed logins sign in again
+  const handleUnlock = async (id: number) => {
+    try {
+      setError(null);
+      await userService.unlockUser(id);
+      setUsers(users.map(u => u.id === id ? { ...u, locked_until: null } : u));
+    } catch (err: any) {
+      console.error('Error unlocking user:', err);
+      setError(err.response?.data?.message || 'Failed to unlock user. Please try again.');
+    }
+  };
+
+  // Turn off a user's two-factor so they can set it up again
+  const handleResetTwoFactor = async (id: number) => {
+    if (!window.confirm('Reset two-factor authentication for this user? They will be signed out and can set it up again.')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await userService.resetTwoFactor(id);
+      setUsers(users.map(u => u.id === id ? { ...u, two_factor_enabled: false } : u));
+    } catch (err: any) {
+      console.error('Error resetting two-factor:', err);
+      setError(err.response?.data?.message || 'Failed to reset two-factor authentication. Please try again.');
+    }
+  };
+
   // Handle user deletion
   const handleDelete = async (id: number) => {
     if (!window.confirm('Are you sure you want to delete this user?')) {
@@ -277,13 +425,22 @@ const Users: React.FC = () => {
     <Box>
       <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
         <Typography variant="h4">Users</Typography>
-        <Button 
-          variant="contained" 
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add User
-        </Button>
+        <Stack direction="row" spacing={1}>
+          <Button 
+            variant="outlined" 
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Add User
+          </Button>
+          <Button 
+            variant="contained" 
+            startIcon={<MailOutlineIcon />}
+            onClick={handleOpenInviteDialog}
+          >
+            Invite User
+          </Button>
+        </Stack>
       </Stack>
 
       {error && (
@@ -292,6 +449,18 @@ const Users: React.FC = () => {
         </Alert>
       )}
 
+      {inviteNotice && (
+        <Alert 
+          severity={inviteNotice.email_sent ? 'success' : 'warning'} 
+          sx={{ mb: 2 }} 
+          onClose={() => setInviteNotice(null)}
+        >
+          {inviteNotice.email_sent
+            ? `Invitation sent to ${inviteNotice.email}.`
+            : `The invitation email to ${inviteNotice.email} could not be sent. Share this link with them instead: ${inviteNotice.invite_url}`}
+        </Alert>
+      )}
+
       <TableContainer component={Paper}>
         <Table>
           <TableHead>
@@ -320,8 +489,24 @@ const Users: React.FC = () => {
                     color={getRoleColor(user.role) as any}
                     size="small"
                   />
+                  {isLocked(user) && (
+                    <Chip label="Locked" color="error" variant="outlined" size="small" sx={{ ml: 1 }} />
+                  )}
+                  {user.two_factor_enabled && (
+                    <Chip label="2FA" color="success" variant="outlined" size="small" sx={{ ml: 1 }} />
+                  )}
                 </TableCell>
                 <TableCell align="right">
+                  {isLocked(user) && (
+                    <IconButton onClick={() => handleUnlock(user.id)} size="small" title="Unlock">
+                      <LockOpenIcon />
+                    </IconButton>
+                  )}
+                  {user.two_factor_enabled && (
+                    <IconButton onClick={() => handleResetTwoFactor(user.id)} size="small" title="Reset two-factor">
+                      <PhonelinkEraseIcon />
+                    </IconButton>
+                  )}
                   <IconButton onClick={() => handleOpenDialog(user.id)} size="small">
                     <EditIcon />
                   </IconButton>
@@ -336,6 +521,131 @@ const Users: React.FC = () => {
         </Table>
       </TableContainer>
 
+      {invitations.length > 0 && (
+        <>
+          <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>Pending Invitations</Typography>
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Email</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>Invited By</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expires_at) < new Date();
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>
+                        <Chip 
+                          label={formatRole(invitation.role)} 
+                          color={getRoleColor(invitation.role) as any}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>{invitation.invited_by_name || '-'}</TableCell>
+                      <TableCell>
+                        {expired 
+                          ? <Chip label="Expired" size="small" />
+                          : new Date(invitation.expires_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell align="right">
+                        <IconButton onClick={() => handleResendInvitation(invitation.id)} size="small" title="Resend">
+                          <ReplayIcon />
+                        </IconButton>
+                        <IconButton onClick={() => handleRevokeInvitation(invitation.id)} size="small" color="error" title="Revoke">
+                          <DeleteIcon />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 1 }}>Two-Factor Authentication</Typography>
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Require two-factor authentication for these roles. Users who haven't set it up are signed out and asked to
+          set it up at their next sign-in.
+        </Typography>
+        <FormGroup row>
+          {userRoles.map(role => (
+            <FormControlLabel
+              key={role}
+              control={
+                <Checkbox
+                  checked={twoFactorRoles.includes(role)}
+                  onChange={() => handleToggleTwoFactorRole(role)}
+                />
+              }
+              label={formatRole(role)}
+            />
+          ))}
+        </FormGroup>
+      </Paper>
+
+      {/* Invite User Dialog */}
+      <Dialog 
+        open={openInviteDialog} 
+        onClose={() => setOpenInviteDialog(false)} 
+        maxWidth="sm" 
+        fullWidth
+      >
+        <DialogTitle>Invite User</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            The invitee gets an email with a single-use link to set their username and password.
+          </Typography>
+          <Box component="form" sx={{ mt: 1 }}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Email"
+              type="email"
+              value={inviteData.email}
+              onChange={(e) => setInviteData({ ...inviteData, email: e.target.value })}
+            />
+            <FormControl fullWidth margin="normal" required>
+              <InputLabel>Role</InputLabel>
+              <Select
+                value={inviteData.role}
+                label="Role"
+                onChange={(e: SelectChangeEvent) => setInviteData({ ...inviteData, role: e.target.value })}
+              >
+                {userRoles.map((role) => (
+                  <MenuItem key={role} value={role}>{formatRole(role)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          {inviteError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {inviteError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenInviteDialog(false)}>Cancel</Button>
+          <Button 
+            onClick={handleInvite} 
+            variant="contained"
+            disabled={submitting}
+          >
+            {submitting ? <CircularProgress size={24} color="inherit" /> : 'Send Invitation'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Add/Edit User Dialog */}
       <Dialog 
         open={openDialog} 
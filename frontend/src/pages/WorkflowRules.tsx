@@ -0,0 +1,636 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  Divider
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+// Import services
+import workflowRuleService, { WorkflowRule, WorkflowRuleInput } from '../services/workflowRuleService';
+import businessUnitService, { BusinessUnit } from '../services/businessUnitService';
+import serviceService, { Service } from '../services/serviceService';
+
+const triggerOptions = [
+  { value: 'opportunity_created', label: 'Opportunity is created' },
+  { value: 'opportunity_status_changed', label: 'Opportunity enters a status' },
+  { value: 'task_created', label: 'Task is created' },
+  { value: 'task_status_changed', label: 'Task changes status' }
+];
+
+const actionOptions = [
+  { value: 'create_task', label: 'Create a task' },
+  { value: 'notify', label: 'Send a notification' }
+];
+
+const recipientOptions = [
+  { value: 'assignee', label: 'Assigned user' },
+  { value: 'account_owner', label: 'Client account owner' },
+  { value: 'rule_owner', label: 'Me (rule owner)' },
+  { value: 'bu_head', label: 'BU Head of the service' }
+];
+
+const opportunityStatusOptions = [
+  { value: 'new', label: 'New' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'qualified', label: 'Qualified' },
+  { value: 'proposal', label: 'Proposal' },
+  { value: 'negotiation', label: 'Negotiation' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'on_hold', label: 'On Hold' }
+];
+
+const taskStatusOptions = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' }
+];
+
+const priorityOptions = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' }
+];
+
+const emptyRule: WorkflowRuleInput = {
+  name: '',
+  description: '',
+  trigger_event: 'opportunity_status_changed',
+  conditions: {},
+  action_type: 'create_task',
+  action_config: {
+    task_name: '',
+    due_in_days: 3,
+    assign_to: 'assignee'
+  },
+  is_active: true
+};
+
+const getLabel = (options: { value: string; label: string }[], value?: string) => {
+  return options.find(o => o.value === value)?.label || value || '';
+};
+
+const WorkflowRules: React.FC = () => {
+  const [rules, setRules] = useState<WorkflowRule[]>([]);
+  const [businessUnits, setBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [currentRule, setCurrentRule] = useState<WorkflowRule | null>(null);
+  const [formData, setFormData] = useState<WorkflowRuleInput>(emptyRule);
+
+  // Fetch rules and lookup data on component mount
+  useEffect(() => {
+    fetchRules();
+    fetchLookups();
+  }, []);
+
+  // Fetch workflow rules from API
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const data = await workflowRuleService.getAllRules();
+      setRules(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching workflow rules:', err);
+      setError('Failed to load workflow rules. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch business units and services for the condition pickers
+  const fetchLookups = async () => {
+    try {
+      const [businessUnitData, serviceData] = await Promise.all([
+        businessUnitService.getAllBusinessUnits(),
+        serviceService.getAllServices()
+      ]);
+      setBusinessUnits(Array.isArray(businessUnitData) ? businessUnitData : []);
+      setServices(Array.isArray(serviceData) ? serviceData : []);
+    } catch (err) {
+      console.error('Error fetching workflow rule lookups:', err);
+    }
+  };
+
+  const isTaskTrigger = formData.trigger_event.startsWith('task_');
+  const statusOptions = isTaskTrigger ? taskStatusOptions : opportunityStatusOptions;
+
+  // Open dialog for adding/editing a rule
+  const handleOpenDialog = (rule?: WorkflowRule) => {
+    if (rule) {
+      setCurrentRule(rule);
+      setFormData({
+        name: rule.name,
+        description: rule.description || '',
+        trigger_event: rule.trigger_event,
+        conditions: rule.conditions || {},
+        action_type: rule.action_type,
+        action_config: rule.action_config || {},
+        is_active: rule.is_active
+      });
+    } else {
+      setCurrentRule(null);
+      setFormData(emptyRule);
+    }
+    setDialogError(null);
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setCurrentRule(null);
+    setDialogError(null);
+  };
+
+  // Set or clear a condition; an empty value means "any"
+  const handleConditionChange = (field: string, value: string) => {
+    const conditions: Record<string, any> = { ...formData.conditions };
+    if (value === '') {
+      delete conditions[field];
+    } else {
+      conditions[field] = field === 'service_id' || field === 'business_unit_id' ? Number(value) : value;
+    }
+    setFormData({ ...formData, conditions });
+  };
+
+  const handleConfigChange = (field: string, value: string | number) => {
+    setFormData({
+      ...formData,
+      action_config: { ...formData.action_config, [field]: value }
+    });
+  };
+
+  // Switching trigger type invalidates status conditions
+  const handleTriggerChange = (value: string) => {
+    const { status, previous_status, ...conditions } = formData.conditions;
+    const keepStatus = value.startsWith('task_') === isTaskTrigger;
+    setFormData({
+      ...formData,
+      trigger_event: value,
+      conditions: keepStatus ? { ...conditions, status, previous_status } : conditions
+    });
+  };
+
+  // Switching action starts from that action's defaults
+  const handleActionChange = (value: string) => {
+    setFormData({
+      ...formData,
+      action_type: value,
+      action_config: value === 'create_task'
+        ? { task_name: '', due_in_days: 3, assign_to: 'assignee' }
+        : { recipient: 'rule_owner', title: '', message: '' }
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name) {
+      setDialogError('Please enter a rule name');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      if (currentRule) {
+        const updatedRule = await workflowRuleService.updateRule(currentRule.id, formData);
+        setRules(rules.map(r => r.id === currentRule.id ? { ...r, ...updatedRule } : r));
+      } else {
+        const newRule = await workflowRuleService.createRule(formData);
+        setRules([...rules, newRule]);
+      }
+
+      handleCloseDialog();
+    } catch (err: any) {
+      console.error('Error saving workflow rule:', err);
+      setDialogError(err.response?.data?.message || 'Failed to save workflow rule. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: WorkflowRule) => {
+    try {
+      const updatedRule = await workflowRuleService.updateRule(rule.id, { is_active: !rule.is_active });
+      setRules(rules.map(r => r.id === rule.id ? { ...r, ...updatedRule } : r));
+    } catch (err: any) {
+      console.error('Error updating workflow rule:', err);
+      setError(err.response?.data?.message || 'Failed to update workflow rule. Please try again.');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('Are you sure you want to delete this workflow rule?')) {
+      return;
+    }
+
+    try {
+      await workflowRuleService.deleteRule(id);
+      setRules(rules.filter(r => r.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Error deleting workflow rule:', err);
+      setError('Failed to delete workflow rule. Please try again.');
+    }
+  };
+
+  // Short, readable summaries for the table
+  const describeConditions = (rule: WorkflowRule) => {
+    const conditions = rule.conditions || {};
+    const ruleStatusOptions = rule.trigger_event.startsWith('task_') ? taskStatusOptions : opportunityStatusOptions;
+    const parts: string[] = [];
+    if (conditions.previous_status) parts.push(`from ${getLabel(ruleStatusOptions, conditions.previous_status)}`);
+    if (conditions.status) parts.push(`status ${getLabel(ruleStatusOptions, conditions.status)}`);
+    if (conditions.priority) parts.push(`${getLabel(priorityOptions, conditions.priority)} priority`);
+    if (conditions.business_unit_id) parts.push(businessUnits.find(bu => bu.id === conditions.business_unit_id)?.name || `business unit #${conditions.business_unit_id}`);
+    if (conditions.service_id) parts.push(services.find(s => s.id === conditions.service_id)?.name || `service #${conditions.service_id}`);
+    return parts.length > 0 ? parts.join(', ') : 'Always';
+  };
+
+  const describeAction = (rule: WorkflowRule) => {
+    const config = rule.action_config || {};
+    if (rule.action_type === 'create_task') {
+      return `Create "${config.task_name}" due in ${config.due_in_days} day(s) for ${getLabel(recipientOptions, config.assign_to || 'assignee').toLowerCase()}`;
+    }
+    return `Notify ${getLabel(recipientOptions, config.recipient || 'rule_owner').toLowerCase()}: ${config.title}`;
+  };
+
+  if (loading && rules.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4">Workflow Rules</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => handleOpenDialog()}
+        >
+          Add Rule
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>When</TableCell>
+              <TableCell>If</TableCell>
+              <TableCell>Then</TableCell>
+              <TableCell>Owner</TableCell>
+              <TableCell>Active</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  No workflow rules found. Create your first rule by clicking "Add Rule".
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    {rule.name}
+                    {rule.description && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {rule.description}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{getLabel(triggerOptions, rule.trigger_event)}</TableCell>
+                  <TableCell>{describeConditions(rule)}</TableCell>
+                  <TableCell>{describeAction(rule)}</TableCell>
+                  <TableCell>{rule.created_by_name || '-'}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.is_active}
+                      onChange={() => handleToggleActive(rule)}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <IconButton onClick={() => handleOpenDialog(rule)} size="small">
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton onClick={() => handleDelete(rule.id)} size="small" color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Add/Edit Workflow Rule Dialog */}
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>{currentRule ? 'Edit Workflow Rule' : 'Add Workflow Rule'}</DialogTitle>
+        <DialogContent>
+          <Box component="form" sx={{ mt: 1 }}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Rule Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            />
+            <TextField
+              margin="normal"
+              fullWidth
+              label="Description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle1">When</Typography>
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Trigger</InputLabel>
+              <Select
+                value={formData.trigger_event}
+                label="Trigger"
+                onChange={(e) => handleTriggerChange(e.target.value)}
+              >
+                {triggerOptions.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Typography variant="subtitle1" sx={{ mt: 2 }}>If (leave blank to match any)</Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              {(formData.trigger_event === 'opportunity_status_changed' || formData.trigger_event === 'task_status_changed') && (
+                <FormControl fullWidth margin="normal">
+                  <InputLabel>Previous Status</InputLabel>
+                  <Select
+                    value={formData.conditions.previous_status || ''}
+                    label="Previous Status"
+                    onChange={(e) => handleConditionChange('previous_status', e.target.value)}
+                  >
+                    <MenuItem value=""><em>Any</em></MenuItem>
+                    {statusOptions.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              <FormControl fullWidth margin="normal">
+                <InputLabel>{isTaskTrigger ? 'Task Status' : 'Status'}</InputLabel>
+                <Select
+                  value={formData.conditions.status || ''}
+                  label={isTaskTrigger ? 'Task Status' : 'Status'}
+                  onChange={(e) => handleConditionChange('status', e.target.value)}
+                >
+                  <MenuItem value=""><em>Any</em></MenuItem>
+                  {statusOptions.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth margin="normal">
+                <InputLabel>Opportunity Priority</InputLabel>
+                <Select
+                  value={formData.conditions.priority || ''}
+                  label="Opportunity Priority"
+                  onChange={(e) => handleConditionChange('priority', e.target.value)}
+                >
+                  <MenuItem value=""><em>Any</em></MenuItem>
+                  {priorityOptions.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <FormControl fullWidth margin="normal">
+                <InputLabel>Business Unit</InputLabel>
+                <Select
+                  value={formData.conditions.business_unit_id ? String(formData.conditions.business_unit_id) : ''}
+                  label="Business Unit"
+                  onChange={(e) => handleConditionChange('business_unit_id', e.target.value)}
+                >
+                  <MenuItem value=""><em>Any</em></MenuItem>
+                  {businessUnits.map((bu) => (
+                    <MenuItem key={bu.id} value={String(bu.id)}>
+                      {bu.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth margin="normal">
+                <InputLabel>Service</InputLabel>
+                <Select
+                  value={formData.conditions.service_id ? formData.conditions.service_id.toString() : ''}
+                  label="Service"
+                  onChange={(e) => handleConditionChange('service_id', e.target.value)}
+                >
+                  <MenuItem value=""><em>Any</em></MenuItem>
+                  {services.map((service) => (
+                    <MenuItem key={service.id} value={service.id.toString()}>
+                      {service.name} ({service.business_unit})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle1">Then</Typography>
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Action</InputLabel>
+              <Select
+                value={formData.action_type}
+                label="Action"
+                onChange={(e) => handleActionChange(e.target.value)}
+              >
+                {actionOptions.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            {formData.action_type === 'create_task' ? (
+              <>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  label="Task Name"
+                  value={formData.action_config.task_name || ''}
+                  onChange={(e) => handleConfigChange('task_name', e.target.value)}
+                />
+                <TextField
+                  margin="normal"
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Task Description"
+                  value={formData.action_config.task_description || ''}
+                  onChange={(e) => handleConfigChange('task_description', e.target.value)}
+                />
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <TextField
+                    margin="normal"
+                    required
+                    fullWidth
+                    type="number"
+                    label="Due In (days)"
+                    value={formData.action_config.due_in_days ?? ''}
+                    onChange={(e) => handleConfigChange('due_in_days', Number(e.target.value))}
+                    inputProps={{ min: 0 }}
+                  />
+                  <FormControl fullWidth margin="normal">
+                    <InputLabel>Assign To</InputLabel>
+                    <Select
+                      value={formData.action_config.assign_to || 'assignee'}
+                      label="Assign To"
+                      onChange={(e) => handleConfigChange('assign_to', e.target.value)}
+                    >
+                      {recipientOptions.map((option) => (
+                        <MenuItem key={option.value} value={option.value}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Stack>
+              </>
+            ) : (
+              <>
+                <FormControl fullWidth margin="normal">
+                  <InputLabel>Notify</InputLabel>
+                  <Select
+                    value={formData.action_config.recipient || 'rule_owner'}
+                    label="Notify"
+                    onChange={(e) => handleConfigChange('recipient', e.target.value)}
+                  >
+                    {recipientOptions.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  label="Notification Title"
+                  value={formData.action_config.title || ''}
+                  onChange={(e) => handleConfigChange('title', e.target.value)}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Notification Message"
+                  value={formData.action_config.message || ''}
+                  onChange={(e) => handleConfigChange('message', e.target.value)}
+                />
+              </>
+            )}
+            <Typography variant="caption" color="text.secondary">
+              {'Text can include {{opportunity_name}}, {{client_name}}, {{service_name}}, {{business_unit}}, {{status}}, {{priority}} and {{task_name}}.'}
+            </Typography>
+          </Box>
+          {dialogError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={submitting}
+          >
+            {submitting ? (
+              <CircularProgress size={24} color="inherit" />
+            ) : (
+              currentRule ? 'Update' : 'Add'
+            )}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WorkflowRules;
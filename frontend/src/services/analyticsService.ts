@@ -0,0 +1,134 @@
+import api from './api';
+import { AxiosResponse } from 'axios';
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+// Filters every report takes; dates are YYYY-MM-DD and inclusive
+export interface AnalyticsFilters {
+  from?: string;
+  to?: string;
+  businessUnitIds?: number[];
+}
+
+export type WinRateGroup = 'service' | 'business_unit' | 'user';
+
+export interface PipelineRow {
+  status: string;
+  business_unit_id: number;
+  business_unit: string;
+  count: number;
+  value: number;
+}
+
+export interface WinRateRow {
+  id: number;
+  name: string;
+  won: number;
+  lost: number;
+  win_rate: number | null;
+  won_value: number;
+}
+
+// business_unit_id is null for the overall row
+export interface CycleTimeRow {
+  business_unit_id: number | null;
+  business_unit: string | null;
+  won_count: number;
+  won_avg_days: number | null;
+  lost_count: number;
+  lost_avg_days: number | null;
+  avg_days: number | null;
+}
+
+// Services per client at the end of a month (YYYY-MM)
+export interface PenetrationRow {
+  month: string;
+  clients: number;
+  client_services: number;
+  clients_with_multiple: number;
+  services_per_client: number;
+}
+
+export interface ForecastMonth {
+  month: string;
+  count: number;
+  value: number;
+  weighted_value: number;
+}
+
+export interface ForecastStage {
+  status: string;
+  win_probability: number;
+  count: number;
+  value: number;
+  weighted_value: number;
+}
+
+export interface Forecast {
+  months: ForecastMonth[];
+  stages: ForecastStage[];
+}
+
+/**
+ * Report filters as query params
+ */
+const toAnalyticsParams = (filters: AnalyticsFilters): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (filters.from) params.from = filters.from;
+  if (filters.to) params.to = filters.to;
+  if (filters.businessUnitIds?.length) params.businessUnitId = filters.businessUnitIds.join(',');
+  return params;
+};
+
+const getReport = async <T>(path: string, filters: AnalyticsFilters, extra: Record<string, string> = {}): Promise<T> => {
+  try {
+    const response: AxiosResponse<ApiResponse<T>> = await api.get(`/analytics/${path}`, {
+      params: { ...toAnalyticsParams(filters), ...extra }
+    });
+    return response.data.data;
+  } catch (error) {
+    console.error(`Error fetching ${path} report:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Service for the pipeline analytics API
+ */
+const analyticsService = {
+  /**
+   * Open pipeline value by stage and business unit, for opportunities due in the range
+   */
+  getPipeline: (filters: AnalyticsFilters): Promise<PipelineRow[]> =>
+    getReport('pipeline', filters),
+
+  /**
+   * Win rates by service, business unit or rep, for opportunities closed in the range
+   */
+  getWinRates: (filters: AnalyticsFilters, groupBy: WinRateGroup): Promise<WinRateRow[]> =>
+    getReport('win-rates', filters, { groupBy }),
+
+  /**
+   * Average days to close, overall (first row) and per business unit
+   */
+  getCycleTimes: (filters: AnalyticsFilters): Promise<CycleTimeRow[]> =>
+    getReport('cycle-time', filters),
+
+  /**
+   * Services per client at the end of each month in the range
+   */
+  getPenetration: (filters: AnalyticsFilters): Promise<PenetrationRow[]> =>
+    getReport('penetration', filters),
+
+  /**
+   * Open pipeline by month due, weighted by stage win probability
+   */
+  getForecast: (filters: AnalyticsFilters): Promise<Forecast> =>
+    getReport('forecast', filters)
+};
+
+export default analyticsService;
@@ -13,6 +13,63 @@ const api: AxiosInstance = axios.create({
   withCredentials: true, // Add this for CORS requests with credentials
 });
 
+// Auth endpoints whose 401s mean bad credentials rather than an expired token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/refresh', '/auth/logout', '/auth/forgot-password', '/auth/reset-password'];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/**
+ * Store the tokens from a sign-in or refresh
+ */
+export const storeTokens = (accessToken: string, refreshToken: string): void => {
+  localStorage.setItem('authToken', accessToken);
+  localStorage.setItem('refreshToken', refreshToken);
+};
+
+/**
+ * Forget the signed-in user
+ */
+export const clearTokens = (): void => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('userRole');
+};
+
+// Only one refresh runs at a time; requests that fail meanwhile wait for it
+let refreshRequest: Promise<string> | null = null;
+
+/**
+ * Swap the refresh token for a new access token. Refresh tokens are single
+ * use, so if another tab rotated it first, pick up the tokens it stored.
+ */
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshRequest) {
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    refreshRequest = (async () => {
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      try {
+        const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken }, { withCredentials: true });
+        storeTokens(response.data.token, response.data.refreshToken);
+        return response.data.token as string;
+      } catch (error) {
+        const accessToken = localStorage.getItem('authToken');
+        if (localStorage.getItem('refreshToken') !== refreshToken && accessToken) {
+          return accessToken;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshRequest = null;
+    });
+  }
+
+  return refreshRequest;
+};
+
 // Request interceptor for adding auth token
 api.interceptors.request.use(
   (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
@@ -50,7 +107,7 @@ api.interceptors.response.use(
     });
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
     // Enhanced error logging
     console.error('API Error:', {
       message: error.message,
@@ -66,11 +123,26 @@ api.interceptors.response.use(
       }
     });
     
-    // Handle authentication errors
-    if (error.response?.status === 401) {
+    // Handle authentication errors: the access token has expired or its
+    // session was revoked, so refresh once and retry the request
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+    const isAuthRequest = NO_REFRESH_URLS.some(url => originalRequest?.url?.startsWith(url));
+
+    if (error.response?.status === 401 && originalRequest && !isAuthRequest) {
+      if (!originalRequest._retried) {
+        originalRequest._retried = true;
+
+        try {
+          const accessToken = await refreshAccessToken();
+          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+          return api(originalRequest);
+        } catch (refreshError) {
+          console.error('Session refresh failed:', refreshError);
+        }
+      }
+
       // Clear local storage and redirect to login
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('userRole');
+      clearTokens();
       window.location.href = '/login';
     }
     
@@ -1,5 +1,6 @@
-import api from './api';
+import api, { storeTokens, clearTokens } from './api';
 import { AxiosResponse } from 'axios';
+import { UserPermissions } from '../utils/permissions';
 
 // Define types
 export interface LoginCredentials {
@@ -11,17 +12,66 @@ export interface RegisterData {
   username: string;
   email: string;
   password: string;
-  role?: string;
+}
+
+// What an invite link is for, shown before the invitee picks a password
+export interface InvitationDetails {
+  email: string;
+  role: string;
+  expires_at: string;
+}
+
+export interface AcceptInvitationData {
+  username: string;
+  password: string;
 }
 
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: {
     id: number;
     username: string;
     email: string;
     role: string;
+    permissions?: UserPermissions;
   };
+  // Only when two-factor was set up as part of this sign-in
+  recoveryCodes?: string[];
+}
+
+// Instead of tokens, the password step may ask for a two-factor code, or for
+// two-factor to be set up when the user's role requires it
+export interface TwoFactorChallengeResponse {
+  message: string;
+  challengeToken: string;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
+export type SignInResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// A new authenticator secret, shown as a QR code and as text
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// A signed-in device, as listed on the Profile page
+export interface Session {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
 }
 
 export interface User {
@@ -29,19 +79,32 @@ export interface User {
   username: string;
   email: string;
   role: string;
+  // The access policy for this user; see utils/permissions
+  permissions?: UserPermissions;
+  // Set while the account is locked out after too many failed logins
+  locked_until?: string | null;
+  // Only in the admin user list
+  two_factor_enabled?: boolean;
 }
 
+// Keep the tokens when a sign-in completes rather than asking for a code
+const storeSignIn = (data: SignInResponse) => {
+  if ('token' in data) {
+    storeTokens(data.token, data.refreshToken);
+    localStorage.setItem('userRole', data.user.role);
+  }
+};
+
 const authService = {
   /**
    * Login user and store token
    */
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
+  login: async (credentials: LoginCredentials): Promise<SignInResponse> => {
     try {
-      const response: AxiosResponse<AuthResponse> = await api.post('/auth/login', credentials);
+      const response: AxiosResponse<SignInResponse> = await api.post('/auth/login', credentials);
       
       // Store token and user role in localStorage
-      localStorage.setItem('authToken', response.data.token);
-      localStorage.setItem('userRole', response.data.user.role);
+      storeSignIn(response.data);
       
       return response.data;
     } catch (error) {
@@ -53,13 +116,12 @@ const authService = {
   /**
    * Register new user
    */
-  register: async (userData: RegisterData): Promise<AuthResponse> => {
+  register: async (userData: RegisterData): Promise<SignInResponse> => {
     try {
-      const response: AxiosResponse<AuthResponse> = await api.post('/auth/register', userData);
+      const response: AxiosResponse<SignInResponse> = await api.post('/auth/register', userData);
       
       // Store token and user role in localStorage if auto-login after registration
-      localStorage.setItem('authToken', response.data.token);
-      localStorage.setItem('userRole', response.data.user.role);
+      storeSignIn(response.data);
       
       return response.data;
     } catch (error) {
@@ -68,6 +130,91 @@ const authService = {
     }
   },
 
+  /**
+   * Get the invitation an invite link points to
+   */
+  getInvitation: async (token: string): Promise<InvitationDetails> => {
+    try {
+      const response: AxiosResponse<InvitationDetails> = await api.get(`/auth/invitations/${token}`);
+      return response.data;
+    } catch (error) {
+      console.error('Get invitation error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Accept an invitation, creating the account, and store the token
+   */
+  acceptInvitation: async (token: string, data: AcceptInvitationData): Promise<SignInResponse> => {
+    try {
+      const response: AxiosResponse<SignInResponse> = await api.post(`/auth/invitations/${token}/accept`, data);
+      
+      storeSignIn(response.data);
+      
+      return response.data;
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Second login step: send the code for a challenge and store the tokens.
+   * For a setup challenge this turns two-factor on and returns recovery codes.
+   */
+  verifyTwoFactorLogin: async (challengeToken: string, code: string): Promise<AuthResponse> => {
+    try {
+      const response: AxiosResponse<AuthResponse> = await api.post('/auth/login/2fa', { challengeToken, code });
+      
+      storeSignIn(response.data);
+      
+      return response.data;
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a new authenticator secret during a login that requires setup
+   */
+  beginTwoFactorLoginSetup: async (challengeToken: string): Promise<TwoFactorSetup> => {
+    try {
+      const response: AxiosResponse<TwoFactorSetup> = await api.post('/auth/login/2fa/setup', { challengeToken });
+      return response.data;
+    } catch (error) {
+      console.error('Two-factor login setup error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Ask for a password reset link to be emailed; succeeds whether or not
+   * the address has an account
+   */
+  forgotPassword: async (email: string): Promise<string> => {
+    try {
+      const response: AxiosResponse<{ message: string }> = await api.post('/auth/forgot-password', { email });
+      return response.data.message;
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Set a new password using the token from a reset email
+   */
+  resetPassword: async (token: string, newPassword: string): Promise<void> => {
+    try {
+      await api.post('/auth/reset-password', { token, newPassword });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get current user information
    */
@@ -82,15 +229,126 @@ const authService = {
   },
 
   /**
-   * Logout user
+   * Logout user, ending this session on the server too
    */
-  logout: (): void => {
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('userRole');
+  logout: async (): Promise<void> => {
+    try {
+      if (localStorage.getItem('authToken')) {
+        await api.post('/auth/logout');
+      }
+    } catch (error) {
+      // The local session is cleared regardless
+      console.error('Logout error:', error);
+    }
+    clearTokens();
     // Redirect to login page
     window.location.href = '/login';
   },
 
+  /**
+   * Log out of every device, this one included
+   */
+  logoutAll: async (): Promise<void> => {
+    try {
+      await api.post('/auth/logout-all');
+    } catch (error) {
+      console.error('Logout all error:', error);
+      throw error;
+    }
+    clearTokens();
+    window.location.href = '/login';
+  },
+
+  /**
+   * Get the current user's signed-in devices
+   */
+  getSessions: async (): Promise<Session[]> => {
+    try {
+      const response: AxiosResponse<Session[]> = await api.get('/auth/sessions');
+      return response.data;
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Sign one of the current user's devices out
+   */
+  revokeSession: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/auth/sessions/${id}`);
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the current user's two-factor status
+   */
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    try {
+      const response: AxiosResponse<TwoFactorStatus> = await api.get('/auth/2fa');
+      return response.data;
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Start two-factor enrollment; it takes effect once a code is confirmed
+   */
+  beginTwoFactorSetup: async (): Promise<TwoFactorSetup> => {
+    try {
+      const response: AxiosResponse<TwoFactorSetup> = await api.post('/auth/2fa/setup');
+      return response.data;
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Confirm a code from the new secret, turning two-factor on. Returns the
+   * recovery codes.
+   */
+  enableTwoFactor: async (code: string): Promise<string[]> => {
+    try {
+      const response: AxiosResponse<{ recoveryCodes: string[] }> = await api.post('/auth/2fa/enable', { code });
+      return response.data.recoveryCodes;
+    } catch (error) {
+      console.error('Enable two-factor error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Turn two-factor off
+   */
+  disableTwoFactor: async (password: string): Promise<void> => {
+    try {
+      await api.post('/auth/2fa/disable', { password });
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the recovery codes, invalidating the old ones
+   */
+  regenerateRecoveryCodes: async (password: string): Promise<string[]> => {
+    try {
+      const response: AxiosResponse<{ recoveryCodes: string[] }> = await api.post('/auth/2fa/recovery-codes', { password });
+      return response.data.recoveryCodes;
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Check if user is authenticated
    */
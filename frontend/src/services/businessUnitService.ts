@@ -15,7 +15,7 @@ export interface BusinessUnitInput {
   name: string;
   description?: string;
   status: string;
-  owner_id?: number;
+  owner_id?: number | null;
 }
 
 // Interface for standardized API responses
@@ -133,11 +133,14 @@ const businessUnitService = {
   },
 
   /**
-   * Delete a business unit
+   * Delete a business unit, optionally moving its services to another unit
+   * first (required while any services use it)
    */
-  deleteBusinessUnit: async (id: number): Promise<void> => {
+  deleteBusinessUnit: async (id: number, reassignTo?: number): Promise<void> => {
     try {
-      await api.delete(`/admin/business-units/${id}`);
+      await api.delete(`/admin/business-units/${id}`, {
+        params: reassignTo !== undefined ? { reassignTo } : undefined
+      });
     } catch (error) {
       console.error(`Error deleting business unit with ID ${id}:`, error);
       throw error;
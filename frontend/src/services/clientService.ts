@@ -1,9 +1,12 @@
 import api from './api';
+import { ListParams, Paginated, toQueryParams } from '../utils/listQuery';
 
 // Define types
 export interface Client {
   id: number;
   name: string;
+  industry_id: number;
+  // Name of the industry, for display
   industry: string;
   contact_name: string;
   contact_email: string;
@@ -18,9 +21,14 @@ export interface Client {
   updated_at: string;
 }
 
+// Client row from the paginated list, with the account owner's name joined in
+export interface ClientListItem extends Client {
+  account_owner_name: string;
+}
+
 export interface ClientInput {
   name: string;
-  industry: string;
+  industry_id: number;
   contact_name: string;
   contact_email: string;
   contact_phone: string;
@@ -32,6 +40,168 @@ export interface ClientInput {
   status: string;
 }
 
+export interface ClientContact {
+  id: number;
+  client_id: number;
+  name: string;
+  job_title?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  is_primary: boolean;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientContactInput {
+  name: string;
+  job_title?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  is_primary?: boolean;
+  notes?: string;
+}
+
+export interface SuggestedContact {
+  client_role: string;
+  contact: ClientContact | null;
+}
+
+export type BillingFrequency = 'one_off' | 'monthly' | 'quarterly' | 'annual';
+
+// A service the client has bought, with the revenue worked out from its terms
+export interface ClientEngagement {
+  id: number;
+  client_id: number;
+  service_id: number;
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  opportunity_id: number | null;
+  opportunity_name: string | null;
+  // Billed each period; the whole amount for one-off work
+  contract_value: number;
+  billing_frequency: BillingFrequency;
+  start_date: string;
+  end_date: string | null;
+  renewal_date: string | null;
+  notes: string | null;
+  status: 'upcoming' | 'active' | 'ended';
+  // The opportunity raised to renew this engagement, if any
+  renewal_opportunity_id: number | null;
+  renewal_opportunity_status: string | null;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+export interface ClientEngagementInput {
+  service_id?: number;
+  contract_value: number;
+  billing_frequency: BillingFrequency;
+  start_date: string;
+  end_date?: string | null;
+  renewal_date?: string | null;
+  notes?: string | null;
+}
+
+export interface BusinessUnitRevenue {
+  business_unit_id: number;
+  business_unit: string;
+  engagements: number;
+  active_engagements: number;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+export interface ClientRevenue {
+  business_units: BusinessUnitRevenue[];
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+// Why a client stopped using a service; not_recorded is set when a service
+// is dropped from the client's services without a reason
+export type ChurnReason =
+  | 'price'
+  | 'budget_cut'
+  | 'switched_provider'
+  | 'brought_in_house'
+  | 'no_longer_needed'
+  | 'dissatisfied'
+  | 'other'
+  | 'not_recorded';
+
+// Display names for churn reasons
+export const churnReasonLabels: Record<ChurnReason, string> = {
+  price: 'Price',
+  budget_cut: 'Budget cut',
+  switched_provider: 'Switched provider',
+  brought_in_house: 'Brought in-house',
+  no_longer_needed: 'No longer needed',
+  dissatisfied: 'Dissatisfied',
+  other: 'Other',
+  not_recorded: 'Not recorded'
+};
+
+export interface ClientChurn {
+  id: number;
+  client_id: number;
+  service_id: number;
+  service_name: string;
+  business_unit: string;
+  reason: ChurnReason;
+  notes: string | null;
+  churned_on: string;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface ChurnInput {
+  reason: ChurnReason;
+  notes?: string;
+  // Defaults to today
+  churned_on?: string;
+}
+
+// Why two clients look alike
+export type ClientMatchReason = 'same_name' | 'similar_name' | 'email_domain' | 'phone';
+
+// A client that looks like a duplicate of another
+export interface ClientDuplicate {
+  id: number;
+  name: string;
+  industry: string;
+  status: string;
+  contact_email: string;
+  contact_phone: string;
+  // 0 to 1
+  score: number;
+  reasons: ClientMatchReason[];
+}
+
+export interface ClientDuplicatePair {
+  client: ClientDuplicate;
+  duplicate: ClientDuplicate;
+  score: number;
+  reasons: ClientMatchReason[];
+}
+
+// Audit record of a client merged into another
+export interface ClientMerge {
+  id: number;
+  surviving_client_id: number;
+  merged_client_id: number;
+  merged_by: number | null;
+  merged_by_name?: string | null;
+  merged_client: Client;
+  opportunity_ids: number[];
+  contact_ids: number[];
+  added_service_ids: number[];
+  created_at: string;
+}
+
 export interface AccountOwner {
   id: number;
   username: string;
@@ -53,6 +223,22 @@ const clientService = {
     }
   },
 
+  /**
+   * Get one page of clients, sorted, filtered and searched server-side
+   */
+  getClientsPage: async (params: ListParams): Promise<Paginated<ClientListItem>> => {
+    try {
+      const response = await api.get('/clients', { params: toQueryParams(params) });
+      return {
+        data: response.data.data || [],
+        pagination: response.data.pagination
+      };
+    } catch (error) {
+      console.error('Error fetching clients page:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get client by ID
    */
@@ -70,13 +256,13 @@ const clientService = {
   /**
    * Get clients by industry
    */
-  getClientsByIndustry: async (industry: string): Promise<Client[]> => {
+  getClientsByIndustry: async (industryId: number): Promise<Client[]> => {
     try {
-      const response = await api.get(`/clients/industry/${industry}`);
+      const response = await api.get(`/clients/industry/${industryId}`);
       // Extract clients array from the response data structure
       return response.data.data || [];
     } catch (error) {
-      console.error(`Error fetching clients for industry ${industry}:`, error);
+      console.error(`Error fetching clients for industry ${industryId}:`, error);
       throw error;
     }
   },
@@ -96,11 +282,14 @@ const clientService = {
   },
 
   /**
-   * Create new client
+   * Create new client. The server refuses clients that look like existing
+   * ones (409 with the duplicates) unless allowDuplicates is set.
    */
-  createClient: async (clientData: ClientInput): Promise<Client> => {
+  createClient: async (clientData: ClientInput, options: { allowDuplicates?: boolean } = {}): Promise<Client> => {
     try {
-      const response = await api.post('/clients', clientData);
+      const response = await api.post('/clients', clientData, {
+        params: options.allowDuplicates ? { allowDuplicates: true } : undefined
+      });
       // Extract client data from the response data structure
       return response.data.data;
     } catch (error) {
@@ -172,13 +361,12 @@ const clientService = {
   },
 
   /**
-   * Remove service from client
+   * Remove service from client, recording why it churned
    */
-  removeServiceFromClient: async (clientId: number, serviceId: number): Promise<Client> => {
+  removeServiceFromClient: async (clientId: number, serviceId: number, churn: ChurnInput): Promise<Client> => {
     try {
-      const response = await api.delete(`/clients/${clientId}/services/${serviceId}`);
-      // Extract client data from the response data structure
-      return response.data.data;
+      const response = await api.delete(`/clients/${clientId}/services/${serviceId}`, { data: churn });
+      return response.data.data.client;
     } catch (error) {
       console.error(`Error removing service ${serviceId} from client ${clientId}:`, error);
       throw error;
@@ -197,6 +385,206 @@ const clientService = {
       console.error(`Error fetching services for client ${clientId}:`, error);
       throw error;
     }
+  },
+
+  /**
+   * Get the clients that look like duplicates of a client
+   */
+  getClientDuplicates: async (clientId: number): Promise<ClientDuplicate[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/duplicates`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`Error fetching duplicates of client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get every pair of clients that look like duplicates (admins only)
+   */
+  getDuplicatePairs: async (): Promise<ClientDuplicatePair[]> => {
+    try {
+      const response = await api.get('/clients/duplicates/pairs');
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching duplicate clients:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Merge a duplicate client into the one kept (admins only)
+   */
+  mergeClients: async (keepId: number, duplicateId: number): Promise<{ client: Client; merge: ClientMerge }> => {
+    try {
+      const response = await api.post(`/clients/${keepId}/merge`, { duplicate_id: duplicateId });
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error merging client ${duplicateId} into ${keepId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the merge history of a client (admins only)
+   */
+  getClientMerges: async (clientId: number): Promise<ClientMerge[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/merges`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`Error fetching merges of client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get contacts for a client
+   */
+  getClientContacts: async (clientId: number): Promise<ClientContact[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/contacts`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`Error fetching contacts for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the client contact whose role matches a service's ideal client role
+   */
+  getSuggestedContact: async (clientId: number, serviceId: number): Promise<SuggestedContact> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/contacts/suggested`, { params: { serviceId } });
+      return {
+        client_role: response.data.client_role,
+        contact: response.data.data || null
+      };
+    } catch (error) {
+      console.error(`Error fetching suggested contact for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add a contact to a client
+   */
+  createClientContact: async (clientId: number, contactData: ClientContactInput): Promise<ClientContact> => {
+    try {
+      const response = await api.post(`/clients/${clientId}/contacts`, contactData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error adding contact to client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a client contact
+   */
+  updateClientContact: async (clientId: number, contactId: number, contactData: Partial<ClientContactInput>): Promise<ClientContact> => {
+    try {
+      const response = await api.put(`/clients/${clientId}/contacts/${contactId}`, contactData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating contact ${contactId} for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a client contact
+   */
+  deleteClientContact: async (clientId: number, contactId: number): Promise<void> => {
+    try {
+      await api.delete(`/clients/${clientId}/contacts/${contactId}`);
+    } catch (error) {
+      console.error(`Error deleting contact ${contactId} for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the service engagements recorded for a client
+   */
+  getClientEngagements: async (clientId: number): Promise<ClientEngagement[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/engagements`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`Error fetching engagements for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a client's lifetime and annual recurring revenue per business unit
+   */
+  getClientRevenue: async (clientId: number): Promise<ClientRevenue> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/revenue`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching revenue for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the services a client stopped using, latest first
+   */
+  getClientChurn: async (clientId: number): Promise<ClientChurn[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/churn`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`Error fetching churn for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record a service engagement for a client
+   */
+  createClientEngagement: async (clientId: number, engagementData: ClientEngagementInput): Promise<ClientEngagement> => {
+    try {
+      const response = await api.post(`/clients/${clientId}/engagements`, engagementData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error adding engagement to client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update an engagement's terms
+   */
+  updateClientEngagement: async (
+    clientId: number,
+    engagementId: number,
+    engagementData: Partial<ClientEngagementInput>
+  ): Promise<ClientEngagement> => {
+    try {
+      const response = await api.put(`/clients/${clientId}/engagements/${engagementId}`, engagementData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating engagement ${engagementId} for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a service engagement
+   */
+  deleteClientEngagement: async (clientId: number, engagementId: number): Promise<void> => {
+    try {
+      await api.delete(`/clients/${clientId}/engagements/${engagementId}`);
+    } catch (error) {
+      console.error(`Error deleting engagement ${engagementId} for client ${clientId}:`, error);
+      throw error;
+    }
   }
 };
 
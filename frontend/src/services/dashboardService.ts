@@ -0,0 +1,191 @@
+import api from './api';
+import { AxiosResponse } from 'axios';
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+export type DashboardCardId =
+  | 'my_pipeline'
+  | 'my_tasks'
+  | 'white_space'
+  | 'bu_pipeline'
+  | 'top_reps'
+  | 'overdue_escalations'
+  | 'org_totals'
+  | 'trends';
+
+export interface StageTotal {
+  status: string;
+  count: number;
+  value: number;
+}
+
+export interface MyPipeline {
+  stages: StageTotal[];
+  count: number;
+  value: number;
+  weighted_value: number;
+  closing_soon: Array<{
+    id: number;
+    name: string;
+    client_name: string;
+    status: string;
+    estimated_value: number;
+    due_date: string;
+  }>;
+}
+
+export interface DueTask {
+  id: number;
+  name: string;
+  status: string;
+  due_date: string;
+  opportunity_id: number;
+  opportunity_name: string;
+  client_name: string;
+  overdue: boolean;
+}
+
+export interface TasksDue {
+  total: number;
+  overdue: number;
+  tasks: DueTask[];
+}
+
+export interface WhiteSpace {
+  total: number;
+  clients: number;
+  suggestions: Array<{
+    client_id: number;
+    client_name: string;
+    service_id: number;
+    service_name: string;
+    business_unit: string;
+    clients_using: number;
+  }>;
+}
+
+export interface BusinessUnitPipeline {
+  business_unit_id: number;
+  business_unit: string;
+  count: number;
+  value: number;
+  weighted_value: number;
+  stages: StageTotal[];
+}
+
+export interface TopRep {
+  user_id: number;
+  username: string;
+  won_count: number;
+  won_value: number;
+  open_count: number;
+}
+
+export interface OverdueEscalations {
+  total: number;
+  escalated: number;
+  tasks: Array<DueTask & {
+    assigned_user_name: string;
+    business_unit: string;
+    days_overdue: number;
+  }>;
+}
+
+export interface OrgTotals {
+  clients: { total: number; active: number; new_this_month: number };
+  services: { total: number; active: number };
+  opportunities: { open: number; open_value: number; won_this_quarter: number; won_value_this_quarter: number };
+  tasks: { open: number; overdue: number };
+}
+
+export interface TrendMonth {
+  month: string;
+  new_clients: number;
+  new_opportunities: number;
+  won_count: number;
+  won_value: number;
+}
+
+// Each card's data, by card ID
+export interface DashboardCardData {
+  my_pipeline: MyPipeline;
+  my_tasks: TasksDue;
+  white_space: WhiteSpace;
+  bu_pipeline: BusinessUnitPipeline[];
+  top_reps: TopRep[];
+  overdue_escalations: OverdueEscalations;
+  org_totals: OrgTotals;
+  trends: TrendMonth[];
+}
+
+export interface DashboardCard {
+  id: DashboardCardId;
+  title: string;
+  data: DashboardCardData[DashboardCardId] | null;
+  // Set instead of data when the card couldn't be loaded
+  error?: string;
+}
+
+export interface DashboardCardInfo {
+  id: DashboardCardId;
+  title: string;
+  description: string;
+}
+
+export interface Dashboard {
+  layout: DashboardCardId[];
+  // Whether the user has changed their role's default cards
+  customized: boolean;
+  available: DashboardCardInfo[];
+  cards: DashboardCard[];
+}
+
+/**
+ * Service for the role-specific dashboard
+ */
+const dashboardService = {
+  /**
+   * Get the current user's dashboard cards with their data
+   */
+  getDashboard: async (): Promise<Dashboard> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Dashboard>> = await api.get('/dashboard');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching dashboard:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Choose and order the dashboard cards; returns the dashboard as saved
+   */
+  saveLayout: async (cards: DashboardCardId[]): Promise<Dashboard> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Dashboard>> = await api.put('/dashboard/layout', { cards });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error saving dashboard layout:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Go back to the default cards for the user's role
+   */
+  resetLayout: async (): Promise<Dashboard> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Dashboard>> = await api.delete('/dashboard/layout');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error resetting dashboard layout:', error);
+      throw error;
+    }
+  }
+};
+
+export default dashboardService;
@@ -0,0 +1,178 @@
+import api from './api';
+import axios, { AxiosResponse } from 'axios';
+import { ListParams, toQueryParams } from '../utils/listQuery';
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+export type ExportEntity = 'clients' | 'services' | 'opportunities' | 'tasks' | 'matrix';
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Filter params as the export endpoint takes them
+export type ExportParams = Record<string, string | number>;
+
+export interface ScheduledExport {
+  id: number;
+  name: string;
+  entity: ExportEntity;
+  format: ExportFormat;
+  query: Record<string, string>;
+  // 0 (Sunday) to 6 (Saturday), and hour of day in server time
+  day_of_week: number;
+  hour: number;
+  is_active: boolean;
+  next_run_at: string;
+  last_sent_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface ScheduledExportInput {
+  name: string;
+  entity: ExportEntity;
+  format: ExportFormat;
+  query: Record<string, string>;
+  day_of_week: number;
+  hour: number;
+}
+
+// Large exports take a while to build
+const EXPORT_TIMEOUT_MS = 120000;
+
+/**
+ * The filters, search and sort of a list view, without its paging
+ */
+export const toExportParams = (params: ListParams): ExportParams =>
+  Object.fromEntries(
+    Object.entries(toQueryParams(params)).filter(([key]) => key !== 'page' && key !== 'pageSize')
+  );
+
+/**
+ * Export params as a schedule saves them: strings only, empty ones left out
+ */
+export const toSavedQuery = (params: ExportParams): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+
+const filenameFromHeader = (header: string | undefined): string | null => {
+  const match = header ? /filename="?([^";]+)"?/.exec(header) : null;
+  return match ? match[1] : null;
+};
+
+const saveBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Service for the export API
+ */
+const exportService = {
+  /**
+   * Download every record matching the filters as CSV or XLSX. Errors come
+   * back as a blob, so their JSON is read into response.data before
+   * rethrowing.
+   */
+  downloadExport: async (entity: ExportEntity, format: ExportFormat, params: ExportParams): Promise<void> => {
+    try {
+      const response: AxiosResponse<Blob> = await api.get(`/export/${entity}`, {
+        params: { ...params, format },
+        responseType: 'blob',
+        timeout: EXPORT_TIMEOUT_MS
+      });
+      const filename = filenameFromHeader(response.headers['content-disposition']) || `${entity}_export.${format}`;
+      saveBlob(response.data, filename);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+        try {
+          error.response.data = JSON.parse(await error.response.data.text());
+        } catch {
+          // Not JSON; keep the blob
+        }
+      }
+      console.error(`Error exporting ${entity}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the current user's scheduled exports
+   */
+  getSchedules: async (): Promise<ScheduledExport[]> => {
+    try {
+      const response: AxiosResponse<ApiResponse<ScheduledExport[]>> = await api.get('/export/schedules');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching scheduled exports:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Email an export to the current user every week
+   */
+  createSchedule: async (data: ScheduledExportInput): Promise<ScheduledExport> => {
+    try {
+      const response: AxiosResponse<ApiResponse<ScheduledExport>> = await api.post('/export/schedules', data);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error creating scheduled export:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Change, pause or resume a scheduled export
+   */
+  updateSchedule: async (
+    id: number,
+    data: Partial<Omit<ScheduledExportInput, 'entity'>> & { is_active?: boolean }
+  ): Promise<ScheduledExport> => {
+    try {
+      const response: AxiosResponse<ApiResponse<ScheduledExport>> = await api.put(`/export/schedules/${id}`, data);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error updating scheduled export:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Email a scheduled export now
+   */
+  sendSchedule: async (id: number): Promise<void> => {
+    try {
+      await api.post(`/export/schedules/${id}/send`, undefined, { timeout: EXPORT_TIMEOUT_MS });
+    } catch (error) {
+      console.error('Error sending scheduled export:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Stop and delete a scheduled export
+   */
+  deleteSchedule: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/export/schedules/${id}`);
+    } catch (error) {
+      console.error('Error deleting scheduled export:', error);
+      throw error;
+    }
+  }
+};
+
+export default exportService;
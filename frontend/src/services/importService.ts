@@ -0,0 +1,124 @@
+import api from './api';
+import axios, { AxiosResponse } from 'axios';
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+export type ImportEntity = 'clients' | 'services' | 'opportunities' | 'tasks';
+
+// What happens to rows matching an existing record
+export type ImportMode = 'insert' | 'upsert' | 'skip';
+
+// File column header -> field, with '' for columns left out
+export type ColumnMapping = Record<string, string>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRowError {
+  // 1-based, counting the header as row 1
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  entity: ImportEntity;
+  mode: ImportMode;
+  dry_run: boolean;
+  committed: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  rows: { row: number; action: 'create' | 'update' | 'skip' | 'error'; id?: number }[];
+  errors: ImportRowError[];
+}
+
+// Large files take a while to check row by row
+const IMPORT_TIMEOUT_MS = 120000;
+
+const fileContentType = (file: Blob): string =>
+  file.type || 'application/octet-stream';
+
+/**
+ * Service for the bulk import API
+ */
+const importService = {
+  /**
+   * Read a CSV or XLSX file into its headers and rows without importing it
+   */
+  parseFile: async (file: File): Promise<ParsedImportFile> => {
+    try {
+      const response: AxiosResponse<ApiResponse<ParsedImportFile>> = await api.post('/import/parse', file, {
+        headers: { 'Content-Type': fileContentType(file) },
+        timeout: IMPORT_TIMEOUT_MS
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Import a CSV file. Clients that look like existing ones fail their row
+   * unless allowDuplicates is set. Returns the per-row outcome; when any row fails the
+   * server saves nothing and answers 422, which is returned here as a
+   * result rather than thrown.
+   */
+  importFile: async (
+    entity: ImportEntity,
+    file: Blob,
+    options: { mode: ImportMode; dryRun: boolean; allowDuplicates?: boolean }
+  ): Promise<ImportResult> => {
+    try {
+      const response: AxiosResponse<ApiResponse<ImportResult>> = await api.post(`/import/${entity}`, file, {
+        headers: { 'Content-Type': fileContentType(file) },
+        params: { mode: options.mode, dryRun: options.dryRun, allowDuplicates: options.allowDuplicates || undefined },
+        timeout: IMPORT_TIMEOUT_MS
+      });
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 422 && error.response.data?.data) {
+        return error.response.data.data;
+      }
+      console.error(`Error importing ${entity}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the column mapping the current user last used for an entity
+   */
+  getMapping: async (entity: ImportEntity): Promise<ColumnMapping> => {
+    try {
+      const response: AxiosResponse<ApiResponse<{ mapping: ColumnMapping }>> = await api.get(`/import/${entity}/mapping`);
+      return response.data.data.mapping;
+    } catch (error) {
+      console.error('Error fetching import column mapping:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remember the current user's column mapping for an entity
+   */
+  saveMapping: async (entity: ImportEntity, mapping: ColumnMapping): Promise<ColumnMapping> => {
+    try {
+      const response: AxiosResponse<ApiResponse<{ mapping: ColumnMapping }>> = await api.put(`/import/${entity}/mapping`, { mapping });
+      return response.data.data.mapping;
+    } catch (error) {
+      console.error('Error saving import column mapping:', error);
+      throw error;
+    }
+  }
+};
+
+export default importService;
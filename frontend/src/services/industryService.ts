@@ -158,9 +158,11 @@ const industryService = {
   /**
    * Delete industry
    */
-  deleteIndustry: async (id: number): Promise<void> => {
+  deleteIndustry: async (id: number, reassignTo?: number): Promise<void> => {
     try {
-      await api.delete(`/admin/industries/${id}`);
+      await api.delete(`/admin/industries/${id}`, {
+        params: reassignTo !== undefined ? { reassignTo } : undefined
+      });
     } catch (error) {
       console.error(`Error deleting industry with ID ${id}:`, error);
       throw error;
@@ -0,0 +1,87 @@
+import api from './api';
+import { AxiosResponse } from 'axios';
+
+/**
+ * Invitation data interface
+ */
+export interface Invitation {
+  id: number;
+  email: string;
+  role: string;
+  invited_by: number | null;
+  invited_by_name?: string | null;
+  expires_at: string;
+  created_at: string;
+  // Only returned when an invitation is created or resent
+  invite_url?: string;
+  email_sent?: boolean;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+/**
+ * Service for the admin invitation API
+ */
+const invitationService = {
+  /**
+   * Get invitations that haven't been accepted or revoked
+   */
+  getOpenInvitations: async (): Promise<Invitation[]> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Invitation[]>> = await api.get('/admin/invitations');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Invite a user by email with a role
+   */
+  createInvitation: async (invitationData: InvitationInput): Promise<Invitation> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Invitation>> = await api.post('/admin/invitations', invitationData);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Send an invitation again with a new link
+   */
+  resendInvitation: async (id: number): Promise<Invitation> => {
+    try {
+      const response: AxiosResponse<ApiResponse<Invitation>> = await api.post(`/admin/invitations/${id}/resend`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error resending invitation with ID ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Revoke an invitation
+   */
+  revokeInvitation: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/admin/invitations/${id}`);
+    } catch (error) {
+      console.error(`Error revoking invitation with ID ${id}:`, error);
+      throw error;
+    }
+  }
+};
+
+export default invitationService;
@@ -1,4 +1,6 @@
 import api from './api';
+import { ListParams, Paginated, toQueryParams } from '../utils/listQuery';
+import { ChurnReason } from './clientService';
 
 // Define types
 export interface Opportunity {
@@ -12,10 +14,22 @@ export interface Opportunity {
   estimated_value: number;
   due_date: string;
   notes?: string;
+  loss_reason?: string;
+  won_date?: string;
+  final_value?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Opportunity row from the paginated list, with display names joined in
+export interface OpportunityListItem extends Opportunity {
+  client_name: string;
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  assigned_user_name: string;
+}
+
 export interface OpportunityInput {
   name: string;
   client_id: number;
@@ -26,12 +40,130 @@ export interface OpportunityInput {
   estimated_value: number;
   due_date: string;
   notes?: string;
+  loss_reason?: string;
+  won_date?: string;
+  final_value?: number;
+  status_reason?: string;
+}
+
+export interface OpportunityStatusHistory {
+  id: number;
+  opportunity_id: number;
+  old_status: string | null;
+  new_status: string;
+  changed_by: number | null;
+  changed_by_name: string | null;
+  reason?: string;
+  changed_at: string;
+  left_at: string | null;
+  duration_seconds: number;
+}
+
+export interface MatrixCellOpportunity {
+  id: number;
+  name: string;
+  status: string;
+  estimated_value: number;
+  due_date: string;
+  assigned_user_id: number;
+  assigned_user_name: string | null;
+  updated_at: string;
+}
+
+export interface MatrixCellRevenue {
+  active_engagements: number;
+  lifetime_revenue: number;
+  annual_recurring_revenue: number;
+}
+
+// The latest time the client stopped using the service
+export interface MatrixCellChurn {
+  reason: ChurnReason;
+  churned_on: string;
+}
+
+// A client × service cell, summarised over all of its opportunities
+export interface MatrixCell {
+  // Most advanced open stage, else 'active' when the client has the service,
+  // else 'churned' when it stopped using it, else 'lost'
+  status: string;
+  active_service: boolean;
+  open_stage: string | null;
+  won_count: number;
+  lost_count: number;
+  opportunity_id: number | null;
+  opportunity_name: string | null;
+  // Latest first
+  opportunities: MatrixCellOpportunity[];
+  // From the client's engagements for the service, if it has any
+  revenue: MatrixCellRevenue | null;
+  // Set when the client has stopped using the service before
+  churn: MatrixCellChurn | null;
 }
 
+// One window of the matrix; empty cells are left out of `matrix`
 export interface MatrixData {
-  clients: Array<{ id: number; name: string }>;
-  services: Array<{ id: number; name: string; business_unit: string }>;
-  matrix: Record<string, Record<string, { status: string | null; opportunity_id: number | null }>>;
+  clients: Array<{ id: number; name: string; industry_id: number; industry?: string }>;
+  services: Array<{ id: number; name: string; business_unit_id: number; business_unit: string }>;
+  matrix: Record<string, Record<string, MatrixCell>>;
+  total_clients: number;
+  total_services: number;
+  row_offset: number;
+  column_offset: number;
+}
+
+export interface MatrixFilters {
+  businessUnitIds?: number[];
+  industryIds?: number[];
+  statuses?: string[];
+  assignedUserId?: number;
+  accountOwnerId?: number;
+  clientSearch?: string;
+  serviceSearch?: string;
+  cellType?: 'existing' | 'potential' | 'churned';
+}
+
+/**
+ * Turn matrix filters into query params, skipping empty ones; the export
+ * endpoint takes the same params
+ */
+export const toMatrixParams = (filters: MatrixFilters): Record<string, string | number> => {
+  const params: Record<string, string | number> = {};
+  if (filters.businessUnitIds?.length) params.businessUnitId = filters.businessUnitIds.join(',');
+  if (filters.industryIds?.length) params.industryId = filters.industryIds.join(',');
+  if (filters.statuses?.length) params.status = filters.statuses.join(',');
+  if (filters.assignedUserId) params.assignedUserId = filters.assignedUserId;
+  if (filters.accountOwnerId) params.accountOwnerId = filters.accountOwnerId;
+  if (filters.clientSearch) params.clientSearch = filters.clientSearch;
+  if (filters.serviceSearch) params.serviceSearch = filters.serviceSearch;
+  if (filters.cellType) params.cellType = filters.cellType;
+  return params;
+};
+
+export interface MatrixWindowRange {
+  rowOffset: number;
+  rowLimit: number;
+  columnOffset: number;
+  columnLimit: number;
+}
+
+export interface RecommendationFactors {
+  industry_fit: number;
+  similar_clients: number;
+  win_rate: number;
+  client_spend: number;
+}
+
+export interface Recommendation {
+  client_id: number;
+  client_name: string;
+  service_id: number;
+  service_name: string;
+  business_unit_id: number;
+  business_unit: string;
+  score: number;
+  factors: RecommendationFactors;
+  reasons: string[];
 }
 
 // Helper function to handle different response formats
@@ -74,6 +206,19 @@ const opportunityService = {
     }
   },
 
+  /**
+   * Get one page of opportunities, sorted, filtered and searched server-side
+   */
+  getOpportunitiesPage: async (params: ListParams): Promise<Paginated<OpportunityListItem>> => {
+    try {
+      const response = await api.get('/opportunities', { params: toQueryParams(params) });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching opportunities page:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get opportunity by ID
    */
@@ -87,6 +232,19 @@ const opportunityService = {
     }
   },
 
+  /**
+   * Get status history for an opportunity
+   */
+  getOpportunityHistory: async (id: number): Promise<OpportunityStatusHistory[]> => {
+    try {
+      const response = await api.get(`/opportunities/${id}/history`);
+      return extractData(response);
+    } catch (error) {
+      console.error(`Error fetching history for opportunity ${id}:`, error);
+      throw error;
+    }
+  },
+
   /**
    * Get opportunities by client
    */
@@ -199,11 +357,15 @@ const opportunityService = {
   },
 
   /**
-   * Change opportunity status
+   * Change opportunity status, sending any fields the new stage requires
    */
-  changeOpportunityStatus: async (id: number, status: string): Promise<Opportunity> => {
+  changeOpportunityStatus: async (
+    id: number,
+    status: string,
+    stageFields: Partial<OpportunityInput> = {}
+  ): Promise<Opportunity> => {
     try {
-      const response = await api.patch(`/opportunities/${id}/status`, { status });
+      const response = await api.patch(`/opportunities/${id}/status`, { ...stageFields, status });
       return extractData(response);
     } catch (error) {
       console.error(`Error changing status for opportunity with ID ${id}:`, error);
@@ -212,18 +374,30 @@ const opportunityService = {
   },
 
   /**
-   * Get matrix data for cross-sell opportunities visualization
+   * Get one window of the cross-sell matrix, filtered server-side
    */
-  getMatrixData: async (): Promise<MatrixData> => {
+  getMatrixData: async (filters: MatrixFilters, range: MatrixWindowRange): Promise<MatrixData> => {
     try {
-      const response = await api.get('/opportunities/matrix');
-      // Log the response for debugging
-      console.log('Matrix API response:', response);
+      const response = await api.get('/opportunities/matrix', { params: { ...range, ...toMatrixParams(filters) } });
       return extractData(response);
     } catch (error) {
       console.error('Error fetching matrix data:', error);
       throw error;
     }
+  },
+
+  /**
+   * Get scored cross-sell recommendations for client × service pairs with
+   * no service or opportunity yet, best first
+   */
+  getRecommendations: async (params: { clientId?: number; serviceId?: number; limit?: number } = {}): Promise<Recommendation[]> => {
+    try {
+      const response = await api.get('/opportunities/recommendations', { params });
+      return response.data.recommendations || [];
+    } catch (error) {
+      console.error('Error fetching recommendations:', error);
+      throw error;
+    }
   }
 };
 
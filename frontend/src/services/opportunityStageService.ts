@@ -0,0 +1,75 @@
+import api from './api';
+
+export interface OpportunityStageRule {
+  status: string;
+  allowed_transitions: string[];
+  required_fields: string[];
+  // Chance (0-100%) that an opportunity in this stage is won, for the forecast
+  win_probability: number | null;
+  updated_by: number | null;
+  updated_at: string;
+}
+
+export interface OpportunityStageRules {
+  rules: OpportunityStageRule[];
+  requirable_fields: string[];
+}
+
+// Display labels for the fields a stage can require
+export const stageFieldLabels: Record<string, string> = {
+  estimated_value: 'Estimated Value',
+  loss_reason: 'Loss Reason',
+  won_date: 'Won Date',
+  final_value: 'Final Value'
+};
+
+// Amount fields only count as filled in when positive
+const numericStageFields = ['estimated_value', 'final_value'];
+
+/**
+ * Get the required fields of a stage that the given values don't satisfy
+ */
+export const getMissingStageFields = (rule: OpportunityStageRule | undefined, values: Record<string, any>): string[] => {
+  if (!rule) return [];
+  return rule.required_fields.filter(field => {
+    const value = values[field];
+    if (value === undefined || value === null || value === '') return true;
+    return numericStageFields.includes(field) && !(Number(value) > 0);
+  });
+};
+
+const opportunityStageService = {
+  /**
+   * Get the opportunity status transition graph and stage requirements
+   */
+  getStageRules: async (): Promise<OpportunityStageRules> => {
+    try {
+      const response = await api.get('/opportunity-stages');
+      return {
+        rules: Array.isArray(response.data?.rules) ? response.data.rules : [],
+        requirable_fields: Array.isArray(response.data?.requirable_fields) ? response.data.requirable_fields : []
+      };
+    } catch (error) {
+      console.error('Error fetching opportunity stage rules:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update the allowed next stages, required fields and win probability of a stage
+   */
+  updateStageRule: async (
+    status: string,
+    rule: { allowed_transitions: string[]; required_fields: string[]; win_probability?: number }
+  ): Promise<OpportunityStageRule> => {
+    try {
+      const response = await api.put(`/opportunity-stages/${status}`, rule);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating stage rule for ${status}:`, error);
+      throw error;
+    }
+  }
+};
+
+export default opportunityStageService;
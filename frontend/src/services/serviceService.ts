@@ -1,4 +1,5 @@
 import api from './api';
+import { ListParams, Paginated, toQueryParams } from '../utils/listQuery';
 
 // Define types
 export interface Service {
@@ -7,6 +8,9 @@ export interface Service {
   description: string;
   pricing_model: string;
   pricing_details?: string;
+  business_unit_id: number;
+  applicable_industry_ids: number[];
+  // Names of the business unit and industries, for display
   business_unit: string;
   applicable_industries: string[];
   client_role: string;
@@ -20,8 +24,8 @@ export interface ServiceInput {
   description: string;
   pricing_model: string;
   pricing_details?: string;
-  business_unit: string;
-  applicable_industries: string[];
+  business_unit_id: number;
+  applicable_industry_ids: number[];
   client_role: string;
   status: string;
 }
@@ -41,6 +45,22 @@ const serviceService = {
     }
   },
 
+  /**
+   * Get one page of services, sorted, filtered and searched server-side
+   */
+  getServicesPage: async (params: ListParams): Promise<Paginated<Service>> => {
+    try {
+      const response = await api.get('/services', { params: toQueryParams(params) });
+      return {
+        data: response.data.data || [],
+        pagination: response.data.pagination
+      };
+    } catch (error) {
+      console.error('Error fetching services page:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get service by ID
    */
@@ -58,13 +78,13 @@ const serviceService = {
   /**
    * Get services by business unit
    */
-  getServicesByBusinessUnit: async (businessUnit: string): Promise<Service[]> => {
+  getServicesByBusinessUnit: async (businessUnitId: number): Promise<Service[]> => {
     try {
-      const response = await api.get(`/services/business-unit/${businessUnit}`);
+      const response = await api.get(`/services/business-unit/${businessUnitId}`);
       // Extract services array from the response data structure
       return response.data.data || [];
     } catch (error) {
-      console.error(`Error fetching services for business unit ${businessUnit}:`, error);
+      console.error(`Error fetching services for business unit ${businessUnitId}:`, error);
       throw error;
     }
   },
@@ -72,13 +92,13 @@ const serviceService = {
   /**
    * Get services by industry
    */
-  getServicesByIndustry: async (industry: string): Promise<Service[]> => {
+  getServicesByIndustry: async (industryId: number): Promise<Service[]> => {
     try {
-      const response = await api.get(`/services/industry/${industry}`);
+      const response = await api.get(`/services/industry/${industryId}`);
       // Extract services array from the response data structure
       return response.data.data || [];
     } catch (error) {
-      console.error(`Error fetching services for industry ${industry}:`, error);
+      console.error(`Error fetching services for industry ${industryId}:`, error);
       throw error;
     }
   },
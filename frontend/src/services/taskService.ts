@@ -1,5 +1,6 @@
 import api from './api';
 import { AxiosResponse } from 'axios';
+import { ListParams, Paginated, toQueryParams } from '../utils/listQuery';
 
 // Define types
 export interface Task {
@@ -28,7 +29,9 @@ export interface TaskWithDetails extends Task {
   client_name: string;
   service_name: string;
   assigned_user_name: string;
+  business_unit_id: number;
   business_unit: string;
+  opportunity_assigned_user_id?: number;
 }
 
 export interface TaskStats {
@@ -52,6 +55,19 @@ const taskService = {
     }
   },
 
+  /**
+   * Get one page of tasks, sorted, filtered and searched server-side
+   */
+  getTasksPage: async (params: ListParams): Promise<Paginated<TaskWithDetails>> => {
+    try {
+      const response: AxiosResponse<Paginated<TaskWithDetails>> = await api.get('/tasks', { params: toQueryParams(params) });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching tasks page:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get task by ID
    */
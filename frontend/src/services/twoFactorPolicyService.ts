@@ -0,0 +1,45 @@
+import api from './api';
+import { AxiosResponse } from 'axios';
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+interface TwoFactorPolicy {
+  requiredRoles: string[];
+}
+
+/**
+ * Service for the admin two-factor policy API
+ */
+const twoFactorPolicyService = {
+  /**
+   * Get the roles that require two-factor authentication
+   */
+  getRequiredRoles: async (): Promise<string[]> => {
+    try {
+      const response: AxiosResponse<ApiResponse<TwoFactorPolicy>> = await api.get('/admin/two-factor');
+      return response.data.data.requiredRoles;
+    } catch (error) {
+      console.error('Error fetching two-factor policy:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Set the roles that require two-factor authentication
+   */
+  updateRequiredRoles: async (requiredRoles: string[]): Promise<string[]> => {
+    try {
+      const response: AxiosResponse<ApiResponse<TwoFactorPolicy>> = await api.put('/admin/two-factor', { requiredRoles });
+      return response.data.data.requiredRoles;
+    } catch (error) {
+      console.error('Error updating two-factor policy:', error);
+      throw error;
+    }
+  }
+};
+
+export default twoFactorPolicyService;
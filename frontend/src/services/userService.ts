@@ -22,7 +22,7 @@ const userService = {
    */
   getAllUsers: async (): Promise<User[]> => {
     try {
-      const response: AxiosResponse<User[]> = await api.get('/users');
+      const response: AxiosResponse<User[]> = await api.get('/admin/users');
       return response.data;
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -35,7 +35,7 @@ const userService = {
    */
   getUserById: async (id: number): Promise<User> => {
     try {
-      const response: AxiosResponse<User> = await api.get(`/users/${id}`);
+      const response: AxiosResponse<User> = await api.get(`/admin/users/${id}`);
       return response.data;
     } catch (error) {
       console.error(`Error fetching user with ID ${id}:`, error);
@@ -48,7 +48,7 @@ const userService = {
    */
   createUser: async (userData: UserInput): Promise<User> => {
     try {
-      const response: AxiosResponse<User> = await api.post('/users', userData);
+      const response: AxiosResponse<User> = await api.post('/admin/users', userData);
       return response.data;
     } catch (error) {
       console.error('Error creating user:', error);
@@ -61,7 +61,7 @@ const userService = {
    */
   updateUser: async (id: number, userData: Partial<UserInput>): Promise<User> => {
     try {
-      const response: AxiosResponse<User> = await api.put(`/users/${id}`, userData);
+      const response: AxiosResponse<User> = await api.put(`/admin/users/${id}`, userData);
       return response.data;
     } catch (error) {
       console.error(`Error updating user with ID ${id}:`, error);
@@ -74,13 +74,37 @@ const userService = {
    */
   deleteUser: async (id: number): Promise<void> => {
     try {
-      await api.delete(`/users/${id}`);
+      await api.delete(`/admin/users/${id}`);
     } catch (error) {
       console.error(`Error deleting user with ID ${id}:`, error);
       throw error;
     }
   },
 
+  /**
+   * Unlock a user locked out by failed logins
+   */
+  unlockUser: async (id: number): Promise<void> => {
+    try {
+      await api.post(`/admin/users/${id}/unlock`);
+    } catch (error) {
+      console.error(`Error unlocking user with ID ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Turn off a user's two-factor authentication, e.g. after they lose their device
+   */
+  resetTwoFactor: async (id: number): Promise<void> => {
+    try {
+      await api.post(`/admin/users/${id}/reset-2fa`);
+    } catch (error) {
+      console.error(`Error resetting two-factor for user with ID ${id}:`, error);
+      throw error;
+    }
+  },
+
   /**
    * Get users by role
    */
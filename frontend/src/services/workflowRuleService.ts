@@ -0,0 +1,101 @@
+import api from './api';
+
+// Define types
+export interface WorkflowRuleConditions {
+  status?: string;
+  previous_status?: string;
+  priority?: string;
+  business_unit_id?: number;
+  service_id?: number;
+  client_id?: number;
+}
+
+export interface WorkflowRuleActionConfig {
+  task_name?: string;
+  task_description?: string;
+  due_in_days?: number;
+  assign_to?: string;
+  recipient?: string;
+  title?: string;
+  message?: string;
+}
+
+export interface WorkflowRule {
+  id: number;
+  name: string;
+  description?: string;
+  trigger_event: string;
+  conditions: WorkflowRuleConditions;
+  action_type: string;
+  action_config: WorkflowRuleActionConfig;
+  is_active: boolean;
+  created_by: number | null;
+  created_by_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowRuleInput {
+  name: string;
+  description?: string;
+  trigger_event: string;
+  conditions: WorkflowRuleConditions;
+  action_type: string;
+  action_config: WorkflowRuleActionConfig;
+  is_active: boolean;
+}
+
+const workflowRuleService = {
+  /**
+   * Get all workflow rules the current user can manage
+   */
+  getAllRules: async (): Promise<WorkflowRule[]> => {
+    try {
+      const response = await api.get('/workflow-rules');
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching workflow rules:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a workflow rule
+   */
+  createRule: async (ruleData: WorkflowRuleInput): Promise<WorkflowRule> => {
+    try {
+      const response = await api.post('/workflow-rules', ruleData);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error creating workflow rule:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a workflow rule
+   */
+  updateRule: async (id: number, ruleData: Partial<WorkflowRuleInput>): Promise<WorkflowRule> => {
+    try {
+      const response = await api.put(`/workflow-rules/${id}`, ruleData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating workflow rule with ID ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a workflow rule
+   */
+  deleteRule: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/workflow-rules/${id}`);
+    } catch (error) {
+      console.error(`Error deleting workflow rule with ID ${id}:`, error);
+      throw error;
+    }
+  }
+};
+
+export default workflowRuleService;
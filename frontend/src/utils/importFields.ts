@@ -0,0 +1,107 @@
+import { ColumnMapping, ImportEntity } from '../services/importService';
+
+// A field a file column can be mapped onto. The key is the column name the
+// import API reads; aliases are other headers that map onto it automatically.
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  description?: string;
+  aliases?: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  clients: [
+    { key: 'name', label: 'Name', required: true, aliases: ['client', 'client_name'] },
+    { key: 'industry', label: 'Industry', required: true, description: 'Industry name', aliases: ['industry_name', 'industry_id'] },
+    { key: 'contact_name', label: 'Contact Name', aliases: ['contact'] },
+    { key: 'contact_email', label: 'Contact Email', aliases: ['email'] },
+    { key: 'contact_phone', label: 'Contact Phone', aliases: ['phone'] },
+    { key: 'address', label: 'Address' },
+    {
+      key: 'account_owner',
+      label: 'Account Owner',
+      description: 'User email or username; defaults to you',
+      aliases: ['account_owner_email', 'account_owner_id', 'owner']
+    },
+    { key: 'services_used', label: 'Services Used', description: 'Service names separated by semicolons', aliases: ['services'] },
+    { key: 'crm_link', label: 'CRM Link' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'status', label: 'Status', description: 'active, inactive or prospect' }
+  ],
+  services: [
+    { key: 'name', label: 'Name', required: true, aliases: ['service', 'service_name'] },
+    { key: 'description', label: 'Description' },
+    { key: 'business_unit', label: 'Business Unit', required: true, description: 'Business unit name', aliases: ['business_unit_name', 'business_unit_id', 'bu'] },
+    { key: 'pricing_model', label: 'Pricing Model', required: true },
+    { key: 'pricing_details', label: 'Pricing Details' },
+    { key: 'applicable_industries', label: 'Applicable Industries', description: 'Industry names separated by semicolons', aliases: ['industries'] },
+    { key: 'client_role', label: 'Ideal Client Role' },
+    { key: 'status', label: 'Status', description: 'active, inactive or deprecated' }
+  ],
+  opportunities: [
+    { key: 'name', label: 'Name', required: true, aliases: ['opportunity', 'opportunity_name'] },
+    { key: 'client', label: 'Client', required: true, description: 'Client name', aliases: ['client_name', 'client_id'] },
+    { key: 'service', label: 'Service', required: true, description: 'Service name', aliases: ['service_name', 'service_id'] },
+    {
+      key: 'assigned_user',
+      label: 'Assigned User',
+      description: 'User email or username; defaults to you',
+      aliases: ['assigned_user_email', 'assigned_user_name', 'assigned_user_id', 'assignee', 'owner']
+    },
+    { key: 'status', label: 'Status' },
+    { key: 'priority', label: 'Priority', description: 'low, medium, high or critical' },
+    { key: 'estimated_value', label: 'Estimated Value', aliases: ['value', 'amount'] },
+    { key: 'due_date', label: 'Due Date', description: 'YYYY-MM-DD; defaults to 30 days from now', aliases: ['due'] },
+    { key: 'won_date', label: 'Won Date', description: 'YYYY-MM-DD; required for won opportunities' },
+    { key: 'final_value', label: 'Final Value', description: 'Required for won opportunities' },
+    { key: 'loss_reason', label: 'Loss Reason', description: 'Required for lost opportunities' },
+    { key: 'notes', label: 'Notes' }
+  ],
+  tasks: [
+    { key: 'name', label: 'Name', required: true, aliases: ['task', 'task_name'] },
+    { key: 'opportunity', label: 'Opportunity', required: true, description: 'Opportunity name', aliases: ['opportunity_name', 'opportunity_id'] },
+    {
+      key: 'assigned_user',
+      label: 'Assigned User',
+      description: 'User email or username; defaults to you',
+      aliases: ['assigned_user_email', 'assigned_user_name', 'assigned_user_id', 'assignee']
+    },
+    { key: 'due_date', label: 'Due Date', description: 'YYYY-MM-DD; defaults to 7 days from now', aliases: ['due'] },
+    { key: 'status', label: 'Status', description: 'pending, in_progress or completed' },
+    { key: 'description', label: 'Description' }
+  ]
+};
+
+/**
+ * Headers are compared without case, and spaces or dashes count as
+ * underscores, the same way the import API reads them
+ */
+export const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Work out which field each file column maps onto: the user's saved mapping
+ * first, then a header matching a field's key, label or aliases. Columns
+ * matching nothing, and second columns for an already mapped field, are left
+ * out ('').
+ */
+export const suggestMapping = (headers: string[], entity: ImportEntity, saved: ColumnMapping): string[] => {
+  const fields = IMPORT_FIELDS[entity];
+  const used = new Set<string>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const savedField = saved[normalized];
+    const match = savedField !== undefined
+      ? fields.find(field => field.key === savedField)
+      : fields.find(field =>
+          [field.key, normalizeHeader(field.label), ...(field.aliases || [])].includes(normalized));
+
+    if (!match || used.has(match.key)) {
+      return '';
+    }
+    used.add(match.key);
+    return match.key;
+  });
+};
@@ -0,0 +1,61 @@
+// Helpers for the server-side list query contract:
+// ?page=1&pageSize=25&sort=-due_date&filter[status]=new,won&q=acme
+
+export interface ListParams {
+  page?: number;
+  pageSize?: number;
+  // Field name, prefixed with "-" for descending; comma-separate for several
+  sort?: string;
+  // Exact-match filters; an array matches any of its values
+  filter?: Record<string, string | number | Array<string | number> | undefined>;
+  q?: string;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+// Largest page the API serves
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Turn list params into query string params, skipping empty values
+ */
+export const toQueryParams = (params: ListParams): Record<string, string | number> => {
+  const query: Record<string, string | number> = {
+    page: params.page || 1,
+    pageSize: params.pageSize || 25
+  };
+
+  if (params.sort) {
+    query.sort = params.sort;
+  }
+  if (params.q && params.q.trim() !== '') {
+    query.q = params.q.trim();
+  }
+
+  Object.entries(params.filter || {}).forEach(([field, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    const nonEmpty = values.filter(v => v !== undefined && v !== null && v !== '');
+    if (nonEmpty.length > 0) {
+      query[`filter[${field}]`] = nonEmpty.join(',');
+    }
+  });
+
+  return query;
+};
+
+/**
+ * Build a sort param from a field and direction
+ */
+export const toSortParam = (field: string, direction: 'asc' | 'desc'): string => {
+  return direction === 'desc' ? `-${field}` : field;
+};
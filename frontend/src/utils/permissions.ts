@@ -0,0 +1,55 @@
+// Mirror of the backend access policy (backend/src/policies/accessPolicy.ts).
+// The API sends each user their slice of the policy; the server still
+// enforces it, this only decides which actions the UI offers.
+
+export type PolicyResource = 'client' | 'service' | 'opportunity' | 'task' | 'workflow_rule';
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete' | 'report';
+export type PolicyScope = 'all' | 'owned' | 'business_unit';
+
+export type RolePolicy = Partial<Record<PolicyResource, Partial<Record<PolicyAction, PolicyScope>>>>;
+
+export interface UserPermissions {
+  // IDs of the business units the user heads
+  business_unit_ids: number[];
+  rules: RolePolicy;
+}
+
+// Any record the pages show; the fields each resource's scopes look at are optional
+export interface PolicyRecord {
+  account_owner_id?: number | null;
+  assigned_user_id?: number | null;
+  opportunity_assigned_user_id?: number | null;
+  business_unit_id?: number | null;
+}
+
+// Fields naming a record's owners, per resource
+const OWNER_FIELDS: Record<PolicyResource, Array<keyof PolicyRecord>> = {
+  client: ['account_owner_id'],
+  service: [],
+  opportunity: ['assigned_user_id'],
+  task: ['assigned_user_id', 'opportunity_assigned_user_id'],
+  workflow_rule: []
+};
+
+/**
+ * Whether a user may perform an action. Without a record this answers
+ * whether they may perform it on at least some records.
+ */
+export const checkPermission = (
+  permissions: UserPermissions | undefined,
+  userId: number | undefined,
+  action: PolicyAction,
+  resource: PolicyResource,
+  record?: PolicyRecord
+): boolean => {
+  const scope = permissions?.rules[resource]?.[action];
+
+  if (!scope) return false;
+  if (scope === 'all' || !record) return true;
+
+  if (scope === 'owned') {
+    return OWNER_FIELDS[resource].some(field => record[field] !== undefined && record[field] === userId);
+  }
+
+  return !!record.business_unit_id && permissions!.business_unit_ids.includes(record.business_unit_id);
+};
@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+import { encodeQrCode } from './qrCode';
+
+// Known-good symbols from an established encoder (python-qrcode, byte mode,
+// level M, automatic version and mask), one string per row with # for dark
+const REFERENCE_SYMBOLS: Array<{ text: string; rows: string[] }> = [
+  {
+    // Version 1
+    text: 'HELLO WORLD',
+    rows: [
+      '#######.##..#.#######',
+      '#.....#....#..#.....#',
+      '#.###.#..#.#..#.###.#',
+      '#.###.#.#..#..#.###.#',
+      '#.###.#.###.#.#.###.#',
+      '#.....#.#..#..#.....#',
+      '#######.#.#.#.#######',
+      '........#..##........',
+      '#...#.######.#####..#',
+      '...#....#.###....####',
+      '..######..##.##.#..#.',
+      '#####...##...#.......',
+      '#####.#.#.#.#.##..##.',
+      '........#.#.####.#.##',
+      '#######.###.#.#.##.#.',
+      '#.....#..#.###.##..##',
+      '#.###.#.##.#.##...##.',
+      '#.###.#..#..#...##.##',
+      '#.###.#..###...###...',
+      '#.....#....#.#.......',
+      '#######.#########.#.#'
+    ]
+  },
+  {
+    // Version 2, with multi-byte UTF-8 characters
+    text: 'Grüße, 東京',
+    rows: [
+      '#######..##.####..#######',
+      '#.....#....#.####.#.....#',
+      '#.###.#.###..#.#..#.###.#',
+      '#.###.#.#.#...##..#.###.#',
+      '#.###.#.##.....##.#.###.#',
+      '#.....#.#####.....#.....#',
+      '#######.#.#.#.#.#.#######',
+      '........#..#..#.#........',
+      '#.#####....#......#####..',
+      '#.#.##..#..#.###...###..#',
+      '..#####.#...####.##...##.',
+      '#.##.#.#....##.##....##..',
+      '#....###...##.#.....#.#.#',
+      '###.#..##........##...##.',
+      '#.#.###.##.##....#...#.##',
+      '#..##...####..#..####.##.',
+      '#.#..##.####....######.##',
+      '........#.#.###.#...##..#',
+      '#######..#...##.#.#.#.###',
+      '#.....#.#.#.##.##...####.',
+      '#.###.#.##..#.#.#####..#.',
+      '#.###.#.##.....#....#.#.#',
+      '#.###.#.#####....#....#.#',
+      '#.....#..###..###.##....#',
+      '#######.#.##....####.####'
+    ]
+  },
+  {
+    // Version 7: a two-factor setup link, with version information
+    text: 'otpauth://totp/WondrlabApp:jane.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=WondrlabApp',
+    rows: [
+      '#######.##.....#####...#.#.#..#..#..#.#######',
+      '#.....#.#####........#....#..##.#..#..#.....#',
+      '#.###.#..#...#..#.##.###.#.#.#..#..#..#.###.#',
+      '#.###.#.#.##.##..##.#.#.##...###...##.#.###.#',
+      '#.###.#.....##..#########.####.######.#.###.#',
+      '#.....#.....####.####...#..#..##.#....#.....#',
+      '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+      '........##.....#.##.#...#.####.####..........',
+      '#.##.###..##...####.###########..#.#..#..#.##',
+      '.##.##.....#.##.#.#.##.###.#.##.##.###...#.##',
+      '.###.###....##.#.#.#####...#....#.#.##.#.####',
+      '#....#.###...###.#.#.###.#..#..##......###..#',
+      '#.#..##......#.#####....###.#.##.#.#.#.....##',
+      '#.##...##..#....###.###.###.#...##....##.#.#.',
+      '###...#...##.##.#..##....###.##.#..#..##.##..',
+      '.#.###.#..#.#..#.#....##.#...#.###.##.##.####',
+      '..#.#.#.##.#..##....#..#####..###..##.##.#..#',
+      '##.##....#.####..#.#..#.#...##.#.##....###..#',
+      '##.#..#.##.#..#......#.##....###.....#...##..',
+      '.##.#..###.###.....###.###.##.#.#..####.#..##',
+      '..#.#####..#.##.##.########.#.#.....#####.###',
+      '.#.##...#.....#..#.##...###..##.#..##...###.#',
+      '..#.#.#.#.##.#.#.#..#.#.#.#####.#.#.#.#.##..#',
+      '##..#...###..#...#..#...#.#..#.#.#..#...##...',
+      '.#.#######.###..#.#.#####....#.#..#.######.#.',
+      '.##.##..####...##..#.###.##.#....#..##.......',
+      '.#.#..#.##..##.#####.##..###.#.###.##..##....',
+      '..#..#.##.....#..###.#.###....#.##.##.#..##..',
+      '##.#.##..#.#.####..##..####..#.###.#########.',
+      '##..#..##.##.#....####.....##..#.###.#.###..#',
+      '#...#.#.######.#...#.#..#.##..#..#####....##.',
+      '.#####..##.##....#.#....#......#..#.#......#.',
+      '.#.#..##...###..###.###.##.####...#....#.#.#.',
+      '..##....##.#..#..#..#..#.#..#####...#..#.###.',
+      '....#.###...#..#.##.#..#.##..###.#.##.#.#..##',
+      '.####....#.#..####.#.###.#.....###.#..#.##..#',
+      '#..##.####..#.#...########...#.#.#..######.#.',
+      '........##...#...##.#...#.###..###.##...##...',
+      '#######.#####.##...##.#.#..#..##....#.#.#....',
+      '#.....#.#..#....##.##...#..##.......#...###.#',
+      '#.###.#..#.#.##...#.########...##...########.',
+      '#.###.#.##.####.###...#....#...#.##.##..#####',
+      '#.###.#.####...#..###...#.#.##...####....#.#.',
+      '#.....#..#.#########....#.#...##.##.###.....#',
+      '#######.#.####.##.##..##..##..#..#####..#.#..'
+    ]
+  },
+  {
+    // Version 10: 16-bit length and blocks of two sizes
+    text: `https://example.com/${'b'.repeat(180)}`,
+    rows: [
+      '#######...###.###.##.#####.####.#....#.####.#.##..#######',
+      '#.....#...#........#.#....##.....##.#.##.....#.#..#.....#',
+      '#.###.#.#....#.#.##..##.#..##.##.#...####.#.####..#.###.#',
+      '#.###.#.#.##..###...#.....#......######....#...#..#.###.#',
+      '#.###.#.#.#.#.###..#.####.######.....#.####....#..#.###.#',
+      '#.....#.#.####....##.#...##...#..##.#.##...####...#.....#',
+      '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+      '........#..#.#.#..#.#...###...#.##.....##.#.#...#........',
+      '#.#####...##..##.##.##....######.####.#....#......#####..',
+      '#..#.#....#...#..#.#...##..####.#....#.####.#..###.##.#.#',
+      '#..##.#.#.###...#.##..#...##.....##.#.##......#...##...#.',
+      '.##..#.#...#.##.#.#.###.##....#.##.....##.#.##..#..####.#',
+      '####.##.#.##.#..###.#.#.#.##...#.####.#....#.##...#......',
+      '###..#....#..#...#.#.#.#.##..##.#....#.####.#..###.##.#.#',
+      '#....##.##.##.#...##......##.....##.#.##.....##...##...#.',
+      '.##.##.#...#...##.#.#.##.####.#.##.....####.##..#..####..',
+      '##..###.#..#..##.##..##........#.####.##.###.##..##.....#',
+      '##.###...#...#.#.#...#.##..####.#....#....#.#..##..##.#.#',
+      '#.##..#.#..##.#..#.###....##.....##.#.#.#....##..###...#.',
+      '.#.###.....#....#.###...##.###..##.....##.#.##..#...###.#',
+      '##....####.##.##.#...#....#....#.####.#....#.##...#......',
+      '##.###.##.#.##.#..##...##..###..#....#.####.#..###.#....#',
+      '.###..#...###.#..#...#....##..#..##.#.##.....###..##..##.',
+      '#..###.#.####...##.##...##.##.#..#.....##.#.##.#...####.#',
+      '......#.##....##.##.##....#....######.#....#.##...#..#...',
+      '#..###.###.###.#.#.##..##..####.#....#.####....###.##.#.#',
+      '..#######.#.###....###...##########.#.##.....##.#####..#.',
+      '#..##...###.#...#.##....#.#...#.##.....##.#.#####...###.#',
+      '#####.#.##....###.#.##....#.#.##.####.#....#.#..#.#.#....',
+      '....#...##....#...###..####...#.#....#.####.#...#...#.#.#',
+      '...######.##.##.#..###...######..##.#.##.....##.#####..#.',
+      '.###.....###.##...##.#..#..#....##.....##.#.##.#..##.##.#',
+      '.#..###.##.....##.#.######.##.##.####.#....#.##.#..##....',
+      '#.##...#.#........####..#.......#....#.####.#..##.#...#..',
+      '...####.#.##.##....##..########..##.#.##.....##.##.##..##',
+      '.##......###.####.##.#..#..#....##.....###..##.#..##.##..',
+      '.#.##.#.#.#..#....###......#..##.####.#....#.##.#..##....',
+      '#.#.#..#.##...#...#..#.##.#.#...#....#..###.#..##.#...#.#',
+      '...##.#.##.#.####.##.......####..##.#.#.#....##.##.##..#.',
+      '.#####....##.####.#.###.#.#.#...##.....##.#.##.#..##.##.#',
+      '.#.####.######....#......#.##.##.####.#....#.##.#.###....',
+      '#.#.##.#.###..#....#..###.......#....#.####.#..##.#..##.#',
+      '#..#..#.##...####..#.....######..##.#.##.....##.#..##.##.',
+      '..####......#####.#####.#..#.....#.....##.####.##.##.##.#',
+      '...##.#.###..#...###.....#.##.#..####.#....#.##.....##...',
+      '.##......##.#.#.......###....##.#....#.#####...#..#...#.#',
+      '#.#..##.##.######..##....####.#..##.#.##...#######.#...#.',
+      '#####..##..#######.####.#..#.##.##.....##.#.##.#..#..##.#',
+      '......#..###.###.#.#......######.####.#....#....#####....',
+      '........####...##.....#####...#.#....#.####.#...#...#.#.#',
+      '#######..#.###.....###....#.#.#..##.#.##.....####.#.#..#.',
+      '#.....#.#...#....#.##...#.#...#.##.....##.#.##..#...###.#',
+      '#.###.#.####..####.#.#..########.####.#....#.##.#####....',
+      '#.###.#.####.#.##....#.#..###.#.#....#.####.#......##.#..',
+      '#.###.#.#..##..#...###...........##.#.##.....####.#......',
+      '#.....#...#.##...#.##..#..#####.##.....##.#.##...#.####..',
+      '#######.####.#####..#.#..#.#...#.####.#..#.#.##.#.##...#.'
+    ]
+  }
+];
+
+const toRows = (modules: boolean[][]): string[] =>
+  modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+describe('encodeQrCode', () => {
+  REFERENCE_SYMBOLS.forEach(({ text, rows }) => {
+    test(`matches the reference symbol for version ${(rows.length - 17) / 4}`, () => {
+      expect(toRows(encodeQrCode(text))).toEqual(rows);
+    });
+  });
+
+  test('fits up to 213 bytes in version 10', () => {
+    expect(encodeQrCode('x'.repeat(213))).toHaveLength(57);
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text is too long to encode as a QR code');
+  });
+});